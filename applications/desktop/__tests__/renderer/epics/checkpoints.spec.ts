@@ -0,0 +1,41 @@
+import { actions } from "@nteract/core";
+import { Subject } from "rxjs";
+import { toArray } from "rxjs/operators";
+
+import { saveAndCheckpoint } from "../../../src/notebook/actions";
+import { saveAndCheckpointEpic } from "../../../src/notebook/epics/checkpoints";
+
+describe("saveAndCheckpointEpic", () => {
+  test("creates a checkpoint once the notebook is saved", async () => {
+    const action$ = new Subject<any>();
+    const responseActions = saveAndCheckpointEpic(action$)
+      .pipe(toArray())
+      .toPromise();
+
+    action$.next(saveAndCheckpoint({ contentRef: "cRef" }));
+    action$.next(actions.saveFulfilled({ contentRef: "otherRef", model: {} }));
+    action$.next(actions.saveFulfilled({ contentRef: "cRef", model: {} }));
+    action$.next(actions.saveFulfilled({ contentRef: "cRef", model: {} }));
+    action$.complete();
+
+    expect(await responseActions).toEqual([
+      actions.save({ contentRef: "cRef" }),
+      actions.createCheckpoint({ contentRef: "cRef" })
+    ]);
+  });
+
+  test("does not create a checkpoint when saving fails", async () => {
+    const action$ = new Subject<any>();
+    const responseActions = saveAndCheckpointEpic(action$)
+      .pipe(toArray())
+      .toPromise();
+
+    action$.next(saveAndCheckpoint({ contentRef: "cRef" }));
+    action$.next(
+      actions.saveFailed({ contentRef: "cRef", error: new Error("forced") })
+    );
+    action$.complete();
+
+    expect(await responseActions).toEqual([actions.save({ contentRef: "cRef" })]);
+  });
+});
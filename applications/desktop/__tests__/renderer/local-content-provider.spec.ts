@@ -164,3 +164,109 @@ describe("save", () => {
     });
   });
 });
+
+describe("checkpoints", () => {
+  const checkpointDir = "dir/.ipynb_checkpoints";
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    fs.stat.mockImplementation((path, callback) => {
+      callback(null, fileStat);
+    });
+
+    fs.readdir.mockImplementation((path, callback) => {
+      callback(null, [
+        "nb-checkpoint.ipynb",
+        "nb-kb1x2.ipynb",
+        "nb-2-checkpoint.ipynb",
+        "other-checkpoint.ipynb"
+      ]);
+    });
+
+    fs.readFile.mockImplementation((path, callback) => {
+      callback(null, Buffer.from(stringifyNotebook(fileContentJSON)));
+    });
+
+    fs.writeFile.mockImplementation((path, data, callback) => callback());
+    fs.mkdir.mockImplementation((path, mode, callback) => callback());
+    fs.existsSync.mockReturnValue(true);
+    fs.unlink.mockImplementation((path, callback) => callback());
+  });
+
+  it("lists the checkpoints of the notebook only", async () => {
+    const response = await localContentProvider.listCheckpoints(null, "dir/nb.ipynb").toPromise();
+    expect(fs.readdir).toBeCalledWith(checkpointDir, expect.any(Function));
+    expect(response.status).toBe(200);
+    expect(response.response).toEqual([
+      { id: "checkpoint", last_modified: fileStat.mtime.toISOString() },
+      { id: "kb1x2", last_modified: fileStat.mtime.toISOString() }
+    ]);
+  });
+
+  it("lists no checkpoints without a checkpoint directory", async () => {
+    fs.readdir.mockImplementation((path, callback) => {
+      callback(Object.assign(new Error("forced failure"), { code: "ENOENT" }));
+    });
+
+    const response = await localContentProvider.listCheckpoints(null, "dir/nb.ipynb").toPromise();
+    expect(response.status).toBe(200);
+    expect(response.response).toEqual([]);
+  });
+
+  it("copies the notebook into the checkpoint directory", async () => {
+    jest.spyOn(Date, "now").mockReturnValueOnce(36);
+
+    const response = await localContentProvider.createCheckpoint(null, "dir/nb.ipynb").toPromise();
+    expect(fs.writeFile).toBeCalledWith(`${checkpointDir}/nb-10.ipynb`, expect.any(Buffer), expect.any(Function));
+    expect(fs.unlink).not.toBeCalled();
+    expect(response.status).toBe(201);
+    expect(response.response).toEqual({
+      id: "10",
+      last_modified: fileStat.mtime.toISOString()
+    });
+  });
+
+  it("errors on creating a checkpoint of a missing notebook", async () => {
+    fs.readFile.mockImplementation((path, callback) => {
+      callback(new Error("forced failure"));
+    });
+
+    const response = await localContentProvider.createCheckpoint(null, "dir/nb.ipynb").toPromise();
+    expect(fs.writeFile).not.toBeCalled();
+    expect(response.status).toBe(404);
+  });
+
+  it("restores the notebook from a checkpoint", async () => {
+    const response = await localContentProvider.restoreFromCheckpoint(null, "dir/nb.ipynb", "checkpoint").toPromise();
+    expect(fs.readFile).toBeCalledWith(`${checkpointDir}/nb-checkpoint.ipynb`, expect.any(Function));
+    expect(fs.writeFile).toBeCalledWith("dir/nb.ipynb", expect.any(Buffer), expect.any(Function));
+    expect(response.status).toBe(204);
+  });
+
+  it("deletes a checkpoint", async () => {
+    const response = await localContentProvider.deleteCheckpoint(null, "dir/nb.ipynb", "checkpoint").toPromise();
+    expect(fs.unlink).toBeCalledWith(`${checkpointDir}/nb-checkpoint.ipynb`, expect.any(Function));
+    expect(response.status).toBe(204);
+  });
+
+  it("errors on deleting a missing checkpoint", async () => {
+    fs.stat.mockImplementation((path, callback) => {
+      callback(new Error("forced failure"));
+    });
+
+    const response = await localContentProvider.deleteCheckpoint(null, "dir/nb.ipynb", "missing").toPromise();
+    expect(fs.unlink).not.toBeCalled();
+    expect(response.status).toBe(404);
+  });
+
+  it("rejects checkpoint ids outside the checkpoint directory", async () => {
+    const restored = await localContentProvider.restoreFromCheckpoint(null, "dir/nb.ipynb", "../../secret").toPromise();
+    expect(fs.readFile).not.toBeCalled();
+    expect(restored.status).toBe(400);
+
+    const deleted = await localContentProvider.deleteCheckpoint(null, "dir/nb.ipynb", "../other").toPromise();
+    expect(fs.unlink).not.toBeCalled();
+    expect(deleted.status).toBe(400);
+  });
+});
@@ -0,0 +1,60 @@
+import { LocalRecoveryJournal } from "../../src/notebook/recovery-journal";
+
+jest.mock("fs");
+const fs = require("fs");
+
+const entry = {
+  filepath: "/home/nteract/nb.ipynb",
+  journaledAt: "2020-01-01T00:00:00.000Z",
+  notebook: { cells: [], metadata: {}, nbformat: 4, nbformat_minor: 4 }
+};
+const recoveryJournal = new LocalRecoveryJournal("recovery");
+
+function enoent() {
+  return Object.assign(new Error("ENOENT"), { code: "ENOENT" });
+}
+
+describe("LocalRecoveryJournal", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    fs.stat.mockImplementation((path, callback) => callback(null, { isDirectory: () => true }));
+    fs.mkdir.mockImplementation((path, mode, callback) => callback());
+    fs.writeFile.mockImplementation((path, data, callback) => callback());
+    fs.existsSync.mockReturnValue(true);
+    fs.unlink.mockImplementation((path, callback) => callback());
+  });
+
+  it("writes one entry per notebook", async () => {
+    await recoveryJournal.write(entry).toPromise();
+    await recoveryJournal.write({ ...entry, filepath: "/home/nteract/other.ipynb" }).toPromise();
+
+    const [first, second] = fs.writeFile.mock.calls;
+    expect(first[0]).toMatch(/^recovery\/[0-9a-f]{40}\.json$/);
+    expect(second[0]).not.toBe(first[0]);
+    expect(JSON.parse(first[1])).toEqual(entry);
+  });
+
+  it("reads back the entry of a notebook", async () => {
+    fs.readFile.mockImplementation((path, callback) =>
+      callback(null, Buffer.from(JSON.stringify(entry)))
+    );
+    expect(await recoveryJournal.read(entry.filepath).toPromise()).toEqual(entry);
+    expect(await recoveryJournal.read("/home/nteract/other.ipynb").toPromise()).toBeNull();
+  });
+
+  it("has nothing to recover for notebooks without an entry", async () => {
+    fs.readFile.mockImplementation((path, callback) => callback(enoent()));
+    expect(await recoveryJournal.read(entry.filepath).toPromise()).toBeNull();
+  });
+
+  it("ignores discarding missing entries", async () => {
+    fs.existsSync.mockReturnValue(false);
+    await expect(recoveryJournal.discard(entry.filepath).toPromise()).resolves.toBeUndefined();
+  });
+
+  it("surfaces other errors", async () => {
+    fs.unlink.mockImplementation((path, callback) => callback(new Error("EACCES")));
+    await expect(recoveryJournal.discard(entry.filepath).toPromise()).rejects.toThrow("EACCES");
+  });
+});
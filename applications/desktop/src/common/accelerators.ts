@@ -23,10 +23,12 @@ export const accelerators: Accelerators = {
   Paste: "CmdOrCtrl+V",
   PasteCell: { others: "CmdOrCtrl+Shift+V", interceptEarly: true },
   Quit: "Command+Q",
+  RedoNotebookEdit: "CmdOrCtrl+Alt+Shift+Z",
   Reload: "CmdOrCtrl+R",
   Save: "CmdOrCtrl+S",
   SaveAs: "CmdOrCtrl+Shift+S",
   SelectAll: "CmdOrCtrl+A",
+  UndoNotebookEdit: "CmdOrCtrl+Alt+Z",
   ZoomIn: "CmdOrCtrl+=",
   ZoomReset: "CmdOrCtrl+0",
   ZoomOut: "CmdOrCtrl+-",
@@ -1,6 +1,45 @@
-import { actions } from "@nteract/core";
+import { CellId } from "@nteract/commutable";
+import { actions, ContentRef, selectors } from "@nteract/core";
+import { clearSelectedCells, selectors as multiselectSelectors } from "@nteract/mythic-multiselect";
+import { Action } from "redux";
+import { DesktopStore } from "../../../notebook/store";
 import { DesktopCommand, ReqContent } from "../types";
 
+type SelectedCellsPayload = ReqContent & { ids: CellId[] };
+
+/**
+ * Makes the actions of a command acting on the selected cells, or on the
+ * focused cell when no cells are selected. Commands removing cells also
+ * clear the selection, as it would only hold removed cells.
+ */
+const onSelectedCells = (
+  makeAction: (payload: SelectedCellsPayload) => Action,
+  clearSelection = false
+) =>
+  function*(store: DesktopStore, { contentRef }: { contentRef: ContentRef }) {
+    const state = store.getState();
+    const model = selectors.model(state, { contentRef });
+    if (!model || model.type !== "notebook") {
+      return;
+    }
+
+    const cellOrder = model.notebook.cellOrder;
+    const selected = multiselectSelectors
+      .selectedCells(state as any)
+      ?.filter(id => cellOrder.includes(id));
+    const ids = selected && !selected.isEmpty()
+      ? selected.toArray()
+      : [model.cellFocused].filter((id): id is CellId => !!id);
+    if (ids.length === 0) {
+      return;
+    }
+
+    yield makeAction({ contentRef, ids });
+    if (clearSelection) {
+      yield clearSelectedCells.create(null);
+    }
+  };
+
 export const ChangeCellToCode: DesktopCommand<ReqContent> = {
   name: "ChangeCellToCode",
   props: {
@@ -41,6 +80,31 @@ export const RunAllBelow: DesktopCommand<ReqContent> = {
   makeAction: actions.executeAllCellsBelow,
 };
 
+export const RunStaleCells: DesktopCommand<ReqContent> = {
+  name: "RunStaleCells",
+  props: {
+    contentRef: "required",
+  },
+  makeAction: actions.executeStaleCells,
+};
+
+export const ToggleReactiveMode: DesktopCommand<ReqContent> = {
+  name: "ToggleReactiveMode",
+  props: {
+    contentRef: "required",
+  },
+  *makeActions(store, { contentRef }) {
+    const model = selectors.model(store.getState(), { contentRef });
+    if (!model || model.type !== "notebook") {
+      return;
+    }
+    yield actions.setReactiveMode({
+      contentRef,
+      reactive: !selectors.notebook.isReactive(model),
+    });
+  },
+};
+
 export const ClearAll: DesktopCommand<ReqContent> = {
   name: "ClearAll",
   props: {
@@ -59,3 +123,99 @@ export const UnhideAll: DesktopCommand<ReqContent> = {
     outputHidden: false,
   }),
 };
+
+export const RunSelectedCells: DesktopCommand<ReqContent> = {
+  name: "RunSelectedCells",
+  props: {
+    contentRef: "required",
+  },
+  makeActions: onSelectedCells(actions.executeCells),
+};
+
+export const CopySelectedCells: DesktopCommand<ReqContent> = {
+  name: "CopySelectedCells",
+  props: {
+    contentRef: "required",
+  },
+  makeActions: onSelectedCells(actions.copyCells),
+};
+
+export const CutSelectedCells: DesktopCommand<ReqContent> = {
+  name: "CutSelectedCells",
+  props: {
+    contentRef: "required",
+  },
+  makeActions: onSelectedCells(actions.cutCells, true),
+};
+
+export const DeleteSelectedCells: DesktopCommand<ReqContent> = {
+  name: "DeleteSelectedCells",
+  props: {
+    contentRef: "required",
+  },
+  makeActions: onSelectedCells(actions.deleteCells, true),
+};
+
+export const MoveSelectedCellsUp: DesktopCommand<ReqContent> = {
+  name: "MoveSelectedCellsUp",
+  props: {
+    contentRef: "required",
+  },
+  makeActions: onSelectedCells(actions.moveCells.with({ above: true })),
+};
+
+export const MoveSelectedCellsDown: DesktopCommand<ReqContent> = {
+  name: "MoveSelectedCellsDown",
+  props: {
+    contentRef: "required",
+  },
+  makeActions: onSelectedCells(actions.moveCells.with({ above: false })),
+};
+
+export const ChangeSelectedCellsToCode: DesktopCommand<ReqContent> = {
+  name: "ChangeSelectedCellsToCode",
+  props: {
+    contentRef: "required",
+  },
+  makeActions: onSelectedCells(actions.changeCellsType.with({ to: "code" })),
+};
+
+export const ChangeSelectedCellsToText: DesktopCommand<ReqContent> = {
+  name: "ChangeSelectedCellsToText",
+  props: {
+    contentRef: "required",
+  },
+  makeActions: onSelectedCells(actions.changeCellsType.with({ to: "markdown" })),
+};
+
+export const MergeSelectedCells: DesktopCommand<ReqContent> = {
+  name: "MergeSelectedCells",
+  props: {
+    contentRef: "required",
+  },
+  makeActions: onSelectedCells(actions.mergeCells, true),
+};
+
+export const ToggleSelectedCellsInput: DesktopCommand<ReqContent> = {
+  name: "ToggleSelectedCellsInput",
+  props: {
+    contentRef: "required",
+  },
+  makeActions: onSelectedCells(actions.toggleCellsInputVisibility),
+};
+
+export const ToggleSelectedCellsOutput: DesktopCommand<ReqContent> = {
+  name: "ToggleSelectedCellsOutput",
+  props: {
+    contentRef: "required",
+  },
+  makeActions: onSelectedCells(actions.toggleCellsOutputVisibility),
+};
+
+export const ClearSelectedCellsOutputs: DesktopCommand<ReqContent> = {
+  name: "ClearSelectedCellsOutputs",
+  props: {
+    contentRef: "required",
+  },
+  makeActions: onSelectedCells(actions.clearCellsOutputs),
+};
@@ -1,6 +1,22 @@
 import { actions } from "@nteract/core";
 import { DesktopCommand, ElectronRoleCommand, ReqContent } from "../types";
 
+export const UndoNotebookEdit: DesktopCommand<ReqContent> = {
+  name: "UndoNotebookEdit",
+  props: {
+    contentRef: "required",
+  },
+  makeAction: actions.undo,
+};
+
+export const RedoNotebookEdit: DesktopCommand<ReqContent> = {
+  name: "RedoNotebookEdit",
+  props: {
+    contentRef: "required",
+  },
+  makeAction: actions.redo,
+};
+
 export const Cut: ElectronRoleCommand = {
   name: "Cut",
   mapToElectronRole: "cut",
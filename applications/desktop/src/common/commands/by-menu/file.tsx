@@ -1,3 +1,4 @@
+import { fromJS, parseNotebook } from "@nteract/commutable";
 import { actions, createKernelRef, selectors } from "@nteract/core";
 import { sendNotification } from "@nteract/mythic-notifications";
 import { openExternalFile } from "@nteract/mythic-windowing";
@@ -7,6 +8,7 @@ import * as path from "path";
 import React from "react";
 import { promisify } from "util";
 import { launch, launchNewNotebook } from "../../../main/launch";
+import { saveAndCheckpoint, showComparison } from "../../../notebook/actions";
 import { dispatchCommandInRenderer } from "../dispatch";
 import { DesktopCommand, ElectronRoleCommand, ReqContent, ReqKernelSpec } from "../types";
 import { authenticate } from "../utils/auth";
@@ -108,7 +110,40 @@ export const Save: DesktopCommand<ReqContent> = {
     if (filepath === null || filepath === "") {
       yield* SaveAs.makeActions!(store, props);
     } else {
-      yield actions.save(props);
+      yield saveAndCheckpoint(props);
+    }
+  },
+};
+
+export const CompareWithSaved: DesktopCommand<ReqContent> = {
+  name: "CompareWithSaved",
+  props: {
+    contentRef: "required",
+  },
+  async *makeActions(store, props) {
+    const filepath = selectors.filepath(store.getState(), props);
+
+    if (filepath === null || filepath === "") {
+      yield sendNotification.create({
+        title: "File has not been saved!",
+        message: "There is no saved version of the notebook to compare with.",
+        level: "warning",
+      });
+      return;
+    }
+
+    try {
+      const content = await promisify(fs.readFile)(filepath, "utf8");
+      yield showComparison({
+        title: path.basename(filepath),
+        notebook: fromJS(parseNotebook(content)),
+      });
+    } catch (error) {
+      yield sendNotification.create({
+        title: "Could not read the saved notebook",
+        message: error.message,
+        level: "error",
+      });
     }
   },
 };
@@ -1,4 +1,6 @@
-import { actions, createKernelRef } from "@nteract/core";
+import { actions, createKernelRef, selectors } from "@nteract/core";
+import { sendNotification } from "@nteract/mythic-notifications";
+import { showParameters } from "../../../notebook/actions";
 import { DesktopCommand, ReqContent, ReqKernelSpec } from "../types";
 import { currentDocumentDirectory } from "../utils/directories";
 
@@ -42,6 +44,33 @@ export const RestartAndRunAll: DesktopCommand<ReqContent> = {
   makeAction: actions.restartKernel.with({ outputHandling: "Run All" }),
 };
 
+export const RunWithParameters: DesktopCommand<ReqContent> = {
+  name: "RunWithParameters",
+  props: {
+    contentRef: "required",
+  },
+  *makeActions(store, props) {
+    const model = selectors.model(store.getState(), props);
+
+    if (
+      !model ||
+      model.type !== "notebook" ||
+      !selectors.notebook.parameters(model)
+    ) {
+      yield sendNotification.create({
+        title: "No parameters cell",
+        message:
+          "Tag the cell assigning the parameters with \"parameters\" from " +
+          "its toolbar to run the notebook with other values.",
+        level: "warning",
+      });
+      return;
+    }
+
+    yield showParameters();
+  },
+};
+
 export const NewKernel: DesktopCommand<ReqContent & ReqKernelSpec> = {
   name: "NewKernel",
   props: {
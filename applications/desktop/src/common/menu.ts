@@ -63,6 +63,7 @@ export const menu: MenuDefinition = [
     ]],
     ["&Save", commands.Save],
     ["Save &As", commands.SaveAs],
+    ["&Compare with Saved", commands.CompareWithSaved],
     [],
     ["&Publish", [
       ["&Gist", commands.PublishGist],
@@ -74,6 +75,9 @@ export const menu: MenuDefinition = [
     ["Exit", commands.Close, { platform: "win32" }],
   ]],
   ["Edit", [
+    ["Undo Notebook Edit", commands.UndoNotebookEdit],
+    ["Redo Notebook Edit", commands.RedoNotebookEdit],
+    [],
     ["Cut", commands.Cut],
     ["Copy", commands.Copy],
     ["Paste", commands.Paste],
@@ -96,8 +100,28 @@ export const menu: MenuDefinition = [
     ["Run All", commands.RunAll],
     ["Run All Above", commands.RunAllAbove],
     ["Run All Below", commands.RunAllBelow],
+    ["Run Stale Cells", commands.RunStaleCells],
+    ["Toggle Reactive Mode", commands.ToggleReactiveMode],
     ["Clear All Outputs", commands.ClearAll],
     ["Unhide Input and Output in all Cells", commands.UnhideAll],
+    [],
+    ["Selected Cells", [
+      ["Run", commands.RunSelectedCells],
+      [],
+      ["Copy", commands.CopySelectedCells],
+      ["Cut", commands.CutSelectedCells],
+      ["Delete", commands.DeleteSelectedCells],
+      [],
+      ["Move Up", commands.MoveSelectedCellsUp],
+      ["Move Down", commands.MoveSelectedCellsDown],
+      ["Merge", commands.MergeSelectedCells],
+      [],
+      ["Change Type to Code", commands.ChangeSelectedCellsToCode],
+      ["Change Type to Text", commands.ChangeSelectedCellsToText],
+      ["Toggle Input Visibility", commands.ToggleSelectedCellsInput],
+      ["Toggle Output Visibility", commands.ToggleSelectedCellsOutput],
+      ["Clear Outputs", commands.ClearSelectedCellsOutputs],
+    ]],
   ]],
   ["View", [
     ["Reload", commands.Reload],
@@ -114,6 +138,7 @@ export const menu: MenuDefinition = [
     ["&Restart", commands.RestartKernel],
     ["Restart and &Clear All Cells", commands.RestartAndClearAll],
     ["Restart and Run &All Cells", commands.RestartAndRunAll],
+    ["Run with &Parameters", commands.RunWithParameters],
     [],
     ["&Install Runtimes", "https://nteract.io/kernels"],
     [],
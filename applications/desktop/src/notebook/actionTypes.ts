@@ -1,6 +1,9 @@
 import { ContentRef } from "@nteract/core";
 
-import { DesktopNotebookClosingState } from "./state";
+import {
+  DesktopNotebookClosingState,
+  DesktopNotebookComparison
+} from "./state";
 
 export const CLOSE_NOTEBOOK = "DESKTOP/CLOSE_NOTEBOOK";
 export interface CloseNotebook {
@@ -18,3 +21,32 @@ export interface CloseNotebookProgress {
     newState: DesktopNotebookClosingState;
   };
 }
+
+export const SHOW_COMPARISON = "DESKTOP/SHOW_COMPARISON";
+export interface ShowComparison {
+  type: "DESKTOP/SHOW_COMPARISON";
+  payload: DesktopNotebookComparison;
+}
+
+export const HIDE_COMPARISON = "DESKTOP/HIDE_COMPARISON";
+export interface HideComparison {
+  type: "DESKTOP/HIDE_COMPARISON";
+}
+
+export const SHOW_PARAMETERS = "DESKTOP/SHOW_PARAMETERS";
+export interface ShowParameters {
+  type: "DESKTOP/SHOW_PARAMETERS";
+}
+
+export const HIDE_PARAMETERS = "DESKTOP/HIDE_PARAMETERS";
+export interface HideParameters {
+  type: "DESKTOP/HIDE_PARAMETERS";
+}
+
+export const SAVE_AND_CHECKPOINT = "DESKTOP/SAVE_AND_CHECKPOINT";
+export interface SaveAndCheckpoint {
+  type: "DESKTOP/SAVE_AND_CHECKPOINT";
+  payload: {
+    contentRef: ContentRef;
+  };
+}
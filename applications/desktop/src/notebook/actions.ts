@@ -1,7 +1,10 @@
 import { ContentRef } from "@nteract/core";
 
 import * as actionTypes from "./actionTypes";
-import { DesktopNotebookClosingState } from "./state";
+import {
+  DesktopNotebookClosingState,
+  DesktopNotebookComparison
+} from "./state";
 
 export function closeNotebook(payload: {
   contentRef: ContentRef;
@@ -22,6 +25,42 @@ export function closeNotebookProgress(payload: {
   };
 }
 
+export function showComparison(
+  payload: DesktopNotebookComparison
+): actionTypes.ShowComparison {
+  return {
+    type: actionTypes.SHOW_COMPARISON,
+    payload
+  };
+}
+
+export function hideComparison(): actionTypes.HideComparison {
+  return {
+    type: actionTypes.HIDE_COMPARISON
+  };
+}
+
+export function showParameters(): actionTypes.ShowParameters {
+  return {
+    type: actionTypes.SHOW_PARAMETERS
+  };
+}
+
+export function hideParameters(): actionTypes.HideParameters {
+  return {
+    type: actionTypes.HIDE_PARAMETERS
+  };
+}
+
+export function saveAndCheckpoint(payload: {
+  contentRef: ContentRef;
+}): actionTypes.SaveAndCheckpoint {
+  return {
+    type: actionTypes.SAVE_AND_CHECKPOINT,
+    payload
+  };
+}
+
 // Need to merge types from core actions with the actions defined here and actionTypes
 export type Actions =
   | {
@@ -30,4 +69,9 @@ export type Actions =
       error?: boolean;
     }
   | actionTypes.CloseNotebookProgress
-  | actionTypes.CloseNotebook;
+  | actionTypes.CloseNotebook
+  | actionTypes.ShowComparison
+  | actionTypes.HideComparison
+  | actionTypes.ShowParameters
+  | actionTypes.HideParameters
+  | actionTypes.SaveAndCheckpoint;
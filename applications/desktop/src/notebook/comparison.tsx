@@ -0,0 +1,75 @@
+import { ContentRef } from "@nteract/core";
+import { DiffMode } from "@nteract/presentational-components";
+import { NotebookDiff } from "@nteract/stateful-components";
+import React from "react";
+import { connect } from "react-redux";
+import { Dispatch } from "redux";
+
+import { hideComparison } from "./actions";
+import { DesktopNotebookAppState, DesktopNotebookComparison } from "./state";
+
+interface ComponentProps {
+  contentRef: ContentRef;
+}
+
+interface StateProps {
+  comparison: DesktopNotebookComparison | null;
+}
+
+interface DispatchProps {
+  onClose: () => void;
+}
+
+type Props = ComponentProps & StateProps & DispatchProps;
+
+interface State {
+  mode: DiffMode;
+}
+
+/**
+ * Shows the changes between the open notebook and another version of it,
+ * e.g. the file on disk, on top of the notebook.
+ */
+export class Comparison extends React.PureComponent<Props, State> {
+  state: State = { mode: "side-by-side" };
+
+  toggleMode = () =>
+    this.setState(({ mode }) => ({
+      mode: mode === "inline" ? "side-by-side" : "inline",
+    }));
+
+  render(): JSX.Element | null {
+    const { comparison, contentRef, onClose } = this.props;
+    if (!comparison) {
+      return null;
+    }
+
+    return (
+      <div className="desktop-comparison">
+        <div className="desktop-comparison-toolbar">
+          <button onClick={this.toggleMode}>
+            {this.state.mode === "inline" ? "Side by side" : "Inline"}
+          </button>
+          <button onClick={onClose}>Close</button>
+        </div>
+        <NotebookDiff
+          contentRef={contentRef}
+          before={comparison.notebook}
+          beforeLabel={comparison.title}
+          afterLabel="Open notebook"
+          mode={this.state.mode}
+        />
+      </div>
+    );
+  }
+}
+
+const mapStateToProps = (state: DesktopNotebookAppState): StateProps => ({
+  comparison: state.desktopNotebook.comparison,
+});
+
+const mapDispatchToProps = (dispatch: Dispatch): DispatchProps => ({
+  onClose: () => dispatch(hideComparison()),
+});
+
+export default connect(mapStateToProps, mapDispatchToProps)(Comparison);
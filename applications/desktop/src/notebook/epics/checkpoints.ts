@@ -0,0 +1,33 @@
+import { actions as coreActions } from "@nteract/core";
+import { ofType } from "redux-observable";
+import { merge, Observable, of } from "rxjs";
+import { filter, mapTo, mergeMap, take } from "rxjs/operators";
+
+import { SAVE_AND_CHECKPOINT, SaveAndCheckpoint } from "../actionTypes";
+
+/**
+ * Saves the notebook and, once it is written to disk, checkpoints the saved
+ * version. Auto-saves go through the plain save action and don't add to the
+ * checkpoint history.
+ */
+export const saveAndCheckpointEpic = (action$: Observable<any>) =>
+  action$.pipe(
+    ofType(SAVE_AND_CHECKPOINT),
+    mergeMap((action: SaveAndCheckpoint) => {
+      const { contentRef } = action.payload;
+
+      return merge(
+        action$.pipe(
+          ofType(coreActions.SAVE_FULFILLED, coreActions.SAVE_FAILED),
+          filter(
+            (saved: coreActions.SaveFulfilled | coreActions.SaveFailed) =>
+              saved.payload.contentRef === contentRef
+          ),
+          take(1),
+          filter(saved => saved.type === coreActions.SAVE_FULFILLED),
+          mapTo(coreActions.createCheckpoint({ contentRef }))
+        ),
+        of(coreActions.save({ contentRef }))
+      );
+    })
+  );
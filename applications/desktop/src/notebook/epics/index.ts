@@ -4,6 +4,7 @@ import { Observable } from "rxjs";
 import { catchError, startWith } from "rxjs/operators";
 import { Actions } from "../actions";
 import { DesktopNotebookAppState } from "../state";
+import { saveAndCheckpointEpic } from "./checkpoints";
 import { closeNotebookEpic } from "./close-notebook";
 import { publishEpic } from "./github-publish";
 import { newNotebookEpic } from "./loading";
@@ -36,10 +37,40 @@ const epics = [
   coreEpics.saveAsContentEpic,
   coreEpics.fetchContentEpic,
   coreEpics.autoSaveCurrentContentEpic,
+  coreEpics.fetchCheckpointsEpic,
+  coreEpics.createCheckpointEpic,
+  coreEpics.deleteCheckpointEpic,
+  coreEpics.restoreCheckpointEpic,
+  coreEpics.journalUnsavedNotebooksEpic,
+  coreEpics.discardJournalEpic,
+  coreEpics.offerRecoveryEpic,
+  coreEpics.startDebuggingEpic,
+  coreEpics.debugEventsEpic,
+  coreEpics.debugStepEpic,
+  coreEpics.selectDebugFrameEpic,
+  coreEpics.syncBreakpointsEpic,
+  coreEpics.stopDebuggingEpic,
+  coreEpics.fetchKernelVariablesEpic,
+  coreEpics.inspectKernelVariableEpic,
+  coreEpics.refreshKernelVariablesEpic,
+  coreEpics.executeConsolePromptEpic,
+  coreEpics.fetchConsoleHistoryEpic,
+  coreEpics.exportConsoleEpic,
+  coreEpics.fetchKernelHistoryEpic,
+  coreEpics.openCommEpic,
+  coreEpics.sendCommMessageEpic,
+  coreEpics.closeCommEpic,
+  coreEpics.fetchCommInfoEpic,
+  coreEpics.widgetMessagesEpic,
+  coreEpics.requestWidgetStatesEpic,
   coreEpics.sendInputReplyEpic,
   coreEpics.executeCellAfterKernelLaunchEpic,
   coreEpics.sendExecuteRequestEpic,
   coreEpics.lazyLaunchKernelEpic,
+  coreEpics.runWithParametersEpic,
+  coreEpics.analyzeCellDependenciesEpic,
+  coreEpics.executeDownstreamCellsEpic,
+  coreEpics.executeStaleCellsEpic,
 
   watchSpawn,
   publishEpic,
@@ -48,7 +79,8 @@ const epics = [
   launchKernelByNameEpic,
   interruptKernelEpic,
   killKernelEpic,
-  closeNotebookEpic
+  closeNotebookEpic,
+  saveAndCheckpointEpic
 ];
 
 export default epics.map<Epic<Actions, Actions, DesktopNotebookAppState>>(
@@ -65,9 +65,11 @@ import React from "react";
 import ReactDOM from "react-dom";
 import { Provider } from "react-redux";
 
+import Comparison from "./comparison";
 import { initGlobalHandlers } from "./global-events";
 import { initMenuHandlers } from "./menu";
 import { initNativeHandlers } from "./native-window";
+import Parameters from "./parameters";
 import { makeDesktopNotebookRecord } from "./state";
 import configureStore, { DesktopStore } from "./store";
 
@@ -188,6 +190,8 @@ export default class App extends React.PureComponent {
             // browser window
             contentRef={contentRef}
           />
+          <Comparison contentRef={contentRef} />
+          <Parameters contentRef={contentRef} />
         </MathJax.Provider>
       </Provider>
     );
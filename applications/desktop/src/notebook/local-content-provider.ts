@@ -1,11 +1,36 @@
 import { Notebook, stringifyNotebook } from "@nteract/commutable";
-import { FileType, IContent, IContentProvider, IGetParams, ServerConfig } from "@nteract/types";
+import { FileType, ICheckpoint, IContent, IContentProvider, IGetParams, ServerConfig } from "@nteract/types";
 import * as fs from "fs";
-import { readFileObservable, statObservable, writeFileObservable } from "fs-observable";
+import { mkdirpObservable, readdirObservable, readFileObservable, statObservable, unlinkObservable, writeFileObservable } from "fs-observable";
 import * as path from "path";
-import { Observable, of } from "rxjs";
+import { forkJoin, Observable, of, throwError } from "rxjs";
 import { AjaxResponse } from "rxjs/ajax";
-import { catchError, map, mergeMap } from "rxjs/operators";
+import { catchError, map, mapTo, mergeMap } from "rxjs/operators";
+
+// Same directory the Jupyter server keeps its checkpoints in, so both see the same history
+const CHECKPOINT_DIR = ".ipynb_checkpoints";
+
+// Checkpoints are made on every save, so only keep the most recent ones around
+const MAX_CHECKPOINTS = 20;
+
+// Ids never contain a dash, so `a-b.ipynb` checkpoints are not mistaken for `a.ipynb` ones,
+// nor a path separator or dot, so an id can't point outside the checkpoint directory
+const CHECKPOINT_ID = /^[0-9a-z]+$/;
+
+function checkpointPath(filePath: string, checkpointID: string): string {
+  const { dir, name, ext } = path.parse(filePath);
+  return path.join(dir, CHECKPOINT_DIR, `${name}-${checkpointID}${ext}`);
+}
+
+function checkpointID(filePath: string, fileName: string): string | null {
+  const { name, ext } = path.parse(filePath);
+  if (!fileName.startsWith(`${name}-`) || !fileName.endsWith(ext)) {
+    return null;
+  }
+
+  const id = fileName.slice(name.length + 1, fileName.length - ext.length);
+  return CHECKPOINT_ID.test(id) ? id : null;
+}
 
 // A Content provider which reads/writes to local disk
 export class LocalContentProvider implements IContentProvider {
@@ -66,20 +91,121 @@ export class LocalContentProvider implements IContentProvider {
     );
   }
 
-  public listCheckpoints(serverConfig: ServerConfig, path: string): Observable<AjaxResponse> {
-    throw new Error("Not implemented");
+  public listCheckpoints(serverConfig: ServerConfig, filePath: string): Observable<AjaxResponse> {
+    return this.readCheckpoints(filePath).pipe(
+      map(checkpoints => this.createSuccessAjaxResponse(checkpoints)),
+      catchError(error => of(this.createErrorAjaxResponse(500, error)))
+    );
   }
 
-  public createCheckpoint(serverConfig: ServerConfig, path: string): Observable<AjaxResponse> {
-    throw new Error("Not implemented");
+  public createCheckpoint(serverConfig: ServerConfig, filePath: string): Observable<AjaxResponse> {
+    const id = Date.now().toString(36);
+    const target = checkpointPath(filePath, id);
+
+    return readFileObservable(filePath).pipe(
+      mergeMap((content: Buffer) =>
+        mkdirpObservable(path.dirname(target)).pipe(
+          mergeMap(() => writeFileObservable(target, content)),
+          mergeMap(() => statObservable(target)),
+          map((stat: fs.Stats) => this.createCheckpointModel(id, stat)),
+          mergeMap((checkpoint: ICheckpoint) =>
+            this.pruneCheckpoints(filePath).pipe(mapTo(checkpoint))
+          ),
+          map((checkpoint: ICheckpoint) => this.createSuccessAjaxResponse(checkpoint, 201)),
+          catchError(error => of(this.createErrorAjaxResponse(500, error)))
+        )
+      ),
+      catchError(error => of(this.createErrorAjaxResponse(404, error)))
+    );
   }
 
-  public deleteCheckpoint(serverConfig: ServerConfig, path: string, checkpointID: string): Observable<AjaxResponse> {
-    throw new Error("Not implemented");
+  public deleteCheckpoint(serverConfig: ServerConfig, filePath: string, checkpointID: string): Observable<AjaxResponse> {
+    if (!CHECKPOINT_ID.test(checkpointID)) {
+      return of(this.createErrorAjaxResponse(400, new Error(`Invalid checkpoint id: ${checkpointID}`)));
+    }
+
+    const target = checkpointPath(filePath, checkpointID);
+
+    return statObservable(target).pipe(
+      mergeMap(() =>
+        unlinkObservable(target).pipe(
+          map(() => this.createSuccessAjaxResponse(null, 204)),
+          catchError(error => of(this.createErrorAjaxResponse(500, error)))
+        )
+      ),
+      catchError(error => of(this.createErrorAjaxResponse(404, error)))
+    );
   }
 
-  public restoreFromCheckpoint(serverConfig: ServerConfig, path: string, checkpointID: string): Observable<AjaxResponse> {
-    throw new Error("Not implemented");
+  public restoreFromCheckpoint(serverConfig: ServerConfig, filePath: string, checkpointID: string): Observable<AjaxResponse> {
+    if (!CHECKPOINT_ID.test(checkpointID)) {
+      return of(this.createErrorAjaxResponse(400, new Error(`Invalid checkpoint id: ${checkpointID}`)));
+    }
+
+    return readFileObservable(checkpointPath(filePath, checkpointID)).pipe(
+      mergeMap((content: Buffer) =>
+        writeFileObservable(filePath, content).pipe(
+          map(() => this.createSuccessAjaxResponse(null, 204)),
+          catchError(error => of(this.createErrorAjaxResponse(500, error)))
+        )
+      ),
+      catchError(error => of(this.createErrorAjaxResponse(404, error)))
+    );
+  }
+
+  /**
+   * The checkpoints of a file, newest first. A missing checkpoint directory
+   * just means there are none yet.
+   */
+  private readCheckpoints(filePath: string): Observable<ICheckpoint[]> {
+    const dir = path.join(path.dirname(filePath), CHECKPOINT_DIR);
+
+    return readdirObservable(dir).pipe(
+      catchError(error =>
+        error.code === "ENOENT" ? of([] as string[]) : throwError(error)
+      ),
+      mergeMap((fileNames: Array<string | Buffer>): Observable<ICheckpoint[]> => {
+        const ids = fileNames
+          .map(fileName => checkpointID(filePath, fileName.toString()))
+          .filter((id): id is string => id !== null);
+        if (ids.length === 0) {
+          return of([] as ICheckpoint[]);
+        }
+
+        return forkJoin(
+          ids.map(id =>
+            statObservable(checkpointPath(filePath, id)).pipe(
+              map((stat: fs.Stats) => this.createCheckpointModel(id, stat))
+            )
+          )
+        );
+      }),
+      map(checkpoints =>
+        checkpoints.sort((a, b) => b.last_modified.localeCompare(a.last_modified))
+      )
+    );
+  }
+
+  private pruneCheckpoints(filePath: string): Observable<void> {
+    return this.readCheckpoints(filePath).pipe(
+      mergeMap(checkpoints => {
+        const stale = checkpoints.slice(MAX_CHECKPOINTS);
+        if (stale.length === 0) {
+          return of(undefined);
+        }
+
+        return forkJoin(
+          stale.map(checkpoint => unlinkObservable(checkpointPath(filePath, checkpoint.id)))
+        ).pipe(mapTo(undefined));
+      })
+    );
+  }
+
+  private createCheckpointModel(id: string, stat: fs.Stats): ICheckpoint {
+    return {
+      id,
+      last_modified: stat.mtime.toISOString()
+    };
   }
 
   private createNotebookModel(filePath: string, stat: fs.Stats, content?: string): IContent<"notebook"> {
@@ -105,14 +231,17 @@ export class LocalContentProvider implements IContentProvider {
     };
   }
 
-  private createSuccessAjaxResponse(notebook: IContent<"notebook">): AjaxResponse {
+  private createSuccessAjaxResponse(
+    response: IContent<"notebook"> | ICheckpoint | ICheckpoint[] | null,
+    status: number = 200
+  ): AjaxResponse {
     return {
       originalEvent: new Event("no-op"),
       xhr: new XMLHttpRequest(),
       request: {},
-      status: 200,
-      response: notebook,
-      responseText: JSON.stringify(notebook),
+      status,
+      response,
+      responseText: JSON.stringify(response),
       responseType: "json"
     };
   }
@@ -0,0 +1,72 @@
+import { ContentRef } from "@nteract/core";
+import { ParametersForm } from "@nteract/stateful-components";
+import React from "react";
+import { connect } from "react-redux";
+import { Dispatch } from "redux";
+
+import { hideParameters } from "./actions";
+import { DesktopNotebookAppState, DesktopNotebookParametersRun } from "./state";
+
+interface ComponentProps {
+  contentRef: ContentRef;
+}
+
+interface StateProps {
+  parametersRun: DesktopNotebookParametersRun | null;
+}
+
+interface DispatchProps {
+  onClose: () => void;
+}
+
+type Props = ComponentProps & StateProps & DispatchProps;
+
+function statusMessage(run: DesktopNotebookParametersRun): string | null {
+  switch (run.status) {
+    case "running":
+      return "Running the notebook…";
+    case "done":
+      return `Saved the executed notebook to ${run.filepath}`;
+    case "failed":
+      return run.error ? run.error.message : "The run failed";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Asks for the values of the parameters of the notebook, then runs it with
+ * them and saves the executed copy, on top of the notebook.
+ */
+export const Parameters = (props: Props): JSX.Element | null => {
+  const { parametersRun, contentRef, onClose } = props;
+  if (!parametersRun) {
+    return null;
+  }
+
+  return (
+    <div className="desktop-parameters">
+      <div className="desktop-parameters-toolbar">
+        <strong>Run with parameters</strong>
+        <button onClick={onClose}>Close</button>
+      </div>
+      <ParametersForm
+        contentRef={contentRef}
+        running={parametersRun.status === "running"}
+      />
+      <div className="desktop-parameters-status">
+        {statusMessage(parametersRun)}
+      </div>
+    </div>
+  );
+};
+
+const mapStateToProps = (state: DesktopNotebookAppState): StateProps => ({
+  parametersRun: state.desktopNotebook.parametersRun,
+});
+
+const mapDispatchToProps = (dispatch: Dispatch): DispatchProps => ({
+  onClose: () => dispatch(hideParameters()),
+});
+
+export default connect(mapStateToProps, mapDispatchToProps)(Parameters);
@@ -0,0 +1,41 @@
+import { IJournalEntry, IRecoveryJournal } from "@nteract/types";
+import { createHash } from "crypto";
+import { mkdirpObservable, readFileObservable, unlinkObservable, writeFileObservable } from "fs-observable";
+import * as path from "path";
+import { Observable, of, throwError } from "rxjs";
+import { catchError, map, mapTo, mergeMap } from "rxjs/operators";
+
+// Entries are named after a hash of the notebook path, so any path maps to a valid file name
+function entryPath(directory: string, filepath: string): string {
+  const hash = createHash("sha1").update(filepath).digest("hex");
+  return path.join(directory, `${hash}.json`);
+}
+
+// A recovery journal which keeps one JSON file per notebook in a local directory
+export class LocalRecoveryJournal implements IRecoveryJournal {
+  constructor(private readonly directory: string) {}
+
+  public write(entry: IJournalEntry): Observable<void> {
+    return mkdirpObservable(this.directory).pipe(
+      mergeMap(() =>
+        writeFileObservable(entryPath(this.directory, entry.filepath), JSON.stringify(entry))
+      ),
+      mapTo(undefined)
+    );
+  }
+
+  public read(filepath: string): Observable<IJournalEntry | null> {
+    return readFileObservable(entryPath(this.directory, filepath)).pipe(
+      map((content: Buffer) => {
+        const entry: IJournalEntry = JSON.parse(content.toString());
+        // Guard against hash collisions
+        return entry.filepath === filepath ? entry : null;
+      }),
+      catchError(error => error.code === "ENOENT" ? of(null) : throwError(error))
+    );
+  }
+
+  public discard(filepath: string): Observable<void> {
+    return unlinkObservable(entryPath(this.directory, filepath)).pipe(mapTo(undefined));
+  }
+}
@@ -1,3 +1,5 @@
+import { actions } from "@nteract/core";
+
 import * as actionTypes from "./actionTypes";
 import { DesktopNotebookRecord } from "./state";
 import {
@@ -7,7 +9,16 @@ import {
 
 export function handleDesktopNotebook(
   state: DesktopNotebookRecord = makeDesktopNotebookRecord(),
-  action: actionTypes.CloseNotebook | actionTypes.CloseNotebookProgress
+  action:
+    | actionTypes.CloseNotebook
+    | actionTypes.CloseNotebookProgress
+    | actionTypes.ShowComparison
+    | actionTypes.HideComparison
+    | actionTypes.ShowParameters
+    | actionTypes.HideParameters
+    | actions.RunWithParameters
+    | actions.RunWithParametersFulfilled
+    | actions.RunWithParametersFailed
 ) {
   switch (action.type) {
     case actionTypes.CLOSE_NOTEBOOK:
@@ -16,6 +27,50 @@ export function handleDesktopNotebook(
     case actionTypes.CLOSE_NOTEBOOK_PROGRESS:
       return state.set("closingState", action.payload.newState);
 
+    case actionTypes.SHOW_COMPARISON:
+      return state.set("comparison", action.payload);
+
+    case actionTypes.HIDE_COMPARISON:
+      return state.set("comparison", null);
+
+    case actionTypes.SHOW_PARAMETERS:
+      return state.set("parametersRun", {
+        status: "editing",
+        filepath: null,
+        error: null
+      });
+
+    case actionTypes.HIDE_PARAMETERS:
+      return state.set("parametersRun", null);
+
+    // Runs started headlessly don't show up in the form
+    case actions.RUN_WITH_PARAMETERS:
+      return state.parametersRun
+        ? state.set("parametersRun", {
+            status: "running",
+            filepath: action.payload.filepath,
+            error: null
+          })
+        : state;
+
+    case actions.RUN_WITH_PARAMETERS_FULFILLED:
+      return state.parametersRun
+        ? state.set("parametersRun", {
+            status: "done",
+            filepath: action.payload.filepath,
+            error: null
+          })
+        : state;
+
+    case actions.RUN_WITH_PARAMETERS_FAILED:
+      return state.parametersRun
+        ? state.set("parametersRun", {
+            ...state.parametersRun,
+            status: "failed",
+            error: action.payload.error
+          })
+        : state;
+
     default:
       return state;
   }
@@ -1,3 +1,4 @@
+import { ImmutableNotebook } from "@nteract/commutable";
 import { AppState } from "@nteract/core";
 import * as Immutable from "immutable";
 
@@ -13,15 +14,36 @@ export const DESKTOP_NOTEBOOK_CLOSING_STARTED: DesktopNotebookClosingState =
 export const DESKTOP_NOTEBOOK_CLOSING_READY_TO_CLOSE: DesktopNotebookClosingState =
   "Ready to Close";
 
+/**
+ * A version of the notebook shown next to the open one, e.g. the file on disk
+ */
+export interface DesktopNotebookComparison {
+  title: string;
+  notebook: ImmutableNotebook;
+}
+
+/**
+ * The run of the notebook with parameters started from the parameters form
+ */
+export interface DesktopNotebookParametersRun {
+  status: "editing" | "running" | "done" | "failed";
+  filepath: string | null;
+  error: Error | null;
+}
+
 export interface DesktopNotebookProps {
   closingState: DesktopNotebookClosingState;
+  comparison: DesktopNotebookComparison | null;
+  parametersRun: DesktopNotebookParametersRun | null;
 }
 
 export type DesktopNotebookRecord = Immutable.RecordOf<DesktopNotebookProps>;
 
 export const makeDesktopNotebookRecord = Immutable.Record<DesktopNotebookProps>(
   {
-    closingState: DESKTOP_NOTEBOOK_CLOSING_NOT_STARTED
+    closingState: DESKTOP_NOTEBOOK_CLOSING_NOT_STARTED,
+    comparison: null,
+    parametersRun: null
   }
 );
 
@@ -1,17 +1,22 @@
 import { middlewares as coreMiddlewares, reducers } from "@nteract/core";
 import { configuration } from "@nteract/mythic-configuration";
+import { multiselect } from "@nteract/mythic-multiselect";
 import { notifications } from "@nteract/mythic-notifications";
 import { windowing } from "@nteract/mythic-windowing";
 import { makeConfigureStore, MythicAction } from "@nteract/myths";
+import { remote } from "electron";
+import * as path from "path";
 import { Store } from "redux";
 import epics from "./epics";
 import { LocalContentProvider } from "./local-content-provider";
+import { LocalRecoveryJournal } from "./recovery-journal";
 import { handleDesktopNotebook } from "./reducers";
 import { DesktopNotebookAppState } from "./state";
 
 export const configureStore : (initialState?: DesktopNotebookAppState) => Store<DesktopNotebookAppState, MythicAction> = makeConfigureStore<DesktopNotebookAppState>()({
   packages: [
     configuration,
+    multiselect,
     notifications,
     windowing,
   ],
@@ -25,7 +30,12 @@ export const configureStore : (initialState?: DesktopNotebookAppState) => Store<
     process.env.DEBUG === "true"
       ? [coreMiddlewares.logger()]
       : [],
-  epicDependencies: { contentProvider: new LocalContentProvider() },
+  epicDependencies: {
+    contentProvider: new LocalContentProvider(),
+    recoveryJournal: new LocalRecoveryJournal(
+      path.join(remote.app.getPath("userData"), "recovery")
+    ),
+  },
 });
 export default configureStore;
 export type DesktopStore = ReturnType<typeof configureStore>;
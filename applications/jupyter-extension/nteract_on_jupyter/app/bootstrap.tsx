@@ -139,14 +139,21 @@ export async function main(
   const store = configureStore(initialState);
   (window as any).store = store;
 
-  store.dispatch(
-    actions.fetchContent({
-      filepath: config.contentsPath,
-      params: {},
-      kernelRef,
-      contentRef,
-    })
-  );
+  if (config.page === "terminal") {
+    // Terminal pages are named after their session, without one a new
+    // session is created
+    const name = config.contentsPath.replace(/^\/+|\/+$/g, "");
+    store.dispatch(actions.openTerminal({ contentRef, name: name || null }));
+  } else {
+    store.dispatch(
+      actions.fetchContent({
+        filepath: config.contentsPath,
+        params: {},
+        kernelRef,
+        contentRef,
+      })
+    );
+  }
   store.dispatch(actions.fetchKernelspecs({ hostRef, kernelspecsRef }));
 
   ReactDOM.render(
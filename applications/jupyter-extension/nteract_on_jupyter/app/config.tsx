@@ -10,7 +10,7 @@ import ReactDOM from "react-dom";
 
 export interface JupyterConfigData {
   token: string;
-  page: "tree" | "view" | "edit";
+  page: "tree" | "view" | "edit" | "terminal";
   contentsPath: string;
   baseUrl: string;
   appVersion: string;
@@ -95,7 +95,12 @@ const makeMapStateToProps = (
   const mapStateToProps = (state: AppState) => {
     const content = selectors.content(state, initialProps);
 
-    if (!content || content.type === "directory") {
+    if (
+      !content ||
+      content.type === "directory" ||
+      content.type === "console" ||
+      content.type === "terminal"
+    ) {
       throw new Error(
         "The file component should only be used with files and notebooks"
       );
@@ -6,10 +6,17 @@ import { NotebookMenu } from "@nteract/connected-components";
 import { HeaderDataProps } from "@nteract/connected-components/lib/header-editor";
 import { AppState, ContentRef, HostRecord, selectors } from "@nteract/core";
 import {
+  Console,
+  Terminal,
+  TerminalsPanel
+} from "@nteract/stateful-components";
+import {
+  ConsoleContentRecordProps,
   DirectoryContentRecordProps,
   DummyContentRecordProps,
   FileContentRecordProps,
-  NotebookContentRecordProps
+  NotebookContentRecordProps,
+  TerminalContentRecordProps
 } from "@nteract/types";
 import { RecordOf } from "immutable";
 import { dirname } from "path";
@@ -27,7 +34,13 @@ import { ConnectedFileHeader as FileHeader, DirectoryHeader } from "./headers";
 interface IContentsBaseProps {
   appBase: string;
   baseDir: string;
-  contentType: "dummy" | "notebook" | "directory" | "file";
+  contentType:
+    | "dummy"
+    | "notebook"
+    | "directory"
+    | "file"
+    | "console"
+    | "terminal";
   contentRef: ContentRef;
   displayName: string;
   error?: object | null;
@@ -133,6 +146,21 @@ class Contents extends React.PureComponent<ContentsProps, IContentsState> {
             <ConnectedDirectory appBase={appBase} contentRef={contentRef} />
           </React.Fragment>
         );
+      case "console":
+        return (
+          <React.Fragment>
+            <DirectoryHeader appBase={appBase} />
+            <Console contentRef={contentRef} />
+          </React.Fragment>
+        );
+      case "terminal":
+        return (
+          <React.Fragment>
+            <DirectoryHeader appBase={appBase} />
+            <TerminalsPanel contentRef={contentRef} />
+            <Terminal contentRef={contentRef} />
+          </React.Fragment>
+        );
       default:
         return (
           <React.Fragment>
@@ -168,6 +196,8 @@ const makeMapStateToProps: any = (
       | RecordOf<DummyContentRecordProps>
       | RecordOf<FileContentRecordProps>
       | RecordOf<DirectoryContentRecordProps>
+      | RecordOf<ConsoleContentRecordProps>
+      | RecordOf<TerminalContentRecordProps>
       | undefined = selectors.content(state, { contentRef });
 
     if (!content) {
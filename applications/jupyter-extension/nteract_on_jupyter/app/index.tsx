@@ -20,6 +20,7 @@ import "@nteract/styles/sidebar.css";
 import "@nteract/styles/toolbar.css";
 
 import "react-table/react-table.css";
+import "xterm/css/xterm.css";
 import urljoin from "url-join";
 
 // Local modules
@@ -0,0 +1,70 @@
+import { IJournalEntry, IRecoveryJournal } from "@nteract/types";
+import { Observable } from "rxjs";
+import { map, mapTo, mergeMap, shareReplay } from "rxjs/operators";
+
+const DATABASE = "nteract-recovery";
+const STORE = "entries";
+
+/**
+ * Runs a single request against the journal's object store.
+ */
+function request<T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Observable<T> {
+  return new Observable<T>(observer => {
+    const transaction = db.transaction(STORE, mode);
+    const req = makeRequest(transaction.objectStore(STORE));
+    req.onsuccess = () => {
+      observer.next(req.result);
+      observer.complete();
+    };
+    req.onerror = () => observer.error(req.error);
+  });
+}
+
+/**
+ * A recovery journal which keeps the unsaved edits of notebooks in the
+ * browser's IndexedDB, keyed by the notebook's path on the server.
+ */
+export class IndexedDBRecoveryJournal implements IRecoveryJournal {
+  // Opened on first use and kept open for the lifetime of the page
+  private db$ = new Observable<IDBDatabase>(observer => {
+    const req = indexedDB.open(DATABASE, 1);
+    req.onupgradeneeded = () =>
+      req.result.createObjectStore(STORE, { keyPath: "filepath" });
+    req.onsuccess = () => {
+      observer.next(req.result);
+      observer.complete();
+    };
+    req.onerror = () => observer.error(req.error);
+  }).pipe(shareReplay(1));
+
+  write(entry: IJournalEntry): Observable<void> {
+    return this.db$.pipe(
+      mergeMap(db =>
+        request(db, "readwrite", store => store.put(entry))
+      ),
+      mapTo(undefined)
+    );
+  }
+
+  read(filepath: string): Observable<IJournalEntry | null> {
+    return this.db$.pipe(
+      mergeMap(db =>
+        request(db, "readonly", store => store.get(filepath))
+      ),
+      map((entry?: IJournalEntry) => entry || null)
+    );
+  }
+
+  discard(filepath: string): Observable<void> {
+    return this.db$.pipe(
+      mergeMap(db =>
+        request(db, "readwrite", store => store.delete(filepath))
+      ),
+      mapTo(undefined)
+    );
+  }
+}
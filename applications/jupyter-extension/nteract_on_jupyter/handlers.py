@@ -100,6 +100,10 @@ def add_handlers(web_app, config):
         (url + r"/tree%s" % path_regex, NAppHandler, {'config': config, 'page': 'tree'}),
         (url + r"/edit%s" % path_regex, NAppHandler, {'config': config, 'page': 'edit'}),
         (url + r"/view%s" % path_regex, NAppHandler, {'config': config, 'page': 'view'}),
+        # The path of a terminal page is the name of its session, a new one
+        # is created when there isn't one
+        (url + r"/terminals/?", NAppHandler, {'config': config, 'page': 'terminal'}),
+        (url + r"/terminals/(?P<path>[^/]+)", NAppHandler, {'config': config, 'page': 'terminal'}),
         (url + r"/static/(.*)", FileFindHandler, {'path': assets_dir}),
     ]
 
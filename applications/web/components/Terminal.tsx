@@ -0,0 +1,79 @@
+import React, { useState, useEffect } from "react";
+import { Dispatch } from "redux";
+import { connect } from "react-redux";
+import styled from "styled-components";
+import {
+  actions,
+  createContentRef,
+  ContentRef,
+  HostRecord,
+  makeJupyterHostRecord,
+  ServerConfig
+} from "@nteract/core";
+import { Terminal as TerminalView, TerminalsPanel } from "@nteract/stateful-components";
+
+const TerminalDiv = styled.div`
+  display: flex;
+  padding: 10px 20px;
+  background-color: #fff;
+  border-top: 1px solid #FBECEC;
+  z-index: 1000;
+
+  .nteract-terminals {
+    width: 200px;
+    margin-right: 20px;
+  }
+
+  .nteract-terminal {
+    flex: 1;
+    min-width: 0;
+  }
+
+  .nteract-terminal-screen {
+    height: 240px;
+  }
+`;
+
+type ComponentProps = {
+  host: ServerConfig,
+  style?: React.CSSProperties
+}
+
+interface DispatchProps {
+  setAppHost: (host: HostRecord) => void;
+  openTerminal: (contentRef: ContentRef) => void;
+  disposeTerminal: (contentRef: ContentRef) => void;
+}
+
+type Props = ComponentProps & DispatchProps;
+
+const mapDispatchToProps = (dispatch: Dispatch) => ({
+  setAppHost: (host: HostRecord) => dispatch(actions.setAppHost({ host })),
+  openTerminal: (contentRef: ContentRef) => dispatch(actions.openTerminal({ contentRef })),
+  disposeTerminal: (contentRef: ContentRef) => dispatch(actions.disposeContent({ contentRef }))
+});
+
+const Terminal = (props: Props) => {
+  const [contentRef] = useState(createContentRef)
+
+  // Terminals run on the server MyBinder launched, so it has to be the app host
+  useEffect(() => {
+    props.setAppHost(makeJupyterHostRecord({
+      ...props.host,
+      origin: props.host.endpoint
+    }));
+    props.openTerminal(contentRef)
+
+    // Closes the websocket, the session keeps running until it's killed
+    return () => { props.disposeTerminal(contentRef) }
+  }, [props.host])
+
+  return (
+    <TerminalDiv style={props.style}>
+      <TerminalsPanel contentRef={contentRef} />
+      <TerminalView contentRef={contentRef} />
+    </TerminalDiv>
+  )
+}
+
+export default connect(null, mapDispatchToProps)(Terminal);
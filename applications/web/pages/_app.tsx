@@ -24,6 +24,7 @@ import "codemirror/lib/codemirror.css";
 
 import "@nteract/styles/editor-overrides.css";
 import "@nteract/styles/markdown/github.css";
+import "xterm/css/xterm.css";
 
 
 
@@ -33,6 +33,9 @@ import { runIcon, saveIcon, menuIcon, githubIcon, consoleIcon, pythonIcon, serve
 const Binder = dynamic(() => import("../../components/Binder"), {
   ssr: false
 });
+const Terminal = dynamic(() => import("../../components/Terminal"), {
+  ssr: false
+});
 
 const BINDER_URL = "https://mybinder.org";
 
@@ -54,6 +57,7 @@ export const Main: FC<WithRouterProps> = (props: Props) => {
   // Toggle Values
   const [showBinderMenu, setShowBinderMenu] = useState(false)
   const [showConsole, setShowConsole] = useState(false)
+  const [showTerminal, setShowTerminal] = useState(false)
   const [showSaveDialog, setShowSaveDialog] = useState(false)
   // Git API Values
   const [filePath, setFilepath] = useState(router.query.file as string)
@@ -450,6 +454,15 @@ export const Main: FC<WithRouterProps> = (props: Props) => {
         }} logs={consoleLog} />
       }
 
+      {
+        showTerminal && host && <Terminal style={{
+          position: "absolute",
+          bottom: "30px",
+          right: "0px",
+          width: "calc(100% - 260px)"
+        }} host={host} />
+      }
+
 
       {showSaveDialog &&
         <>
@@ -548,6 +561,9 @@ export const Main: FC<WithRouterProps> = (props: Props) => {
           <MenuItem>
             <Button text="Console" icon={consoleIcon} variant="transparent" onClick={() => toggle(showConsole, setShowConsole)} />
           </MenuItem>
+          <MenuItem>
+            <Button text="Terminal" icon={consoleIcon} variant="transparent" onClick={() => toggle(showTerminal, setShowTerminal)} disabled={!host} />
+          </MenuItem>
           <MenuItem>
             <Button text="Python 3" icon={pythonIcon} variant="transparent" disabled />
           </MenuItem>
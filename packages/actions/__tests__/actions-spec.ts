@@ -155,6 +155,23 @@ describe("commMessageAction", () => {
   });
 });
 
+describe("commCloseAction", () => {
+  test("creates a COMM_CLOSE action", () => {
+    const message = {
+      content: { data: {}, comm_id: "0123" },
+      buffers: new Uint8Array(10)
+    };
+    const action = actions.commCloseAction(message);
+
+    expect(action).toEqual({
+      type: actionTypes.COMM_CLOSE,
+      data: {},
+      comm_id: "0123",
+      buffers: new Uint8Array(10)
+    });
+  });
+});
+
 describe("newNotebook", () => {
   test("creates a new notebook", () => {
     const contentRef = createContentRef();
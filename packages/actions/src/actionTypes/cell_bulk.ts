@@ -0,0 +1,36 @@
+// tslint:disable:max-line-length
+import { CellType } from "@nteract/commutable";
+import { Action, HasCells, makeActionFunction } from "../utils";
+
+export const EXECUTE_CELLS                  = "CORE/EXECUTE_CELLS";
+export const DELETE_CELLS                   = "CORE/DELETE_CELLS";
+export const CUT_CELLS                      = "CORE/CUT_CELLS";
+export const COPY_CELLS                     = "CORE/COPY_CELLS";
+export const MOVE_CELLS                     = "CORE/MOVE_CELLS";
+export const CHANGE_CELLS_TYPE              = "CORE/CHANGE_CELLS_TYPE";
+export const MERGE_CELLS                    = "CORE/MERGE_CELLS";
+export const TOGGLE_CELLS_INPUT_VISIBILITY  = "CORE/TOGGLE_CELLS_INPUT_VISIBILITY";
+export const TOGGLE_CELLS_OUTPUT_VISIBILITY = "CORE/TOGGLE_CELLS_OUTPUT_VISIBILITY";
+export const CLEAR_CELLS_OUTPUTS            = "CORE/CLEAR_CELLS_OUTPUTS";
+
+export type ExecuteCells                    = Action<typeof EXECUTE_CELLS,                  HasCells>;
+export type DeleteCells                     = Action<typeof DELETE_CELLS,                   HasCells>;
+export type CutCells                        = Action<typeof CUT_CELLS,                      HasCells>;
+export type CopyCells                       = Action<typeof COPY_CELLS,                     HasCells>;
+export type MoveCells                       = Action<typeof MOVE_CELLS,                     HasCells & { above: boolean }>;
+export type ChangeCellsType                 = Action<typeof CHANGE_CELLS_TYPE,              HasCells & { to: CellType }>;
+export type MergeCells                      = Action<typeof MERGE_CELLS,                    HasCells>;
+export type ToggleCellsInputVisibility      = Action<typeof TOGGLE_CELLS_INPUT_VISIBILITY,  HasCells>;
+export type ToggleCellsOutputVisibility     = Action<typeof TOGGLE_CELLS_OUTPUT_VISIBILITY, HasCells>;
+export type ClearCellsOutputs               = Action<typeof CLEAR_CELLS_OUTPUTS,            HasCells>;
+
+export const executeCells                   = makeActionFunction<ExecuteCells>                (EXECUTE_CELLS);
+export const deleteCells                    = makeActionFunction<DeleteCells>                 (DELETE_CELLS);
+export const cutCells                       = makeActionFunction<CutCells>                    (CUT_CELLS);
+export const copyCells                      = makeActionFunction<CopyCells>                   (COPY_CELLS);
+export const moveCells                      = makeActionFunction<MoveCells>                   (MOVE_CELLS);
+export const changeCellsType                = makeActionFunction<ChangeCellsType>             (CHANGE_CELLS_TYPE);
+export const mergeCells                     = makeActionFunction<MergeCells>                  (MERGE_CELLS);
+export const toggleCellsInputVisibility     = makeActionFunction<ToggleCellsInputVisibility>  (TOGGLE_CELLS_INPUT_VISIBILITY);
+export const toggleCellsOutputVisibility    = makeActionFunction<ToggleCellsOutputVisibility> (TOGGLE_CELLS_OUTPUT_VISIBILITY);
+export const clearCellsOutputs              = makeActionFunction<ClearCellsOutputs>           (CLEAR_CELLS_OUTPUTS);
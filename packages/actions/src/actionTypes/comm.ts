@@ -1,15 +1,20 @@
 // tslint:disable:max-line-length
+import { KernelRef } from "@nteract/types";
+import { Action, ErrorAction, HasKernel, makeActionFunction, makeErrorActionFunction } from "../utils";
 
 export const REGISTER_COMM_TARGET = "REGISTER_COMM_TARGET";
 export const COMM_OPEN            = "COMM_OPEN";
 export const COMM_MESSAGE         = "COMM_MESSAGE";
+export const COMM_CLOSE           = "COMM_CLOSE";
 
 export interface RegisterCommTargetAction   { type: "REGISTER_COMM_TARGET"; name: string; handler: string }
-export interface CommOpenAction             { type: "COMM_OPEN"; target_name: string; target_module: string; data: any; metadata: any; comm_id: string; buffers?: any }
+export interface CommOpenAction             { type: "COMM_OPEN"; target_name: string; target_module: string; data: any; metadata: any; comm_id: string; buffers?: any; kernelRef?: KernelRef }
 export interface CommMessageAction          { type: "COMM_MESSAGE"; data: any; comm_id: string; buffers?: any }
+export interface CommCloseAction            { type: "COMM_CLOSE"; data: any; comm_id: string; buffers?: any }
 
-export const commOpenAction = (message: { content: CommOpenAction; blob?: any; buffers?: any }): CommOpenAction => ({
+export const commOpenAction = (message: { content: CommOpenAction; blob?: any; buffers?: any }, kernelRef?: KernelRef): CommOpenAction => ({
   type: COMM_OPEN,
+  kernelRef,
   comm_id: message.content.comm_id,
   data: message.content.data,
   metadata: message.content.metadata,
@@ -33,3 +38,35 @@ export const commMessageAction = (message: { content: CommMessageAction; blob?:
   //       see https://github.com/n-riesco/jmp/issues/14
   //       We just expect either one
 });
+
+export const commCloseAction = (message: { content: CommCloseAction; blob?: any; buffers?: any }): CommCloseAction => ({
+  type: COMM_CLOSE,
+  comm_id: message.content.comm_id,
+  data: message.content.data,
+  buffers: message.blob || message.buffers
+});
+
+/**
+ * Comms the frontend opens to a target of the kernel, for extensions to talk
+ * to the kernel with a protocol of their own.
+ */
+export const OPEN_COMM                  = "CORE/OPEN_COMM";
+export const SEND_COMM_MESSAGE          = "CORE/SEND_COMM_MESSAGE";
+export const CLOSE_COMM                 = "CORE/CLOSE_COMM";
+export const FETCH_COMM_INFO            = "CORE/FETCH_COMM_INFO";
+export const FETCH_COMM_INFO_FULFILLED  = "CORE/FETCH_COMM_INFO_FULFILLED";
+export const FETCH_COMM_INFO_FAILED     = "CORE/FETCH_COMM_INFO_FAILED";
+
+export type OpenComm                    = Action     <typeof OPEN_COMM,                 HasKernel & { commId: string; targetName: string; targetModule?: string; data?: any }>;
+export type SendCommMessage             = Action     <typeof SEND_COMM_MESSAGE,         HasKernel & { commId: string; data: any; buffers?: Array<ArrayBuffer | ArrayBufferView> }>;
+export type CloseComm                   = Action     <typeof CLOSE_COMM,                HasKernel & { commId: string; data?: any }>;
+export type FetchCommInfo               = Action     <typeof FETCH_COMM_INFO,           HasKernel & { targetName?: string }>;
+export type FetchCommInfoFulfilled      = Action     <typeof FETCH_COMM_INFO_FULFILLED, HasKernel & { targetName?: string; comms: { [commId: string]: { target_name: string } } }>;
+export type FetchCommInfoFailed         = ErrorAction<typeof FETCH_COMM_INFO_FAILED,    HasKernel & { targetName?: string }>;
+
+export const openComm                   = makeActionFunction      <OpenComm>                (OPEN_COMM);
+export const sendCommMessage            = makeActionFunction      <SendCommMessage>         (SEND_COMM_MESSAGE);
+export const closeComm                  = makeActionFunction      <CloseComm>               (CLOSE_COMM);
+export const fetchCommInfo              = makeActionFunction      <FetchCommInfo>           (FETCH_COMM_INFO);
+export const fetchCommInfoFulfilled     = makeActionFunction      <FetchCommInfoFulfilled>  (FETCH_COMM_INFO_FULFILLED);
+export const fetchCommInfoFailed        = makeErrorActionFunction <FetchCommInfoFailed>     (FETCH_COMM_INFO_FAILED);
@@ -0,0 +1,42 @@
+// tslint:disable:max-line-length
+import { ICheckpoint } from "@nteract/types";
+import { Action, ErrorAction, HasCheckpoint, HasContent, makeActionFunction, makeErrorActionFunction } from "../utils";
+
+export const FETCH_CHECKPOINTS              = "CORE/FETCH_CHECKPOINTS";
+export const FETCH_CHECKPOINTS_FULFILLED    = "CORE/FETCH_CHECKPOINTS_FULFILLED";
+export const FETCH_CHECKPOINTS_FAILED       = "CORE/FETCH_CHECKPOINTS_FAILED";
+export const CREATE_CHECKPOINT              = "CORE/CREATE_CHECKPOINT";
+export const CREATE_CHECKPOINT_FULFILLED    = "CORE/CREATE_CHECKPOINT_FULFILLED";
+export const CREATE_CHECKPOINT_FAILED       = "CORE/CREATE_CHECKPOINT_FAILED";
+export const RESTORE_CHECKPOINT             = "CORE/RESTORE_CHECKPOINT";
+export const RESTORE_CHECKPOINT_FULFILLED   = "CORE/RESTORE_CHECKPOINT_FULFILLED";
+export const RESTORE_CHECKPOINT_FAILED      = "CORE/RESTORE_CHECKPOINT_FAILED";
+export const DELETE_CHECKPOINT              = "CORE/DELETE_CHECKPOINT";
+export const DELETE_CHECKPOINT_FULFILLED    = "CORE/DELETE_CHECKPOINT_FULFILLED";
+export const DELETE_CHECKPOINT_FAILED       = "CORE/DELETE_CHECKPOINT_FAILED";
+
+export type FetchCheckpoints                = Action     <typeof FETCH_CHECKPOINTS,             HasContent>;
+export type FetchCheckpointsFulfilled       = Action     <typeof FETCH_CHECKPOINTS_FULFILLED,   HasContent & { checkpoints: ICheckpoint[] }>;
+export type FetchCheckpointsFailed          = ErrorAction<typeof FETCH_CHECKPOINTS_FAILED,      HasContent>;
+export type CreateCheckpoint                = Action     <typeof CREATE_CHECKPOINT,             HasContent>;
+export type CreateCheckpointFulfilled       = Action     <typeof CREATE_CHECKPOINT_FULFILLED,   HasContent & { checkpoint: ICheckpoint }>;
+export type CreateCheckpointFailed          = ErrorAction<typeof CREATE_CHECKPOINT_FAILED,      HasContent>;
+export type RestoreCheckpoint               = Action     <typeof RESTORE_CHECKPOINT,            HasContent & HasCheckpoint>;
+export type RestoreCheckpointFulfilled      = Action     <typeof RESTORE_CHECKPOINT_FULFILLED,  HasContent & HasCheckpoint & { model: any }>;
+export type RestoreCheckpointFailed         = ErrorAction<typeof RESTORE_CHECKPOINT_FAILED,     HasContent & HasCheckpoint>;
+export type DeleteCheckpoint                = Action     <typeof DELETE_CHECKPOINT,             HasContent & HasCheckpoint>;
+export type DeleteCheckpointFulfilled       = Action     <typeof DELETE_CHECKPOINT_FULFILLED,   HasContent & HasCheckpoint>;
+export type DeleteCheckpointFailed          = ErrorAction<typeof DELETE_CHECKPOINT_FAILED,      HasContent & HasCheckpoint>;
+
+export const fetchCheckpoints               = makeActionFunction      <FetchCheckpoints>            (FETCH_CHECKPOINTS);
+export const fetchCheckpointsFulfilled      = makeActionFunction      <FetchCheckpointsFulfilled>   (FETCH_CHECKPOINTS_FULFILLED);
+export const fetchCheckpointsFailed         = makeErrorActionFunction <FetchCheckpointsFailed>      (FETCH_CHECKPOINTS_FAILED);
+export const createCheckpoint               = makeActionFunction      <CreateCheckpoint>            (CREATE_CHECKPOINT);
+export const createCheckpointFulfilled      = makeActionFunction      <CreateCheckpointFulfilled>   (CREATE_CHECKPOINT_FULFILLED);
+export const createCheckpointFailed         = makeErrorActionFunction <CreateCheckpointFailed>      (CREATE_CHECKPOINT_FAILED);
+export const restoreCheckpoint              = makeActionFunction      <RestoreCheckpoint>           (RESTORE_CHECKPOINT);
+export const restoreCheckpointFulfilled     = makeActionFunction      <RestoreCheckpointFulfilled>  (RESTORE_CHECKPOINT_FULFILLED);
+export const restoreCheckpointFailed        = makeErrorActionFunction <RestoreCheckpointFailed>     (RESTORE_CHECKPOINT_FAILED);
+export const deleteCheckpoint               = makeActionFunction      <DeleteCheckpoint>            (DELETE_CHECKPOINT);
+export const deleteCheckpointFulfilled      = makeActionFunction      <DeleteCheckpointFulfilled>   (DELETE_CHECKPOINT_FULFILLED);
+export const deleteCheckpointFailed         = makeErrorActionFunction <DeleteCheckpointFailed>      (DELETE_CHECKPOINT_FAILED);
@@ -0,0 +1,52 @@
+// tslint:disable:max-line-length
+import { OnDiskOutput } from "@nteract/commutable";
+import { ContentRef } from "@nteract/types";
+import { Action, ErrorAction, HasContent, HasFilepath, HasKernel, makeActionFunction, makeErrorActionFunction } from "../utils";
+
+// An entry in the transcript of a console
+interface HasConsoleEntry extends HasContent { id: string }
+
+export const OPEN_CONSOLE                       = "CORE/OPEN_CONSOLE";
+export const SET_CONSOLE_PROMPT                 = "CORE/SET_CONSOLE_PROMPT";
+export const EXECUTE_CONSOLE_PROMPT             = "CORE/EXECUTE_CONSOLE_PROMPT";
+export const SEND_CONSOLE_EXECUTE_REQUEST       = "CORE/SEND_CONSOLE_EXECUTE_REQUEST";
+export const APPEND_CONSOLE_OUTPUT              = "CORE/APPEND_CONSOLE_OUTPUT";
+export const CLEAR_CONSOLE_OUTPUT               = "CORE/CLEAR_CONSOLE_OUTPUT";
+export const UPDATE_CONSOLE_EXECUTION_COUNT     = "CORE/UPDATE_CONSOLE_EXECUTION_COUNT";
+export const CONSOLE_EXECUTION_FINISHED         = "CORE/CONSOLE_EXECUTION_FINISHED";
+export const CLEAR_CONSOLE                      = "CORE/CLEAR_CONSOLE";
+export const FETCH_CONSOLE_HISTORY              = "CORE/FETCH_CONSOLE_HISTORY";
+export const FETCH_CONSOLE_HISTORY_FULFILLED    = "CORE/FETCH_CONSOLE_HISTORY_FULFILLED";
+export const FETCH_CONSOLE_HISTORY_FAILED       = "CORE/FETCH_CONSOLE_HISTORY_FAILED";
+export const NAVIGATE_CONSOLE_HISTORY           = "CORE/NAVIGATE_CONSOLE_HISTORY";
+export const EXPORT_CONSOLE                     = "CORE/EXPORT_CONSOLE";
+
+export type OpenConsole                         = Action     <typeof OPEN_CONSOLE,                      HasContent & HasKernel & { notebookRef?: ContentRef | null }>;
+export type SetConsolePrompt                    = Action     <typeof SET_CONSOLE_PROMPT,                HasContent & { value: string }>;
+export type ExecuteConsolePrompt                = Action     <typeof EXECUTE_CONSOLE_PROMPT,            HasContent>;
+export type SendConsoleExecuteRequest           = Action     <typeof SEND_CONSOLE_EXECUTE_REQUEST,      HasConsoleEntry & { source: string }>;
+export type AppendConsoleOutput                 = Action     <typeof APPEND_CONSOLE_OUTPUT,             HasConsoleEntry & { output: OnDiskOutput }>;
+export type ClearConsoleOutput                  = Action     <typeof CLEAR_CONSOLE_OUTPUT,              HasConsoleEntry>;
+export type UpdateConsoleExecutionCount         = Action     <typeof UPDATE_CONSOLE_EXECUTION_COUNT,    HasConsoleEntry & { value: number }>;
+export type ConsoleExecutionFinished            = Action     <typeof CONSOLE_EXECUTION_FINISHED,        HasConsoleEntry>;
+export type ClearConsole                        = Action     <typeof CLEAR_CONSOLE,                     HasContent>;
+export type FetchConsoleHistory                 = Action     <typeof FETCH_CONSOLE_HISTORY,             HasContent>;
+export type FetchConsoleHistoryFulfilled        = Action     <typeof FETCH_CONSOLE_HISTORY_FULFILLED,   HasContent & { history: string[] }>;
+export type FetchConsoleHistoryFailed           = ErrorAction<typeof FETCH_CONSOLE_HISTORY_FAILED,      HasContent>;
+export type NavigateConsoleHistory              = Action     <typeof NAVIGATE_CONSOLE_HISTORY,          HasContent & { direction: "previous" | "next" }>;
+export type ExportConsole                       = Action     <typeof EXPORT_CONSOLE,                    HasContent & HasFilepath & { exportRef: ContentRef }>;
+
+export const openConsole                        = makeActionFunction      <OpenConsole>                     (OPEN_CONSOLE);
+export const setConsolePrompt                   = makeActionFunction      <SetConsolePrompt>                (SET_CONSOLE_PROMPT);
+export const executeConsolePrompt               = makeActionFunction      <ExecuteConsolePrompt>            (EXECUTE_CONSOLE_PROMPT);
+export const sendConsoleExecuteRequest          = makeActionFunction      <SendConsoleExecuteRequest>       (SEND_CONSOLE_EXECUTE_REQUEST);
+export const appendConsoleOutput                = makeActionFunction      <AppendConsoleOutput>             (APPEND_CONSOLE_OUTPUT);
+export const clearConsoleOutput                 = makeActionFunction      <ClearConsoleOutput>              (CLEAR_CONSOLE_OUTPUT);
+export const updateConsoleExecutionCount        = makeActionFunction      <UpdateConsoleExecutionCount>     (UPDATE_CONSOLE_EXECUTION_COUNT);
+export const consoleExecutionFinished           = makeActionFunction      <ConsoleExecutionFinished>        (CONSOLE_EXECUTION_FINISHED);
+export const clearConsole                       = makeActionFunction      <ClearConsole>                    (CLEAR_CONSOLE);
+export const fetchConsoleHistory                = makeActionFunction      <FetchConsoleHistory>             (FETCH_CONSOLE_HISTORY);
+export const fetchConsoleHistoryFulfilled       = makeActionFunction      <FetchConsoleHistoryFulfilled>    (FETCH_CONSOLE_HISTORY_FULFILLED);
+export const fetchConsoleHistoryFailed          = makeErrorActionFunction <FetchConsoleHistoryFailed>       (FETCH_CONSOLE_HISTORY_FAILED);
+export const navigateConsoleHistory             = makeActionFunction      <NavigateConsoleHistory>          (NAVIGATE_CONSOLE_HISTORY);
+export const exportConsole                      = makeActionFunction      <ExportConsole>                   (EXPORT_CONSOLE);
@@ -0,0 +1,21 @@
+// tslint:disable:max-line-length
+import { JSONObject } from "@nteract/commutable";
+import { Action, ErrorAction, HasContent, HasFilepath, makeActionFunction, makeErrorActionFunction } from "../utils";
+
+// Values of the parameters declared in the parameters cell, by name
+export interface HasParameters { parameters: JSONObject }
+
+export const INJECT_PARAMETERS                  = "CORE/INJECT_PARAMETERS";
+export const RUN_WITH_PARAMETERS                = "CORE/RUN_WITH_PARAMETERS";
+export const RUN_WITH_PARAMETERS_FULFILLED      = "CORE/RUN_WITH_PARAMETERS_FULFILLED";
+export const RUN_WITH_PARAMETERS_FAILED         = "CORE/RUN_WITH_PARAMETERS_FAILED";
+
+export type InjectParameters                    = Action     <typeof INJECT_PARAMETERS,                 HasContent & HasParameters>;
+export type RunWithParameters                   = Action     <typeof RUN_WITH_PARAMETERS,               HasContent & HasParameters & HasFilepath>;
+export type RunWithParametersFulfilled          = Action     <typeof RUN_WITH_PARAMETERS_FULFILLED,     HasContent & HasFilepath>;
+export type RunWithParametersFailed             = ErrorAction<typeof RUN_WITH_PARAMETERS_FAILED,        HasContent>;
+
+export const injectParameters                   = makeActionFunction      <InjectParameters>            (INJECT_PARAMETERS);
+export const runWithParameters                  = makeActionFunction      <RunWithParameters>           (RUN_WITH_PARAMETERS);
+export const runWithParametersFulfilled         = makeActionFunction      <RunWithParametersFulfilled>  (RUN_WITH_PARAMETERS_FULFILLED);
+export const runWithParametersFailed            = makeErrorActionFunction <RunWithParametersFailed>     (RUN_WITH_PARAMETERS_FAILED);
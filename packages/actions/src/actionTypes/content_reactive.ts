@@ -0,0 +1,18 @@
+// tslint:disable:max-line-length
+import { CellId, CellNames } from "@nteract/commutable";
+import { Action, HasContent, makeActionFunction } from "../utils";
+
+export const SET_REACTIVE_MODE                  = "CORE/SET_REACTIVE_MODE";
+export const UPDATE_CELL_DEPENDENCIES           = "CORE/UPDATE_CELL_DEPENDENCIES";
+export const MARK_CELLS_STALE                   = "CORE/MARK_CELLS_STALE";
+export const EXECUTE_STALE_CELLS                = "CORE/EXECUTE_STALE_CELLS";
+
+export type SetReactiveMode                     = Action<typeof SET_REACTIVE_MODE,                 HasContent & { reactive: boolean }>;
+export type UpdateCellDependencies              = Action<typeof UPDATE_CELL_DEPENDENCIES,          HasContent & { dependencies: { [id: string]: CellNames } }>;
+export type MarkCellsStale                      = Action<typeof MARK_CELLS_STALE,                  HasContent & { ids: CellId[] }>;
+export type ExecuteStaleCells                   = Action<typeof EXECUTE_STALE_CELLS,               HasContent>;
+
+export const setReactiveMode                    = makeActionFunction<SetReactiveMode>               (SET_REACTIVE_MODE);
+export const updateCellDependencies             = makeActionFunction<UpdateCellDependencies>        (UPDATE_CELL_DEPENDENCIES);
+export const markCellsStale                     = makeActionFunction<MarkCellsStale>                (MARK_CELLS_STALE);
+export const executeStaleCells                  = makeActionFunction<ExecuteStaleCells>             (EXECUTE_STALE_CELLS);
@@ -0,0 +1,18 @@
+// tslint:disable:max-line-length
+import { IJournalEntry } from "@nteract/types";
+import { Action, ErrorAction, HasContent, makeActionFunction, makeErrorActionFunction } from "../utils";
+
+export const RECOVERY_AVAILABLE             = "CORE/RECOVERY_AVAILABLE";
+export const RESTORE_RECOVERY               = "CORE/RESTORE_RECOVERY";
+export const DISCARD_RECOVERY               = "CORE/DISCARD_RECOVERY";
+export const RECOVERY_JOURNAL_FAILED        = "CORE/RECOVERY_JOURNAL_FAILED";
+
+export type RecoveryAvailable               = Action     <typeof RECOVERY_AVAILABLE,            HasContent & { entry: IJournalEntry }>;
+export type RestoreRecovery                 = Action     <typeof RESTORE_RECOVERY,              HasContent>;
+export type DiscardRecovery                 = Action     <typeof DISCARD_RECOVERY,              HasContent>;
+export type RecoveryJournalFailed           = ErrorAction<typeof RECOVERY_JOURNAL_FAILED,       HasContent>;
+
+export const recoveryAvailable              = makeActionFunction      <RecoveryAvailable>           (RECOVERY_AVAILABLE);
+export const restoreRecovery                = makeActionFunction      <RestoreRecovery>             (RESTORE_RECOVERY);
+export const discardRecovery                = makeActionFunction      <DiscardRecovery>             (DISCARD_RECOVERY);
+export const recoveryJournalFailed          = makeErrorActionFunction <RecoveryJournalFailed>       (RECOVERY_JOURNAL_FAILED);
@@ -0,0 +1,39 @@
+// tslint:disable:max-line-length
+import { TerminalChannel } from "@nteract/types";
+import { Action, ErrorAction, HasContent, makeActionFunction, makeErrorActionFunction, makeZeroArgActionFunction } from "../utils";
+
+// A terminal session running on the server
+export interface HasTerminalName { name: string }
+
+export const OPEN_TERMINAL                      = "CORE/OPEN_TERMINAL";
+export const OPEN_TERMINAL_FAILED               = "CORE/OPEN_TERMINAL_FAILED";
+export const TERMINAL_CONNECTED                 = "CORE/TERMINAL_CONNECTED";
+export const TERMINAL_DISCONNECTED              = "CORE/TERMINAL_DISCONNECTED";
+export const FETCH_TERMINALS                    = "CORE/FETCH_TERMINALS";
+export const FETCH_TERMINALS_FULFILLED          = "CORE/FETCH_TERMINALS_FULFILLED";
+export const FETCH_TERMINALS_FAILED             = "CORE/FETCH_TERMINALS_FAILED";
+export const KILL_TERMINAL                      = "CORE/KILL_TERMINAL";
+export const KILL_TERMINAL_FULFILLED            = "CORE/KILL_TERMINAL_FULFILLED";
+export const KILL_TERMINAL_FAILED               = "CORE/KILL_TERMINAL_FAILED";
+
+export type OpenTerminal                        = Action     <typeof OPEN_TERMINAL,                     HasContent & { name?: string | null }>;
+export type OpenTerminalFailed                  = ErrorAction<typeof OPEN_TERMINAL_FAILED,              HasContent>;
+export type TerminalConnected                   = Action     <typeof TERMINAL_CONNECTED,                HasContent & HasTerminalName & { channel: TerminalChannel }>;
+export type TerminalDisconnected                = Action     <typeof TERMINAL_DISCONNECTED,             HasContent>;
+export type FetchTerminals                      = Action     <typeof FETCH_TERMINALS>;
+export type FetchTerminalsFulfilled             = Action     <typeof FETCH_TERMINALS_FULFILLED,         { names: string[] }>;
+export type FetchTerminalsFailed                = ErrorAction<typeof FETCH_TERMINALS_FAILED>;
+export type KillTerminal                        = Action     <typeof KILL_TERMINAL,                     HasTerminalName>;
+export type KillTerminalFulfilled               = Action     <typeof KILL_TERMINAL_FULFILLED,           HasTerminalName>;
+export type KillTerminalFailed                  = ErrorAction<typeof KILL_TERMINAL_FAILED,              HasTerminalName>;
+
+export const openTerminal                       = makeActionFunction        <OpenTerminal>                  (OPEN_TERMINAL);
+export const openTerminalFailed                 = makeErrorActionFunction   <OpenTerminalFailed>            (OPEN_TERMINAL_FAILED);
+export const terminalConnected                  = makeActionFunction        <TerminalConnected>             (TERMINAL_CONNECTED);
+export const terminalDisconnected               = makeActionFunction        <TerminalDisconnected>          (TERMINAL_DISCONNECTED);
+export const fetchTerminals                     = makeZeroArgActionFunction <FetchTerminals>                (FETCH_TERMINALS);
+export const fetchTerminalsFulfilled            = makeActionFunction        <FetchTerminalsFulfilled>       (FETCH_TERMINALS_FULFILLED);
+export const fetchTerminalsFailed               = makeErrorActionFunction   <FetchTerminalsFailed>          (FETCH_TERMINALS_FAILED);
+export const killTerminal                       = makeActionFunction        <KillTerminal>                  (KILL_TERMINAL);
+export const killTerminalFulfilled              = makeActionFunction        <KillTerminalFulfilled>         (KILL_TERMINAL_FULFILLED);
+export const killTerminalFailed                 = makeErrorActionFunction   <KillTerminalFailed>            (KILL_TERMINAL_FAILED);
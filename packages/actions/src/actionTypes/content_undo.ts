@@ -0,0 +1,11 @@
+// tslint:disable:max-line-length
+import { Action, HasContent, makeActionFunction } from "../utils";
+
+export const UNDO                           = "CORE/UNDO";
+export const REDO                           = "CORE/REDO";
+
+export type Undo                            = Action     <typeof UNDO,                          HasContent>;
+export type Redo                            = Action     <typeof REDO,                          HasContent>;
+
+export const undo                           = makeActionFunction      <Undo>                        (UNDO);
+export const redo                           = makeActionFunction      <Redo>                        (REDO);
@@ -0,0 +1,47 @@
+// tslint:disable:max-line-length
+import { DebugScope, DebugStackFrame } from "@nteract/types";
+import { Action, ErrorAction, HasCell, HasContent, HasKernel, makeActionFunction, makeErrorActionFunction } from "../utils";
+
+export type DebugStepCommand = "continue" | "next" | "stepIn" | "stepOut";
+
+export const START_DEBUGGING                = "CORE/START_DEBUGGING";
+export const START_DEBUGGING_FULFILLED      = "CORE/START_DEBUGGING_FULFILLED";
+export const START_DEBUGGING_FAILED         = "CORE/START_DEBUGGING_FAILED";
+export const STOP_DEBUGGING                 = "CORE/STOP_DEBUGGING";
+export const STOP_DEBUGGING_FULFILLED       = "CORE/STOP_DEBUGGING_FULFILLED";
+export const TOGGLE_BREAKPOINT              = "CORE/TOGGLE_BREAKPOINT";
+export const SET_BREAKPOINTS_FULFILLED      = "CORE/SET_BREAKPOINTS_FULFILLED";
+export const DEBUG_STEP                     = "CORE/DEBUG_STEP";
+export const DEBUG_PAUSED                   = "CORE/DEBUG_PAUSED";
+export const DEBUG_CONTINUED                = "CORE/DEBUG_CONTINUED";
+export const SELECT_DEBUG_FRAME             = "CORE/SELECT_DEBUG_FRAME";
+export const DEBUG_FRAME_FETCHED            = "CORE/DEBUG_FRAME_FETCHED";
+export const DEBUG_REQUEST_FAILED           = "CORE/DEBUG_REQUEST_FAILED";
+
+export type StartDebugging                  = Action     <typeof START_DEBUGGING,               HasContent & HasKernel>;
+export type StartDebuggingFulfilled         = Action     <typeof START_DEBUGGING_FULFILLED,     HasContent & HasKernel & { sourcePaths: { [id: string]: string } }>;
+export type StartDebuggingFailed            = ErrorAction<typeof START_DEBUGGING_FAILED,        HasContent & HasKernel>;
+export type StopDebugging                   = Action     <typeof STOP_DEBUGGING,                HasKernel>;
+export type StopDebuggingFulfilled          = Action     <typeof STOP_DEBUGGING_FULFILLED,      HasKernel>;
+export type ToggleBreakpoint                = Action     <typeof TOGGLE_BREAKPOINT,             HasCell & { line: number }>;
+export type SetBreakpointsFulfilled         = Action     <typeof SET_BREAKPOINTS_FULFILLED,     HasCell & HasKernel & { path: string }>;
+export type DebugStep                       = Action     <typeof DEBUG_STEP,                    HasKernel & { command: DebugStepCommand; threadId: number }>;
+export type DebugPaused                     = Action     <typeof DEBUG_PAUSED,                  HasKernel & { threadId: number; stackFrames: DebugStackFrame[]; frameId: number | null; scopes: DebugScope[] }>;
+export type DebugContinued                  = Action     <typeof DEBUG_CONTINUED,               HasKernel>;
+export type SelectDebugFrame                = Action     <typeof SELECT_DEBUG_FRAME,            HasKernel & { frameId: number }>;
+export type DebugFrameFetched               = Action     <typeof DEBUG_FRAME_FETCHED,           HasKernel & { frameId: number; scopes: DebugScope[] }>;
+export type DebugRequestFailed              = ErrorAction<typeof DEBUG_REQUEST_FAILED,          HasKernel & { command: string }>;
+
+export const startDebugging                 = makeActionFunction      <StartDebugging>              (START_DEBUGGING);
+export const startDebuggingFulfilled        = makeActionFunction      <StartDebuggingFulfilled>     (START_DEBUGGING_FULFILLED);
+export const startDebuggingFailed           = makeErrorActionFunction <StartDebuggingFailed>        (START_DEBUGGING_FAILED);
+export const stopDebugging                  = makeActionFunction      <StopDebugging>               (STOP_DEBUGGING);
+export const stopDebuggingFulfilled         = makeActionFunction      <StopDebuggingFulfilled>      (STOP_DEBUGGING_FULFILLED);
+export const toggleBreakpoint               = makeActionFunction      <ToggleBreakpoint>            (TOGGLE_BREAKPOINT);
+export const setBreakpointsFulfilled        = makeActionFunction      <SetBreakpointsFulfilled>     (SET_BREAKPOINTS_FULFILLED);
+export const debugStep                      = makeActionFunction      <DebugStep>                   (DEBUG_STEP);
+export const debugPaused                    = makeActionFunction      <DebugPaused>                 (DEBUG_PAUSED);
+export const debugContinued                 = makeActionFunction      <DebugContinued>              (DEBUG_CONTINUED);
+export const selectDebugFrame               = makeActionFunction      <SelectDebugFrame>            (SELECT_DEBUG_FRAME);
+export const debugFrameFetched              = makeActionFunction      <DebugFrameFetched>           (DEBUG_FRAME_FETCHED);
+export const debugRequestFailed             = makeErrorActionFunction <DebugRequestFailed>          (DEBUG_REQUEST_FAILED);
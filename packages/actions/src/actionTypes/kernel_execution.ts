@@ -2,6 +2,12 @@
 import { Action, ErrorAction, HasCell, HasContent, HasKernel, makeActionFunction, makeErrorActionFunction, makeZeroArgActionFunction, MaybeHasContent } from "../utils";
 import { CellId } from "@nteract/commutable";
 
+/**
+ * Asks the kernel whether the code is complete before running it, so that
+ * incomplete statements get another line instead of a syntax error.
+ */
+export interface MaybeChecksIsComplete { checkIsComplete?: boolean }
+
 export const SEND_EXECUTE_REQUEST     = "SEND_EXECUTE_REQUEST";
 export const EXECUTE_CELL             = "EXECUTE_CELL";
 export const EXECUTE_ALL_CELLS        = "EXECUTE_ALL_CELLS";
@@ -9,22 +15,26 @@ export const EXECUTE_ALL_CELLS_ABOVE  = "EXECUTE_ALL_CELLS_ABOVE";
 export const EXECUTE_ALL_CELLS_BELOW  = "EXECUTE_ALL_CELLS_BELOW";
 export const EXECUTE_FOCUSED_CELL     = "EXECUTE_FOCUSED_CELL";
 export const EXECUTE_CANCELED         = "EXECUTE_CANCELED";
+export const EXECUTE_SUCCESSFUL       = "CORE/EXECUTE_SUCCESSFUL";
 export const EXECUTE_FAILED           = "EXECUTE_FAILED";
 export const SET_EXECUTION_STATE      = "SET_EXECUTION_STATE";
 export const ENQUEUE_ACTION           = "ENQUEUE_ACTION";
 export const CLEAR_MESSAGE_QUEUE      = "CLEAR_MESSAGE_QUEUE";
+export const CODE_INCOMPLETE          = "CORE/CODE_INCOMPLETE";
 
 export type SendExecuteRequest        = Action     <typeof SEND_EXECUTE_REQUEST,    HasCell>;
-export type ExecuteCell               = Action     <typeof EXECUTE_CELL,            HasCell>;
+export type ExecuteCell               = Action     <typeof EXECUTE_CELL,            HasCell & MaybeChecksIsComplete>;
 export type ExecuteAllCells           = Action     <typeof EXECUTE_ALL_CELLS,       HasContent>;
 export type ExecuteAllCellsAbove      = Action     <typeof EXECUTE_ALL_CELLS_ABOVE, HasContent & { id?: CellId }>;
 export type ExecuteAllCellsBelow      = Action     <typeof EXECUTE_ALL_CELLS_BELOW, HasContent & { id?: CellId }>;
-export type ExecuteFocusedCell        = Action     <typeof EXECUTE_FOCUSED_CELL,    HasContent>;
+export type ExecuteFocusedCell        = Action     <typeof EXECUTE_FOCUSED_CELL,    HasContent & MaybeChecksIsComplete>;
 export type ExecuteCanceled           = Action     <typeof EXECUTE_CANCELED,        HasCell & {code?: string}>;
+export type ExecuteSuccessful         = Action     <typeof EXECUTE_SUCCESSFUL,      HasCell>;
 export type ExecuteFailed             = ErrorAction<typeof EXECUTE_FAILED,          MaybeHasContent & { id?: CellId }>;
 export type SetExecutionStateAction   = Action     <typeof SET_EXECUTION_STATE,     HasKernel &  { kernelStatus: string }>;
 export type EnqueueAction             = Action     <typeof ENQUEUE_ACTION,          HasCell>;
 export type ClearMessageQueue         = Action     <typeof CLEAR_MESSAGE_QUEUE,     undefined>;
+export type CodeIncomplete            = Action     <typeof CODE_INCOMPLETE,         HasCell & { indent: string }>;
 
 export const sendExecuteRequest       = makeActionFunction        <SendExecuteRequest>        (SEND_EXECUTE_REQUEST);
 export const executeCell              = makeActionFunction        <ExecuteCell>               (EXECUTE_CELL);
@@ -33,7 +43,9 @@ export const executeAllCellsAbove     = makeActionFunction        <ExecuteAllCel
 export const executeAllCellsBelow     = makeActionFunction        <ExecuteAllCellsBelow>      (EXECUTE_ALL_CELLS_BELOW);
 export const executeFocusedCell       = makeActionFunction        <ExecuteFocusedCell>        (EXECUTE_FOCUSED_CELL);
 export const executeCanceled          = makeActionFunction        <ExecuteCanceled>           (EXECUTE_CANCELED);
+export const executeSuccessful        = makeActionFunction        <ExecuteSuccessful>         (EXECUTE_SUCCESSFUL);
 export const executeFailed            = makeErrorActionFunction   <ExecuteFailed>             (EXECUTE_FAILED);
 export const setExecutionState        = makeActionFunction        <SetExecutionStateAction>   (SET_EXECUTION_STATE);
 export const enqueueAction            = makeActionFunction        <EnqueueAction>             (ENQUEUE_ACTION);
 export const clearMessageQueue        = makeZeroArgActionFunction <ClearMessageQueue>         (CLEAR_MESSAGE_QUEUE);
+export const codeIncomplete           = makeActionFunction        <CodeIncomplete>            (CODE_INCOMPLETE);
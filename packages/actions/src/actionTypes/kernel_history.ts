@@ -0,0 +1,18 @@
+// tslint:disable:max-line-length
+import { KernelHistoryInput, KernelHistoryQuery } from "@nteract/types";
+import { Action, ErrorAction, HasKernel, makeActionFunction, makeErrorActionFunction } from "../utils";
+
+export const FETCH_KERNEL_HISTORY               = "CORE/FETCH_KERNEL_HISTORY";
+export const FETCH_MORE_KERNEL_HISTORY          = "CORE/FETCH_MORE_KERNEL_HISTORY";
+export const FETCH_KERNEL_HISTORY_FULFILLED     = "CORE/FETCH_KERNEL_HISTORY_FULFILLED";
+export const FETCH_KERNEL_HISTORY_FAILED        = "CORE/FETCH_KERNEL_HISTORY_FAILED";
+
+export type FetchKernelHistory                  = Action     <typeof FETCH_KERNEL_HISTORY,              HasKernel & { query: KernelHistoryQuery }>;
+export type FetchMoreKernelHistory              = Action     <typeof FETCH_MORE_KERNEL_HISTORY,         HasKernel>;
+export type FetchKernelHistoryFulfilled         = Action     <typeof FETCH_KERNEL_HISTORY_FULFILLED,    HasKernel & { inputs: KernelHistoryInput[]; hasMore: boolean }>;
+export type FetchKernelHistoryFailed            = ErrorAction<typeof FETCH_KERNEL_HISTORY_FAILED,       HasKernel>;
+
+export const fetchKernelHistory                 = makeActionFunction      <FetchKernelHistory>              (FETCH_KERNEL_HISTORY);
+export const fetchMoreKernelHistory             = makeActionFunction      <FetchMoreKernelHistory>          (FETCH_MORE_KERNEL_HISTORY);
+export const fetchKernelHistoryFulfilled        = makeActionFunction      <FetchKernelHistoryFulfilled>     (FETCH_KERNEL_HISTORY_FULFILLED);
+export const fetchKernelHistoryFailed           = makeErrorActionFunction <FetchKernelHistoryFailed>        (FETCH_KERNEL_HISTORY_FAILED);
@@ -0,0 +1,20 @@
+// tslint:disable:max-line-length
+import { Action, HasCell, HasContent, HasKernel, makeActionFunction } from "../utils";
+
+export const ENQUEUE_EXECUTION                  = "CORE/ENQUEUE_EXECUTION";
+export const EXECUTION_STARTED                  = "CORE/EXECUTION_STARTED";
+export const DEQUEUE_EXECUTION                  = "CORE/DEQUEUE_EXECUTION";
+export const MOVE_QUEUED_EXECUTION              = "CORE/MOVE_QUEUED_EXECUTION";
+export const SET_CONTINUE_ON_ERROR              = "CORE/SET_CONTINUE_ON_ERROR";
+
+export type EnqueueExecution                    = Action<typeof ENQUEUE_EXECUTION,                 HasCell & HasKernel>;
+export type ExecutionStarted                    = Action<typeof EXECUTION_STARTED,                 HasCell & HasKernel>;
+export type DequeueExecution                    = Action<typeof DEQUEUE_EXECUTION,                 HasCell & HasKernel>;
+export type MoveQueuedExecution                 = Action<typeof MOVE_QUEUED_EXECUTION,             HasCell & HasKernel & { index: number }>;
+export type SetContinueOnError                  = Action<typeof SET_CONTINUE_ON_ERROR,             HasContent & { continueOnError: boolean }>;
+
+export const enqueueExecution                   = makeActionFunction<EnqueueExecution>              (ENQUEUE_EXECUTION);
+export const executionStarted                   = makeActionFunction<ExecutionStarted>              (EXECUTION_STARTED);
+export const dequeueExecution                   = makeActionFunction<DequeueExecution>              (DEQUEUE_EXECUTION);
+export const moveQueuedExecution                = makeActionFunction<MoveQueuedExecution>           (MOVE_QUEUED_EXECUTION);
+export const setContinueOnError                 = makeActionFunction<SetContinueOnError>            (SET_CONTINUE_ON_ERROR);
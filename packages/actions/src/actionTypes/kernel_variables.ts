@@ -0,0 +1,24 @@
+// tslint:disable:max-line-length
+import { KernelVariable, KernelVariableOutput } from "@nteract/types";
+import { Action, ErrorAction, HasKernel, makeActionFunction, makeErrorActionFunction } from "../utils";
+
+export const FETCH_KERNEL_VARIABLES             = "CORE/FETCH_KERNEL_VARIABLES";
+export const FETCH_KERNEL_VARIABLES_FULFILLED   = "CORE/FETCH_KERNEL_VARIABLES_FULFILLED";
+export const FETCH_KERNEL_VARIABLES_FAILED      = "CORE/FETCH_KERNEL_VARIABLES_FAILED";
+export const INSPECT_KERNEL_VARIABLE            = "CORE/INSPECT_KERNEL_VARIABLE";
+export const INSPECT_KERNEL_VARIABLE_FULFILLED  = "CORE/INSPECT_KERNEL_VARIABLE_FULFILLED";
+export const INSPECT_KERNEL_VARIABLE_FAILED     = "CORE/INSPECT_KERNEL_VARIABLE_FAILED";
+
+export type FetchKernelVariables                = Action     <typeof FETCH_KERNEL_VARIABLES,            HasKernel>;
+export type FetchKernelVariablesFulfilled       = Action     <typeof FETCH_KERNEL_VARIABLES_FULFILLED,  HasKernel & { variables: KernelVariable[] }>;
+export type FetchKernelVariablesFailed          = ErrorAction<typeof FETCH_KERNEL_VARIABLES_FAILED,     HasKernel>;
+export type InspectKernelVariable               = Action     <typeof INSPECT_KERNEL_VARIABLE,           HasKernel & { name: string }>;
+export type InspectKernelVariableFulfilled      = Action     <typeof INSPECT_KERNEL_VARIABLE_FULFILLED, HasKernel & { name: string; output: KernelVariableOutput }>;
+export type InspectKernelVariableFailed         = ErrorAction<typeof INSPECT_KERNEL_VARIABLE_FAILED,    HasKernel & { name: string }>;
+
+export const fetchKernelVariables               = makeActionFunction      <FetchKernelVariables>            (FETCH_KERNEL_VARIABLES);
+export const fetchKernelVariablesFulfilled      = makeActionFunction      <FetchKernelVariablesFulfilled>   (FETCH_KERNEL_VARIABLES_FULFILLED);
+export const fetchKernelVariablesFailed         = makeErrorActionFunction <FetchKernelVariablesFailed>      (FETCH_KERNEL_VARIABLES_FAILED);
+export const inspectKernelVariable              = makeActionFunction      <InspectKernelVariable>           (INSPECT_KERNEL_VARIABLE);
+export const inspectKernelVariableFulfilled     = makeActionFunction      <InspectKernelVariableFulfilled>  (INSPECT_KERNEL_VARIABLE_FULFILLED);
+export const inspectKernelVariableFailed        = makeErrorActionFunction <InspectKernelVariableFailed>     (INSPECT_KERNEL_VARIABLE_FAILED);
@@ -0,0 +1,14 @@
+// tslint:disable:max-line-length
+import { Action, HasKernel, makeActionFunction } from "../utils";
+
+export const UPDATE_WIDGET_STATE        = "CORE/UPDATE_WIDGET_STATE";
+export const REQUEST_WIDGET_STATE       = "CORE/REQUEST_WIDGET_STATE";
+export const SEND_WIDGET_CUSTOM_MESSAGE = "CORE/SEND_WIDGET_CUSTOM_MESSAGE";
+
+export type UpdateWidgetState           = Action<typeof UPDATE_WIDGET_STATE,        HasKernel & { commId: string; state: { [key: string]: any } }>;
+export type RequestWidgetState          = Action<typeof REQUEST_WIDGET_STATE,       HasKernel & { commId: string }>;
+export type SendWidgetCustomMessage     = Action<typeof SEND_WIDGET_CUSTOM_MESSAGE, HasKernel & { commId: string; content: any; buffers?: Array<ArrayBuffer | ArrayBufferView> }>;
+
+export const updateWidgetState          = makeActionFunction<UpdateWidgetState>       (UPDATE_WIDGET_STATE);
+export const requestWidgetState         = makeActionFunction<RequestWidgetState>      (REQUEST_WIDGET_STATE);
+export const sendWidgetCustomMessage    = makeActionFunction<SendWidgetCustomMessage> (SEND_WIDGET_CUSTOM_MESSAGE);
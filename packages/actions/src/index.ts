@@ -1,17 +1,30 @@
+export * from "./actionTypes/cell_bulk";
 export * from "./actionTypes/cell_focus";
 export * from "./actionTypes/cell_io";
 export * from "./actionTypes/cell_state";
 export * from "./actionTypes/cell_structure";
 export * from "./actionTypes/comm";
+export * from "./actionTypes/content_checkpoints";
+export * from "./actionTypes/content_console";
+export * from "./actionTypes/content_parameters";
 export * from "./actionTypes/content_publish";
+export * from "./actionTypes/content_reactive";
+export * from "./actionTypes/content_recovery";
 export * from "./actionTypes/content_save_load";
 export * from "./actionTypes/content_state";
 export * from "./actionTypes/content_structure";
+export * from "./actionTypes/content_terminal";
+export * from "./actionTypes/content_undo";
 export * from "./actionTypes/global";
 export * from "./actionTypes/host";
+export * from "./actionTypes/kernel_debug";
 export * from "./actionTypes/kernel_execution";
+export * from "./actionTypes/kernel_history";
 export * from "./actionTypes/kernel_lifecycle";
 export * from "./actionTypes/kernel_misc";
+export * from "./actionTypes/kernel_queue";
+export * from "./actionTypes/kernel_variables";
 export * from "./actionTypes/kernelspecs";
+export * from "./actionTypes/widgets";
 
 export { Action, ErrorAction, makeActionFunction } from "./utils";
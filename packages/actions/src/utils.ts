@@ -45,7 +45,9 @@ export interface HasContent { contentRef: ContentRef }
 export interface MaybeHasContent { contentRef?: ContentRef | null }
 export interface HasCell extends HasContent { id: CellId }
 export interface MaybeHasCell extends HasContent { id?: CellId }
+export interface HasCells extends HasContent { ids: CellId[] }
 export interface HasFilepath { filepath: string; }
+export interface HasCheckpoint { checkpointId: string }
 export interface HasFilepathChange extends HasFilepath { prevFilePath: string }
 export interface HasKernelspecs { kernelspecsRef: KernelspecsRef }
 export interface HasHost { hostRef: HostRef }
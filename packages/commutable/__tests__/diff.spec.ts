@@ -0,0 +1,136 @@
+import Immutable from "immutable";
+
+import {
+  createCodeCell,
+  createMarkdownCell,
+  ImmutableCell,
+  makeNotebookRecord
+} from "../src";
+import { diffNotebooks, matchCells } from "../src/diff";
+import { diffLines, mergeLines } from "../src/lines";
+
+const notebook = (cells: Array<[string, ImmutableCell]>) =>
+  makeNotebookRecord({
+    cellOrder: Immutable.List(cells.map(([id]) => id)),
+    cellMap: Immutable.Map(cells)
+  });
+
+const code = (source: string) => createCodeCell({ source });
+
+describe("diffLines", () => {
+  it("reports added, removed and unchanged lines", () => {
+    expect(diffLines("a\nb\nc", "a\nc\nd")).toEqual([
+      { type: "unchanged", line: "a" },
+      { type: "removed", line: "b" },
+      { type: "unchanged", line: "c" },
+      { type: "added", line: "d" }
+    ]);
+  });
+
+  it("handles empty texts", () => {
+    expect(diffLines("", "a")).toEqual([{ type: "added", line: "a" }]);
+    expect(diffLines("a", "")).toEqual([{ type: "removed", line: "a" }]);
+  });
+});
+
+describe("mergeLines", () => {
+  it("applies non-overlapping changes of both sides", () => {
+    expect(mergeLines("a\nb\nc\nd", "A\nb\nc\nd", "a\nb\nc\nD")).toEqual({
+      text: "A\nb\nc\nD",
+      conflict: false
+    });
+  });
+
+  it("applies identical changes once", () => {
+    expect(mergeLines("a\nb", "a\nB", "a\nB")).toEqual({
+      text: "a\nB",
+      conflict: false
+    });
+  });
+
+  it("marks conflicting changes", () => {
+    expect(mergeLines("a\nb\nc", "a\nlocal\nc", "a\nremote\nc")).toEqual({
+      text: "a\n<<<<<<< local\nlocal\n=======\nremote\n>>>>>>> remote\nc",
+      conflict: true
+    });
+  });
+});
+
+describe("matchCells", () => {
+  it("matches cells by ID, then by content", () => {
+    const before = notebook([
+      ["a", code("x = 1")],
+      ["b", code("y = 2")],
+      ["c", code("print(x)\nprint(y)")]
+    ]);
+    const after = notebook([
+      ["a", code("x = 3")],
+      ["other", code("y = 2")],
+      ["new", code("print(x)\nprint(y)\nprint(z)")]
+    ]);
+
+    expect(matchCells(before, after).toJS()).toEqual({
+      a: "a",
+      b: "other",
+      c: "new"
+    });
+  });
+
+  it("does not match unrelated cells", () => {
+    const before = notebook([["a", code("x = 1")]]);
+    const after = notebook([["b", code("import os")]]);
+
+    expect(matchCells(before, after).size).toBe(0);
+  });
+});
+
+describe("diffNotebooks", () => {
+  const before = notebook([
+    ["a", code("import os")],
+    ["b", createMarkdownCell({ source: "# Title" })],
+    ["c", code("x = 1")],
+    ["d", code("print(x)")]
+  ]);
+
+  it("reports added, removed, moved and modified cells", () => {
+    const after = notebook([
+      ["b", createMarkdownCell({ source: "# Title" })],
+      ["a", code("import os")],
+      ["c", code("x = 2")],
+      ["e", code("y = x")]
+    ]);
+
+    const diff = diffNotebooks(before, after);
+    expect(
+      diff.cells.map(cell => [
+        cell.type,
+        cell.beforeId ?? cell.afterId,
+        cell.moved
+      ])
+    ).toEqual([
+      ["unchanged", "b", false],
+      ["unchanged", "a", true],
+      ["modified", "c", false],
+      ["removed", "d", false],
+      ["added", "e", false]
+    ]);
+    expect(diff.cells[2].source).toEqual([
+      { type: "removed", line: "x = 1" },
+      { type: "added", line: "x = 2" }
+    ]);
+  });
+
+  it("reports output and metadata changes", () => {
+    const after = before
+      .setIn(["cellMap", "c", "execution_count"], 1)
+      .setIn(["cellMap", "d", "metadata", "tags"], Immutable.Set(["parameters"]))
+      .setIn(["metadata", "kernelspec"], Immutable.Map({ name: "python3" }));
+
+    const diff = diffNotebooks(before, after);
+    expect(diff.cells[2]).toMatchObject({ type: "modified", outputsChanged: true });
+    expect(diff.cells[3].metadata).toEqual([
+      { key: "tags", before: undefined, after: Immutable.Set(["parameters"]) }
+    ]);
+    expect(diff.metadata.map(change => change.key)).toEqual(["kernelspec"]);
+  });
+});
@@ -0,0 +1,115 @@
+import Immutable from "immutable";
+
+import { createCodeCell, ImmutableCell, makeNotebookRecord } from "../src";
+import { mergeNotebooks } from "../src/merge";
+
+const notebook = (cells: Array<[string, ImmutableCell]>) =>
+  makeNotebookRecord({
+    cellOrder: Immutable.List(cells.map(([id]) => id)),
+    cellMap: Immutable.Map(cells)
+  });
+
+const code = (source: string) => createCodeCell({ source });
+
+const sources = (nb: ReturnType<typeof notebook>) =>
+  nb.cellOrder.map(id => nb.cellMap.get(id)!.source).toArray();
+
+describe("mergeNotebooks", () => {
+  const base = notebook([
+    ["a", code("import os")],
+    ["b", code("x = 1\ny = 2")],
+    ["c", code("print(x)")]
+  ]);
+
+  it("combines changes made on either side", () => {
+    const local = notebook([
+      ["a", code("import os")],
+      ["b", code("x = 10\ny = 2")],
+      ["c", code("print(x)")],
+      ["d", code("print(y)")]
+    ]);
+    const remote = notebook([
+      ["a", code("import os\nimport sys")],
+      ["b", code("x = 1\ny = 20")],
+      ["e", code("z = 3")],
+      ["c", code("print(x)")]
+    ]);
+
+    const { notebook: merged, conflicts } = mergeNotebooks(base, local, remote);
+    expect(conflicts).toEqual([]);
+    expect(sources(merged)).toEqual([
+      "import os\nimport sys",
+      "x = 10\ny = 20",
+      "z = 3",
+      "print(x)",
+      "print(y)"
+    ]);
+  });
+
+  it("applies deletions and moves", () => {
+    const local = notebook([
+      ["a", code("import os")],
+      ["c", code("print(x)")]
+    ]);
+    const remote = notebook([
+      ["c", code("print(x)")],
+      ["a", code("import os")],
+      ["b", code("x = 1\ny = 2")]
+    ]);
+
+    expect(sources(mergeNotebooks(base, local, remote).notebook)).toEqual([
+      "print(x)",
+      "import os"
+    ]);
+  });
+
+  it("reports conflicting source edits", () => {
+    const local = base.setIn(["cellMap", "b", "source"], "x = 'local'\ny = 2");
+    const remote = base.setIn(["cellMap", "b", "source"], "x = 'remote'\ny = 2");
+
+    const { notebook: merged, conflicts } = mergeNotebooks(base, local, remote);
+    expect(conflicts).toEqual([
+      {
+        type: "source",
+        cellId: "b",
+        base: "x = 1\ny = 2",
+        local: "x = 'local'\ny = 2",
+        remote: "x = 'remote'\ny = 2"
+      }
+    ]);
+    expect(merged.getIn(["cellMap", "b", "source"])).toBe(
+      "<<<<<<< local\nx = 'local'\n=======\nx = 'remote'\n>>>>>>> remote\ny = 2"
+    );
+  });
+
+  it("keeps cells modified on one side and deleted on the other", () => {
+    const local = base.setIn(["cellMap", "c", "source"], "print(x, y)");
+    const remote = base
+      .deleteIn(["cellMap", "c"])
+      .update("cellOrder", order => order.filter(id => id !== "c"));
+
+    const { notebook: merged, conflicts } = mergeNotebooks(base, local, remote);
+    expect(conflicts.map(conflict => [conflict.type, conflict.cellId])).toEqual([
+      ["deleted", "c"]
+    ]);
+    expect(sources(merged)).toEqual(["import os", "x = 1\ny = 2", "print(x, y)"]);
+  });
+
+  it("merges notebook and cell metadata by key", () => {
+    const local = base
+      .setIn(["metadata", "title"], "local")
+      .setIn(["cellMap", "a", "metadata", "collapsed"], true);
+    const remote = base
+      .setIn(["metadata", "title"], "remote")
+      .setIn(["metadata", "authors"], "remote")
+      .setIn(["cellMap", "a", "metadata", "scrolled"], true);
+
+    const { notebook: merged, conflicts } = mergeNotebooks(base, local, remote);
+    expect(conflicts).toEqual([
+      { type: "metadata", key: "title", base: undefined, local: "local", remote: "remote", cellId: undefined }
+    ]);
+    expect(merged.metadata.toJS()).toEqual({ title: "local", authors: "remote" });
+    expect(merged.getIn(["cellMap", "a", "metadata", "collapsed"])).toBe(true);
+    expect(merged.getIn(["cellMap", "a", "metadata", "scrolled"])).toBe(true);
+  });
+});
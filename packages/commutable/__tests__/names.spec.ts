@@ -0,0 +1,133 @@
+import {
+  analyzeNames,
+  analyzePythonNames,
+  registerNameAnalyzer
+} from "../src/names";
+
+const sorted = (source: string) => {
+  const { defines, uses } = analyzePythonNames(source);
+  return { defines: defines.sort(), uses: uses.sort() };
+};
+
+describe("analyzePythonNames", () => {
+  it("finds the names assigned and the ones read", () => {
+    expect(sorted("a, (b, *c) = d = compute(x, scale=2)\n")).toEqual({
+      defines: ["a", "b", "c", "d"],
+      uses: ["compute", "x"]
+    });
+    expect(sorted("total += price * count")).toEqual({
+      defines: ["total"],
+      uses: ["count", "price", "total"]
+    });
+    expect(sorted("rate: float = base / 2\nlimit: int")).toEqual({
+      defines: ["rate"],
+      uses: ["base", "float", "int"]
+    });
+  });
+  it("doesn't use names the cell defined before", () => {
+    expect(sorted("x = 1; y = x + z")).toEqual({
+      defines: ["x", "y"],
+      uses: ["z"]
+    });
+  });
+  it("counts changing an item or an attribute as defining it again", () => {
+    expect(sorted("df['total'] = df.price * n\nmodel.weights = w")).toEqual({
+      defines: ["df", "model"],
+      uses: ["df", "model", "n", "w"]
+    });
+  });
+  it("binds imports, functions, classes, loops and context managers", () => {
+    const source = [
+      "import numpy as np, os.path",
+      "from collections import (OrderedDict, defaultdict as dd)",
+      "@cached",
+      "def load(path, *args, mode=default_mode, **kwargs):",
+      "    rows = read(path, mode)",
+      "    return [clean(row) for row in rows if row not in skipped]",
+      "",
+      "class Loader(Base):",
+      "    size = 10",
+      "for i, name in enumerate(names):",
+      "    print(f'{i}: {name!r} {width:>10}')",
+      "with open(filename) as handle:",
+      "    pass",
+      "try:",
+      "    pass",
+      "except ValueError as error:",
+      "    log(error)"
+    ].join("\n");
+    expect(sorted(source)).toEqual({
+      defines: [
+        "Loader",
+        "OrderedDict",
+        "dd",
+        "handle",
+        "i",
+        "load",
+        "name",
+        "np",
+        "os"
+      ],
+      uses: [
+        "Base",
+        "ValueError",
+        "cached",
+        "clean",
+        "default_mode",
+        "enumerate",
+        "error",
+        "filename",
+        "log",
+        "names",
+        "open",
+        "print",
+        "read",
+        "skipped",
+        "width"
+      ]
+    });
+  });
+  it("leaves out strings, comments, magics and lambda arguments", () => {
+    const source = [
+      "%matplotlib inline",
+      "!pip install pandas",
+      "# plot = ignored",
+      'label = """not = code"""  # nor = this',
+      "key = lambda item, reverse=flip: item[order]",
+      "if (n := len(items)) > 3: print(n)"
+    ].join("\n");
+    expect(sorted(source)).toEqual({
+      defines: ["key", "label", "n"],
+      uses: ["flip", "items", "len", "order", "print"]
+    });
+  });
+  it("defines the globals a function assigns", () => {
+    expect(sorted("def reset():\n    global count\n    count = 0\n")).toEqual({
+      defines: ["count", "reset"],
+      uses: []
+    });
+  });
+  it("skips cells of other languages", () => {
+    expect(sorted("%%bash\nx=1 echo $x")).toEqual({ defines: [], uses: [] });
+    expect(sorted("%%time\nx = y")).toEqual({ defines: ["x"], uses: ["y"] });
+  });
+});
+
+describe("analyzeNames", () => {
+  it("uses the analyzer of the language", () => {
+    expect(analyzeNames("x = y", "Python")).toEqual({
+      defines: ["x"],
+      uses: ["y"]
+    });
+    expect(analyzeNames("x <- y", "r")).toBeNull();
+
+    registerNameAnalyzer("R", source => ({
+      defines: [source.split(" <- ")[0]],
+      uses: [source.split(" <- ")[1]]
+    }));
+    expect(analyzeNames("x <- y", "r")).toEqual({
+      defines: ["x"],
+      uses: ["y"]
+    });
+  });
+});
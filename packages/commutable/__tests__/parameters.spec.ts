@@ -0,0 +1,167 @@
+import Immutable from "immutable";
+
+import {
+  createCodeCell,
+  ImmutableCell,
+  makeNotebookRecord
+} from "../src";
+import {
+  INJECTED_PARAMETERS_TAG,
+  injectParameters,
+  parametersCellId,
+  parametersSource,
+  parseParameters,
+  parsePythonLiteral
+} from "../src/parameters";
+
+const tagged = (source: string, tag: string) =>
+  createCodeCell({ source }).setIn(
+    ["metadata", "tags"],
+    Immutable.List([tag])
+  );
+
+const notebook = (cells: Array<[string, ImmutableCell]>) =>
+  makeNotebookRecord({
+    cellOrder: Immutable.List(cells.map(([id]) => id)),
+    cellMap: Immutable.Map(cells)
+  });
+
+describe("parsePythonLiteral", () => {
+  it("reads numbers, strings, booleans and None", () => {
+    expect(parsePythonLiteral("-1_000")).toBe(-1000);
+    expect(parsePythonLiteral("2.5e3")).toBe(2500);
+    expect(parsePythonLiteral("'it\\'s'")).toBe("it's");
+    expect(parsePythonLiteral('"a\\nb"')).toBe("a\nb");
+    expect(parsePythonLiteral("True")).toBe(true);
+    expect(parsePythonLiteral("None")).toBeNull();
+  });
+  it("reads lists, tuples and dicts", () => {
+    expect(parsePythonLiteral("[1, (2, 'x'), {'a': False}]")).toEqual([
+      1,
+      [2, "x"],
+      { a: false }
+    ]);
+  });
+  it("rejects expressions", () => {
+    expect(parsePythonLiteral("datetime.now()")).toBeUndefined();
+    expect(parsePythonLiteral("1 + 1")).toBeUndefined();
+    expect(parsePythonLiteral("[1, 2")).toBeUndefined();
+  });
+});
+
+describe("parseParameters", () => {
+  it("reads assignments with their types and comments", () => {
+    const source = [
+      "# Parameters of the run",
+      "alpha = 0.6  # learning rate",
+      "epochs: int = 10",
+      'name = "model # 1"',
+      "start = datetime.now()",
+      "  indented = 1",
+      "x == 2"
+    ].join("\n");
+
+    expect(parseParameters(source)).toEqual([
+      {
+        name: "alpha",
+        value: 0.6,
+        source: "0.6",
+        type: "float",
+        help: "learning rate"
+      },
+      { name: "epochs", value: 10, source: "10", type: "int", help: "" },
+      {
+        name: "name",
+        value: "model # 1",
+        source: '"model # 1"',
+        type: "str",
+        help: ""
+      },
+      {
+        name: "start",
+        value: undefined,
+        source: "datetime.now()",
+        type: "",
+        help: ""
+      }
+    ]);
+  });
+});
+
+describe("parametersSource", () => {
+  const parameters = { alpha: 0.1, tags: ["a"], verbose: true, path: null };
+
+  it("writes the parameters as Python", () => {
+    expect(parametersSource(parameters)).toBe(
+      '# Parameters\nalpha = 0.1\ntags = ["a"]\nverbose = True\npath = None\n'
+    );
+  });
+  it("writes the parameters as R and Julia", () => {
+    expect(parametersSource(parameters, "R")).toBe(
+      '# Parameters\nalpha = 0.1\ntags = list("a")\nverbose = TRUE\npath = NULL\n'
+    );
+    expect(parametersSource(parameters, "julia")).toBe(
+      '# Parameters\nalpha = 0.1\ntags = ["a"]\nverbose = true\npath = nothing\n'
+    );
+  });
+  it("refuses other languages", () => {
+    expect(() => parametersSource(parameters, "scala")).toThrow();
+  });
+});
+
+describe("injectParameters", () => {
+  it("adds the injected cell after the parameters cell", () => {
+    const original = notebook([
+      ["imports", createCodeCell({ source: "import os" })],
+      ["parameters", tagged("alpha = 0.6", "parameters")],
+      ["train", createCodeCell({ source: "train(alpha)" })]
+    ]);
+    expect(parametersCellId(original)).toBe("parameters");
+
+    const { notebook: injected, cellId } = injectParameters(original, {
+      alpha: 0.1
+    });
+    expect(injected.cellOrder.toArray()).toEqual([
+      "imports",
+      "parameters",
+      cellId,
+      "train"
+    ]);
+    const cell = injected.cellMap.get(cellId)!;
+    expect(cell.source).toBe("# Parameters\nalpha = 0.1\n");
+    expect(cell.getIn(["metadata", "tags"]).toArray()).toEqual([
+      INJECTED_PARAMETERS_TAG
+    ]);
+    expect(
+      injected.metadata.getIn(["papermill", "parameters"]).toJS()
+    ).toEqual({ alpha: 0.1 });
+  });
+  it("replaces cells injected before", () => {
+    const original = notebook([
+      ["parameters", tagged("alpha = 0.6", "parameters")],
+      ["train", createCodeCell({ source: "train(alpha)" })],
+      ["old", tagged("alpha = 0.2", INJECTED_PARAMETERS_TAG)]
+    ]);
+    const { notebook: injected, cellId } = injectParameters(original, {
+      alpha: 0.1
+    });
+    expect(injected.cellOrder.toArray()).toEqual([
+      "parameters",
+      "train",
+      cellId
+    ]);
+    expect(injected.cellMap.has("old")).toBe(false);
+  });
+  it("injects at the top without a parameters cell, in the notebook's language", () => {
+    const original = notebook([
+      ["train", createCodeCell({ source: "train(alpha)" })]
+    ]).setIn(["metadata", "kernelspec"], Immutable.Map({ language: "R" }));
+    const { notebook: injected, cellId } = injectParameters(original, {
+      verbose: false
+    });
+    expect(injected.cellOrder.first()).toBe(cellId);
+    expect(injected.cellMap.get(cellId)!.source).toBe(
+      "# Parameters\nverbose = FALSE\n"
+    );
+  });
+});
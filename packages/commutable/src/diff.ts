@@ -0,0 +1,400 @@
+import { is, List as ImmutableList, Map as ImmutableMap } from "immutable";
+
+import { ImmutableCell } from "./cells";
+import { diffLines, LineChange, splitLines } from "./lines";
+import { ImmutableOutput } from "./outputs";
+import { CellId } from "./primitives";
+import { ImmutableNotebook } from "./structures";
+
+export interface MetadataChange {
+  key: string;
+  /** Value in the original, `undefined` when the key was added */
+  before?: any;
+  /** Value in the changed version, `undefined` when the key was removed */
+  after?: any;
+}
+
+export type CellChangeType = "added" | "removed" | "modified" | "unchanged";
+
+export interface CellDiff {
+  type: CellChangeType;
+  /** ID of the cell in the original notebook, unless it was added */
+  beforeId?: CellId;
+  /** ID of the cell in the changed notebook, unless it was removed */
+  afterId?: CellId;
+  before?: ImmutableCell;
+  after?: ImmutableCell;
+  /** Whether the cell changed position relative to the cells around it */
+  moved: boolean;
+  /** Line changes of the source, when it changed */
+  source?: LineChange[];
+  cellTypeChanged: boolean;
+  /** Whether the outputs or the execution count changed */
+  outputsChanged: boolean;
+  /** Changed top level metadata entries */
+  metadata: MetadataChange[];
+}
+
+export interface NotebookDiff {
+  /**
+   * Cells of both notebooks in the order of the changed notebook, with
+   * removed cells shown where they used to be.
+   */
+  cells: CellDiff[];
+  /** Changed top level notebook metadata entries */
+  metadata: MetadataChange[];
+}
+
+/** Pairs of IDs of cells considered the same in two notebooks */
+export type CellMatches = ImmutableMap<CellId, CellId>;
+
+// Minimum share of common lines for changed cells to be considered the same
+const SIMILARITY_THRESHOLD = 0.5;
+
+function similarity(a: ImmutableCell, b: ImmutableCell): number {
+  const changes = diffLines(a.source, b.source);
+  const total = changes.length;
+  if (total === 0) {
+    return a.cell_type === b.cell_type ? 1 : 0;
+  }
+  const unchanged = changes.filter(change => change.type === "unchanged")
+    .length;
+  return unchanged / total;
+}
+
+/**
+ * Indices into `a` and `b` of a longest common subsequence of elements
+ * satisfying `equal`.
+ */
+function commonSubsequence<T>(
+  a: T[],
+  b: T[],
+  equal: (x: T, y: T) => boolean
+): Array<[number, number]> {
+  const lengths: number[][] = [];
+  for (let i = a.length; i >= 0; i--) {
+    lengths[i] = new Array(b.length + 1).fill(0);
+    if (i === a.length) {
+      continue;
+    }
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = equal(a[i], b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (equal(a[i], b[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Determines which cells of two versions of a notebook are the same cell.
+ *
+ * Cells with the same ID, as saved by nbformat 4.5 and later, are always
+ * matched. Other cells are matched by identical content in document order,
+ * and finally by similar source among the unmatched cells in between.
+ *
+ * @param before The original notebook
+ * @param after The changed notebook
+ *
+ * @returns Map of the IDs of cells in `before` to the IDs of the same cells
+ * in `after`
+ */
+export function matchCells(
+  before: ImmutableNotebook,
+  after: ImmutableNotebook
+): CellMatches {
+  const matches = new Map<CellId, CellId>();
+  before.cellOrder.forEach(id => {
+    if (after.cellMap.has(id)) {
+      matches.set(id, id);
+    }
+  });
+  const cellBefore = (id: CellId) => before.cellMap.get(id)!;
+  const cellAfter = (id: CellId) => after.cellMap.get(id)!;
+
+  const unmatchedBefore = before.cellOrder
+    .filter(id => !matches.has(id))
+    .toArray();
+  const idMatches = new Set(matches.values());
+  const unmatchedAfter = after.cellOrder
+    .filter(id => !idMatches.has(id))
+    .toArray();
+
+  commonSubsequence(
+    unmatchedBefore,
+    unmatchedAfter,
+    (a, b) =>
+      cellBefore(a).cell_type === cellAfter(b).cell_type &&
+      cellBefore(a).source === cellAfter(b).source
+  ).forEach(([i, j]) => matches.set(unmatchedBefore[i], unmatchedAfter[j]));
+
+  // Cells changed in place: pair the remaining cells lying after the same
+  // matched cell by similarity. Gaps are identified by the index of the
+  // preceding matched cell in `after`.
+  const afterIndex = new Map<CellId, number>();
+  after.cellOrder.forEach((id, index) => afterIndex.set(id, index));
+  const matchedAfter = new Set(matches.values());
+
+  const beforeGaps = new Map<CellId, number>();
+  let gap = -1;
+  before.cellOrder.forEach(id => {
+    const match = matches.get(id);
+    if (match !== undefined) {
+      gap = afterIndex.get(match)!;
+    } else {
+      beforeGaps.set(id, gap);
+    }
+  });
+
+  const afterGaps = new Map<CellId, number>();
+  gap = -1;
+  after.cellOrder.forEach((id, index) => {
+    if (matchedAfter.has(id)) {
+      gap = index;
+    } else {
+      afterGaps.set(id, gap);
+    }
+  });
+
+  const taken = new Set<CellId>();
+  beforeGaps.forEach((beforeGap, id) => {
+    let best: CellId | undefined;
+    let bestSimilarity = SIMILARITY_THRESHOLD;
+    afterGaps.forEach((afterGap, candidate) => {
+      if (afterGap !== beforeGap || taken.has(candidate)) {
+        return;
+      }
+      const score = similarity(cellBefore(id), cellAfter(candidate));
+      if (score >= bestSimilarity) {
+        best = candidate;
+        bestSimilarity = score;
+      }
+    });
+    if (best !== undefined) {
+      taken.add(best);
+      matches.set(id, best);
+    }
+  });
+
+  return ImmutableMap(matches);
+}
+
+function withoutTransient(metadata: ImmutableMap<string, any>) {
+  return metadata.deleteIn(["nteract", "transient"]);
+}
+
+/**
+ * Computes the changed top level entries of two metadata maps.
+ */
+export function diffMetadata(
+  before: ImmutableMap<string, any>,
+  after: ImmutableMap<string, any>
+): MetadataChange[] {
+  const keys = before
+    .keySeq()
+    .concat(after.keySeq().filter(key => !before.has(key)));
+  return keys
+    .filter(key => !is(before.get(key), after.get(key)))
+    .map(key => ({ key, before: before.get(key), after: after.get(key) }))
+    .toArray();
+}
+
+function outputsOf(cell: ImmutableCell): ImmutableList<ImmutableOutput> {
+  return cell.cell_type === "code" ? cell.outputs : ImmutableList();
+}
+
+/**
+ * Whether two cells have the same outputs and execution count. Output data
+ * are compared by value, so that the outputs of separately loaded notebooks
+ * can be compared.
+ */
+export function sameOutputs(a: ImmutableCell, b: ImmutableCell): boolean {
+  return (
+    a.get("execution_count", null) === b.get("execution_count", null) &&
+    JSON.stringify(outputsOf(a)) === JSON.stringify(outputsOf(b))
+  );
+}
+
+/**
+ * Compares two versions of a cell.
+ */
+export function diffCell(
+  before: ImmutableCell,
+  after: ImmutableCell
+): Pick<CellDiff, "source" | "cellTypeChanged" | "outputsChanged" | "metadata"> {
+  return {
+    source:
+      before.source === after.source
+        ? undefined
+        : diffLines(before.source, after.source),
+    cellTypeChanged: before.cell_type !== after.cell_type,
+    outputsChanged: !sameOutputs(before, after),
+    metadata: diffMetadata(
+      withoutTransient(before.metadata),
+      withoutTransient(after.metadata)
+    )
+  };
+}
+
+/**
+ * Indices of a longest increasing subsequence of `values`
+ */
+function increasingSubsequence(values: number[]): Set<number> {
+  const lengths: number[] = [];
+  const previous: number[] = [];
+  let last = -1;
+  values.forEach((value, i) => {
+    lengths[i] = 1;
+    previous[i] = -1;
+    for (let j = 0; j < i; j++) {
+      if (values[j] < value && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+    if (last === -1 || lengths[i] > lengths[last]) {
+      last = i;
+    }
+  });
+
+  const indices = new Set<number>();
+  for (let i = last; i !== -1; i = previous[i]) {
+    indices.add(i);
+  }
+  return indices;
+}
+
+/**
+ * Computes the cell-aware differences between two versions of a notebook:
+ * added, removed, moved and modified cells along with their source,
+ * output and metadata changes.
+ *
+ * @param before The original notebook
+ * @param after The changed notebook
+ * @param matches The cells to consider the same, see `matchCells`
+ */
+export function diffNotebooks(
+  before: ImmutableNotebook,
+  after: ImmutableNotebook,
+  matches: CellMatches = matchCells(before, after)
+): NotebookDiff {
+  const beforeIds = new Map<CellId, CellId>();
+  matches.forEach((afterId, beforeId) => beforeIds.set(afterId, beforeId));
+  const beforeIndex = (id: CellId) => before.cellOrder.indexOf(id);
+
+  // Matched cells keeping their relative order did not move
+  const matched = after.cellOrder.filter(id => beforeIds.has(id)).toArray();
+  const inOrder = increasingSubsequence(
+    matched.map(id => beforeIndex(beforeIds.get(id)!))
+  );
+  const moved = new Set(matched.filter((_, i) => !inOrder.has(i)));
+
+  const cells: CellDiff[] = [];
+  const removed = before.cellOrder
+    .filter(id => !matches.has(id))
+    .toArray();
+  const flushRemoved = (upTo: number) => {
+    while (removed.length > 0 && beforeIndex(removed[0]) < upTo) {
+      const id = removed.shift()!;
+      cells.push({
+        type: "removed",
+        beforeId: id,
+        before: before.cellMap.get(id),
+        moved: false,
+        cellTypeChanged: false,
+        outputsChanged: false,
+        metadata: []
+      });
+    }
+  };
+
+  // Removed cells are listed ahead of the cells added in their place
+  const anchors = after.cellOrder
+    .map(id =>
+      beforeIds.has(id) && !moved.has(id)
+        ? beforeIndex(beforeIds.get(id)!)
+        : undefined
+    )
+    .toArray();
+  const nextAnchor = (index: number) =>
+    anchors.slice(index).find(anchor => anchor !== undefined) ?? Infinity;
+
+  after.cellOrder.forEach((afterId, index) => {
+    const cell = after.cellMap.get(afterId)!;
+    const beforeId = beforeIds.get(afterId);
+    if (beforeId === undefined) {
+      flushRemoved(nextAnchor(index));
+      cells.push({
+        type: "added",
+        afterId,
+        after: cell,
+        moved: false,
+        cellTypeChanged: false,
+        outputsChanged: false,
+        metadata: []
+      });
+      return;
+    }
+
+    if (!moved.has(afterId)) {
+      flushRemoved(beforeIndex(beforeId));
+    }
+
+    const previous = before.cellMap.get(beforeId)!;
+    const changes = diffCell(previous, cell);
+    const modified =
+      changes.source !== undefined ||
+      changes.cellTypeChanged ||
+      changes.outputsChanged ||
+      changes.metadata.length > 0;
+    cells.push({
+      type: modified ? "modified" : "unchanged",
+      beforeId,
+      afterId,
+      before: previous,
+      after: cell,
+      moved: moved.has(afterId),
+      ...changes
+    });
+  });
+  flushRemoved(Infinity);
+
+  return {
+    cells,
+    metadata: diffMetadata(before.metadata, after.metadata)
+  };
+}
+
+/**
+ * Number of lines added and removed in a cell diff, e.g. for a summary.
+ */
+export function countLineChanges(
+  diff: CellDiff
+): { added: number; removed: number } {
+  if (diff.type === "added") {
+    return { added: splitLines(diff.after!.source).length, removed: 0 };
+  }
+  if (diff.type === "removed") {
+    return { added: 0, removed: splitLines(diff.before!.source).length };
+  }
+  const changes = diff.source ?? [];
+  return {
+    added: changes.filter(change => change.type === "added").length,
+    removed: changes.filter(change => change.type === "removed").length
+  };
+}
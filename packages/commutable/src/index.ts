@@ -5,3 +5,9 @@ export * from "./structures";
 export * from "./outputs";
 export * from "./cells";
 export * from "./notebook";
+export { cellToJS, createImmutableCell } from "./v4";
+export * from "./lines";
+export * from "./diff";
+export * from "./merge";
+export * from "./parameters";
+export * from "./names";
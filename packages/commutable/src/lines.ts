@@ -0,0 +1,254 @@
+/**
+ * Line based diff and three-way merge of strings, used for cell sources.
+ */
+
+export interface LineChange {
+  type: "unchanged" | "added" | "removed";
+  line: string;
+}
+
+/**
+ * A change to a range of lines: `before[start, end)` is replaced by `lines`.
+ * Insertions have an empty range.
+ */
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+// Beyond this many line comparisons the changed region is reported as a
+// whole rather than computing a minimal diff
+const MAX_COMPARISONS = 4000000;
+
+export function splitLines(text: string): string[] {
+  return text === "" ? [] : text.split("\n");
+}
+
+export function joinLines(lines: string[]): string {
+  return lines.join("\n");
+}
+
+/**
+ * Pairs of indices of the lines common to `before` and `after`, forming a
+ * longest common subsequence.
+ */
+function commonLines(before: string[], after: string[]): Array<[number, number]> {
+  let prefix = 0;
+  while (
+    prefix < before.length &&
+    prefix < after.length &&
+    before[prefix] === after[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < prefix; i++) {
+    pairs.push([i, i]);
+  }
+
+  const n = before.length - prefix - suffix;
+  const m = after.length - prefix - suffix;
+  if (n > 0 && m > 0 && n * m <= MAX_COMPARISONS) {
+    // lengths[i][j] is the LCS length of the middle sections from i and j on
+    const lengths: number[][] = [];
+    for (let i = n; i >= 0; i--) {
+      lengths[i] = new Array(m + 1).fill(0);
+      if (i === n) {
+        continue;
+      }
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i][j] =
+          before[prefix + i] === after[prefix + j]
+            ? lengths[i + 1][j + 1] + 1
+            : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (before[prefix + i] === after[prefix + j]) {
+        pairs.push([prefix + i, prefix + j]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+  }
+
+  for (let k = suffix; k > 0; k--) {
+    pairs.push([before.length - k, after.length - k]);
+  }
+  return pairs;
+}
+
+function hunks(before: string[], after: string[]): Hunk[] {
+  const result: Hunk[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [commonBefore, commonAfter] of [
+    ...commonLines(before, after),
+    [before.length, after.length]
+  ]) {
+    if (commonBefore > i || commonAfter > j) {
+      result.push({
+        start: i,
+        end: commonBefore,
+        lines: after.slice(j, commonAfter)
+      });
+    }
+    i = commonBefore + 1;
+    j = commonAfter + 1;
+  }
+  return result;
+}
+
+/**
+ * Computes the changes turning one text into another, line by line.
+ *
+ * @param before The original text
+ * @param after The changed text
+ *
+ * @returns Every line of both texts in order, tagged with whether it was
+ * added, removed or is common to both
+ */
+export function diffLines(before: string, after: string): LineChange[] {
+  const beforeLines = splitLines(before);
+  const afterLines = splitLines(after);
+  const changes: LineChange[] = [];
+
+  let i = 0;
+  for (const hunk of hunks(beforeLines, afterLines)) {
+    for (; i < hunk.start; i++) {
+      changes.push({ type: "unchanged", line: beforeLines[i] });
+    }
+    for (; i < hunk.end; i++) {
+      changes.push({ type: "removed", line: beforeLines[i] });
+    }
+    hunk.lines.forEach(line => changes.push({ type: "added", line }));
+  }
+  for (; i < beforeLines.length; i++) {
+    changes.push({ type: "unchanged", line: beforeLines[i] });
+  }
+  return changes;
+}
+
+export interface TextMergeResult {
+  text: string;
+  /** Whether both sides changed the same lines differently */
+  conflict: boolean;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/** Applies the hunks within `base[start, end)` */
+function applyHunks(
+  base: string[],
+  start: number,
+  end: number,
+  changes: Hunk[]
+): string[] {
+  const lines: string[] = [];
+  let i = start;
+  for (const hunk of changes) {
+    lines.push(...base.slice(i, hunk.start), ...hunk.lines);
+    i = hunk.end;
+  }
+  lines.push(...base.slice(i, end));
+  return lines;
+}
+
+/**
+ * Three-way merge of texts, line by line. Changes made by only one side are
+ * applied, identical changes are applied once. Lines changed differently by
+ * both sides are kept from both, between git style conflict markers.
+ *
+ * @param base The common ancestor of both texts
+ * @param local The text changed on one side
+ * @param remote The text changed on the other side
+ */
+export function mergeLines(
+  base: string,
+  local: string,
+  remote: string
+): TextMergeResult {
+  if (local === remote || remote === base) {
+    return { text: local, conflict: false };
+  }
+  if (local === base) {
+    return { text: remote, conflict: false };
+  }
+
+  const baseLines = splitLines(base);
+  const changes = [
+    ...hunks(baseLines, splitLines(local)).map(hunk => ({ hunk, local: true })),
+    ...hunks(baseLines, splitLines(remote)).map(hunk => ({ hunk, local: false }))
+  ].sort((a, b) => a.hunk.start - b.hunk.start || a.hunk.end - b.hunk.end);
+
+  const merged: string[] = [];
+  let conflict = false;
+  let i = 0;
+  let k = 0;
+  while (k < changes.length) {
+    // Group changes touching overlapping base lines. Changes to adjacent
+    // lines are independent, unless one of them inserts lines in between.
+    const group = [changes[k]];
+    const start = changes[k].hunk.start;
+    let end = changes[k].hunk.end;
+    let insertsAtEnd = start === end;
+    for (k++; k < changes.length; k++) {
+      const { hunk } = changes[k];
+      const inserts = hunk.start === hunk.end;
+      if (hunk.start > end || (hunk.start === end && !inserts && !insertsAtEnd)) {
+        break;
+      }
+      group.push(changes[k]);
+      if (hunk.end >= end) {
+        insertsAtEnd = inserts || (hunk.end === end && insertsAtEnd);
+        end = hunk.end;
+      }
+    }
+
+    merged.push(...baseLines.slice(i, start));
+    i = end;
+
+    const localHunks = group.filter(change => change.local).map(change => change.hunk);
+    const remoteHunks = group.filter(change => !change.local).map(change => change.hunk);
+    const localLines = applyHunks(baseLines, start, end, localHunks);
+    const remoteLines = applyHunks(baseLines, start, end, remoteHunks);
+
+    if (remoteHunks.length === 0 || sameLines(localLines, remoteLines)) {
+      merged.push(...localLines);
+    } else if (localHunks.length === 0) {
+      merged.push(...remoteLines);
+    } else {
+      conflict = true;
+      merged.push(
+        "<<<<<<< local",
+        ...localLines,
+        "=======",
+        ...remoteLines,
+        ">>>>>>> remote"
+      );
+    }
+  }
+  merged.push(...baseLines.slice(i));
+
+  return { text: joinLines(merged), conflict };
+}
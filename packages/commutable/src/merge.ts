@@ -0,0 +1,307 @@
+import { is, List as ImmutableList, Map as ImmutableMap } from "immutable";
+
+import { ImmutableCell } from "./cells";
+import { diffCell, diffNotebooks, matchCells, sameOutputs } from "./diff";
+import { mergeLines } from "./lines";
+import { CellId, createCellId } from "./primitives";
+import { ImmutableNotebook } from "./structures";
+
+export type MergeConflictType =
+  | "source"
+  | "cell_type"
+  | "outputs"
+  | "metadata"
+  | "deleted";
+
+export interface MergeConflict {
+  type: MergeConflictType;
+  /** ID of the cell in the merged notebook, absent for notebook metadata */
+  cellId?: CellId;
+  /** Conflicting metadata entry */
+  key?: string;
+  /**
+   * Conflicting values. For `deleted` conflicts these are the cells, the
+   * side which deleted the cell has none.
+   */
+  base?: any;
+  local?: any;
+  remote?: any;
+}
+
+export interface NotebookMergeResult {
+  /**
+   * The merged notebook. Where both sides conflict, the local version is
+   * kept, except for sources which contain both versions between git style
+   * conflict markers and deleted cells which are kept as modified.
+   */
+  notebook: ImmutableNotebook;
+  conflicts: MergeConflict[];
+}
+
+type ConflictHandler = (
+  type: MergeConflictType,
+  details: Pick<MergeConflict, "key" | "base" | "local" | "remote">
+) => void;
+
+function mergeMetadata(
+  base: ImmutableMap<string, any>,
+  local: ImmutableMap<string, any>,
+  remote: ImmutableMap<string, any>,
+  onConflict: ConflictHandler
+): ImmutableMap<string, any> {
+  const keys = base
+    .keySeq()
+    .concat(local.keySeq(), remote.keySeq())
+    .toOrderedSet();
+
+  return keys.reduce((merged, key) => {
+    const [b, l, r] = [base.get(key), local.get(key), remote.get(key)];
+    let value = l;
+    if (!is(l, r)) {
+      if (is(b, l)) {
+        value = r;
+      } else if (!is(b, r)) {
+        onConflict("metadata", { key, base: b, local: l, remote: r });
+      }
+    }
+    return value === undefined ? merged.delete(key) : merged.set(key, value);
+  }, local);
+}
+
+function unchanged(base: ImmutableCell, cell: ImmutableCell): boolean {
+  const changes = diffCell(base, cell);
+  return (
+    changes.source === undefined &&
+    !changes.cellTypeChanged &&
+    !changes.outputsChanged &&
+    changes.metadata.length === 0
+  );
+}
+
+/**
+ * Three-way merge of a cell. Without a base, i.e. for a cell added on both
+ * sides, every difference is a conflict.
+ */
+function mergeCell(
+  base: ImmutableCell | undefined,
+  local: ImmutableCell,
+  remote: ImmutableCell,
+  onConflict: ConflictHandler
+): ImmutableCell {
+  let merged = local;
+
+  if (local.cell_type !== remote.cell_type) {
+    if (base && base.cell_type === local.cell_type) {
+      // The cell was converted remotely, which changes the kind of record
+      merged = remote;
+    } else if (!base || base.cell_type !== remote.cell_type) {
+      onConflict("cell_type", {
+        base: base?.cell_type,
+        local: local.cell_type,
+        remote: remote.cell_type
+      });
+    }
+  }
+
+  const source = mergeLines(base ? base.source : "", local.source, remote.source);
+  if (source.conflict) {
+    onConflict("source", {
+      base: base?.source,
+      local: local.source,
+      remote: remote.source
+    });
+  }
+
+  const metadata = mergeMetadata(
+    base ? base.metadata : ImmutableMap(),
+    local.metadata,
+    remote.metadata,
+    onConflict
+  );
+
+  merged = (merged as any).set("source", source.text).set("metadata", metadata);
+
+  if (
+    merged.cell_type === "code" &&
+    local.cell_type === "code" &&
+    remote.cell_type === "code" &&
+    !sameOutputs(local, remote)
+  ) {
+    let outputsFrom = local;
+    if (base && sameOutputs(base, local)) {
+      outputsFrom = remote;
+    } else if (!base || !sameOutputs(base, remote)) {
+      onConflict("outputs", {
+        base: base?.get("outputs", undefined),
+        local: local.outputs,
+        remote: remote.outputs
+      });
+    }
+    merged = merged
+      .set("outputs", outputsFrom.outputs)
+      .set("execution_count", outputsFrom.execution_count);
+  }
+
+  return merged;
+}
+
+function invert(matches: ImmutableMap<CellId, CellId>): Map<CellId, CellId> {
+  const inverted = new Map<CellId, CellId>();
+  matches.forEach((to, from) => inverted.set(to, from));
+  return inverted;
+}
+
+/**
+ * Three-way merge of notebooks, as needed to resolve version control
+ * conflicts. Cells are matched between the versions by ID where available
+ * and by content otherwise, see `matchCells`.
+ *
+ * Changes made on one side only are applied: added, removed, moved and
+ * modified cells as well as notebook metadata. Cells changed on both sides
+ * are merged field by field, sources line by line. Whatever both sides
+ * changed differently is reported as a conflict.
+ *
+ * @param base The common ancestor of both versions
+ * @param local The version the merge result is based on, e.g. "ours"
+ * @param remote The version merged into it, e.g. "theirs"
+ */
+export function mergeNotebooks(
+  base: ImmutableNotebook,
+  local: ImmutableNotebook,
+  remote: ImmutableNotebook
+): NotebookMergeResult {
+  const conflicts: MergeConflict[] = [];
+  const conflictHandler = (cellId?: CellId): ConflictHandler => (
+    type,
+    details
+  ) => conflicts.push({ type, cellId, ...details });
+
+  const localMatches = matchCells(base, local);
+  const remoteMatches = matchCells(base, remote);
+  const localToBase = invert(localMatches);
+  const remoteToBase = invert(remoteMatches);
+
+  // Cells added on both sides, e.g. the same cell pasted twice
+  const localAdded = local.cellOrder.filter(id => !localToBase.has(id));
+  const remoteAdded = remote.cellOrder.filter(id => !remoteToBase.has(id));
+  const addedMatches = matchCells(
+    local.merge({
+      cellOrder: localAdded,
+      cellMap: local.cellMap.filter((_, id) => localAdded.includes(id))
+    }),
+    remote.merge({
+      cellOrder: remoteAdded,
+      cellMap: remote.cellMap.filter((_, id) => remoteAdded.includes(id))
+    })
+  );
+  const remoteToLocal = invert(addedMatches);
+
+  let cellMap = ImmutableMap<CellId, ImmutableCell>();
+  let cellOrder = ImmutableList<CellId>();
+  /** IDs of remote cells in the merged notebook */
+  const mergedIds = new Map<CellId, CellId>();
+
+  // Start from the local cells still present after the merge
+  local.cellOrder.forEach(id => {
+    const cell = local.cellMap.get(id)!;
+    const baseId = localToBase.get(id);
+
+    if (baseId === undefined) {
+      const remoteId = addedMatches.get(id);
+      cellMap = cellMap.set(
+        id,
+        remoteId === undefined
+          ? cell
+          : mergeCell(undefined, cell, remote.cellMap.get(remoteId)!, conflictHandler(id))
+      );
+      cellOrder = cellOrder.push(id);
+      if (remoteId !== undefined) {
+        mergedIds.set(remoteId, id);
+      }
+      return;
+    }
+
+    const baseCell = base.cellMap.get(baseId)!;
+    const remoteId = remoteMatches.get(baseId);
+    if (remoteId === undefined) {
+      // Deleted remotely
+      if (unchanged(baseCell, cell)) {
+        return;
+      }
+      conflicts.push({ type: "deleted", cellId: id, base: baseCell, local: cell });
+      cellMap = cellMap.set(id, cell);
+    } else {
+      const remoteCell = remote.cellMap.get(remoteId)!;
+      cellMap = cellMap.set(id, mergeCell(baseCell, cell, remoteCell, conflictHandler(id)));
+      mergedIds.set(remoteId, id);
+    }
+    cellOrder = cellOrder.push(id);
+  });
+
+  // Then place the remote cells which are new to the merged notebook and the
+  // ones moved remotely, after the cell they follow in the remote notebook
+  const localMoved = new Set(
+    diffNotebooks(base, local, localMatches)
+      .cells.filter(cell => cell.moved)
+      .map(cell => localToBase.get(cell.afterId!)!)
+  );
+  const remoteMoved = new Set(
+    diffNotebooks(base, remote, remoteMatches)
+      .cells.filter(cell => cell.moved)
+      .map(cell => cell.afterId!)
+  );
+
+  remote.cellOrder.forEach((remoteId, index) => {
+    const cell = remote.cellMap.get(remoteId)!;
+    const baseId = remoteToBase.get(remoteId);
+    let id = mergedIds.get(remoteId);
+
+    if (id !== undefined) {
+      const moved = remoteMoved.has(remoteId) && !localMoved.has(baseId!);
+      if (!moved) {
+        return;
+      }
+      cellOrder = cellOrder.delete(cellOrder.indexOf(id));
+    } else if (remoteToLocal.has(remoteId)) {
+      return;
+    } else if (baseId === undefined) {
+      // Added remotely
+      id = cellMap.has(remoteId) ? createCellId() : remoteId;
+      cellMap = cellMap.set(id, cell);
+    } else {
+      // Deleted locally
+      if (unchanged(base.cellMap.get(baseId)!, cell)) {
+        return;
+      }
+      id = cellMap.has(remoteId) ? createCellId() : remoteId;
+      conflicts.push({
+        type: "deleted",
+        cellId: id,
+        base: base.cellMap.get(baseId),
+        remote: cell
+      });
+      cellMap = cellMap.set(id, cell);
+    }
+    mergedIds.set(remoteId, id);
+
+    const previous = remote.cellOrder
+      .slice(0, index)
+      .findLast(previousId => mergedIds.has(previousId));
+    cellOrder = cellOrder.insert(
+      previous === undefined ? 0 : cellOrder.indexOf(mergedIds.get(previous)!) + 1,
+      id
+    );
+  });
+
+  const metadata = mergeMetadata(
+    base.metadata,
+    local.metadata,
+    remote.metadata,
+    conflictHandler()
+  );
+
+  return {
+    notebook: local.merge({ cellOrder, cellMap, metadata }),
+    conflicts
+  };
+}
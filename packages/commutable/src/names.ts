@@ -0,0 +1,594 @@
+/**
+ * The names a cell binds at the top level of the kernel and the ones it reads
+ * from there, which is what makes a cell depend on another.
+ */
+export interface CellNames {
+  defines: string[];
+  uses: string[];
+}
+
+/**
+ * Finds the names defined and used by the source of a cell in one language.
+ */
+export type NameAnalyzer = (source: string) => CellNames;
+
+interface Token {
+  type: "name" | "op";
+  value: string;
+}
+
+interface Line {
+  indent: number;
+  tokens: Token[];
+}
+
+const PYTHON_KEYWORDS = new Set([
+  "False",
+  "None",
+  "True",
+  "and",
+  "as",
+  "assert",
+  "async",
+  "await",
+  "break",
+  "class",
+  "continue",
+  "def",
+  "del",
+  "elif",
+  "else",
+  "except",
+  "finally",
+  "for",
+  "from",
+  "global",
+  "if",
+  "import",
+  "in",
+  "is",
+  "lambda",
+  "nonlocal",
+  "not",
+  "or",
+  "pass",
+  "raise",
+  "return",
+  "try",
+  "while",
+  "with",
+  "yield"
+]);
+
+// Statements with a body after their colon
+const COMPOUND_KEYWORDS = new Set([
+  "if",
+  "elif",
+  "else",
+  "while",
+  "for",
+  "with",
+  "try",
+  "except",
+  "finally",
+  "def",
+  "class"
+]);
+
+// Cell magics that still run the rest of the cell as Python
+const PYTHON_CELL_MAGICS = new Set(["time", "timeit", "capture", "prun"]);
+
+const STRING_START = /^(?:[rRbBuUfF]{1,2})?("""|'''|"|')/;
+const OPERATOR = /^(?:\*\*=|\/\/=|>>=|<<=|[-+*/%&|^@]=|[=!<>:]=|->|\*\*|\/\/|\S)/;
+
+/**
+ * Splits Python source into logical lines of names and operators, leaving out
+ * comments, string literals, numbers and IPython magics. The expressions of
+ * f-strings are kept, in parentheses.
+ */
+function tokenizePython(source: string): Line[] {
+  const lines: Line[] = [];
+  let tokens: Token[] = [];
+  let indent = 0;
+  let depth = 0;
+  let lineStart = true;
+  let index = 0;
+
+  const endLine = () => {
+    if (tokens.length > 0) {
+      lines.push({ indent, tokens });
+    }
+    tokens = [];
+    lineStart = true;
+  };
+
+  while (index < source.length) {
+    if (lineStart) {
+      const start = index;
+      while (source[index] === " " || source[index] === "\t") {
+        index += 1;
+      }
+      indent = index - start;
+      lineStart = false;
+      if (source[index] === "%" || source[index] === "!") {
+        while (index < source.length && source[index] !== "\n") {
+          index += 1;
+        }
+        continue;
+      }
+    }
+
+    const char = source[index];
+    const string = STRING_START.exec(source.slice(index, index + 5));
+
+    if (char === "\n") {
+      index += 1;
+      if (depth === 0) {
+        endLine();
+      }
+    } else if (char === "\\" && source[index + 1] === "\n") {
+      index += 2;
+    } else if (char === " " || char === "\t" || char === "\r") {
+      index += 1;
+    } else if (char === "#") {
+      while (index < source.length && source[index] !== "\n") {
+        index += 1;
+      }
+    } else if (string) {
+      const quote = string[1];
+      let end = index + string[0].length;
+      while (
+        end < source.length &&
+        source.slice(end, end + quote.length) !== quote &&
+        (quote.length === 3 || source[end] !== "\n")
+      ) {
+        end += source[end] === "\\" ? 2 : 1;
+      }
+      if (/f/i.test(string[0].slice(0, -quote.length))) {
+        const text = source.slice(index + string[0].length, end);
+        (text.replace(/{{|}}/g, "").match(/{[^{}]*}/g) || []).forEach(
+          expression => {
+            tokens.push({ type: "op", value: "(" });
+            const code = expression.slice(1, -1).replace(/![rsa](?=:|$)/, "");
+            tokenizePython(code).forEach(line =>
+              tokens.push(...line.tokens)
+            );
+            tokens.push({ type: "op", value: ")" });
+          }
+        );
+      }
+      index = end + quote.length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const name = /^[A-Za-z_]\w*/.exec(source.slice(index))![0];
+      tokens.push({ type: "name", value: name });
+      index += name.length;
+    } else if (
+      /\d/.test(char) ||
+      (char === "." && /\d/.test(source[index + 1]))
+    ) {
+      index += /^\.?\d[\w.]*/.exec(source.slice(index))![0].length;
+    } else {
+      const operator = OPERATOR.exec(source.slice(index))![0];
+      if ("([{".includes(operator)) {
+        depth += 1;
+      } else if (")]}".includes(operator)) {
+        depth = Math.max(0, depth - 1);
+      }
+      tokens.push({ type: "op", value: operator });
+      index += operator.length;
+    }
+  }
+  endLine();
+
+  return lines;
+}
+
+/**
+ * The depth of brackets each token is in, from the start of the tokens.
+ */
+function depths(tokens: Token[]): number[] {
+  let depth = 0;
+  return tokens.map(token => {
+    if (token.type === "op" && ")]}".includes(token.value)) {
+      depth = Math.max(0, depth - 1);
+    }
+    const current = depth;
+    if (token.type === "op" && "([{".includes(token.value)) {
+      depth += 1;
+    }
+    return current;
+  });
+}
+
+/**
+ * Splits tokens at an operator outside of brackets.
+ */
+function splitAt(tokens: Token[], operator: string): Token[][] {
+  const levels = depths(tokens);
+  const parts: Token[][] = [[]];
+  tokens.forEach((token, index) => {
+    if (levels[index] === 0 && isOp(token, operator)) {
+      parts.push([]);
+    } else {
+      parts[parts.length - 1].push(token);
+    }
+  });
+  return parts;
+}
+
+function isOp(token: Token | undefined, values: string): boolean {
+  return (
+    !!token && token.type === "op" && values.split(" ").includes(token.value)
+  );
+}
+
+interface Scope {
+  // Indentation of the `def` or `class` opening the scope
+  indent: number;
+  defines: Set<string>;
+  uses: Set<string>;
+  globals: Set<string>;
+}
+
+class PythonNames {
+  module: Scope = {
+    indent: -1,
+    defines: new Set(),
+    uses: new Set(),
+    globals: new Set()
+  };
+  scopes: Scope[] = [this.module];
+
+  get scope(): Scope {
+    return this.scopes[this.scopes.length - 1];
+  }
+
+  define(name: string) {
+    if (this.scope === this.module || this.scope.globals.has(name)) {
+      this.module.defines.add(name);
+    } else {
+      this.scope.defines.add(name);
+    }
+  }
+
+  use(name: string) {
+    if (!PYTHON_KEYWORDS.has(name) && !this.scope.defines.has(name)) {
+      this.scope.uses.add(name);
+    }
+  }
+
+  enter(indent: number, locals: string[]) {
+    this.scopes.push({
+      indent,
+      defines: new Set(locals),
+      uses: new Set(),
+      globals: new Set()
+    });
+  }
+
+  exitTo(indent: number) {
+    while (this.scope !== this.module && indent <= this.scope.indent) {
+      const { uses } = this.scopes.pop()!;
+      // Functions read the names they don't bind from the enclosing scopes
+      uses.forEach(name => this.use(name));
+    }
+  }
+
+  /**
+   * Names read by an expression, leaving out attributes, keyword arguments
+   * and the variables of comprehensions and lambdas.
+   */
+  useExpression(tokens: Token[]) {
+    const levels = depths(tokens);
+    const locals = new Set<string>();
+    tokens.forEach((token, index) => {
+      if (token.value === "for") {
+        for (let next = index + 1; next < tokens.length; next += 1) {
+          if (tokens[next].value === "in") {
+            break;
+          }
+          if (tokens[next].type === "name") {
+            locals.add(tokens[next].value);
+          }
+        }
+      } else if (token.value === "lambda") {
+        for (let next = index + 1; next < tokens.length; next += 1) {
+          if (isOp(tokens[next], ":")) {
+            break;
+          }
+          if (tokens[next].type === "name" && !isOp(tokens[next - 1], "=")) {
+            locals.add(tokens[next].value);
+          }
+        }
+      }
+    });
+
+    tokens.forEach((token, index) => {
+      if (token.type !== "name" || locals.has(token.value)) {
+        return;
+      }
+      if (isOp(tokens[index - 1], ".")) {
+        return;
+      }
+      if (levels[index] > 0 && isOp(tokens[index + 1], "=")) {
+        return;
+      }
+      if (isOp(tokens[index + 1], ":=")) {
+        this.define(token.value);
+        return;
+      }
+      this.use(token.value);
+    });
+  }
+
+  /**
+   * Binds the names of an assignment target, like `a, (b, *c)`. Assigning to
+   * an item or an attribute, like `df["x"] = 1`, changes the object so it
+   * counts as defining it again as well as using it.
+   */
+  defineTarget(tokens: Token[]) {
+    const levels = depths(tokens);
+    const grouping: boolean[] = [];
+    tokens.forEach((token, index) => {
+      if (isOp(token, ") ] }")) {
+        grouping.pop();
+      }
+      if (isOp(token, "( [ {")) {
+        const previous = tokens[index - 1];
+        grouping.push(
+          !previous ||
+            (previous.type === "op" && !isOp(previous, ") ]")) ||
+            PYTHON_KEYWORDS.has(previous.value)
+        );
+        return;
+      }
+      if (token.type !== "name" || PYTHON_KEYWORDS.has(token.value)) {
+        return;
+      }
+      const inTrailer = grouping.some(group => !group);
+      if (inTrailer || isOp(tokens[index - 1], ".")) {
+        if (!isOp(tokens[index - 1], ".") && levels[index] > 0) {
+          this.use(token.value);
+        }
+        return;
+      }
+      if (isOp(tokens[index + 1], ". [")) {
+        this.use(token.value);
+      }
+      this.define(token.value);
+    });
+  }
+
+  defineImports(tokens: Token[], from: boolean) {
+    splitAt(
+      tokens.filter(token => !isOp(token, "( )")),
+      ","
+    ).forEach(part => {
+      const alias = part.findIndex(token => token.value === "as");
+      if (alias >= 0 && part[alias + 1]) {
+        this.define(part[alias + 1].value);
+      } else if (part[0] && part[0].type === "name") {
+        // `import os.path` binds `os`
+        this.define(from ? part[part.length - 1].value : part[0].value);
+      }
+    });
+  }
+
+  statement(tokens: Token[], indent: number) {
+    let start = 0;
+    while (tokens[start] && ["async", "await"].includes(tokens[start].value)) {
+      start += 1;
+    }
+    const body = tokens.slice(start);
+    const statements = splitAt(body, ";");
+    if (statements.length > 1) {
+      statements.forEach(part => this.statement(part, indent));
+      return;
+    }
+    const keyword = body[0] ? body[0].value : "";
+
+    if (COMPOUND_KEYWORDS.has(keyword) && body[0].type === "name") {
+      const levels = depths(body);
+      const colon = body.findIndex(
+        (token, index) =>
+          levels[index] === 0 && isOp(token, ":") && index > 0
+      );
+      const header = colon >= 0 ? body.slice(0, colon) : body;
+      const rest = colon >= 0 ? body.slice(colon + 1) : [];
+      this.header(header, indent);
+      if (rest.length > 0) {
+        const nested = keyword === "def" || keyword === "class";
+        this.statement(rest, nested ? indent + 1 : indent);
+      }
+      return;
+    }
+
+    if (keyword === "import") {
+      this.defineImports(body.slice(1), false);
+      return;
+    }
+    if (keyword === "from") {
+      const imports = body.findIndex(token => token.value === "import");
+      this.defineImports(body.slice(imports + 1), true);
+      return;
+    }
+    if (keyword === "global") {
+      body
+        .filter(token => token.type === "name")
+        .slice(1)
+        .forEach(token => this.scope.globals.add(token.value));
+      return;
+    }
+    if (keyword === "nonlocal") {
+      return;
+    }
+
+    if (body.length > 0) {
+      this.assignment(body);
+    }
+  }
+
+  assignment(tokens: Token[]) {
+    const levels = depths(tokens);
+    const augmented = tokens.findIndex(
+      (token, index) =>
+        levels[index] === 0 &&
+        token.type === "op" &&
+        /^(?:\*\*|\/\/|>>|<<|[-+*/%&|^@])=$/.test(token.value)
+    );
+    if (augmented >= 0) {
+      this.useExpression(tokens.slice(augmented + 1));
+      this.useExpression(tokens.slice(0, augmented));
+      this.defineTarget(tokens.slice(0, augmented));
+      return;
+    }
+
+    // The defaults of a lambda aren't assignments
+    const lambda = tokens.findIndex(
+      (token, index) => levels[index] === 0 && token.value === "lambda"
+    );
+    const parts = splitAt(lambda >= 0 ? tokens.slice(0, lambda) : tokens, "=");
+    if (lambda >= 0) {
+      parts[parts.length - 1].push(...tokens.slice(lambda));
+    }
+    const value = parts[parts.length - 1];
+    const targets = parts.slice(0, -1);
+
+    // `x: int = 1` or just `x: int`
+    const annotated = (parts.length > 1 ? parts[0] : tokens).findIndex(
+      (token, index) => levels[index] === 0 && isOp(token, ":")
+    );
+    if (annotated > 0) {
+      const target = tokens.slice(0, annotated);
+      if (parts.length > 1) {
+        this.useExpression(parts[0].slice(annotated + 1));
+        this.useExpression(value);
+        this.defineTarget(target);
+      } else {
+        this.useExpression(tokens.slice(annotated + 1));
+      }
+      return;
+    }
+
+    this.useExpression(value);
+    targets.forEach(target => this.defineTarget(target));
+  }
+
+  header(tokens: Token[], indent: number) {
+    const keyword = tokens[0].value;
+
+    if (keyword === "def" || keyword === "class") {
+      const name = tokens[1];
+      if (!name || name.type !== "name") {
+        return;
+      }
+      const signature = tokens.slice(2);
+      const levels = depths(signature);
+      const locals: string[] = [];
+      const expression: Token[] = [];
+      signature.forEach((token, index) => {
+        const previous = signature[index - 1];
+        if (
+          keyword === "def" &&
+          token.type === "name" &&
+          levels[index] === 1 &&
+          isOp(previous, "( , * ** /")
+        ) {
+          locals.push(token.value);
+        } else {
+          expression.push(token);
+        }
+      });
+      // Defaults, annotations and base classes are read when defining it
+      this.useExpression(expression);
+      this.define(name.value);
+      this.enter(indent, locals);
+      return;
+    }
+
+    if (keyword === "for") {
+      const levels = depths(tokens);
+      const inIndex = tokens.findIndex(
+        (token, index) => levels[index] === 0 && token.value === "in"
+      );
+      if (inIndex > 0) {
+        this.useExpression(tokens.slice(inIndex + 1));
+        this.defineTarget(tokens.slice(1, inIndex));
+        return;
+      }
+    }
+
+    if (keyword === "with" || keyword === "except") {
+      const names: string[] = [];
+      const expression = tokens.filter((token, index) => {
+        if (index > 0 && tokens[index - 1].value === "as") {
+          names.push(token.value);
+          return false;
+        }
+        return token.value !== "as";
+      });
+      this.useExpression(expression.slice(1));
+      // The name of an exception is deleted after its block
+      if (keyword === "with") {
+        names.forEach(name => this.define(name));
+      }
+      return;
+    }
+
+    this.useExpression(tokens.slice(1));
+  }
+
+  analyze(source: string): CellNames {
+    const magic = /^\s*%%(\w+)/.exec(source);
+    if (magic && !PYTHON_CELL_MAGICS.has(magic[1])) {
+      return { defines: [], uses: [] };
+    }
+
+    tokenizePython(source).forEach(line => {
+      this.exitTo(line.indent);
+      this.statement(line.tokens, line.indent);
+    });
+    this.exitTo(-1);
+
+    return {
+      defines: Array.from(this.module.defines),
+      uses: Array.from(this.module.uses)
+    };
+  }
+}
+
+/**
+ * Finds the names a Python cell defines at the top level, through
+ * assignments, imports, `def`, `class`, `for` and `with`, and the ones it
+ * reads that it didn't define first. Names only bound inside functions,
+ * comprehensions and lambdas stay local to them.
+ */
+export const analyzePythonNames: NameAnalyzer = source =>
+  new PythonNames().analyze(source);
+
+const ANALYZERS: { [language: string]: NameAnalyzer } = {
+  python: analyzePythonNames
+};
+
+/**
+ * Adds the analysis of the names of cells in another language, or replaces
+ * the one of a language.
+ */
+export function registerNameAnalyzer(
+  language: string,
+  analyzer: NameAnalyzer
+): void {
+  ANALYZERS[language.toLowerCase()] = analyzer;
+}
+
+/**
+ * The names a cell defines and uses, or `null` when there's no analysis for
+ * the language of the notebook.
+ */
+export function analyzeNames(
+  source: string,
+  language: string = "python"
+): CellNames | null {
+  const analyzer = ANALYZERS[language.toLowerCase()];
+  return analyzer ? analyzer(source) : null;
+}
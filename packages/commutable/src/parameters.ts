@@ -0,0 +1,377 @@
+import { fromJS, List as ImmutableList } from "immutable";
+
+import { makeCodeCell } from "./cells";
+import { CellId, createCellId, JSONObject, JSONType } from "./primitives";
+import { deleteCell, ImmutableNotebook, insertCellAt } from "./structures";
+
+// Tags papermill uses for the cell declaring parameters and the one it adds
+export const PARAMETERS_TAG = "parameters";
+export const INJECTED_PARAMETERS_TAG = "injected-parameters";
+
+export interface NotebookParameter {
+  name: string;
+  /** The value assigned in the parameters cell, `undefined` if it isn't a literal */
+  value: JSONType | undefined;
+  /** The source of the assigned value */
+  source: string;
+  /** The annotated type, or the one of the value, e.g. `int` or `str` */
+  type: string;
+  /** The comment following the assignment */
+  help: string;
+}
+
+interface Parsed {
+  value: JSONType;
+  end: number;
+}
+
+const NAMED_VALUES: { [name: string]: JSONType } = {
+  True: true,
+  False: false,
+  None: null
+};
+
+const ESCAPES: { [char: string]: string } = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  "0": "\0"
+};
+
+function skipSpaces(text: string, start: number): number {
+  let index = start;
+  while (index < text.length && /\s/.test(text[index])) {
+    index += 1;
+  }
+  return index;
+}
+
+function parseString(text: string, start: number): Parsed | null {
+  const quote = text[start];
+  let value = "";
+  let index = start + 1;
+  while (index < text.length && text[index] !== quote) {
+    if (text[index] === "\\" && index + 1 < text.length) {
+      index += 1;
+      value += ESCAPES[text[index]] ?? text[index];
+    } else {
+      value += text[index];
+    }
+    index += 1;
+  }
+  return index < text.length ? { value, end: index + 1 } : null;
+}
+
+function parseSequence(
+  text: string,
+  start: number,
+  close: string,
+  parseItem: (index: number) => Parsed | null
+): { items: JSONType[]; end: number } | null {
+  const items: JSONType[] = [];
+  let index = skipSpaces(text, start + 1);
+  while (text[index] !== close) {
+    const item = parseItem(index);
+    if (!item) {
+      return null;
+    }
+    items.push(item.value);
+    index = skipSpaces(text, item.end);
+    if (text[index] === ",") {
+      index = skipSpaces(text, index + 1);
+    } else if (text[index] !== close) {
+      return null;
+    }
+  }
+  return { items, end: index + 1 };
+}
+
+function parseLiteral(text: string, start: number): Parsed | null {
+  const index = skipSpaces(text, start);
+  const char = text[index];
+
+  if (char === "'" || char === '"') {
+    return parseString(text, index);
+  }
+  if (char === "[" || char === "(") {
+    const sequence = parseSequence(
+      text,
+      index,
+      char === "[" ? "]" : ")",
+      item => parseLiteral(text, item)
+    );
+    return sequence && { value: sequence.items, end: sequence.end };
+  }
+  if (char === "{") {
+    const entries = parseSequence(text, index, "}", item => {
+      const key = parseLiteral(text, item);
+      if (!key || typeof key.value !== "string") {
+        return null;
+      }
+      const colon = skipSpaces(text, key.end);
+      if (text[colon] !== ":") {
+        return null;
+      }
+      const value = parseLiteral(text, colon + 1);
+      return value && { value: [key.value, value.value], end: value.end };
+    });
+    if (!entries) {
+      return null;
+    }
+    const value: JSONObject = {};
+    entries.items.forEach(entry => {
+      const [key, item] = entry as [string, JSONType];
+      value[key] = item;
+    });
+    return { value, end: entries.end };
+  }
+
+  const token = /^[-+]?(?:\d[\d_]*\.?\d*(?:e[-+]?\d+)?|\.\d+(?:e[-+]?\d+)?)|^[A-Za-z_]\w*/i.exec(
+    text.slice(index)
+  );
+  if (!token) {
+    return null;
+  }
+  const end = index + token[0].length;
+  if (token[0] in NAMED_VALUES) {
+    return { value: NAMED_VALUES[token[0]], end };
+  }
+  const number = Number(token[0].replace(/_/g, ""));
+  return isNaN(number) ? null : { value: number, end };
+}
+
+/**
+ * Reads a Python literal, like the values of parameters: numbers, strings,
+ * booleans, None, and lists, tuples and dicts of them.
+ *
+ * @returns The value as JSON, or `undefined` if the text isn't a literal
+ */
+export function parsePythonLiteral(text: string): JSONType | undefined {
+  const parsed = parseLiteral(text, 0);
+  if (!parsed || skipSpaces(text, parsed.end) !== text.length) {
+    return undefined;
+  }
+  return parsed.value;
+}
+
+function typeOf(value: JSONType | undefined, source: string): string {
+  if (value === undefined) {
+    return "";
+  }
+  if (value === null) {
+    return "None";
+  }
+  if (Array.isArray(value)) {
+    return "list";
+  }
+  switch (typeof value) {
+    case "boolean":
+      return "bool";
+    case "string":
+      return "str";
+    case "number":
+      return /[.e]/i.test(source) ? "float" : "int";
+    default:
+      return "dict";
+  }
+}
+
+// `name: annotation = value  # help`
+const ASSIGNMENT = /^([A-Za-z_]\w*)\s*(?::\s*["']?([\w[\], ]+?)["']?\s*)?=(?!=)/;
+
+/**
+ * Reads the assignments of a parameters cell, one per line, the way
+ * papermill infers the parameters of a notebook.
+ */
+export function parseParameters(source: string): NotebookParameter[] {
+  const parameters: NotebookParameter[] = [];
+
+  source.split("\n").forEach(line => {
+    const assignment = ASSIGNMENT.exec(line);
+    if (!assignment) {
+      return;
+    }
+    const [matched, name, annotation] = assignment;
+    const rest = line.slice(matched.length);
+
+    const parsed = parseLiteral(rest, 0);
+    const after = parsed ? skipSpaces(rest, parsed.end) : -1;
+    if (parsed && (after === rest.length || rest[after] === "#")) {
+      parameters.push(
+        makeParameter(
+          name,
+          annotation,
+          parsed.value,
+          rest.slice(0, after),
+          rest.slice(after + 1).trim()
+        )
+      );
+    } else {
+      // Expressions like `datetime.now()` can't be told apart from comments
+      parameters.push(makeParameter(name, annotation, undefined, rest, ""));
+    }
+  });
+
+  return parameters;
+}
+
+function makeParameter(
+  name: string,
+  annotation: string | undefined,
+  value: JSONType | undefined,
+  source: string,
+  help: string
+): NotebookParameter {
+  return {
+    name,
+    value,
+    source: source.trim(),
+    type: annotation ? annotation.trim() : typeOf(value, source),
+    help
+  };
+}
+
+function pythonLiteral(value: JSONType): string {
+  if (value === null) {
+    return "None";
+  }
+  if (typeof value === "boolean") {
+    return value ? "True" : "False";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(pythonLiteral).join(", ")}]`;
+  }
+  if (typeof value === "object") {
+    return `{${Object.keys(value)
+      .map(key => `${JSON.stringify(key)}: ${pythonLiteral(value[key])}`)
+      .join(", ")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function rLiteral(value: JSONType): string {
+  if (value === null) {
+    return "NULL";
+  }
+  if (typeof value === "boolean") {
+    return value ? "TRUE" : "FALSE";
+  }
+  if (Array.isArray(value)) {
+    return `list(${value.map(rLiteral).join(", ")})`;
+  }
+  if (typeof value === "object") {
+    return `list(${Object.keys(value)
+      .map(key => `${JSON.stringify(key)} = ${rLiteral(value[key])}`)
+      .join(", ")})`;
+  }
+  return JSON.stringify(value);
+}
+
+function juliaLiteral(value: JSONType): string {
+  if (value === null) {
+    return "nothing";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(juliaLiteral).join(", ")}]`;
+  }
+  if (typeof value === "object") {
+    return `Dict(${Object.keys(value)
+      .map(key => `${JSON.stringify(key)} => ${juliaLiteral(value[key])}`)
+      .join(", ")})`;
+  }
+  return JSON.stringify(value);
+}
+
+const TRANSLATORS: { [language: string]: (value: JSONType) => string } = {
+  python: pythonLiteral,
+  r: rLiteral,
+  julia: juliaLiteral
+};
+
+/**
+ * The source of a cell assigning the parameters, in the language of the
+ * notebook.
+ */
+export function parametersSource(
+  parameters: JSONObject,
+  language: string = "python"
+): string {
+  const translate = TRANSLATORS[language.toLowerCase()];
+  if (!translate) {
+    throw new Error(`Parameters can't be written in ${language}`);
+  }
+  return Object.keys(parameters).reduce(
+    (source, name) => `${source}${name} = ${translate(parameters[name])}\n`,
+    "# Parameters\n"
+  );
+}
+
+function hasTag(notebook: ImmutableNotebook, id: CellId, tag: string) {
+  const tags: ImmutableList<string> | undefined = notebook.cellMap.getIn([
+    id,
+    "metadata",
+    "tags"
+  ]);
+  return !!tags && tags.includes(tag);
+}
+
+/**
+ * The cell tagged as the one declaring the parameters of the notebook.
+ */
+export function parametersCellId(
+  notebook: ImmutableNotebook
+): CellId | undefined {
+  return notebook.cellOrder.find(id => hasTag(notebook, id, PARAMETERS_TAG));
+}
+
+/**
+ * The language parameters are written in, from the metadata of the notebook.
+ */
+export function notebookLanguage(notebook: ImmutableNotebook): string {
+  return (
+    notebook.metadata.getIn(["kernelspec", "language"]) ||
+    notebook.metadata.getIn(["language_info", "name"]) ||
+    "python"
+  );
+}
+
+/**
+ * Injects parameters the way papermill does: a cell tagged
+ * `injected-parameters` replaces the one injected before, or goes right
+ * after the parameters cell, or at the top of the notebook without one.
+ * The parameters are recorded in `metadata.papermill.parameters`.
+ *
+ * @returns The notebook with the parameters and the id of the injected cell
+ */
+export function injectParameters(
+  notebook: ImmutableNotebook,
+  parameters: JSONObject,
+  language: string = notebookLanguage(notebook)
+): { notebook: ImmutableNotebook; cellId: CellId } {
+  const cell = makeCodeCell({
+    source: parametersSource(parameters, language)
+  }).setIn(["metadata", "tags"], ImmutableList([INJECTED_PARAMETERS_TAG]));
+  const cellId = createCellId();
+
+  const injected = notebook.cellOrder.filter(id =>
+    hasTag(notebook, id, INJECTED_PARAMETERS_TAG)
+  );
+  const parametersId = parametersCellId(notebook);
+  const index = !injected.isEmpty()
+    ? notebook.cellOrder.indexOf(injected.first())
+    : parametersId
+    ? notebook.cellOrder.indexOf(parametersId) + 1
+    : 0;
+
+  const cleaned = injected.reduce(
+    (nb: ImmutableNotebook, id: CellId) => deleteCell(nb, id),
+    notebook
+  );
+  return {
+    notebook: insertCellAt(cleaned, cell, cellId, index).setIn(
+      ["metadata", "papermill", "parameters"],
+      fromJS(parameters)
+    ),
+    cellId
+  };
+}
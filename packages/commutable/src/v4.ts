@@ -172,7 +172,7 @@ function createImmutableCodeCell(cell: CodeCell): ImmutableCodeCell {
  *
  * @returns An immutable representation of the same cell.
  */
-function createImmutableCell(cell: Cell): ImmutableCell {
+export function createImmutableCell(cell: Cell): ImmutableCell {
   switch (cell.cell_type) {
     case "markdown":
       return createImmutableMarkdownCell(cell);
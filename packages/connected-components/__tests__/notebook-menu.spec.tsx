@@ -39,6 +39,8 @@ describe("PureNotebookMenu", () => {
         EXECUTE_ALL_CELLS_BELOW,
         UNHIDE_ALL,
         CLEAR_ALL_OUTPUTS,
+        UNDO,
+        REDO,
         CUT_CELL,
         COPY_CELL,
         PASTE_CELL,
@@ -64,6 +66,8 @@ describe("PureNotebookMenu", () => {
         executeAllCellsBelow: jest.fn(),
         unhideAll: jest.fn(),
         clearAllOutputs: jest.fn(),
+        undo: jest.fn(),
+        redo: jest.fn(),
         cutCell: jest.fn(),
         copyCell: jest.fn(),
         pasteCell: jest.fn(),
@@ -141,6 +145,22 @@ describe("PureNotebookMenu", () => {
         contentRef: props.currentContentRef
       });
 
+      const undoItem = wrapper.find({ text: UNDO });
+      expect(props.undo).not.toHaveBeenCalled();
+      undoItem.simulate("click", eventMock);
+      expect(props.undo).toHaveBeenCalledTimes(1);
+      expect(props.undo).toHaveBeenCalledWith({
+        contentRef: props.currentContentRef
+      });
+
+      const redoItem = wrapper.find({ text: REDO });
+      expect(props.redo).not.toHaveBeenCalled();
+      redoItem.simulate("click", eventMock);
+      expect(props.redo).toHaveBeenCalledTimes(1);
+      expect(props.redo).toHaveBeenCalledWith({
+        contentRef: props.currentContentRef
+      });
+
       const cutCellItem = wrapper.find({ text: CUT_CELL });
       expect(props.cutCell).not.toHaveBeenCalled();
       cutCellItem.simulate("click", eventMock);
@@ -306,7 +326,9 @@ describe("makeMapStateToProps", () => {
       currentKernelRef: expect.any(String),
       currentKernelspecs: null,
       currentKernelspecsRef: null,
-      bookstoreEnabled: false
+      bookstoreEnabled: false,
+      canUndo: false,
+      canRedo: false
     });
   });
 });
@@ -25,6 +25,8 @@ const {
   TOGGLE_EDITOR,
   SAVE_NOTEBOOK,
   DOWNLOAD_NOTEBOOK,
+  UNDO,
+  REDO,
   COPY_CELL,
   CUT_CELL,
   PASTE_CELL,
@@ -56,6 +58,11 @@ export interface PureNotebookMenuProps {
    */
   bookstoreEnabled?: boolean;
   currentKernelRef?: KernelRef | null;
+  /**
+   * Whether there are notebook edits to undo or redo
+   */
+  canUndo?: boolean;
+  canRedo?: boolean;
   toggleNotebookHeaderEditor?: (payload: { contentRef: string }) => void;
   saveNotebook?: (payload: { contentRef: string }) => void;
   downloadNotebook?: (payload: { contentRef: string }) => void;
@@ -69,6 +76,8 @@ export interface PureNotebookMenuProps {
     inputHidden: boolean;
     contentRef: string;
   }) => void;
+  undo?: (payload: { contentRef: string }) => void;
+  redo?: (payload: { contentRef: string }) => void;
   cutCell?: (payload: { id?: string; contentRef: string }) => void;
   copyCell?: (payload: { id?: string; contentRef: string }) => void;
   pasteCell?: (payload: { contentRef: string }) => void;
@@ -146,6 +155,8 @@ class PureNotebookMenu extends React.PureComponent<PureNotebookMenuProps> {
       saveNotebook,
       downloadNotebook,
       changeKernelByName,
+      undo,
+      redo,
       copyCell,
       createCellBelow,
       cutCell,
@@ -180,6 +191,12 @@ class PureNotebookMenu extends React.PureComponent<PureNotebookMenuProps> {
       case DOWNLOAD_NOTEBOOK:
         downloadNotebook && downloadNotebook({ contentRef: currentContentRef });
         break;
+      case UNDO:
+        undo && undo({ contentRef: currentContentRef });
+        break;
+      case REDO:
+        redo && redo({ contentRef: currentContentRef });
+        break;
       case COPY_CELL:
         copyCell && copyCell({ contentRef: currentContentRef });
         break;
@@ -294,12 +311,18 @@ class PureNotebookMenu extends React.PureComponent<PureNotebookMenuProps> {
   };
 
   render(): JSX.Element {
-    const { bookstoreEnabled, currentKernelspecs } = this.props;
+    const {
+      bookstoreEnabled,
+      canUndo,
+      canRedo,
+      currentKernelspecs
+    } = this.props;
     const {
       DOCUMENT_OPEN,
       FLOPPY_DISK,
       DOWNLOAD,
       CLOUD_UPLOAD,
+      UNDO: UNDO_ICON,
       CUT,
       DUPLICATE,
       CLIPBOARD,
@@ -314,7 +337,7 @@ class PureNotebookMenu extends React.PureComponent<PureNotebookMenuProps> {
       STOP,
       REPEAT,
       REFRESH,
-      REDO,
+      REDO: REDO_ICON,
       EXCHANGE,
       HELP
     } = IconNames;
@@ -371,6 +394,19 @@ class PureNotebookMenu extends React.PureComponent<PureNotebookMenuProps> {
           text="Edit"
           children={
             <Menu>
+              <MenuItem
+                onClick={(e: SyntheticEvent) => this.handleActionClick(e, UNDO)}
+                text={MENU_ITEM_LABELS.UNDO}
+                icon={UNDO_ICON}
+                disabled={canUndo === false}
+              />
+              <MenuItem
+                onClick={(e: SyntheticEvent) => this.handleActionClick(e, REDO)}
+                text={MENU_ITEM_LABELS.REDO}
+                icon={REDO_ICON}
+                disabled={canRedo === false}
+              />
+              <MenuDivider />
               <MenuItem
                 onClick={(e: SyntheticEvent) =>
                   this.handleActionClick(e, CUT_CELL)
@@ -534,7 +570,7 @@ class PureNotebookMenu extends React.PureComponent<PureNotebookMenuProps> {
                   this.handleActionClick(e, RESTART_AND_RUN_ALL_OUTPUTS)
                 }
                 text={MENU_ITEM_LABELS.RESTART_AND_RUN_ALL_OUTPUTS}
-                icon={REDO}
+                icon={REDO_ICON}
               />
               <MenuDivider />
               <MenuItem
@@ -18,6 +18,8 @@ export const MENU_ITEM_ACTIONS = {
   CREATE_MARKDOWN_CELL: "create-markdown-cell",
   SET_CELL_TYPE_CODE: "set-cell-type-code",
   SET_CELL_TYPE_MARKDOWN: "set-cell-type-markdown",
+  UNDO: "undo",
+  REDO: "redo",
   COPY_CELL: "copy-cell",
   CUT_CELL: "cut-cell",
   PASTE_CELL: "paste-cell",
@@ -34,6 +36,8 @@ export const MENU_ITEM_LABELS = {
   SAVE_NOTEBOOK: "Save",
   DOWNLOAD_NOTEBOOK: "Download (.ipynb)",
   PUBLISH_TO_BOOKSTORE: "Publish",
+  UNDO: "Undo",
+  REDO: "Redo",
   CUT_CELL: "Cut Cell",
   COPY_CELL: "Copy Cell",
   PASTE_CELL: "Paste Cell Below",
@@ -1,6 +1,6 @@
 // Vendor modules
 import { CellType } from "@nteract/commutable";
-import { actions } from "@nteract/core";
+import { actions, selectors } from "@nteract/core";
 import {
   AppState,
   ContentRef,
@@ -55,6 +55,8 @@ export function makeMapStateToProps(
 
     return {
       bookstoreEnabled: isBookstoreEnabled,
+      canUndo: selectors.notebook.canUndo(content.model),
+      canRedo: selectors.notebook.canRedo(content.model),
       currentContentRef,
       currentKernelRef,
       currentKernelspecs,
@@ -91,6 +93,8 @@ export function makeMapDispatchToProps(
       inputHidden: boolean;
       contentRef: string;
     }) => dispatch(actions.unhideAll(payload)),
+    undo: (payload: { contentRef: string }) => dispatch(actions.undo(payload)),
+    redo: (payload: { contentRef: string }) => dispatch(actions.redo(payload)),
     cutCell: (payload: { id?: string; contentRef: string }) =>
       dispatch(actions.cutCell(payload)),
     copyCell: (payload: { id?: string; contentRef: string }) =>
@@ -0,0 +1,66 @@
+import { Editor, LineHandle } from "codemirror";
+
+/**
+ * Name (and class) of the gutter breakpoints are set in.
+ */
+export const BREAKPOINT_GUTTER = "nteract-breakpoints";
+
+const PAUSED_LINE_CLASS = "nteract-paused-line";
+
+function breakpointMarker(): HTMLElement {
+  const marker = document.createElement("div");
+  marker.className = "nteract-breakpoint";
+  marker.textContent = "●";
+  return marker;
+}
+
+/**
+ * Shows the breakpoint gutter, with a marker on each line that has a
+ * breakpoint. Without breakpoint lines, i.e. when the cell can't be debugged,
+ * the gutter is hidden. Lines are 1-based, as in the Debug Adapter Protocol.
+ */
+export function markBreakpoints(editor: Editor, lines?: number[]): void {
+  const gutters = (editor.getOption("gutters") || []) as string[];
+  const hasGutter = gutters.includes(BREAKPOINT_GUTTER);
+
+  if (!lines) {
+    if (hasGutter) {
+      editor.setOption(
+        "gutters",
+        gutters.filter(gutter => gutter !== BREAKPOINT_GUTTER)
+      );
+    }
+    return;
+  }
+
+  if (!hasGutter) {
+    editor.setOption("gutters", [BREAKPOINT_GUTTER, ...gutters]);
+  }
+  editor.clearGutter(BREAKPOINT_GUTTER);
+  for (const line of lines) {
+    editor.setGutterMarker(line - 1, BREAKPOINT_GUTTER, breakpointMarker());
+  }
+}
+
+/**
+ * Highlights the line the debugger is paused on. The returned handle has to
+ * be passed to `unmarkPausedLine` before another line is highlighted.
+ */
+export function markPausedLine(
+  editor: Editor,
+  line?: number | null
+): LineHandle | null {
+  if (!line || line > editor.lineCount()) {
+    return null;
+  }
+  return editor.addLineClass(line - 1, "background", PAUSED_LINE_CLASS);
+}
+
+export function unmarkPausedLine(
+  editor: Editor,
+  handle: LineHandle | null
+): void {
+  if (handle) {
+    editor.removeLineClass(handle, "background", PAUSED_LINE_CLASS);
+  }
+}
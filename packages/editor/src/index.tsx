@@ -1,11 +1,13 @@
 import { MediaBundle } from "@nteract/commutable";
-import { Channels } from "@nteract/messaging";
+import { Channels, isCompleteObservable } from "@nteract/messaging";
 import CodeMirror, {
   Doc,
   Editor,
   EditorChangeLinkedList,
   EditorFromTextArea,
-  Position
+  LineHandle,
+  Position,
+  TextMarker
 } from "codemirror";
 
 import { FullEditorConfiguration, isConfigurable } from "./configurable";
@@ -26,6 +28,9 @@ import {
 import { codeComplete, pick } from "./jupyter/complete";
 import { tool } from "./jupyter/tooltip";
 
+import { BREAKPOINT_GUTTER, markBreakpoints, markPausedLine, unmarkPausedLine } from "./breakpoints";
+import { markRemoteCursors, RemoteCursor } from "./remote-cursors";
+
 import { InitialTextArea } from "./components/initial-text-area";
 import { Tooltip } from "./components/tooltip";
 
@@ -35,6 +40,8 @@ import ShowHintCSS from "./vendored/show-hint";
 import isEqual from "lodash.isequal";
 
 export { CodeMirrorCSS, ShowHintCSS };
+export * from "./breakpoints";
+export * from "./remote-cursors";
 
 function normalizeLineEndings(str: string): string {
   if (!str) {
@@ -64,6 +71,25 @@ export type CodeMirrorEditorProps = {
   kernelStatus: string;
   onChange?: (value: string, change: EditorChangeLinkedList) => void;
   onFocusChange?: (focused: boolean) => void;
+  /** Reports the selection of the local user as character offsets */
+  onCursorChange?: (cursor: { anchor: number; head: number }) => void;
+  /** Cursors of other users editing the same cell */
+  remoteCursors?: RemoteCursor[];
+  /**
+   * Lines (1-based) with a breakpoint. The breakpoint gutter is only shown
+   * when these are set, i.e. when the kernel can be debugged.
+   */
+  breakpoints?: number[];
+  /** Line (1-based) the debugger is paused on */
+  pausedLine?: number | null;
+  onToggleBreakpoint?: (line: number) => void;
+  /**
+   * Ask the kernel whether the code is complete when Shift+Enter is pressed,
+   * adding a line with the indent the kernel suggests when it isn't
+   */
+  checkIsComplete?: boolean;
+  /** Runs the code once the kernel found it complete */
+  onExecute?: () => void;
   value: string;
   editorType: "codemirror";
   codeMirror: FullEditorConfiguration;
@@ -121,6 +147,9 @@ export default class CodeMirrorEditor extends React.Component<
     HTMLTextAreaElement
   >();
   tooltipNode: HTMLDivElement | null = null;
+  remoteCursorMarkers: TextMarker[] = [];
+  pausedLineHandle: LineHandle | null = null;
+  isCompleteSubscription: Subscription | null = null;
 
   constructor(props: CodeMirrorEditorProps) {
     super(props);
@@ -128,6 +157,7 @@ export default class CodeMirrorEditor extends React.Component<
     (this.hint as any).async = true;
     this.tips = this.tips.bind(this);
     this.deleteTip = this.deleteTip.bind(this);
+    this.executeOrContinue = this.executeOrContinue.bind(this);
     this.debounceNextCompletionRequest = true;
     this.state = {
       bundle: null,
@@ -149,6 +179,7 @@ export default class CodeMirrorEditor extends React.Component<
         return editor.execCommand("autocomplete");
       },
       Down: this.goLineDownOrEmit,
+      "Shift-Enter": this.executeOrContinue,
       "Shift-Tab": (editor: Editor) => editor.execCommand("indentLess"),
       Tab: this.executeTab,
       Up: this.goLineUpOrEmit,
@@ -275,6 +306,8 @@ export default class CodeMirrorEditor extends React.Component<
       .catch(error => console.error("Unable to load mode", error));
 
     this.cm.setValue(this.props.value || "");
+    this.updateRemoteCursors();
+    this.updateBreakpoints();
 
     // On first load, if focused, set codemirror to focus
     if (editorFocused) {
@@ -291,6 +324,7 @@ export default class CodeMirrorEditor extends React.Component<
     });
 
     this.cm.on("cursorActivity", this.handleCursorChange);
+    this.cm.on("gutterClick", this.handleGutterClick);
 
     this.cm.on("focus", this.focusChanged.bind(this, true));
     this.cm.on("blur", this.focusChanged.bind(this, false));
@@ -363,7 +397,16 @@ export default class CodeMirrorEditor extends React.Component<
       nextState.bundle
     )
 
-    return valueChanged || editorFocusedChanged || codeMirrorConfigChanged || bundleChanged;
+    const remoteCursorsChanged = !isEqual(
+      this.props.remoteCursors,
+      nextProps.remoteCursors
+    );
+
+    const breakpointsChanged =
+      !isEqual(this.props.breakpoints, nextProps.breakpoints) ||
+      this.props.pausedLine !== nextProps.pausedLine;
+
+    return valueChanged || editorFocusedChanged || codeMirrorConfigChanged || bundleChanged || remoteCursorsChanged || breakpointsChanged;
   }
 
   componentDidUpdate(prevProps: CodeMirrorEditorProps): void {
@@ -413,6 +456,12 @@ export default class CodeMirrorEditor extends React.Component<
       normalizeLineEndings(this.cm.getValue()) !==
       normalizeLineEndings(this.props.value)
     ) {
+      // Lines added after the cursor, e.g. for incomplete code, keep it at the end
+      const cursorWasAtEnd =
+        this.cm.indexFromPos(this.cm.getCursor()) === this.cm.getValue().length &&
+        normalizeLineEndings(this.props.value).startsWith(
+          normalizeLineEndings(this.cm.getValue())
+        );
       if (this.props.preserveScrollPosition) {
         const prevScrollPosition = this.cm.getScrollInfo();
         this.cm.setValue(this.props.value);
@@ -420,6 +469,24 @@ export default class CodeMirrorEditor extends React.Component<
       } else {
         this.cm.setValue(this.props.value);
       }
+      if (cursorWasAtEnd) {
+        this.cm.setCursor(this.cm.posFromIndex(this.props.value.length));
+      }
+    }
+
+    if (
+      this.props.value !== prevProps.value ||
+      !isEqual(this.props.remoteCursors, prevProps.remoteCursors)
+    ) {
+      this.updateRemoteCursors();
+    }
+
+    if (
+      this.props.value !== prevProps.value ||
+      !isEqual(this.props.breakpoints, prevProps.breakpoints) ||
+      this.props.pausedLine !== prevProps.pausedLine
+    ) {
+      this.updateBreakpoints();
     }
   }
 
@@ -428,6 +495,9 @@ export default class CodeMirrorEditor extends React.Component<
       this.cm.toTextArea();
     }
     this.completionEventsSubscriber.unsubscribe();
+    if (this.isCompleteSubscription) {
+      this.isCompleteSubscription.unsubscribe();
+    }
   }
 
   focusChanged(focused: boolean): void {
@@ -458,8 +528,36 @@ export default class CodeMirrorEditor extends React.Component<
   handleCursorChange = (editor: Editor) => {
     const cursorCoords = editor.cursorCoords();
     this.setState({ cursorCoords });
+
+    if (this.props.onCursorChange && editor.hasFocus()) {
+      const { anchor, head } = editor.listSelections()[0];
+      this.props.onCursorChange({
+        anchor: editor.indexFromPos(anchor),
+        head: editor.indexFromPos(head)
+      });
+    }
+  };
+
+  updateRemoteCursors(): void {
+    this.remoteCursorMarkers.forEach(marker => marker.clear());
+    this.remoteCursorMarkers = markRemoteCursors(
+      this.cm.getDoc(),
+      this.props.remoteCursors || []
+    );
+  }
+
+  handleGutterClick = (editor: Editor, line: number, gutter: string) => {
+    if (gutter === BREAKPOINT_GUTTER && this.props.onToggleBreakpoint) {
+      this.props.onToggleBreakpoint(line + 1);
+    }
   };
 
+  updateBreakpoints(): void {
+    markBreakpoints(this.cm, this.props.breakpoints);
+    unmarkPausedLine(this.cm, this.pausedLineHandle);
+    this.pausedLineHandle = markPausedLine(this.cm, this.props.pausedLine);
+  }
+
   tips(editor: Editor & Doc): void {
     const { tip, channels } = this.props;
 
@@ -509,6 +607,32 @@ export default class CodeMirrorEditor extends React.Component<
     }
   }
 
+  /**
+   * Runs complete code with Shift+Enter and adds a line to incomplete code,
+   * when asked to check with the kernel. Otherwise Shift+Enter is left to the
+   * keyboard shortcuts of the app.
+   */
+  executeOrContinue(editor: Editor & Doc): void | typeof CodeMirror.Pass {
+    const { channels, checkIsComplete, onExecute } = this.props;
+    if (!checkIsComplete || !onExecute || !channels) {
+      return CodeMirror.Pass;
+    }
+
+    if (this.isCompleteSubscription) {
+      this.isCompleteSubscription.unsubscribe();
+    }
+    this.isCompleteSubscription = isCompleteObservable(
+      channels,
+      editor.getValue()
+    ).subscribe(reply => {
+      if (reply.status === "incomplete") {
+        editor.replaceSelection(`\n${reply.indent || ""}`);
+      } else {
+        onExecute();
+      }
+    });
+  }
+
   codemirrorValueChanged(doc: Editor, change: EditorChangeLinkedList): void {
     if (
       this.props.onChange &&
@@ -0,0 +1,77 @@
+import { Doc, TextMarker } from "codemirror";
+
+/**
+ * Cursor of another user editing the same document, e.g. in a collaboration
+ * session. Positions are character offsets into the editor value.
+ */
+export interface RemoteCursor {
+  id: string;
+  /** Shown next to the cursor, usually the user's name */
+  label: string;
+  /** Hex color (`#rrggbb`) of the cursor and its selection */
+  color: string;
+  anchor: number;
+  head: number;
+}
+
+function caret(cursor: RemoteCursor): HTMLElement {
+  const element = document.createElement("span");
+  element.className = "remote-cursor";
+  element.title = cursor.label;
+  element.style.borderLeft = `2px solid ${cursor.color}`;
+  element.style.marginLeft = "-1px";
+  element.style.marginRight = "-1px";
+  element.style.position = "relative";
+
+  const label = document.createElement("span");
+  label.className = "remote-cursor-label";
+  label.textContent = cursor.label;
+  label.style.position = "absolute";
+  label.style.bottom = "100%";
+  label.style.left = "-2px";
+  label.style.padding = "0 2px";
+  label.style.fontSize = "10px";
+  label.style.lineHeight = "12px";
+  label.style.whiteSpace = "nowrap";
+  label.style.color = "white";
+  label.style.background = cursor.color;
+  label.style.pointerEvents = "none";
+  element.appendChild(label);
+
+  return element;
+}
+
+/**
+ * Draws the cursors and selections of remote users. The returned markers
+ * have to be cleared before the cursors are drawn again.
+ */
+export function markRemoteCursors(
+  doc: Doc,
+  cursors: RemoteCursor[]
+): TextMarker[] {
+  const markers: TextMarker[] = [];
+
+  for (const cursor of cursors) {
+    // posFromIndex clamps offsets beyond the document, e.g. when the remote
+    // user has just deleted text we did not receive yet
+    const anchor = doc.posFromIndex(cursor.anchor);
+    const head = doc.posFromIndex(cursor.head);
+
+    if (cursor.anchor !== cursor.head) {
+      const [from, to] =
+        cursor.anchor < cursor.head ? [anchor, head] : [head, anchor];
+      markers.push(
+        doc.markText(from, to, {
+          className: "remote-selection",
+          css: `background-color: ${cursor.color}33`
+        })
+      );
+    }
+
+    markers.push(
+      doc.setBookmark(head, { widget: caret(cursor), insertLeft: true })
+    );
+  }
+
+  return markers;
+}
@@ -0,0 +1,172 @@
+import * as actions from "@nteract/actions";
+import {
+  ContentRecord,
+  createContentRef,
+  makeAppRecord,
+  makeContentsRecord,
+  makeEntitiesRecord,
+  makeJupyterHostRecord,
+  makeNotebookContentRecord,
+  makeStateRecord
+} from "@nteract/types";
+import * as Immutable from "immutable";
+import { StateObservable } from "redux-observable";
+import { of, Subject } from "rxjs";
+import { toArray } from "rxjs/operators";
+
+import {
+  createCheckpointEpic,
+  deleteCheckpointEpic,
+  fetchCheckpointsEpic,
+  restoreCheckpointEpic
+} from "../src/checkpoints";
+
+const contentRef = createContentRef();
+
+function makeState(filepath: string) {
+  return {
+    app: makeAppRecord({
+      version: "test",
+      host: makeJupyterHostRecord({})
+    }),
+    core: makeStateRecord({
+      entities: makeEntitiesRecord({
+        contents: makeContentsRecord({
+          byRef: Immutable.Map<string, ContentRecord>().set(
+            contentRef,
+            makeNotebookContentRecord({ filepath })
+          )
+        })
+      })
+    })
+  };
+}
+
+const checkpoint = { id: "checkpoint", last_modified: "2020-01-01T00:00:00Z" };
+
+function makeContentProvider() {
+  return {
+    listCheckpoints: jest.fn(() => of({ status: 200, response: [checkpoint] })),
+    createCheckpoint: jest.fn(() => of({ status: 201, response: checkpoint })),
+    deleteCheckpoint: jest.fn(() => of({ status: 204, response: null })),
+    restoreFromCheckpoint: jest.fn(() => of({ status: 204, response: null })),
+    get: jest.fn(() =>
+      of({ status: 200, response: { type: "notebook", content: {} } })
+    )
+  } as any;
+}
+
+async function run(epic: any, action: any, filepath: string, contentProvider: any) {
+  return epic(
+    of(action),
+    new StateObservable(new Subject(), makeState(filepath) as any),
+    { contentProvider }
+  )
+    .pipe(toArray())
+    .toPromise();
+}
+
+describe("fetchCheckpointsEpic", () => {
+  it("lists the checkpoints of the notebook", async () => {
+    const contentProvider = makeContentProvider();
+    const responses = await run(
+      fetchCheckpointsEpic,
+      actions.fetchCheckpoints({ contentRef }),
+      "test.ipynb",
+      contentProvider
+    );
+    expect(contentProvider.listCheckpoints.mock.calls[0][1]).toBe("test.ipynb");
+    expect(responses).toEqual([
+      actions.fetchCheckpointsFulfilled({
+        contentRef,
+        checkpoints: [checkpoint]
+      })
+    ]);
+  });
+  it("fails for notebooks which were never saved", async () => {
+    const contentProvider = makeContentProvider();
+    const responses = await run(
+      fetchCheckpointsEpic,
+      actions.fetchCheckpoints({ contentRef }),
+      "",
+      contentProvider
+    );
+    expect(contentProvider.listCheckpoints).not.toHaveBeenCalled();
+    expect(responses).toEqual([
+      actions.fetchCheckpointsFailed({
+        contentRef,
+        error: new Error("Content has not been saved yet.")
+      })
+    ]);
+  });
+});
+
+describe("createCheckpointEpic", () => {
+  it("creates a checkpoint", async () => {
+    const responses = await run(
+      createCheckpointEpic,
+      actions.createCheckpoint({ contentRef }),
+      "test.ipynb",
+      makeContentProvider()
+    );
+    expect(responses).toEqual([
+      actions.createCheckpointFulfilled({ contentRef, checkpoint })
+    ]);
+  });
+  it("fails on error responses", async () => {
+    const contentProvider = makeContentProvider();
+    contentProvider.createCheckpoint = () =>
+      of({ status: 500, response: "Server error" });
+    const responses = await run(
+      createCheckpointEpic,
+      actions.createCheckpoint({ contentRef }),
+      "test.ipynb",
+      contentProvider
+    );
+    expect(responses).toEqual([
+      actions.createCheckpointFailed({
+        contentRef,
+        error: new Error("Server error")
+      })
+    ]);
+  });
+});
+
+describe("deleteCheckpointEpic", () => {
+  it("deletes the checkpoint", async () => {
+    const contentProvider = makeContentProvider();
+    const responses = await run(
+      deleteCheckpointEpic,
+      actions.deleteCheckpoint({ contentRef, checkpointId: "checkpoint" }),
+      "test.ipynb",
+      contentProvider
+    );
+    expect(contentProvider.deleteCheckpoint.mock.calls[0][2]).toBe("checkpoint");
+    expect(responses).toEqual([
+      actions.deleteCheckpointFulfilled({ contentRef, checkpointId: "checkpoint" })
+    ]);
+  });
+});
+
+describe("restoreCheckpointEpic", () => {
+  it("restores the checkpoint and loads the restored notebook", async () => {
+    const contentProvider = makeContentProvider();
+    const responses = await run(
+      restoreCheckpointEpic,
+      actions.restoreCheckpoint({ contentRef, checkpointId: "checkpoint" }),
+      "test.ipynb",
+      contentProvider
+    );
+    expect(contentProvider.restoreFromCheckpoint.mock.calls[0][2]).toBe(
+      "checkpoint"
+    );
+    expect(contentProvider.get.mock.calls[0][1]).toBe("test.ipynb");
+    expect(responses).toEqual([
+      actions.restoreCheckpointFulfilled({
+        contentRef,
+        checkpointId: "checkpoint",
+        model: { type: "notebook", content: {} }
+      })
+    ]);
+  });
+});
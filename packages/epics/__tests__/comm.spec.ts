@@ -5,10 +5,18 @@ import Immutable from "immutable";
 import * as actions from "@nteract/actions";
 import { COMM_MESSAGE, COMM_OPEN, EXECUTE_FAILED } from "@nteract/actions";
 import { StateObservable } from "redux-observable";
-import { commListenEpic } from "../src/comm";
+import {
+  closeCommEpic,
+  commListenEpic,
+  fetchCommInfoEpic,
+  openCommEpic,
+  sendCommMessageEpic
+} from "../src/comm";
 
 import {
   makeAppRecord,
+  makeKernelsRecord,
+  makeRemoteKernelRecord,
   makeCommsRecord,
   makeStateRecord,
   makeEntitiesRecord,
@@ -22,7 +30,7 @@ import {
 } from "@nteract/types";
 
 describe("commActionObservable", () => {
-  test("emits COMM_OPEN and COMM_MESSAGE given the right messages", done => {
+  test("emits COMM_OPEN, COMM_MESSAGE and COMM_CLOSE given the right messages", done => {
     const commOpenMessage = {
       header: { msg_type: "comm_open" },
       content: {
@@ -72,10 +80,20 @@ describe("commActionObservable", () => {
       buffers: new Uint8Array([])
     };
 
+    const commCloseMessage = {
+      header: { msg_type: "comm_close" },
+      content: { data: {}, comm_id: "0123" },
+      buffers: new Uint8Array([])
+    };
+
     const action = of(
       actions.launchKernelSuccessful({
         kernel: {
-          channels: of(commOpenMessage, commMessage) as Subject<any>,
+          channels: of(
+            commOpenMessage,
+            commMessage,
+            commCloseMessage
+          ) as Subject<any>,
           cwd: "/home/tester",
           type: "websocket"
         },
@@ -97,13 +115,20 @@ describe("commActionObservable", () => {
               comm_id: "0123",
               target_name: "daredevil",
               target_module: "murdock",
-              buffers: new Uint8Array([])
+              buffers: new Uint8Array([]),
+              kernelRef: "fakeKernelRef"
             },
             {
               type: "COMM_MESSAGE",
               data: "DATA",
               comm_id: "0123",
               buffers: new Uint8Array([])
+            },
+            {
+              type: "COMM_CLOSE",
+              data: {},
+              comm_id: "0123",
+              buffers: new Uint8Array([])
             }
           ]);
         },
@@ -201,6 +226,17 @@ describe("commActionObservable", () => {
                   "The WebSocket connection has unexpectedly disconnected."
                   )  
               }
+            },
+            {
+              type: EXECUTE_FAILED,
+              error: true,
+              payload: {
+                code: "EXEC_WEBSOCKET_ERROR",
+                contentRef: "fakeContentRef",
+                error: new Error(
+                  "The WebSocket connection has unexpectedly disconnected."
+                )
+              }
             }
           ]
           );
@@ -210,3 +246,111 @@ describe("commActionObservable", () => {
       ); // It should not error in the stream
   });
 });
+
+describe("frontend comms", () => {
+  const kernelRef = "fakeKernelRef";
+
+  /**
+   * A kernel which records what it was sent, answering comm_info_requests
+   * with the given comms.
+   */
+  function makeKernel(comms: any = {}) {
+    const sent = new Subject<any>();
+    const received = new Subject<any>();
+    const requests: any[] = [];
+    sent.subscribe(request => {
+      requests.push(request);
+      if (request.header.msg_type === "comm_info_request") {
+        received.next({
+          header: { msg_type: "comm_info_reply" },
+          parent_header: { msg_id: request.header.msg_id },
+          content: { status: "ok", comms }
+        });
+      }
+    });
+    return { channels: Subject.create(sent, received), requests };
+  }
+
+  function makeState(channels: any) {
+    return new StateObservable(new Subject(), {
+      core: makeStateRecord({
+        entities: makeEntitiesRecord({
+          kernels: makeKernelsRecord({
+            byRef: Immutable.Map({
+              [kernelRef]: makeRemoteKernelRecord({ channels })
+            })
+          })
+        })
+      })
+    } as any);
+  }
+
+  test("opens, messages and closes comms to a kernel target", async () => {
+    const { channels, requests } = makeKernel();
+    const state$ = makeState(channels);
+
+    await openCommEpic(
+      of(
+        actions.openComm({
+          kernelRef,
+          commId: "0123",
+          targetName: "daredevil",
+          data: { hello: "kernel" }
+        })
+      ),
+      state$
+    ).toPromise();
+    await sendCommMessageEpic(
+      of(actions.sendCommMessage({ kernelRef, commId: "0123", data: { x: 1 } })),
+      state$
+    ).toPromise();
+    await closeCommEpic(
+      of(actions.closeComm({ kernelRef, commId: "0123" })),
+      state$
+    ).toPromise();
+
+    expect(
+      requests.map(request => [request.header.msg_type, request.content])
+    ).toEqual([
+      [
+        "comm_open",
+        { comm_id: "0123", target_name: "daredevil", data: { hello: "kernel" } }
+      ],
+      ["comm_msg", { comm_id: "0123", data: { x: 1 } }],
+      ["comm_close", { comm_id: "0123", data: {} }]
+    ]);
+  });
+
+  test("lists the comms open in the kernel", async () => {
+    const comms = { "0123": { target_name: "daredevil" } };
+    const { channels, requests } = makeKernel(comms);
+    const responses = await fetchCommInfoEpic(
+      of(actions.fetchCommInfo({ kernelRef, targetName: "daredevil" })),
+      makeState(channels)
+    )
+      .pipe(toArray())
+      .toPromise();
+
+    expect(requests[0].content).toEqual({ target_name: "daredevil" });
+    expect(responses).toEqual([
+      actions.fetchCommInfoFulfilled({
+        kernelRef,
+        targetName: "daredevil",
+        comms
+      })
+    ]);
+  });
+
+  test("fails to list comms without a running kernel", async () => {
+    const responses = await fetchCommInfoEpic(
+      of(actions.fetchCommInfo({ kernelRef })),
+      makeState(null)
+    )
+      .pipe(toArray())
+      .toPromise();
+
+    expect(responses.map(action => action.type)).toEqual([
+      actions.FETCH_COMM_INFO_FAILED
+    ]);
+  });
+});
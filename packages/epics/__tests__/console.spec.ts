@@ -0,0 +1,152 @@
+import * as actions from "@nteract/actions";
+import {
+  makeConsoleContentRecord,
+  makeConsoleModelRecord,
+  makeContentsRecord,
+  makeEntitiesRecord,
+  makeKernelsRecord,
+  makeRemoteKernelRecord,
+  makeStateRecord
+} from "@nteract/types";
+import * as Immutable from "immutable";
+import { StateObservable } from "redux-observable";
+import { of, Subject } from "rxjs";
+import { toArray } from "rxjs/operators";
+
+import {
+  executeConsolePromptEpic,
+  fetchConsoleHistoryEpic
+} from "../src/console";
+
+const contentRef = "console";
+const kernelRef = "kernel";
+
+/**
+ * A kernel which answers with the given messages, by the type of the
+ * request.
+ */
+function makeKernel(replies: {
+  [msgType: string]: Array<{ msg_type: string; content: any }>;
+}) {
+  const sent = new Subject<any>();
+  const received = new Subject<any>();
+  const requests: any[] = [];
+  sent.subscribe(request => {
+    requests.push(request);
+    const parent_header = { msg_id: request.header.msg_id };
+    (replies[request.header.msg_type] || []).forEach(({ msg_type, content }) =>
+      received.next({ header: { msg_type }, parent_header, content })
+    );
+  });
+  return { channels: Subject.create(sent, received), requests };
+}
+
+function makeState(channels: any, prompt = "print(1)") {
+  return {
+    core: makeStateRecord({
+      entities: makeEntitiesRecord({
+        contents: makeContentsRecord({
+          byRef: Immutable.Map({
+            [contentRef]: makeConsoleContentRecord({
+              model: makeConsoleModelRecord({ kernelRef, prompt })
+            })
+          })
+        }),
+        kernels: makeKernelsRecord({
+          byRef: Immutable.Map({
+            [kernelRef]: makeRemoteKernelRecord({ channels, status: "idle" })
+          })
+        })
+      })
+    })
+  };
+}
+
+async function run(epic: any, action: any, state: any) {
+  return epic(of(action), new StateObservable(new Subject(), state))
+    .pipe(toArray())
+    .toPromise();
+}
+
+describe("executeConsolePromptEpic", () => {
+  test("runs the prompt until the kernel is idle and replied", async () => {
+    const { channels, requests } = makeKernel({
+      execute_request: [
+        { msg_type: "status", content: { execution_state: "busy" } },
+        { msg_type: "execute_input", content: { execution_count: 2 } },
+        { msg_type: "stream", content: { name: "stdout", text: "1\n" } },
+        { msg_type: "status", content: { execution_state: "idle" } },
+        { msg_type: "execute_reply", content: { status: "ok" } }
+      ]
+    });
+    const responses = await run(
+      executeConsolePromptEpic,
+      actions.executeConsolePrompt({ contentRef }),
+      makeState(channels)
+    );
+
+    const id = requests[0].header.msg_id;
+    expect(requests[0].content.code).toBe("print(1)");
+    expect(responses).toEqual([
+      actions.sendConsoleExecuteRequest({ contentRef, id, source: "print(1)" }),
+      actions.updateConsoleExecutionCount({ contentRef, id, value: 2 }),
+      actions.appendConsoleOutput({
+        contentRef,
+        id,
+        output: { output_type: "stream", name: "stdout", text: "1\n" }
+      }),
+      actions.consoleExecutionFinished({ contentRef, id }),
+      actions.executeSuccessful({ contentRef, id })
+    ]);
+  });
+  test("does nothing for an empty prompt", async () => {
+    const { channels, requests } = makeKernel({});
+    const responses = await run(
+      executeConsolePromptEpic,
+      actions.executeConsolePrompt({ contentRef }),
+      makeState(channels, "  ")
+    );
+    expect(responses).toEqual([]);
+    expect(requests).toEqual([]);
+  });
+});
+
+describe("fetchConsoleHistoryEpic", () => {
+  test("lists the inputs of the kernel's history", async () => {
+    const { channels } = makeKernel({
+      history_request: [
+        {
+          msg_type: "history_reply",
+          content: {
+            status: "ok",
+            history: [
+              [1, 1, "import os"],
+              [1, 2, ["x = 1", ""]]
+            ]
+          }
+        }
+      ]
+    });
+    const responses = await run(
+      fetchConsoleHistoryEpic,
+      actions.fetchConsoleHistory({ contentRef }),
+      makeState(channels)
+    );
+    expect(responses).toEqual([
+      actions.fetchConsoleHistoryFulfilled({
+        contentRef,
+        history: ["import os", "x = 1"]
+      })
+    ]);
+  });
+  test("fails without a running kernel", async () => {
+    const responses = await run(
+      fetchConsoleHistoryEpic,
+      actions.fetchConsoleHistory({ contentRef }),
+      makeState(null)
+    );
+    expect(responses.map((action: any) => action.type)).toEqual([
+      actions.FETCH_CONSOLE_HISTORY_FAILED
+    ]);
+  });
+});
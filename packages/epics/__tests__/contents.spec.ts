@@ -11,6 +11,8 @@ import {
   makeDocumentRecord,
   makeDummyContentRecord,
   makeEntitiesRecord,
+  makeFileContentRecord,
+  makeFileModelRecord,
   makeHostsRecord,
   makeJupyterHostRecord,
   makeNotebookContentRecord,
@@ -622,4 +624,120 @@ describe("autoSaveContentEpic", () => {
     expect(results.map(a => a.type)).toEqual([]);
     done();
   });
+
+  describe("auto-save policies", () => {
+    const notebookRef = createContentRef();
+    const fileRef = createContentRef();
+
+    const stateWithPolicy = (config: { [key: string]: any }) => ({
+      ...mockAppState({}),
+      __private__: {
+        configuration: { current: Immutable.fromJS(config) }
+      },
+      core: makeStateRecord({
+        entities: makeEntitiesRecord({
+          contents: makeContentsRecord({
+            byRef: Immutable.Map<string, ContentRecord>()
+              .set(
+                notebookRef,
+                makeNotebookContentRecord({
+                  filepath: "test.ipynb",
+                  model: makeDocumentRecord({
+                    notebook: Immutable.Map({ key: "edited" }),
+                    savedNotebook: Immutable.Map({ key: "saved" })
+                  })
+                })
+              )
+              .set(
+                fileRef,
+                makeFileContentRecord({
+                  filepath: "test.txt",
+                  model: makeFileModelRecord({
+                    text: "edited",
+                    savedText: "saved"
+                  })
+                })
+              )
+          })
+        })
+      })
+    });
+
+    const run = (action$, config: { [key: string]: any }) => {
+      const results = [];
+      const subscription = autoSaveCurrentContentEpic(
+        action$,
+        new StateObservable(new Subject(), stateWithPolicy(config) as any)
+      ).subscribe(action => results.push(action));
+      return { results, subscription };
+    };
+
+    it("saves after a successful execution", () => {
+      const { results, subscription } = run(
+        of(actions.executeSuccessful({ id: "cell", contentRef: notebookRef })),
+        { autoSavePolicy: "execution" }
+      );
+      subscription.unsubscribe();
+      expect(results).toEqual([actions.save({ contentRef: notebookRef })]);
+    });
+
+    it("saves once editing pauses", () => {
+      const action$ = new Subject();
+      const { results, subscription } = run(action$, {
+        autoSavePolicy: "inactivity",
+        autoSaveInactivityDelay: 100
+      });
+      action$.next(actions.updateFileText({ contentRef: fileRef, text: "e" }));
+      jest.advanceTimersByTime(50);
+      action$.next(actions.updateFileText({ contentRef: fileRef, text: "ed" }));
+      jest.advanceTimersByTime(50);
+      expect(results).toEqual([]);
+
+      jest.advanceTimersByTime(50);
+      subscription.unsubscribe();
+      expect(results).toEqual([actions.save({ contentRef: fileRef })]);
+    });
+
+    it("does not count execution metadata as editing", () => {
+      const action$ = new Subject();
+      const { results, subscription } = run(action$, {
+        autoSavePolicy: "inactivity",
+        autoSaveInactivityDelay: 100
+      });
+      action$.next(
+        actions.setInCell({
+          id: "cell",
+          contentRef: notebookRef,
+          path: ["metadata", "execution", "iopub.status.idle"],
+          value: "now"
+        })
+      );
+      jest.advanceTimersByTime(200);
+      subscription.unsubscribe();
+      expect(results).toEqual([]);
+    });
+
+    it("saves every dirty notebook and file on an interval", () => {
+      const { results, subscription } = run(from([]), {
+        autoSavePolicy: "interval",
+        autoSaveInterval: 100
+      });
+      jest.advanceTimersByTime(100);
+      subscription.unsubscribe();
+      expect(results).toEqual([
+        actions.save({ contentRef: notebookRef }),
+        actions.save({ contentRef: fileRef })
+      ]);
+    });
+
+    it("never saves when auto-save is turned off", () => {
+      const { results, subscription } = run(
+        of(actions.executeSuccessful({ id: "cell", contentRef: notebookRef })),
+        { autoSavePolicy: "never", autoSaveInterval: 100 }
+      );
+      jest.advanceTimersByTime(200);
+      subscription.unsubscribe();
+      expect(results).toEqual([]);
+    });
+  });
 });
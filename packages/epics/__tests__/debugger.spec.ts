@@ -0,0 +1,262 @@
+import * as actions from "@nteract/actions";
+import { createCodeCell, emptyNotebook, insertCellAt } from "@nteract/commutable";
+import {
+  makeDebuggersRecord,
+  makeDebugSessionRecord,
+  makeDocumentRecord,
+  makeEntitiesRecord,
+  makeKernelsRecord,
+  makeNotebookContentRecord,
+  makeRemoteKernelRecord,
+  makeStateRecord
+} from "@nteract/types";
+import * as Immutable from "immutable";
+import { StateObservable } from "redux-observable";
+import { of, Subject } from "rxjs";
+import { toArray } from "rxjs/operators";
+
+import {
+  debugEventsEpic,
+  debugStepEpic,
+  startDebuggingEpic,
+  stopDebuggingEpic,
+  syncBreakpointsEpic
+} from "../src/debugger";
+
+const contentRef = "contentRef";
+const kernelRef = "kernelRef";
+
+/**
+ * A kernel which replies to every debug request, with the body given for
+ * its command.
+ */
+function makeKernel(bodies: { [command: string]: (args: any) => any } = {}) {
+  const sent = new Subject<any>();
+  const received = new Subject<any>();
+  const requests: any[] = [];
+  sent.subscribe(request => {
+    const { seq, command } = request.content;
+    requests.push(request.content);
+    received.next({
+      header: { msg_type: "debug_reply" },
+      parent_header: { msg_id: request.header.msg_id },
+      content: {
+        seq,
+        type: "response",
+        request_seq: seq,
+        command,
+        success: true,
+        body: bodies[command] ? bodies[command](request.content.arguments) : {}
+      }
+    });
+  });
+  return { channels: Subject.create(sent, received), received, requests };
+}
+
+const dumpCell = (args: { code: string }) => ({
+  sourcePath: `/tmp/${args.code.length}.py`
+});
+
+function makeState(
+  channels: any,
+  session: any = null,
+  breakpoints = Immutable.Map<string, Immutable.Set<number>>()
+) {
+  const notebook = insertCellAt(
+    emptyNotebook,
+    createCodeCell({ source: "x = 1\ny = 2" }),
+    "cell",
+    0
+  );
+  return {
+    app: {},
+    core: makeStateRecord({
+      entities: makeEntitiesRecord({
+        contents: {
+          byRef: Immutable.Map({
+            [contentRef]: makeNotebookContentRecord({
+              model: makeDocumentRecord({ notebook, kernelRef })
+            })
+          })
+        } as any,
+        kernels: makeKernelsRecord({
+          byRef: Immutable.Map({
+            [kernelRef]: makeRemoteKernelRecord({ channels })
+          })
+        }),
+        debuggers: makeDebuggersRecord({
+          breakpoints,
+          byRef: session
+            ? Immutable.Map({ [kernelRef]: session })
+            : Immutable.Map()
+        })
+      })
+    })
+  };
+}
+
+async function run(epic: any, action: any, state: any) {
+  return epic(of(action), new StateObservable(new Subject(), state))
+    .pipe(toArray())
+    .toPromise();
+}
+
+describe("startDebuggingEpic", () => {
+  it("attaches to the kernel and sends the breakpoints of each cell", async () => {
+    const kernel = makeKernel({ dumpCell });
+    const responses = await run(
+      startDebuggingEpic,
+      actions.startDebugging({ contentRef, kernelRef }),
+      makeState(
+        kernel.channels,
+        null,
+        Immutable.Map({ cell: Immutable.Set([2]) })
+      )
+    );
+    expect(kernel.requests.map(request => request.command)).toEqual([
+      "initialize",
+      "attach",
+      "dumpCell",
+      "setBreakpoints",
+      "configurationDone"
+    ]);
+    expect(kernel.requests[3].arguments).toEqual({
+      source: { path: "/tmp/11.py" },
+      breakpoints: [{ line: 2 }],
+      sourceModified: false
+    });
+    expect(responses).toEqual([
+      actions.startDebuggingFulfilled({
+        contentRef,
+        kernelRef,
+        sourcePaths: { cell: "/tmp/11.py" }
+      })
+    ]);
+  });
+  it("fails when the kernel is not running", async () => {
+    const responses = await run(
+      startDebuggingEpic,
+      actions.startDebugging({ contentRef, kernelRef: "notAKernel" }),
+      makeState(makeKernel().channels)
+    );
+    expect(responses).toEqual([
+      actions.startDebuggingFailed({
+        contentRef,
+        kernelRef: "notAKernel",
+        error: new Error("The kernel is not running.")
+      })
+    ]);
+  });
+});
+
+describe("debugEventsEpic", () => {
+  it("fetches the call stack and variables when the kernel stops", done => {
+    const kernel = makeKernel({
+      stackTrace: () => ({
+        stackFrames: [
+          { id: 3, name: "<module>", line: 2, column: 1, source: { path: "/tmp/11.py" } }
+        ]
+      }),
+      scopes: () => ({ scopes: [{ name: "Locals", variablesReference: 5 }] }),
+      variables: () => ({
+        variables: [{ name: "x", value: "1", type: "int", variablesReference: 0 }]
+      })
+    });
+    const action$ = new Subject<any>();
+    debugEventsEpic(
+      action$,
+      new StateObservable(new Subject(), makeState(kernel.channels) as any)
+    ).subscribe(action => {
+      expect(action).toEqual(
+        actions.debugPaused({
+          kernelRef,
+          threadId: 1,
+          stackFrames: [
+            { id: 3, name: "<module>", line: 2, column: 1, path: "/tmp/11.py" }
+          ],
+          frameId: 3,
+          scopes: [
+            {
+              name: "Locals",
+              variables: [
+                { name: "x", value: "1", type: "int", variablesReference: 0 }
+              ]
+            }
+          ]
+        })
+      );
+      done();
+    });
+
+    action$.next(
+      actions.startDebuggingFulfilled({ contentRef, kernelRef, sourcePaths: {} })
+    );
+    kernel.received.next({
+      header: { msg_type: "debug_event" },
+      parent_header: {},
+      content: { seq: 1, type: "event", event: "stopped", body: { threadId: 1 } }
+    });
+  });
+});
+
+describe("debugStepEpic", () => {
+  it("steps the stopped thread", async () => {
+    const kernel = makeKernel();
+    const responses = await run(
+      debugStepEpic,
+      actions.debugStep({ kernelRef, command: "next", threadId: 1 }),
+      makeState(kernel.channels)
+    );
+    expect(kernel.requests).toEqual([
+      expect.objectContaining({ command: "next", arguments: { threadId: 1 } })
+    ]);
+    expect(responses).toEqual([]);
+  });
+});
+
+describe("syncBreakpointsEpic", () => {
+  it("sends the breakpoints of a cell while debugging", async () => {
+    const kernel = makeKernel({ dumpCell });
+    const responses = await run(
+      syncBreakpointsEpic,
+      actions.toggleBreakpoint({ contentRef, id: "cell", line: 1 }),
+      makeState(
+        kernel.channels,
+        makeDebugSessionRecord({ status: "running" }),
+        Immutable.Map({ cell: Immutable.Set([1]) })
+      )
+    );
+    expect(kernel.requests[1].arguments.breakpoints).toEqual([{ line: 1 }]);
+    expect(responses).toEqual([
+      actions.setBreakpointsFulfilled({
+        contentRef,
+        id: "cell",
+        kernelRef,
+        path: "/tmp/11.py"
+      })
+    ]);
+  });
+  it("leaves kernels that are not being debugged alone", async () => {
+    const kernel = makeKernel({ dumpCell });
+    const responses = await run(
+      syncBreakpointsEpic,
+      actions.toggleBreakpoint({ contentRef, id: "cell", line: 1 }),
+      makeState(kernel.channels)
+    );
+    expect(kernel.requests).toEqual([]);
+    expect(responses).toEqual([]);
+  });
+});
+
+describe("stopDebuggingEpic", () => {
+  it("disconnects from the kernel", async () => {
+    const kernel = makeKernel();
+    const responses = await run(
+      stopDebuggingEpic,
+      actions.stopDebugging({ kernelRef }),
+      makeState(kernel.channels)
+    );
+    expect(kernel.requests[0].command).toBe("disconnect");
+    expect(responses).toEqual([actions.stopDebuggingFulfilled({ kernelRef })]);
+  });
+});
@@ -126,51 +126,130 @@ describe("executeCellStream", () => {
 
     done();
   });
+  test("dispatches executeSuccessful when the execution succeeds", () => {
+    const message = createMessage("execute_request");
+    const msg_id = message.header.msg_id;
+    const reply = (status: string) => ({
+      parent_header: {
+        msg_id
+      },
+      header: {
+        msg_type: "execute_reply"
+      },
+      content: {
+        status,
+        execution_count: 0
+      }
+    });
+    const sent = new Subject();
+    const received = new Subject();
+
+    const channels = Subject.create(sent, received);
+
+    sent.subscribe(() => {
+      received.next(reply("error"));
+      received.next(reply("ok"));
+    });
+
+    const emittedActions = [];
+    executeCellStream(channels, "0", message, "fakeContentRef").subscribe(
+      action => {
+        emittedActions.push(action);
+      }
+    );
+
+    expect(
+      emittedActions.filter(
+        action => action.type === actions.EXECUTE_SUCCESSFUL
+      )
+    ).toEqual([
+      actions.executeSuccessful({ id: "0", contentRef: "fakeContentRef" })
+    ]);
+  });
+  test("only cancels the queued cells on errors when asked to", () => {
+    const message = createMessage("execute_request");
+    const error = {
+      parent_header: { msg_id: message.header.msg_id },
+      header: { msg_type: "error" },
+      content: { ename: "ZeroDivisionError", evalue: "", traceback: [] }
+    };
+    const emitted = (cancelOnError: boolean) => {
+      const sent = new Subject();
+      const received = new Subject();
+      sent.subscribe(() => received.next(error));
+
+      const types = [];
+      executeCellStream(
+        Subject.create(sent, received),
+        "0",
+        message,
+        "fakeContentRef",
+        cancelOnError
+      ).subscribe(action => types.push(action.type));
+      return types;
+    };
+
+    expect(emitted(true)).toContain(actions.EXECUTE_CANCELED);
+    expect(emitted(false)).not.toContain(actions.EXECUTE_CANCELED);
+  });
 });
 
 describe("createExecuteCellStream", () => {
+  const queueState = (
+    channels: any,
+    queue: Partial<stateModule.KernelExecutionQueueRecordProps>
+  ) => ({
+    core: stateModule.makeStateRecord({
+      kernelRef: "fake",
+      entities: stateModule.makeEntitiesRecord({
+        kernels: stateModule.makeKernelsRecord({
+          byRef: Immutable.Map({
+            fake: stateModule.makeRemoteKernelRecord({
+              channels,
+              status: "busy"
+            })
+          })
+        }),
+        contents: stateModule.makeContentsRecord({
+          byRef: Immutable.Map({
+            fakeContentRef: stateModule.makeNotebookContentRecord({
+              model: stateModule.makeDocumentRecord({
+                kernelRef: "fake"
+              })
+            })
+          })
+        }),
+        executionQueue: stateModule.makeExecutionQueueRecord({
+          byKernelRef: Immutable.Map({
+            fake: stateModule.makeKernelExecutionQueueRecord(queue)
+          })
+        })
+      })
+    }),
+    app: {}
+  });
+
   test("does not complete but does push until abort action", done => {
     const frontendToShell = new Subject();
     const shellToFrontend = new Subject();
     const mockShell = Subject.create(frontendToShell, shellToFrontend);
 
     const channels = mockShell;
-    const state$ = {
-      value: {
-        core: stateModule.makeStateRecord({
-          kernelRef: "fake",
-          entities: stateModule.makeEntitiesRecord({
-            kernels: stateModule.makeKernelsRecord({
-              byRef: Immutable.Map({
-                fake: stateModule.makeRemoteKernelRecord({
-                  channels,
-                  status: "busy"
-                })
-              })
-            }),
-            contents: stateModule.makeContentsRecord({
-              byRef: Immutable.Map({
-                fakeContentRef: stateModule.makeNotebookContentRecord({
-                  model: stateModule.makeDocumentRecord({
-                    kernelRef: "fake"
-                  })
-                })
-              })
-            })
-          })
-        }),
-        app: {}
-      }
-    };
+    const state$ = new StateObservable(
+      new Subject(),
+      queueState(channels, {}) as any
+    );
     const action$ = from([]);
     const message = executeRequest("source");
 
     const observable = createExecuteCellStream(
       action$,
+      state$,
       channels,
       message,
       "id",
-      "fakeContentRef"
+      "fakeContentRef",
+      "fake"
     );
     const actionBuffer = [];
     observable.subscribe(
@@ -186,10 +265,93 @@ describe("createExecuteCellStream", () => {
         id: "id",
         status: "queued",
         contentRef: "fakeContentRef"
+      }),
+      actions.enqueueExecution({
+        id: "id",
+        contentRef: "fakeContentRef",
+        kernelRef: "fake"
       })
     ]);
     done();
   });
+
+  test("sends the request once the cells before it are done", () => {
+    const sent = [];
+    const channels = Subject.create(
+      { next: message => sent.push(message) },
+      new Subject()
+    );
+    const states = new Subject();
+    const state$ = new StateObservable(
+      states as any,
+      queueState(channels, {
+        running: { contentRef: "fakeContentRef", id: "before" },
+        queued: Immutable.List([{ contentRef: "fakeContentRef", id: "id" }])
+      }) as any
+    );
+    const message = executeRequest("source");
+
+    const actionBuffer = [];
+    createExecuteCellStream(
+      new Subject(),
+      state$,
+      channels,
+      message,
+      "id",
+      "fakeContentRef",
+      "fake"
+    ).subscribe(action => actionBuffer.push(action));
+    expect(sent).toEqual([]);
+
+    states.next(
+      queueState(channels, {
+        queued: Immutable.List([{ contentRef: "fakeContentRef", id: "id" }])
+      })
+    );
+    expect(sent).toEqual([message]);
+    expect(actionBuffer.map(action => action.type)).toContain(
+      actions.EXECUTION_STARTED
+    );
+  });
+
+  test("stops waiting when the cell is taken out of the queue", () => {
+    const sent = [];
+    const channels = Subject.create(
+      { next: message => sent.push(message) },
+      new Subject()
+    );
+    const states = new Subject();
+    const state$ = new StateObservable(
+      states as any,
+      queueState(channels, {
+        running: { contentRef: "fakeContentRef", id: "before" },
+        queued: Immutable.List([{ contentRef: "fakeContentRef", id: "id" }])
+      }) as any
+    );
+    const action$ = new Subject<any>();
+
+    let completed = false;
+    createExecuteCellStream(
+      action$,
+      state$,
+      channels,
+      executeRequest("source"),
+      "id",
+      "fakeContentRef",
+      "fake"
+    ).subscribe({ complete: () => (completed = true) });
+    action$.next(
+      actions.dequeueExecution({
+        id: "id",
+        contentRef: "fakeContentRef",
+        kernelRef: "fake"
+      })
+    );
+    states.next(queueState(channels, {}));
+
+    expect(completed).toBe(true);
+    expect(sent).toEqual([]);
+  });
 });
 
 describe("sendExecuteRequestEpic", () => {
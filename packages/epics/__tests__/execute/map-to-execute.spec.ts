@@ -1,4 +1,9 @@
 import * as actions from "@nteract/actions";
+import {
+  appendCellToNotebook,
+  emptyCodeCell,
+  emptyNotebook
+} from "@nteract/commutable";
 import * as stateModule from "@nteract/types";
 import { mockAppState } from "@nteract/fixtures";
 import { StateObservable } from "redux-observable";
@@ -43,6 +48,28 @@ describe("executeAllCellsEpic", () => {
       () => done()
     );
   });
+  test("executes the given code cells in notebook order", done => {
+    const state = mockAppState({ codeCellCount: 3 });
+    const contentRef = state.core.entities.contents.byRef.keySeq().first();
+    const cellOrder = state.core.entities.contents.byRef
+      .get(contentRef)
+      .model.notebook.cellOrder.toArray();
+    const action$ = of(
+      actions.executeCells({ contentRef, ids: [cellOrder[2], cellOrder[0]] })
+    );
+    const state$ = new StateObservable(new Subject(), state);
+    const obs = executeAllCellsEpic(action$, state$);
+    obs.pipe(toArray()).subscribe(
+      action => {
+        expect(action).toEqual([
+          actions.executeCell({ id: cellOrder[0], contentRef }),
+          actions.executeCell({ id: cellOrder[2], contentRef })
+        ]);
+      },
+      err => done.fail(err), // It should not error in the stream
+      () => done()
+    );
+  });
 });
 
 describe("executeCell", () => {
@@ -134,4 +161,96 @@ describe("executeCellEpic", () => {
       actions.enqueueAction({ id: "0", contentRef: "fakeContentRef" })
     ]);
   });
+
+  describe("when asked to check whether code is complete", () => {
+    const notebook = appendCellToNotebook(
+      emptyNotebook,
+      emptyCodeCell.set("source", "for i in range(3):")
+    );
+    const id = notebook.cellOrder.first();
+
+    /**
+     * A kernel which answers every is_complete_request with the given reply.
+     */
+    function makeState(reply: object | null) {
+      const sent = new Subject<any>();
+      const received = new Subject<any>();
+      sent.subscribe(request => {
+        if (reply) {
+          received.next({
+            header: { msg_type: "is_complete_reply" },
+            parent_header: { msg_id: request.header.msg_id },
+            content: reply
+          });
+        }
+      });
+      return {
+        core: stateModule.makeStateRecord({
+          entities: stateModule.makeEntitiesRecord({
+            contents: stateModule.makeContentsRecord({
+              byRef: Immutable.Map({
+                fakeContentRef: stateModule.makeNotebookContentRecord({
+                  model: stateModule.makeDocumentRecord({
+                    notebook,
+                    kernelRef: "fakeKernelRef"
+                  })
+                })
+              })
+            }),
+            kernels: stateModule.makeKernelsRecord({
+              byRef: Immutable.Map({
+                fakeKernelRef: stateModule.makeRemoteKernelRecord({
+                  status: "idle",
+                  channels: Subject.create(sent, received)
+                })
+              })
+            })
+          })
+        })
+      };
+    }
+
+    async function run(state: object) {
+      const action$ = of(
+        actions.executeCell({
+          id,
+          contentRef: "fakeContentRef",
+          checkIsComplete: true
+        })
+      );
+      return executeCellEpic(action$, new StateObservable(new Subject(), state))
+        .pipe(toArray())
+        .toPromise();
+    }
+
+    test("adds a line to incomplete code", async () => {
+      const responses = await run(
+        makeState({ status: "incomplete", indent: "    " })
+      );
+      expect(responses).toEqual([
+        actions.codeIncomplete({
+          id,
+          contentRef: "fakeContentRef",
+          indent: "    "
+        })
+      ]);
+    });
+
+    test("runs complete code", async () => {
+      const responses = await run(makeState({ status: "complete" }));
+      expect(responses).toEqual([
+        actions.sendExecuteRequest({ id, contentRef: "fakeContentRef" })
+      ]);
+    });
+
+    test("runs the code when the kernel doesn't reply", async () => {
+      jest.useFakeTimers();
+      const promise = run(makeState(null));
+      jest.runAllTimers();
+      jest.useRealTimers();
+      expect(await promise).toEqual([
+        actions.sendExecuteRequest({ id, contentRef: "fakeContentRef" })
+      ]);
+    });
+  });
 });
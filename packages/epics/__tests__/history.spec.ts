@@ -0,0 +1,172 @@
+import * as actions from "@nteract/actions";
+import {
+  makeEntitiesRecord,
+  makeKernelsRecord,
+  makeRemoteKernelRecord,
+  makeStateRecord
+} from "@nteract/types";
+import * as Immutable from "immutable";
+import { StateObservable } from "redux-observable";
+import { of, Subject } from "rxjs";
+import { toArray } from "rxjs/operators";
+
+import { fetchKernelHistoryEpic, kernelHistoryPages } from "../src/history";
+
+const kernelRef = "kernelRef";
+
+// Lines 1 to 5 of session 7
+const lines = ["a = 1", "b = 2", "c = 3", "d = 4", "e = 5"].map(
+  (source, index) => [7, index + 1, source]
+);
+
+/**
+ * A kernel which answers history requests the way IPython does.
+ */
+function makeKernel() {
+  const sent = new Subject<any>();
+  const received = new Subject<any>();
+  const requests: any[] = [];
+  sent.subscribe(request => {
+    requests.push(request.content);
+    const { hist_access_type, n, start, stop, pattern } = request.content;
+    let history = lines;
+    if (hist_access_type === "range") {
+      history = lines.filter(([, line]) => line >= start && line < stop);
+    } else {
+      if (hist_access_type === "search") {
+        const text = pattern.replace(/\*/g, "");
+        history = lines.filter(([, , source]) =>
+          (source as string).includes(text)
+        );
+      }
+      history = history.slice(-n);
+    }
+    received.next({
+      header: { msg_type: "history_reply" },
+      parent_header: { msg_id: request.header.msg_id },
+      content: { status: "ok", history }
+    });
+  });
+  return { channels: Subject.create(sent, received), requests };
+}
+
+function sources(pages: any[]) {
+  return pages.map(page => [
+    page.inputs.map((input: any) => input.source),
+    page.hasMore
+  ]);
+}
+
+describe("kernelHistoryPages", () => {
+  test("goes back through the tail a page at a time", async () => {
+    const { channels, requests } = makeKernel();
+    const pages = await kernelHistoryPages(
+      channels,
+      { mode: "tail" },
+      of(1, 2, 3),
+      2
+    )
+      .pipe(toArray())
+      .toPromise();
+
+    expect(sources(pages)).toEqual([
+      [["e = 5", "d = 4"], true],
+      [["c = 3", "b = 2"], true],
+      [["a = 1"], false]
+    ]);
+    expect(requests.map(request => request.n)).toEqual([2, 4, 6]);
+  });
+  test("waits for more to be asked for", async () => {
+    const { channels, requests } = makeKernel();
+    const more$ = new Subject();
+    const pages: any[] = [];
+    kernelHistoryPages(channels, { mode: "tail" }, more$, 2).subscribe(page =>
+      pages.push(page)
+    );
+    expect(pages).toHaveLength(1);
+    more$.next();
+    expect(pages).toHaveLength(2);
+    expect(requests).toHaveLength(2);
+  });
+  test("lists ranges in order", async () => {
+    const { channels, requests } = makeKernel();
+    const pages = await kernelHistoryPages(
+      channels,
+      { mode: "range", session: 0, start: 2, stop: 5 },
+      of(1, 2, 3),
+      2
+    )
+      .pipe(toArray())
+      .toPromise();
+
+    expect(sources(pages)).toEqual([
+      [["b = 2", "c = 3"], true],
+      [["d = 4"], false]
+    ]);
+    expect(requests.map(({ start, stop }) => [start, stop])).toEqual([
+      [2, 4],
+      [4, 5]
+    ]);
+  });
+  test("searches with the pattern", async () => {
+    const { channels, requests } = makeKernel();
+    const pages = await kernelHistoryPages(
+      channels,
+      { mode: "search", pattern: "*3*" },
+      of(1),
+      2
+    )
+      .pipe(toArray())
+      .toPromise();
+
+    expect(sources(pages)).toEqual([[["c = 3"], false]]);
+    expect(requests[0].pattern).toBe("*3*");
+  });
+});
+
+describe("fetchKernelHistoryEpic", () => {
+  function makeState(channels: any) {
+    return {
+      app: {},
+      core: makeStateRecord({
+        entities: makeEntitiesRecord({
+          kernels: makeKernelsRecord({
+            byRef: Immutable.Map({
+              [kernelRef]: makeRemoteKernelRecord({ channels })
+            })
+          })
+        })
+      })
+    };
+  }
+
+  test("lists the first page of the history", async () => {
+    const { channels } = makeKernel();
+    const responses = await fetchKernelHistoryEpic(
+      of(actions.fetchKernelHistory({ kernelRef, query: { mode: "search", pattern: "*a*" } })),
+      new StateObservable(new Subject(), makeState(channels) as any)
+    )
+      .pipe(toArray())
+      .toPromise();
+
+    expect(responses).toEqual([
+      actions.fetchKernelHistoryFulfilled({
+        kernelRef,
+        inputs: [{ session: 7, line: 1, source: "a = 1" }],
+        hasMore: false
+      })
+    ]);
+  });
+  test("fails without a running kernel", async () => {
+    const responses = await fetchKernelHistoryEpic(
+      of(actions.fetchKernelHistory({ kernelRef, query: { mode: "tail" } })),
+      new StateObservable(new Subject(), makeState(null) as any)
+    )
+      .pipe(toArray())
+      .toPromise();
+
+    expect(responses.map(action => action.type)).toEqual([
+      actions.FETCH_KERNEL_HISTORY_FAILED
+    ]);
+  });
+});
@@ -2,10 +2,21 @@ import { toArray } from "rxjs/operators";
 import Immutable from "immutable";
 
 import { emptyCodeCell, appendCellToNotebook } from "@nteract/commutable";
-import { actions, createContentRef, makeDocumentRecord } from "@nteract/core";
+import {
+  actions,
+  createContentRef,
+  makeCommsRecord,
+  makeDocumentRecord
+} from "@nteract/core";
 import { fixtureCommutable } from "@nteract/fixtures";
 
-import { ipywidgetsModel$ } from "../src/ipywidgets";
+import {
+  ipywidgetsModel$,
+  removeBuffers,
+  requestWidgetStatesEpic,
+  widgetMessagesEpic,
+  widgetStateMetadata
+} from "../src/ipywidgets";
 import { from, Subject } from "rxjs";
 
 const monocellDocument = makeDocumentRecord({
@@ -133,3 +144,146 @@ describe("ipywidgetsModel$", () => {
     done();
   });
 });
+
+describe("removeBuffers", () => {
+  test("takes binary values out of the state", () => {
+    const image = new Uint8Array([1, 2, 3]);
+    const frame = new ArrayBuffer(2);
+    const { state, bufferPaths, buffers } = removeBuffers({
+      value: image,
+      frames: [1, frame],
+      layout: { width: "20px" }
+    });
+
+    expect(state).toEqual({ frames: [1, null], layout: { width: "20px" } });
+    expect(bufferPaths).toEqual([["value"], ["frames", 1]]);
+    expect(buffers).toEqual([image, frame]);
+  });
+});
+
+describe("widgetStateMetadata", () => {
+  test("saves the state of the widget comms of the kernel", () => {
+    const comms = makeCommsRecord({
+      info: Immutable.fromJS({
+        slider: { target_name: "jupyter.widget", kernelRef: "kernel" },
+        other: { target_name: "other", kernelRef: "kernel" },
+        elsewhere: { target_name: "jupyter.widget", kernelRef: "another" }
+      }),
+      models: Immutable.fromJS({
+        slider: {
+          state: {
+            _model_name: "ImageModel",
+            _model_module: "@jupyter-widgets/controls",
+            _model_module_version: "1.5.0",
+            width: "20px"
+          }
+        },
+        other: { state: { a: 1 } },
+        elsewhere: { state: { _model_name: "IntSliderModel" } }
+      })
+    }).setIn(
+      ["models", "slider", "state", "value"],
+      new Uint8Array([1, 2, 3])
+    );
+
+    expect(widgetStateMetadata(comms, "kernel")).toEqual({
+      version_major: 2,
+      version_minor: 0,
+      state: {
+        slider: {
+          model_name: "ImageModel",
+          model_module: "@jupyter-widgets/controls",
+          model_module_version: "1.5.0",
+          state: {
+            _model_name: "ImageModel",
+            _model_module: "@jupyter-widgets/controls",
+            _model_module_version: "1.5.0",
+            width: "20px"
+          },
+          buffers: [{ path: ["value"], encoding: "base64", data: "AQID" }]
+        }
+      }
+    });
+  });
+  test("returns null without widgets", () => {
+    expect(widgetStateMetadata(makeCommsRecord(), "kernel")).toBeNull();
+  });
+});
+
+describe("widgetMessagesEpic", () => {
+  test("sends updates, state requests and custom messages", async () => {
+    const buffer = new Uint8Array([1]);
+    const action$ = from([
+      actions.updateWidgetState({
+        kernelRef: "kernel",
+        commId: "image",
+        state: { value: buffer, width: "20px" }
+      }),
+      actions.requestWidgetState({ kernelRef: "kernel", commId: "image" }),
+      actions.sendWidgetCustomMessage({
+        kernelRef: "kernel",
+        commId: "image",
+        content: { event: "click" }
+      })
+    ]);
+
+    const responses = await widgetMessagesEpic(action$)
+      .pipe(toArray())
+      .toPromise();
+    expect(responses).toEqual([
+      actions.sendCommMessage({
+        kernelRef: "kernel",
+        commId: "image",
+        data: {
+          method: "update",
+          state: { width: "20px" },
+          buffer_paths: [["value"]]
+        },
+        buffers: [buffer]
+      }),
+      actions.sendCommMessage({
+        kernelRef: "kernel",
+        commId: "image",
+        data: { method: "request_state" }
+      }),
+      actions.sendCommMessage({
+        kernelRef: "kernel",
+        commId: "image",
+        data: { method: "custom", content: { event: "click" } },
+        buffers: undefined
+      })
+    ]);
+  });
+});
+
+describe("requestWidgetStatesEpic", () => {
+  test("requests the state of widgets the kernel already has", async () => {
+    const action$ = from([
+      actions.launchKernelSuccessful({
+        kernelRef: "kernel",
+        contentRef: "content",
+        kernel: {},
+        selectNextKernel: true
+      }),
+      actions.fetchCommInfoFulfilled({
+        kernelRef: "kernel",
+        targetName: "jupyter.widget",
+        comms: {
+          slider: { target_name: "jupyter.widget" },
+          other: { target_name: "other" }
+        }
+      })
+    ]);
+
+    const responses = await requestWidgetStatesEpic(action$)
+      .pipe(toArray())
+      .toPromise();
+    expect(responses).toEqual([
+      actions.fetchCommInfo({
+        kernelRef: "kernel",
+        targetName: "jupyter.widget"
+      }),
+      actions.requestWidgetState({ kernelRef: "kernel", commId: "slider" })
+    ]);
+  });
+});
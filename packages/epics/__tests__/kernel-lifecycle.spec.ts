@@ -188,7 +188,8 @@ describe("acquireKernelInfo", () => {
             fileExtension: ".py",
             pygmentsLexer: "ipython3",
             codemirrorMode: { name: "ipython", version: 3 },
-            nbconvertExporter: "python"
+            nbconvertExporter: "python",
+            debugger: false
           },
           kernelRef: "fakeKernelRef"
         }
@@ -374,7 +375,8 @@ describe("acquireKernelInfo", () => {
             fileExtension: ".py",
             pygmentsLexer: "ipython3",
             codemirrorMode: { name: "ipython", version: 3 },
-            nbconvertExporter: "python"
+            nbconvertExporter: "python",
+            debugger: false
           },
           kernelRef: "fakeKernelRef"
         }
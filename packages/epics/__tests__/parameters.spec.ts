@@ -0,0 +1,109 @@
+import * as actions from "@nteract/actions";
+import {
+  appendCellToNotebook,
+  emptyCodeCell,
+  emptyNotebook,
+  ImmutableNotebook
+} from "@nteract/commutable";
+import {
+  ContentRecord,
+  createContentRef,
+  makeAppRecord,
+  makeContentsRecord,
+  makeDocumentRecord,
+  makeEntitiesRecord,
+  makeNotebookContentRecord,
+  makeStateRecord
+} from "@nteract/types";
+import * as Immutable from "immutable";
+import { StateObservable } from "redux-observable";
+import { of, Subject } from "rxjs";
+import { toArray } from "rxjs/operators";
+
+import { runWithParametersEpic } from "../src/parameters";
+
+const contentRef = createContentRef();
+const notebook = appendCellToNotebook(emptyNotebook, emptyCodeCell);
+const cellId = notebook.cellOrder.last() as string;
+
+function makeState(nb: ImmutableNotebook = notebook) {
+  return new StateObservable(new Subject(), {
+    app: makeAppRecord(),
+    core: makeStateRecord({
+      entities: makeEntitiesRecord({
+        contents: makeContentsRecord({
+          byRef: Immutable.Map<string, ContentRecord>().set(
+            contentRef,
+            makeNotebookContentRecord({
+              filepath: "report.ipynb",
+              model: makeDocumentRecord({ notebook: nb })
+            })
+          )
+        })
+      })
+    })
+  } as any);
+}
+
+const parameters = { alpha: 0.5 };
+const filepath = "report-output.ipynb";
+
+function run(state$ = makeState()) {
+  const action$ = new Subject<any>();
+  const responses: any[] = [];
+  runWithParametersEpic(action$, state$).subscribe(action =>
+    responses.push(action)
+  );
+  action$.next(actions.runWithParameters({ contentRef, parameters, filepath }));
+  return { action$, responses };
+}
+
+describe("runWithParametersEpic", () => {
+  it("injects the parameters, runs every cell and saves a copy", () => {
+    const { action$, responses } = run();
+    expect(responses).toEqual([
+      actions.injectParameters({ contentRef, parameters }),
+      actions.executeAllCells({ contentRef })
+    ]);
+
+    action$.next(
+      actions.updateCellStatus({ contentRef, id: cellId, status: "busy" })
+    );
+    action$.next(
+      actions.updateCellStatus({ contentRef, id: cellId, status: "idle" })
+    );
+    expect(responses[2]).toEqual(actions.saveAs({ contentRef, filepath }));
+
+    action$.next(actions.saveAsFulfilled({ contentRef, model: {} }));
+    expect(responses.slice(3)).toEqual([
+      actions.runWithParametersFulfilled({ contentRef, filepath })
+    ]);
+  });
+  it("saves the copy and fails when a cell raises an error", () => {
+    const { action$, responses } = run();
+
+    action$.next(actions.executeCanceled({ contentRef, id: "all" }));
+    expect(responses[2]).toEqual(actions.saveAs({ contentRef, filepath }));
+
+    action$.next(actions.saveAsFulfilled({ contentRef, model: {} }));
+    expect(responses).toHaveLength(4);
+    expect(responses[3].type).toBe(actions.RUN_WITH_PARAMETERS_FAILED);
+  });
+  it("fails when parameters can't be written in the notebook's language", async () => {
+    const responses: any[] = await runWithParametersEpic(
+      of(actions.runWithParameters({ contentRef, parameters, filepath })),
+      makeState(
+        notebook.setIn(
+          ["metadata", "kernelspec"],
+          Immutable.Map({ language: "cobol" })
+        )
+      )
+    )
+      .pipe(toArray())
+      .toPromise();
+
+    expect(responses).toHaveLength(1);
+    expect(responses[0].type).toBe(actions.RUN_WITH_PARAMETERS_FAILED);
+    expect(responses[0].payload.error.message).toMatch(/cobol/);
+  });
+});
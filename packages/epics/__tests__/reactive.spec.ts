@@ -0,0 +1,186 @@
+import * as actions from "@nteract/actions";
+import {
+  emptyCodeCell,
+  emptyMarkdownCell,
+  emptyNotebook,
+  ImmutableCell,
+  insertCellAt
+} from "@nteract/commutable";
+import {
+  ContentRecord,
+  createContentRef,
+  createKernelRef,
+  DocumentRecordProps,
+  makeAppRecord,
+  makeContentsRecord,
+  makeDocumentRecord,
+  makeEntitiesRecord,
+  makeExecutionQueueRecord,
+  makeKernelExecutionQueueRecord,
+  makeNotebookContentRecord,
+  makeStateRecord
+} from "@nteract/types";
+import * as Immutable from "immutable";
+import { StateObservable } from "redux-observable";
+import { of, Subject } from "rxjs";
+import { toArray } from "rxjs/operators";
+
+import {
+  analyzeCellDependenciesEpic,
+  executeDownstreamCellsEpic,
+  executeStaleCellsEpic
+} from "../src/reactive";
+
+const contentRef = createContentRef();
+const kernelRef = createKernelRef();
+
+const code = (source: string) => emptyCodeCell.set("source", source);
+const notebook = ([
+  ["load", code("df = read_csv(path)")],
+  ["note", emptyMarkdownCell.set("source", "df = 1")],
+  ["clean", code("rows = df.dropna()")],
+  ["plot", code("plot(rows)")],
+  ["other", code("print(1)")]
+] as Array<[string, ImmutableCell]>).reduce(
+  (nb, [id, cell]) => insertCellAt(nb, cell, id, nb.cellOrder.size),
+  emptyNotebook
+);
+
+function makeState(
+  model: Partial<DocumentRecordProps> = {},
+  queued: string[] = [],
+  running: string | null = null
+) {
+  return new StateObservable(new Subject(), {
+    app: makeAppRecord(),
+    core: makeStateRecord({
+      entities: makeEntitiesRecord({
+        contents: makeContentsRecord({
+          byRef: Immutable.Map<string, ContentRecord>().set(
+            contentRef,
+            makeNotebookContentRecord({
+              model: makeDocumentRecord({
+                notebook,
+                kernelRef,
+                reactive: true,
+                ...model
+              })
+            })
+          )
+        }),
+        executionQueue: makeExecutionQueueRecord({
+          byKernelRef: Immutable.Map({
+            [kernelRef]: makeKernelExecutionQueueRecord({
+              running: running ? { contentRef, id: running } : null,
+              queued: Immutable.List(queued.map(id => ({ contentRef, id })))
+            })
+          })
+        })
+      })
+    })
+  } as any);
+}
+
+const dependencies = Immutable.Map({
+  load: { defines: ["df"], uses: ["read_csv", "path"] },
+  clean: { defines: ["rows"], uses: ["df"] },
+  plot: { defines: [], uses: ["plot", "rows"] },
+  other: { defines: [], uses: ["print"] }
+});
+
+describe("analyzeCellDependenciesEpic", () => {
+  it("analyzes every code cell when the mode is turned on", async () => {
+    const responses = await analyzeCellDependenciesEpic(
+      of(actions.setReactiveMode({ contentRef, reactive: true })),
+      makeState()
+    )
+      .pipe(toArray())
+      .toPromise();
+
+    expect(responses).toHaveLength(1);
+    expect(Object.keys(responses[0].payload.dependencies)).toEqual([
+      "load",
+      "clean",
+      "plot",
+      "other"
+    ]);
+    expect(responses[0].payload.dependencies.clean).toEqual({
+      defines: ["rows"],
+      uses: ["df"]
+    });
+  });
+  it("analyzes the cell sent to the kernel in reactive mode", async () => {
+    const send = actions.sendExecuteRequest({ contentRef, id: "plot" });
+    const reactive = await analyzeCellDependenciesEpic(of(send), makeState())
+      .pipe(toArray())
+      .toPromise();
+    expect(reactive).toEqual([
+      actions.updateCellDependencies({
+        contentRef,
+        dependencies: { plot: { defines: [], uses: ["plot", "rows"] } }
+      })
+    ]);
+
+    const off = await analyzeCellDependenciesEpic(
+      of(send),
+      makeState({ reactive: false })
+    )
+      .pipe(toArray())
+      .toPromise();
+    expect(off).toEqual([]);
+  });
+});
+
+describe("executeDownstreamCellsEpic", () => {
+  it("marks dependent cells stale and runs the unqueued ones", async () => {
+    const responses = await executeDownstreamCellsEpic(
+      of(actions.executeSuccessful({ contentRef, id: "load" })),
+      makeState({ dependencies }, ["plot"])
+    )
+      .pipe(toArray())
+      .toPromise();
+
+    expect(responses).toEqual([
+      actions.markCellsStale({ contentRef, ids: ["clean", "plot"] }),
+      actions.executeCell({ contentRef, id: "clean" })
+    ]);
+  });
+  it("doesn't run the cell the kernel is running again", async () => {
+    const responses = await executeDownstreamCellsEpic(
+      of(actions.executeSuccessful({ contentRef, id: "load" })),
+      makeState({ dependencies }, [], "clean")
+    )
+      .pipe(toArray())
+      .toPromise();
+
+    expect(responses).toEqual([
+      actions.markCellsStale({ contentRef, ids: ["clean", "plot"] }),
+      actions.executeCell({ contentRef, id: "plot" })
+    ]);
+  });
+  it("does nothing for cells nothing depends on", async () => {
+    const responses = await executeDownstreamCellsEpic(
+      of(actions.executeSuccessful({ contentRef, id: "other" })),
+      makeState({ dependencies })
+    )
+      .pipe(toArray())
+      .toPromise();
+
+    expect(responses).toEqual([]);
+  });
+});
+
+describe("executeStaleCellsEpic", () => {
+  it("runs the stale cells in notebook order", async () => {
+    const responses = await executeStaleCellsEpic(
+      of(actions.executeStaleCells({ contentRef })),
+      makeState({ staleCells: Immutable.Set(["plot", "clean"]) })
+    )
+      .pipe(toArray())
+      .toPromise();
+
+    expect(responses).toEqual([
+      actions.executeCells({ contentRef, ids: ["clean", "plot"] })
+    ]);
+  });
+});
@@ -0,0 +1,168 @@
+import * as actions from "@nteract/actions";
+import {
+  appendCellToNotebook,
+  emptyCodeCell,
+  emptyNotebook,
+  toJS
+} from "@nteract/commutable";
+import {
+  ContentRecord,
+  createContentRef,
+  makeAppRecord,
+  makeContentsRecord,
+  makeDocumentRecord,
+  makeEntitiesRecord,
+  makeNotebookContentRecord,
+  makeStateRecord
+} from "@nteract/types";
+import * as Immutable from "immutable";
+import { StateObservable } from "redux-observable";
+import { of, Subject } from "rxjs";
+import { toArray } from "rxjs/operators";
+
+import {
+  discardJournalEpic,
+  journalUnsavedNotebooksEpic,
+  offerRecoveryEpic
+} from "../src/recovery";
+
+jest.useFakeTimers();
+
+const contentRef = createContentRef();
+const edited = appendCellToNotebook(emptyNotebook, emptyCodeCell);
+
+function makeState(notebook = edited) {
+  return {
+    app: makeAppRecord({ version: "test" }),
+    core: makeStateRecord({
+      entities: makeEntitiesRecord({
+        contents: makeContentsRecord({
+          byRef: Immutable.Map<string, ContentRecord>().set(
+            contentRef,
+            makeNotebookContentRecord({
+              filepath: "test.ipynb",
+              model: makeDocumentRecord({
+                notebook,
+                savedNotebook: emptyNotebook
+              })
+            })
+          )
+        })
+      })
+    })
+  };
+}
+
+const entry = {
+  filepath: "test.ipynb",
+  journaledAt: "2020-01-02T00:00:00.000Z",
+  notebook: toJS(edited)
+};
+
+function makeRecoveryJournal() {
+  return {
+    write: jest.fn(() => of(undefined)),
+    read: jest.fn(() => of(entry)),
+    discard: jest.fn(() => of(undefined))
+  };
+}
+
+describe("journalUnsavedNotebooksEpic", () => {
+  it("does nothing without a recovery journal", async () => {
+    const responses = await journalUnsavedNotebooksEpic(
+      of(),
+      new StateObservable(new Subject(), makeState() as any),
+      {}
+    )
+      .pipe(toArray())
+      .toPromise();
+    expect(responses).toEqual([]);
+  });
+  it("snapshots unsaved notebooks once per change", () => {
+    const recoveryJournal = makeRecoveryJournal();
+    const subscription = journalUnsavedNotebooksEpic(
+      of(),
+      new StateObservable(new Subject(), makeState() as any),
+      { recoveryJournal }
+    ).subscribe();
+
+    jest.advanceTimersByTime(30_000);
+    subscription.unsubscribe();
+
+    expect(recoveryJournal.write).toHaveBeenCalledTimes(1);
+    expect(recoveryJournal.write.mock.calls[0][0]).toEqual({
+      filepath: "test.ipynb",
+      journaledAt: expect.any(String),
+      notebook: toJS(edited)
+    });
+  });
+  it("leaves saved notebooks alone", () => {
+    const recoveryJournal = makeRecoveryJournal();
+    const subscription = journalUnsavedNotebooksEpic(
+      of(),
+      new StateObservable(new Subject(), makeState(emptyNotebook) as any),
+      { recoveryJournal }
+    ).subscribe();
+
+    jest.advanceTimersByTime(30_000);
+    subscription.unsubscribe();
+
+    expect(recoveryJournal.write).not.toHaveBeenCalled();
+  });
+});
+
+describe("discardJournalEpic", () => {
+  it("discards the snapshot once the notebook is saved", async () => {
+    const recoveryJournal = makeRecoveryJournal();
+    const responses = await discardJournalEpic(
+      of(actions.saveFulfilled({ contentRef, model: {} })),
+      new StateObservable(new Subject(), makeState() as any),
+      { recoveryJournal }
+    )
+      .pipe(toArray())
+      .toPromise();
+    expect(recoveryJournal.discard).toHaveBeenCalledWith("test.ipynb");
+    expect(responses).toEqual([]);
+  });
+});
+
+describe("offerRecoveryEpic", () => {
+  const fetched = (lastModified: string) =>
+    actions.fetchContentFulfilled({
+      contentRef,
+      kernelRef: "kernelRef",
+      filepath: "test.ipynb",
+      model: {
+        type: "notebook",
+        last_modified: lastModified,
+        content: toJS(emptyNotebook)
+      }
+    });
+
+  it("offers snapshots newer than the file", async () => {
+    const recoveryJournal = makeRecoveryJournal();
+    const responses = await offerRecoveryEpic(
+      of(fetched("2020-01-01T00:00:00.000Z")),
+      new StateObservable(new Subject(), makeState() as any),
+      { recoveryJournal }
+    )
+      .pipe(toArray())
+      .toPromise();
+    expect(recoveryJournal.read).toHaveBeenCalledWith("test.ipynb");
+    expect(responses).toEqual([
+      actions.recoveryAvailable({ contentRef, entry })
+    ]);
+  });
+  it("drops snapshots older than the file", async () => {
+    const recoveryJournal = makeRecoveryJournal();
+    const responses = await offerRecoveryEpic(
+      of(fetched("2020-01-03T00:00:00.000Z")),
+      new StateObservable(new Subject(), makeState() as any),
+      { recoveryJournal }
+    )
+      .pipe(toArray())
+      .toPromise();
+    expect(recoveryJournal.discard).toHaveBeenCalledWith("test.ipynb");
+    expect(responses).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+import * as actions from "@nteract/actions";
+import {
+  createContentRef,
+  makeAppRecord,
+  makeJupyterHostRecord,
+  makeLocalHostRecord,
+  makeStateRecord
+} from "@nteract/types";
+import { StateObservable } from "redux-observable";
+import { of, Subject } from "rxjs";
+import { toArray } from "rxjs/operators";
+
+import { terminals } from "rx-jupyter";
+import {
+  fetchTerminalsEpic,
+  killTerminalEpic,
+  openTerminalEpic
+} from "../src/terminals";
+
+jest.mock("rx-jupyter", () => ({
+  terminals: {
+    create: jest.fn(() => of({ status: 200, response: { name: "2" } })),
+    list: jest.fn(() =>
+      of({ status: 200, response: [{ name: "1" }, { name: "2" }] })
+    ),
+    destroy: jest.fn(() => of({ status: 204, response: null })),
+    connect: jest.fn()
+  }
+}));
+
+const contentRef = createContentRef();
+
+function makeState(host = makeJupyterHostRecord({ token: "secret" })) {
+  return new StateObservable(new Subject(), {
+    app: makeAppRecord({ host }),
+    core: makeStateRecord()
+  } as any);
+}
+
+describe("openTerminalEpic", () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it("creates a session and disconnects when its websocket closes", () => {
+    const channel = new Subject();
+    (terminals.connect as jest.Mock).mockReturnValue(channel);
+
+    const action$ = new Subject<any>();
+    const responses: any[] = [];
+    openTerminalEpic(action$, makeState()).subscribe(action =>
+      responses.push(action)
+    );
+    action$.next(actions.openTerminal({ contentRef }));
+    channel.complete();
+
+    expect((terminals.connect as jest.Mock).mock.calls[0][1]).toBe("2");
+    expect(responses).toEqual([
+      actions.terminalConnected({ contentRef, name: "2", channel }),
+      actions.terminalDisconnected({ contentRef })
+    ]);
+  });
+  it("connects to a running session until its content is disposed", () => {
+    const channel = new Subject();
+    (terminals.connect as jest.Mock).mockReturnValue(channel);
+
+    const action$ = new Subject<any>();
+    const responses: any[] = [];
+    openTerminalEpic(action$, makeState()).subscribe(action =>
+      responses.push(action)
+    );
+    action$.next(actions.openTerminal({ contentRef, name: "1" }));
+    action$.next(actions.disposeContent({ contentRef }));
+    channel.error(new Error("closed too late"));
+
+    expect(terminals.create).not.toHaveBeenCalled();
+    expect(responses).toEqual([
+      actions.terminalConnected({ contentRef, name: "1", channel })
+    ]);
+  });
+  it("fails without a Jupyter server", async () => {
+    const responses = await openTerminalEpic(
+      of(actions.openTerminal({ contentRef })),
+      makeState(makeLocalHostRecord())
+    )
+      .pipe(toArray())
+      .toPromise();
+
+    expect(responses[0].type).toBe(actions.OPEN_TERMINAL_FAILED);
+    expect(responses[0].error).toBe(true);
+  });
+});
+
+describe("fetchTerminalsEpic", () => {
+  it("lists the names of running sessions", async () => {
+    const responses = await fetchTerminalsEpic(
+      of(actions.fetchTerminals()),
+      makeState()
+    )
+      .pipe(toArray())
+      .toPromise();
+
+    expect(responses).toEqual([
+      actions.fetchTerminalsFulfilled({ names: ["1", "2"] })
+    ]);
+  });
+});
+
+describe("killTerminalEpic", () => {
+  it("shuts down the session", async () => {
+    const responses = await killTerminalEpic(
+      of(actions.killTerminal({ name: "1" })),
+      makeState()
+    )
+      .pipe(toArray())
+      .toPromise();
+
+    expect((terminals.destroy as jest.Mock).mock.calls[0][1]).toBe("1");
+    expect(responses).toEqual([actions.killTerminalFulfilled({ name: "1" })]);
+  });
+});
@@ -0,0 +1,196 @@
+import * as actions from "@nteract/actions";
+import {
+  makeEntitiesRecord,
+  makeKernelsRecord,
+  makeKernelVariablesRecord,
+  makeRemoteKernelRecord,
+  makeStateRecord,
+  makeVariablesRecord
+} from "@nteract/types";
+import * as Immutable from "immutable";
+import { StateObservable } from "redux-observable";
+import { of, Subject } from "rxjs";
+import { toArray } from "rxjs/operators";
+
+import {
+  fetchKernelVariablesEpic,
+  inspectKernelVariableEpic,
+  refreshKernelVariablesEpic
+} from "../src/variables";
+
+const contentRef = "contentRef";
+const kernelRef = "kernelRef";
+
+/**
+ * A kernel which answers every execute request with an execute_reply,
+ * followed by the given messages before it goes back to idle.
+ */
+function makeKernel(
+  outputs: Array<{ msg_type: string; content: any }>,
+  status = "ok"
+) {
+  const sent = new Subject<any>();
+  const received = new Subject<any>();
+  const requests: any[] = [];
+  sent.subscribe(request => {
+    requests.push(request);
+    const parent_header = { msg_id: request.header.msg_id };
+    received.next({
+      header: { msg_type: "execute_reply" },
+      parent_header,
+      content: { status, ename: "NameError", evalue: "name 'x' is not defined" }
+    });
+    outputs.forEach(({ msg_type, content }) =>
+      received.next({ header: { msg_type }, parent_header, content })
+    );
+    received.next({
+      header: { msg_type: "status" },
+      parent_header,
+      content: { execution_state: "idle" }
+    });
+  });
+  return { channels: Subject.create(sent, received), requests };
+}
+
+function makeState(channels: any, languageName = "python", watched = true) {
+  return {
+    app: {},
+    core: makeStateRecord({
+      kernelRef,
+      entities: makeEntitiesRecord({
+        contents: {
+          byRef: Immutable.Map({
+            [contentRef]: { model: { type: "notebook", kernelRef } }
+          })
+        } as any,
+        kernels: makeKernelsRecord({
+          byRef: Immutable.Map({
+            [kernelRef]: makeRemoteKernelRecord({
+              channels,
+              info: { languageName } as any
+            })
+          })
+        }),
+        variables: makeVariablesRecord({
+          byKernelRef: watched
+            ? Immutable.Map({ [kernelRef]: makeKernelVariablesRecord() })
+            : Immutable.Map()
+        })
+      })
+    })
+  };
+}
+
+async function run(epic: any, action: any, state: any) {
+  return epic(of(action), new StateObservable(new Subject(), state))
+    .pipe(toArray())
+    .toPromise();
+}
+
+const x = { name: "x", type: "int", shape: null, repr: "1" };
+
+describe("fetchKernelVariablesEpic", () => {
+  it("lists the variables without storing the execution", async () => {
+    const kernel = makeKernel([
+      {
+        msg_type: "stream",
+        content: { name: "stdout", text: JSON.stringify([x]).slice(0, 10) }
+      },
+      {
+        msg_type: "stream",
+        content: { name: "stdout", text: JSON.stringify([x]).slice(10) }
+      }
+    ]);
+    const responses = await run(
+      fetchKernelVariablesEpic,
+      actions.fetchKernelVariables({ kernelRef }),
+      makeState(kernel.channels)
+    );
+    expect(kernel.requests[0].content.silent).toBe(false);
+    expect(kernel.requests[0].content.store_history).toBe(false);
+    expect(responses).toEqual([
+      actions.fetchKernelVariablesFulfilled({ kernelRef, variables: [x] })
+    ]);
+  });
+  it("fails for kernels of other languages", async () => {
+    const kernel = makeKernel([]);
+    const responses = await run(
+      fetchKernelVariablesEpic,
+      actions.fetchKernelVariables({ kernelRef }),
+      makeState(kernel.channels, "julia")
+    );
+    expect(kernel.requests).toEqual([]);
+    expect(responses).toEqual([
+      actions.fetchKernelVariablesFailed({
+        kernelRef,
+        error: new Error("Variables can only be listed for Python kernels.")
+      })
+    ]);
+  });
+});
+
+describe("inspectKernelVariableEpic", () => {
+  it("renders the variable as an output", async () => {
+    const kernel = makeKernel([
+      {
+        msg_type: "display_data",
+        content: { data: { "text/plain": "1" }, metadata: {} }
+      }
+    ]);
+    const responses = await run(
+      inspectKernelVariableEpic,
+      actions.inspectKernelVariable({ kernelRef, name: "x" }),
+      makeState(kernel.channels)
+    );
+    expect(responses).toEqual([
+      actions.inspectKernelVariableFulfilled({
+        kernelRef,
+        name: "x",
+        output: { data: { "text/plain": "1" }, metadata: {} }
+      })
+    ]);
+  });
+  it("fails when the kernel raises an error", async () => {
+    const kernel = makeKernel([], "error");
+    const responses = await run(
+      inspectKernelVariableEpic,
+      actions.inspectKernelVariable({ kernelRef, name: "x" }),
+      makeState(kernel.channels)
+    );
+    expect(responses).toEqual([
+      actions.inspectKernelVariableFailed({
+        kernelRef,
+        name: "x",
+        error: new Error("NameError: name 'x' is not defined")
+      })
+    ]);
+  });
+  it("only inspects plain names", async () => {
+    const kernel = makeKernel([]);
+    await run(
+      inspectKernelVariableEpic,
+      actions.inspectKernelVariable({ kernelRef, name: "x); exit(" }),
+      makeState(kernel.channels)
+    );
+    expect(kernel.requests).toEqual([]);
+  });
+});
+
+describe("refreshKernelVariablesEpic", () => {
+  it("lists the variables again once after cells ran", async () => {
+    const responses = await run(
+      refreshKernelVariablesEpic,
+      actions.executeSuccessful({ id: "cell", contentRef }),
+      makeState(null)
+    );
+    expect(responses).toEqual([actions.fetchKernelVariables({ kernelRef })]);
+  });
+  it("leaves kernels whose variables aren't looked at alone", async () => {
+    const responses = await run(
+      refreshKernelVariablesEpic,
+      actions.executeSuccessful({ id: "cell", contentRef }),
+      makeState(null, "python", false)
+    );
+    expect(responses).toEqual([]);
+  });
+});
@@ -0,0 +1,167 @@
+import * as actions from "@nteract/actions";
+import * as selectors from "@nteract/selectors";
+import { AppState, ContentRef, IContentProvider, JupyterHostRecord, ServerConfig } from "@nteract/types";
+import { ofType, StateObservable } from "redux-observable";
+import { Observable, of, throwError } from "rxjs";
+import { AjaxResponse } from "rxjs/ajax";
+import { catchError, map, mergeMap, switchMap, tap } from "rxjs/operators";
+
+/**
+ * The server and path of the content the checkpoints belong to.
+ */
+function checkpointTarget(
+  state: AppState,
+  contentRef: ContentRef
+): { serverConfig: ServerConfig; filepath: string } {
+  const filepath = selectors.filepath(state, { contentRef });
+  if (!filepath) {
+    throw new Error("Content has not been saved yet.");
+  }
+  const host = selectors.currentHost(state) as JupyterHostRecord;
+  return { serverConfig: selectors.serverConfig(host), filepath };
+}
+
+function throwOnErrorStatus(xhr: AjaxResponse): void {
+  if (xhr.status >= 400) {
+    throw new Error(
+      typeof xhr.response === "string"
+        ? xhr.response
+        : JSON.stringify(xhr.response)
+    );
+  }
+}
+
+export function fetchCheckpointsEpic(
+  action$: Observable<actions.FetchCheckpoints>,
+  state$: StateObservable<AppState>,
+  dependencies: { contentProvider: IContentProvider }
+): Observable<actions.FetchCheckpointsFulfilled | actions.FetchCheckpointsFailed> {
+  return action$.pipe(
+    ofType(actions.FETCH_CHECKPOINTS),
+    switchMap((action: actions.FetchCheckpoints) => {
+      const { contentRef } = action.payload;
+      return of(null).pipe(
+        map(() => checkpointTarget(state$.value, contentRef)),
+        mergeMap(({ serverConfig, filepath }) =>
+          dependencies.contentProvider.listCheckpoints(serverConfig, filepath)
+        ),
+        tap(throwOnErrorStatus),
+        map((xhr: AjaxResponse) =>
+          actions.fetchCheckpointsFulfilled({
+            contentRef,
+            checkpoints: xhr.response
+          })
+        ),
+        catchError((error: Error) =>
+          of(actions.fetchCheckpointsFailed({ contentRef, error }))
+        )
+      );
+    })
+  );
+}
+
+export function createCheckpointEpic(
+  action$: Observable<actions.CreateCheckpoint>,
+  state$: StateObservable<AppState>,
+  dependencies: { contentProvider: IContentProvider }
+): Observable<actions.CreateCheckpointFulfilled | actions.CreateCheckpointFailed> {
+  return action$.pipe(
+    ofType(actions.CREATE_CHECKPOINT),
+    mergeMap((action: actions.CreateCheckpoint) => {
+      const { contentRef } = action.payload;
+      return of(null).pipe(
+        map(() => checkpointTarget(state$.value, contentRef)),
+        mergeMap(({ serverConfig, filepath }) =>
+          dependencies.contentProvider.createCheckpoint(serverConfig, filepath)
+        ),
+        tap(throwOnErrorStatus),
+        map((xhr: AjaxResponse) =>
+          actions.createCheckpointFulfilled({
+            contentRef,
+            checkpoint: xhr.response
+          })
+        ),
+        catchError((error: Error) =>
+          of(actions.createCheckpointFailed({ contentRef, error }))
+        )
+      );
+    })
+  );
+}
+
+export function deleteCheckpointEpic(
+  action$: Observable<actions.DeleteCheckpoint>,
+  state$: StateObservable<AppState>,
+  dependencies: { contentProvider: IContentProvider }
+): Observable<actions.DeleteCheckpointFulfilled | actions.DeleteCheckpointFailed> {
+  return action$.pipe(
+    ofType(actions.DELETE_CHECKPOINT),
+    mergeMap((action: actions.DeleteCheckpoint) => {
+      const { contentRef, checkpointId } = action.payload;
+      return of(null).pipe(
+        map(() => checkpointTarget(state$.value, contentRef)),
+        mergeMap(({ serverConfig, filepath }) =>
+          dependencies.contentProvider.deleteCheckpoint(
+            serverConfig,
+            filepath,
+            checkpointId
+          )
+        ),
+        tap(throwOnErrorStatus),
+        map(() =>
+          actions.deleteCheckpointFulfilled({ contentRef, checkpointId })
+        ),
+        catchError((error: Error) =>
+          of(actions.deleteCheckpointFailed({ contentRef, checkpointId, error }))
+        )
+      );
+    })
+  );
+}
+
+/**
+ * Restores the file from a checkpoint, then loads the restored version into
+ * the open notebook. The kernel keeps running.
+ */
+export function restoreCheckpointEpic(
+  action$: Observable<actions.RestoreCheckpoint>,
+  state$: StateObservable<AppState>,
+  dependencies: { contentProvider: IContentProvider }
+): Observable<actions.RestoreCheckpointFulfilled | actions.RestoreCheckpointFailed> {
+  return action$.pipe(
+    ofType(actions.RESTORE_CHECKPOINT),
+    mergeMap((action: actions.RestoreCheckpoint) => {
+      const { contentRef, checkpointId } = action.payload;
+      return of(null).pipe(
+        map(() => checkpointTarget(state$.value, contentRef)),
+        mergeMap(({ serverConfig, filepath }) =>
+          dependencies.contentProvider
+            .restoreFromCheckpoint(serverConfig, filepath, checkpointId)
+            .pipe(
+              tap(throwOnErrorStatus),
+              mergeMap(() =>
+                dependencies.contentProvider.get(serverConfig, filepath, {
+                  content: 1
+                })
+              )
+            )
+        ),
+        tap(throwOnErrorStatus),
+        mergeMap((xhr: AjaxResponse) =>
+          typeof xhr.response === "string"
+            ? throwError(new Error(`Invalid API response: ${xhr.response}`))
+            : of(
+                actions.restoreCheckpointFulfilled({
+                  contentRef,
+                  checkpointId,
+                  model: xhr.response
+                })
+              )
+        ),
+        catchError((error: Error) =>
+          of(actions.restoreCheckpointFailed({ contentRef, checkpointId, error }))
+        )
+      );
+    })
+  );
+}
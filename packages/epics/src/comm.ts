@@ -1,10 +1,30 @@
-import { ofMessageType } from "@nteract/messaging";
+import {
+  Channels,
+  childOf,
+  commInfoRequest,
+  CommInfoReplyContent,
+  createCommCloseMessage,
+  createCommMessage,
+  createCommOpenMessage,
+  JupyterMessage,
+  ofMessageType
+} from "@nteract/messaging";
 import { ofType, StateObservable } from "redux-observable";
 
-import { merge, Observable, of } from "rxjs";
-import { map, switchMap, takeUntil, filter, catchError } from "rxjs/operators";
+import { EMPTY, merge, Observable, Observer, of } from "rxjs";
+import {
+  catchError,
+  filter,
+  first,
+  map,
+  mergeMap,
+  switchMap,
+  takeUntil
+} from "rxjs/operators";
 
+import * as actions from "@nteract/actions";
 import {
+  commCloseAction,
   commMessageAction,
   commOpenAction,
   KILL_KERNEL_SUCCESSFUL,
@@ -14,7 +34,7 @@ import {
   executeFailed
 } from "@nteract/actions";
 import * as selectors from "@nteract/selectors";
-import { AppState, errors } from "@nteract/types";
+import { AppState, errors, KernelRef } from "@nteract/types";
 
 import { ipywidgetsModel$ } from "./ipywidgets";
 
@@ -33,7 +53,7 @@ export const commListenEpic = (
     ofType(LAUNCH_KERNEL_SUCCESSFUL),
     switchMap((action: NewKernelAction | KillKernelSuccessful) => {
       const {
-        payload: { kernel, contentRef }
+        payload: { kernel, contentRef, kernelRef: launchedKernelRef }
       } = action as NewKernelAction;
 
       /**
@@ -49,7 +69,7 @@ export const commListenEpic = (
       // Listen on the comms channel until KILL_KERNEL_SUCCESSFUL is emitted
       const commOpenAction$ = kernel.channels.pipe(
         ofMessageType("comm_open"),
-        map(commOpenAction),
+        map((msg: JupyterMessage) => commOpenAction(msg, launchedKernelRef)),
         takeUntil(
           action$.pipe(
             ofType(KILL_KERNEL_SUCCESSFUL),
@@ -97,10 +117,171 @@ export const commListenEpic = (
         })
       );
 
+      const commCloseAction$ = kernel.channels.pipe(
+        ofMessageType("comm_close"),
+        map(commCloseAction),
+        takeUntil(
+          action$.pipe(
+            ofType(KILL_KERNEL_SUCCESSFUL),
+            filter(
+              (action: KillKernelSuccessful | NewKernelAction) =>
+                action.payload.kernelRef === kernelRef
+            )
+          )
+        ),
+        catchError((error: Error) => {
+          return of(
+            executeFailed({
+                error: new Error(
+                "The WebSocket connection has unexpectedly disconnected."
+                ),
+                code: errors.EXEC_WEBSOCKET_ERROR,
+                contentRef
+            })
+        );
+        })
+      );
+
       return merge(
-        ipywidgetsModel$(kernel, model, contentRef),
+        ipywidgetsModel$(kernel, model, contentRef, launchedKernelRef),
         commOpenAction$,
-        commMessageAction$
+        commMessageAction$,
+        commCloseAction$
+      );
+    })
+  );
+
+function kernelChannels(
+  state: AppState,
+  kernelRef: KernelRef
+): Channels | null {
+  const kernel = selectors.kernel(state, { kernelRef });
+  return kernel && kernel.channels ? (kernel.channels as Channels) : null;
+}
+
+/**
+ * Opens a comm from the frontend to a target registered in the kernel.
+ */
+export const openCommEpic = (
+  action$: Observable<actions.OpenComm>,
+  state$: StateObservable<AppState>
+) =>
+  action$.pipe(
+    ofType(actions.OPEN_COMM),
+    mergeMap((action: actions.OpenComm) => {
+      const {
+        kernelRef,
+        commId,
+        targetName,
+        targetModule,
+        data
+      } = action.payload;
+      const channels = kernelChannels(state$.value, kernelRef);
+
+      if (channels) {
+        channels.next(
+          createCommOpenMessage(commId, targetName, data, targetModule)
+        );
+      }
+
+      return EMPTY;
+    })
+  );
+
+/**
+ * Sends a message on a comm, whichever side opened it.
+ */
+export const sendCommMessageEpic = (
+  action$: Observable<actions.SendCommMessage>,
+  state$: StateObservable<AppState>
+) =>
+  action$.pipe(
+    ofType(actions.SEND_COMM_MESSAGE),
+    mergeMap((action: actions.SendCommMessage) => {
+      const { kernelRef, commId, data, buffers } = action.payload;
+      const channels = kernelChannels(state$.value, kernelRef);
+
+      if (channels) {
+        channels.next(createCommMessage(commId, data, buffers));
+      }
+
+      return EMPTY;
+    })
+  );
+
+/**
+ * Closes a comm from the frontend.
+ */
+export const closeCommEpic = (
+  action$: Observable<actions.CloseComm>,
+  state$: StateObservable<AppState>
+) =>
+  action$.pipe(
+    ofType(actions.CLOSE_COMM),
+    mergeMap((action: actions.CloseComm) => {
+      const { kernelRef, commId, data } = action.payload;
+      const channels = kernelChannels(state$.value, kernelRef);
+
+      if (channels) {
+        channels.next(createCommCloseMessage({}, commId, data));
+      }
+
+      return EMPTY;
+    })
+  );
+
+/**
+ * Lists the comms open in a kernel, e.g. to find out whether a target is
+ * registered before opening a comm to it.
+ */
+export const fetchCommInfoEpic = (
+  action$: Observable<actions.FetchCommInfo>,
+  state$: StateObservable<AppState>
+): Observable<actions.FetchCommInfoFulfilled | actions.FetchCommInfoFailed> =>
+  action$.pipe(
+    ofType(actions.FETCH_COMM_INFO),
+    mergeMap((action: actions.FetchCommInfo) => {
+      const { kernelRef, targetName } = action.payload;
+      const channels = kernelChannels(state$.value, kernelRef);
+      if (!channels) {
+        return of(
+          actions.fetchCommInfoFailed({
+            kernelRef,
+            targetName,
+            error: new Error("The kernel is not running.")
+          })
+        );
+      }
+
+      const request = commInfoRequest(targetName);
+      const reply$ = channels.pipe(
+        childOf(request),
+        ofMessageType("comm_info_reply"),
+        first(),
+        map((reply: JupyterMessage) => {
+          const content = reply.content as CommInfoReplyContent;
+          if (content.status !== "ok") {
+            throw new Error("The kernel could not list its comms.");
+          }
+          return actions.fetchCommInfoFulfilled({
+            kernelRef,
+            targetName,
+            comms: content.comms
+          });
+        })
+      );
+
+      const fulfilled$: Observable<actions.FetchCommInfoFulfilled> = Observable.create(
+        (observer: Observer<actions.FetchCommInfoFulfilled>) => {
+          const subscription = reply$.subscribe(observer);
+          channels.next(request);
+          return subscription;
+        }
+      );
+      return fulfilled$.pipe(
+        catchError((error: Error) =>
+          of(actions.fetchCommInfoFailed({ kernelRef, targetName, error }))
+        )
       );
     })
   );
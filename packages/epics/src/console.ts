@@ -0,0 +1,218 @@
+import * as actions from "@nteract/actions";
+import { OnDiskOutput } from "@nteract/commutable";
+import {
+  Channels,
+  childOf,
+  executeRequest,
+  ExecuteRequest,
+  executionCounts,
+  historyRequest,
+  JupyterMessage,
+  kernelStatuses,
+  ofMessageType,
+  outputs
+} from "@nteract/messaging";
+import * as selectors from "@nteract/selectors";
+import { AppState, ContentRef, errors } from "@nteract/types";
+import { AnyAction } from "redux";
+import { ofType, StateObservable } from "redux-observable";
+import { concat, EMPTY, merge, Observable, Observer, of, zip } from "rxjs";
+import {
+  catchError,
+  filter,
+  first,
+  map,
+  mergeMap,
+  share,
+  takeUntil
+} from "rxjs/operators";
+
+import { fetchKernelHistory } from "./history";
+
+/**
+ * Sends a request to the kernel once subscribed to, so that none of the
+ * replies are missed.
+ */
+function sendRequest<T>(
+  channels: Channels,
+  request: JupyterMessage,
+  reply$: Observable<T>
+): Observable<T> {
+  return Observable.create((observer: Observer<T>) => {
+    const subscription = reply$.subscribe(observer);
+    channels.next(request);
+    return subscription;
+  });
+}
+
+/**
+ * Observe the reactions to running the input of a console entry, until the
+ * kernel replied and went back to idle.
+ *
+ * @param channels The channels of the kernel the console is attached to
+ * @param request The execute_request of the input, its message ID is the ID of the entry
+ * @param contentRef The console
+ */
+export function executeConsoleStream(
+  channels: Channels,
+  request: ExecuteRequest,
+  contentRef: ContentRef
+): Observable<AnyAction> {
+  const id = request.header.msg_id;
+  const messages$: Observable<JupyterMessage> = channels.pipe(
+    childOf(request),
+    share()
+  );
+
+  // Outputs come on iopub before the kernel goes idle, the reply on shell
+  const done$ = zip(
+    messages$.pipe(
+      kernelStatuses(),
+      filter(status => status === "idle"),
+      first()
+    ),
+    messages$.pipe(ofMessageType("execute_reply"), first())
+  ).pipe(map(([, reply]) => reply));
+
+  return sendRequest(
+    channels,
+    request,
+    merge(
+      merge(
+        messages$.pipe(
+          executionCounts(),
+          map((value: number) =>
+            actions.updateConsoleExecutionCount({ contentRef, id, value })
+          )
+        ),
+        messages$.pipe(
+          outputs(),
+          map((output: OnDiskOutput) =>
+            actions.appendConsoleOutput({ contentRef, id, output })
+          )
+        ),
+        messages$.pipe(
+          ofMessageType("clear_output"),
+          map(() => actions.clearConsoleOutput({ contentRef, id }))
+        )
+      ).pipe(takeUntil(done$)),
+      done$.pipe(
+        mergeMap((reply: JupyterMessage) =>
+          reply.content.status === "ok"
+            ? of(
+                actions.consoleExecutionFinished({ contentRef, id }),
+                actions.executeSuccessful({ contentRef, id })
+              )
+            : of(actions.consoleExecutionFinished({ contentRef, id }))
+        )
+      )
+    )
+  );
+}
+
+/**
+ * Runs the code at the prompt of a console in the kernel it is attached to,
+ * adding it to the transcript.
+ */
+export function executeConsolePromptEpic(
+  action$: Observable<actions.ExecuteConsolePrompt>,
+  state$: StateObservable<AppState>
+): Observable<AnyAction> {
+  return action$.pipe(
+    ofType(actions.EXECUTE_CONSOLE_PROMPT),
+    mergeMap((action: actions.ExecuteConsolePrompt) => {
+      const { contentRef } = action.payload;
+      const state = state$.value;
+      const model = selectors.model(state, { contentRef });
+      if (!model || model.type !== "console" || model.prompt.trim() === "") {
+        return EMPTY;
+      }
+
+      const kernel = selectors.kernelByContentRef(state, { contentRef });
+      if (!kernel || !kernel.channels) {
+        return of(
+          actions.executeFailed({
+            error: new Error("There is no connected kernel for this console."),
+            code: errors.EXEC_NO_KERNEL_ERROR,
+            contentRef
+          })
+        );
+      }
+
+      // Consoles have nowhere to ask for input, the kernel raises instead
+      const request = executeRequest(model.prompt, { allow_stdin: false });
+      return concat(
+        of(
+          actions.sendConsoleExecuteRequest({
+            contentRef,
+            id: request.header.msg_id,
+            source: model.prompt
+          })
+        ),
+        executeConsoleStream(kernel.channels as Channels, request, contentRef)
+      );
+    })
+  );
+}
+
+/**
+ * Fetches the inputs the kernel ran before, to navigate them at the prompt.
+ */
+export function fetchConsoleHistoryEpic(
+  action$: Observable<actions.FetchConsoleHistory>,
+  state$: StateObservable<AppState>
+): Observable<
+  actions.FetchConsoleHistoryFulfilled | actions.FetchConsoleHistoryFailed
+> {
+  return action$.pipe(
+    ofType(actions.FETCH_CONSOLE_HISTORY),
+    mergeMap((action: actions.FetchConsoleHistory) => {
+      const { contentRef } = action.payload;
+      const kernel = selectors.kernelByContentRef(state$.value, { contentRef });
+      if (!kernel || !kernel.channels) {
+        return of(
+          actions.fetchConsoleHistoryFailed({
+            contentRef,
+            error: new Error("The kernel is not running.")
+          })
+        );
+      }
+
+      return fetchKernelHistory(
+        kernel.channels as Channels,
+        historyRequest()
+      ).pipe(
+        map(inputs =>
+          actions.fetchConsoleHistoryFulfilled({
+            contentRef,
+            history: inputs.map(input => input.source)
+          })
+        ),
+        catchError((error: Error) =>
+          of(actions.fetchConsoleHistoryFailed({ contentRef, error }))
+        )
+      );
+    })
+  );
+}
+
+/**
+ * Saves the notebook a console was exported to.
+ */
+export function exportConsoleEpic(
+  action$: Observable<actions.ExportConsole>,
+  state$: StateObservable<AppState>
+): Observable<actions.Save> {
+  return action$.pipe(
+    ofType(actions.EXPORT_CONSOLE),
+    filter(
+      (action: actions.ExportConsole) =>
+        !!selectors.content(state$.value, {
+          contentRef: action.payload.exportRef
+        })
+    ),
+    map((action: actions.ExportConsole) =>
+      actions.save({ contentRef: action.payload.exportRef })
+    )
+  );
+}
@@ -3,17 +3,19 @@ import { Notebook, stringifyNotebook, toJS } from "@nteract/commutable";
 import { defineConfigOption } from "@nteract/mythic-configuration";
 import { sendNotification } from "@nteract/mythic-notifications";
 import * as selectors from "@nteract/selectors";
-import { AppState, ContentRef, createKernelRef, DirectoryContentRecordProps, DummyContentRecordProps, FileContentRecordProps, IContent, IContentProvider, JupyterHostRecord, NotebookContentRecordProps, ServerConfig } from "@nteract/types";
+import { AppState, ConsoleContentRecordProps, ContentRef, createKernelRef, DirectoryContentRecordProps, DummyContentRecordProps, FileContentRecordProps, IContent, IContentProvider, JupyterHostRecord, NotebookContentRecordProps, ServerConfig, TerminalContentRecordProps, WIDGET_STATE_MIMETYPE } from "@nteract/types";
 import FileSaver from "file-saver";
-import { RecordOf } from "immutable";
+import { fromJS, RecordOf } from "immutable";
 import * as path from "path";
 import { Action } from "redux";
 import { ofType, StateObservable } from "redux-observable";
-import { EMPTY, from, interval, Observable, of } from "rxjs";
+import { EMPTY, from, fromEvent, interval, Observable, of } from "rxjs";
 import { AjaxResponse } from "rxjs/ajax";
-import { catchError, filter, map, mergeMap, switchMap, tap } from "rxjs/operators";
+import { catchError, debounceTime, distinctUntilChanged, filter, groupBy, map, mergeMap, switchMap, tap } from "rxjs/operators";
 import urljoin from "url-join";
 
+import { widgetStateMetadata } from "./ipywidgets";
+
 export function updateContentEpic(
   action$: Observable<actions.ChangeContentName>,
   state$: StateObservable<AppState>,
@@ -137,43 +139,155 @@ export function downloadString(
   FileSaver.saveAs(blob, filename);
 }
 
+type AutoSavePolicy = "interval" | "inactivity" | "blur" | "execution" | "never";
+
+const { selector: autoSavePolicy } = defineConfigOption<AutoSavePolicy>({
+  key: "autoSavePolicy",
+  label: "Auto-save",
+  values: [
+    { label: "Every auto-save interval", value: "interval" },
+    { label: "When editing pauses", value: "inactivity" },
+    { label: "When the window loses focus", value: "blur" },
+    { label: "After running a cell", value: "execution" },
+    { label: "Never", value: "never" },
+  ],
+  defaultValue: "interval",
+});
+
 const { selector: autoSaveInterval } = defineConfigOption({
   key: "autoSaveInterval",
   label: "Auto-save interval",
   defaultValue: 120_000,
 });
 
-export function autoSaveCurrentContentEpic(
-  action$: Observable<Action>,
+const { selector: autoSaveInactivityDelay } = defineConfigOption({
+  key: "autoSaveInactivityDelay",
+  label: "Auto-save delay after editing pauses",
+  defaultValue: 5_000,
+});
+
+type EditAction =
+  | actions.SetInCell<any>
+  | actions.UpdateFileText
+  | actions.ChangeCellType
+  | actions.ToggleTagInCell
+  | actions.CreateCellBelow
+  | actions.CreateCellAbove
+  | actions.CreateCellAppend
+  | actions.MoveCell
+  | actions.DeleteCell
+  | actions.CutCell
+  | actions.PasteCell
+  | actions.OverwriteMetadataField
+  | actions.DeleteMetadataField;
+
+type AutoSaveAction = EditAction | actions.ExecuteSuccessful;
+
+/**
+ * Whether an action is the user editing content, as opposed to the
+ * kernel filling in outputs and execution metadata.
+ */
+function isEditAction(action: AutoSaveAction): boolean {
+  if (action.type === actions.SET_IN_CELL) {
+    const [key, subkey] = action.payload.path;
+    return key === "source" || (key === "metadata" && subkey !== "execution");
+  }
+  return true;
+}
+
+/**
+ * Only save contents that are files or notebooks with a filepath already
+ * set and changes that are not on disk yet.
+ */
+function isAutoSavable(state: AppState, contentRef: ContentRef): boolean {
+  const content = selectors.content(state, { contentRef });
+  if (!content || content.filepath === "") {
+    return false;
+  }
+
+  const model = content.model;
+  if (model && model.type === "notebook") {
+    return selectors.notebook.isDirty(model);
+  }
+  if (model && model.type === "file") {
+    return selectors.file.isDirty(model);
+  }
+  return false;
+}
+
+const allContentRefs = (state: AppState) =>
+  from(selectors.contentByRef(state).keys());
+
+/**
+ * The contents the given auto-save policy wants saved, as they come up.
+ */
+function autoSaveRequests(
+  policy: AutoSavePolicy,
+  action$: Observable<AutoSaveAction>,
   state$: StateObservable<AppState>
-): Observable<actions.Save> {
-  return state$.pipe(
-    map(state => autoSaveInterval(state)),
-    switchMap(time => interval(time)),
-    mergeMap(() => {
-      const state = state$.value;
-      return from(
-        selectors
-          .contentByRef(state)
-          .filter(
-            /*
-             * Only save contents that are files or notebooks with
-             * a filepath already set.
-             */
-            content =>
-              (content.type === "file" || content.type === "notebook") &&
-              content.filepath !== ""
+): Observable<ContentRef> {
+  switch (policy) {
+    case "interval":
+      return state$.pipe(
+        map(state => autoSaveInterval(state)),
+        distinctUntilChanged(),
+        switchMap(time => interval(time)),
+        mergeMap(() => allContentRefs(state$.value))
+      );
+    case "inactivity":
+      return state$.pipe(
+        map(state => autoSaveInactivityDelay(state)),
+        distinctUntilChanged(),
+        switchMap(time =>
+          action$.pipe(
+            ofType(
+              actions.SET_IN_CELL,
+              actions.UPDATE_FILE_TEXT,
+              actions.CHANGE_CELL_TYPE,
+              actions.TOGGLE_TAG_IN_CELL,
+              actions.CREATE_CELL_BELOW,
+              actions.CREATE_CELL_ABOVE,
+              actions.CREATE_CELL_APPEND,
+              actions.MOVE_CELL,
+              actions.DELETE_CELL,
+              actions.CUT_CELL,
+              actions.PASTE_CELL,
+              actions.OVERWRITE_METADATA_FIELD,
+              actions.DELETE_METADATA_FIELD
+            ),
+            filter(isEditAction),
+            groupBy((action: AutoSaveAction) => action.payload.contentRef),
+            mergeMap(edits => edits.pipe(debounceTime(time))),
+            map((action: AutoSaveAction) => action.payload.contentRef)
           )
-          .keys()
+        )
       );
-    }),
-    filter((contentRef: ContentRef) => {
-      const model = selectors.model(state$.value, { contentRef });
-      if (model && model.type === "notebook") {
-        return selectors.notebook.isDirty(model);
+    case "blur":
+      if (typeof window === "undefined") {
+        return EMPTY;
       }
-      return false;
-    }),
+      return fromEvent(window, "blur").pipe(
+        mergeMap(() => allContentRefs(state$.value))
+      );
+    case "execution":
+      return action$.pipe(
+        ofType(actions.EXECUTE_SUCCESSFUL),
+        map((action: AutoSaveAction) => action.payload.contentRef)
+      );
+    default:
+      return EMPTY;
+  }
+}
+
+export function autoSaveCurrentContentEpic(
+  action$: Observable<AutoSaveAction>,
+  state$: StateObservable<AppState>
+): Observable<actions.Save> {
+  return state$.pipe(
+    map(state => autoSavePolicy(state)),
+    distinctUntilChanged(),
+    switchMap(policy => autoSaveRequests(policy, action$, state$)),
+    filter((contentRef: ContentRef) => isAutoSavable(state$.value, contentRef)),
     map((contentRef: ContentRef) => actions.save({ contentRef }))
   );
 }
@@ -185,6 +299,8 @@ function serializeContent(
     | RecordOf<DummyContentRecordProps>
     | RecordOf<FileContentRecordProps>
     | RecordOf<DirectoryContentRecordProps>
+    | RecordOf<ConsoleContentRecordProps>
+    | RecordOf<TerminalContentRecordProps>
 ): {
   saveModel: Partial<IContent<"file" | "notebook">> | null;
   serializedData: Notebook | string | null;
@@ -197,12 +313,24 @@ function serializeContent(
 
     // contents API takes notebook as raw JSON whereas downloading takes
     // a string
-    serializedData = toJS(
-      content.model.notebook.setIn(
-        ["metadata", "nteract", "version"],
-        appVersion
-      )
+    let notebook = content.model.notebook.setIn(
+      ["metadata", "nteract", "version"],
+      appVersion
     );
+
+    // Widgets are saved along, so that their views render when reopened
+    const kernelRef = content.model.kernelRef;
+    const widgetState = kernelRef
+      ? widgetStateMetadata(selectors.comms(state), kernelRef)
+      : null;
+    if (widgetState) {
+      notebook = notebook.setIn(
+        ["metadata", "widgets", WIDGET_STATE_MIMETYPE],
+        fromJS(widgetState)
+      );
+    }
+
+    serializedData = toJS(notebook);
     saveModel = {
       content: serializedData,
       type: content.type
@@ -0,0 +1,469 @@
+import * as actions from "@nteract/actions";
+import { CellId } from "@nteract/commutable";
+import {
+  Channels,
+  childOf,
+  debugRequest,
+  DebugEvent,
+  DebugReplyContent,
+  JupyterMessage,
+  ofMessageType
+} from "@nteract/messaging";
+import * as selectors from "@nteract/selectors";
+import {
+  AppState,
+  ContentRef,
+  DebugScope,
+  DebugStackFrame,
+  KernelRef,
+  NotebookModel
+} from "@nteract/types";
+import { ofType, StateObservable } from "redux-observable";
+import { EMPTY, from, merge, Observable, Observer, of } from "rxjs";
+import {
+  catchError,
+  concatMap,
+  debounceTime,
+  filter,
+  first,
+  groupBy,
+  map,
+  mapTo,
+  mergeMap,
+  reduce,
+  switchMap,
+  takeUntil,
+  toArray
+} from "rxjs/operators";
+
+/**
+ * How long to wait after the last edit of a cell before its breakpoints are
+ * moved to the edited code.
+ */
+const BREAKPOINT_SYNC_DELAY = 500;
+
+// Debug Adapter Protocol messages are numbered per client
+let seq = 0;
+
+/**
+ * Sends a Debug Adapter Protocol request to the kernel.
+ *
+ * @returns The reply, or an error if the kernel could not carry the request out
+ */
+export function sendDebugRequest(
+  channels: Channels,
+  command: string,
+  args?: object
+): Observable<DebugReplyContent> {
+  const request = debugRequest({ seq: ++seq, command, arguments: args });
+
+  const reply$ = channels.pipe(
+    childOf(request),
+    ofMessageType("debug_reply"),
+    first(),
+    map((msg: JupyterMessage) => {
+      const reply = msg.content as DebugReplyContent;
+      if (!reply.success) {
+        throw new Error(reply.message || `The ${command} request failed`);
+      }
+      return reply;
+    })
+  );
+
+  return Observable.create((observer: Observer<DebugReplyContent>) => {
+    const subscription = reply$.subscribe(observer);
+    channels.next(request);
+    return subscription;
+  });
+}
+
+function kernelChannels(state: AppState, kernelRef: KernelRef): Channels {
+  const kernel = selectors.kernel(state, { kernelRef });
+  if (!kernel || !kernel.channels) {
+    throw new Error("The kernel is not running.");
+  }
+  return kernel.channels as Channels;
+}
+
+/**
+ * Makes the kernel dump the code of a cell to a file and breaks on the given
+ * lines of it. Both are needed for the kernel to break inside of cells,
+ * which it runs from those files.
+ *
+ * @returns The path of the file the cell was dumped to
+ */
+function setCellBreakpoints(
+  channels: Channels,
+  code: string,
+  lines: number[]
+): Observable<string> {
+  return sendDebugRequest(channels, "dumpCell", { code }).pipe(
+    mergeMap(reply => {
+      const path: string = reply.body.sourcePath;
+      return sendDebugRequest(channels, "setBreakpoints", {
+        source: { path },
+        breakpoints: lines.map(line => ({ line })),
+        sourceModified: false
+      }).pipe(mapTo(path));
+    })
+  );
+}
+
+/**
+ * The scopes of a stack frame, along with their variables.
+ */
+function fetchScopes(
+  channels: Channels,
+  frameId: number
+): Observable<DebugScope[]> {
+  return sendDebugRequest(channels, "scopes", { frameId }).pipe(
+    mergeMap(reply =>
+      from(reply.body.scopes as Array<{ name: string; variablesReference: number }>)
+    ),
+    concatMap(scope =>
+      sendDebugRequest(channels, "variables", {
+        variablesReference: scope.variablesReference
+      }).pipe(
+        map(reply => ({ name: scope.name, variables: reply.body.variables }))
+      )
+    ),
+    toArray()
+  );
+}
+
+/**
+ * The call stack of a stopped thread, with the variables of its top frame.
+ */
+function fetchPausedState(
+  channels: Channels,
+  kernelRef: KernelRef,
+  threadId: number
+): Observable<actions.DebugPaused> {
+  return sendDebugRequest(channels, "stackTrace", { threadId }).pipe(
+    mergeMap(reply => {
+      const stackFrames: DebugStackFrame[] = reply.body.stackFrames.map(
+        (frame: any) => ({
+          id: frame.id,
+          name: frame.name,
+          line: frame.line,
+          column: frame.column,
+          path: frame.source?.path
+        })
+      );
+      const frameId = stackFrames.length > 0 ? stackFrames[0].id : null;
+      return (frameId === null ? of([]) : fetchScopes(channels, frameId)).pipe(
+        map(scopes =>
+          actions.debugPaused({
+            kernelRef,
+            threadId,
+            stackFrames,
+            frameId,
+            scopes
+          })
+        )
+      );
+    })
+  );
+}
+
+function notebookModel(
+  state: AppState,
+  contentRef: ContentRef
+): NotebookModel | null {
+  const model = selectors.model(state, { contentRef });
+  return model && model.type === "notebook" ? model : null;
+}
+
+/**
+ * Starts a debug session in the kernel of a notebook, sending it the
+ * breakpoints that were set before the session started.
+ */
+export function startDebuggingEpic(
+  action$: Observable<actions.StartDebugging>,
+  state$: StateObservable<AppState>
+): Observable<actions.StartDebuggingFulfilled | actions.StartDebuggingFailed> {
+  return action$.pipe(
+    ofType(actions.START_DEBUGGING),
+    mergeMap((action: actions.StartDebugging) => {
+      const { contentRef, kernelRef } = action.payload;
+      return of(null).pipe(
+        map(() => kernelChannels(state$.value, kernelRef)),
+        mergeMap(channels =>
+          sendDebugRequest(channels, "initialize", {
+            clientID: "nteract",
+            clientName: "nteract",
+            adapterID: "",
+            pathFormat: "path",
+            linesStartAt1: true,
+            columnsStartAt1: true,
+            supportsVariableType: true,
+            supportsVariablePaging: true,
+            supportsRunInTerminalRequest: false,
+            locale: "en-US"
+          }).pipe(
+            mergeMap(() => sendDebugRequest(channels, "attach", {})),
+            mergeMap(() => {
+              // Every code cell is dumped, so that paused frames can be traced
+              // back to the cell they are in
+              const model = notebookModel(state$.value, contentRef);
+              const cells = model
+                ? selectors.notebook.codeCellIds(model).toArray()
+                : [];
+              return from(cells).pipe(
+                concatMap((id: CellId) => {
+                  const code: string = selectors.notebook
+                    .cellById(model!, { id })!
+                    .get("source", "");
+                  const lines = selectors
+                    .breakpoints(state$.value, { id })
+                    .sort()
+                    .toArray();
+                  return setCellBreakpoints(channels, code, lines).pipe(
+                    map(path => ({ id, path }))
+                  );
+                }),
+                reduce(
+                  (sourcePaths, { id, path }) => ({ ...sourcePaths, [id]: path }),
+                  {} as { [id: string]: string }
+                )
+              );
+            }),
+            mergeMap(sourcePaths =>
+              sendDebugRequest(channels, "configurationDone").pipe(
+                mapTo(sourcePaths)
+              )
+            )
+          )
+        ),
+        map(sourcePaths =>
+          actions.startDebuggingFulfilled({ contentRef, kernelRef, sourcePaths })
+        ),
+        catchError((error: Error) =>
+          of(actions.startDebuggingFailed({ contentRef, kernelRef, error }))
+        )
+      );
+    })
+  );
+}
+
+/**
+ * Follows the debug events of a kernel for as long as it is being debugged,
+ * fetching the call stack whenever it stops.
+ */
+type DebugSessionAction =
+  | actions.StartDebuggingFulfilled
+  | actions.StopDebuggingFulfilled
+  | actions.KillKernelSuccessful
+  | actions.RestartKernel;
+
+export function debugEventsEpic(
+  action$: Observable<DebugSessionAction>,
+  state$: StateObservable<AppState>
+): Observable<
+  actions.DebugPaused | actions.DebugContinued | actions.DebugRequestFailed
+> {
+  return action$.pipe(
+    ofType(actions.START_DEBUGGING_FULFILLED),
+    mergeMap((action: DebugSessionAction) => {
+      const { kernelRef } = (action as actions.StartDebuggingFulfilled).payload;
+      const sessionEnded$ = action$.pipe(
+        ofType(
+          actions.STOP_DEBUGGING_FULFILLED,
+          actions.KILL_KERNEL_SUCCESSFUL,
+          actions.RESTART_KERNEL
+        ),
+        filter(
+          (ended: DebugSessionAction) => ended.payload.kernelRef === kernelRef
+        )
+      );
+
+      return of(null).pipe(
+        map(() => kernelChannels(state$.value, kernelRef)),
+        switchMap(channels =>
+          channels.pipe(
+            ofMessageType("debug_event"),
+            mergeMap((msg: DebugEvent) => {
+              const { event, body } = msg.content;
+              switch (event) {
+                case "stopped":
+                  return fetchPausedState(channels, kernelRef, body.threadId).pipe(
+                    catchError((error: Error) =>
+                      of(
+                        actions.debugRequestFailed({
+                          kernelRef,
+                          command: "stackTrace",
+                          error
+                        })
+                      )
+                    )
+                  );
+                case "continued":
+                  return of(actions.debugContinued({ kernelRef }));
+                default:
+                  return EMPTY;
+              }
+            })
+          )
+        ),
+        takeUntil(sessionEnded$),
+        catchError(() => EMPTY)
+      );
+    })
+  );
+}
+
+/**
+ * Resumes a paused kernel, either until the next breakpoint or by a single
+ * step.
+ */
+export function debugStepEpic(
+  action$: Observable<actions.DebugStep>,
+  state$: StateObservable<AppState>
+): Observable<actions.DebugRequestFailed> {
+  return action$.pipe(
+    ofType(actions.DEBUG_STEP),
+    concatMap((action: actions.DebugStep) => {
+      const { kernelRef, command, threadId } = action.payload;
+      return of(null).pipe(
+        mergeMap(() =>
+          sendDebugRequest(kernelChannels(state$.value, kernelRef), command, {
+            threadId
+          })
+        ),
+        mergeMap(() => EMPTY),
+        catchError((error: Error) =>
+          of(actions.debugRequestFailed({ kernelRef, command, error }))
+        )
+      );
+    })
+  );
+}
+
+/**
+ * Shows the variables of another frame of the call stack.
+ */
+export function selectDebugFrameEpic(
+  action$: Observable<actions.SelectDebugFrame>,
+  state$: StateObservable<AppState>
+): Observable<actions.DebugFrameFetched | actions.DebugRequestFailed> {
+  return action$.pipe(
+    ofType(actions.SELECT_DEBUG_FRAME),
+    switchMap((action: actions.SelectDebugFrame) => {
+      const { kernelRef, frameId } = action.payload;
+      return of(null).pipe(
+        mergeMap(() =>
+          fetchScopes(kernelChannels(state$.value, kernelRef), frameId)
+        ),
+        map(scopes => actions.debugFrameFetched({ kernelRef, frameId, scopes })),
+        catchError((error: Error) =>
+          of(actions.debugRequestFailed({ kernelRef, command: "scopes", error }))
+        )
+      );
+    })
+  );
+}
+
+/**
+ * Keeps the breakpoints of the kernel in line with those of a cell while it
+ * is being debugged. Edited cells are dumped again once the edits settle, as
+ * the kernel tells cells apart by their code.
+ */
+export function syncBreakpointsEpic(
+  action$: Observable<actions.ToggleBreakpoint | actions.SetInCell<string>>,
+  state$: StateObservable<AppState>
+): Observable<actions.SetBreakpointsFulfilled | actions.DebugRequestFailed> {
+  const toggles$: Observable<actions.ToggleBreakpoint> = action$.pipe(
+    ofType(actions.TOGGLE_BREAKPOINT)
+  );
+  const edits$: Observable<actions.SetInCell<string>> = action$.pipe(
+    ofType(actions.SET_IN_CELL),
+    map(action => action as actions.SetInCell<string>),
+    filter(
+      action =>
+        action.payload.path[0] === "source" &&
+        !selectors.breakpoints(state$.value, action.payload).isEmpty()
+    ),
+    groupBy(action => action.payload.id),
+    mergeMap(cellEdits$ => cellEdits$.pipe(debounceTime(BREAKPOINT_SYNC_DELAY)))
+  );
+
+  return merge(toggles$, edits$).pipe(
+    groupBy(
+      (action: actions.ToggleBreakpoint | actions.SetInCell<string>) =>
+        action.payload.id
+    ),
+    mergeMap(cellActions$ =>
+      cellActions$.pipe(
+        switchMap(
+          (action: actions.ToggleBreakpoint | actions.SetInCell<string>) => {
+            const { contentRef, id } = action.payload;
+            const state = state$.value;
+            const kernelRef = selectors.kernelRefByContentRef(state, {
+              contentRef
+            });
+            const session = selectors.debugSession(state, { kernelRef });
+            const model = notebookModel(state, contentRef);
+            const cell = model && selectors.notebook.cellById(model, { id });
+            if (!kernelRef || !session || session.status === "starting" || !cell) {
+              return EMPTY;
+            }
+
+            const lines = selectors.breakpoints(state, { id }).sort().toArray();
+            return of(null).pipe(
+              mergeMap(() =>
+                setCellBreakpoints(
+                  kernelChannels(state, kernelRef),
+                  cell.get("source", ""),
+                  lines
+                )
+              ),
+              map(path =>
+                actions.setBreakpointsFulfilled({ contentRef, id, kernelRef, path })
+              ),
+              catchError((error: Error) =>
+                of(
+                  actions.debugRequestFailed({
+                    kernelRef,
+                    command: "setBreakpoints",
+                    error
+                  })
+                )
+              )
+            );
+          }
+        )
+      )
+    )
+  );
+}
+
+/**
+ * Ends the debug session of a kernel. The kernel keeps running the code it
+ * was paused in.
+ */
+export function stopDebuggingEpic(
+  action$: Observable<actions.StopDebugging>,
+  state$: StateObservable<AppState>
+): Observable<actions.StopDebuggingFulfilled | actions.DebugRequestFailed> {
+  return action$.pipe(
+    ofType(actions.STOP_DEBUGGING),
+    mergeMap((action: actions.StopDebugging) => {
+      const { kernelRef } = action.payload;
+      return of(null).pipe(
+        mergeMap(() =>
+          sendDebugRequest(kernelChannels(state$.value, kernelRef), "disconnect", {
+            restart: false,
+            terminateDebuggee: false
+          })
+        ),
+        map(() => actions.stopDebuggingFulfilled({ kernelRef })),
+        catchError((error: Error) =>
+          of(
+            actions.debugRequestFailed({ kernelRef, command: "disconnect", error }),
+            actions.stopDebuggingFulfilled({ kernelRef })
+          )
+        )
+      );
+    })
+  );
+}
@@ -14,7 +14,14 @@ import {
 import { AnyAction } from "redux";
 import { ofType } from "redux-observable";
 import { StateObservable } from "redux-observable";
-import { merge, Observable, of, Observer, GroupedObservable } from "rxjs";
+import {
+  concat,
+  merge,
+  Observable,
+  of,
+  Observer,
+  GroupedObservable
+} from "rxjs";
 import {
   catchError,
   filter,
@@ -23,6 +30,7 @@ import {
   mergeMap,
   share,
   switchMap,
+  take,
   takeUntil,
   startWith
 } from "rxjs/operators";
@@ -34,6 +42,7 @@ import {
   AppState,
   ContentRef,
   InputRequestMessage,
+  KernelRef,
   KernelStatus,
   PayloadMessage,
   errors
@@ -48,6 +57,8 @@ const EXECUTE_CANCEL_ALL = "all";
  * specification.
  * @param {String} id - Universally Unique Identifier of cell to be executed.
  * @param {String} code - Source code to be executed.
+ * @param {boolean} cancelOnError - Whether an error cancels the cells queued
+ * after this one.
  * @return {Observable<Action>} updatedOutputs - It returns an observable with
  * a stream of events that need to happen after a cell has been executed.
  */
@@ -55,7 +66,8 @@ export function executeCellStream(
   channels: Channels,
   id: string,
   message: ExecuteRequest,
-  contentRef: ContentRef
+  contentRef: ContentRef,
+  cancelOnError: boolean = true
 ) {
   const executeRequest = message;
 
@@ -107,6 +119,13 @@ export function executeCellStream(
       )
     ),
 
+    // Let others know the code ran without raising an error
+    cellMessages.pipe(
+      ofMessageType("execute_reply"),
+      filter((msg: JupyterMessage) => msg.content.status === "ok"),
+      map(() => actions.executeSuccessful({ id, contentRef }))
+    ),
+
     /**
      * Set the ISO datetime when the status associated with the
      * cell execution was sent from the kernel, per nbformat.
@@ -149,6 +168,7 @@ export function executeCellStream(
 
     cellMessages.pipe(
       ofMessageType("error"),
+      filter(() => cancelOnError),
       map(() => actions.executeCanceled({ contentRef, id: EXECUTE_CANCEL_ALL }))
     ),
 
@@ -190,7 +210,8 @@ export function executeCellStream(
  */
 type PerCellStopStopExecutionActions =
   | actions.ExecuteCanceled
-  | actions.DeleteCell;
+  | actions.DeleteCell
+  | actions.DequeueExecution;
 type ContentStopExecutionActions =
   | actions.LaunchKernelAction
   | actions.LaunchKernelByNameAction
@@ -203,59 +224,116 @@ type StopExecutionActions =
 
 type ExecuteStreamActions = StopExecutionActions | actions.SendExecuteRequest;
 
+/**
+ * Whether the cell is next in line on the kernel, which only gets the next
+ * execute request once it's done with the running one.
+ */
+function isTurnOf(
+  state: AppState,
+  kernelRef: KernelRef,
+  contentRef: ContentRef,
+  id: string
+): boolean {
+  const queue = selectors.executionQueue(state, { kernelRef });
+  if (!queue || queue.running) {
+    return false;
+  }
+  const next = queue.queued.first(null);
+  return next !== null && next.contentRef === contentRef && next.id === id;
+}
+
 export function createExecuteCellStream(
   action$: Observable<ExecuteStreamActions>,
+  state$: StateObservable<AppState>,
   channels: Channels,
   message: ExecuteRequest,
   id: string,
-  contentRef: ContentRef
+  contentRef: ContentRef,
+  kernelRef: KernelRef
 ): Observable<any> {
   /**
-   * Execute the individual cell, but stop if the execution is cancelled or the
-   * cell is deleted.
-   *
+   * Stop if the execution is cancelled or the cell is deleted. Cancelling
+   * all of the notebook's cells or taking the cell out of the queue only
+   * stops it while it waits for its turn.
+   */
+  const cellStopped$ = (queued: boolean) =>
+    action$.pipe(
+      ofType(
+        actions.EXECUTE_CANCELED,
+        actions.DELETE_CELL,
+        actions.DEQUEUE_EXECUTION
+      ),
+      filter((action: ExecuteStreamActions) => {
+        const { payload } = action as PerCellStopStopExecutionActions;
+        if (action.type === actions.DEQUEUE_EXECUTION) {
+          return queued && payload.id === id;
+        }
+        return (
+          payload.id === id ||
+          (queued &&
+            payload.id === EXECUTE_CANCEL_ALL &&
+            payload.contentRef === contentRef)
+        );
+      })
+    );
+
+  /**
    * Also stop if a kernel is:
    * - launched
    * - interrupted
    * - killed
    * - restarted
    */
-  const cellStream = executeCellStream(channels, id, message, contentRef).pipe(
-    takeUntil(
-      merge(
-        action$.pipe(
-          ofType(actions.EXECUTE_CANCELED, actions.DELETE_CELL),
-          filter(
-            (action: ExecuteStreamActions) =>
-              (action as PerCellStopStopExecutionActions).payload.id === id ||
-              (action as PerCellStopStopExecutionActions).payload.id === EXECUTE_CANCEL_ALL
-          )
-        ),
-        action$.pipe(
-          ofType(
-            actions.LAUNCH_KERNEL,
-            actions.LAUNCH_KERNEL_BY_NAME,
-            actions.KILL_KERNEL,
-            actions.INTERRUPT_KERNEL,
-            actions.RESTART_KERNEL
-          ),
-          filter(
-            (action: ExecuteStreamActions) =>
-              action.payload.contentRef === contentRef
-          )
-        )
-      )
+  const contentStopped$ = action$.pipe(
+    ofType(
+      actions.LAUNCH_KERNEL,
+      actions.LAUNCH_KERNEL_BY_NAME,
+      actions.KILL_KERNEL,
+      actions.INTERRUPT_KERNEL,
+      actions.RESTART_KERNEL
+    ),
+    filter(
+      (action: ExecuteStreamActions) =>
+        action.payload.contentRef === contentRef
     )
   );
 
+  /**
+   * Execute the individual cell once the cells queued before it on the
+   * kernel are done.
+   */
+  const cellStream = state$.pipe(
+    filter((state: AppState) => isTurnOf(state, kernelRef, contentRef, id)),
+    take(1),
+    takeUntil(merge(cellStopped$(true), contentStopped$)),
+    mergeMap(() => {
+      const model = selectors.model(state$.value, { contentRef });
+      const cancelOnError = !(
+        model &&
+        model.type === "notebook" &&
+        selectors.notebook.continueOnError(model)
+      );
+      return executeCellStream(
+        channels,
+        id,
+        message,
+        contentRef,
+        cancelOnError
+      ).pipe(
+        startWith(actions.executionStarted({ id, contentRef, kernelRef })),
+        takeUntil(merge(cellStopped$(false), contentStopped$))
+      );
+    })
+  );
+
   /**
    * Begin the execution...
    */
-  return cellStream.pipe(
+  return concat(
     /**
      * But first dispatch some actions to...
      */
-    startWith(
+    of(
       /**
        * clear the existing contents of the cell
        */
@@ -263,8 +341,13 @@ export function createExecuteCellStream(
       /**
        * update the cell-status to queued
        */
-      actions.updateCellStatus({ id, status: "queued", contentRef })
-    )
+      actions.updateCellStatus({ id, status: "queued", contentRef }),
+      /**
+       * and line it up behind the cells already queued on the kernel
+       */
+      actions.enqueueExecution({ id, contentRef, kernelRef })
+    ),
+    cellStream
   );
 }
 
@@ -388,6 +471,7 @@ export function sendExecuteRequestEpic(
              * to the kernel via the /channels WebSocket endpoint on the
              * Jupyter server.
              */
+            const kernelRef = model.kernelRef;
             const kernel = selectors.kernelByContentRef(state, {
               contentRef
             });
@@ -405,7 +489,7 @@ export function sendExecuteRequestEpic(
              * kernel is in a processing state, then throw an error
              * action.
              */
-            if (!kernelConnected) {
+            if (!kernelRef || !kernelConnected) {
               return of(
                 actions.executeFailed({
                   error: new Error(
@@ -437,10 +521,12 @@ export function sendExecuteRequestEpic(
 
             return createExecuteCellStream(
               action$,
+              state$,
               channels,
               message,
               id,
-              action.payload.contentRef
+              action.payload.contentRef,
+              kernelRef
             ).pipe(
               /**
                * Catch uncaught exceptions that occur on
@@ -464,7 +550,8 @@ export function sendExecuteRequestEpic(
                     actions.executeFailed({
                       error,
                       code: errors.EXEC_ERROR_IN_CELL_STREAM,
-                      contentRef: action.payload.contentRef
+                      contentRef: action.payload.contentRef,
+                      id
                     })
                   )
                 )
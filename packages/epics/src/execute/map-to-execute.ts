@@ -7,16 +7,17 @@
 import Immutable from "immutable";
 import { StateObservable, ofType } from "redux-observable";
 import { Observable, of } from "rxjs";
-import { concatMap, mergeMap } from "rxjs/operators";
+import { concatMap, map, mergeMap } from "rxjs/operators";
 
 import * as actions from "@nteract/actions";
 import { CellId } from "@nteract/commutable";
+import { Channels, isCompleteObservable } from "@nteract/messaging";
 import * as selectors from "@nteract/selectors";
-import { AppState, KernelStatus, errors } from "@nteract/types";
+import { AppState, ContentRef, KernelStatus, errors } from "@nteract/types";
 
 /**
- * Maps ExecuteAllCells, ExecuteAllCellsAbove, and ExecuteAllCellsBelow actions to
- * ExecuteCell actions. These ExecuteCell actions are mapped
+ * Maps ExecuteAllCells, ExecuteAllCellsAbove, ExecuteAllCellsBelow and
+ * ExecuteCells actions to ExecuteCell actions, in notebook order. These ExecuteCell actions are mapped
  * to SendExecuteRequest actions by another epic.
  *
  * @param action$  The stream of actions dispatched to Redux
@@ -24,14 +25,14 @@ import { AppState, KernelStatus, errors } from "@nteract/types";
  */
 export function executeAllCellsEpic(
   action$: Observable<
-    actions.ExecuteAllCells | actions.ExecuteAllCellsAbove | actions.ExecuteAllCellsBelow
+    actions.ExecuteAllCells | actions.ExecuteAllCellsAbove | actions.ExecuteAllCellsBelow | actions.ExecuteCells
   >,
   state$: StateObservable<AppState>
 ) {
   return action$.pipe(
-    ofType(actions.EXECUTE_ALL_CELLS, actions.EXECUTE_ALL_CELLS_ABOVE, actions.EXECUTE_ALL_CELLS_BELOW),
+    ofType(actions.EXECUTE_ALL_CELLS, actions.EXECUTE_ALL_CELLS_ABOVE, actions.EXECUTE_ALL_CELLS_BELOW, actions.EXECUTE_CELLS),
     concatMap(
-      (action: actions.ExecuteAllCells | actions.ExecuteAllCellsAbove | actions.ExecuteAllCellsBelow) => {
+      (action: actions.ExecuteAllCells | actions.ExecuteAllCellsAbove | actions.ExecuteAllCellsBelow | actions.ExecuteCells) => {
         const state = state$.value;
         const contentRef = action.payload.contentRef;
 
@@ -57,6 +58,11 @@ export function executeAllCellsEpic(
           codeCellIds = selectors.notebook.codeCellIdsAbove(model, action.payload.id);
         } else if (action.type === actions.EXECUTE_ALL_CELLS_BELOW) {
           codeCellIds = selectors.notebook.codeCellIdsBelow(model, action.payload.id);
+        } else if (action.type === actions.EXECUTE_CELLS) {
+          const ids = action.payload.ids;
+          codeCellIds = selectors.notebook
+            .codeCellIds(model)
+            .filter((id: CellId) => ids.includes(id));
         }
         return of(
           ...codeCellIds.map((id: CellId) =>
@@ -110,12 +116,44 @@ export function executeFocusedCellEpic(
         );
       }
       return of(
-        actions.executeCell({ id, contentRef: action.payload.contentRef })
+        actions.executeCell({
+          id,
+          contentRef: action.payload.contentRef,
+          checkIsComplete: action.payload.checkIsComplete
+        })
       );
     })
   );
 }
 
+/**
+ * Runs the code of a cell unless the kernel says more lines are needed to
+ * complete it, in which case a line with the indent the kernel suggests is
+ * added to it.
+ */
+function executeWhenComplete(
+  state: AppState,
+  channels: Channels,
+  payload: { id: CellId; contentRef: ContentRef }
+) {
+  const model = selectors.model(state, { contentRef: payload.contentRef });
+  const cell =
+    model && model.type === "notebook"
+      ? selectors.notebook.cellById(model, { id: payload.id })
+      : null;
+  if (!cell) {
+    return of(actions.sendExecuteRequest(payload));
+  }
+
+  return isCompleteObservable(channels, cell.source).pipe(
+    map(reply =>
+      reply.status === "incomplete"
+        ? actions.codeIncomplete({ ...payload, indent: reply.indent || "" })
+        : actions.sendExecuteRequest(payload)
+    )
+  );
+}
+
 /**
  * Maps an ExecuteCell action to a SendExecuteRequest or EnqueueAction action.
  *
@@ -141,7 +179,11 @@ export function executeCellEpic(
         kernel.status !== KernelStatus.NotConnected &&
         kernel.status !== KernelStatus.ShuttingDown
       ) {
-        return of(actions.sendExecuteRequest(action.payload));
+        const { checkIsComplete, ...payload } = action.payload;
+        if (checkIsComplete) {
+          return executeWhenComplete(state, kernel.channels, payload);
+        }
+        return of(actions.sendExecuteRequest(payload));
       } else {
         return of(
           actions.updateCellStatus({ ...action.payload, status: "queued" }),
@@ -0,0 +1,209 @@
+import * as actions from "@nteract/actions";
+import {
+  Channels,
+  childOf,
+  historyRequest,
+  HistoryReplyContent,
+  HistoryRequest,
+  JupyterMessage,
+  ofMessageType
+} from "@nteract/messaging";
+import * as selectors from "@nteract/selectors";
+import {
+  AppState,
+  KernelHistoryInput,
+  KernelHistoryQuery
+} from "@nteract/types";
+import { ofType, StateObservable } from "redux-observable";
+import { concat, Observable, Observer, of } from "rxjs";
+import {
+  catchError,
+  filter,
+  first,
+  groupBy,
+  map,
+  mergeMap,
+  switchMap
+} from "rxjs/operators";
+
+/**
+ * Inputs listed per page of the history panel.
+ */
+export const HISTORY_PAGE_SIZE = 100;
+
+export interface KernelHistoryPage {
+  inputs: KernelHistoryInput[];
+  hasMore: boolean;
+}
+
+/**
+ * Sends a history_request and lists the inputs of its reply, in the order of
+ * the kernel.
+ */
+export function fetchKernelHistory(
+  channels: Channels,
+  request: HistoryRequest
+): Observable<KernelHistoryInput[]> {
+  const reply$ = channels.pipe(
+    childOf(request),
+    ofMessageType("history_reply"),
+    first(),
+    map((reply: JupyterMessage) => {
+      const content = reply.content as HistoryReplyContent;
+      if (content.status !== "ok") {
+        throw new Error("The kernel could not fetch its history.");
+      }
+      // Inputs come along with their outputs when those were asked for
+      return content.history.map(([session, line, input]) => ({
+        session,
+        line,
+        source: typeof input === "string" ? input : input[0]
+      }));
+    })
+  );
+
+  return Observable.create((observer: Observer<KernelHistoryInput[]>) => {
+    const subscription = reply$.subscribe(observer);
+    channels.next(request);
+    return subscription;
+  });
+}
+
+/**
+ * The request for a page of a query. Kernels can't skip inputs of tails and
+ * searches, so their pages ask for every input up to the end of the page.
+ */
+function pageRequest(
+  query: KernelHistoryQuery,
+  page: number,
+  pageSize: number
+): HistoryRequest {
+  switch (query.mode) {
+    case "range": {
+      const start = query.start + page * pageSize;
+      return historyRequest({
+        hist_access_type: "range",
+        session: query.session,
+        start,
+        stop: Math.min(query.stop, start + pageSize)
+      });
+    }
+    case "search":
+      return historyRequest({
+        hist_access_type: "search",
+        pattern: query.pattern,
+        n: (page + 1) * pageSize
+      });
+    default:
+      return historyRequest({
+        hist_access_type: "tail",
+        n: (page + 1) * pageSize
+      });
+  }
+}
+
+/**
+ * Pages through the history of a kernel. The first page is fetched right
+ * away, each of the next ones once `more$` emits, until the history is
+ * exhausted.
+ *
+ * Tails and searches go back in time, listing the newest inputs first. Ranges
+ * are listed in order.
+ *
+ * @param channels The channels of the kernel
+ * @param query What to list of the history
+ * @param more$ Asks for the next page
+ * @param pageSize The number of inputs per page
+ */
+export function kernelHistoryPages(
+  channels: Channels,
+  query: KernelHistoryQuery,
+  more$: Observable<unknown>,
+  pageSize: number = HISTORY_PAGE_SIZE
+): Observable<KernelHistoryPage> {
+  const fetchPage = (
+    page: number,
+    seen: number
+  ): Observable<KernelHistoryPage> =>
+    fetchKernelHistory(channels, pageRequest(query, page, pageSize)).pipe(
+      mergeMap(inputs => {
+        const current: KernelHistoryPage =
+          query.mode === "range"
+            ? {
+                inputs,
+                hasMore: query.start + (page + 1) * pageSize < query.stop
+              }
+            : {
+                inputs: inputs
+                  .slice(0, Math.max(0, inputs.length - seen))
+                  .reverse(),
+                hasMore: inputs.length === (page + 1) * pageSize
+              };
+        if (!current.hasMore) {
+          return of(current);
+        }
+        return concat(
+          of(current),
+          more$.pipe(
+            first(),
+            mergeMap(() => fetchPage(page + 1, seen + current.inputs.length))
+          )
+        );
+      })
+    );
+
+  return fetchPage(0, 0);
+}
+
+/**
+ * Lists the history of a kernel, a page at a time. A new query for a kernel
+ * replaces the one being paged through.
+ */
+export function fetchKernelHistoryEpic(
+  action$: Observable<
+    actions.FetchKernelHistory | actions.FetchMoreKernelHistory
+  >,
+  state$: StateObservable<AppState>
+): Observable<
+  actions.FetchKernelHistoryFulfilled | actions.FetchKernelHistoryFailed
+> {
+  const fetches$: Observable<actions.FetchKernelHistory> = action$.pipe(
+    ofType(actions.FETCH_KERNEL_HISTORY)
+  );
+  const more$: Observable<actions.FetchMoreKernelHistory> = action$.pipe(
+    ofType(actions.FETCH_MORE_KERNEL_HISTORY)
+  );
+
+  return fetches$.pipe(
+    groupBy((action: actions.FetchKernelHistory) => action.payload.kernelRef),
+    mergeMap(kernelActions$ =>
+      kernelActions$.pipe(
+        switchMap((action: actions.FetchKernelHistory) => {
+          const { kernelRef, query } = action.payload;
+          const kernel = selectors.kernel(state$.value, { kernelRef });
+          if (!kernel || !kernel.channels) {
+            return of(
+              actions.fetchKernelHistoryFailed({
+                kernelRef,
+                error: new Error("The kernel is not running.")
+              })
+            );
+          }
+
+          return kernelHistoryPages(
+            kernel.channels as Channels,
+            query,
+            more$.pipe(filter(more => more.payload.kernelRef === kernelRef))
+          ).pipe(
+            map(page =>
+              actions.fetchKernelHistoryFulfilled({ kernelRef, ...page })
+            ),
+            catchError((error: Error) =>
+              of(actions.fetchKernelHistoryFailed({ kernelRef, error }))
+            )
+          );
+        })
+      )
+    )
+  );
+}
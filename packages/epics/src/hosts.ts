@@ -2,7 +2,7 @@ import * as actions from "@nteract/actions";
 import { toJS } from "@nteract/commutable";
 import { NotebookV4 } from "@nteract/commutable/lib/v4";
 import * as selectors from "@nteract/selectors";
-import { AppState, DirectoryContentRecordProps, DummyContentRecordProps, FileContentRecordProps, IContentProvider, NotebookContentRecordProps, ServerConfig } from "@nteract/types";
+import { AppState, ConsoleContentRecordProps, DirectoryContentRecordProps, DummyContentRecordProps, FileContentRecordProps, IContentProvider, NotebookContentRecordProps, ServerConfig, TerminalContentRecordProps } from "@nteract/types";
 import { RecordOf } from "immutable";
 import { ofType, StateObservable } from "redux-observable";
 import { bookstore } from "rx-jupyter";
@@ -51,6 +51,8 @@ export function publishToBookstore(
         | RecordOf<DummyContentRecordProps>
         | RecordOf<FileContentRecordProps>
         | RecordOf<DirectoryContentRecordProps>
+        | RecordOf<ConsoleContentRecordProps>
+        | RecordOf<TerminalContentRecordProps>
         | undefined = selectors
         .contentByRef(state)
         .get(action.payload.contentRef);
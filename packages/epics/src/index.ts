@@ -1,4 +1,21 @@
-import { commListenEpic } from "./comm";
+import {
+  createCheckpointEpic,
+  deleteCheckpointEpic,
+  fetchCheckpointsEpic,
+  restoreCheckpointEpic
+} from "./checkpoints";
+import {
+  closeCommEpic,
+  commListenEpic,
+  fetchCommInfoEpic,
+  openCommEpic,
+  sendCommMessageEpic
+} from "./comm";
+import {
+  executeConsolePromptEpic,
+  exportConsoleEpic,
+  fetchConsoleHistoryEpic
+} from "./console";
 import {
   autoSaveCurrentContentEpic,
   closeNotebookEpic,
@@ -7,6 +24,14 @@ import {
   saveContentEpic,
   updateContentEpic
 } from "./contents";
+import {
+  debugEventsEpic,
+  debugStepEpic,
+  selectDebugFrameEpic,
+  startDebuggingEpic,
+  stopDebuggingEpic,
+  syncBreakpointsEpic
+} from "./debugger";
 import {
   executeAllCellsEpic,
   executeCellAfterKernelLaunchEpic,
@@ -17,6 +42,8 @@ import {
   sendInputReplyEpic,
   updateDisplayEpic
 } from "./execute";
+import { fetchKernelHistoryEpic } from "./history";
+import { requestWidgetStatesEpic, widgetMessagesEpic } from "./ipywidgets";
 import { publishToBookstore, publishToBookstoreAfterSave } from "./hosts";
 import {
   acquireKernelInfoEpic,
@@ -25,6 +52,27 @@ import {
   watchExecutionStateEpic
 } from "./kernel-lifecycle";
 import { fetchKernelspecsEpic } from "./kernelspecs";
+import { runWithParametersEpic } from "./parameters";
+import {
+  analyzeCellDependenciesEpic,
+  executeDownstreamCellsEpic,
+  executeStaleCellsEpic
+} from "./reactive";
+import {
+  discardJournalEpic,
+  journalUnsavedNotebooksEpic,
+  offerRecoveryEpic
+} from "./recovery";
+import {
+  fetchTerminalsEpic,
+  killTerminalEpic,
+  openTerminalEpic
+} from "./terminals";
+import {
+  fetchKernelVariablesEpic,
+  inspectKernelVariableEpic,
+  refreshKernelVariablesEpic
+} from "./variables";
 import {
   changeWebSocketKernelEpic,
   interruptKernelEpic,
@@ -62,7 +110,40 @@ const allEpics = [
   publishToBookstoreAfterSave,
   restartWebSocketKernelEpic,
   sendInputReplyEpic,
-  closeNotebookEpic
+  closeNotebookEpic,
+  fetchCheckpointsEpic,
+  createCheckpointEpic,
+  restoreCheckpointEpic,
+  deleteCheckpointEpic,
+  journalUnsavedNotebooksEpic,
+  discardJournalEpic,
+  offerRecoveryEpic,
+  startDebuggingEpic,
+  debugEventsEpic,
+  debugStepEpic,
+  selectDebugFrameEpic,
+  syncBreakpointsEpic,
+  stopDebuggingEpic,
+  fetchKernelVariablesEpic,
+  inspectKernelVariableEpic,
+  refreshKernelVariablesEpic,
+  executeConsolePromptEpic,
+  fetchConsoleHistoryEpic,
+  exportConsoleEpic,
+  fetchKernelHistoryEpic,
+  openCommEpic,
+  sendCommMessageEpic,
+  closeCommEpic,
+  fetchCommInfoEpic,
+  widgetMessagesEpic,
+  requestWidgetStatesEpic,
+  openTerminalEpic,
+  fetchTerminalsEpic,
+  killTerminalEpic,
+  runWithParametersEpic,
+  analyzeCellDependenciesEpic,
+  executeDownstreamCellsEpic,
+  executeStaleCellsEpic
 ];
 
 export {
@@ -93,5 +174,38 @@ export {
   publishToBookstoreAfterSave,
   restartWebSocketKernelEpic,
   sendInputReplyEpic,
-  closeNotebookEpic
+  closeNotebookEpic,
+  fetchCheckpointsEpic,
+  createCheckpointEpic,
+  restoreCheckpointEpic,
+  deleteCheckpointEpic,
+  journalUnsavedNotebooksEpic,
+  discardJournalEpic,
+  offerRecoveryEpic,
+  startDebuggingEpic,
+  debugEventsEpic,
+  debugStepEpic,
+  selectDebugFrameEpic,
+  syncBreakpointsEpic,
+  stopDebuggingEpic,
+  fetchKernelVariablesEpic,
+  inspectKernelVariableEpic,
+  refreshKernelVariablesEpic,
+  executeConsolePromptEpic,
+  fetchConsoleHistoryEpic,
+  exportConsoleEpic,
+  fetchKernelHistoryEpic,
+  openCommEpic,
+  sendCommMessageEpic,
+  closeCommEpic,
+  fetchCommInfoEpic,
+  widgetMessagesEpic,
+  requestWidgetStatesEpic,
+  openTerminalEpic,
+  fetchTerminalsEpic,
+  killTerminalEpic,
+  runWithParametersEpic,
+  analyzeCellDependenciesEpic,
+  executeDownstreamCellsEpic,
+  executeStaleCellsEpic
 };
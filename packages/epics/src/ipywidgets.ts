@@ -1,20 +1,133 @@
 import { ofMessageType, JupyterMessage } from "@nteract/messaging";
+import * as actions from "@nteract/actions";
 import { commOpenAction, appendOutput, executeFailed } from "@nteract/actions";
 import * as selectors from "@nteract/selectors";
 import {
+  CommsRecord,
   ContentRef,
+  KernelRef,
   RemoteKernelProps,
   LocalKernelProps,
   DocumentRecordProps,
   EmptyModelRecordProps,
   FileModelRecordProps,
   DirectoryModelRecordProps,
-  errors
+  ConsoleModelRecordProps,
+  TerminalModelRecordProps,
+  errors,
+  SavedWidgetModel,
+  WIDGET_COMM_TARGET,
+  WidgetStateMetadata
 } from "@nteract/types";
+import { ofType } from "redux-observable";
 
-import { of } from "rxjs";
-import { filter, switchMap, catchError } from "rxjs/operators";
-import { RecordOf } from "immutable";
+import { from, merge, Observable, of } from "rxjs";
+import { filter, map, mergeMap, switchMap, catchError } from "rxjs/operators";
+import { Map, RecordOf } from "immutable";
+
+type Buffer = ArrayBuffer | ArrayBufferView;
+
+/**
+ * Takes the binary values out of the state of a widget, so that they can be
+ * sent as buffers of a message or saved separately. Like ipywidgets does,
+ * binary items of lists are replaced with null.
+ *
+ * @param state The state of a widget
+ *
+ * @returns The state without binary values, and the path of each of them
+ */
+export function removeBuffers(state: { [key: string]: any }) {
+  const buffers: Buffer[] = [];
+  const bufferPaths: Array<Array<string | number>> = [];
+
+  const isBuffer = (value: any): value is Buffer =>
+    value instanceof ArrayBuffer || ArrayBuffer.isView(value);
+
+  const remove = (value: any, path: Array<string | number>): any => {
+    if (Array.isArray(value)) {
+      return value.map((item, index) => {
+        if (isBuffer(item)) {
+          buffers.push(item);
+          bufferPaths.push([...path, index]);
+          return null;
+        }
+        return remove(item, [...path, index]);
+      });
+    }
+    if (value && typeof value === "object" && value.constructor === Object) {
+      return Object.keys(value).reduce((withoutBuffers, key) => {
+        if (isBuffer(value[key])) {
+          buffers.push(value[key]);
+          bufferPaths.push([...path, key]);
+          return withoutBuffers;
+        }
+        return { ...withoutBuffers, [key]: remove(value[key], [...path, key]) };
+      }, {});
+    }
+    return value;
+  };
+
+  return { state: remove(state, []), bufferPaths, buffers };
+}
+
+function encodeBuffer(buffer: Buffer): string {
+  const bytes = ArrayBuffer.isView(buffer)
+    ? new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+    : new Uint8Array(buffer);
+  let binary = "";
+  for (let index = 0; index < bytes.length; index++) {
+    binary += String.fromCharCode(bytes[index]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * The state of the widgets to save in the metadata of a notebook, under
+ * `widgets["application/vnd.jupyter.widget-state+json"]`.
+ *
+ * @param comms The comms of all kernels
+ * @param kernelRef The kernel of the notebook, only its widgets are saved
+ *
+ * @returns The state, or null if there are no widgets
+ */
+export function widgetStateMetadata(
+  comms: CommsRecord,
+  kernelRef: KernelRef
+): WidgetStateMetadata | null {
+  const models: { [modelId: string]: SavedWidgetModel } = {};
+
+  comms.info.forEach((info: Map<string, any>, commId: string) => {
+    const widgetState = comms.models.getIn([commId, "state"]);
+    if (
+      info.get("target_name") !== WIDGET_COMM_TARGET ||
+      info.get("kernelRef") !== kernelRef ||
+      !widgetState
+    ) {
+      return;
+    }
+
+    const { state, bufferPaths, buffers } = removeBuffers(widgetState.toJS());
+    models[commId] = {
+      model_name: state._model_name,
+      model_module: state._model_module,
+      model_module_version: state._model_module_version,
+      state,
+      ...(buffers.length > 0
+        ? {
+            buffers: buffers.map((buffer, index) => ({
+              path: bufferPaths[index],
+              encoding: "base64" as const,
+              data: encodeBuffer(buffer)
+            }))
+          }
+        : {})
+    };
+  });
+
+  return Object.keys(models).length > 0
+    ? { version_major: 2, version_minor: 0, state: models }
+    : null;
+}
 
 /**
  * Listen for comm_open messages from the kernel that are associated
@@ -31,8 +144,11 @@ export const ipywidgetsModel$ = (
     | RecordOf<EmptyModelRecordProps>
     | RecordOf<FileModelRecordProps>
     | RecordOf<DirectoryModelRecordProps>
+    | RecordOf<ConsoleModelRecordProps>
+    | RecordOf<TerminalModelRecordProps>
     | null,
-  contentRef: ContentRef
+  contentRef: ContentRef,
+  kernelRef?: KernelRef
 ) =>
   kernel.channels.pipe(
     ofMessageType("comm_open"),
@@ -48,7 +164,7 @@ export const ipywidgetsModel$ = (
     }),
     switchMap((msg: JupyterMessage) => {
       return of(
-        commOpenAction(msg),
+        commOpenAction(msg, kernelRef),
         /**
          * If the content we are running under is a notebook,
          * then append a mock output for the linkModel to the
@@ -100,3 +216,100 @@ export const ipywidgetsModel$ = (
     );
     })
   );
+
+/**
+ * Sends what the views of widgets do to the kernel: state updates, requests
+ * for the whole state and custom messages.
+ */
+export const widgetMessagesEpic = (
+  action$: Observable<
+    | actions.UpdateWidgetState
+    | actions.RequestWidgetState
+    | actions.SendWidgetCustomMessage
+  >
+): Observable<actions.SendCommMessage> => {
+  const updates$: Observable<actions.UpdateWidgetState> = action$.pipe(
+    ofType(actions.UPDATE_WIDGET_STATE)
+  );
+  const stateRequests$: Observable<actions.RequestWidgetState> = action$.pipe(
+    ofType(actions.REQUEST_WIDGET_STATE)
+  );
+  const customMessages$: Observable<actions.SendWidgetCustomMessage> = action$.pipe(
+    ofType(actions.SEND_WIDGET_CUSTOM_MESSAGE)
+  );
+
+  return merge(
+    updates$.pipe(
+      map(action => {
+        const { kernelRef, commId } = action.payload;
+        const { state, bufferPaths, buffers } = removeBuffers(
+          action.payload.state
+        );
+        return actions.sendCommMessage({
+          kernelRef,
+          commId,
+          data: { method: "update", state, buffer_paths: bufferPaths },
+          buffers
+        });
+      })
+    ),
+    stateRequests$.pipe(
+      map(action => {
+        const { kernelRef, commId } = action.payload;
+        return actions.sendCommMessage({
+          kernelRef,
+          commId,
+          data: { method: "request_state" }
+        });
+      })
+    ),
+    customMessages$.pipe(
+      map(action => {
+        const { kernelRef, commId, content, buffers } = action.payload;
+        return actions.sendCommMessage({
+          kernelRef,
+          commId,
+          data: { method: "custom", content },
+          buffers
+        });
+      })
+    )
+  );
+};
+
+/**
+ * Widgets a kernel created before we connected to it, e.g. before the page
+ * was reloaded, only have views once their state is asked for.
+ */
+export const requestWidgetStatesEpic = (
+  action$: Observable<actions.NewKernelAction | actions.FetchCommInfoFulfilled>
+): Observable<actions.FetchCommInfo | actions.RequestWidgetState> => {
+  const launched$: Observable<actions.NewKernelAction> = action$.pipe(
+    ofType(actions.LAUNCH_KERNEL_SUCCESSFUL)
+  );
+  const listed$: Observable<actions.FetchCommInfoFulfilled> = action$.pipe(
+    ofType(actions.FETCH_COMM_INFO_FULFILLED)
+  );
+
+  return merge(
+    launched$.pipe(
+      map(action =>
+        actions.fetchCommInfo({
+          kernelRef: action.payload.kernelRef,
+          targetName: WIDGET_COMM_TARGET
+        })
+      )
+    ),
+    listed$.pipe(
+      mergeMap(action => {
+        const { kernelRef, comms } = action.payload;
+        const widgets = Object.keys(comms).filter(
+          commId => comms[commId].target_name === WIDGET_COMM_TARGET
+        );
+        return from(widgets).pipe(
+          map(commId => actions.requestWidgetState({ kernelRef, commId }))
+        );
+      })
+    )
+  );
+};
@@ -114,7 +114,8 @@ export function acquireKernelInfo(
         fileExtension: l.file_extension,
         pygmentsLexer: l.pygments_lexer,
         codemirrorMode: l.codemirror_mode,
-        nbconvertExporter: l.nbconvert_exporter
+        nbconvertExporter: l.nbconvert_exporter,
+        debugger: !!c.debugger
       };
 
       let result: AnyAction[];
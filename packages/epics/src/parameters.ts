@@ -0,0 +1,137 @@
+import * as actions from "@nteract/actions";
+import { notebookLanguage, parametersSource } from "@nteract/commutable";
+import * as selectors from "@nteract/selectors";
+import { AppState, ContentRef } from "@nteract/types";
+import { ofType, StateObservable } from "redux-observable";
+import { concat, defer, merge, Observable, of } from "rxjs";
+import { filter, first, map, mergeMap } from "rxjs/operators";
+
+type RunWithParametersActions =
+  | actions.RunWithParameters
+  | actions.UpdateCellStatus
+  | actions.ExecuteCanceled
+  | actions.ExecuteFailed
+  | actions.SaveAsFulfilled
+  | actions.SaveAsFailed;
+
+/**
+ * Emits once the last code cell of the notebook is done running, or with the
+ * error that stopped it from getting there.
+ */
+function executed(
+  action$: Observable<RunWithParametersActions>,
+  state$: StateObservable<AppState>,
+  contentRef: ContentRef
+): Observable<Error | null> {
+  // The injected cell has to be in the notebook to know which cell runs last
+  return defer(() => {
+    const model = selectors.model(state$.value, { contentRef });
+    const lastCellId =
+      model && model.type === "notebook"
+        ? selectors.notebook.codeCellIds(model).last(undefined)
+        : undefined;
+    if (!lastCellId) {
+      return of(null);
+    }
+
+    const idle$: Observable<actions.UpdateCellStatus> = action$.pipe(
+      ofType(actions.UPDATE_CELL_STATUS)
+    );
+    const stopped$: Observable<
+      actions.ExecuteCanceled | actions.ExecuteFailed
+    > = action$.pipe(ofType(actions.EXECUTE_CANCELED, actions.EXECUTE_FAILED));
+
+    return merge(
+      idle$.pipe(
+        filter(
+          action =>
+            action.payload.contentRef === contentRef &&
+            action.payload.id === lastCellId &&
+            action.payload.status === "idle"
+        ),
+        map(() => null)
+      ),
+      stopped$.pipe(
+        filter(action => action.payload.contentRef === contentRef),
+        map(action =>
+          action.type === actions.EXECUTE_FAILED
+            ? action.payload.error
+            : new Error("A cell raised an error, the notebook stopped running")
+        )
+      )
+    ).pipe(first());
+  });
+}
+
+/**
+ * Runs a notebook the way papermill does: injects the parameters after the
+ * parameters cell, runs every cell in the current kernel and saves the
+ * executed notebook to a new path. The copy is saved even when a cell fails,
+ * so its outputs show what went wrong.
+ */
+export const runWithParametersEpic = (
+  action$: Observable<RunWithParametersActions>,
+  state$: StateObservable<AppState>
+) => {
+  const run$: Observable<actions.RunWithParameters> = action$.pipe(
+    ofType(actions.RUN_WITH_PARAMETERS)
+  );
+  const saved$: Observable<
+    actions.SaveAsFulfilled | actions.SaveAsFailed
+  > = action$.pipe(ofType(actions.SAVE_AS_FULFILLED, actions.SAVE_AS_FAILED));
+
+  return run$.pipe(
+    mergeMap(action => {
+      const { contentRef, parameters, filepath } = action.payload;
+
+      const model = selectors.model(state$.value, { contentRef });
+      if (!model || model.type !== "notebook") {
+        return of(
+          actions.runWithParametersFailed({
+            contentRef,
+            error: new Error("Only notebooks can be run with parameters")
+          })
+        );
+      }
+      try {
+        parametersSource(parameters, notebookLanguage(model.notebook));
+      } catch (error) {
+        return of(actions.runWithParametersFailed({ contentRef, error }));
+      }
+
+      return concat(
+        of(
+          actions.injectParameters({ contentRef, parameters }),
+          actions.executeAllCells({ contentRef })
+        ),
+        executed(action$, state$, contentRef).pipe(
+          mergeMap(executionError =>
+            concat(
+              of(actions.saveAs({ contentRef, filepath })),
+              saved$.pipe(
+                first(saved => saved.payload.contentRef === contentRef),
+                map(saved => {
+                  if (saved.type === actions.SAVE_AS_FAILED) {
+                    return actions.runWithParametersFailed({
+                      contentRef,
+                      error: saved.payload.error
+                    });
+                  }
+                  return executionError
+                    ? actions.runWithParametersFailed({
+                        contentRef,
+                        error: executionError
+                      })
+                    : actions.runWithParametersFulfilled({
+                        contentRef,
+                        filepath
+                      });
+                })
+              )
+            )
+          )
+        )
+      );
+    })
+  );
+};
@@ -0,0 +1,144 @@
+import * as actions from "@nteract/actions";
+import {
+  analyzeNames,
+  CellId,
+  CellNames,
+  notebookLanguage
+} from "@nteract/commutable";
+import * as selectors from "@nteract/selectors";
+import { AppState, ContentRef, NotebookModel } from "@nteract/types";
+import { ofType, StateObservable } from "redux-observable";
+import { EMPTY, Observable, of } from "rxjs";
+import { mergeMap } from "rxjs/operators";
+
+/**
+ * The notebook of a content, if it runs in reactive mode.
+ */
+function reactiveNotebook(
+  state: AppState,
+  contentRef: ContentRef
+): NotebookModel | null {
+  const model = selectors.model(state, { contentRef });
+  return model &&
+    model.type === "notebook" &&
+    selectors.notebook.isReactive(model)
+    ? model
+    : null;
+}
+
+/**
+ * The names the code cells define and use, from their current source.
+ * Cells in a language without an analysis are left out.
+ */
+function analyzeCells(
+  model: NotebookModel,
+  ids: Iterable<CellId>
+): { [id: string]: CellNames } {
+  const language = notebookLanguage(model.notebook);
+  const dependencies: { [id: string]: CellNames } = {};
+  for (const id of ids) {
+    const cell = selectors.notebook.cellById(model, { id });
+    const names =
+      cell && cell.cell_type === "code"
+        ? analyzeNames(cell.source, language)
+        : null;
+    if (names) {
+      dependencies[id] = names;
+    }
+  }
+  return dependencies;
+}
+
+/**
+ * Keeps the dependency graph of a notebook in reactive mode up to date: every
+ * code cell is analyzed when the mode is turned on, then each cell again with
+ * the source it runs.
+ */
+export const analyzeCellDependenciesEpic = (
+  action$: Observable<actions.SetReactiveMode | actions.SendExecuteRequest>,
+  state$: StateObservable<AppState>
+) =>
+  action$.pipe(
+    ofType(actions.SET_REACTIVE_MODE, actions.SEND_EXECUTE_REQUEST),
+    mergeMap((action: actions.SetReactiveMode | actions.SendExecuteRequest) => {
+      const { contentRef } = action.payload;
+      const model = reactiveNotebook(state$.value, contentRef);
+      if (!model) {
+        return EMPTY;
+      }
+
+      const dependencies = analyzeCells(
+        model,
+        action.type === actions.SET_REACTIVE_MODE
+          ? selectors.notebook.codeCellIds(model)
+          : [action.payload.id]
+      );
+      return Object.keys(dependencies).length > 0
+        ? of(actions.updateCellDependencies({ contentRef, dependencies }))
+        : EMPTY;
+    })
+  );
+
+/**
+ * Once a cell of a notebook in reactive mode ran, marks the cells that depend
+ * on it stale and runs them again. Cells already running or waiting in the
+ * execution queue aren't queued twice, they'll see the new values when their
+ * turn comes.
+ */
+export const executeDownstreamCellsEpic = (
+  action$: Observable<actions.ExecuteSuccessful>,
+  state$: StateObservable<AppState>
+) =>
+  action$.pipe(
+    ofType(actions.EXECUTE_SUCCESSFUL),
+    mergeMap((action: actions.ExecuteSuccessful) => {
+      const { contentRef, id } = action.payload;
+      const state = state$.value;
+      const model = reactiveNotebook(state, contentRef);
+      const downstream = model
+        ? selectors.notebook.downstreamCells(model, { id })
+        : [];
+      if (downstream.length === 0) {
+        return EMPTY;
+      }
+
+      const queue = selectors.executionQueue(state, {
+        kernelRef: selectors.kernelRefByContentRef(state, { contentRef })
+      });
+      const running =
+        queue && queue.running && queue.running.contentRef === contentRef
+          ? queue.running.id
+          : null;
+      const queued = selectors
+        .queuedExecutionsByContentRef(state, { contentRef })
+        .map(execution => execution.id);
+      return of<actions.MarkCellsStale | actions.ExecuteCell>(
+        actions.markCellsStale({ contentRef, ids: downstream }),
+        ...downstream
+          .filter(cellId => cellId !== running && !queued.includes(cellId))
+          .map(cellId => actions.executeCell({ contentRef, id: cellId }))
+      );
+    })
+  );
+
+/**
+ * Runs the stale cells of a notebook again, in notebook order.
+ */
+export const executeStaleCellsEpic = (
+  action$: Observable<actions.ExecuteStaleCells>,
+  state$: StateObservable<AppState>
+) =>
+  action$.pipe(
+    ofType(actions.EXECUTE_STALE_CELLS),
+    mergeMap((action: actions.ExecuteStaleCells) => {
+      const { contentRef } = action.payload;
+      const model = selectors.model(state$.value, { contentRef });
+      if (!model || model.type !== "notebook") {
+        return EMPTY;
+      }
+      const ids = selectors.notebook.staleCellIds(model).toArray();
+      return ids.length > 0
+        ? of(actions.executeCells({ contentRef, ids }))
+        : EMPTY;
+    })
+  );
@@ -0,0 +1,163 @@
+import * as actions from "@nteract/actions";
+import { ImmutableNotebook, toJS } from "@nteract/commutable";
+import { defineConfigOption } from "@nteract/mythic-configuration";
+import * as selectors from "@nteract/selectors";
+import { AppState, ContentRef, IJournalEntry, IRecoveryJournal, NotebookModel } from "@nteract/types";
+import { Action } from "redux";
+import { ofType, StateObservable } from "redux-observable";
+import { EMPTY, from, interval, Observable, of } from "rxjs";
+import { catchError, concatMap, distinctUntilChanged, filter, ignoreElements, map, mergeMap, switchMap, tap } from "rxjs/operators";
+
+const { selector: recoveryJournalInterval } = defineConfigOption({
+  key: "recoveryJournalInterval",
+  label: "Crash recovery snapshot interval",
+  defaultValue: 10_000,
+});
+
+/**
+ * Apps without a recovery journal simply don't journal.
+ */
+type RecoveryDependencies = { recoveryJournal?: IRecoveryJournal } | undefined;
+
+/**
+ * Saved notebooks with edits that are not on disk yet
+ */
+function dirtyNotebooks(
+  state: AppState
+): Array<{ contentRef: ContentRef; filepath: string; notebook: ImmutableNotebook }> {
+  return selectors
+    .contentByRef(state)
+    .filter(content =>
+      content.type === "notebook" &&
+      content.filepath !== "" &&
+      selectors.notebook.isDirty(content.model as NotebookModel)
+    )
+    .map((content, contentRef) => ({
+      contentRef,
+      filepath: content.filepath,
+      notebook: (content.model as NotebookModel).notebook,
+    }))
+    .valueSeq()
+    .toArray();
+}
+
+/**
+ * Periodically snapshots the unsaved edits of notebooks to the recovery
+ * journal. Notebooks that have not changed since their last snapshot are
+ * left alone.
+ */
+export function journalUnsavedNotebooksEpic(
+  action$: Observable<Action>,
+  state$: StateObservable<AppState>,
+  dependencies: RecoveryDependencies
+): Observable<actions.RecoveryJournalFailed> {
+  const recoveryJournal = dependencies?.recoveryJournal;
+  if (!recoveryJournal) {
+    return EMPTY;
+  }
+
+  const journaled = new Map<ContentRef, ImmutableNotebook>();
+  return state$.pipe(
+    map(state => recoveryJournalInterval(state)),
+    distinctUntilChanged(),
+    switchMap(time => interval(time)),
+    mergeMap(() =>
+      from(
+        dirtyNotebooks(state$.value).filter(
+          ({ contentRef, notebook }) => journaled.get(contentRef) !== notebook
+        )
+      )
+    ),
+    concatMap(({ contentRef, filepath, notebook }) => {
+      const entry: IJournalEntry = {
+        filepath,
+        journaledAt: new Date().toISOString(),
+        notebook: toJS(notebook),
+      };
+      return recoveryJournal.write(entry).pipe(
+        tap(() => journaled.set(contentRef, notebook)),
+        ignoreElements(),
+        catchError((error: Error) =>
+          of(actions.recoveryJournalFailed({ contentRef, error }))
+        )
+      );
+    })
+  );
+}
+
+/**
+ * Once a notebook is saved, or its recovered edits are declined, there is
+ * nothing left to recover.
+ */
+export function discardJournalEpic(
+  action$: Observable<actions.SaveFulfilled | actions.DiscardRecovery>,
+  state$: StateObservable<AppState>,
+  dependencies: RecoveryDependencies
+): Observable<actions.RecoveryJournalFailed> {
+  const recoveryJournal = dependencies?.recoveryJournal;
+  if (!recoveryJournal) {
+    return EMPTY;
+  }
+
+  return action$.pipe(
+    ofType(actions.SAVE_FULFILLED, actions.DISCARD_RECOVERY),
+    concatMap((action: actions.SaveFulfilled | actions.DiscardRecovery) => {
+      const { contentRef } = action.payload;
+      const content = selectors.content(state$.value, { contentRef });
+      if (!content || content.type !== "notebook" || !content.filepath) {
+        return EMPTY;
+      }
+
+      return recoveryJournal.discard(content.filepath).pipe(
+        ignoreElements(),
+        catchError((error: Error) =>
+          of(actions.recoveryJournalFailed({ contentRef, error }))
+        )
+      );
+    })
+  );
+}
+
+/**
+ * When a notebook is opened, offers the snapshot of its unsaved edits if it
+ * is newer than the file. Older snapshots were superseded by a save from
+ * elsewhere and are dropped.
+ */
+export function offerRecoveryEpic(
+  action$: Observable<actions.FetchContentFulfilled>,
+  state$: StateObservable<AppState>,
+  dependencies: RecoveryDependencies
+): Observable<actions.RecoveryAvailable | actions.RecoveryJournalFailed> {
+  const recoveryJournal = dependencies?.recoveryJournal;
+  if (!recoveryJournal) {
+    return EMPTY;
+  }
+
+  return action$.pipe(
+    ofType(actions.FETCH_CONTENT_FULFILLED),
+    filter((action: actions.FetchContentFulfilled) =>
+      action.payload.model.type === "notebook"
+    ),
+    mergeMap((action: actions.FetchContentFulfilled) => {
+      const { contentRef, filepath, model } = action.payload;
+      return recoveryJournal.read(filepath).pipe(
+        mergeMap((entry: IJournalEntry | null) => {
+          if (!entry) {
+            return EMPTY;
+          }
+
+          const journaledAt = new Date(entry.journaledAt).getTime();
+          const lastModified = new Date(model.last_modified).getTime();
+          if (journaledAt <= lastModified) {
+            return recoveryJournal.discard(filepath).pipe(ignoreElements());
+          }
+
+          return of(actions.recoveryAvailable({ contentRef, entry }));
+        }),
+        catchError((error: Error) =>
+          of(actions.recoveryJournalFailed({ contentRef, error }))
+        )
+      );
+    })
+  );
+}
@@ -0,0 +1,148 @@
+import * as actions from "@nteract/actions";
+import * as selectors from "@nteract/selectors";
+import { AppState, ServerConfig } from "@nteract/types";
+import { ofType, StateObservable } from "redux-observable";
+import { terminals } from "rx-jupyter";
+import { concat, EMPTY, merge, Observable, of } from "rxjs";
+import { AjaxResponse } from "rxjs/ajax";
+import {
+  catchError,
+  endWith,
+  filter,
+  ignoreElements,
+  map,
+  mergeMap,
+  switchMap,
+  takeUntil
+} from "rxjs/operators";
+
+/**
+ * Terminals are sessions of a Jupyter server, other hosts don't have them.
+ */
+function jupyterServerConfig(state: AppState): ServerConfig | null {
+  const host = selectors.currentHost(state);
+  return host && host.type === "jupyter" ? selectors.serverConfig(host) : null;
+}
+
+const NO_JUPYTER_SERVER = "Terminals are only available on a Jupyter server";
+
+/**
+ * Opens the terminal session named in the action, or creates a new one, and
+ * connects to its websocket until the content showing it is disposed or
+ * opens another session.
+ */
+export const openTerminalEpic = (
+  action$: Observable<actions.OpenTerminal | actions.DisposeContent>,
+  state$: StateObservable<AppState>
+) => {
+  const open$: Observable<actions.OpenTerminal> = action$.pipe(
+    ofType(actions.OPEN_TERMINAL)
+  );
+  const disposed$: Observable<actions.DisposeContent> = action$.pipe(
+    ofType(actions.DISPOSE_CONTENT)
+  );
+
+  return open$.pipe(
+    mergeMap(action => {
+      const { contentRef, name } = action.payload;
+      const serverConfig = jupyterServerConfig(state$.value);
+      if (!serverConfig) {
+        return of(
+          actions.openTerminalFailed({
+            contentRef,
+            error: new Error(NO_JUPYTER_SERVER)
+          })
+        );
+      }
+
+      const name$: Observable<string> = name
+        ? of(name)
+        : terminals
+            .create(serverConfig)
+            .pipe(map((xhr: AjaxResponse) => xhr.response.name));
+
+      return name$.pipe(
+        mergeMap(terminalName => {
+          const channel = terminals.connect(serverConfig, terminalName);
+          return concat(
+            of(
+              actions.terminalConnected({
+                contentRef,
+                name: terminalName,
+                channel
+              })
+            ),
+            // The session is over once the server closes the websocket
+            channel.pipe(
+              ignoreElements(),
+              catchError(() => EMPTY),
+              endWith(actions.terminalDisconnected({ contentRef }))
+            )
+          );
+        }),
+        catchError(error => of(actions.openTerminalFailed({ contentRef, error }))),
+        takeUntil(
+          merge(
+            disposed$.pipe(
+              filter(disposed => disposed.payload.contentRef === contentRef)
+            ),
+            open$.pipe(
+              filter(reopened => reopened.payload.contentRef === contentRef)
+            )
+          )
+        )
+      );
+    })
+  );
+};
+
+/**
+ * Lists the terminal sessions running on the server.
+ */
+export const fetchTerminalsEpic = (
+  action$: Observable<actions.FetchTerminals>,
+  state$: StateObservable<AppState>
+) =>
+  action$.pipe(
+    ofType(actions.FETCH_TERMINALS),
+    switchMap(() => {
+      const serverConfig = jupyterServerConfig(state$.value);
+      if (!serverConfig) {
+        return of(actions.fetchTerminalsFailed(new Error(NO_JUPYTER_SERVER)));
+      }
+
+      return terminals.list(serverConfig).pipe(
+        map((xhr: AjaxResponse) =>
+          actions.fetchTerminalsFulfilled({
+            names: xhr.response.map((terminal: { name: string }) => terminal.name)
+          })
+        ),
+        catchError(error => of(actions.fetchTerminalsFailed(error)))
+      );
+    })
+  );
+
+/**
+ * Shuts down a terminal session, which closes the websockets connected to it.
+ */
+export const killTerminalEpic = (
+  action$: Observable<actions.KillTerminal>,
+  state$: StateObservable<AppState>
+) =>
+  action$.pipe(
+    ofType(actions.KILL_TERMINAL),
+    mergeMap((action: actions.KillTerminal) => {
+      const { name } = action.payload;
+      const serverConfig = jupyterServerConfig(state$.value);
+      if (!serverConfig) {
+        return of(
+          actions.killTerminalFailed({ name, error: new Error(NO_JUPYTER_SERVER) })
+        );
+      }
+
+      return terminals.destroy(serverConfig, name).pipe(
+        map(() => actions.killTerminalFulfilled({ name })),
+        catchError(error => of(actions.killTerminalFailed({ name, error })))
+      );
+    })
+  );
@@ -0,0 +1,338 @@
+import * as actions from "@nteract/actions";
+import {
+  Channels,
+  childOf,
+  executeRequest,
+  JupyterMessage,
+  ofMessageType
+} from "@nteract/messaging";
+import * as selectors from "@nteract/selectors";
+import {
+  AppState,
+  KernelRef,
+  KernelVariable,
+  KernelVariableOutput
+} from "@nteract/types";
+import { ofType, StateObservable } from "redux-observable";
+import { merge, Observable, Observer, of, throwError, zip } from "rxjs";
+import {
+  catchError,
+  debounceTime,
+  filter,
+  first,
+  groupBy,
+  map,
+  mergeMap,
+  share,
+  switchMap,
+  takeWhile,
+  toArray
+} from "rxjs/operators";
+
+import { sendDebugRequest } from "./debugger";
+
+/**
+ * Many cells are run in a row when running all cells, only list the
+ * variables once they are all done.
+ */
+const VARIABLE_REFRESH_DELAY = 300;
+
+/**
+ * Code that lists the variables of a kernel and shows a single one of them,
+ * for a kernel language.
+ */
+export interface VariableQueries {
+  /**
+   * Prints the variables as a JSON array of `KernelVariable`s
+   */
+  list: string;
+  /**
+   * Displays the rich representation of a variable
+   */
+  inspect: (name: string) => string;
+}
+
+/**
+ * The variable queries of each kernel language, by the language name in
+ * lower case. Kernels of other languages can still have their variables
+ * inspected while they are being debugged.
+ */
+export const variableQueries: { [language: string]: VariableQueries } = {
+  python: {
+    list: `
+def _nteract_list_variables():
+    import json, reprlib, types
+    hidden_types = (types.ModuleType, types.FunctionType, types.BuiltinFunctionType, types.MethodType, type)
+    shell = get_ipython()
+    hidden = getattr(shell, "user_ns_hidden", {})
+    short = reprlib.Repr()
+    short.maxstring = short.maxother = 120
+    variables = []
+    for name, value in list(shell.user_ns.items()):
+        if name.startswith("_") or name in hidden or isinstance(value, hidden_types):
+            continue
+        shape = getattr(value, "shape", None)
+        if shape is None and hasattr(value, "__len__"):
+            try:
+                shape = (len(value),)
+            except Exception:
+                shape = None
+        try:
+            text = short.repr(value)
+        except Exception as error:
+            text = "<repr failed: %s>" % error
+        variables.append({
+            "name": name,
+            "type": type(value).__name__,
+            "shape": None if shape is None else str(tuple(shape)),
+            "repr": text,
+        })
+    print(json.dumps(variables))
+try:
+    _nteract_list_variables()
+finally:
+    del _nteract_list_variables
+`,
+    inspect: (name: string) => `__import__("IPython").display.display(${name})`
+  }
+};
+
+// Names are pasted into code, so only plain identifiers are inspected
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Runs code without it showing up in the history or bumping the execution
+ * count. The request isn't `silent`, kernels don't send the outputs of silent
+ * executions.
+ *
+ * @returns The messages the code sent before the kernel went back to idle
+ */
+function runSilently(
+  channels: Channels,
+  code: string
+): Observable<JupyterMessage[]> {
+  const request = executeRequest(code, {
+    silent: false,
+    store_history: false,
+    allow_stdin: false
+  });
+  const messages$: Observable<JupyterMessage> = channels.pipe(
+    childOf(request),
+    share()
+  );
+
+  // Outputs come on iopub before the kernel goes idle, the reply on shell
+  const done$ = zip(
+    messages$.pipe(
+      takeWhile(
+        (msg: JupyterMessage) =>
+          msg.header.msg_type !== "status" ||
+          msg.content.execution_state !== "idle"
+      ),
+      filter((msg: JupyterMessage) => msg.header.msg_type !== "execute_reply"),
+      toArray()
+    ),
+    messages$.pipe(ofMessageType("execute_reply"), first())
+  ).pipe(
+    map(([messages, reply]) => {
+      if (reply.content.status !== "ok") {
+        throw new Error(`${reply.content.ename}: ${reply.content.evalue}`);
+      }
+      return messages;
+    })
+  );
+
+  return Observable.create((observer: Observer<JupyterMessage[]>) => {
+    const subscription = done$.subscribe(observer);
+    channels.next(request);
+    return subscription;
+  });
+}
+
+function kernelSetup(
+  state: AppState,
+  kernelRef: KernelRef
+): { channels: Channels; queries?: VariableQueries; isDebugging: boolean } {
+  const kernel = selectors.kernel(state, { kernelRef });
+  if (!kernel || !kernel.channels) {
+    throw new Error("The kernel is not running.");
+  }
+  const language = (kernel.info?.languageName || "").toLowerCase();
+  const session = selectors.debugSession(state, { kernelRef });
+
+  return {
+    channels: kernel.channels as Channels,
+    queries: variableQueries[language],
+    isDebugging: !!session && session.status !== "starting"
+  };
+}
+
+function listVariables(
+  state: AppState,
+  kernelRef: KernelRef
+): Observable<KernelVariable[]> {
+  const { channels, queries, isDebugging } = kernelSetup(state, kernelRef);
+
+  // The debugger knows the variables of any language
+  if (isDebugging) {
+    return sendDebugRequest(channels, "inspectVariables").pipe(
+      map(reply =>
+        (reply.body.variables as any[]).map(variable => ({
+          name: variable.name,
+          type: variable.type || "",
+          shape: null,
+          repr: variable.value
+        }))
+      )
+    );
+  }
+
+  if (!queries) {
+    return throwError(
+      new Error("Variables can only be listed for Python kernels.")
+    );
+  }
+
+  return runSilently(channels, queries.list).pipe(
+    map(messages =>
+      JSON.parse(
+        messages
+          .filter(
+            msg =>
+              msg.header.msg_type === "stream" && msg.content.name === "stdout"
+          )
+          .map(msg => msg.content.text)
+          .join("")
+      )
+    )
+  );
+}
+
+function inspectVariable(
+  state: AppState,
+  kernelRef: KernelRef,
+  name: string
+): Observable<KernelVariableOutput> {
+  const { channels, queries, isDebugging } = kernelSetup(state, kernelRef);
+
+  if (isDebugging) {
+    return sendDebugRequest(channels, "richInspectVariables", {
+      variableName: name
+    }).pipe(
+      map(reply => ({
+        data: reply.body.data,
+        metadata: reply.body.metadata || {}
+      }))
+    );
+  }
+
+  if (!queries || !IDENTIFIER.test(name)) {
+    return throwError(new Error(`${name} can't be inspected.`));
+  }
+
+  return runSilently(channels, queries.inspect(name)).pipe(
+    map(messages => {
+      const output = messages.find(
+        msg =>
+          msg.header.msg_type === "display_data" ||
+          msg.header.msg_type === "execute_result"
+      );
+      if (!output) {
+        throw new Error(`${name} has no representation.`);
+      }
+      return {
+        data: output.content.data,
+        metadata: output.content.metadata || {}
+      };
+    })
+  );
+}
+
+/**
+ * Lists the variables of a kernel. Requests for a kernel that is still
+ * being listed replace the pending one.
+ */
+export function fetchKernelVariablesEpic(
+  action$: Observable<actions.FetchKernelVariables>,
+  state$: StateObservable<AppState>
+): Observable<
+  actions.FetchKernelVariablesFulfilled | actions.FetchKernelVariablesFailed
+> {
+  return action$.pipe(
+    ofType(actions.FETCH_KERNEL_VARIABLES),
+    groupBy((action: actions.FetchKernelVariables) => action.payload.kernelRef),
+    mergeMap(kernelActions$ =>
+      kernelActions$.pipe(
+        switchMap((action: actions.FetchKernelVariables) => {
+          const { kernelRef } = action.payload;
+          return of(null).pipe(
+            mergeMap(() => listVariables(state$.value, kernelRef)),
+            map(variables =>
+              actions.fetchKernelVariablesFulfilled({ kernelRef, variables })
+            ),
+            catchError((error: Error) =>
+              of(actions.fetchKernelVariablesFailed({ kernelRef, error }))
+            )
+          );
+        })
+      )
+    )
+  );
+}
+
+/**
+ * Renders the rich representation of a variable.
+ */
+export function inspectKernelVariableEpic(
+  action$: Observable<actions.InspectKernelVariable>,
+  state$: StateObservable<AppState>
+): Observable<
+  actions.InspectKernelVariableFulfilled | actions.InspectKernelVariableFailed
+> {
+  return action$.pipe(
+    ofType(actions.INSPECT_KERNEL_VARIABLE),
+    switchMap((action: actions.InspectKernelVariable) => {
+      const { kernelRef, name } = action.payload;
+      return of(null).pipe(
+        mergeMap(() => inspectVariable(state$.value, kernelRef, name)),
+        map(output =>
+          actions.inspectKernelVariableFulfilled({ kernelRef, name, output })
+        ),
+        catchError((error: Error) =>
+          of(actions.inspectKernelVariableFailed({ kernelRef, name, error }))
+        )
+      );
+    })
+  );
+}
+
+/**
+ * Lists the variables again once cells are done running, for kernels whose
+ * variables are being looked at.
+ */
+export function refreshKernelVariablesEpic(
+  action$: Observable<actions.ExecuteSuccessful | actions.ExecuteFailed>,
+  state$: StateObservable<AppState>
+): Observable<actions.FetchKernelVariables> {
+  return merge(
+    action$.pipe(ofType(actions.EXECUTE_SUCCESSFUL)),
+    action$.pipe(ofType(actions.EXECUTE_FAILED))
+  ).pipe(
+    map((action: actions.ExecuteSuccessful | actions.ExecuteFailed) => {
+      const { contentRef } = action.payload;
+      return contentRef
+        ? selectors.kernelRefByContentRef(state$.value, { contentRef })
+        : null;
+    }),
+    filter(
+      (kernelRef): kernelRef is KernelRef =>
+        !!kernelRef &&
+        selectors.kernelVariables(state$.value, { kernelRef }) !== null
+    ),
+    groupBy(kernelRef => kernelRef),
+    mergeMap(kernelRefs$ =>
+      kernelRefs$.pipe(debounceTime(VARIABLE_REFRESH_DELAY))
+    ),
+    map(kernelRef => actions.fetchKernelVariables({ kernelRef }))
+  );
+}
@@ -1,11 +1,16 @@
 import cloneDeep from "lodash.clonedeep";
-import { from, of } from "rxjs";
+import { from, of, Subject } from "rxjs";
 import { count, map, tap, toArray } from "rxjs/operators";
 
 import {
   childOf,
+  commInfoRequest,
   convertOutputMessageToNotebookFormat,
+  debugRequest,
   executeRequest,
+  historyRequest,
+  isCompleteObservable,
+  isCompleteRequest,
   createMessage,
   createCommMessage,
   createCommOpenMessage,
@@ -53,6 +58,89 @@ describe("executeRequest", () => {
   });
 });
 
+describe("debugRequest", () => {
+  it("creates a debug_request message for the control channel", () => {
+    const debugReq = debugRequest({
+      seq: 3,
+      command: "stackTrace",
+      arguments: { threadId: 1 }
+    });
+
+    expect(debugReq.header.msg_type).toEqual("debug_request");
+    expect(debugReq.channel).toEqual("control");
+    expect(debugReq.content).toEqual({
+      seq: 3,
+      type: "request",
+      command: "stackTrace",
+      arguments: { threadId: 1 }
+    });
+  });
+});
+
+describe("isCompleteRequest", () => {
+  it("creates an is_complete_request message for the shell channel", () => {
+    const isCompleteReq = isCompleteRequest("for i in range(3):");
+
+    expect(isCompleteReq.header.msg_type).toEqual("is_complete_request");
+    expect(isCompleteReq.channel).toEqual("shell");
+    expect(isCompleteReq.content).toEqual({ code: "for i in range(3):" });
+  });
+});
+
+describe("isCompleteObservable", () => {
+  it("sends an is_complete_request and emits the content of the reply", async () => {
+    const sent = new Subject<JupyterMessage>();
+    const received = new Subject<JupyterMessage>();
+    const requests: JupyterMessage[] = [];
+    sent.subscribe(request => {
+      requests.push(request);
+      received.next({
+        ...message({ msg_type: "is_complete_reply" }, { status: "incomplete", indent: "  " }),
+        parent_header: request.header
+      } as JupyterMessage);
+    });
+
+    const reply = await isCompleteObservable(Subject.create(sent, received), "for i in range(3):").toPromise();
+    expect(requests[0].header.msg_type).toEqual("is_complete_request");
+    expect(reply).toEqual({ status: "incomplete", indent: "  " });
+  });
+
+  it("assumes the kernel doesn't know when it doesn't reply", () => {
+    jest.useFakeTimers();
+    const replies: any[] = [];
+    isCompleteObservable(new Subject<JupyterMessage>(), "x").subscribe(reply => replies.push(reply));
+    jest.advanceTimersByTime(1000);
+    expect(replies).toEqual([{ status: "unknown" }]);
+    jest.useRealTimers();
+  });
+});
+
+describe("historyRequest", () => {
+  it("asks for the tail of the history by default", () => {
+    const historyReq = historyRequest({ n: 10 });
+
+    expect(historyReq.header.msg_type).toEqual("history_request");
+    expect(historyReq.channel).toEqual("shell");
+    expect(historyReq.content).toEqual({
+      output: false,
+      raw: true,
+      hist_access_type: "tail",
+      n: 10,
+      unique: true
+    });
+  });
+});
+
+describe("commInfoRequest", () => {
+  it("lists the comms of every target unless given one", () => {
+    expect(commInfoRequest().content).toEqual({});
+    expect(commInfoRequest("jupyter.widget").content).toEqual({
+      target_name: "jupyter.widget"
+    });
+    expect(commInfoRequest().channel).toEqual("shell");
+  });
+});
+
 describe("createCommMessage", () => {
   test("creates a comm_msg", () => {
     const commMessage = createCommMessage("0000", { hey: "is for horses" });
@@ -1,8 +1,20 @@
 import { PayloadMessage } from "@nteract/types";
-import { from, Observable, Subscriber } from "rxjs";
-import { filter, map, mergeMap } from "rxjs/operators";
-import { message } from "./messages";
-import { JupyterMessage, MessageType } from "./types";
+import { from, Observable, Observer, of, Subscriber } from "rxjs";
+import {
+  catchError,
+  filter,
+  first,
+  map,
+  mergeMap,
+  timeout
+} from "rxjs/operators";
+import { isCompleteRequest, message } from "./messages";
+import {
+  Channels,
+  IsCompleteReplyContent,
+  JupyterMessage,
+  MessageType
+} from "./types";
 
 export * from "./types";
 
@@ -30,7 +42,7 @@ export function createCommOpenMessage(
   comm_id: string,
   target_name: string,
   data: any = {},
-  target_module: string
+  target_module?: string
 ) {
   const msg = createMessage("comm_open", {
     content: { comm_id, target_name, data }
@@ -51,7 +63,7 @@ export function createCommOpenMessage(
 export function createCommMessage(
   comm_id: string,
   data: any = {},
-  buffers: []
+  buffers: (ArrayBuffer | ArrayBufferView)[] = []
 ) {
   return createMessage("comm_msg", { content: { comm_id, data }, buffers });
 }
@@ -260,6 +272,43 @@ export const inputRequests = () => (source: Observable<JupyterMessage>) =>
     map(entry => entry.content)
   );
 
+/**
+ * Kernels which don't implement is_complete_request never reply, they are
+ * assumed not to know after this long.
+ */
+const IS_COMPLETE_TIMEOUT = 1000;
+
+/**
+ * Asks a kernel whether code is complete, the request is sent on
+ * subscription.
+ *
+ * @param channels The channels of the kernel
+ * @param code The code to check
+ *
+ * @returns An Observable of the content of the is_complete_reply, with an
+ * `unknown` status if the kernel doesn't reply in time
+ */
+export function isCompleteObservable(
+  channels: Channels,
+  code: string
+): Observable<IsCompleteReplyContent> {
+  const request = isCompleteRequest(code);
+  const reply$ = channels.pipe(
+    childOf(request),
+    ofMessageType("is_complete_reply"),
+    map(reply => reply.content as IsCompleteReplyContent),
+    first(),
+    timeout(IS_COMPLETE_TIMEOUT),
+    catchError(() => of<IsCompleteReplyContent>({ status: "unknown" }))
+  );
+
+  return Observable.create((observer: Observer<IsCompleteReplyContent>) => {
+    const subscription = reply$.subscribe(observer);
+    channels.next(request);
+    return subscription;
+  });
+}
+
 export * from "./messages";
 
 import { encode, decode } from "./wire-protocol";
@@ -2,7 +2,12 @@ import { KernelStatus } from "@nteract/types";
 import { v4 as uuid } from "uuid";
 import {
   BasicOutputMessageContent,
+  CommInfoRequest,
+  DebugRequest,
   ExecuteRequest,
+  HistoryRequest,
+  HistoryRequestContent,
+  IsCompleteRequest,
   JupyterMessage,
   JupyterMessageHeader,
   MessageType,
@@ -10,11 +15,11 @@ import {
   UpdateDisplayDataContent
 } from "./types";
 
-export type Channel = "shell" | "iopub" | "stdin";
+export type Channel = "shell" | "iopub" | "stdin" | "control";
 
 /**
- * Returns which channel, iopub or stdin or shell, to send a kernel message
- * through.
+ * Returns which channel, iopub or stdin or shell or control, to send a kernel
+ * message through.
  *
  * @param messageType The message type to fetch a channel for
  *
@@ -43,6 +48,11 @@ function whichChannel(messageType?: MessageType): Channel {
     case "input_request":
     case "input_reply":
       return "stdin";
+    case "debug_request":
+    case "debug_reply":
+      return "control";
+    case "debug_event":
+      return "iopub";
     default:
       // We fallthrough to handle the comm messages separately as well as
       // unknown message types
@@ -405,8 +415,78 @@ export function shutdownRequest(
   return message({ msg_type: "shutdown_request" }, content);
 }
 
+/**
+ * Creates a message to ask a kernel whether code is ready to run, or whether
+ * more lines are needed to complete its statements.
+ *
+ * @param code The code to check
+ *
+ * @returns An is_complete_request message
+ */
+export function isCompleteRequest(code: string): IsCompleteRequest {
+  return message({ msg_type: "is_complete_request" }, { code });
+}
+
+/**
+ * Creates a message to fetch the inputs a kernel ran, by default the last
+ * 1000 unique ones as typed by the user.
+ *
+ * @param content Which part of the history to fetch
+ *
+ * @returns A history_request message
+ */
+export function historyRequest(
+  content: Partial<HistoryRequestContent> = {}
+): HistoryRequest {
+  return message(
+    { msg_type: "history_request" },
+    {
+      output: false,
+      raw: true,
+      hist_access_type: "tail",
+      n: 1000,
+      unique: true,
+      ...content
+    }
+  );
+}
+
+/**
+ * Creates a message to list the comms open in a kernel.
+ *
+ * @param targetName Only lists the comms of this target
+ *
+ * @returns A comm_info_request message
+ */
+export function commInfoRequest(targetName?: string): CommInfoRequest {
+  return message(
+    { msg_type: "comm_info_request" },
+    targetName ? { target_name: targetName } : {}
+  );
+}
+
 export function inputReply(content: {
   value: string;
 }): JupyterMessage<"input_reply"> {
   return message({ msg_type: "input_reply" }, content);
 }
+
+/**
+ * Creates a message wrapping a Debug Adapter Protocol request, e.g.
+ *
+ * > debugRequest({ seq: 1, command: "stackTrace", arguments: { threadId: 1 } })
+ *
+ * Kernels answer on the control channel, so that they can be debugged while
+ * they are busy executing code.
+ *
+ * @param content The sequence number, command and arguments of the request
+ *
+ * @returns A debug_request message
+ */
+export function debugRequest(content: {
+  seq: number;
+  command: string;
+  arguments?: any;
+}): DebugRequest {
+  return message({ msg_type: "debug_request" }, { type: "request", ...content });
+}
@@ -35,7 +35,10 @@ export type MessageType =
   | "is_complete_reply"
   | "execute_reply"
   | "interrupt_request"
-  | "interrupt_reply";
+  | "interrupt_reply"
+  | "debug_request"
+  | "debug_reply"
+  | "debug_event";
 
 export interface JupyterMessageHeader<MT extends MessageType = MessageType> {
   msg_id: string;
@@ -91,4 +94,100 @@ export type UpdateDisplayData = JupyterMessage<
   UpdateDisplayDataContent
 >;
 
+/**
+ * Debug messages wrap Debug Adapter Protocol messages, see
+ * https://jupyter-client.readthedocs.io/en/latest/messaging.html#debug-request
+ * and https://microsoft.github.io/debug-adapter-protocol/specification
+ */
+export interface DebugRequestContent {
+  seq: number;
+  type: "request";
+  command: string;
+  arguments?: any;
+}
+
+export interface DebugReplyContent {
+  seq: number;
+  type: "response";
+  request_seq: number;
+  success: boolean;
+  command: string;
+  /** Why the request failed, when it did */
+  message?: string;
+  body?: any;
+}
+
+export interface DebugEventContent {
+  seq: number;
+  type: "event";
+  event: string;
+  body?: any;
+}
+
+export type DebugRequest = JupyterMessage<"debug_request", DebugRequestContent>;
+
+export type DebugReply = JupyterMessage<"debug_reply", DebugReplyContent>;
+
+export type DebugEvent = JupyterMessage<"debug_event", DebugEventContent>;
+
+/**
+ * Whether code is ready to run, see
+ * https://jupyter-client.readthedocs.io/en/latest/messaging.html#code-completeness
+ */
+export interface IsCompleteRequestContent {
+  code: string;
+}
+
+export interface IsCompleteReplyContent {
+  status: "complete" | "incomplete" | "invalid" | "unknown";
+  /** The indent of the next line, when the code is incomplete */
+  indent?: string;
+}
+
+export type IsCompleteRequest = JupyterMessage<"is_complete_request", IsCompleteRequestContent>;
+
+export type IsCompleteReply = JupyterMessage<"is_complete_reply", IsCompleteReplyContent>;
+
+/**
+ * Asks for the last `n` inputs of the kernel's history, the other access
+ * types ("range" and "search") take further fields.
+ */
+export interface HistoryRequestContent {
+  output: boolean;
+  raw: boolean;
+  hist_access_type: "range" | "tail" | "search";
+  n?: number;
+  unique?: boolean;
+  session?: number;
+  start?: number;
+  stop?: number;
+  pattern?: string;
+}
+
+export interface HistoryReplyContent {
+  status: "ok" | "error";
+  /** [session, line number, input] or [session, line number, [input, output]] when asked for outputs */
+  history: Array<[number, number, string | [string, string]]>;
+}
+
+export type HistoryRequest = JupyterMessage<"history_request", HistoryRequestContent>;
+
+export type HistoryReply = JupyterMessage<"history_reply", HistoryReplyContent>;
+
+/**
+ * Asks for the comms open in a kernel, all of them or those of a single target.
+ */
+export interface CommInfoRequestContent {
+  target_name?: string;
+}
+
+export interface CommInfoReplyContent {
+  status: "ok" | "error";
+  comms: { [comm_id: string]: { target_name: string } };
+}
+
+export type CommInfoRequest = JupyterMessage<"comm_info_request", CommInfoRequestContent>;
+
+export type CommInfoReply = JupyterMessage<"comm_info_reply", CommInfoReplyContent>;
+
 export type Channels = Subject<JupyterMessage>;
@@ -41,6 +41,7 @@ const mockEditor = {
   onDidFocusEditorWidget: jest.fn(),
   onDidBlurEditorWidget: jest.fn(),
   onMouseMove: jest.fn(),
+  onMouseDown: jest.fn(),
   updateOptions: jest.fn(),
   getValue: jest.fn(),
   setValue: jest.fn(),
@@ -48,10 +49,13 @@ const mockEditor = {
   layout: jest.fn(),
   getModel: jest.fn(),
   getSelection: jest.fn(),
+  getPosition: jest.fn(),
   focus: jest.fn(),
   hasTextFocus: jest.fn(),
   hasWidgetFocus: jest.fn(),
   addCommand: jest.fn(),
+  createContextKey: jest.fn().mockReturnValue({ set: jest.fn() }),
+  deltaDecorations: jest.fn(),
   changeViewZones: jest.fn(),
 };
 
@@ -26,6 +26,7 @@ const mockEditor = {
   onDidFocusEditorWidget: jest.fn(),
   onDidBlurEditorWidget: jest.fn(),
   onMouseMove: jest.fn(),
+  onMouseDown: jest.fn(),
   updateOptions: jest.fn(),
   getValue: jest.fn(),
   setValue: jest.fn(),
@@ -38,6 +39,8 @@ const mockEditor = {
   hasTextFocus: jest.fn(),
   hasWidgetFocus: jest.fn(),
   addCommand: jest.fn(),
+  createContextKey: jest.fn().mockReturnValue({ set: jest.fn() }),
+  deltaDecorations: jest.fn(),
   changeViewZones: jest.fn()
 };
 
@@ -0,0 +1,95 @@
+import { createMessage, JupyterMessage } from "@nteract/messaging";
+import { Subject } from "rxjs";
+import * as Monaco from "monaco-editor/esm/vs/editor/editor.api";
+import { hoverProvider } from "../src/inspections/hoverProvider";
+import * as editorBase from "../src/editor-base";
+
+// Setup items shared by all tests
+// Create Editor Model and Position
+const testModel = Monaco.editor.createModel("print(len)", "python");
+const testPos = new Monaco.Position(1, 8);
+const token = { isCancellationRequested: false } as Monaco.CancellationToken;
+
+// Mock the inspection Request method
+const mockFn = jest.spyOn(editorBase, "inspectionRequest");
+
+const mockInspectionRequest = createMessage("inspect_request", {
+  content: {
+    code: "print(len)",
+    cursor_pos: 9,
+    detail_level: 0
+  }
+});
+
+mockFn.mockReturnValue(mockInspectionRequest);
+
+const inspectReply = (data: { [mimetype: string]: string }, found = true) =>
+  createMessage("inspect_reply", {
+    content: { status: "ok", found, data, metadata: {} },
+    parent_header: mockInspectionRequest.header
+  });
+
+describe("Hover docs should be provided by the kernel", () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("Should not return a hover when channels is undefined", (done) => {
+    hoverProvider.setChannels(undefined);
+
+    hoverProvider.provideHover(testModel, testPos, token).then((result) => {
+      expect(result).toBeNull();
+      expect(mockFn).not.toHaveBeenCalled();
+      done();
+    });
+  });
+
+  it("Should inspect the end of the word under the mouse", (done) => {
+    const channels = new Subject<JupyterMessage>();
+    hoverProvider.setChannels(channels);
+
+    hoverProvider.provideHover(testModel, testPos, token).then((result) => {
+      expect(mockFn).toHaveBeenCalledWith("print(len)", 9);
+      expect(result!.range).toEqual(new Monaco.Range(1, 7, 1, 10));
+      done();
+    });
+    channels.next(inspectReply({ "text/plain": "Signature: len(obj, /)" }));
+    channels.complete();
+  });
+
+  it("Should strip ANSI escape sequences from plain text docs", (done) => {
+    const channels = new Subject<JupyterMessage>();
+    hoverProvider.setChannels(channels);
+
+    hoverProvider.provideHover(testModel, testPos, token).then((result) => {
+      expect(result!.contents).toEqual([{ value: "```\nSignature: len(obj, /)\n```" }]);
+      done();
+    });
+    channels.next(inspectReply({ "text/plain": "\u001b[0;31mSignature:\u001b[0m len(obj, /)" }));
+    channels.complete();
+  });
+
+  it("Should prefer markdown docs", (done) => {
+    const channels = new Subject<JupyterMessage>();
+    hoverProvider.setChannels(channels);
+
+    hoverProvider.provideHover(testModel, testPos, token).then((result) => {
+      expect(result!.contents).toEqual([{ value: "**len**(obj)" }]);
+      done();
+    });
+    channels.next(inspectReply({ "text/plain": "len(obj)", "text/markdown": "**len**(obj)" }));
+    channels.complete();
+  });
+
+  it("Should not return a hover when the kernel found nothing", (done) => {
+    const channels = new Subject<JupyterMessage>();
+    hoverProvider.setChannels(channels);
+
+    hoverProvider.provideHover(testModel, testPos, token).then((result) => {
+      expect(result).toBeNull();
+      done();
+    });
+    channels.next(inspectReply({}, false));
+    channels.complete();
+  });
+});
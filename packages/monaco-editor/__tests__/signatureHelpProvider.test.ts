@@ -0,0 +1,103 @@
+import { createMessage, JupyterMessage } from "@nteract/messaging";
+import { Subject } from "rxjs";
+import * as Monaco from "monaco-editor/esm/vs/editor/editor.api";
+import {
+  findCall,
+  signatureHelpProvider,
+  signatureLabel,
+  signatureParameters
+} from "../src/inspections/signatureHelpProvider";
+import * as editorBase from "../src/editor-base";
+
+// Setup items shared by all tests
+// Create Editor Model and Position
+const testModel = Monaco.editor.createModel("round(1.5, ", "python");
+const testPos = new Monaco.Position(1, 12);
+const token = { isCancellationRequested: false } as Monaco.CancellationToken;
+
+// Mock the inspection Request method
+const mockFn = jest.spyOn(editorBase, "inspectionRequest");
+
+const mockInspectionRequest = createMessage("inspect_request", {
+  content: {
+    code: "round(1.5, ",
+    cursor_pos: 5,
+    detail_level: 0
+  }
+});
+
+mockFn.mockReturnValue(mockInspectionRequest);
+
+describe("findCall", () => {
+  it("Should find the argument the cursor is at", () => {
+    expect(findCall("f(a, (b, c), d", 14)).toEqual({ open: 1, activeParameter: 2 });
+  });
+
+  it("Should not treat tuples as calls", () => {
+    expect(findCall("x = (a, b", 9)).toBeNull();
+  });
+
+  it("Should not find calls which are closed", () => {
+    expect(findCall("f(a) + b", 8)).toBeNull();
+  });
+});
+
+describe("signatureLabel", () => {
+  it("Should find the signature line of IPython docs", () => {
+    expect(signatureLabel("Signature: round(number, ndigits=None)\nDocstring: ...")).toEqual(
+      "round(number, ndigits=None)"
+    );
+  });
+
+  it("Should fall back to the first line", () => {
+    expect(signatureLabel("round(number)\nRounds a number")).toEqual("round(number)");
+  });
+});
+
+describe("signatureParameters", () => {
+  it("Should keep parameters containing commas together", () => {
+    expect(signatureParameters("f(a, b=(1, 2), *args)")).toEqual(["a", "b=(1, 2)", "*args"]);
+  });
+});
+
+describe("Signature help should be provided by the kernel", () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("Should not return signature help when channels is undefined", (done) => {
+    signatureHelpProvider.setChannels(undefined);
+
+    signatureHelpProvider.provideSignatureHelp(testModel, testPos, token).then((result) => {
+      expect(result).toBeNull();
+      done();
+    });
+  });
+
+  it("Should return the signature of the call at the cursor", (done) => {
+    const inspectReply = createMessage("inspect_reply", {
+      content: {
+        status: "ok",
+        found: true,
+        data: { "text/plain": "\u001b[0;31mSignature:\u001b[0m round(number, ndigits=None)" },
+        metadata: {}
+      },
+      parent_header: mockInspectionRequest.header
+    });
+
+    const channels = new Subject<JupyterMessage>();
+    signatureHelpProvider.setChannels(channels);
+
+    signatureHelpProvider.provideSignatureHelp(testModel, testPos, token).then((result) => {
+      // The name of the call is inspected, not the argument at the cursor
+      expect(mockFn).toHaveBeenCalledWith("round(1.5, ", 5);
+      const help = result!.value;
+      expect(help.activeParameter).toEqual(1);
+      expect(help.signatures[0].label).toEqual("round(number, ndigits=None)");
+      expect(help.signatures[0].parameters).toEqual([{ label: "number" }, { label: "ndigits=None" }]);
+      done();
+    });
+    channels.next(inspectReply);
+    channels.complete();
+  });
+});
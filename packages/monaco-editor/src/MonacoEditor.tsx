@@ -1,12 +1,17 @@
-import { Channels } from "@nteract/messaging";
+import { Channels, isCompleteObservable } from "@nteract/messaging";
 import { CellType, CellId } from "@nteract/commutable";
 import * as monaco from "monaco-editor/esm/vs/editor/editor.api";
 import * as React from "react";
 import { completionProvider } from "./completions/completionItemProvider";
+import { hoverProvider } from "./inspections/hoverProvider";
+import { signatureHelpProvider } from "./inspections/signatureHelpProvider";
 import { ContentRef } from "@nteract/core";
 import { DocumentUri } from "./documentUri";
 import debounce from "lodash.debounce";
 import { scheduleEditorForLayout } from "./layoutSchedule";
+import { IRemoteCursor, remoteCursorDecorations } from "./remoteCursors";
+import { breakpointDecorations } from "./breakpoints";
+import { Subscription } from "rxjs";
 
 export type IModelContentChangedEvent = monaco.editor.IModelContentChangedEvent;
 
@@ -49,6 +54,19 @@ export interface IMonacoComponentProps {
   editorFocused?: boolean;
   onChange?: (value: string, event?: any) => void;
   onFocusChange?: (focus: boolean) => void;
+  /** Reports the selection of the local user as character offsets while the editor has focus */
+  onCursorChange?: (cursor: { anchor: number; head: number }) => void;
+  /** Cursors of other users editing the same cell */
+  remoteCursors?: IRemoteCursor[];
+  /** Lines with a breakpoint. The glyph margin is only shown when these are set, i.e. when the kernel can be debugged */
+  breakpoints?: number[];
+  /** Line the debugger is paused on */
+  pausedLine?: number | null;
+  onToggleBreakpoint?: (line: number) => void;
+  /** Ask the kernel whether the code is complete on Shift+Enter, adding a line with the indent it suggests when it isn't */
+  checkIsComplete?: boolean;
+  /** Runs the code once the kernel found it complete */
+  onExecute?: () => void;
 }
 
 /**
@@ -111,6 +129,10 @@ export default class MonacoEditor extends React.Component<IMonacoProps> {
   editorContainerRef = React.createRef<HTMLDivElement>();
   contentHeight?: number;
   private cursorPositionListener?: monaco.IDisposable;
+  private remoteCursorDecorationIds: string[] = [];
+  private breakpointDecorationIds: string[] = [];
+  private checkIsCompleteKey?: monaco.editor.IContextKey<boolean>;
+  private isCompleteSubscription?: Subscription;
 
   private mouseMoveListener?: monaco.IDisposable;
 
@@ -283,6 +305,29 @@ export default class MonacoEditor extends React.Component<IMonacoProps> {
         this.props.commandHandler(this.editor);
       }
 
+      // Toggle breakpoints from the glyph margin
+      if (this.editor) {
+        this.editor.onMouseDown(event => {
+          if (
+            event.target.type === monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN &&
+            event.target.position &&
+            this.props.onToggleBreakpoint
+          ) {
+            this.props.onToggleBreakpoint(event.target.position.lineNumber);
+          }
+        });
+        this.updateBreakpoints();
+      }
+
+      // Shift+Enter is left to the keyboard shortcuts of the app unless the kernel is asked whether code is complete
+      this.checkIsCompleteKey = this.editor.createContextKey("nteractCheckIsComplete", false);
+      this.editor.addCommand(
+        monaco.KeyMod.Shift | monaco.KeyCode.Enter,
+        () => this.executeOrContinue(),
+        "nteractCheckIsComplete"
+      );
+      this.updateCheckIsComplete();
+
       this.toggleEditorOptions(!!this.props.editorFocused);
 
       if (this.props.editorFocused) {
@@ -324,6 +369,8 @@ export default class MonacoEditor extends React.Component<IMonacoProps> {
         this.props.cursorPositionHandler(this.editor, this.props);
       }
 
+      this.updateRemoteCursors();
+
       if (this.editor) {
         this.mouseMoveListener = this.editor.onMouseMove((e: any) => {
           this.handleCoordsOutsideWidgetActiveRegion(e.event?.pos?.x, e.event?.pos?.y);
@@ -363,10 +410,37 @@ export default class MonacoEditor extends React.Component<IMonacoProps> {
     // Ensures that the source contents of the editor (value) is consistent with the state of the editor
     // and the value has actually changed.
     if (prevProps.value !== this.props.value && this.editor.getValue() !== this.props.value) {
+      // Lines added after the cursor, e.g. for incomplete code, keep it at the end
+      const model = this.editor.getModel();
+      const position = this.editor.getPosition();
+      const cursorWasAtEnd =
+        !!model &&
+        !!position &&
+        model.getOffsetAt(position) === model.getValueLength() &&
+        this.props.value.startsWith(model.getValue());
       this.editor.setValue(this.props.value);
+      if (cursorWasAtEnd && model) {
+        this.editor.setPosition(model.getPositionAt(model.getValueLength()));
+      }
+    }
+
+    if (prevProps.value !== this.props.value || prevProps.remoteCursors !== this.props.remoteCursors) {
+      this.updateRemoteCursors();
     }
 
+    if (
+      prevProps.value !== this.props.value ||
+      prevProps.breakpoints !== this.props.breakpoints ||
+      prevProps.pausedLine !== this.props.pausedLine
+    ) {
+      this.updateBreakpoints();
+    }
+
+    this.updateCheckIsComplete();
+
     completionProvider.setChannels(this.props.channels);
+    hoverProvider.setChannels(this.props.channels);
+    signatureHelpProvider.setChannels(this.props.channels);
 
     // Register Jupyter completion provider if needed
     this.registerCompletionProvider();
@@ -459,6 +533,10 @@ export default class MonacoEditor extends React.Component<IMonacoProps> {
     if (this.mouseMoveListener) {
       this.mouseMoveListener.dispose();
     }
+
+    if (this.isCompleteSubscription) {
+      this.isCompleteSubscription.unsubscribe();
+    }
   }
 
   render() {
@@ -470,13 +548,45 @@ export default class MonacoEditor extends React.Component<IMonacoProps> {
   }
 
   /**
-   * Register default kernel-based completion provider.
+   * Register default kernel-based completion, hover and signature help providers.
    * @param language Language
    */
   registerDefaultCompletionProvider(language: string) {
     // onLanguage event is emitted only once per language when language is first time needed.
     monaco.languages.onLanguage(language, () => {
       monaco.languages.registerCompletionItemProvider(language, completionProvider);
+      monaco.languages.registerHoverProvider(language, hoverProvider);
+      monaco.languages.registerSignatureHelpProvider(language, signatureHelpProvider);
+    });
+  }
+
+  private updateCheckIsComplete() {
+    const { channels, checkIsComplete, onExecute } = this.props;
+    if (this.checkIsCompleteKey) {
+      this.checkIsCompleteKey.set(!!(checkIsComplete && onExecute && channels));
+    }
+  }
+
+  /**
+   * Runs complete code and adds a line with the indent the kernel suggests to incomplete code.
+   */
+  private executeOrContinue() {
+    const { channels, onExecute } = this.props;
+    const editor = this.editor;
+    if (!editor || !channels || !onExecute) {
+      return;
+    }
+
+    if (this.isCompleteSubscription) {
+      this.isCompleteSubscription.unsubscribe();
+    }
+    this.isCompleteSubscription = isCompleteObservable(channels, editor.getValue()).subscribe((reply) => {
+      const selection = editor.getSelection();
+      if (reply.status !== "incomplete") {
+        onExecute();
+      } else if (selection) {
+        editor.executeEdits("is-complete", [{ range: selection, text: `\n${reply.indent || ""}`, forceMoveMarkers: true }]);
+      }
     });
   }
 
@@ -499,18 +609,65 @@ export default class MonacoEditor extends React.Component<IMonacoProps> {
   }
 
   private registerCursorListener() {
-    if (this.editor && this.props.onCursorPositionChange) {
+    if (this.editor && (this.props.onCursorPositionChange || this.props.onCursorChange)) {
       const selection = this.editor.getSelection();
-      this.props.onCursorPositionChange(selection);
+      this.handleCursorSelectionChange(selection);
 
       if (!this.cursorPositionListener) {
         this.cursorPositionListener = this.editor.onDidChangeCursorSelection((event) =>
-          this.props.onCursorPositionChange!(event.selection)
+          this.handleCursorSelectionChange(event.selection)
         );
       }
     }
   }
 
+  private handleCursorSelectionChange(selection: monaco.Selection | null) {
+    if (this.props.onCursorPositionChange) {
+      this.props.onCursorPositionChange(selection);
+    }
+
+    const model = this.editor?.getModel();
+    if (this.props.onCursorChange && model && selection) {
+      this.props.onCursorChange({
+        anchor: model.getOffsetAt(selection.getSelectionStart()),
+        head: model.getOffsetAt(selection.getPosition())
+      });
+    }
+  }
+
+  /**
+   * Draw the cursors of remote users. Decorations are only touched when there are cursors to
+   * draw or to remove.
+   */
+  private updateRemoteCursors() {
+    const model = this.editor?.getModel();
+    const cursors = this.props.remoteCursors ?? [];
+    if (!this.editor || !model || (cursors.length === 0 && this.remoteCursorDecorationIds.length === 0)) {
+      return;
+    }
+
+    this.remoteCursorDecorationIds = this.editor.deltaDecorations(
+      this.remoteCursorDecorationIds,
+      remoteCursorDecorations(model, cursors)
+    );
+  }
+
+  /**
+   * Show the breakpoints of the cell and the line the debugger is paused on, if any.
+   */
+  private updateBreakpoints() {
+    const model = this.editor?.getModel();
+    if (!this.editor || !model) {
+      return;
+    }
+
+    this.editor.updateOptions({ glyphMargin: !!this.props.breakpoints });
+    this.breakpointDecorationIds = this.editor.deltaDecorations(
+      this.breakpointDecorationIds,
+      breakpointDecorations(model, this.props.breakpoints ?? [], this.props.pausedLine)
+    );
+  }
+
   private unregisterCursorListener() {
     if (this.cursorPositionListener) {
       this.cursorPositionListener.dispose();
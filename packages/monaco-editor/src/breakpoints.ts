@@ -0,0 +1,35 @@
+import * as monaco from "monaco-editor/esm/vs/editor/editor.api";
+
+/**
+ * Decorations for the breakpoints of a cell, shown in the glyph margin, and
+ * for the line the debugger is paused on. Lines are 1-based, as in both
+ * Monaco and the Debug Adapter Protocol.
+ */
+export function breakpointDecorations(
+  model: monaco.editor.ITextModel,
+  lines: number[],
+  pausedLine?: number | null
+): monaco.editor.IModelDeltaDecoration[] {
+  const lineCount = model.getLineCount();
+  const decorations: monaco.editor.IModelDeltaDecoration[] = lines
+    .filter(line => line <= lineCount)
+    .map(line => ({
+      range: new monaco.Range(line, 1, line, 1),
+      options: {
+        glyphMarginClassName: "nteract-breakpoint-glyph",
+        glyphMarginHoverMessage: { value: "Breakpoint" }
+      }
+    }));
+
+  if (pausedLine && pausedLine <= lineCount) {
+    decorations.push({
+      range: new monaco.Range(pausedLine, 1, pausedLine, 1),
+      options: {
+        isWholeLine: true,
+        className: "nteract-paused-line"
+      }
+    });
+  }
+
+  return decorations;
+}
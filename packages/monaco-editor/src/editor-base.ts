@@ -69,3 +69,39 @@ export const js_idx_to_char_idx: (js_idx: number, text: string) => number = (
   }
   return char_idx;
 };
+
+/**
+ * Jupyter messaging protocol's inspect_reply response.
+ */
+export interface InspectionResults {
+  status: string;
+  found: boolean;
+  data: { [mimetype: string]: string };
+  metadata: { [key: string]: any };
+}
+
+/**
+ * Create Jupyter messaging protocol's inspect_request message.
+ * @param code Code of editor.
+ * @param cursorPos cursor position represented in the Jupyter messaging protocol (character position)
+ * @param detailLevel 0 for the docstring, 1 for the source code as well.
+ */
+export const inspectionRequest = (code: string, cursorPos: number, detailLevel: 0 | 1 = 0) =>
+  createMessage("inspect_request", {
+    content: {
+      code,
+      cursor_pos: cursorPos,
+      detail_level: detailLevel
+    }
+  });
+
+/**
+ * Matches the ANSI escape sequences kernels color their docs with.
+ */
+const ansiEscapes = /[\u001b\u009b][[()#;?]*(?:[0-9]{1,4}(?:;[0-9]{0,4})*)?[0-9A-ORZcf-nqry=><]/g;
+
+/**
+ * Remove ANSI escape sequences, which Monaco would show as is.
+ * @param text Text with ANSI escape sequences.
+ */
+export const stripAnsi = (text: string) => text.replace(ansiEscapes, "");
@@ -1,6 +1,10 @@
 export { default, IMonacoProps, IMonacoShortCutProps } from "./MonacoEditor";
 
+export * from "./remoteCursors";
+export * from "./breakpoints";
 export { completionProvider } from "./completions/completionItemProvider";
+export { hoverProvider } from "./inspections/hoverProvider";
+export { signatureHelpProvider } from "./inspections/signatureHelpProvider";
 export {Mode, mapCodeMirrorModeToMonaco } from "./converter";
 
 export { DocumentUri } from "./documentUri";
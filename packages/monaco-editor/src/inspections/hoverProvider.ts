@@ -0,0 +1,58 @@
+import * as monaco from "monaco-editor/esm/vs/editor/editor.api";
+import { Channels } from "@nteract/messaging";
+
+import { inspect, inspectionToMarkdown } from "./inspect";
+
+/**
+ * Hover provider showing the docs the Jupyter kernel has for the word under the mouse.
+ */
+class HoverProvider implements monaco.languages.HoverProvider {
+  private channels: Channels | undefined;
+
+  /**
+   * Set Channels of Jupyter kernel.
+   * @param channels Channels of Jupyter kernel.
+   */
+  setChannels(channels: Channels | undefined) {
+    this.channels = channels;
+  }
+
+  /**
+   * Whether provider is connected to Jupyter kernel.
+   */
+  get isConnectedToKernel() {
+    return !!this.channels;
+  }
+
+  /**
+   * Get the docs of the word at position of mouse.
+   * @param model Monaco editor text model.
+   * @param position Position of mouse.
+   * @param token Cancelled when the mouse moves on.
+   */
+  async provideHover(
+    model: monaco.editor.ITextModel,
+    position: monaco.Position,
+    token: monaco.CancellationToken
+  ): Promise<monaco.languages.Hover | null> {
+    const word = model.getWordAtPosition(position);
+    if (!this.channels || !word) {
+      return null;
+    }
+
+    // Kernels inspect the name which ends at the cursor, including the objects it is an attribute of
+    const results = await inspect(this.channels, model, new monaco.Position(position.lineNumber, word.endColumn));
+    const docs = inspectionToMarkdown(results);
+    if (!docs || token.isCancellationRequested) {
+      return null;
+    }
+
+    return {
+      contents: [docs],
+      range: new monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn)
+    };
+  }
+}
+
+const hoverProvider = new HoverProvider();
+export { hoverProvider };
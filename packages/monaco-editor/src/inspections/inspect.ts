@@ -0,0 +1,77 @@
+import * as monaco from "monaco-editor/esm/vs/editor/editor.api";
+import { Observable, Observer } from "rxjs";
+import { first, map } from "rxjs/operators";
+import { childOf, JupyterMessage, ofMessageType, Channels } from "@nteract/messaging";
+
+import { InspectionResults, inspectionRequest, js_idx_to_char_idx, stripAnsi } from "../editor-base";
+
+/**
+ * Get the docs of the code at a position from Jupyter kernel.
+ * @param channels Channels of Jupyter kernel.
+ * @param model Monaco editor text model.
+ * @param position Position to inspect the code at.
+ * @returns The inspection results, or null if the kernel did not reply.
+ */
+export async function inspect(
+  channels: Channels,
+  model: monaco.editor.ITextModel,
+  position: monaco.Position
+): Promise<InspectionResults | null> {
+  // Convert to zero-based index
+  const code = model.getValue();
+  const cursorPos = js_idx_to_char_idx(model.getOffsetAt(position), code);
+
+  try {
+    const message = inspectionRequest(code, cursorPos);
+    const results = await inspectObservable(channels, message).toPromise();
+    return results || null;
+  } catch (error) {
+    // tslint:disable-next-line
+    console.error(error);
+    return null;
+  }
+}
+
+/**
+ * Get inspection results from Jupyter kernel.
+ * @param channels Channels of Jupyter kernel.
+ * @param message Jupyter message for inspection request.
+ */
+function inspectObservable(channels: Channels, message: JupyterMessage): Observable<InspectionResults> {
+  // Process inspection response
+  const inspection$ = channels.pipe(
+    childOf(message),
+    ofMessageType("inspect_reply"),
+    map((entry) => entry.content as InspectionResults),
+    first()
+  );
+
+  // Subscribe and send inspection request message
+  return Observable.create((observer: Observer<InspectionResults>) => {
+    const subscription = inspection$.subscribe(observer);
+    channels.next(message);
+    return subscription;
+  });
+}
+
+/**
+ * Converts the docs of inspection results to markdown Monaco can render. Markdown docs are kept as is while plain
+ * text docs are shown as preformatted text, both without the ANSI escape sequences kernels color them with.
+ * @param results Inspection results of Jupyter kernel.
+ */
+export function inspectionToMarkdown(results: InspectionResults | null): monaco.IMarkdownString | null {
+  if (!results || !results.found || !results.data) {
+    return null;
+  }
+
+  const markdown = results.data["text/markdown"];
+  if (markdown) {
+    return { value: stripAnsi(markdown) };
+  }
+
+  const plain = results.data["text/plain"];
+  if (plain) {
+    return { value: `\`\`\`\n${stripAnsi(plain)}\n\`\`\`` };
+  }
+  return null;
+}
@@ -0,0 +1,157 @@
+import * as monaco from "monaco-editor/esm/vs/editor/editor.api";
+import { Channels } from "@nteract/messaging";
+
+import { stripAnsi } from "../editor-base";
+import { inspect, inspectionToMarkdown } from "./inspect";
+
+const openingBrackets = "([{";
+const closingBrackets = ")]}";
+
+/**
+ * Finds the call the cursor is in the arguments of.
+ * @param code Code of editor.
+ * @param offset Offset of cursor.
+ * @returns The offset of the opening parenthesis of the call and the index of the argument at the cursor, or null
+ * if the cursor is not in the arguments of a call.
+ */
+export function findCall(code: string, offset: number): { open: number; activeParameter: number } | null {
+  let depth = 0;
+  let activeParameter = 0;
+
+  for (let i = offset - 1; i >= 0; i--) {
+    const char = code[i];
+    if (closingBrackets.includes(char)) {
+      depth++;
+    } else if (openingBrackets.includes(char)) {
+      if (depth > 0) {
+        depth--;
+        continue;
+      }
+      // Parentheses right after a name or another call are calls, others are tuples or groups
+      const isCall = char === "(" && /[\w)\]]\s*$/.test(code.substring(0, i));
+      return isCall ? { open: i, activeParameter } : null;
+    } else if (char === "," && depth === 0) {
+      activeParameter++;
+    }
+  }
+  return null;
+}
+
+/**
+ * Splits the parameters of a signature, keeping the parameters which contain commas themselves together.
+ * @param label Signature like "f(a, b=(1, 2))".
+ */
+export function signatureParameters(label: string): string[] {
+  const open = label.indexOf("(");
+  const close = label.lastIndexOf(")");
+  if (open === -1 || close < open) {
+    return [];
+  }
+
+  const parameters: string[] = [];
+  let depth = 0;
+  let start = open + 1;
+  for (let i = start; i <= close; i++) {
+    const char = label[i];
+    if (i === close || (char === "," && depth === 0)) {
+      parameters.push(label.substring(start, i).trim());
+      start = i + 1;
+    } else if (openingBrackets.includes(char)) {
+      depth++;
+    } else if (closingBrackets.includes(char)) {
+      depth--;
+    }
+  }
+  return parameters.filter((parameter) => parameter.length > 0);
+}
+
+/**
+ * Finds the signature in the plain text docs of a kernel. IPython lists it on a "Signature:" line, the first line is
+ * used for other kernels.
+ * @param docs Plain text docs without ANSI escape sequences.
+ */
+export function signatureLabel(docs: string): string {
+  const lines = docs.split("\n");
+  const signature = lines.find((line) => /^(Init )?[Ss]ignature:/.test(line));
+  return (signature ? signature.substring(signature.indexOf(":") + 1) : lines[0]).trim();
+}
+
+/**
+ * Signature help provider showing the signature and docs the Jupyter kernel has for the call at the cursor.
+ */
+class SignatureHelpProvider implements monaco.languages.SignatureHelpProvider {
+  private channels: Channels | undefined;
+
+  /**
+   * Set Channels of Jupyter kernel.
+   * @param channels Channels of Jupyter kernel.
+   */
+  setChannels(channels: Channels | undefined) {
+    this.channels = channels;
+  }
+
+  /**
+   * Whether provider is connected to Jupyter kernel.
+   */
+  get isConnectedToKernel() {
+    return !!this.channels;
+  }
+
+  /**
+   * Characters which open the signature help.
+   */
+  get signatureHelpTriggerCharacters() {
+    return ["(", ","];
+  }
+
+  /**
+   * Characters which update the signature help while it is open.
+   */
+  get signatureHelpRetriggerCharacters() {
+    return [")"];
+  }
+
+  /**
+   * Get the signature of the call at position of cursor.
+   * @param model Monaco editor text model.
+   * @param position Position of cursor.
+   * @param token Cancelled when the cursor moves on.
+   */
+  async provideSignatureHelp(
+    model: monaco.editor.ITextModel,
+    position: monaco.Position,
+    token: monaco.CancellationToken
+  ): Promise<monaco.languages.SignatureHelpResult | null> {
+    const call = findCall(model.getValue(), model.getOffsetAt(position));
+    if (!this.channels || !call) {
+      return null;
+    }
+
+    // Inspect the name the call is made on, which ends right before its parenthesis
+    const results = await inspect(this.channels, model, model.getPositionAt(call.open));
+    const documentation = inspectionToMarkdown(results);
+    if (!results || !documentation || token.isCancellationRequested) {
+      return null;
+    }
+
+    const docs = stripAnsi(results.data["text/plain"] || results.data["text/markdown"]);
+    const label = signatureLabel(docs);
+    return {
+      value: {
+        signatures: [
+          {
+            label,
+            documentation,
+            parameters: signatureParameters(label).map((parameter) => ({ label: parameter }))
+          }
+        ],
+        activeSignature: 0,
+        activeParameter: call.activeParameter
+      },
+      dispose: () => undefined
+    };
+  }
+}
+
+const signatureHelpProvider = new SignatureHelpProvider();
+export { signatureHelpProvider };
@@ -0,0 +1,82 @@
+import * as monaco from "monaco-editor/esm/vs/editor/editor.api";
+
+/**
+ * Cursor of another user editing the same cell, e.g. in a collaboration session.
+ * Positions are character offsets into the editor value.
+ */
+export interface IRemoteCursor {
+  id: string;
+  /** Shown when hovering the cursor, usually the user's name */
+  label: string;
+  /** Hex color (`#rrggbb`) of the cursor and its selection */
+  color: string;
+  anchor: number;
+  head: number;
+}
+
+/** Colors which already have decoration CSS rules */
+const styledColors = new Set<string>();
+let styleSheet: CSSStyleSheet | undefined;
+
+/**
+ * Monaco decorations are styled through class names only, so each cursor color gets its own
+ * classes, added to a shared style sheet the first time the color is used.
+ */
+function classNames(color: string) {
+  const suffix = color.replace(/[^a-zA-Z0-9]/g, "");
+  const names = {
+    caret: `remote-cursor-${suffix}`,
+    selection: `remote-selection-${suffix}`
+  };
+
+  if (!styledColors.has(color)) {
+    if (!styleSheet) {
+      const style = document.createElement("style");
+      document.head.appendChild(style);
+      styleSheet = style.sheet as CSSStyleSheet;
+    }
+    styleSheet.insertRule(`.${names.caret} { border-left: 2px solid ${color}; margin-left: -1px; }`);
+    styleSheet.insertRule(`.${names.selection} { background-color: ${color}33; }`);
+    styledColors.add(color);
+  }
+
+  return names;
+}
+
+/**
+ * Decorations drawing the cursors and selections of remote users.
+ */
+export function remoteCursorDecorations(
+  model: monaco.editor.ITextModel,
+  cursors: IRemoteCursor[]
+): monaco.editor.IModelDeltaDecoration[] {
+  return cursors.reduce((decorations: monaco.editor.IModelDeltaDecoration[], cursor) => {
+    const { caret, selection } = classNames(cursor.color);
+    // getPositionAt clamps offsets beyond the model, e.g. when the remote user has just deleted text
+    const anchor = model.getPositionAt(cursor.anchor);
+    const head = model.getPositionAt(cursor.head);
+    const hoverMessage = { value: cursor.label };
+
+    if (cursor.anchor !== cursor.head) {
+      decorations.push({
+        range: monaco.Range.fromPositions(anchor, head),
+        options: {
+          className: selection,
+          hoverMessage,
+          stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges
+        }
+      });
+    }
+
+    decorations.push({
+      range: monaco.Range.fromPositions(head),
+      options: {
+        beforeContentClassName: caret,
+        hoverMessage,
+        stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges
+      }
+    });
+
+    return decorations;
+  }, []);
+}
@@ -1,5 +1,8 @@
 import {
+  cellRange,
   selectCell,
+  selectCells,
+  selectors,
   unselectCell,
   multiselect,
 } from "@nteract/mythic-multiselect";
@@ -44,3 +47,58 @@ describe("multiselect", () => {
     );
   });
 });
+
+describe("selectCell", () => {
+  test("does not select a cell twice", () => {
+    const state = multiselect.rootReducer(
+      multiselect.makeStateRecord({ selectedCells: List(["test"]) }),
+      selectCell.create({ id: "test" })
+    );
+
+    expect(state.selectedCells.toArray()).toEqual(["test"]);
+  });
+});
+
+describe("selectCells", () => {
+  test("replaces the selection", () => {
+    const state = multiselect.rootReducer(
+      multiselect.makeStateRecord({ selectedCells: List(["a", "b"]) }),
+      selectCells.create({ ids: ["c", "b", "c"] })
+    );
+
+    expect(state.selectedCells.toArray()).toEqual(["c", "b"]);
+  });
+});
+
+describe("selectors", () => {
+  test("tell which cells are selected", () => {
+    const state = {
+      __private__: {
+        multiselect: multiselect.makeStateRecord({
+          selectedCells: List(["a"]),
+        }),
+      },
+    };
+
+    expect(selectors.selectedCells(state)!.toArray()).toEqual(["a"]);
+    expect(selectors.isCellSelected(state, { id: "a" })).toBe(true);
+    expect(selectors.isCellSelected(state, { id: "b" })).toBe(false);
+    expect(selectors.isCellSelected({}, { id: "a" })).toBe(false);
+  });
+});
+
+describe("cellRange", () => {
+  const cellOrder = List(["a", "b", "c", "d"]);
+
+  test("goes down from the anchor", () => {
+    expect(cellRange(cellOrder, "b", "d")).toEqual(["b", "c", "d"]);
+  });
+
+  test("goes up from the anchor", () => {
+    expect(cellRange(cellOrder, "c", "a")).toEqual(["c", "b", "a"]);
+  });
+
+  test("is empty for cells that are not in the notebook", () => {
+    expect(cellRange(cellOrder, "a", "z")).toEqual([]);
+  });
+});
@@ -1,7 +1,12 @@
+import * as selectors from "./selectors";
+
 export * from "./types";
 export { multiselect } from "./package";
+export { cellRange } from "./range";
 export {
   selectCell,
+  selectCells,
   unselectCell,
   clearSelectedCells,
 } from "./myths/multi-select";
+export { selectors };
@@ -1,8 +1,23 @@
+import { CellId } from "@nteract/commutable";
+import { List } from "immutable";
 import { multiselect } from "../package";
 
 export const selectCell = multiselect.createMyth("selectCell")<{ id: string }>({
   reduce: (state, action) =>
-    state.update("selectedCells", (list) => list.push(action.payload.id)),
+    state.update("selectedCells", (list) =>
+      list.includes(action.payload.id) ? list : list.push(action.payload.id)
+    ),
+});
+
+/**
+ * Replaces the selection, e.g. with a range of cells. The first cell is the
+ * one the range was started from.
+ */
+export const selectCells = multiselect.createMyth("selectCells")<{
+  ids: CellId[];
+}>({
+  reduce: (state, action) =>
+    state.set("selectedCells", List(action.payload.ids).toOrderedSet().toList()),
 });
 
 export const unselectCell = multiselect.createMyth("unselectCell")<{
@@ -0,0 +1,20 @@
+import { CellId } from "@nteract/commutable";
+import { List } from "immutable";
+
+/**
+ * The cells from `anchor` to `head`, both included, in the order they would
+ * be selected in when extending the selection from `anchor`.
+ */
+export const cellRange = (
+  cellOrder: List<CellId>,
+  anchor: CellId,
+  head: CellId
+): CellId[] => {
+  const from = cellOrder.indexOf(anchor);
+  const to = cellOrder.indexOf(head);
+  if (from === -1 || to === -1) {
+    return [];
+  }
+  const range = cellOrder.slice(Math.min(from, to), Math.max(from, to) + 1);
+  return (from <= to ? range : range.reverse()).toArray();
+};
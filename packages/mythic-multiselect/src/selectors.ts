@@ -0,0 +1,15 @@
+import { CellId } from "@nteract/commutable";
+import { List } from "immutable";
+import { multiselect } from "./package";
+
+const NO_CELLS = List<CellId>();
+
+/** The selected cells, starting with the one the selection was started from. */
+export const selectedCells = multiselect.createSelector(
+  (state) => state?.selectedCells ?? NO_CELLS
+);
+
+export const isCellSelected = (
+  state: Parameters<typeof selectedCells>[0],
+  props: { id: CellId }
+): boolean => (selectedCells(state) ?? NO_CELLS).includes(props.id);
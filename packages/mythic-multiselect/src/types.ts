@@ -5,6 +5,7 @@ export interface MultiSelectAction {
 
 export interface MultiselectCells {
   selectCell(payload: MultiSelectAction): void;
+  selectCells(payload: { ids: string[]; contentRef: string }): void;
   unselectCell(payload: MultiSelectAction): void;
   clearSelectedCells(): void;
 }
@@ -0,0 +1,122 @@
+import { CollaborationDocument, positionBetween } from "../src/crdt";
+import { CollaborationOperation } from "../src/types";
+
+const codeCell = (source: string) => ({
+  cell_type: "code" as const,
+  execution_count: null,
+  metadata: {},
+  outputs: [],
+  source
+});
+
+const replicate = (operations: CollaborationOperation[]) => {
+  const document = new CollaborationDocument("observer");
+  operations.forEach((operation) => document.apply(operation));
+  return document;
+};
+
+describe("positionBetween", () => {
+  test("generates keys sorting between their bounds", () => {
+    const first = positionBetween();
+    const last = positionBetween(first);
+    const middle = positionBetween(first, last);
+    const beforeFirst = positionBetween(undefined, first);
+
+    expect([middle, last, beforeFirst, first].sort()).toEqual([beforeFirst, first, middle, last]);
+  });
+
+  test("keeps finding room between adjacent keys", () => {
+    const low = positionBetween();
+    let high = positionBetween(low);
+    for (let i = 0; i < 50; i++) {
+      const next = positionBetween(low, high);
+      expect(next > low && next < high).toBe(true);
+      high = next;
+    }
+  });
+
+  test("rejects bounds in the wrong order", () => {
+    expect(() => positionBetween("b", "a")).toThrow();
+  });
+});
+
+describe("CollaborationDocument", () => {
+  test("orders cells by position", () => {
+    const alice = new CollaborationDocument("alice");
+    const a = positionBetween();
+    const c = positionBetween(a);
+    const b = positionBetween(a, c);
+
+    alice.apply({ type: "insertCell", cellId: "c", position: c, cell: codeCell("c"), stamp: alice.nextStamp() });
+    alice.apply({ type: "insertCell", cellId: "a", position: a, cell: codeCell("a"), stamp: alice.nextStamp() });
+    alice.apply({ type: "insertCell", cellId: "b", position: b, cell: codeCell("b"), stamp: alice.nextStamp() });
+
+    expect(alice.cellIds()).toEqual(["a", "b", "c"]);
+    expect(alice.toCell("b")!.source).toEqual("b");
+  });
+
+  test("converges on concurrent edits regardless of delivery order", () => {
+    const alice = new CollaborationDocument("alice");
+    const bob = new CollaborationDocument("bob");
+    const insert: CollaborationOperation = {
+      type: "insertCell",
+      cellId: "cell",
+      position: positionBetween(),
+      cell: codeCell("x = 1"),
+      stamp: alice.nextStamp()
+    };
+    alice.apply(insert);
+    bob.apply(insert);
+
+    const fromAlice: CollaborationOperation[] = [
+      { type: "setCellSource", cellId: "cell", source: "x = 2", stamp: alice.nextStamp() },
+      { type: "setCellMetadata", cellId: "cell", key: "tags", value: ["alice"], stamp: alice.nextStamp() }
+    ];
+    const fromBob: CollaborationOperation[] = [
+      { type: "setCellSource", cellId: "cell", source: "x = 3", stamp: bob.nextStamp() },
+      { type: "moveCell", cellId: "cell", position: positionBetween(insert.position), stamp: bob.nextStamp() }
+    ];
+
+    const aliceFirst = replicate([insert, ...fromAlice, ...fromBob]);
+    const bobFirst = replicate([insert, ...fromBob, ...fromAlice]);
+
+    expect(aliceFirst.toCell("cell")).toEqual(bobFirst.toCell("cell"));
+    expect(aliceFirst.position("cell")).toEqual(bobFirst.position("cell"));
+    // Same clock, the actor ID breaks the tie
+    expect(aliceFirst.source("cell")).toEqual("x = 3");
+  });
+
+  test("orders cells inserted concurrently at the same position the same way everywhere", () => {
+    const position = positionBetween();
+    const operations: CollaborationOperation[] = [
+      { type: "insertCell", cellId: "from-alice", position, cell: codeCell(""), stamp: { clock: 1, actor: "alice" } },
+      { type: "insertCell", cellId: "from-bob", position, cell: codeCell(""), stamp: { clock: 1, actor: "bob" } }
+    ];
+
+    expect(replicate(operations).cellIds()).toEqual(replicate([...operations].reverse()).cellIds());
+  });
+
+  test("ignores edits of deleted cells", () => {
+    const alice = new CollaborationDocument("alice");
+    alice.apply({ type: "insertCell", cellId: "cell", position: "i", cell: codeCell(""), stamp: alice.nextStamp() });
+
+    expect(alice.apply({ type: "deleteCell", cellId: "cell", stamp: alice.nextStamp() })).toBe(true);
+    expect(alice.apply({ type: "setCellSource", cellId: "cell", source: "late", stamp: alice.nextStamp() })).toBe(
+      false
+    );
+    expect(alice.has("cell")).toBe(false);
+    expect(alice.cellIds()).toEqual([]);
+  });
+
+  test("reports operations which lost to newer ones as no-ops", () => {
+    const alice = new CollaborationDocument("alice");
+    alice.apply({ type: "insertCell", cellId: "cell", position: "i", cell: codeCell(""), stamp: alice.nextStamp() });
+    alice.apply({ type: "setCellSource", cellId: "cell", source: "newer", stamp: { clock: 10, actor: "bob" } });
+
+    expect(alice.apply({ type: "setCellSource", cellId: "cell", source: "older", stamp: { clock: 5, actor: "carol" } })).toBe(
+      false
+    );
+    expect(alice.source("cell")).toEqual("newer");
+    expect(alice.nextStamp().clock).toBeGreaterThan(10);
+  });
+});
@@ -0,0 +1,83 @@
+import { toArray } from "rxjs/operators";
+import { LocalCollaborationBackend } from "../src/backends";
+import { CollaborationOperation, ICollaborationChannel, IPresence, IPresenceUpdate } from "../src/types";
+
+const deleteCell = (cellId: string, actor: string): CollaborationOperation => ({
+  type: "deleteCell",
+  cellId,
+  stamp: { clock: 1, actor }
+});
+
+const presence = (id: string, cellId?: string): IPresence => ({
+  id,
+  displayName: id,
+  color: "#4363d8",
+  cellId
+});
+
+const connect = (backend: LocalCollaborationBackend, sessionId: string, actor: string) => {
+  let channel: ICollaborationChannel | undefined;
+  backend.connect(sessionId, actor).subscribe((c) => (channel = c));
+  return channel!;
+};
+
+describe("LocalCollaborationBackend", () => {
+  test("relays operations to the other participants of a session", () => {
+    const backend = new LocalCollaborationBackend();
+    const alice = connect(backend, "notebook.ipynb", "alice");
+    const bob = connect(backend, "notebook.ipynb", "bob");
+    const stranger = connect(backend, "other.ipynb", "carol");
+
+    const received: { [actor: string]: CollaborationOperation[] } = { alice: [], bob: [], carol: [] };
+    alice.operations.subscribe((operation) => received.alice.push(operation));
+    bob.operations.subscribe((operation) => received.bob.push(operation));
+    stranger.operations.subscribe((operation) => received.carol.push(operation));
+
+    alice.submit([deleteCell("a", "alice")]);
+    bob.submit([deleteCell("b", "bob")]);
+
+    expect(received.alice).toEqual([deleteCell("b", "bob")]);
+    expect(received.bob).toEqual([deleteCell("a", "alice")]);
+    expect(received.carol).toEqual([]);
+  });
+
+  test("replays the session history to participants joining later", () => {
+    const backend = new LocalCollaborationBackend();
+    const alice = connect(backend, "notebook.ipynb", "alice");
+    alice.submit([deleteCell("a", "alice")]);
+
+    expect(connect(backend, "notebook.ipynb", "bob").history).toEqual([deleteCell("a", "alice")]);
+  });
+
+  test("completes the operations of closed channels", async () => {
+    const backend = new LocalCollaborationBackend();
+    const alice = connect(backend, "notebook.ipynb", "alice");
+    const bob = connect(backend, "notebook.ipynb", "bob");
+    const operations = alice.operations.pipe(toArray()).toPromise();
+
+    bob.submit([deleteCell("b", "bob")]);
+    alice.close();
+    bob.submit([deleteCell("c", "bob")]);
+
+    expect(await operations).toEqual([deleteCell("b", "bob")]);
+  });
+
+  test("shares the presence of participants until they leave", () => {
+    const backend = new LocalCollaborationBackend();
+    const alice = connect(backend, "notebook.ipynb", "alice");
+    alice.updatePresence(presence("alice", "a"));
+    const bob = connect(backend, "notebook.ipynb", "bob");
+
+    const updates: IPresenceUpdate[] = [];
+    bob.presence.subscribe((update) => updates.push(update));
+    bob.updatePresence(presence("bob"));
+    alice.updatePresence(presence("alice", "b"));
+    alice.close();
+
+    expect(updates).toEqual([
+      { actor: "alice", presence: presence("alice", "a") },
+      { actor: "alice", presence: presence("alice", "b") },
+      { actor: "alice", presence: null }
+    ]);
+  });
+});
@@ -0,0 +1,36 @@
+import * as Immutable from "immutable";
+import { collaboration } from "../src/package";
+import { participantsInCell } from "../src/selectors";
+import { CollabRootState, ICollaborationState, IPresence } from "../src/types";
+
+const presence = (id: string, cellId?: string): IPresence => ({ id, displayName: id, color: "#e6194b", cellId });
+
+const rootState = (state: Partial<ICollaborationState>) =>
+  ({ __private__: { collaboration: collaboration.makeStateRecord!({ ...collaboration.initialState.toObject(), ...state }) } } as CollabRootState);
+
+describe("participantsInCell", () => {
+  const participants = Immutable.Map({
+    alice: presence("alice", "remote-a"),
+    bob: presence("bob", "remote-b"),
+    carol: presence("carol")
+  });
+  const state = rootState({
+    isLoaded: true,
+    cellIdMap: Immutable.Map({ a: "remote-a", b: "remote-b" }),
+    participants
+  });
+
+  test("returns the participants focusing a local cell", () => {
+    expect(participantsInCell(state, { id: "a" })).toEqual([presence("alice", "remote-a")]);
+    expect(participantsInCell(state, { id: "c" })).toEqual([]);
+  });
+
+  test("returns the same array while the participants are unchanged", () => {
+    expect(participantsInCell(state, { id: "b" })).toBe(participantsInCell(state, { id: "b" }));
+  });
+
+  test("returns no participants outside of a session", () => {
+    expect(participantsInCell(rootState({ participants, isLoaded: false }), { id: "a" })).toEqual([]);
+    expect(participantsInCell({}, { id: "a" })).toEqual([]);
+  });
+});
@@ -0,0 +1 @@
+export { LocalCollaborationBackend } from "./local";
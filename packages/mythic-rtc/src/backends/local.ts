@@ -0,0 +1,85 @@
+import { concat, defer, from, of, Subject } from "rxjs";
+import { filter, mergeMap, takeUntil } from "rxjs/operators";
+import {
+  CollaborationOperation,
+  ICollaborationBackend,
+  ICollaborationChannel,
+  IPresence,
+  IPresenceUpdate
+} from "../types";
+
+interface ISubmission {
+  actor: string;
+  operations: CollaborationOperation[];
+}
+
+interface ISession {
+  history: CollaborationOperation[];
+  submissions: Subject<ISubmission>;
+  presence: Map<string, IPresence>;
+  presenceUpdates: Subject<IPresenceUpdate>;
+}
+
+/**
+ * In-memory backend relaying operations between the drivers sharing the same backend instance,
+ * e.g. two stores in the same process. Sessions live as long as the backend does.
+ */
+export class LocalCollaborationBackend implements ICollaborationBackend {
+  private readonly sessions = new Map<string, ISession>();
+
+  connect(sessionId: string, actor: string) {
+    return defer(() => {
+      const session = this.getSession(sessionId);
+      const closed = new Subject<void>();
+
+      const channel: ICollaborationChannel = {
+        history: [...session.history],
+        operations: session.submissions.pipe(
+          filter((submission) => submission.actor !== actor),
+          mergeMap((submission) => from(submission.operations)),
+          takeUntil(closed)
+        ),
+        presence: defer(() =>
+          concat(
+            from(Array.from(session.presence.entries()).map(([other, presence]) => ({ actor: other, presence }))),
+            session.presenceUpdates
+          )
+        ).pipe(
+          filter((update) => update.actor !== actor),
+          takeUntil(closed)
+        ),
+        submit: (operations) => {
+          session.history.push(...operations);
+          session.submissions.next({ actor, operations });
+        },
+        updatePresence: (presence) => {
+          session.presence.set(actor, presence);
+          session.presenceUpdates.next({ actor, presence });
+        },
+        close: () => {
+          closed.next();
+          closed.complete();
+          if (session.presence.delete(actor)) {
+            session.presenceUpdates.next({ actor, presence: null });
+          }
+        }
+      };
+
+      return of(channel);
+    });
+  }
+
+  private getSession(sessionId: string): ISession {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = {
+        history: [],
+        submissions: new Subject<ISubmission>(),
+        presence: new Map(),
+        presenceUpdates: new Subject<IPresenceUpdate>()
+      };
+      this.sessions.set(sessionId, session);
+    }
+    return session;
+  }
+}
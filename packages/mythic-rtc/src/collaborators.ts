@@ -0,0 +1,21 @@
+import { v4 as uuid } from "uuid";
+import { ICollaborator } from "./types";
+
+/** Colors assigned to participants which do not bring their own. */
+export const collaboratorColors = [
+  "#e6194b",
+  "#3cb44b",
+  "#4363d8",
+  "#f58231",
+  "#911eb4",
+  "#42d4f4",
+  "#f032e6",
+  "#9a6324"
+];
+
+/** Identity used for a user who did not provide one when initializing collaboration. */
+export const anonymousCollaborator = (): ICollaborator => ({
+  id: uuid(),
+  displayName: "Anonymous",
+  color: collaboratorColors[Math.floor(Math.random() * collaboratorColors.length)]
+});
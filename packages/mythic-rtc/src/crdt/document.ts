@@ -0,0 +1,165 @@
+import { demultiline, JSONObject, JSONType } from "@nteract/commutable";
+import { Cell } from "@nteract/commutable/lib/v4";
+import { CollaborationOperation, IInsertCellOperation, IOperationStamp } from "../types";
+
+/** Last-writer-wins register */
+interface IRegister<T> {
+  value: T;
+  stamp: IOperationStamp;
+}
+
+interface ICellReplica {
+  /** Cell as it was inserted, used for everything but the registers below (e.g. outputs). */
+  cell: Cell;
+  position: IRegister<string>;
+  source: IRegister<string>;
+  metadata: Map<string, IRegister<JSONType | undefined>>;
+  deleted: boolean;
+}
+
+/** Orders stamps by clock, breaking ties with the actor ID. */
+export const compareStamps = (a: IOperationStamp, b: IOperationStamp): number =>
+  a.clock - b.clock || (a.actor < b.actor ? -1 : a.actor > b.actor ? 1 : 0);
+
+const write = <T>(register: IRegister<T>, value: T, stamp: IOperationStamp): boolean => {
+  if (compareStamps(stamp, register.stamp) <= 0) {
+    return false;
+  }
+  register.value = value;
+  register.stamp = stamp;
+  return true;
+};
+
+/**
+ * Replica of the shared notebook structure.
+ *
+ * Cells form an ordered set keyed by position, each cell's position, source and metadata entries
+ * are last-writer-wins registers and deletions leave tombstones. Applying the same operations in
+ * any causally consistent order yields the same document on every replica.
+ */
+export class CollaborationDocument {
+  private clock = 0;
+  private readonly cells = new Map<string, ICellReplica>();
+
+  constructor(readonly actor: string) {}
+
+  /** Stamp for the next operation originating from this replica. */
+  nextStamp(): IOperationStamp {
+    this.clock += 1;
+    return { clock: this.clock, actor: this.actor };
+  }
+
+  /**
+   * Merges an operation into the replica.
+   *
+   * @returns Whether the operation changed a visible cell, i.e. if it needs to be reflected locally.
+   */
+  apply(operation: CollaborationOperation): boolean {
+    this.clock = Math.max(this.clock, operation.stamp.clock);
+
+    if (operation.type === "insertCell") {
+      return this.insert(operation);
+    }
+
+    const replica = this.cells.get(operation.cellId);
+    if (!replica) {
+      return false;
+    }
+
+    let changed: boolean;
+    switch (operation.type) {
+      case "deleteCell":
+        changed = !replica.deleted;
+        replica.deleted = true;
+        return changed;
+      case "moveCell":
+        changed = write(replica.position, operation.position, operation.stamp);
+        break;
+      case "setCellSource":
+        changed = write(replica.source, operation.source, operation.stamp);
+        break;
+      case "setCellMetadata":
+        {
+          const entry = replica.metadata.get(operation.key);
+          if (entry) {
+            changed = write(entry, operation.value, operation.stamp);
+          } else {
+            replica.metadata.set(operation.key, { value: operation.value, stamp: operation.stamp });
+            changed = true;
+          }
+        }
+        break;
+    }
+
+    return changed && !replica.deleted;
+  }
+
+  /** Whether the cell exists and is not deleted. */
+  has(cellId: string): boolean {
+    const replica = this.cells.get(cellId);
+    return replica !== undefined && !replica.deleted;
+  }
+
+  /** IDs of the cells which are not deleted, in document order. */
+  cellIds(): string[] {
+    return Array.from(this.cells.entries())
+      .filter(([_, replica]) => !replica.deleted)
+      .sort(([idA, a], [idB, b]) => {
+        const positionA = a.position.value;
+        const positionB = b.position.value;
+        if (positionA !== positionB) {
+          return positionA < positionB ? -1 : 1;
+        }
+        return idA < idB ? -1 : idA > idB ? 1 : 0;
+      })
+      .map(([id]) => id);
+  }
+
+  position(cellId: string): string | undefined {
+    return this.cells.get(cellId)?.position.value;
+  }
+
+  source(cellId: string): string | undefined {
+    return this.cells.get(cellId)?.source.value;
+  }
+
+  metadata(cellId: string, key: string): JSONType | undefined {
+    return this.cells.get(cellId)?.metadata.get(key)?.value;
+  }
+
+  /** Current state of a cell in notebook format. */
+  toCell(cellId: string): Cell | undefined {
+    const replica = this.cells.get(cellId);
+    if (!replica) {
+      return undefined;
+    }
+
+    const metadata: JSONObject = {};
+    replica.metadata.forEach((entry, key) => {
+      if (entry.value !== undefined) {
+        metadata[key] = entry.value;
+      }
+    });
+
+    return { ...replica.cell, source: replica.source.value, metadata };
+  }
+
+  private insert(operation: IInsertCellOperation): boolean {
+    if (this.cells.has(operation.cellId)) {
+      return false;
+    }
+
+    const { cell, position, stamp } = operation;
+    const metadata = new Map<string, IRegister<JSONType | undefined>>();
+    Object.entries(cell.metadata ?? {}).forEach(([key, value]) => metadata.set(key, { value, stamp }));
+
+    this.cells.set(operation.cellId, {
+      cell,
+      position: { value: position, stamp },
+      source: { value: demultiline(cell.source), stamp },
+      metadata,
+      deleted: false
+    });
+    return true;
+  }
+}
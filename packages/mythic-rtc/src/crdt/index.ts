@@ -0,0 +1,2 @@
+export { CollaborationDocument, compareStamps } from "./document";
+export { positionBetween } from "./position";
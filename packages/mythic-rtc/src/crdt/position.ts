@@ -0,0 +1,41 @@
+const DIGITS = "0123456789abcdefghijklmnopqrstuvwxyz";
+const BASE = DIGITS.length;
+const SUFFIX_LENGTH = 3;
+
+const randomDigit = (min: number) => DIGITS[min + Math.floor(Math.random() * (BASE - min))];
+
+/**
+ * Generates a position key sorting strictly between `before` and `after`; omit either to
+ * generate a key sorting before or after every other key. Keys are compared as plain strings.
+ *
+ * A random suffix is appended so that participants inserting at the same place concurrently
+ * are very unlikely to produce the same key.
+ */
+export const positionBetween = (before: string = "", after: string = ""): string => {
+  if (after !== "" && before >= after) {
+    throw new Error(`Cannot generate a position between "${before}" and "${after}"`);
+  }
+
+  let position = "";
+  let bounded = after !== "";
+
+  for (let i = 0; ; i++) {
+    const low = i < before.length ? DIGITS.indexOf(before[i]) : 0;
+    const high = bounded ? (i < after.length ? DIGITS.indexOf(after[i]) : 0) : BASE;
+
+    if (high - low > 1) {
+      position += DIGITS[Math.floor((low + high) / 2)];
+      break;
+    }
+
+    position += DIGITS[low];
+    bounded = bounded && low === high;
+  }
+
+  for (let i = 1; i < SUFFIX_LENGTH; i++) {
+    position += randomDigit(0);
+  }
+
+  // Keys never end with the lowest digit, so there is always room for a key before them
+  return position + randomDigit(1);
+};
@@ -1,12 +1,49 @@
-import { Observable } from "rxjs";
+import * as Immutable from "immutable";
+import { concat, defer, EMPTY, merge, Observable, of, Subject } from "rxjs";
+import { catchError, concatMap, map, mergeMap, takeUntil } from "rxjs/operators";
 import { Store } from "redux";
-import { ImmutableCell, ImmutableNotebook } from "@nteract/commutable";
+import { v4 as uuid } from "uuid";
+import {
+  cellToJS,
+  createImmutableCell,
+  emptyNotebook,
+  ImmutableCell,
+  ImmutableNotebook,
+  JSONType
+} from "@nteract/commutable";
+import { actions as coreActions, selectors as coreSelectors } from "@nteract/core";
 import { AppState, ContentRef } from "@nteract/types";
 import { MythicAction } from "@nteract/myths";
-import { IActionRecorder, ICollaborationBackend, ICollaborationDriver } from "../types";
+import { CollaborationDocument, positionBetween } from "../crdt";
+import { deleteCellFromMap, initializeCellMap, updateCellMap } from "../myths/internal";
+import { updateParticipant } from "../myths/presence";
+import { joinSessionFailed, joinSessionSucceeded, leaveSessionSucceeded } from "../myths/session";
+import {
+  CollabRootState,
+  CollaborationOperation,
+  IActionRecorder,
+  ICollaborationBackend,
+  ICollaborationChannel,
+  ICollaborationDriver,
+  ICursorRange
+} from "../types";
 
-/** Collaboration driver placeholder */
+/** Marks actions replaying remote edits so that the middleware does not record them again. */
+const remote = { origin: "remote" };
+
+/**
+ * Collaboration driver backed by a replicated notebook document.
+ * Local edits are applied to the replica and submitted through the backend, remote operations are
+ * merged into the replica and, when they change the notebook, replayed as regular notebook actions.
+ */
 export class CollaborationDriver implements ICollaborationDriver, IActionRecorder {
+  private readonly document = new CollaborationDocument(uuid());
+  private readonly left$ = new Subject<void>();
+  private channel: ICollaborationChannel | null = null;
+  /** Session-wide ID of the cell focused by the local user */
+  private focusedCellId: string | undefined;
+  private cursor: ICursorRange | undefined;
+
   constructor(
     private readonly backend: ICollaborationBackend,
     private readonly store: Store<AppState>,
@@ -15,22 +52,272 @@ export class CollaborationDriver implements ICollaborationDriver, IActionRecorde
 
   //#region ICollaborationDriver
   join(filePath: string, notebook: ImmutableNotebook, kernelRef: string): Observable<MythicAction> {
-    throw new Error("Method not implemented.");
+    return this.backend.connect(filePath, this.document.actor).pipe(
+      mergeMap((channel) => {
+        this.channel = channel;
+        const setup = channel.history.length === 0 ? this.share(notebook) : this.adopt(notebook, channel.history);
+
+        return concat(
+          setup,
+          defer(() => {
+            this.broadcastPresence();
+            return of(joinSessionSucceeded.create());
+          }),
+          merge(
+            channel.operations.pipe(concatMap((operation) => this.applyRemoteOperation(operation))),
+            channel.presence.pipe(map((update) => updateParticipant.create(update)))
+          )
+        );
+      }),
+      takeUntil(this.left$),
+      catchError((error) => {
+        console.error(error);
+        return of(joinSessionFailed.create());
+      })
+    );
   }
+
   leave(): Observable<MythicAction> {
-    throw new Error("Method not implemented.");
+    this.left$.next();
+    this.channel?.close();
+    this.channel = null;
+    return of(leaveSessionSucceeded.create());
+  }
+
+  updatePresence(id: string | undefined, cursor: ICursorRange | undefined): Observable<MythicAction> {
+    const cellId = id ? this.cellIdMap.get(id) : undefined;
+    // Focusing the cell which has the cursor, e.g. when its editor gets focus, keeps the cursor
+    this.cursor = cursor ?? (cellId === this.focusedCellId ? this.cursor : undefined);
+    this.focusedCellId = cellId;
+    this.broadcastPresence();
+    return EMPTY;
   }
   //#endregion
 
   //#region IActionRecorder
-  recordInsertCell(id: string, insertAt: number, cell: ImmutableCell): Observable<MythicAction<string, string, any>> {
-    throw new Error("Method not implemented.");
+  recordInsertCell(id: string, insertAt: number, cell: ImmutableCell): Observable<MythicAction> {
+    if (!this.channel) {
+      return EMPTY;
+    }
+
+    this.submit([
+      {
+        type: "insertCell",
+        cellId: id,
+        position: this.positionOf(id),
+        cell: cellToJS(cell),
+        stamp: this.document.nextStamp()
+      }
+    ]);
+    return of(updateCellMap.create({ localId: id, remoteId: id }));
   }
-  recordDeleteCell(id: string): Observable<MythicAction<string, string, any>> {
-    throw new Error("Method not implemented.");
+
+  recordDeleteCell(id: string): Observable<MythicAction> {
+    const remoteId = this.cellIdMap.get(id);
+    if (!this.channel || !remoteId) {
+      return EMPTY;
+    }
+
+    this.submit([{ type: "deleteCell", cellId: remoteId, stamp: this.document.nextStamp() }]);
+    return of(deleteCellFromMap.create({ localId: id }));
+  }
+
+  recordMoveCell(id: string): Observable<MythicAction> {
+    const remoteId = this.cellIdMap.get(id);
+    if (this.channel && remoteId) {
+      this.submit([
+        { type: "moveCell", cellId: remoteId, position: this.positionOf(id), stamp: this.document.nextStamp() }
+      ]);
+    }
+    return EMPTY;
+  }
+
+  recordCellContent(id: string, value: string): Observable<MythicAction> {
+    const remoteId = this.cellIdMap.get(id);
+    if (this.channel && remoteId) {
+      this.submit([{ type: "setCellSource", cellId: remoteId, source: value, stamp: this.document.nextStamp() }]);
+    }
+    return EMPTY;
   }
-  recordCellContent(id: string, value: string): Observable<MythicAction<string, string, any>> {
-    throw new Error("Method not implemented.");
+
+  recordCellMetadata(id: string, key: string, value: JSONType | undefined): Observable<MythicAction> {
+    const remoteId = this.cellIdMap.get(id);
+    if (this.channel && remoteId) {
+      this.submit([{ type: "setCellMetadata", cellId: remoteId, key, value, stamp: this.document.nextStamp() }]);
+    }
+    return EMPTY;
+  }
+  //#endregion
+
+  private get collaborationState() {
+    return ((this.store.getState() as unknown) as CollabRootState).__private__.collaboration;
+  }
+
+  private get cellIdMap(): Immutable.Map<string, string> {
+    return this.collaborationState.cellIdMap;
+  }
+
+  private get reverseCellIdMap(): Immutable.Map<string, string> {
+    return this.collaborationState.reverseCellIdMap;
+  }
+
+  private get cellOrder(): Immutable.List<string> {
+    const model = coreSelectors.notebookModel(this.store.getState(), { contentRef: this.contentRef });
+    return model.notebook.cellOrder;
+  }
+
+  private broadcastPresence() {
+    this.channel?.updatePresence({
+      ...this.collaborationState.user,
+      cellId: this.focusedCellId,
+      cursor: this.cursor
+    });
+  }
+
+  private submit(operations: CollaborationOperation[]) {
+    operations.forEach((operation) => this.document.apply(operation));
+    this.channel?.submit(operations);
+  }
+
+  /** Start a new session with the local notebook as its initial content. */
+  private share(notebook: ImmutableNotebook): Observable<MythicAction> {
+    let position: string | undefined;
+    const operations = notebook.cellOrder
+      .map(
+        (id): CollaborationOperation => {
+          position = positionBetween(position);
+          return {
+            type: "insertCell",
+            cellId: id,
+            position,
+            cell: cellToJS(notebook.cellMap.get(id)!),
+            stamp: this.document.nextStamp()
+          };
+        }
+      )
+      .toArray();
+
+    this.submit(operations);
+    return of(initializeCellMap.create({ notebook, contentRef: this.contentRef }));
+  }
+
+  /** Replace the local notebook content with the content of an existing session. */
+  private adopt(notebook: ImmutableNotebook, history: CollaborationOperation[]): Observable<MythicAction> {
+    history.forEach((operation) => this.document.apply(operation));
+
+    return concat(
+      of(initializeCellMap.create({ notebook: emptyNotebook, contentRef: this.contentRef })),
+      ...this.document.cellIds().map((cellId) => defer(() => this.insertLocalCell(cellId))),
+      notebook.cellOrder
+        .toArray()
+        .map((id) => coreActions.deleteCell({ id, contentRef: this.contentRef, ...remote }))
+    );
+  }
+
+  /**
+   * Translate a remote operation into notebook actions. Deferred so that the translation uses the
+   * cell mapping as updated by the actions of the previous operations.
+   */
+  private applyRemoteOperation(operation: CollaborationOperation): Observable<MythicAction> {
+    return defer(() => {
+      if (!this.document.apply(operation)) {
+        return EMPTY;
+      }
+
+      const { cellId } = operation;
+      const id = this.reverseCellIdMap.get(cellId);
+      const contentRef = this.contentRef;
+
+      if (operation.type === "insertCell") {
+        return this.insertLocalCell(cellId);
+      }
+      if (!id) {
+        return EMPTY;
+      }
+
+      switch (operation.type) {
+        case "deleteCell":
+          return of(coreActions.deleteCell({ id, contentRef, ...remote }));
+        case "moveCell":
+          return this.moveLocalCell(cellId, id);
+        case "setCellSource":
+          return of(
+            coreActions.setInCell({ id, contentRef, path: ["source"], value: this.document.source(cellId), ...remote })
+          );
+        case "setCellMetadata":
+          {
+            const value = this.document.metadata(cellId, operation.key);
+            return of(
+              coreActions.setInCell({
+                id,
+                contentRef,
+                path: ["metadata", operation.key],
+                // Tags are kept as a set, see createImmutableMetadata in commutable
+                value: operation.key === "tags" ? Immutable.Set(value as string[]) : Immutable.fromJS(value),
+                ...remote
+              })
+            );
+          }
+      }
+    });
+  }
+
+  /** Neighbours of a shared cell which are mapped to local cells */
+  private localNeighbours(cellId: string) {
+    const order = this.document.cellIds();
+    const index = order.indexOf(cellId);
+    const localIds = this.reverseCellIdMap;
+    const before = order.slice(0, index).reverse().find((id) => localIds.has(id));
+    const after = order.slice(index + 1).find((id) => localIds.has(id));
+
+    return {
+      before: before ? localIds.get(before) : undefined,
+      after: after ? localIds.get(after) : undefined
+    };
+  }
+
+  private insertLocalCell(cellId: string): Observable<MythicAction> {
+    const cell = createImmutableCell(this.document.toCell(cellId)!);
+    const payload = {
+      cellType: cell.cell_type,
+      cell,
+      contentRef: this.contentRef,
+      remoteCellId: cellId,
+      ...remote
+    };
+
+    const { before, after } = this.localNeighbours(cellId);
+    const first = this.cellOrder.first(undefined);
+    if (before) {
+      return of(coreActions.createCellBelow({ ...payload, id: before }));
+    } else if (after || first) {
+      return of(coreActions.createCellAbove({ ...payload, id: after ?? first }));
+    }
+    return of(coreActions.createCellAppend(payload));
+  }
+
+  private moveLocalCell(cellId: string, id: string): Observable<MythicAction> {
+    const { before, after } = this.localNeighbours(cellId);
+    const contentRef = this.contentRef;
+    if (before) {
+      return of(coreActions.moveCell({ id, contentRef, destinationId: before, above: false, ...remote }));
+    } else if (after) {
+      return of(coreActions.moveCell({ id, contentRef, destinationId: after, above: true, ...remote }));
+    }
+    return EMPTY;
+  }
+
+  /** Position key placing a local cell between its shared neighbours */
+  private positionOf(id: string): string {
+    const cellOrder = this.cellOrder;
+    const index = cellOrder.indexOf(id);
+    const isShared = (localId: string) => this.document.has(this.cellIdMap.get(localId) ?? "");
+    const before = cellOrder.slice(0, index).findLast(isShared);
+    const after = cellOrder.slice(index + 1).find(isShared);
+    const low = before ? this.document.position(this.cellIdMap.get(before)!) : undefined;
+    const high = after ? this.document.position(this.cellIdMap.get(after)!) : undefined;
+
+    // The local order may briefly disagree with the shared one while remote moves are replayed
+    return low !== undefined && high !== undefined && low >= high ? positionBetween(low) : positionBetween(low, high);
   }
-//#endregion
 }
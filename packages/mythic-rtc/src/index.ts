@@ -1,3 +1,9 @@
+import * as selectors from "./selectors";
+
+export * from "./types";
 export { collaboration } from "./package";
-export { initCollaboration, joinSession, leaveSession } from "./myths";
 export { collaborationMiddleware } from "./middleware";
+export { LocalCollaborationBackend } from "./backends";
+export { CollaborationDocument, positionBetween } from "./crdt";
+export { initCollaboration, joinSession, leaveSession, updatePresence } from "./myths";
+export { selectors };
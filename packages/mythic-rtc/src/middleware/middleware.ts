@@ -5,9 +5,12 @@ import { AnyAction, Dispatch, Store } from "redux";
 import {
   deleteCellFromMap,
   recordCellContent,
+  recordCellMetadata,
   recordDeleteCell,
   recordInsertCell,
-  updateCellMap
+  recordMoveCell,
+  updateCellMap,
+  updatePresence
 } from "../myths";
 
 /**
@@ -23,14 +26,24 @@ export const collaborationMiddleware = (store: Store<AppState>) => (next: Dispat
   switch (action.type) {
     case coreActions.CREATE_CELL_ABOVE:
     case coreActions.CREATE_CELL_BELOW:
+    case coreActions.CREATE_CELL_APPEND:
       {
-        const insertAction = handleInsertCell(action as coreActions.CreateCellAbove | coreActions.CreateCellBelow, store.getState());
+        const insertAction = handleInsertCell(
+          action as coreActions.CreateCellAbove | coreActions.CreateCellBelow | coreActions.CreateCellAppend,
+          store.getState()
+        );
         if (insertAction) {
           store.dispatch(insertAction);
         }
       }
       break;
     case coreActions.MOVE_CELL:
+      {
+        const moveAction = handleMoveCell(action as coreActions.MoveCell);
+        if (moveAction) {
+          store.dispatch(moveAction);
+        }
+      }
       break;
     case coreActions.DELETE_CELL:
       const deleteAction = handleDeleteCell(action as coreActions.DeleteCell);
@@ -39,30 +52,57 @@ export const collaborationMiddleware = (store: Store<AppState>) => (next: Dispat
       }
       break;
     case coreActions.SET_IN_CELL:
-      const contentAction = handleCellContent(action as coreActions.SetInCell<string>);
+      const contentAction =
+        handleCellContent(action as coreActions.SetInCell<string>) ??
+        handleCellMetadata(action as coreActions.SetInCell<any>, store.getState());
       if (contentAction) {
         store.dispatch(contentAction);
       }
       break;
+    case coreActions.TOGGLE_TAG_IN_CELL:
+    case coreActions.TOGGLE_CELL_INPUT_VISIBILITY:
+    case coreActions.TOGGLE_CELL_OUTPUT_VISIBILITY:
+      {
+        const metadataAction = handleCellMetadata(action, store.getState());
+        if (metadataAction) {
+          store.dispatch(metadataAction);
+        }
+      }
+      break;
+    case coreActions.FOCUS_CELL:
+    case coreActions.FOCUS_NEXT_CELL:
+    case coreActions.FOCUS_PREVIOUS_CELL:
+      store.dispatch(handleFocusCell(action, store.getState()));
+      break;
   }
 
   return result;
 };
 
-const handleInsertCell = (action: coreActions.CreateCellAbove | coreActions.CreateCellBelow, state: AppState) => {
+const handleInsertCell = (
+  action: coreActions.CreateCellAbove | coreActions.CreateCellBelow | coreActions.CreateCellAppend,
+  state: AppState
+) => {
   // This seems to return the current focused cell, may be because the new cell
   const { contentRef, origin, remoteCellId } = action.payload as any;
   const model = coreSelectors.notebookModel(state, { contentRef });
-  const insertId = action.payload.id ?? coreSelectors.notebook.cellFocused(model);
+  const cellOrder = model.notebook.get<Immutable.List<CellId> | null>("cellOrder", null);
+  const insertId =
+    action.type === coreActions.CREATE_CELL_APPEND
+      ? cellOrder?.last(undefined)
+      : action.payload.id ?? coreSelectors.notebook.cellFocused(model);
   if (!insertId) {
     return null;
   }
 
-  const cellOrder = model.notebook.get<Immutable.List<CellId> | null>("cellOrder", null);
   const relativeIndex = cellOrder?.indexOf(insertId) ?? -1;
   let insertAt = 0;
 
   switch (action.type) {
+    case coreActions.CREATE_CELL_APPEND:
+      // The appended cell is the last one
+      insertAt = relativeIndex;
+      break;
     case coreActions.CREATE_CELL_ABOVE:
       insertAt = relativeIndex - 1;
       break;
@@ -101,6 +141,14 @@ const handleDeleteCell = (action: coreActions.DeleteCell) => {
   return null;
 };
 
+const handleMoveCell = (action: coreActions.MoveCell) => {
+  const { id, origin } = action.payload as any;
+  if (origin !== "remote" && id) {
+    return recordMoveCell.create({ id });
+  }
+  return null;
+};
+
 const handleCellContent = (action: coreActions.SetInCell<string>) => {
   const { id, path, value, origin } = action.payload as any;
   if (origin !== "remote" && id && path && path[0] === "source") {
@@ -108,3 +156,42 @@ const handleCellContent = (action: coreActions.SetInCell<string>) => {
   }
   return null;
 };
+
+const handleCellMetadata = (action: AnyAction, state: AppState) => {
+  const { contentRef, path, origin } = action.payload;
+  if (origin === "remote") {
+    return null;
+  }
+
+  let key: string;
+  switch (action.type) {
+    case coreActions.SET_IN_CELL:
+      if (!path || path[0] !== "metadata" || !path[1]) {
+        return null;
+      }
+      key = path[1];
+      break;
+    case coreActions.TOGGLE_TAG_IN_CELL:
+      key = "tags";
+      break;
+    default:
+      key = "jupyter";
+      break;
+  }
+
+  const model = coreSelectors.notebookModel(state, { contentRef });
+  const id = action.payload.id ?? coreSelectors.notebook.cellFocused(model);
+  if (!id) {
+    return null;
+  }
+
+  const value = model.notebook.getIn(["cellMap", id, "metadata", key]);
+  return recordCellMetadata.create({ id, key, value: Immutable.isImmutable(value) ? value.toJS() : value });
+};
+
+const handleFocusCell = (action: AnyAction, state: AppState) => {
+  const { contentRef } = action.payload;
+  const model = coreSelectors.notebookModel(state, { contentRef });
+  const id = coreSelectors.notebook.cellFocused(model);
+  return updatePresence.create({ id: id ?? undefined });
+};
@@ -2,3 +2,4 @@ export * from "./init";
 export * from "./session";
 export * from "./record";
 export * from "./internal";
+export * from "./presence";
@@ -1,8 +1,9 @@
 import { Store } from "redux";
 import { AppState, ContentRef } from "@nteract/types";
+import { anonymousCollaborator } from "../collaborators";
 import { CollaborationDriver } from "../driver";
 import { collaboration } from "../package";
-import { ICollaborationBackend } from "../types";
+import { ICollaborationBackend, ICollaborator } from "../types";
 
 /**
  * Initializes the collaboration package by creating the driver and recorder.
@@ -12,11 +13,16 @@ export const initCollaboration = collaboration.createMyth("init")<{
   store: Store<AppState>;
   backend: ICollaborationBackend;
   contentRef: ContentRef;
+  /** How the local user is presented to the other participants, anonymous by default. */
+  user?: ICollaborator;
 }>({
   reduce: (state, action) => {
-    const { store: theAppStore, contentRef } = action.payload;
+    const { store: theAppStore, contentRef, user } = action.payload;
     const backend = action.payload.backend;
     const driver = new CollaborationDriver(backend, theAppStore, contentRef);
-    return state.set("driver", driver).set("recorder", driver);
+    return state
+      .set("driver", driver)
+      .set("recorder", driver)
+      .set("user", user ?? anonymousCollaborator());
   }
 });
@@ -0,0 +1,30 @@
+import { EMPTY } from "rxjs";
+import { collaboration } from "../package";
+import { ICursorRange, IPresenceUpdate } from "../types";
+
+/**
+ * Share the focused cell and, when its editor has focus, the cursor of the local user.
+ * Editors report cursor changes whether or not a session was joined, these are ignored.
+ */
+export const updatePresence = collaboration.createMyth("updatePresence")<{
+  id?: string;
+  cursor?: ICursorRange;
+}>({
+  thenDispatch: [
+    (action, state) => {
+      const { id, cursor } = action.payload;
+      return state.isLoaded ? state.driver.updatePresence(id, cursor) : EMPTY;
+    }
+  ]
+});
+
+/** Track the presence of another participant. */
+export const updateParticipant = collaboration.createMyth("updateParticipant")<IPresenceUpdate>({
+  reduce: (state, action) => {
+    const { actor, presence } = action.payload;
+    return state.set(
+      "participants",
+      presence ? state.participants.set(actor, presence) : state.participants.delete(actor)
+    );
+  }
+});
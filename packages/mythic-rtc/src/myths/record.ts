@@ -1,4 +1,4 @@
-import { ImmutableCell } from "@nteract/commutable";
+import { ImmutableCell, JSONType } from "@nteract/commutable";
 import { collaboration } from "../package";
 
 export const recordInsertCell = collaboration.createMyth("recordInsertCell")<{
@@ -26,6 +26,17 @@ export const recordDeleteCell = collaboration.createMyth("recordDeleteCell")<{
   ]
 });
 
+export const recordMoveCell = collaboration.createMyth("recordMoveCell")<{
+  id: string;
+}>({
+  thenDispatch: [
+    (action, state) => {
+      const { id } = action.payload;
+      return state.recorder.recordMoveCell(id);
+    }
+  ]
+});
+
 export const recordCellContent = collaboration.createMyth("recordCellContent")<{
   id: string;
   value: string;
@@ -37,3 +48,16 @@ export const recordCellContent = collaboration.createMyth("recordCellContent")<{
     }
   ]
 });
+
+export const recordCellMetadata = collaboration.createMyth("recordCellMetadata")<{
+  id: string;
+  key: string;
+  value: JSONType | undefined;
+}>({
+  thenDispatch: [
+    (action, state) => {
+      const { id, key, value } = action.payload;
+      return state.recorder.recordCellMetadata(id, key, value);
+    }
+  ]
+});
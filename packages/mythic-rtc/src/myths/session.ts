@@ -30,3 +30,9 @@ export const joinSessionFailed = collaboration.createMyth("join/failed")<void>({
     return state.set("isLoaded", false);
   }
 });
+
+export const leaveSessionSucceeded = collaboration.createMyth("leave/succeeded")<void>({
+  reduce: (state) => {
+    return state.set("isLoaded", false).set("participants", state.participants.clear());
+  }
+});
@@ -1,6 +1,6 @@
 import * as Immutable from "immutable";
 import { createMythicPackage } from "@nteract/myths";
-import { IActionRecorder, ICollaborationDriver, ICollaborationState } from "./types";
+import { IActionRecorder, ICollaborationDriver, ICollaborationState, ICollaborator } from "./types";
 
 /** Real-time collaboration package */
 export const collaboration = createMythicPackage("collaboration")<ICollaborationState>({
@@ -9,6 +9,8 @@ export const collaboration = createMythicPackage("collaboration")<ICollaboration
     driver: (null as unknown) as ICollaborationDriver,
     recorder: (null as unknown) as IActionRecorder,
     cellIdMap: Immutable.Map(),
-    reverseCellIdMap: Immutable.Map()
+    reverseCellIdMap: Immutable.Map(),
+    user: (null as unknown) as ICollaborator,
+    participants: Immutable.Map()
   }
 });
@@ -0,0 +1,45 @@
+import * as Immutable from "immutable";
+import { collaboration } from "./package";
+import { CollabRootState, IPresence } from "./types";
+
+const NO_PARTICIPANTS: IPresence[] = [];
+
+const collaborationState = collaboration.createSelector((state) => state);
+
+/** Participants grouped by the session-wide ID of their focused cell, cached per participants map. */
+const byCell = new WeakMap<Immutable.Map<string, IPresence>, Map<string, IPresence[]>>();
+
+const groupByCell = (participants: Immutable.Map<string, IPresence>) => {
+  let groups = byCell.get(participants);
+  if (!groups) {
+    groups = new Map();
+    for (const presence of participants.values()) {
+      if (presence.cellId) {
+        groups.set(presence.cellId, [...(groups.get(presence.cellId) ?? []), presence]);
+      }
+    }
+    byCell.set(participants, groups);
+  }
+  return groups;
+};
+
+/** Whether the app is connected to a collaboration session. */
+export const isCollaborating = collaboration.createSelector((state) => state?.isLoaded ?? false);
+
+/** Presence of the other participants of the session. */
+export const participants = collaboration.createSelector((state) =>
+  state?.isLoaded ? state.participants.valueSeq().toArray() : NO_PARTICIPANTS
+);
+
+/**
+ * Other participants focusing the given local cell. The same array is returned as long as the
+ * participants did not change, so that it can be passed as a prop as-is.
+ */
+export const participantsInCell = (state: Partial<CollabRootState>, props: { id: string }): IPresence[] => {
+  const collab = collaborationState(state);
+  const cellId = collab?.cellIdMap.get(props.id);
+  if (!collab?.isLoaded || !cellId) {
+    return NO_PARTICIPANTS;
+  }
+  return groupByCell(collab.participants).get(cellId) ?? NO_PARTICIPANTS;
+};
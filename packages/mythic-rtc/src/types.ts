@@ -1,6 +1,7 @@
 import * as Immutable from "immutable";
 import { Observable } from "rxjs";
-import { ImmutableCell, ImmutableNotebook } from "@nteract/commutable";
+import { ImmutableCell, ImmutableNotebook, JSONType } from "@nteract/commutable";
+import { Cell } from "@nteract/commutable/lib/v4";
 import { KernelRef } from "@nteract/types";
 import { MythicAction, RootState } from "@nteract/myths";
 
@@ -10,18 +11,124 @@ export interface ICollaborationDriver {
   join(filePath: string, notebook: ImmutableNotebook, kernelRef: KernelRef): Observable<MythicAction>;
   /** Leave the collaboration session */
   leave(): Observable<MythicAction>;
+  /** Broadcast the focused cell and cursor of the local user, `id` being the local cell ID. */
+  updatePresence(id: string | undefined, cursor: ICursorRange | undefined): Observable<MythicAction>;
 }
 
 /** Coordinates notebook actions recording. Used to decouple the backend from the store. */
 export interface IActionRecorder {
   recordInsertCell(id: string, insertAt: number, cell: ImmutableCell): Observable<MythicAction>;
   recordDeleteCell(id: string): Observable<MythicAction>;
+  recordMoveCell(id: string): Observable<MythicAction>;
   recordCellContent(id: string, value: string): Observable<MythicAction>;
+  recordCellMetadata(id: string, key: string, value: JSONType | undefined): Observable<MythicAction>;
 }
 
-/** Abstraction over a vendor provided RTC functionality. TBD */
-// eslint-disable-next-line @typescript-eslint/no-empty-interface
+/**
+ * Lamport timestamp of an operation. Concurrent writes to the same value are resolved
+ * in favor of the higher clock, ties are broken by comparing the actor IDs.
+ */
+export interface IOperationStamp {
+  clock: number;
+  actor: string;
+}
+
+interface IOperation<TYPE extends string> {
+  type: TYPE;
+  /** Session-wide cell ID. Mapped to the local cell ID via `cellIdMap`/`reverseCellIdMap`. */
+  cellId: string;
+  stamp: IOperationStamp;
+}
+
+/** Adds a cell. Cells are ordered by their `position` keys, compared as strings. */
+export interface IInsertCellOperation extends IOperation<"insertCell"> {
+  position: string;
+  cell: Cell;
+}
+
+/** Removes a cell. Deleted cells stay in the document as tombstones. */
+export type IDeleteCellOperation = IOperation<"deleteCell">;
+
+/** Assigns a new `position` key to a cell. */
+export interface IMoveCellOperation extends IOperation<"moveCell"> {
+  position: string;
+}
+
+/** Replaces the source of a cell. */
+export interface ISetCellSourceOperation extends IOperation<"setCellSource"> {
+  source: string;
+}
+
+/** Replaces a top level cell metadata entry, `undefined` removes it. */
+export interface ISetCellMetadataOperation extends IOperation<"setCellMetadata"> {
+  key: string;
+  value: JSONType | undefined;
+}
+
+/** Notebook edits exchanged by the session participants. */
+export type CollaborationOperation =
+  | IInsertCellOperation
+  | IDeleteCellOperation
+  | IMoveCellOperation
+  | ISetCellSourceOperation
+  | ISetCellMetadataOperation;
+
+/** Identity of a session participant as shown to the others. */
+export interface ICollaborator {
+  /** User ID */
+  id: string;
+  displayName: string;
+  /** Hex color (`#rrggbb`) of the participant's cursor, selection and avatar */
+  color: string;
+}
+
+/** Selection within the source of a cell as character offsets. `anchor` equals `head` for a bare cursor. */
+export interface ICursorRange {
+  anchor: number;
+  head: number;
+}
+
+/** Where a participant currently is in the notebook. */
+export interface IPresence extends ICollaborator {
+  /** Session-wide ID of the focused cell */
+  cellId?: string;
+  /** Cursor in the editor of the focused cell */
+  cursor?: ICursorRange;
+}
+
+/** Presence change of a participant, `presence` is `null` once the participant left. */
+export interface IPresenceUpdate {
+  actor: string;
+  presence: IPresence | null;
+}
+
+/** Connection of a single participant to a collaboration session. */
+export interface ICollaborationChannel {
+  /** Operations submitted to the session before the channel was opened. */
+  readonly history: CollaborationOperation[];
+  /** Operations submitted by other participants after the channel was opened. */
+  readonly operations: Observable<CollaborationOperation>;
+  /**
+   * Presence of the other participants: the current presence of everyone already in the session,
+   * followed by changes as they happen.
+   */
+  readonly presence: Observable<IPresenceUpdate>;
+  /** Broadcast operations of this participant to the session. */
+  submit(operations: CollaborationOperation[]): void;
+  /** Broadcast the presence of this participant to the session. */
+  updatePresence(presence: IPresence): void;
+  /** Disconnect from the session, completing `operations` and `presence`. */
+  close(): void;
+}
+
+/**
+ * Abstraction over a vendor provided RTC functionality.
+ * Backends relay operations as-is and must preserve their causal order, which any relay
+ * forwarding operations in the order it received them does.
+ */
 export interface ICollaborationBackend {
+  /** Open a channel to the session identified by `sessionId` on behalf of `actor`. */
+  connect(sessionId: string, actor: string): Observable<ICollaborationChannel>;
 }
 
 /** RTC package state */
@@ -36,6 +143,10 @@ export interface ICollaborationState {
   cellIdMap: Immutable.Map<string, string>;
   /** Reverse cell ID mapping. */
   reverseCellIdMap: Immutable.Map<string, string>;
+  /** Local user as presented to the other participants. */
+  user: ICollaborator;
+  /** Presence of the other participants keyed by their actor ID. Cell IDs are session-wide. */
+  participants: Immutable.Map<string, IPresence>;
 }
 
 /** Combined app store state with included RTC package */
@@ -135,6 +135,64 @@ describe("KeyboardShortcuts", () => {
     // Should focus the next cell editor since it is a code cell
     expect(focusNextCellEditor).not.toBeCalled();
   });
+  it("undoes and redoes notebook edits", () => {
+    const undo = jest.fn();
+    const redo = jest.fn();
+    shallow(
+      <KeyboardShortcuts contentRef={"test"} undo={undo} redo={redo}>
+        <p>test</p>
+      </KeyboardShortcuts>
+    );
+    const modifier = process.platform === "darwin" ? "metaKey" : "ctrlKey";
+    map.keydown({ key: "z", [modifier]: true, preventDefault: () => {} });
+    expect(undo).toBeCalledWith({ contentRef: "test" });
+    map.keydown({
+      key: "Z",
+      [modifier]: true,
+      shiftKey: true,
+      preventDefault: () => {}
+    });
+    expect(redo).toBeCalledWith({ contentRef: "test" });
+  });
+  it("leaves undo to the editor when one is focused", () => {
+    const undo = jest.fn();
+    shallow(
+      <KeyboardShortcuts contentRef={"test"} undo={undo}>
+        <p>test</p>
+      </KeyboardShortcuts>
+    );
+    const modifier = process.platform === "darwin" ? "metaKey" : "ctrlKey";
+    map.keydown({
+      key: "z",
+      [modifier]: true,
+      target: document.createElement("textarea"),
+      preventDefault: () => {}
+    });
+    expect(undo).not.toBeCalled();
+  });
+  it("extends the selection with shift and the arrow keys", () => {
+    const focusCell = jest.fn();
+    const selectCells = jest.fn();
+    shallow(
+      <KeyboardShortcuts
+        contentRef={"test"}
+        focusedCell={"b"}
+        cellOrder={Immutable.List(["a", "b", "c"])}
+        selectedCells={Immutable.List(["a", "b"])}
+        focusCell={focusCell}
+        selectCells={selectCells}
+      >
+        <p>test</p>
+      </KeyboardShortcuts>
+    );
+    map.keydown({ key: "ArrowDown", shiftKey: true, preventDefault: () => {} });
+    expect(selectCells).toBeCalledWith({ ids: ["a", "b", "c"] });
+    expect(focusCell).toBeCalledWith({ id: "c", contentRef: "test" });
+
+    selectCells.mockClear();
+    map.keydown({ key: "ArrowDown", preventDefault: () => {} });
+    expect(selectCells).not.toBeCalled();
+  });
   it("removes event listeners when unmounted", () => {
     const component = shallow(
       <KeyboardShortcuts contentRef={"test"}>
@@ -231,5 +289,9 @@ describe("mapDispatchToProps", () => {
     expect(dispatch).toBeCalledWith(
       actions.focusNextCellEditor(focusNextCellPayload)
     );
+    result.undo({ contentRef: "contentRef" });
+    expect(dispatch).toBeCalledWith(actions.undo({ contentRef: "contentRef" }));
+    result.redo({ contentRef: "contentRef" });
+    expect(dispatch).toBeCalledWith(actions.redo({ contentRef: "contentRef" }));
   });
 });
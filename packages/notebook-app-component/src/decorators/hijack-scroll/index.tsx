@@ -1,11 +1,19 @@
 /* eslint jsx-a11y/no-static-element-interactions: 0 */
 /* eslint jsx-a11y/click-events-have-key-events: 0 */
 
+import Immutable from "immutable";
 import React from "react";
 import { connect } from "react-redux";
 import { Dispatch } from "redux";
 import scrollIntoView from "scroll-into-view-if-needed";
+import { CellId } from "@nteract/commutable";
 import { actions, selectors, ContentRef, AppState } from "@nteract/core";
+import {
+  cellRange,
+  clearSelectedCells,
+  selectCells,
+  selectors as multiselectSelectors,
+} from "@nteract/mythic-multiselect";
 
 interface ComponentProps {
   id: string;
@@ -15,10 +23,16 @@ interface ComponentProps {
 
 interface StateProps {
   focused: boolean;
+  cellOrder: Immutable.List<CellId>;
+  /**
+   * The cell a shift-click selects the range from
+   */
+  anchor: CellId | null;
 }
 
 interface DispatchProps {
   selectCell: () => void;
+  selectRange: (ids: CellId[]) => void;
 }
 
 type Props = ComponentProps & DispatchProps & StateProps;
@@ -62,10 +76,19 @@ export class HijackScroll extends React.Component<Props> {
     this.scrollIntoViewIfNeeded();
   }
 
+  onClick = (e: React.MouseEvent<HTMLDivElement>): void => {
+    const { anchor, cellOrder, id } = this.props;
+    if (e.shiftKey && anchor && anchor !== id) {
+      this.props.selectRange(cellRange(cellOrder, anchor, id));
+    } else {
+      this.props.selectCell();
+    }
+  };
+
   render() {
     return (
       <div
-        onClick={this.props.selectCell}
+        onClick={this.onClick}
         role="presentation"
         ref={(el) => {
           this.el = el;
@@ -85,13 +108,22 @@ const makeMapStateToProps = (
     const { id, contentRef } = ownProps;
     const model = selectors.model(state, { contentRef });
     let focused = false;
+    let cellOrder = Immutable.List<CellId>();
+    let anchor = null;
 
     if (model && model.type === "notebook") {
       focused = model.cellFocused === id;
+      cellOrder = model.notebook.cellOrder;
+      anchor =
+        multiselectSelectors.selectedCells(state as any)?.first(null) ??
+        model.cellFocused ??
+        null;
     }
 
     return {
       focused,
+      cellOrder,
+      anchor,
     };
   };
   return mapStateToProps;
@@ -102,10 +134,18 @@ const makeMapDispatchToProps = (
   ownProps: ComponentProps
 ) => {
   const mapDispatchToProps = (dispatch: Dispatch) => ({
-    selectCell: () =>
+    selectCell: () => {
+      dispatch(clearSelectedCells.create(null));
+      dispatch(
+        actions.focusCell({ id: ownProps.id, contentRef: ownProps.contentRef })
+      );
+    },
+    selectRange: (ids: CellId[]) => {
+      dispatch(selectCells.create({ ids }));
       dispatch(
         actions.focusCell({ id: ownProps.id, contentRef: ownProps.contentRef })
-      ),
+      );
+    },
   });
   return mapDispatchToProps;
 };
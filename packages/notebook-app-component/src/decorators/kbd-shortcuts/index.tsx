@@ -5,6 +5,11 @@ import { Dispatch } from "redux";
 
 import { CellId } from "@nteract/commutable";
 import { actions, AppState, ContentRef, selectors } from "@nteract/core";
+import {
+  cellRange,
+  selectCells,
+  selectors as multiselectSelectors,
+} from "@nteract/mythic-multiselect";
 
 interface ComponentProps {
   contentRef: ContentRef;
@@ -15,6 +20,7 @@ interface StateProps {
   cellMap: Immutable.Map<string, any>;
   cellOrder: Immutable.List<string>;
   focusedCell?: string | null;
+  selectedCells: Immutable.List<CellId>;
 }
 
 interface DispatchProps {
@@ -28,8 +34,20 @@ interface DispatchProps {
     id?: CellId;
     contentRef: ContentRef;
   }) => void;
+  undo: (payload: { contentRef: ContentRef }) => void;
+  redo: (payload: { contentRef: ContentRef }) => void;
+  focusCell: (payload: { id: CellId; contentRef: ContentRef }) => void;
+  selectCells: (payload: { ids: CellId[] }) => void;
 }
 
+/**
+ * Editors and inputs keep their own undo history for the text in them.
+ */
+const isEditingText = (target: EventTarget | null | undefined) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
 type Props = ComponentProps & StateProps & DispatchProps;
 
 export class KeyboardShortcuts extends React.Component<Props> {
@@ -56,11 +74,26 @@ export class KeyboardShortcuts extends React.Component<Props> {
   }
 
   keyDown(e: KeyboardEvent): void {
+    if (e.key === "z" || e.key === "Z" || e.key === "y") {
+      this.undoOrRedo(e);
+      return;
+    }
+
+    if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+      this.extendSelection(e);
+      return;
+    }
+
     // If enter is not pressed, do nothing
     if (e.key !== "Enter") {
       return;
     }
 
+    // Editors which ask the kernel whether code is complete handle enter themselves
+    if (e.defaultPrevented) {
+      return;
+    }
+
     const {
       executeFocusedCell,
       focusNextCell,
@@ -115,6 +148,48 @@ export class KeyboardShortcuts extends React.Component<Props> {
     }
   }
 
+  /**
+   * Ctrl+Z undoes notebook edits, Ctrl+Shift+Z and Ctrl+Y redo them (Cmd on
+   * macOS).
+   */
+  undoOrRedo(e: KeyboardEvent): void {
+    const { undo, redo, contentRef } = this.props;
+    const modifierPressed =
+      process.platform === "darwin" ? e.metaKey : e.ctrlKey;
+    if (!modifierPressed || e.altKey || isEditingText(e.target)) {
+      return;
+    }
+
+    e.preventDefault();
+    if (e.key === "y" || e.shiftKey) {
+      redo({ contentRef });
+    } else {
+      undo({ contentRef });
+    }
+  }
+
+  /**
+   * Shift+Up and Shift+Down select the range of cells from where the
+   * selection started to the cell above or below the focused one.
+   */
+  extendSelection(e: KeyboardEvent): void {
+    const { cellOrder, contentRef, focusedCell, selectedCells } = this.props;
+    if (!e.shiftKey || !focusedCell || isEditingText(e.target)) {
+      return;
+    }
+
+    const index = cellOrder.indexOf(focusedCell);
+    const head = cellOrder.get(e.key === "ArrowUp" ? index - 1 : index + 1);
+    if (index === -1 || !head) {
+      return;
+    }
+
+    e.preventDefault();
+    const anchor = selectedCells.first(focusedCell);
+    this.props.selectCells({ ids: cellRange(cellOrder, anchor, head) });
+    this.props.focusCell({ id: head, contentRef });
+  }
+
   render() {
     return <React.Fragment>{this.props.children}</React.Fragment>;
   }
@@ -141,7 +216,9 @@ export const makeMapStateToProps = (
     return {
       cellOrder,
       cellMap,
-      focusedCell
+      focusedCell,
+      selectedCells:
+        multiselectSelectors.selectedCells(state as any) ?? Immutable.List()
     };
   };
   return mapStateToProps;
@@ -156,7 +233,14 @@ export const mapDispatchToProps = (dispatch: Dispatch) => ({
     contentRef: ContentRef;
   }) => dispatch(actions.focusNextCell(payload)),
   focusNextCellEditor: (payload: { id?: CellId; contentRef: ContentRef }) =>
-    dispatch(actions.focusNextCellEditor(payload))
+    dispatch(actions.focusNextCellEditor(payload)),
+  undo: (payload: { contentRef: ContentRef }) =>
+    dispatch(actions.undo(payload)),
+  redo: (payload: { contentRef: ContentRef }) => dispatch(actions.redo(payload)),
+  focusCell: (payload: { id: CellId; contentRef: ContentRef }) =>
+    dispatch(actions.focusCell(payload)),
+  selectCells: (payload: { ids: CellId[] }) =>
+    dispatch(selectCells.create(payload))
 });
 
 export default connect(
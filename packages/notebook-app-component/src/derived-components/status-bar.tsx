@@ -53,6 +53,9 @@ export default class StyledStatusBar extends React.Component<ComponentProps> {
                 <p>
                   {context.kernelSpecDisplayName || "Loading..."} |{" "}
                   {context.kernelStatus}
+                  {context.pendingExecutions > 0
+                    ? ` | ${context.pendingExecutions} pending`
+                    : null}
                 </p>
               </LeftStatus>
             </Bar>
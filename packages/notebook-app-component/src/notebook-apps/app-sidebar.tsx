@@ -4,6 +4,14 @@ import {
   AppSidebar as SidebarProvider,
   AppSidebarContext,
   AppSidebarProps,
+  Checkpoints,
+  DebuggerPanel,
+  ExecutionQueuePanel,
+  HistoryPanel,
+  NotebookConsole,
+  ReactivePanel,
+  RunProfile,
+  VariableInspector,
 } from "@nteract/stateful-components";
 
 import { ContentRef } from "@nteract/core";
@@ -13,11 +21,35 @@ interface ComponentProps {
   contentRef: ContentRef;
 }
 
-const AppSidebar = () => (
+const AppSidebar = (props: ComponentProps) => (
   <AppSidebarContext.Consumer>
     {(value: AppSidebarProps) => (
       <Sidebar isVisible={value.isSidebarVisible}>
         <SidebarItem level={1} name={(value as any).filepath} />
+        <li className="sidebar-checkpoints">
+          <Checkpoints contentRef={props.contentRef} />
+        </li>
+        <li className="sidebar-execution-queue">
+          <ExecutionQueuePanel contentRef={props.contentRef} />
+        </li>
+        <li className="sidebar-reactive">
+          <ReactivePanel contentRef={props.contentRef} />
+        </li>
+        <li className="sidebar-run-profile">
+          <RunProfile contentRef={props.contentRef} />
+        </li>
+        <li className="sidebar-debugger">
+          <DebuggerPanel contentRef={props.contentRef} />
+        </li>
+        <li className="sidebar-variables">
+          <VariableInspector contentRef={props.contentRef} />
+        </li>
+        <li className="sidebar-history">
+          <HistoryPanel contentRef={props.contentRef} />
+        </li>
+        <li className="sidebar-console">
+          <NotebookConsole contentRef={props.contentRef} />
+        </li>
       </Sidebar>
     )}
   </AppSidebarContext.Consumer>
@@ -25,7 +57,7 @@ const AppSidebar = () => (
 
 const AppSidebarWrapper = (props: ComponentProps) => (
   <SidebarProvider id="app-sidebar" contentRef={props.contentRef}>
-    <AppSidebar />
+    <AppSidebar contentRef={props.contentRef} />
   </SidebarProvider>
 );
 
@@ -5,6 +5,7 @@ import {
   CodeCell,
   MarkdownCell,
   RawCell,
+  RecoveryBanner,
 } from "@nteract/stateful-components";
 import { ThemeFromConfig } from "@nteract/stateful-components";
 import React from "react";
@@ -55,6 +56,7 @@ export class NotebookApp extends React.Component<ComponentProps> {
         <ThemeFromConfig>
           <EditorLoader/>
           <KeyboardShortcuts contentRef={this.props.contentRef}>
+            <RecoveryBanner contentRef={this.props.contentRef} />
             <Cells contentRef={this.props.contentRef}>
               {{
                 code: (props: { id: string; contentRef: ContentRef }) =>
@@ -0,0 +1,90 @@
+import { emptyCodeCell } from "@nteract/commutable";
+import { createMessage, JupyterMessage, MessageType } from "@nteract/messaging";
+
+import { reduceMessage, startExecution } from "../src/execute";
+
+function reply(msg_type: MessageType, content: object): JupyterMessage {
+  return createMessage(msg_type, { content });
+}
+
+function reduceAll(messages: JupyterMessage[]) {
+  return messages.reduce(
+    reduceMessage,
+    startExecution(
+      emptyCodeCell
+        .set("source", "print('hi')")
+        .set("execution_count", 3)
+        .setIn(["metadata", "execution", "iopub.status.idle"], "yesterday")
+    )
+  );
+}
+
+describe("reduceMessage", () => {
+  it("records the outputs, execution count and timings of the cell", () => {
+    const execution = reduceAll([
+      reply("status", { execution_state: "busy" }),
+      reply("execute_input", { execution_count: 1 }),
+      reply("stream", { name: "stdout", text: "h" }),
+      reply("stream", { name: "stdout", text: "i\n" }),
+      reply("execute_result", {
+        execution_count: 1,
+        data: { "text/plain": "2" },
+        metadata: {}
+      }),
+      reply("execute_reply", { status: "ok", execution_count: 1 }),
+      reply("status", { execution_state: "idle" })
+    ]);
+
+    expect(execution.replied && execution.idle).toBe(true);
+    expect(execution.error).toBeNull();
+    expect(execution.cell.execution_count).toBe(1);
+    expect(execution.cell.outputs.size).toBe(2);
+    expect(execution.cell.getIn(["outputs", 0, "text"])).toBe("hi\n");
+    expect(
+      Object.keys(execution.cell.getIn(["metadata", "execution"]).toJS())
+    ).toEqual([
+      "iopub.status.busy",
+      "iopub.execute_input",
+      "shell.execute_reply",
+      "iopub.status.idle"
+    ]);
+    expect(
+      execution.cell.getIn(["metadata", "execution", "iopub.status.idle"])
+    ).not.toBe("yesterday");
+  });
+  it("keeps the error the cell raised", () => {
+    const execution = reduceAll([
+      reply("error", {
+        ename: "ZeroDivisionError",
+        evalue: "division by zero",
+        traceback: ["..."]
+      }),
+      reply("execute_reply", { status: "error", ename: "ignored" })
+    ]);
+
+    expect(execution.error).toEqual({
+      ename: "ZeroDivisionError",
+      evalue: "division by zero",
+      traceback: ["..."]
+    });
+    expect(execution.cell.outputs.size).toBe(1);
+  });
+  it("clears and updates outputs", () => {
+    const display = (text: string) => ({
+      data: { "text/plain": text },
+      metadata: {},
+      transient: { display_id: "progress" }
+    });
+    const execution = reduceAll([
+      reply("stream", { name: "stdout", text: "gone" }),
+      reply("clear_output", { wait: true }),
+      reply("display_data", display("0%")),
+      reply("update_display_data", display("100%"))
+    ]);
+
+    expect(execution.cell.outputs.size).toBe(1);
+    expect(
+      execution.cell.getIn(["outputs", 0, "data", "text/plain"])
+    ).toBe("100%");
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  appendCellToNotebook,
+  emptyCodeCell,
+  emptyMarkdownCell,
+  emptyNotebook
+} from "@nteract/commutable";
+import {
+  Channels,
+  createMessage,
+  JupyterMessage,
+  MessageType
+} from "@nteract/messaging";
+import { Subject } from "rxjs";
+
+import { LocalKernel } from "../src/kernel";
+import { outputPath, runNotebook } from "../src/run";
+
+type Reply = [MessageType, object];
+
+const idle: Reply = ["status", { execution_state: "idle" }];
+
+/**
+ * A kernel that answers right away, except to `sleep`, which runs until it's
+ * interrupted.
+ */
+function fakeKernel(): LocalKernel & { executed: string[] } {
+  const channels: Channels = new Subject<JupyterMessage>();
+  const publish = channels.next.bind(channels);
+  const executed: string[] = [];
+  let count = 0;
+  let sleeping: JupyterMessage | null = null;
+
+  const answer = (request: JupyterMessage, replies: Reply[]) =>
+    replies.forEach(([msg_type, content]) =>
+      publish(
+        createMessage(msg_type, { parent_header: request.header, content })
+      )
+    );
+
+  channels.next = (request: JupyterMessage) => {
+    if (request.header.msg_type === "kernel_info_request") {
+      answer(request, [
+        ["kernel_info_reply", { language_info: { name: "python" } }],
+        idle
+      ]);
+      return;
+    }
+
+    const code: string = request.content.code;
+    executed.push(code);
+    count += 1;
+    answer(request, [
+      ["status", { execution_state: "busy" }],
+      ["execute_input", { execution_count: count, code }]
+    ]);
+    if (code === "sleep") {
+      sleeping = request;
+    } else if (code === "1/0") {
+      answer(request, [
+        ["error", { ename: "ZeroDivisionError", evalue: "", traceback: [] }],
+        ["execute_reply", { status: "error", execution_count: count }],
+        idle
+      ]);
+    } else {
+      answer(request, [
+        ["stream", { name: "stdout", text: code }],
+        ["execute_reply", { status: "ok", execution_count: count }],
+        idle
+      ]);
+    }
+  };
+
+  const spawn: any = {
+    kill: () => {
+      if (sleeping) {
+        answer(sleeping, [
+          ["error", { ename: "KeyboardInterrupt", evalue: "", traceback: [] }],
+          ["execute_reply", { status: "error", execution_count: count }],
+          idle
+        ]);
+        sleeping = null;
+      }
+    }
+  };
+
+  return { name: "python3", channels, spawn, connectionFile: "", executed };
+}
+
+function makeNotebook(...sources: string[]) {
+  return sources.reduce(
+    (notebook, source) =>
+      appendCellToNotebook(notebook, emptyCodeCell.set("source", source)),
+    appendCellToNotebook(emptyNotebook, emptyMarkdownCell)
+  );
+}
+
+describe("outputPath", () => {
+  it("writes the executed notebook next to the notebook", () => {
+    expect(outputPath("ci/report.ipynb")).toBe("ci/report-output.ipynb");
+  });
+});
+
+describe("runNotebook", () => {
+  it("runs the code cells in order and records their outputs", async () => {
+    const kernel = fakeKernel();
+    const { notebook, errors } = await runNotebook(
+      makeNotebook("a = 1", "  ", "print(a)"),
+      kernel
+    );
+
+    expect(kernel.executed).toEqual(["a = 1", "print(a)"]);
+    expect(errors).toEqual([]);
+    expect(notebook.getIn(["metadata", "language_info", "name"])).toBe(
+      "python"
+    );
+    const last = ["cellMap", notebook.cellOrder.last()];
+    expect(notebook.getIn([...last, "execution_count"])).toBe(2);
+    expect(notebook.getIn([...last, "outputs", 0, "text"])).toBe("print(a)");
+    expect(
+      notebook.getIn([...last, "metadata", "execution", "shell.execute_reply"])
+    ).toBeDefined();
+  });
+  it("stops at the first error unless errors are allowed", async () => {
+    const stopped = fakeKernel();
+    const { errors } = await runNotebook(
+      makeNotebook("1/0", "after"),
+      stopped
+    );
+    expect(stopped.executed).toEqual(["1/0"]);
+    expect(errors.map(error => error.ename)).toEqual(["ZeroDivisionError"]);
+
+    const continued = fakeKernel();
+    await runNotebook(makeNotebook("1/0", "after"), continued, {
+      allowErrors: true
+    });
+    expect(continued.executed).toEqual(["1/0", "after"]);
+  });
+  it("interrupts cells that run out of time", async () => {
+    const kernel = fakeKernel();
+    const { notebook, errors } = await runNotebook(
+      makeNotebook("sleep", "after"),
+      kernel,
+      { timeout: 10 }
+    );
+
+    expect(kernel.executed).toEqual(["sleep"]);
+    expect(errors[0].ename).toBe("CellTimeoutError");
+    expect(
+      notebook.getIn(["cellMap", notebook.cellOrder.get(1), "outputs", 0, "ename"])
+    ).toBe("KeyboardInterrupt");
+  });
+});
@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+import yargs from "yargs/yargs";
+
+import { outputPath, runNotebookFile } from "./run";
+
+const argv = yargs()
+  .usage("Usage: nteract-run <notebook> [options]")
+  .example(
+    "nteract-run report.ipynb --timeout 600",
+    "Run a notebook and write it to report-output.ipynb"
+  )
+  .demandCommand(1, "Which notebook should run?")
+  .string("output")
+  .alias("o", "output")
+  .describe("output", "Where to write the executed notebook")
+  .number("timeout")
+  .alias("t", "timeout")
+  .describe("timeout", "Seconds each cell can run for")
+  .boolean("allow-errors")
+  .describe("allow-errors", "Keep running the cells below one that failed")
+  .string("kernel")
+  .alias("k", "kernel")
+  .describe("kernel", "The kernel to run the notebook with")
+  .string("cwd")
+  .describe("cwd", "The directory to run the kernel in")
+  .alias("h", "help")
+  .help("help")
+  .parse(process.argv.slice(2));
+
+const filepath = String(argv._[0]);
+const output = argv.output || outputPath(filepath);
+
+runNotebookFile(filepath, {
+  outputPath: output,
+  timeout: argv.timeout === undefined ? undefined : argv.timeout * 1000,
+  allowErrors: argv["allow-errors"],
+  kernelName: argv.kernel,
+  cwd: argv.cwd,
+  onCell: (id, execution) => {
+    const count = execution.cell.execution_count;
+    console.log(
+      `[${count === null ? " " : count}] ${
+        execution.error ? execution.error.ename : "ok"
+      }`
+    );
+  }
+})
+  .then(({ errors }) => {
+    console.log(`Wrote ${output}`);
+    errors.forEach(error =>
+      console.error(`Cell ${error.cellId}: ${error.ename}: ${error.evalue}`)
+    );
+    process.exit(errors.length > 0 ? 1 : 0);
+  })
+  .catch(error => {
+    console.error(error.message);
+    process.exit(1);
+  });
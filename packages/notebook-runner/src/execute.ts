@@ -0,0 +1,297 @@
+import {
+  createImmutableOutput,
+  ImmutableCodeCell,
+  ImmutableOutput,
+  OnDiskOutput
+} from "@nteract/commutable";
+import {
+  Channels,
+  childOf,
+  convertOutputMessageToNotebookFormat,
+  executeRequest,
+  JupyterMessage
+} from "@nteract/messaging";
+import { List as ImmutableList } from "immutable";
+import { Observable } from "rxjs";
+
+/**
+ * The error a cell raised, or the reason it didn't finish.
+ */
+export interface CellError {
+  ename: string;
+  evalue: string;
+  traceback: string[];
+}
+
+/**
+ * A code cell as it's being run: its outputs, execution count and
+ * `metadata.execution` timings so far.
+ */
+export interface CellExecution {
+  cell: ImmutableCodeCell;
+  error: CellError | null;
+  // Positions of the outputs that update_display_data messages replace
+  displays: { [displayId: string]: number[] };
+  // clear_output with wait set clears the outputs when the next one comes
+  clearPending: boolean;
+  replied: boolean;
+  idle: boolean;
+}
+
+export interface ExecuteCellOptions {
+  /** Milliseconds the cell can run for, it runs as long as it takes without */
+  timeout?: number;
+  /** Called when the cell runs out of time, to interrupt the kernel */
+  onTimeout?: () => void;
+  /** Milliseconds to wait for an interrupted cell to stop */
+  interruptGracePeriod?: number;
+}
+
+const OUTPUT_MESSAGE_TYPES = [
+  "execute_result",
+  "display_data",
+  "stream",
+  "error"
+];
+
+/**
+ * Starts running a code cell: clears what an earlier run left in it.
+ */
+export function startExecution(cell: ImmutableCodeCell): CellExecution {
+  return {
+    cell: cell
+      .set("outputs", ImmutableList())
+      .set("execution_count", null)
+      .deleteIn(["metadata", "execution"]),
+    error: null,
+    displays: {},
+    clearPending: false,
+    replied: false,
+    idle: false
+  };
+}
+
+function setTiming(
+  cell: ImmutableCodeCell,
+  key: string,
+  date: string = new Date().toISOString()
+): ImmutableCodeCell {
+  return cell.setIn(["metadata", "execution", key], date);
+}
+
+// Consecutive stream outputs with the same name are merged, like the
+// notebook reducer does
+function appendOutput(
+  outputs: ImmutableList<ImmutableOutput>,
+  output: OnDiskOutput
+): ImmutableList<ImmutableOutput> {
+  const last = outputs.last(null);
+  if (
+    output.output_type === "stream" &&
+    last &&
+    last.output_type === "stream" &&
+    last.name === output.name
+  ) {
+    return outputs.set(
+      outputs.size - 1,
+      last.set("text", last.text + output.text)
+    );
+  }
+  return outputs.push(createImmutableOutput(output));
+}
+
+function errorOf(content: {
+  ename?: string;
+  evalue?: string;
+  traceback?: string[];
+}): CellError {
+  return {
+    ename: content.ename || "Error",
+    evalue: content.evalue || "",
+    traceback: content.traceback || []
+  };
+}
+
+function reduceOutput(
+  execution: CellExecution,
+  message: JupyterMessage
+): CellExecution {
+  const { content } = message;
+  const cleared = execution.clearPending
+    ? execution.cell.set("outputs", ImmutableList())
+    : execution.cell;
+  const displays = execution.clearPending ? {} : execution.displays;
+  const cell = cleared.update("outputs", outputs =>
+    appendOutput(
+      outputs,
+      convertOutputMessageToNotebookFormat(message) as OnDiskOutput
+    )
+  );
+
+  const displayId = content.transient && content.transient.display_id;
+  return {
+    ...execution,
+    cell,
+    error:
+      message.header.msg_type === "error" ? errorOf(content) : execution.error,
+    displays: displayId
+      ? {
+          ...displays,
+          [displayId]: [...(displays[displayId] || []), cell.outputs.size - 1]
+        }
+      : displays,
+    clearPending: false
+  };
+}
+
+/**
+ * Applies a message the kernel sent in response to running the cell.
+ */
+export function reduceMessage(
+  execution: CellExecution,
+  message: JupyterMessage
+): CellExecution {
+  const { content } = message;
+  const type = message.header.msg_type;
+
+  switch (type) {
+    case "execute_input":
+      return {
+        ...execution,
+        cell: setTiming(
+          execution.cell.set("execution_count", content.execution_count),
+          "iopub.execute_input"
+        )
+      };
+
+    case "execute_reply":
+      return {
+        ...execution,
+        cell: setTiming(
+          execution.cell.set("execution_count", content.execution_count),
+          "shell.execute_reply"
+        ),
+        error:
+          content.status === "error"
+            ? execution.error || errorOf(content)
+            : content.status === "aborted"
+            ? { ename: "Aborted", evalue: "", traceback: [] }
+            : execution.error,
+        replied: true
+      };
+
+    case "status":
+      return {
+        ...execution,
+        cell: setTiming(
+          execution.cell,
+          `iopub.status.${content.execution_state}`
+        ),
+        idle: content.execution_state === "idle"
+      };
+
+    case "clear_output":
+      return content.wait
+        ? { ...execution, clearPending: true }
+        : {
+            ...execution,
+            cell: execution.cell.set("outputs", ImmutableList()),
+            displays: {}
+          };
+
+    case "update_display_data": {
+      const displayId = content.transient && content.transient.display_id;
+      const output = createImmutableOutput({
+        ...content,
+        output_type: "display_data"
+      });
+      return {
+        ...execution,
+        cell: (execution.displays[displayId] || []).reduce(
+          (cell: ImmutableCodeCell, index: number) =>
+            cell.setIn(["outputs", index], output),
+          execution.cell
+        )
+      };
+    }
+
+    default:
+      return OUTPUT_MESSAGE_TYPES.includes(type)
+        ? reduceOutput(execution, message)
+        : execution;
+  }
+}
+
+/**
+ * Runs a code cell on the kernel connected to the channels. The cell is done
+ * once the kernel replied and went back to idle. A cell running out of time
+ * is interrupted and finishes with what it output until then.
+ *
+ * @returns An observable of the cell once it's done, with its error if any
+ */
+export function executeCell(
+  channels: Channels,
+  cell: ImmutableCodeCell,
+  options: ExecuteCellOptions = {}
+): Observable<CellExecution> {
+  const { timeout, onTimeout, interruptGracePeriod = 5000 } = options;
+
+  return new Observable<CellExecution>(observer => {
+    // Nobody is there to answer input() prompts
+    const request = executeRequest(cell.source, { allow_stdin: false });
+    let execution = startExecution(cell);
+    let timedOut = false;
+    const timers: ReturnType<typeof setTimeout>[] = [];
+
+    const finish = () => {
+      // The interrupt makes the cell raise an error of its own
+      observer.next(
+        timedOut
+          ? {
+              ...execution,
+              error: {
+                ename: "CellTimeoutError",
+                evalue: `The cell didn't finish within ${timeout! / 1000}s`,
+                traceback: []
+              }
+            }
+          : execution
+      );
+      observer.complete();
+    };
+
+    const messages$: Observable<JupyterMessage> = channels.pipe(
+      childOf(request)
+    );
+    const subscription = messages$.subscribe(
+      message => {
+        execution = reduceMessage(execution, message);
+        if (execution.replied && execution.idle) {
+          finish();
+        }
+      },
+      error => observer.error(error),
+      () =>
+        observer.error(new Error("The kernel closed before the cell finished"))
+    );
+
+    if (timeout !== undefined) {
+      timers.push(
+        setTimeout(() => {
+          timedOut = true;
+          if (onTimeout) {
+            onTimeout();
+          }
+          timers.push(setTimeout(finish, interruptGracePeriod));
+        }, timeout)
+      );
+    }
+
+    channels.next(request);
+
+    return () => {
+      timers.forEach(timer => clearTimeout(timer));
+      subscription.unsubscribe();
+    };
+  });
+}
@@ -0,0 +1,3 @@
+export * from "./execute";
+export * from "./kernel";
+export * from "./run";
@@ -0,0 +1,120 @@
+import { ChildProcess } from "child_process";
+
+import {
+  Channels,
+  childOf,
+  kernelInfoRequest,
+  ofMessageType,
+  shutdownRequest
+} from "@nteract/messaging";
+import { createMainChannel } from "enchannel-zmq-backend";
+import * as kernelspecs from "kernelspecs";
+import { Observable, of } from "rxjs";
+import { catchError, first, retry, scan, timeout } from "rxjs/operators";
+import { launchSpec } from "spawnteract";
+
+/**
+ * A kernel running as a child process, connected to over ZeroMQ.
+ */
+export interface LocalKernel {
+  name: string;
+  channels: Channels;
+  spawn: ChildProcess;
+  connectionFile: string;
+}
+
+/**
+ * What a kernel tells about itself, e.g. to fill in `metadata.language_info`.
+ */
+export interface KernelInfo {
+  implementation?: string;
+  language_info?: { [key: string]: any };
+  [key: string]: any;
+}
+
+/**
+ * Launches the kernel with the given kernelspec name, like the desktop app
+ * does, with its stderr going to ours.
+ */
+export async function launchKernel(
+  kernelName: string,
+  cwd: string
+): Promise<LocalKernel> {
+  const kernelspec = await kernelspecs.find(kernelName).catch(() => null);
+  if (!kernelspec) {
+    throw new Error(`No kernel named ${kernelName} is installed`);
+  }
+
+  const { config, spawn, connectionFile } = await launchSpec(kernelspec.spec, {
+    cwd,
+    stdio: ["ignore", "ignore", "inherit"]
+  });
+  const channels = await createMainChannel(config);
+
+  return { name: kernelName, channels, spawn, connectionFile };
+}
+
+/**
+ * Waits for the kernel to answer a kernel_info_request on both its shell and
+ * iopub channels. Messages it publishes before we're subscribed are lost, so
+ * cells can't run until then.
+ */
+export function kernelInfo(
+  channels: Channels,
+  wait: number = 1000,
+  attempts: number = 30
+): Promise<KernelInfo> {
+  return new Observable<KernelInfo>(observer => {
+    const request = kernelInfoRequest();
+    const subscription = channels
+      .pipe(
+        childOf(request),
+        ofMessageType("kernel_info_reply", "status"),
+        scan(
+          (answer: { info: KernelInfo | null; published: boolean }, message) =>
+            message.header.msg_type === "kernel_info_reply"
+              ? { ...answer, info: message.content }
+              : { ...answer, published: true },
+          { info: null, published: false }
+        ),
+        first(answer => answer.published && answer.info !== null)
+      )
+      .subscribe(
+        answer => observer.next(answer.info as KernelInfo),
+        error => observer.error(error),
+        () => observer.complete()
+      );
+    channels.next(request);
+    return subscription;
+  })
+    .pipe(timeout(wait), retry(attempts - 1))
+    .toPromise();
+}
+
+/**
+ * Interrupts the cell the kernel is running.
+ */
+export function interruptKernel(kernel: LocalKernel): void {
+  kernel.spawn.kill("SIGINT");
+}
+
+/**
+ * Asks the kernel to shut down, then kills it if it hasn't within 2s.
+ */
+export async function shutdownKernel(kernel: LocalKernel): Promise<void> {
+  const request = shutdownRequest({ restart: false });
+  const reply = kernel.channels.pipe(
+    childOf(request),
+    ofMessageType("shutdown_reply"),
+    first(),
+    timeout(1000 * 2),
+    catchError(() => of(null))
+  );
+
+  const replied = reply.toPromise();
+  kernel.channels.next(request);
+  await replied;
+
+  kernel.channels.complete();
+  kernel.spawn.kill("SIGKILL");
+}
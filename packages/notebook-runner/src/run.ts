@@ -0,0 +1,143 @@
+import * as fs from "fs";
+import * as path from "path";
+import { promisify } from "util";
+
+import {
+  CellId,
+  fromJS,
+  ImmutableNotebook,
+  parseNotebook,
+  stringifyNotebook,
+  toJS
+} from "@nteract/commutable";
+import * as Immutable from "immutable";
+
+import { CellError, CellExecution, executeCell } from "./execute";
+import {
+  interruptKernel,
+  kernelInfo,
+  launchKernel,
+  LocalKernel,
+  shutdownKernel
+} from "./kernel";
+
+export interface RunOptions {
+  /** Milliseconds each cell can run for */
+  timeout?: number;
+  /** Keep running the cells below one that raised an error */
+  allowErrors?: boolean;
+  /** Called with each cell once it's done */
+  onCell?: (id: CellId, execution: CellExecution) => void;
+}
+
+export interface RunFileOptions extends RunOptions {
+  /** Where to write the executed notebook, next to the notebook by default */
+  outputPath?: string;
+  /** The kernel to run the notebook with instead of its own */
+  kernelName?: string;
+  /** The directory to run the kernel in, the notebook's by default */
+  cwd?: string;
+}
+
+export interface CellFailure extends CellError {
+  cellId: CellId;
+}
+
+export interface RunResult {
+  notebook: ImmutableNotebook;
+  errors: CellFailure[];
+}
+
+/**
+ * The path an executed notebook is written to by default, next to it.
+ */
+export function outputPath(filepath: string): string {
+  return `${filepath.replace(/\.ipynb$/, "")}-output.ipynb`;
+}
+
+/**
+ * Runs the code cells of a notebook in order on a kernel, the way running
+ * all cells does in the apps. Stops at the first cell raising an error
+ * unless errors are allowed.
+ *
+ * @returns The notebook with the outputs and timings of the cells that ran,
+ * and the errors they raised
+ */
+export async function runNotebook(
+  notebook: ImmutableNotebook,
+  kernel: LocalKernel,
+  options: RunOptions = {}
+): Promise<RunResult> {
+  const { timeout, allowErrors = false, onCell } = options;
+  const errors: CellFailure[] = [];
+
+  const info = await kernelInfo(kernel.channels);
+  let executed = info.language_info
+    ? notebook.setIn(
+        ["metadata", "language_info"],
+        Immutable.fromJS(info.language_info)
+      )
+    : notebook;
+
+  for (const id of notebook.cellOrder.toArray()) {
+    const cell = executed.cellMap.get(id);
+    if (!cell || cell.cell_type !== "code" || !cell.source.trim()) {
+      continue;
+    }
+
+    const execution = await executeCell(kernel.channels, cell, {
+      timeout,
+      onTimeout: () => interruptKernel(kernel)
+    }).toPromise();
+    executed = executed.setIn(["cellMap", id], execution.cell);
+    if (onCell) {
+      onCell(id, execution);
+    }
+
+    if (execution.error) {
+      errors.push({ cellId: id, ...execution.error });
+      if (!allowErrors) {
+        break;
+      }
+    }
+  }
+
+  return { notebook: executed, errors };
+}
+
+/**
+ * Runs a notebook file on the kernel named in its metadata and writes the
+ * executed notebook, even when a cell raised an error.
+ */
+export async function runNotebookFile(
+  filepath: string,
+  options: RunFileOptions = {}
+): Promise<RunResult> {
+  const content = await promisify(fs.readFile)(filepath, "utf8");
+  const notebook: ImmutableNotebook = fromJS(parseNotebook(content));
+
+  const kernelName =
+    options.kernelName || notebook.metadata.getIn(["kernelspec", "name"]);
+  if (!kernelName) {
+    throw new Error(
+      `${filepath} doesn't say which kernel runs it, pick one to run it with`
+    );
+  }
+
+  const kernel = await launchKernel(
+    kernelName,
+    options.cwd || path.dirname(path.resolve(filepath))
+  );
+  let result: RunResult;
+  try {
+    result = await runNotebook(notebook, kernel, options);
+  } finally {
+    await shutdownKernel(kernel);
+  }
+
+  await promisify(fs.writeFile)(
+    options.outputPath || outputPath(filepath),
+    stringifyNotebook(toJS(result.notebook))
+  );
+  return result;
+}
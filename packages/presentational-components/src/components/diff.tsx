@@ -0,0 +1,217 @@
+import * as React from "react";
+
+import styled, { StyledComponent } from "styled-components";
+
+export type DiffMode = "side-by-side" | "inline";
+
+export type DiffStatus = "added" | "removed" | "modified" | "unchanged";
+
+export interface DiffLine {
+  type: "unchanged" | "added" | "removed";
+  line: string;
+}
+
+const statusColors: { [status in DiffStatus]: string } = {
+  added: "var(--theme-diff-added, hsl(120, 40%, 45%))",
+  removed: "var(--theme-diff-removed, hsl(0, 60%, 55%))",
+  modified: "var(--theme-diff-modified, hsl(40, 90%, 50%))",
+  unchanged: "var(--theme-diff-unchanged, transparent)"
+};
+
+const lineBackgrounds: { [type in DiffLine["type"]]: string } = {
+  added: "var(--theme-diff-added-bg, hsl(120, 50%, 92%))",
+  removed: "var(--theme-diff-removed-bg, hsl(0, 70%, 94%))",
+  unchanged: "transparent"
+};
+
+const linePrefixes: { [type in DiffLine["type"]]: string } = {
+  added: "+",
+  removed: "-",
+  unchanged: " "
+};
+
+interface DiffCellProps {
+  /**
+   * How the cell changed between both versions
+   */
+  status: DiffStatus;
+  /**
+   * Indicates that the cell changed position
+   */
+  moved?: boolean;
+  /**
+   * Short description shown above the cell, e.g. "modified" or "moved"
+   */
+  label?: React.ReactNode;
+  className?: string;
+  children?: React.ReactNode;
+}
+
+const BareDiffCell = (props: DiffCellProps) => (
+  <div className={props.className}>
+    {props.label ? <div className="diff-cell-label">{props.label}</div> : null}
+    {props.children}
+  </div>
+);
+
+/**
+ * A cell in a notebook comparison, marked according to how it changed.
+ */
+export const DiffCell = styled(BareDiffCell)`
+  & {
+    margin: 10px 0;
+    padding-left: 8px;
+    border-left: 4px solid ${props => statusColors[props.status]};
+    outline: ${props =>
+      props.moved
+        ? "1px dashed var(--theme-diff-moved, hsl(210, 60%, 55%))"
+        : "none"};
+    opacity: ${props => (props.status === "removed" ? 0.8 : 1)};
+  }
+
+  & .diff-cell-label {
+    font-size: 12px;
+    color: var(--theme-app-fg, hsl(0, 0%, 40%));
+    text-transform: uppercase;
+  }
+` as StyledComponent<typeof BareDiffCell, any, DiffCellProps, never>;
+
+DiffCell.displayName = "DiffCell";
+
+/**
+ * Places the original version on the left and the changed one on the right.
+ */
+export const DiffColumns = styled.div`
+  display: grid;
+  grid-template-columns: minmax(0, 1fr) minmax(0, 1fr);
+  grid-column-gap: 10px;
+` as StyledComponent<"div", any, {}, never>;
+
+DiffColumns.displayName = "DiffColumns";
+
+const LinesTable = styled.table`
+  & {
+    width: 100%;
+    border-collapse: collapse;
+    table-layout: fixed;
+    font-family: "Source Code Pro", monospace;
+    font-size: 14px;
+    line-height: 20px;
+  }
+
+  & td {
+    padding: 0 4px;
+    white-space: pre-wrap;
+    word-break: break-all;
+    vertical-align: top;
+  }
+
+  & td.diff-line-prefix {
+    width: 1.5em;
+    user-select: none;
+    color: var(--theme-app-fg, hsl(0, 0%, 50%));
+  }
+` as StyledComponent<"table", any, {}, never>;
+
+interface SourceDiffProps {
+  /**
+   * Every line of both versions, as computed by `diffLines` from
+   * `@nteract/commutable`
+   */
+  lines: DiffLine[];
+  mode?: DiffMode;
+  className?: string;
+}
+
+type Row = [DiffLine | undefined, DiffLine | undefined];
+
+/**
+ * Pairs the lines for side by side display: unchanged lines appear on both
+ * sides, removed lines on the left next to the lines added in their place.
+ */
+function sideBySideRows(lines: DiffLine[]): Row[] {
+  const rows: Row[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push([removed[i], added[i]]);
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === "removed") {
+      removed.push(line);
+    } else if (line.type === "added") {
+      added.push(line);
+    } else {
+      flush();
+      rows.push([line, line]);
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+const LineCells = (props: { line?: DiffLine; showPrefix: boolean }) => {
+  const { line, showPrefix } = props;
+  const style = { background: line ? lineBackgrounds[line.type] : undefined };
+  return (
+    <React.Fragment>
+      {showPrefix ? (
+        <td className="diff-line-prefix" style={style}>
+          {line ? linePrefixes[line.type] : ""}
+        </td>
+      ) : null}
+      <td className={line ? `diff-line-${line.type}` : ""} style={style}>
+        {line ? line.line : ""}
+      </td>
+    </React.Fragment>
+  );
+};
+
+/**
+ * Line by line changes of a text such as a cell source. Inline mode lists
+ * removed lines above the lines added in their place, side by side mode
+ * shows the original text on the left and the changed one on the right.
+ */
+export const SourceDiff = (props: SourceDiffProps) => {
+  const { lines, className } = props;
+
+  if (props.mode === "side-by-side") {
+    return (
+      <LinesTable className={className}>
+        <tbody>
+          {sideBySideRows(lines).map(([before, after], index) => (
+            <tr key={index}>
+              <LineCells line={before} showPrefix={false} />
+              <LineCells line={after} showPrefix={false} />
+            </tr>
+          ))}
+        </tbody>
+      </LinesTable>
+    );
+  }
+
+  return (
+    <LinesTable className={className}>
+      <tbody>
+        {lines.map((line, index) => (
+          <tr key={index}>
+            <LineCells line={line} showPrefix />
+          </tr>
+        ))}
+      </tbody>
+    </LinesTable>
+  );
+};
+
+SourceDiff.defaultProps = {
+  mode: "inline"
+};
+
+SourceDiff.displayName = "SourceDiff";
@@ -23,7 +23,7 @@ interface PromptProps {
    */
   running?: boolean;
   /**
-   * Show that execution is queued up
+   * Show that execution is queued up, waiting for the cells before it to run
    */
   queued?: boolean;
   /**
@@ -42,7 +42,7 @@ function promptText(props: PromptProps): string {
     return "[*]";
   }
   if (props.queued) {
-    return "[…]";
+    return "[-]";
   }
   if (typeof props.counter === "number") {
     return `[${props.counter}]`;
@@ -21,6 +21,7 @@ import {
 
 import * as Icons from "./components/icons";
 export * from "./styles";
+export * from "./components/diff";
 
 import {
   Clear,
@@ -1,3 +1,4 @@
+import * as actions from "@nteract/actions";
 import * as stateModule from "@nteract/types";
 
 import { comms as commsReducer } from "../../../../src/core/entities/comms";
@@ -27,13 +28,15 @@ describe("comm reducers", () => {
       target_module: "reducers",
       target_name: "setIn",
       data: { a: 2 },
-      comm_id: 100
+      comm_id: 100,
+      kernelRef: "kernel"
     };
 
     const nextState = commsReducer(state, action);
     expect(nextState.getIn(["info", 100]).toJS()).toEqual({
       target_module: "reducers",
-      target_name: "setIn"
+      target_name: "setIn",
+      kernelRef: "kernel"
     });
 
     expect(nextState.getIn(["models", 100]).toJS()).toEqual({ a: 2 });
@@ -97,3 +100,187 @@ describe("comm reducers", () => {
     });
   });
 });
+
+describe("closing comms", () => {
+  test("forgets comms the kernel closed", () => {
+    const state = commsReducer(stateModule.makeCommsRecord(), {
+      type: "COMM_OPEN",
+      target_module: "murdock",
+      target_name: "daredevil",
+      data: { a: 2 },
+      comm_id: "0123"
+    });
+
+    const nextState = commsReducer(state, {
+      type: "COMM_CLOSE",
+      data: {},
+      comm_id: "0123"
+    });
+
+    expect(nextState.info.has("0123")).toBe(false);
+    expect(nextState.models.has("0123")).toBe(false);
+  });
+  test("tracks comms the frontend opens until it closes them", () => {
+    const state = commsReducer(
+      stateModule.makeCommsRecord(),
+      actions.openComm({
+        kernelRef: "kernel",
+        commId: "0123",
+        targetName: "daredevil",
+        data: { a: 2 }
+      })
+    );
+    expect(state.getIn(["info", "0123", "target_name"])).toBe("daredevil");
+    expect(state.getIn(["info", "0123", "kernelRef"])).toBe("kernel");
+    expect(state.getIn(["models", "0123"]).toJS()).toEqual({ a: 2 });
+
+    const nextState = commsReducer(
+      state,
+      actions.closeComm({ kernelRef: "kernel", commId: "0123" })
+    );
+    expect(nextState.info.has("0123")).toBe(false);
+    expect(nextState.models.has("0123")).toBe(false);
+  });
+});
+
+describe("widget state", () => {
+  test("puts binary buffers into the state of widgets", () => {
+    const buffer = new Uint8Array([1, 2, 3]);
+    const state = commsReducer(stateModule.makeCommsRecord(), {
+      type: "COMM_OPEN",
+      target_module: "jupyter.widget",
+      target_name: "jupyter.widget",
+      data: {
+        state: { _model_name: "ImageModel", value: {} },
+        buffer_paths: [["value"]]
+      },
+      buffers: [buffer],
+      comm_id: "image"
+    });
+
+    expect(state.getIn(["models", "image", "buffer_paths"])).toBeUndefined();
+    const value = state.getIn(["models", "image", "state", "value"]);
+    expect(value).toBeInstanceOf(DataView);
+    expect(value.getUint8(2)).toBe(3);
+
+    const nextState = commsReducer(state, {
+      type: "COMM_MESSAGE",
+      data: {
+        method: "update",
+        state: { width: "20px", value: null },
+        buffer_paths: [["value"]]
+      },
+      buffers: [new Uint8Array([4]).buffer],
+      comm_id: "image"
+    });
+    expect(nextState.getIn(["models", "image", "state", "width"])).toBe(
+      "20px"
+    );
+    expect(
+      nextState.getIn(["models", "image", "state", "value"]).getUint8(0)
+    ).toBe(4);
+  });
+  test("merges echoed updates and ignores custom messages", () => {
+    const state = stateModule.makeCommsRecord({
+      models: Immutable.Map({
+        slider: Immutable.Map({ state: Immutable.Map({ value: 1, max: 10 }) })
+      })
+    });
+
+    const echoed = commsReducer(state, {
+      type: "COMM_MESSAGE",
+      data: { method: "echo_update", state: { value: 5 } },
+      comm_id: "slider"
+    });
+    expect(echoed.getIn(["models", "slider", "state"]).toJS()).toEqual({
+      value: 5,
+      max: 10
+    });
+
+    const custom = commsReducer(echoed, {
+      type: "COMM_MESSAGE",
+      data: { method: "custom", content: { event: "click" } },
+      comm_id: "slider"
+    });
+    expect(custom).toBe(echoed);
+  });
+  test("merges the state views update", () => {
+    const state = stateModule.makeCommsRecord({
+      models: Immutable.Map({
+        slider: Immutable.Map({ state: Immutable.Map({ value: 1, max: 10 }) })
+      })
+    });
+
+    const nextState = commsReducer(
+      state,
+      actions.updateWidgetState({
+        kernelRef: "kernel",
+        commId: "slider",
+        state: { value: 7 }
+      })
+    );
+    expect(nextState.getIn(["models", "slider", "state"]).toJS()).toEqual({
+      value: 7,
+      max: 10
+    });
+  });
+  test("restores widgets saved in the metadata of notebooks", () => {
+    const state = stateModule.makeCommsRecord({
+      models: Immutable.Map({
+        live: Immutable.Map({ state: Immutable.Map({ value: 1 }) })
+      })
+    });
+
+    const nextState = commsReducer(
+      state,
+      actions.fetchContentFulfilled({
+        filepath: "widgets.ipynb",
+        contentRef: "content",
+        kernelRef: "kernel",
+        model: {
+          type: "notebook",
+          content: {
+            metadata: {
+              widgets: {
+                [stateModule.WIDGET_STATE_MIMETYPE]: {
+                  version_major: 2,
+                  version_minor: 0,
+                  state: {
+                    live: {
+                      model_name: "IntSliderModel",
+                      model_module: "@jupyter-widgets/controls",
+                      model_module_version: "1.5.0",
+                      state: { value: 3 }
+                    },
+                    image: {
+                      model_name: "ImageModel",
+                      model_module: "@jupyter-widgets/controls",
+                      model_module_version: "1.5.0",
+                      state: { width: "20px" },
+                      buffers: [
+                        { path: ["value"], encoding: "base64", data: "AQID" }
+                      ]
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      })
+    );
+
+    expect(nextState.getIn(["models", "live", "state"]).toJS()).toEqual({
+      value: 1
+    });
+    expect(nextState.getIn(["info", "image"]).toJS()).toEqual({
+      target_module: "@jupyter-widgets/controls",
+      target_name: "jupyter.widget",
+      kernelRef: "kernel"
+    });
+    const image = nextState.getIn(["models", "image", "state"]);
+    expect(image.get("_model_name")).toBe("ImageModel");
+    expect(image.get("width")).toBe("20px");
+    expect(image.get("value").getUint8(2)).toBe(3);
+  });
+});
@@ -0,0 +1,172 @@
+import * as actions from "@nteract/actions";
+import {
+  appendCellToNotebook,
+  emptyCodeCell,
+  emptyNotebook
+} from "@nteract/commutable";
+import {
+  ConsoleModelRecord,
+  makeConsoleModelRecord,
+  makeDocumentRecord,
+  makeNotebookContentRecord
+} from "@nteract/types";
+import * as Immutable from "immutable";
+
+import {
+  consoleModel,
+  consoleToNotebook
+} from "../../../../src/core/entities/contents/console";
+import { byRef } from "../../../../src/core/entities/contents/index";
+
+const contentRef = "console";
+
+function reduce(
+  state: ConsoleModelRecord,
+  ...actionList: any[]
+): ConsoleModelRecord {
+  return actionList.reduce(
+    (model, action) => consoleModel(model, action),
+    state
+  );
+}
+
+function run(id: string, source: string) {
+  return actions.sendConsoleExecuteRequest({ contentRef, id, source });
+}
+
+describe("console reducers", () => {
+  test("SEND_CONSOLE_EXECUTE_REQUEST moves the prompt to the transcript", () => {
+    const state = reduce(
+      makeConsoleModelRecord(),
+      actions.setConsolePrompt({ contentRef, value: "x = 1" }),
+      run("a", "x = 1")
+    );
+    expect(state.prompt).toBe("");
+    expect(state.transcript.map(entry => entry.source).toArray()).toEqual([
+      "x = 1"
+    ]);
+    expect(state.transcript.first(null)!.running).toBe(true);
+    expect(state.history.toArray()).toEqual(["x = 1"]);
+  });
+  test("APPEND_CONSOLE_OUTPUT merges streams of an entry", () => {
+    const stream = (text: string) => ({
+      output_type: "stream" as const,
+      name: "stdout" as const,
+      text
+    });
+    const state = reduce(
+      makeConsoleModelRecord(),
+      run("a", "print(1); print(2)"),
+      actions.appendConsoleOutput({ contentRef, id: "a", output: stream("1\n") }),
+      actions.appendConsoleOutput({ contentRef, id: "a", output: stream("2\n") }),
+      actions.updateConsoleExecutionCount({ contentRef, id: "a", value: 3 }),
+      actions.consoleExecutionFinished({ contentRef, id: "a" })
+    );
+    const entry = state.transcript.first(null)!;
+    expect(entry.outputs.size).toBe(1);
+    expect(entry.outputs.first(null)).toMatchObject({ text: "1\n2\n" });
+    expect(entry.executionCount).toBe(3);
+    expect(entry.running).toBe(false);
+  });
+  test("ignores outputs of entries which were cleared", () => {
+    const state = reduce(
+      makeConsoleModelRecord(),
+      run("a", "x"),
+      actions.clearConsole({ contentRef }),
+      actions.consoleExecutionFinished({ contentRef, id: "a" })
+    );
+    expect(state.transcript.size).toBe(0);
+  });
+  test("NAVIGATE_CONSOLE_HISTORY comes back to what was typed", () => {
+    const navigate = (direction: "previous" | "next") =>
+      actions.navigateConsoleHistory({ contentRef, direction });
+    const typed = reduce(
+      makeConsoleModelRecord({ history: Immutable.List(["a", "b"]) }),
+      actions.setConsolePrompt({ contentRef, value: "c" })
+    );
+
+    const back = reduce(typed, navigate("previous"), navigate("previous"));
+    expect(back.prompt).toBe("a");
+    expect(reduce(back, navigate("previous")).prompt).toBe("a");
+
+    const forth = reduce(back, navigate("next"));
+    expect(forth.prompt).toBe("b");
+    expect(reduce(forth, navigate("next")).prompt).toBe("c");
+    expect(reduce(forth, navigate("next")).historyIndex).toBeNull();
+  });
+});
+
+describe("consoleToNotebook", () => {
+  test("turns each input into a code cell with its outputs", () => {
+    const state = reduce(
+      makeConsoleModelRecord(),
+      run("a", "1 + 1"),
+      actions.appendConsoleOutput({
+        contentRef,
+        id: "a",
+        output: {
+          output_type: "execute_result",
+          execution_count: 1,
+          data: { "text/plain": "2" },
+          metadata: {}
+        }
+      }),
+      actions.updateConsoleExecutionCount({ contentRef, id: "a", value: 1 })
+    );
+    const notebook = consoleToNotebook(state);
+    const cell = notebook.cellMap.get(notebook.cellOrder.first(""))!;
+    expect(cell.source).toBe("1 + 1");
+    expect(cell.get("execution_count")).toBe(1);
+    expect(cell.get("outputs").size).toBe(1);
+  });
+});
+
+describe("console contents", () => {
+  const notebookRef = "notebook";
+  const notebook = appendCellToNotebook(
+    emptyNotebook.setIn(["metadata", "kernelspec", "name"], "python3"),
+    emptyCodeCell
+  );
+  const opened = byRef(
+    Immutable.Map<string, any>({
+      [notebookRef]: makeNotebookContentRecord({
+        filepath: "analysis.ipynb",
+        model: makeDocumentRecord({ notebook, kernelRef: "kernel" })
+      })
+    }),
+    actions.openConsole({ contentRef, kernelRef: "kernel", notebookRef })
+  );
+
+  test("OPEN_CONSOLE attaches a console to a kernel", () => {
+    expect(opened.getIn([contentRef, "type"])).toBe("console");
+    expect(opened.getIn([contentRef, "model", "kernelRef"])).toBe("kernel");
+  });
+  test("consoles follow the kernel of their notebook", () => {
+    const state = byRef(
+      opened,
+      actions.launchKernelSuccessful({
+        contentRef: notebookRef,
+        kernelRef: "restarted",
+        kernel: {} as any,
+        selectNextKernel: true
+      })
+    );
+    expect(state.getIn([contentRef, "model", "kernelRef"])).toBe("restarted");
+  });
+  test("EXPORT_CONSOLE creates a notebook with the kernelspec of the attached one", () => {
+    const state = byRef(
+      byRef(opened, run("a", "x = 1")),
+      actions.exportConsole({
+        contentRef,
+        exportRef: "exported",
+        filepath: "analysis-console.ipynb"
+      })
+    );
+    const exported = state.get("exported");
+    expect(exported.filepath).toBe("analysis-console.ipynb");
+    expect(
+      exported.model.notebook.getIn(["metadata", "kernelspec", "name"])
+    ).toBe("python3");
+    expect(exported.model.notebook.cellOrder.size).toBe(1);
+  });
+});
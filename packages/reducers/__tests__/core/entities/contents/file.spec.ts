@@ -14,4 +14,14 @@ describe("file reducers", () => {
     const state = file(originalState, action);
     expect(state.text).toEqual("some new text");
   });
+  test("SAVE_FULFILLED marks the current text as saved", () => {
+    const contentRef = createContentRef();
+    const originalState = makeFileModelRecord({
+      text: "some new text",
+      savedText: "some old text"
+    });
+    const action = actions.saveFulfilled({ contentRef, model: {} });
+    const state = file(originalState, action);
+    expect(state.savedText).toEqual("some new text");
+  });
 });
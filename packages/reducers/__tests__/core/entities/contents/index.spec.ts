@@ -85,3 +85,155 @@ describe("FETCH_CONTENT_FAILED", () => {
     expect(state.getIn(["aContentRef", "error"])).toEqual(error);
   });
 });
+
+describe("FETCH_CHECKPOINTS_FULFILLED", () => {
+  it("stores the checkpoints of a notebook, newest first", () => {
+    const originalState = Immutable.Map({
+      aContentRef: makeNotebookContentRecord({})
+    });
+    const action = actions.fetchCheckpointsFulfilled({
+      contentRef: "aContentRef",
+      checkpoints: [
+        { id: "old", last_modified: "2020-01-01T00:00:00Z" },
+        { id: "new", last_modified: "2020-02-01T00:00:00Z" }
+      ]
+    });
+    const state = byRef(originalState, action);
+    const checkpoints = state.getIn(["aContentRef", "checkpoints"]);
+    expect(checkpoints.map(checkpoint => checkpoint.id).toArray()).toEqual([
+      "new",
+      "old"
+    ]);
+    expect(checkpoints.first().lastModified).toEqual(
+      new Date("2020-02-01T00:00:00Z")
+    );
+  });
+  it("ignores content other than notebooks", () => {
+    const originalState = Immutable.Map({
+      aContentRef: makeFileContentRecord({})
+    });
+    const action = actions.fetchCheckpointsFulfilled({
+      contentRef: "aContentRef",
+      checkpoints: [{ id: "old", last_modified: "2020-01-01T00:00:00Z" }]
+    });
+    expect(byRef(originalState, action)).toBe(originalState);
+  });
+});
+
+describe("CREATE_CHECKPOINT_FULFILLED", () => {
+  it("replaces a checkpoint with the same ID", () => {
+    const originalState = byRef(
+      Immutable.Map({ aContentRef: makeNotebookContentRecord({}) }),
+      actions.fetchCheckpointsFulfilled({
+        contentRef: "aContentRef",
+        checkpoints: [{ id: "checkpoint", last_modified: "2020-01-01T00:00:00Z" }]
+      })
+    );
+    const action = actions.createCheckpointFulfilled({
+      contentRef: "aContentRef",
+      checkpoint: { id: "checkpoint", last_modified: "2020-02-01T00:00:00Z" }
+    });
+    const checkpoints = byRef(originalState, action).getIn([
+      "aContentRef",
+      "checkpoints"
+    ]);
+    expect(checkpoints.size).toBe(1);
+    expect(checkpoints.first().lastModified).toEqual(
+      new Date("2020-02-01T00:00:00Z")
+    );
+  });
+});
+
+describe("DELETE_CHECKPOINT_FULFILLED", () => {
+  it("removes the checkpoint", () => {
+    const originalState = byRef(
+      Immutable.Map({ aContentRef: makeNotebookContentRecord({}) }),
+      actions.fetchCheckpointsFulfilled({
+        contentRef: "aContentRef",
+        checkpoints: [{ id: "checkpoint", last_modified: "2020-01-01T00:00:00Z" }]
+      })
+    );
+    const action = actions.deleteCheckpointFulfilled({
+      contentRef: "aContentRef",
+      checkpointId: "checkpoint"
+    });
+    const state = byRef(originalState, action);
+    expect(state.getIn(["aContentRef", "checkpoints"]).size).toBe(0);
+  });
+});
+
+describe("RESTORE_CHECKPOINT_FULFILLED", () => {
+  it("replaces the notebook and keeps the kernel", () => {
+    const originalState = Immutable.Map({
+      aContentRef: makeNotebookContentRecord({}).setIn(
+        ["model", "kernelRef"],
+        "aKernelRef"
+      )
+    });
+    const action = actions.restoreCheckpointFulfilled({
+      contentRef: "aContentRef",
+      checkpointId: "checkpoint",
+      model: {
+        type: "notebook",
+        last_modified: "2020-01-01T00:00:00Z",
+        content: {
+          nbformat: 4,
+          nbformat_minor: 4,
+          metadata: {},
+          cells: [{ cell_type: "markdown", metadata: {}, source: "# Restored" }]
+        }
+      }
+    });
+    const state = byRef(originalState, action);
+    const model = state.getIn(["aContentRef", "model"]);
+    expect(model.kernelRef).toBe("aKernelRef");
+    expect(model.notebook.cellOrder.size).toBe(1);
+    expect(model.savedNotebook).toBe(model.notebook);
+    expect(model.cellFocused).toBe(model.notebook.cellOrder.first());
+  });
+});
+
+describe("recovery", () => {
+  const entry = {
+    filepath: "test.ipynb",
+    journaledAt: "2020-01-01T00:00:00.000Z",
+    notebook: {
+      nbformat: 4,
+      nbformat_minor: 4,
+      metadata: {},
+      cells: [{ cell_type: "markdown", metadata: {}, source: "# Unsaved" }]
+    }
+  };
+  const recoverable = () =>
+    byRef(
+      Immutable.Map({ aContentRef: makeNotebookContentRecord({}) }),
+      actions.recoveryAvailable({ contentRef: "aContentRef", entry })
+    );
+
+  it("keeps the recovered notebook aside until it is restored", () => {
+    const state = recoverable();
+    const recovery = state.getIn(["aContentRef", "recovery"]);
+    expect(recovery.journaledAt).toEqual(new Date(entry.journaledAt));
+    expect(recovery.notebook.cellOrder.size).toBe(1);
+    expect(state.getIn(["aContentRef", "model", "notebook", "cellOrder"]).size).toBe(0);
+  });
+  it("restores the recovered notebook as unsaved changes", () => {
+    const state = byRef(
+      recoverable(),
+      actions.restoreRecovery({ contentRef: "aContentRef" })
+    );
+    const model = state.getIn(["aContentRef", "model"]);
+    expect(state.getIn(["aContentRef", "recovery"])).toBeNull();
+    expect(model.notebook.cellOrder.size).toBe(1);
+    expect(model.savedNotebook).not.toBe(model.notebook);
+    expect(model.cellFocused).toBe(model.notebook.cellOrder.first());
+  });
+  it("drops the recovered notebook when discarded", () => {
+    const state = byRef(
+      recoverable(),
+      actions.discardRecovery({ contentRef: "aContentRef" })
+    );
+    expect(state.getIn(["aContentRef", "recovery"])).toBeNull();
+    expect(state.getIn(["aContentRef", "model", "notebook", "cellOrder"]).size).toBe(0);
+  });
+});
@@ -543,6 +543,51 @@ describe("updateSource", () => {
   });
 });
 
+describe("codeIncomplete", () => {
+  test("adds a line with the indent the kernel suggested", () => {
+    const originalState = monocellDocument.setIn(
+      ["notebook", "cellMap", firstCellId, "source"],
+      "for i in range(3):"
+    );
+    const state = reducers(
+      originalState,
+      actions.codeIncomplete({ id: firstCellId, indent: "    " })
+    );
+    expect(state.getIn(["notebook", "cellMap", firstCellId, "source"])).toBe(
+      "for i in range(3):\n    "
+    );
+  });
+});
+
+describe("injectParameters", () => {
+  test("injects the parameters after the parameters cell, once", () => {
+    const originalState = monocellDocument.setIn(
+      ["notebook", "cellMap", firstCellId, "metadata", "tags"],
+      Immutable.List(["parameters"])
+    );
+    const once = reducers(
+      originalState,
+      actions.injectParameters({ parameters: { alpha: 0.5 } })
+    );
+    const twice = reducers(
+      once,
+      actions.injectParameters({ parameters: { alpha: 1 } })
+    );
+
+    const cellOrder = twice.getIn(["notebook", "cellOrder"]);
+    expect(cellOrder.size).toBe(
+      originalState.getIn(["notebook", "cellOrder"]).size + 1
+    );
+    const injectedId = cellOrder.get(cellOrder.indexOf(firstCellId) + 1);
+    expect(twice.getIn(["notebook", "cellMap", injectedId, "source"])).toBe(
+      "# Parameters\nalpha = 1\n"
+    );
+    expect(
+      twice.getIn(["notebook", "metadata", "papermill", "parameters"]).toJS()
+    ).toEqual({ alpha: 1 });
+  });
+});
+
 describe("overwriteMetadataField", () => {
   test("overwrites notebook metadata appropriately", () => {
     const originalState = monocellDocument;
@@ -1167,6 +1212,94 @@ describe("interruptKernelSuccessful", () => {
   });
 });
 
+describe("cancelQueuedCells", () => {
+  const originalState = Immutable.fromJS({
+    cellMap: { cell1: {}, cell2: {}, cell3: {} },
+    transient: {
+      cellMap: {
+        cell1: { status: "queued" },
+        cell2: { status: "queued" },
+        cell3: { status: "busy" },
+      },
+    },
+  });
+  const statuses = (state: any) =>
+    state.getIn(["transient", "cellMap"]).map(cell => cell.get("status")).toJS();
+
+  test("resets the cell taken out of the queue", () => {
+    const state = reducers(
+      originalState,
+      actions.dequeueExecution({
+        kernelRef: "testKernelRef",
+        contentRef: "testContentRef",
+        id: "cell2",
+      })
+    );
+    expect(statuses(state)).toEqual({
+      cell1: "queued",
+      cell2: "",
+      cell3: "busy",
+    });
+  });
+  test("resets all the queued cells when they're all cancelled", () => {
+    const state = reducers(
+      originalState,
+      actions.executeCanceled({ contentRef: "testContentRef", id: "all" })
+    );
+    expect(statuses(state)).toEqual({ cell1: "", cell2: "", cell3: "busy" });
+  });
+});
+
+describe("setContinueOnError", () => {
+  test("keeps running queued cells after an error once set", () => {
+    const originalState = makeDocumentRecord();
+    const state = reducers(
+      originalState,
+      actions.setContinueOnError({
+        contentRef: "testContentRef",
+        continueOnError: true,
+      })
+    );
+    expect(originalState.continueOnError).toBe(false);
+    expect(state.continueOnError).toBe(true);
+  });
+});
+
+describe("reactive mode", () => {
+  const contentRef = "testContentRef";
+
+  test("tracks the stale cells until they run successfully", () => {
+    const state = [
+      actions.setReactiveMode({ contentRef, reactive: true }),
+      actions.updateCellDependencies({
+        contentRef,
+        dependencies: { a: { defines: ["x"], uses: [] } },
+      }),
+      actions.markCellsStale({ contentRef, ids: ["b", "c"] }),
+      actions.executeSuccessful({ contentRef, id: "b" }),
+    ].reduce(
+      (document: any, action: any) => reducers(document, action),
+      makeDocumentRecord()
+    );
+    expect(state.reactive).toBe(true);
+    expect(state.dependencies.get("a")).toEqual({ defines: ["x"], uses: [] });
+    expect(state.staleCells.toArray()).toEqual(["c"]);
+  });
+  test("forgets the dependencies when turned off", () => {
+    const state = reducers(
+      makeDocumentRecord({
+        reactive: true,
+        dependencies: Immutable.Map({ a: { defines: ["x"], uses: [] } }),
+        staleCells: Immutable.Set(["b"]),
+      }),
+      actions.setReactiveMode({ contentRef, reactive: false })
+    );
+    expect(state.reactive).toBe(false);
+    expect(state.dependencies.isEmpty()).toBe(true);
+    expect(state.staleCells.isEmpty()).toBe(true);
+  });
+});
+
 describe("unhideAll", () => {
   const cellOrder = [uuidv4(), uuidv4(), uuidv4(), uuidv4()];
   let initialState = Immutable.Map();
@@ -1392,3 +1525,265 @@ describe("unhideAll", () => {
     ).toEqual([false, true, false, false]);
   });
 });
+
+describe("undo", () => {
+  const originalState = makeDocumentRecord({
+    notebook: appendCellToNotebook(emptyNotebook, emptyCodeCell),
+  });
+  const id = originalState.notebook.cellOrder.first();
+
+  test("undoes and redoes structural edits", () => {
+    const created = reducers(
+      originalState,
+      actions.createCellBelow({ id, cellType: "markdown", source: "" })
+    );
+    expect(created.notebook.cellOrder.size).toBe(2);
+
+    const undone = reducers(created, actions.undo({}));
+    expect(undone.notebook).toEqual(originalState.notebook);
+    expect(undone.redoStack.size).toBe(1);
+
+    const redone = reducers(undone, actions.redo({}));
+    expect(redone.notebook).toEqual(created.notebook);
+    expect(redone.undoStack.size).toBe(1);
+  });
+
+  test("undoes typing in a cell as one edit", () => {
+    let state = originalState;
+    for (const source of ["a", "ab", "abc"]) {
+      state = reducers(state, actions.setInCell({ id, path: ["source"], value: source }));
+    }
+    expect(state.undoStack.size).toBe(1);
+    expect(reducers(state, actions.undo({})).notebook).toEqual(originalState.notebook);
+  });
+
+  test("ignores changes made by the kernel", () => {
+    const state = reducers(
+      originalState,
+      actions.appendOutput({
+        id,
+        output: { output_type: "stream", name: "stdout", text: "hi" },
+      })
+    );
+    expect(state.undoStack.size).toBe(0);
+  });
+
+  test("keeps the outputs and execution counts of the kernel", () => {
+    const typed = reducers(
+      originalState,
+      actions.setInCell({ id, path: ["source"], value: "print('hi')" })
+    );
+    const ran = reducers(
+      reducers(
+        typed,
+        actions.appendOutput({
+          id,
+          output: { output_type: "stream", name: "stdout", text: "hi" },
+        })
+      ),
+      actions.setInCell({ id, path: ["execution_count"], value: 1 })
+    );
+    expect(ran.undoStack.last().notebook.cellMap.getIn([id, "outputs"]).size).toBe(0);
+
+    const undone = reducers(ran, actions.undo({}));
+    expect(undone.notebook.cellMap.getIn([id, "source"])).toBe("");
+    expect(undone.notebook.cellMap.getIn([id, "outputs"]).size).toBe(1);
+    expect(undone.notebook.cellMap.getIn([id, "execution_count"])).toBe(1);
+
+    const redone = reducers(undone, actions.redo({}));
+    expect(redone.notebook.cellMap.getIn([id, "source"])).toBe("print('hi')");
+    expect(redone.notebook.cellMap.getIn([id, "outputs"]).size).toBe(1);
+  });
+
+  test("brings cleared outputs back", () => {
+    const ran = reducers(
+      reducers(
+        originalState,
+        actions.appendOutput({
+          id,
+          output: { output_type: "stream", name: "stdout", text: "hi" },
+        })
+      ),
+      actions.setInCell({ id, path: ["execution_count"], value: 1 })
+    );
+    const cleared = reducers(ran, actions.clearAllOutputs({}));
+    expect(cleared.notebook.cellMap.getIn([id, "outputs"]).size).toBe(0);
+    expect(cleared.undoStack.size).toBe(1);
+
+    const undone = reducers(cleared, actions.undo({}));
+    expect(undone.notebook.cellMap.getIn([id, "outputs"])).toEqual(
+      ran.notebook.cellMap.getIn([id, "outputs"])
+    );
+    expect(undone.notebook.cellMap.getIn([id, "execution_count"])).toBe(1);
+
+    const redone = reducers(undone, actions.redo({}));
+    expect(redone.notebook.cellMap.getIn([id, "outputs"]).size).toBe(0);
+    expect(redone.notebook.cellMap.getIn([id, "execution_count"])).toBe(null);
+  });
+
+  test("brings deleted cells back without marking them as deleting", () => {
+    const deleting = reducers(originalState, actions.markCellAsDeleting({ id }));
+    const deleted = reducers(deleting, actions.deleteCell({ id }));
+    const undone = reducers(deleted, actions.undo({}));
+    expect(undone.notebook.cellOrder.toArray()).toEqual([id]);
+    expect(
+      undone.getIn(["notebook", "cellMap", id, "metadata", "nteract", "transient", "deleting"])
+    ).toBe(false);
+  });
+
+  test("forgets undone edits once something new is edited", () => {
+    const toggled = reducers(originalState, actions.toggleTagInCell({ id, tag: "a" }));
+    const undone = reducers(toggled, actions.undo({}));
+    const ran = reducers(
+      undone,
+      actions.appendOutput({
+        id,
+        output: { output_type: "stream", name: "stdout", text: "hi" },
+      })
+    );
+    expect(ran.redoStack.size).toBe(1);
+    const changed = reducers(ran, actions.changeCellType({ id, to: "markdown" }));
+    expect(changed.redoStack.size).toBe(0);
+    expect(changed.undoStack.size).toBe(1);
+  });
+});
+
+describe("bulk cell operations", () => {
+  const originalState = makeDocumentRecord({
+    notebook: ["a", "b", "c", "d"].reduce(
+      (nb, source) =>
+        appendCellToNotebook(nb, emptyCodeCell.set("source", source)),
+      emptyNotebook
+    ),
+  });
+  const [a, b, c, d] = originalState.notebook.cellOrder.toArray();
+  const sources = (state) =>
+    state.notebook.cellOrder
+      .map((id) => state.notebook.cellMap.getIn([id, "source"]))
+      .toArray();
+
+  test("deletes cells and keeps the focus on a remaining one", () => {
+    const state = reducers(
+      originalState.set("cellFocused", b),
+      actions.deleteCells({ ids: [c, b] })
+    );
+    expect(sources(state)).toEqual(["a", "d"]);
+    expect(state.cellFocused).toBe(d);
+    expect(reducers(state, actions.undo({})).notebook).toEqual(
+      originalState.notebook
+    );
+  });
+
+  test("cuts cells and pastes them together in notebook order", () => {
+    const cut = reducers(originalState, actions.cutCells({ ids: [d, b] }));
+    expect(sources(cut)).toEqual(["a", "c"]);
+    expect(cut.copiedCells.size).toBe(2);
+
+    const pasted = reducers(cut.set("cellFocused", a), actions.pasteCell({}));
+    expect(sources(pasted)).toEqual(["a", "b", "d", "c"]);
+  });
+
+  test("pastes a single copied cell after copying several", () => {
+    const copied = reducers(
+      reducers(originalState, actions.copyCells({ ids: [a, b] })),
+      actions.copyCell({ id: d })
+    );
+    expect(copied.copiedCells.size).toBe(0);
+
+    const pasted = reducers(copied.set("cellFocused", a), actions.pasteCell({}));
+    expect(sources(pasted)).toEqual(["a", "d", "b", "c", "d"]);
+  });
+
+  test("moves cells up and down as a block", () => {
+    const down = reducers(
+      originalState,
+      actions.moveCells({ ids: [a, c], above: false })
+    );
+    expect(sources(down)).toEqual(["b", "d", "a", "c"]);
+
+    const up = reducers(down, actions.moveCells({ ids: [a, c], above: true }));
+    expect(sources(up)).toEqual(["b", "a", "c", "d"]);
+
+    const top = reducers(
+      originalState,
+      actions.moveCells({ ids: [a, b], above: true })
+    );
+    expect(top.notebook).toBe(originalState.notebook);
+  });
+
+  test("changes the type of cells", () => {
+    const state = reducers(
+      originalState,
+      actions.changeCellsType({ ids: [a, c], to: "markdown" })
+    );
+    expect(
+      state.notebook.cellOrder
+        .map((id) => state.notebook.cellMap.getIn([id, "cell_type"]))
+        .toArray()
+    ).toEqual(["markdown", "code", "markdown", "code"]);
+  });
+
+  test("merges cells into the first of them", () => {
+    const withOutput = originalState.setIn(
+      ["notebook", "cellMap", b, "outputs"],
+      Immutable.List([makeStreamOutput({ name: "stdout", text: "hi" })])
+    );
+    const state = reducers(withOutput, actions.mergeCells({ ids: [d, b] }));
+    expect(sources(state)).toEqual(["a", "b\n\nd", "c"]);
+    expect(state.notebook.cellMap.getIn([b, "outputs"]).size).toBe(0);
+    expect(state.cellFocused).toBe(b);
+  });
+
+  test("hides the input of cells unless all of it is hidden", () => {
+    const hidden = (state) =>
+      [a, b].map((id) =>
+        state.notebook.cellMap.getIn([id, "metadata", "jupyter", "source_hidden"])
+      );
+    const some = originalState.setIn(
+      ["notebook", "cellMap", a, "metadata", "jupyter", "source_hidden"],
+      true
+    );
+
+    const all = reducers(
+      some,
+      actions.toggleCellsInputVisibility({ ids: [a, b] })
+    );
+    expect(hidden(all)).toEqual([true, true]);
+
+    const none = reducers(
+      all,
+      actions.toggleCellsInputVisibility({ ids: [a, b] })
+    );
+    expect(hidden(none)).toEqual([false, false]);
+  });
+
+  test("hides the outputs of cells", () => {
+    const state = reducers(
+      originalState,
+      actions.toggleCellsOutputVisibility({ ids: [c, d] })
+    );
+    expect(
+      state.notebook.cellMap.getIn([c, "metadata", "jupyter", "outputs_hidden"])
+    ).toBe(true);
+    expect(
+      state.notebook.cellMap.getIn([a, "metadata", "jupyter", "outputs_hidden"])
+    ).toBe(false);
+  });
+
+  test("clears the outputs of cells", () => {
+    const withOutputs = [a, b].reduce(
+      (state, id) =>
+        state.setIn(
+          ["notebook", "cellMap", id, "outputs"],
+          Immutable.List([makeStreamOutput({ name: "stdout", text: "hi" })])
+        ),
+      originalState
+    );
+    const state = reducers(
+      withOutputs,
+      actions.clearCellsOutputs({ ids: [b] })
+    );
+    expect(state.notebook.cellMap.getIn([a, "outputs"]).size).toBe(1);
+    expect(state.notebook.cellMap.getIn([b, "outputs"]).size).toBe(0);
+  });
+});
@@ -0,0 +1,92 @@
+import * as actions from "@nteract/actions";
+import {
+  createContentRef,
+  createKernelRef,
+  DebuggersRecordProps,
+  makeDebuggersRecord
+} from "@nteract/types";
+import Immutable from "immutable";
+
+import { debuggers } from "../../../src/core/entities/debuggers";
+
+const contentRef = createContentRef();
+const kernelRef = createKernelRef();
+
+function reduce(...actionList: any[]): DebuggersRecordProps {
+  return actionList.reduce(
+    (state, action) => debuggers(state, action),
+    makeDebuggersRecord()
+  );
+}
+
+describe("debuggers reducers", () => {
+  test("TOGGLE_BREAKPOINT adds and removes breakpoints", () => {
+    let state = reduce(
+      actions.toggleBreakpoint({ contentRef, id: "cell", line: 3 }),
+      actions.toggleBreakpoint({ contentRef, id: "cell", line: 1 })
+    );
+    expect(state.breakpoints.get("cell")).toEqual(Immutable.Set([1, 3]));
+
+    state = reduce(
+      actions.toggleBreakpoint({ contentRef, id: "cell", line: 3 }),
+      actions.toggleBreakpoint({ contentRef, id: "cell", line: 3 })
+    );
+    expect(state.breakpoints.has("cell")).toBe(false);
+  });
+  test("START_DEBUGGING_FULFILLED records where cells were dumped to", () => {
+    const state = reduce(
+      actions.startDebugging({ contentRef, kernelRef }),
+      actions.startDebuggingFulfilled({
+        contentRef,
+        kernelRef,
+        sourcePaths: { cell: "/tmp/cell.py" }
+      })
+    );
+    const session = state.byRef.get(kernelRef)!;
+    expect(session.status).toBe("running");
+    expect(session.sourcePaths.get("cell")).toBe("/tmp/cell.py");
+  });
+  test("DEBUG_PAUSED keeps the call stack until the kernel moves on", () => {
+    const frame = { id: 1, name: "f", line: 2, column: 1, path: "/tmp/cell.py" };
+    const scope = { name: "Locals", variables: [] };
+    let state = reduce(
+      actions.startDebugging({ contentRef, kernelRef }),
+      actions.debugPaused({
+        kernelRef,
+        threadId: 7,
+        stackFrames: [frame],
+        frameId: 1,
+        scopes: [scope]
+      })
+    );
+    let session = state.byRef.get(kernelRef)!;
+    expect(session.status).toBe("paused");
+    expect(session.stoppedThreadId).toBe(7);
+    expect(session.stackFrames.toArray()).toEqual([frame]);
+    expect(session.scopes.toArray()).toEqual([scope]);
+
+    state = debuggers(
+      state as any,
+      actions.debugStep({ kernelRef, command: "next", threadId: 7 })
+    ) as DebuggersRecordProps;
+    session = state.byRef.get(kernelRef)!;
+    expect(session.status).toBe("running");
+    expect(session.stackFrames.size).toBe(0);
+    expect(session.stoppedThreadId).toBeNull();
+  });
+  test("ignores debugger events once the session ended", () => {
+    const state = reduce(
+      actions.startDebugging({ contentRef, kernelRef }),
+      actions.stopDebuggingFulfilled({ kernelRef }),
+      actions.debugContinued({ kernelRef })
+    );
+    expect(state.byRef.has(kernelRef)).toBe(false);
+  });
+  test("KILL_KERNEL_SUCCESSFUL ends the session", () => {
+    const state = reduce(
+      actions.startDebugging({ contentRef, kernelRef }),
+      actions.killKernelSuccessful({ kernelRef })
+    );
+    expect(state.byRef.has(kernelRef)).toBe(false);
+  });
+});
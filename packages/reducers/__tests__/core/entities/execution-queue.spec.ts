@@ -0,0 +1,87 @@
+import * as actions from "@nteract/actions";
+import {
+  createKernelRef,
+  ExecutionQueueRecord,
+  makeExecutionQueueRecord
+} from "@nteract/types";
+
+import { executionQueue } from "../../../src/core/entities/execution-queue";
+
+const kernelRef = createKernelRef();
+const contentRef = "notebook";
+
+function reduce(...actionList: any[]): ExecutionQueueRecord {
+  return actionList.reduce(
+    (state, action) => executionQueue(state, action),
+    makeExecutionQueueRecord()
+  );
+}
+
+const enqueue = (id: string, ref: string = contentRef) =>
+  actions.enqueueExecution({ kernelRef, contentRef: ref, id });
+
+function queuedIds(state: ExecutionQueueRecord): string[] {
+  return state.byKernelRef
+    .get(kernelRef)!
+    .queued.map(execution => execution.id)
+    .toArray();
+}
+
+describe("execution queue reducers", () => {
+  test("queues cells once and runs them one at a time", () => {
+    const state = reduce(
+      enqueue("a"),
+      enqueue("b"),
+      enqueue("a"),
+      actions.executionStarted({ kernelRef, contentRef, id: "a" })
+    );
+    expect(state.byKernelRef.get(kernelRef)!.running).toEqual({
+      contentRef,
+      id: "a"
+    });
+    expect(queuedIds(state)).toEqual(["b"]);
+
+    const done = executionQueue(
+      state,
+      actions.updateCellStatus({ contentRef, id: "a", status: "idle" })
+    );
+    expect(done.byKernelRef.get(kernelRef)!.running).toBeNull();
+  });
+  test("removes and reorders queued cells", () => {
+    const state = reduce(
+      enqueue("a"),
+      enqueue("b"),
+      enqueue("c"),
+      actions.moveQueuedExecution({ kernelRef, contentRef, id: "c", index: 0 }),
+      actions.dequeueExecution({ kernelRef, contentRef, id: "a" })
+    );
+    expect(queuedIds(state)).toEqual(["c", "b"]);
+  });
+  test("cancelling all of a notebook's cells keeps its running cell", () => {
+    const state = reduce(
+      enqueue("a"),
+      enqueue("b"),
+      enqueue("c", "console"),
+      actions.executionStarted({ kernelRef, contentRef, id: "a" }),
+      actions.executeCanceled({ contentRef, id: "all" })
+    );
+    expect(state.byKernelRef.get(kernelRef)!.running).not.toBeNull();
+    expect(queuedIds(state)).toEqual(["c"]);
+  });
+  test("interrupting the kernel of a notebook drops its cells", () => {
+    const state = reduce(
+      enqueue("a"),
+      enqueue("b"),
+      actions.executionStarted({ kernelRef, contentRef, id: "a" }),
+      actions.interruptKernel({ contentRef })
+    );
+    expect(state.byKernelRef.get(kernelRef)!.running).toBeNull();
+    expect(queuedIds(state)).toEqual([]);
+
+    const killed = executionQueue(
+      state,
+      actions.killKernelSuccessful({ kernelRef })
+    );
+    expect(killed.byKernelRef.has(kernelRef)).toBe(false);
+  });
+});
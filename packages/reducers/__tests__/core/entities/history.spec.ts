@@ -0,0 +1,78 @@
+import * as actions from "@nteract/actions";
+import {
+  createKernelRef,
+  HistoryRecordProps,
+  makeHistoryRecord
+} from "@nteract/types";
+import Immutable from "immutable";
+
+import { history } from "../../../src/core/entities/history";
+
+const kernelRef = createKernelRef();
+
+const first = { session: 1, line: 2, source: "x = 1" };
+const second = { session: 1, line: 1, source: "import os" };
+
+function reduce(...actionList: any[]): HistoryRecordProps {
+  return actionList.reduce(
+    (state, action) => history(state, action),
+    makeHistoryRecord()
+  );
+}
+
+describe("history reducers", () => {
+  test("FETCH_KERNEL_HISTORY_FULFILLED appends the next page", () => {
+    const state = reduce(
+      actions.fetchKernelHistory({ kernelRef, query: { mode: "tail" } }),
+      actions.fetchKernelHistoryFulfilled({
+        kernelRef,
+        inputs: [first],
+        hasMore: true
+      }),
+      actions.fetchMoreKernelHistory({ kernelRef }),
+      actions.fetchKernelHistoryFulfilled({
+        kernelRef,
+        inputs: [second],
+        hasMore: false
+      })
+    );
+    const record = state.byKernelRef.get(kernelRef)!;
+    expect(record.status).toBe("fetched");
+    expect(record.inputs).toEqual(Immutable.List([first, second]));
+    expect(record.hasMore).toBe(false);
+  });
+  test("FETCH_KERNEL_HISTORY starts a new query over", () => {
+    const query = { mode: "search" as const, pattern: "*os*" };
+    const state = reduce(
+      actions.fetchKernelHistoryFulfilled({
+        kernelRef,
+        inputs: [first],
+        hasMore: true
+      }),
+      actions.fetchKernelHistory({ kernelRef, query })
+    );
+    const record = state.byKernelRef.get(kernelRef)!;
+    expect(record.status).toBe("fetching");
+    expect(record.query).toEqual(query);
+    expect(record.inputs.size).toBe(0);
+  });
+  test("FETCH_KERNEL_HISTORY_FAILED records the error", () => {
+    const state = reduce(
+      actions.fetchKernelHistory({ kernelRef, query: { mode: "tail" } }),
+      actions.fetchKernelHistoryFailed({
+        kernelRef,
+        error: new Error("The kernel is not running.")
+      })
+    );
+    const record = state.byKernelRef.get(kernelRef)!;
+    expect(record.status).toBe("error");
+    expect(record.error).toBe("The kernel is not running.");
+  });
+  test("KILL_KERNEL_SUCCESSFUL forgets the history of the kernel", () => {
+    const state = reduce(
+      actions.fetchKernelHistory({ kernelRef, query: { mode: "tail" } }),
+      actions.killKernelSuccessful({ kernelRef })
+    );
+    expect(state.byKernelRef.has(kernelRef)).toBe(false);
+  });
+});
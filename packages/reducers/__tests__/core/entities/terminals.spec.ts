@@ -0,0 +1,81 @@
+import * as actions from "@nteract/actions";
+import { makeTerminalsRecord, TerminalsRecord } from "@nteract/types";
+import Immutable from "immutable";
+import { Subject } from "rxjs";
+
+import { byRef } from "../../../src/core/entities/contents/index";
+import { terminals } from "../../../src/core/entities/terminals";
+
+const contentRef = "terminal";
+
+function reduce(...actionList: any[]): TerminalsRecord {
+  return actionList.reduce(
+    (state, action) => terminals(state, action),
+    makeTerminalsRecord()
+  );
+}
+
+describe("terminals reducers", () => {
+  test("FETCH_TERMINALS_FULFILLED lists the running sessions", () => {
+    const state = reduce(
+      actions.fetchTerminals(),
+      actions.fetchTerminalsFulfilled({ names: ["1", "2"] })
+    );
+    expect(state.status).toBe("fetched");
+    expect(state.names).toEqual(Immutable.List(["1", "2"]));
+  });
+  test("FETCH_TERMINALS_FAILED keeps the error", () => {
+    const error = new Error("Terminals are only available on a Jupyter server");
+    const state = reduce(actions.fetchTerminalsFailed(error));
+    expect(state.status).toBe("error");
+    expect(state.error).toBe(error);
+  });
+  test("connecting and killing sessions updates the list", () => {
+    const state = reduce(
+      actions.fetchTerminalsFulfilled({ names: ["1"] }),
+      actions.terminalConnected({ contentRef, name: "2", channel: new Subject() }),
+      actions.terminalConnected({ contentRef, name: "2", channel: new Subject() }),
+      actions.killTerminalFulfilled({ name: "1" })
+    );
+    expect(state.names).toEqual(Immutable.List(["2"]));
+  });
+});
+
+describe("terminal contents", () => {
+  test("tracks the websocket of the session", () => {
+    const channel = new Subject();
+    const opened = byRef(
+      Immutable.Map(),
+      actions.openTerminal({ contentRef, name: "1" })
+    );
+    expect(opened.getIn([contentRef, "loading"])).toBe(true);
+    expect(opened.getIn([contentRef, "model", "name"])).toBe("1");
+
+    const connected = byRef(
+      opened,
+      actions.terminalConnected({ contentRef, name: "1", channel })
+    );
+    expect(connected.getIn([contentRef, "loading"])).toBe(false);
+    expect(connected.getIn([contentRef, "model", "channel"])).toBe(channel);
+    expect(connected.getIn([contentRef, "model", "status"])).toBe("connected");
+
+    const disconnected = byRef(
+      connected,
+      actions.terminalDisconnected({ contentRef })
+    );
+    expect(disconnected.getIn([contentRef, "model", "channel"])).toBeNull();
+    expect(disconnected.getIn([contentRef, "model", "status"])).toBe(
+      "disconnected"
+    );
+  });
+  test("OPEN_TERMINAL_FAILED shows the error", () => {
+    const error = new Error("no such terminal");
+    const state = byRef(
+      byRef(Immutable.Map(), actions.openTerminal({ contentRef, name: "9" })),
+      actions.openTerminalFailed({ contentRef, error })
+    );
+    expect(state.getIn([contentRef, "loading"])).toBe(false);
+    expect(state.getIn([contentRef, "error"])).toBe(error);
+    expect(state.getIn([contentRef, "model", "status"])).toBe("disconnected");
+  });
+});
@@ -0,0 +1,72 @@
+import * as actions from "@nteract/actions";
+import {
+  createKernelRef,
+  makeVariablesRecord,
+  VariablesRecordProps
+} from "@nteract/types";
+import Immutable from "immutable";
+
+import { variables } from "../../../src/core/entities/variables";
+
+const kernelRef = createKernelRef();
+
+const x = { name: "x", type: "int", shape: null, repr: "1" };
+const output = { data: { "text/plain": "1" }, metadata: {} };
+
+function reduce(...actionList: any[]): VariablesRecordProps {
+  return actionList.reduce(
+    (state, action) => variables(state, action),
+    makeVariablesRecord()
+  );
+}
+
+describe("variables reducers", () => {
+  test("FETCH_KERNEL_VARIABLES keeps the previous variables around", () => {
+    const state = reduce(
+      actions.fetchKernelVariablesFulfilled({ kernelRef, variables: [x] }),
+      actions.fetchKernelVariables({ kernelRef })
+    );
+    const record = state.byKernelRef.get(kernelRef)!;
+    expect(record.status).toBe("fetching");
+    expect(record.variables).toEqual(Immutable.List([x]));
+  });
+  test("FETCH_KERNEL_VARIABLES_FAILED records the error", () => {
+    const state = reduce(
+      actions.fetchKernelVariables({ kernelRef }),
+      actions.fetchKernelVariablesFailed({
+        kernelRef,
+        error: new Error("The kernel is not running.")
+      })
+    );
+    const record = state.byKernelRef.get(kernelRef)!;
+    expect(record.status).toBe("error");
+    expect(record.error).toBe("The kernel is not running.");
+  });
+  test("INSPECT_KERNEL_VARIABLE_FULFILLED shows the inspected variable", () => {
+    const state = reduce(
+      actions.inspectKernelVariable({ kernelRef, name: "x" }),
+      actions.inspectKernelVariableFulfilled({ kernelRef, name: "y", output }),
+      actions.inspectKernelVariableFulfilled({ kernelRef, name: "x", output })
+    );
+    const record = state.byKernelRef.get(kernelRef)!;
+    expect(record.inspectedName).toBe("x");
+    expect(record.inspectedOutput).toEqual(output);
+  });
+  test("FETCH_KERNEL_VARIABLES_FULFILLED forgets deleted variables", () => {
+    const state = reduce(
+      actions.inspectKernelVariable({ kernelRef, name: "x" }),
+      actions.inspectKernelVariableFulfilled({ kernelRef, name: "x", output }),
+      actions.fetchKernelVariablesFulfilled({ kernelRef, variables: [] })
+    );
+    const record = state.byKernelRef.get(kernelRef)!;
+    expect(record.inspectedName).toBeNull();
+    expect(record.inspectedOutput).toBeNull();
+  });
+  test("KILL_KERNEL_SUCCESSFUL removes the variables of the kernel", () => {
+    const state = reduce(
+      actions.fetchKernelVariablesFulfilled({ kernelRef, variables: [x] }),
+      actions.killKernelSuccessful({ kernelRef })
+    );
+    expect(state.byKernelRef.has(kernelRef)).toBe(false);
+  });
+});
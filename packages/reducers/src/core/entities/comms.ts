@@ -1,11 +1,69 @@
 // Vendor modules
 import {
+  CLOSE_COMM,
+  CloseComm,
+  CommCloseAction,
   CommMessageAction,
   CommOpenAction,
-  RegisterCommTargetAction
+  FETCH_COMM_INFO_FULFILLED,
+  FETCH_CONTENT_FULFILLED,
+  FetchCommInfoFulfilled,
+  FetchContentFulfilled,
+  OPEN_COMM,
+  OpenComm,
+  RegisterCommTargetAction,
+  UPDATE_WIDGET_STATE,
+  UpdateWidgetState
 } from "@nteract/actions";
-import { CommsRecord, makeCommsRecord } from "@nteract/types";
-import { fromJS } from "immutable";
+import {
+  CommsRecord,
+  makeCommsRecord,
+  SavedWidgetModel,
+  WIDGET_COMM_TARGET,
+  WIDGET_STATE_MIMETYPE
+} from "@nteract/types";
+import { fromJS, Map } from "immutable";
+
+type BufferPath = Array<string | number>;
+
+function toDataView(buffer: ArrayBuffer | ArrayBufferView): DataView {
+  return ArrayBuffer.isView(buffer)
+    ? new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+    : new DataView(buffer);
+}
+
+/**
+ * Widgets send binary values, like the data of an image, as buffers of the
+ * message. This puts each buffer back into the state at its path.
+ */
+function putBuffers(
+  state: Map<string, any>,
+  bufferPaths: BufferPath[] = [],
+  buffers: Array<ArrayBuffer | ArrayBufferView> = []
+): Map<string, any> {
+  return bufferPaths.reduce(
+    (withBuffers, path, index) =>
+      buffers[index]
+        ? withBuffers.setIn(path, toDataView(buffers[index]))
+        : withBuffers,
+    state
+  );
+}
+
+/**
+ * Decodes a buffer saved in the metadata of a notebook.
+ */
+function decodeBuffer(encoding: "base64" | "hex", data: string): DataView {
+  const binary =
+    encoding === "hex"
+      ? data.replace(/../g, byte => String.fromCharCode(parseInt(byte, 16)))
+      : atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return new DataView(bytes.buffer);
+}
 
 function registerCommTarget(
   state: CommsRecord,
@@ -18,23 +76,41 @@ function processCommOpen(
   state: CommsRecord,
   action: CommOpenAction
 ): CommsRecord {
-  const { target_name, target_module, data, comm_id } = action;
+  const {
+    target_name,
+    target_module,
+    data,
+    comm_id,
+    buffers,
+    kernelRef
+  } = action;
 
+  // The kernel is kept along so only its widgets are saved with a notebook
   const commInfo = {
     target_module,
-    target_name
+    target_name,
+    kernelRef
   };
 
+  let model = fromJS(data);
+  if (data && data.buffer_paths) {
+    model = model
+      .delete("buffer_paths")
+      .update("state", (widgetState: Map<string, any>) =>
+        putBuffers(widgetState, data.buffer_paths, buffers)
+      );
+  }
+
   return state
     .setIn(["info", comm_id], fromJS(commInfo))
-    .setIn(["models", comm_id], fromJS(data));
+    .setIn(["models", comm_id], model);
 }
 
 function processCommMessage(
   state: CommsRecord,
   action: CommMessageAction
 ): CommsRecord {
-  const { data, comm_id } = action;
+  const { data, comm_id, buffers } = action;
 
   const commInfo = state.getIn(["info", comm_id]);
   if (
@@ -49,22 +125,142 @@ function processCommMessage(
     return state.updateIn(["models", comm_id], model =>
       model.setIn(path, value)
     );
-  } else if (data.method === "update") {
+  } else if (data.method === "update" || data.method === "echo_update") {
     /**
      * ipywidgets uses the update method to notify the
      * client that state for a particular comm model needs
      * to be updated instead of replaced. We check for this
      * update method and modify the comm state accordingly
      * when this is the case.
+     *
+     * Kernels echo the updates frontends send them, which
+     * keeps every frontend connected to the kernel in sync.
      */
-    return state.mergeIn(["models", comm_id, "state"], fromJS(data.state));
+    return state.mergeIn(
+      ["models", comm_id, "state"],
+      putBuffers(fromJS(data.state), data.buffer_paths, buffers)
+    );
+  } else if (data.method === "custom") {
+    // Custom messages are for the widget's views, they don't change its state
+    return state;
   } else {
     // Default to overwrite / replace for now
     return state.setIn(["models", comm_id], fromJS(data));
   }
 }
 
-type CommAction = RegisterCommTargetAction | CommMessageAction | CommOpenAction;
+function processCommClose(state: CommsRecord, commId: string): CommsRecord {
+  return state.deleteIn(["info", commId]).deleteIn(["models", commId]);
+}
+
+function openComm(state: CommsRecord, action: OpenComm): CommsRecord {
+  const { commId, targetName, targetModule, data, kernelRef } = action.payload;
+
+  // Comms opened from the frontend are tracked like those the kernel opens
+  return state
+    .setIn(
+      ["info", commId],
+      fromJS({
+        target_module: targetModule,
+        target_name: targetName,
+        kernelRef
+      })
+    )
+    .setIn(["models", commId], fromJS(data || {}));
+}
+
+function fetchCommInfoFulfilled(
+  state: CommsRecord,
+  action: FetchCommInfoFulfilled
+): CommsRecord {
+  const { comms, kernelRef } = action.payload;
+
+  // Comms the kernel opened before we connected to it are only known by now
+  return Object.keys(comms).reduce(
+    (known, commId) =>
+      known.info.has(commId)
+        ? known
+        : known.setIn(
+            ["info", commId],
+            fromJS({ target_name: comms[commId].target_name, kernelRef })
+          ),
+    state
+  );
+}
+
+function updateWidgetState(
+  state: CommsRecord,
+  action: UpdateWidgetState
+): CommsRecord {
+  const { commId, state: widgetState } = action.payload;
+  return state.mergeIn(["models", commId, "state"], fromJS(widgetState));
+}
+
+/**
+ * Widgets are saved in the metadata of notebooks, restoring them lets their
+ * views render before a kernel opens comms for them. The models of live
+ * comms are kept.
+ */
+function restoreWidgetState(
+  state: CommsRecord,
+  action: FetchContentFulfilled
+): CommsRecord {
+  const { model, kernelRef } = action.payload;
+  const saved =
+    model.type === "notebook" && model.content && model.content.metadata
+      ? model.content.metadata.widgets?.[WIDGET_STATE_MIMETYPE]
+      : null;
+  if (!saved || !saved.state) {
+    return state;
+  }
+
+  const models: { [modelId: string]: SavedWidgetModel } = saved.state;
+  return Object.keys(models).reduce((restored, modelId) => {
+    if (restored.models.has(modelId)) {
+      return restored;
+    }
+
+    const {
+      model_name,
+      model_module,
+      model_module_version,
+      state: savedState,
+      buffers = []
+    } = models[modelId];
+    const widgetState = buffers.reduce(
+      (withBuffers: Map<string, any>, { path, encoding, data }) =>
+        withBuffers.setIn(path, decodeBuffer(encoding, data)),
+      fromJS({
+        ...savedState,
+        _model_name: model_name,
+        _model_module: model_module,
+        _model_module_version: model_module_version
+      })
+    );
+
+    return restored
+      .setIn(
+        ["info", modelId],
+        fromJS({
+          target_module: model_module,
+          target_name: WIDGET_COMM_TARGET,
+          kernelRef
+        })
+      )
+      .setIn(["models", modelId], Map({ state: widgetState }));
+  }, state);
+}
+
+type CommAction =
+  | RegisterCommTargetAction
+  | CommMessageAction
+  | CommOpenAction
+  | CommCloseAction
+  | OpenComm
+  | CloseComm
+  | FetchCommInfoFulfilled
+  | UpdateWidgetState
+  | FetchContentFulfilled;
 
 const comms = function(
   state: CommsRecord = makeCommsRecord(),
@@ -77,9 +273,21 @@ const comms = function(
       return processCommOpen(state, action);
     case "COMM_MESSAGE":
       return processCommMessage(state, action);
+    case "COMM_CLOSE":
+      return processCommClose(state, action.comm_id);
+    case OPEN_COMM:
+      return openComm(state, action);
+    case CLOSE_COMM:
+      return processCommClose(state, action.payload.commId);
+    case FETCH_COMM_INFO_FULFILLED:
+      return fetchCommInfoFulfilled(state, action);
+    case UPDATE_WIDGET_STATE:
+      return updateWidgetState(state, action);
+    case FETCH_CONTENT_FULFILLED:
+      return restoreWidgetState(state, action);
     default:
       return state;
   }
 }
 
-export { comms };
\ No newline at end of file
+export { comms };
@@ -0,0 +1,143 @@
+// Vendor modules
+import * as actionTypes from "@nteract/actions";
+import { appendCellToNotebook, emptyNotebook, ImmutableNotebook, makeCodeCell } from "@nteract/commutable";
+import { ConsoleEntryRecord, ConsoleModelRecord, makeConsoleEntryRecord } from "@nteract/types";
+import { List } from "immutable";
+
+// Local modules
+import { reduceOutputs } from "./notebook";
+
+type ConsoleAction =
+  | actionTypes.SetConsolePrompt
+  | actionTypes.SendConsoleExecuteRequest
+  | actionTypes.AppendConsoleOutput
+  | actionTypes.ClearConsoleOutput
+  | actionTypes.UpdateConsoleExecutionCount
+  | actionTypes.ConsoleExecutionFinished
+  | actionTypes.ClearConsole
+  | actionTypes.FetchConsoleHistoryFulfilled
+  | actionTypes.NavigateConsoleHistory;
+
+/**
+ * Turns the transcript of a console into a notebook with a code cell for
+ * each input, keeping its outputs.
+ *
+ * @param model The console to export
+ * @param metadata The notebook metadata, e.g. of the notebook the console is attached to
+ */
+export function consoleToNotebook(
+  model: ConsoleModelRecord,
+  metadata = emptyNotebook.metadata
+): ImmutableNotebook {
+  return model.transcript.reduce(
+    (notebook, entry) =>
+      appendCellToNotebook(
+        notebook,
+        makeCodeCell({
+          source: entry.source,
+          execution_count: entry.executionCount,
+          outputs: entry.outputs
+        })
+      ),
+    emptyNotebook.set("metadata", metadata)
+  );
+}
+
+function updateEntry(
+  state: ConsoleModelRecord,
+  id: string,
+  updater: (entry: ConsoleEntryRecord) => ConsoleEntryRecord
+): ConsoleModelRecord {
+  // Entries are gone once the console is cleared, even while they still run
+  const index = state.transcript.findIndex(entry => entry.id === id);
+  if (index === -1) {
+    return state;
+  }
+  return state.update("transcript", transcript => transcript.update(index, updater));
+}
+
+function sendConsoleExecuteRequest(
+  state: ConsoleModelRecord,
+  action: actionTypes.SendConsoleExecuteRequest
+): ConsoleModelRecord {
+  const { id, source } = action.payload;
+  return state.merge({
+    transcript: state.transcript.push(
+      makeConsoleEntryRecord({ id, source, running: true })
+    ),
+    history: state.history.last(null) === source ? state.history : state.history.push(source),
+    prompt: "",
+    historyIndex: null,
+    draft: ""
+  });
+}
+
+function navigateConsoleHistory(
+  state: ConsoleModelRecord,
+  action: actionTypes.NavigateConsoleHistory
+): ConsoleModelRecord {
+  const { history, historyIndex } = state;
+
+  if (action.payload.direction === "previous") {
+    if (history.size === 0 || historyIndex === 0) {
+      return state;
+    }
+    // Keep what was typed to come back to it after the newest input
+    const index = historyIndex === null ? history.size - 1 : historyIndex - 1;
+    return state.merge({
+      draft: historyIndex === null ? state.prompt : state.draft,
+      historyIndex: index,
+      prompt: history.get(index, "")
+    });
+  }
+
+  if (historyIndex === null) {
+    return state;
+  }
+  if (historyIndex < history.size - 1) {
+    return state.merge({
+      historyIndex: historyIndex + 1,
+      prompt: history.get(historyIndex + 1, "")
+    });
+  }
+  return state.merge({ historyIndex: null, prompt: state.draft, draft: "" });
+}
+
+export function consoleModel(
+  state: ConsoleModelRecord,
+  action: ConsoleAction
+): ConsoleModelRecord {
+  switch (action.type) {
+    case actionTypes.SET_CONSOLE_PROMPT:
+      return state.set("prompt", action.payload.value);
+    case actionTypes.SEND_CONSOLE_EXECUTE_REQUEST:
+      return sendConsoleExecuteRequest(state, action);
+    case actionTypes.APPEND_CONSOLE_OUTPUT:
+      return updateEntry(state, action.payload.id, entry =>
+        entry.set("outputs", reduceOutputs(entry.outputs, action.payload.output))
+      );
+    case actionTypes.CLEAR_CONSOLE_OUTPUT:
+      return updateEntry(state, action.payload.id, entry =>
+        entry.set("outputs", List())
+      );
+    case actionTypes.UPDATE_CONSOLE_EXECUTION_COUNT:
+      return updateEntry(state, action.payload.id, entry =>
+        entry.set("executionCount", action.payload.value)
+      );
+    case actionTypes.CONSOLE_EXECUTION_FINISHED:
+      return updateEntry(state, action.payload.id, entry =>
+        entry.set("running", false)
+      );
+    case actionTypes.CLEAR_CONSOLE:
+      return state.set("transcript", List());
+    case actionTypes.FETCH_CONSOLE_HISTORY_FULFILLED:
+      return state.merge({
+        history: List(action.payload.history),
+        historyIndex: null
+      });
+    case actionTypes.NAVIGATE_CONSOLE_HISTORY:
+      return navigateConsoleHistory(state, action);
+    default:
+      return state;
+  }
+}
@@ -3,6 +3,8 @@ import * as actions from "@nteract/actions";
 import { FileModelRecord, FileModelRecordProps } from "@nteract/types";
 import { RecordOf } from "immutable";
 
+type FileAction = actions.UpdateFileText | actions.SaveFulfilled;
+
 function updateFileText(
   state: FileModelRecord,
   action: actions.UpdateFileText
@@ -10,13 +12,19 @@ function updateFileText(
   return state.set("text", action.payload.text);
 }
 
+function setSavedText(state: FileModelRecord): RecordOf<FileModelRecordProps> {
+  return state.set("savedText", state.text);
+}
+
 export function file(
   state: FileModelRecord,
-  action: actions.UpdateFileText
+  action: FileAction
 ): RecordOf<FileModelRecordProps> {
   switch (action.type) {
     case actions.UPDATE_FILE_TEXT:
       return updateFileText(state, action);
+    case actions.SAVE_FULFILLED:
+      return setSavedText(state);
     default:
       return state;
   }
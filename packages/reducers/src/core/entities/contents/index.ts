@@ -6,9 +6,14 @@ import {
   ContentRecord,
   ContentRef,
   ContentsRecord,
+  CheckpointRecord,
   createContentRef,
+  ICheckpoint,
   DummyContentRecordProps,
   JupyterHostRecord,
+  makeCheckpointRecord,
+  makeConsoleContentRecord,
+  makeConsoleModelRecord,
   makeContentsRecord,
   makeDirectoryContentRecord,
   makeDirectoryModel,
@@ -17,14 +22,77 @@ import {
   makeFileContentRecord,
   makeFileModelRecord,
   makeNotebookContentRecord,
-  NotebookContentRecordProps
+  makeRecoveryRecord,
+  makeTerminalContentRecord,
+  makeTerminalModelRecord,
+  NotebookContentRecord,
+  NotebookContentRecordProps,
+  TerminalContentRecord
 } from "@nteract/types";
 import { List, Map, Record, RecordOf } from "immutable";
 import { Action } from "redux";
 
 // Local modules
+import { consoleModel, consoleToNotebook } from "./console";
 import { file } from "./file";
-import { notebook } from "./notebook";
+import { notebook, recordUndo } from "./notebook";
+
+const makeCheckpoint = (checkpoint: ICheckpoint): CheckpointRecord =>
+  makeCheckpointRecord({
+    id: checkpoint.id,
+    lastModified: new Date(checkpoint.last_modified)
+  });
+
+const newestFirst = (a: CheckpointRecord, b: CheckpointRecord) =>
+  (b.lastModified ? b.lastModified.getTime() : 0) -
+  (a.lastModified ? a.lastModified.getTime() : 0);
+
+/**
+ * Checkpoints are only tracked for notebooks, other content is left as is.
+ */
+const updateCheckpoints = (
+  state: Map<ContentRef, ContentRecord>,
+  contentRef: ContentRef,
+  updater: (checkpoints: List<CheckpointRecord>) => List<CheckpointRecord>
+): Map<ContentRef, ContentRecord> => {
+  const content = state.get(contentRef);
+  if (!content || content.type !== "notebook") {
+    return state;
+  }
+  return state.set(
+    contentRef,
+    content.update("checkpoints", checkpoints =>
+      updater(checkpoints).sort(newestFirst)
+    )
+  );
+};
+
+/**
+ * Recovery is only offered for notebooks, other content is left as is.
+ */
+const updateNotebookContent = (
+  state: Map<ContentRef, ContentRecord>,
+  contentRef: ContentRef,
+  updater: (content: NotebookContentRecord) => NotebookContentRecord
+): Map<ContentRef, ContentRecord> => {
+  const content = state.get(contentRef);
+  if (!content || content.type !== "notebook") {
+    return state;
+  }
+  return state.set(contentRef, updater(content as NotebookContentRecord));
+};
+
+const updateTerminalContent = (
+  state: Map<ContentRef, ContentRecord>,
+  contentRef: ContentRef,
+  updater: (content: TerminalContentRecord) => TerminalContentRecord
+): Map<ContentRef, ContentRecord> => {
+  const content = state.get(contentRef);
+  if (!content || content.type !== "terminal") {
+    return state;
+  }
+  return state.set(contentRef, updater(content));
+};
 
 export const byRef = (
   state: Map<ContentRef, ContentRecord>,
@@ -40,7 +108,7 @@ export const byRef = (
         title
       } = overwriteMetadataFieldsAction.payload;
 
-      return state
+      const headerEdited = state
         .setIn(
           [
             overwriteMetadataFieldsAction.payload.contentRef,
@@ -81,6 +149,17 @@ export const byRef = (
           ],
           title
         );
+      const headerModelPath = [
+        overwriteMetadataFieldsAction.payload.contentRef,
+        "model"
+      ];
+      const headerModel = state.getIn(headerModelPath);
+      return headerModel && headerModel.type === "notebook"
+        ? headerEdited.setIn(
+            headerModelPath,
+            recordUndo(headerModel, headerEdited.getIn(headerModelPath))
+          )
+        : headerEdited;
     case actionTypes.TOGGLE_HEADER_EDITOR:
       const toggleHeaderAction = action as actionTypes.ToggleHeaderEditor;
       const ref = toggleHeaderAction.payload.contentRef;
@@ -117,10 +196,21 @@ export const byRef = (
         );
     case actionTypes.LAUNCH_KERNEL_SUCCESSFUL:
       const launchKernelAction = action as actionTypes.NewKernelAction;
-      return state.setIn(
-        [launchKernelAction.payload.contentRef, "model", "kernelRef"],
-        launchKernelAction.payload.kernelRef
-      );
+      return state
+        .setIn(
+          [launchKernelAction.payload.contentRef, "model", "kernelRef"],
+          launchKernelAction.payload.kernelRef
+        )
+        // Consoles stay attached to their notebook when its kernel is restarted
+        .map(content =>
+          content.type === "console" &&
+          content.model.notebookRef === launchKernelAction.payload.contentRef
+            ? content.setIn(
+                ["model", "kernelRef"],
+                launchKernelAction.payload.kernelRef
+              )
+            : content
+        );
     case actionTypes.FETCH_CONTENT_FULFILLED:
       const fetchContentFulfilledAction = action as actionTypes.FetchContentFulfilled;
       switch (fetchContentFulfilledAction.payload.model.type) {
@@ -134,7 +224,8 @@ export const byRef = (
                 fetchContentFulfilledAction.payload.model.last_modified,
               filepath: fetchContentFulfilledAction.payload.filepath,
               model: makeFileModelRecord({
-                text: fetchContentFulfilledAction.payload.model.content
+                text: fetchContentFulfilledAction.payload.model.content,
+                savedText: fetchContentFulfilledAction.payload.model.content
               }),
               loading: false,
               saving: false,
@@ -270,6 +361,9 @@ export const byRef = (
             if (model && model.type === "notebook") {
               return notebook(model, saveFulfilledAction);
             }
+            if (model && model.type === "file") {
+              return file(model, saveFulfilledAction);
+            }
             return model;
           }
         )
@@ -281,6 +375,190 @@ export const byRef = (
         .setIn([saveFulfilledAction.payload.contentRef, "saving"], false)
         .setIn([saveFulfilledAction.payload.contentRef, "error"], null);
     }
+    case actionTypes.FETCH_CHECKPOINTS_FULFILLED: {
+      const typedAction = action as actionTypes.FetchCheckpointsFulfilled;
+      return updateCheckpoints(state, typedAction.payload.contentRef, () =>
+        List(typedAction.payload.checkpoints.map(makeCheckpoint))
+      );
+    }
+    case actionTypes.CREATE_CHECKPOINT_FULFILLED: {
+      const typedAction = action as actionTypes.CreateCheckpointFulfilled;
+      const checkpoint = makeCheckpoint(typedAction.payload.checkpoint);
+      // Servers keeping a single checkpoint reuse its ID
+      return updateCheckpoints(state, typedAction.payload.contentRef, checkpoints =>
+        checkpoints.filter(other => other.id !== checkpoint.id).push(checkpoint)
+      );
+    }
+    case actionTypes.DELETE_CHECKPOINT_FULFILLED: {
+      const typedAction = action as actionTypes.DeleteCheckpointFulfilled;
+      return updateCheckpoints(state, typedAction.payload.contentRef, checkpoints =>
+        checkpoints.filter(other => other.id !== typedAction.payload.checkpointId)
+      );
+    }
+    case actionTypes.RESTORE_CHECKPOINT_FULFILLED: {
+      const typedAction = action as actionTypes.RestoreCheckpointFulfilled;
+      const { contentRef, model } = typedAction.payload;
+      const content = state.get(contentRef);
+      if (!content || content.type !== "notebook" || model.type !== "notebook") {
+        return state;
+      }
+
+      // Keep the kernel, replacing the notebook with the restored version
+      const immutableNotebook = fromJS(model.content);
+      return state.set(
+        contentRef,
+        (content as NotebookContentRecord)
+          .set("lastSaved", model.last_modified)
+          .set("error", null)
+          .update("model", notebookModel =>
+            notebookModel.merge({
+              notebook: immutableNotebook,
+              savedNotebook: immutableNotebook,
+              transient: Map({
+                keyPathsForDisplays: Map(),
+                cellMap: Map()
+              }),
+              cellFocused: immutableNotebook.getIn(["cellOrder", 0]),
+              editorFocused: null
+            })
+          )
+      );
+    }
+    case actionTypes.RECOVERY_AVAILABLE: {
+      const typedAction = action as actionTypes.RecoveryAvailable;
+      const { contentRef, entry } = typedAction.payload;
+      return updateNotebookContent(state, contentRef, content =>
+        content.set(
+          "recovery",
+          makeRecoveryRecord({
+            journaledAt: new Date(entry.journaledAt),
+            notebook: fromJS(entry.notebook)
+          })
+        )
+      );
+    }
+    case actionTypes.RESTORE_RECOVERY: {
+      const typedAction = action as actionTypes.RestoreRecovery;
+      return updateNotebookContent(state, typedAction.payload.contentRef, content => {
+        if (!content.recovery) {
+          return content;
+        }
+
+        // The saved notebook stays as is, so the recovered edits show as unsaved
+        const recovered = content.recovery.notebook;
+        return content.set("recovery", null).update("model", notebookModel =>
+          notebookModel.merge({
+            notebook: recovered,
+            transient: Map({
+              keyPathsForDisplays: Map(),
+              cellMap: Map()
+            }),
+            cellFocused: recovered.getIn(["cellOrder", 0]),
+            editorFocused: null
+          })
+        );
+      });
+    }
+    case actionTypes.DISCARD_RECOVERY: {
+      const typedAction = action as actionTypes.DiscardRecovery;
+      return updateNotebookContent(state, typedAction.payload.contentRef, content =>
+        content.set("recovery", null)
+      );
+    }
+    case actionTypes.OPEN_CONSOLE: {
+      const typedAction = action as actionTypes.OpenConsole;
+      const { contentRef, kernelRef, notebookRef } = typedAction.payload;
+      return state.set(
+        contentRef,
+        makeConsoleContentRecord({
+          model: makeConsoleModelRecord({
+            kernelRef,
+            notebookRef: notebookRef || null
+          })
+        })
+      );
+    }
+    case actionTypes.EXPORT_CONSOLE: {
+      const typedAction = action as actionTypes.ExportConsole;
+      const { contentRef, exportRef, filepath } = typedAction.payload;
+      const model: ContentModel | undefined = state.getIn([contentRef, "model"]);
+      if (!model || model.type !== "console") {
+        return state;
+      }
+
+      // Keep the kernelspec and language of the notebook the console is attached to
+      const attached = model.notebookRef ? state.get(model.notebookRef) : undefined;
+      const exported = consoleToNotebook(
+        model,
+        attached && attached.type === "notebook"
+          ? attached.model.notebook.metadata
+          : undefined
+      );
+      return state.set(
+        exportRef,
+        makeNotebookContentRecord({
+          filepath,
+          model: makeDocumentRecord({
+            notebook: exported,
+            cellFocused: exported.cellOrder.first(null)
+          })
+        })
+      );
+    }
+    case actionTypes.SET_CONSOLE_PROMPT:
+    case actionTypes.SEND_CONSOLE_EXECUTE_REQUEST:
+    case actionTypes.APPEND_CONSOLE_OUTPUT:
+    case actionTypes.CLEAR_CONSOLE_OUTPUT:
+    case actionTypes.UPDATE_CONSOLE_EXECUTION_COUNT:
+    case actionTypes.CONSOLE_EXECUTION_FINISHED:
+    case actionTypes.CLEAR_CONSOLE:
+    case actionTypes.FETCH_CONSOLE_HISTORY_FULFILLED:
+    case actionTypes.NAVIGATE_CONSOLE_HISTORY: {
+      const consoleAction = action as actionTypes.SetConsolePrompt;
+      const path = [consoleAction.payload.contentRef, "model"];
+      const model: ContentModel = state.getIn(path);
+      if (model && model.type === "console") {
+        return state.setIn(path, consoleModel(model, consoleAction));
+      }
+      return state;
+    }
+    case actionTypes.OPEN_TERMINAL: {
+      const typedAction = action as actionTypes.OpenTerminal;
+      const { contentRef, name } = typedAction.payload;
+      return state.set(
+        contentRef,
+        makeTerminalContentRecord({
+          loading: true,
+          model: makeTerminalModelRecord({ name: name || null })
+        })
+      );
+    }
+    case actionTypes.OPEN_TERMINAL_FAILED: {
+      const typedAction = action as actionTypes.OpenTerminalFailed;
+      const { contentRef, error } = typedAction.payload;
+      return updateTerminalContent(state, contentRef, content =>
+        content
+          .merge({ loading: false, error })
+          .setIn(["model", "status"], "disconnected")
+      );
+    }
+    case actionTypes.TERMINAL_CONNECTED: {
+      const typedAction = action as actionTypes.TerminalConnected;
+      const { contentRef, name, channel } = typedAction.payload;
+      return updateTerminalContent(state, contentRef, content =>
+        content.merge({
+          loading: false,
+          error: null,
+          model: content.model.merge({ name, channel, status: "connected" })
+        })
+      );
+    }
+    case actionTypes.TERMINAL_DISCONNECTED: {
+      const typedAction = action as actionTypes.TerminalDisconnected;
+      return updateTerminalContent(state, typedAction.payload.contentRef, content =>
+        content.mergeIn(["model"], { channel: null, status: "disconnected" })
+      );
+    }
     case actionTypes.DISPOSE_CONTENT: {
       const typedAction = action as actionTypes.DisposeContent;
       return state.delete(typedAction.payload.contentRef);
@@ -323,12 +601,41 @@ export const byRef = (
     case actionTypes.UPDATE_OUTPUT_METADATA:
     case actionTypes.PROMPT_INPUT_REQUEST:
     case actionTypes.INTERRUPT_KERNEL_SUCCESSFUL:
-    case actionTypes.UNHIDE_ALL: {
+    case actionTypes.UNHIDE_ALL:
+    case actionTypes.UNDO:
+    case actionTypes.REDO:
+    case actionTypes.DELETE_CELLS:
+    case actionTypes.CUT_CELLS:
+    case actionTypes.COPY_CELLS:
+    case actionTypes.MOVE_CELLS:
+    case actionTypes.CHANGE_CELLS_TYPE:
+    case actionTypes.MERGE_CELLS:
+    case actionTypes.TOGGLE_CELLS_INPUT_VISIBILITY:
+    case actionTypes.TOGGLE_CELLS_OUTPUT_VISIBILITY:
+    case actionTypes.CLEAR_CELLS_OUTPUTS:
+    case actionTypes.CODE_INCOMPLETE:
+    case actionTypes.INJECT_PARAMETERS:
+    case actionTypes.EXECUTE_CANCELED:
+    case actionTypes.DEQUEUE_EXECUTION:
+    case actionTypes.SET_CONTINUE_ON_ERROR:
+    case actionTypes.SET_REACTIVE_MODE:
+    case actionTypes.UPDATE_CELL_DEPENDENCIES:
+    case actionTypes.MARK_CELLS_STALE: {
       const cellAction = action as actionTypes.FocusCell;
       const path = [cellAction.payload.contentRef, "model"];
       const model = state.getIn(path);
       return state.setIn(path, notebook(model, cellAction));
     }
+    // Consoles run cells too
+    case actionTypes.EXECUTE_SUCCESSFUL: {
+      const executeAction = action as actionTypes.ExecuteSuccessful;
+      const path = [executeAction.payload.contentRef, "model"];
+      const model: ContentModel = state.getIn(path);
+      if (model && model.type === "notebook") {
+        return state.setIn(path, notebook(model, executeAction));
+      }
+      return state;
+    }
     case actionTypes.UPDATE_FILE_TEXT: {
       const fileAction = action as actionTypes.UpdateFileText;
       const path = [fileAction.payload.contentRef, "model"];
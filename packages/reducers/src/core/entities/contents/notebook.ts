@@ -12,6 +12,7 @@ import {
   ImmutableCodeCell,
   ImmutableNotebook,
   ImmutableOutput,
+  injectParameters as injectNotebookParameters,
   insertCellAfter,
   insertCellAt,
   makeCodeCell,
@@ -28,7 +29,9 @@ import { UpdateDisplayDataContent } from "@nteract/messaging";
 import {
   DocumentRecordProps,
   makeDocumentRecord,
+  makeNotebookVersion,
   NotebookModel,
+  NotebookVersion,
   PayloadMessage,
 } from "@nteract/types";
 import { escapeCarriageReturnSafe } from "escape-carriage";
@@ -596,6 +599,24 @@ function setInCell(
   );
 }
 
+/**
+ * Starts another line of code the kernel found incomplete, indented the way
+ * the kernel suggests.
+ */
+function codeIncomplete(
+  state: NotebookModel,
+  action: actionTypes.CodeIncomplete
+): RecordOf<DocumentRecordProps> {
+  const { id, indent } = action.payload;
+  if (!state.hasIn(["notebook", "cellMap", id])) {
+    return state;
+  }
+  return state.updateIn(
+    ["notebook", "cellMap", id, "source"],
+    (source: string) => `${source}\n${indent}`
+  );
+}
+
 function toggleCellOutputVisibility(
   state: NotebookModel,
   action: actionTypes.ToggleCellOutputVisibility
@@ -744,7 +765,7 @@ function copyCell(
   if (!cell) {
     return state;
   }
-  return state.set("copied", cell);
+  return state.set("copied", cell).set("copiedCells", List());
 }
 
 function cutCell(
@@ -765,6 +786,7 @@ function cutCell(
   // FIXME: If the cell that was cut was the focused cell, focus the cell below
   return state
     .set("copied", cell)
+    .set("copiedCells", List())
     .update("notebook", (notebook: ImmutableNotebook) =>
       deleteCell(notebook, id)
     );
@@ -772,10 +794,27 @@ function cutCell(
 
 function pasteCell(state: NotebookModel): RecordOf<DocumentRecordProps> {
   const copiedCell = state.get("copied");
+  const copiedCells = state.get("copiedCells", List<ImmutableCell>());
 
   const pasteAfter = state.cellFocused;
 
-  if (!copiedCell || !pasteAfter) {
+  if (!pasteAfter) {
+    return state;
+  }
+
+  // Cells copied together are pasted together, keeping their order
+  if (!copiedCells.isEmpty()) {
+    return state.update("notebook", (notebook: ImmutableNotebook) => {
+      const index = notebook.cellOrder.indexOf(pasteAfter) + 1;
+      return copiedCells.reduce(
+        (nb: ImmutableNotebook, cell: ImmutableCell, offset: number) =>
+          insertCellAt(nb, cell, uuid(), index + offset),
+        notebook
+      );
+    });
+  }
+
+  if (!copiedCell) {
     return state;
   }
 
@@ -898,6 +937,476 @@ function interruptKernelSuccessful(
   );
 }
 
+/**
+ * Cells taken out of the execution queue go back to not being run, the
+ * cancelled cell or all of the queued ones.
+ */
+function cancelQueuedCells(
+  state: NotebookModel,
+  action: actionTypes.ExecuteCanceled | actionTypes.DequeueExecution
+): RecordOf<DocumentRecordProps> {
+  const { id } = action.payload;
+  return state.updateIn(["transient", "cellMap"], (cells = Map()) =>
+    cells.map((cell: Map<string, string>, cellId: CellId) =>
+      cell.get("status") === "queued" && (id === "all" || id === cellId)
+        ? cell.set("status", "")
+        : cell
+    )
+  );
+}
+
+function setContinueOnError(
+  state: NotebookModel,
+  action: actionTypes.SetContinueOnError
+): RecordOf<DocumentRecordProps> {
+  return state.set("continueOnError", action.payload.continueOnError);
+}
+
+function setReactiveMode(
+  state: NotebookModel,
+  action: actionTypes.SetReactiveMode
+): RecordOf<DocumentRecordProps> {
+  if (action.payload.reactive) {
+    return state.set("reactive", true);
+  }
+  // The analysis of the cells goes out of date as soon as it isn't kept up
+  return state
+    .set("reactive", false)
+    .set("dependencies", Map())
+    .set("staleCells", Set());
+}
+
+function updateCellDependencies(
+  state: NotebookModel,
+  action: actionTypes.UpdateCellDependencies
+): RecordOf<DocumentRecordProps> {
+  return state.set(
+    "dependencies",
+    state.dependencies.merge(action.payload.dependencies)
+  );
+}
+
+function markCellsStale(
+  state: NotebookModel,
+  action: actionTypes.MarkCellsStale
+): RecordOf<DocumentRecordProps> {
+  return state.set("staleCells", state.staleCells.union(action.payload.ids));
+}
+
+/**
+ * A cell that ran again is up to date, a cell that failed stays stale.
+ */
+function executeSuccessful(
+  state: NotebookModel,
+  action: actionTypes.ExecuteSuccessful
+): RecordOf<DocumentRecordProps> {
+  return state.set("staleCells", state.staleCells.delete(action.payload.id));
+}
+
+/**
+ * The ids of existing cells, in the order they appear in the notebook rather
+ * than the order they were selected in.
+ */
+function inNotebookOrder(state: NotebookModel, ids: CellId[]): List<CellId> {
+  const wanted = Set(ids);
+  return state.notebook.cellOrder.filter((id: CellId) => wanted.has(id));
+}
+
+/**
+ * Keeps the focus on a remaining cell, preferring the one right after the
+ * cells that were removed.
+ */
+function refocusAfterRemoving(
+  state: NotebookModel,
+  removed: List<CellId>
+): RecordOf<DocumentRecordProps> {
+  const { cellFocused } = state;
+  if (!cellFocused || !removed.includes(cellFocused)) {
+    return state;
+  }
+  const cellOrder = state.notebook.cellOrder;
+  const lastIndex = cellOrder.indexOf(removed.last());
+  const next =
+    cellOrder.skip(lastIndex + 1).find((id: CellId) => !removed.includes(id)) ||
+    cellOrder
+      .take(lastIndex)
+      .findLast((id: CellId) => !removed.includes(id)) ||
+    null;
+  return state.set("cellFocused", next);
+}
+
+function removeCells(
+  state: NotebookModel,
+  ids: List<CellId>
+): RecordOf<DocumentRecordProps> {
+  return ids.reduce(
+    (nextState: NotebookModel, id: CellId) =>
+      cleanCellTransient(
+        nextState.update("notebook", (notebook: ImmutableNotebook) =>
+          deleteCell(notebook, id)
+        ),
+        id
+      ),
+    refocusAfterRemoving(state, ids)
+  );
+}
+
+function deleteCells(
+  state: NotebookModel,
+  action: actionTypes.DeleteCells
+): RecordOf<DocumentRecordProps> {
+  return removeCells(state, inNotebookOrder(state, action.payload.ids));
+}
+
+function copyCells(
+  state: NotebookModel,
+  action: actionTypes.CopyCells
+): RecordOf<DocumentRecordProps> {
+  const ids = inNotebookOrder(state, action.payload.ids);
+  if (ids.isEmpty()) {
+    return state;
+  }
+  return state
+    .set("copied", null)
+    .set(
+      "copiedCells",
+      ids.map((id: CellId) => state.notebook.cellMap.get(id) as ImmutableCell)
+    );
+}
+
+function cutCells(
+  state: NotebookModel,
+  action: actionTypes.CutCells
+): RecordOf<DocumentRecordProps> {
+  const ids = inNotebookOrder(state, action.payload.ids);
+  if (ids.isEmpty()) {
+    return state;
+  }
+  return removeCells(
+    copyCells(state, actionTypes.copyCells(action.payload)),
+    ids
+  );
+}
+
+/**
+ * Moves the cells as one block past the nearest cell above or below them
+ * that is not being moved. Cells that were spread out end up next to each
+ * other.
+ */
+function moveCells(
+  state: NotebookModel,
+  action: actionTypes.MoveCells
+): RecordOf<DocumentRecordProps> {
+  const ids = inNotebookOrder(state, action.payload.ids);
+  if (ids.isEmpty()) {
+    return state;
+  }
+
+  return state.updateIn(
+    ["notebook", "cellOrder"],
+    (cellOrder: List<CellId>) => {
+      const rest = cellOrder.filterNot((id: CellId) => ids.includes(id));
+      let index: number;
+      if (action.payload.above) {
+        const destinationId = cellOrder
+          .take(cellOrder.indexOf(ids.first()))
+          .last<CellId | null>(null);
+        if (!destinationId) {
+          return cellOrder;
+        }
+        index = rest.indexOf(destinationId);
+      } else {
+        const destinationId = cellOrder
+          .skip(cellOrder.indexOf(ids.last()) + 1)
+          .find((id: CellId) => !ids.includes(id));
+        if (!destinationId) {
+          return cellOrder;
+        }
+        index = rest.indexOf(destinationId) + 1;
+      }
+      return rest.splice(index, 0, ...ids.toArray());
+    }
+  );
+}
+
+function changeCellsType(
+  state: NotebookModel,
+  action: actionTypes.ChangeCellsType
+): RecordOf<DocumentRecordProps> {
+  const { contentRef, to } = action.payload;
+  return inNotebookOrder(state, action.payload.ids).reduce(
+    (nextState: NotebookModel, id: CellId) =>
+      changeCellType(
+        nextState,
+        actionTypes.changeCellType({ id, contentRef, to })
+      ),
+    state
+  );
+}
+
+/**
+ * Joins the cells into the first of them, which keeps its type. The outputs
+ * of a merged code cell no longer match its source, so they are cleared.
+ */
+function mergeCells(
+  state: NotebookModel,
+  action: actionTypes.MergeCells
+): RecordOf<DocumentRecordProps> {
+  const ids = inNotebookOrder(state, action.payload.ids);
+  if (ids.size < 2) {
+    return state;
+  }
+
+  const [first, ...others] = ids.toArray();
+  const source = ids
+    .map((id: CellId) => state.getIn(["notebook", "cellMap", id, "source"]))
+    .join("\n\n");
+
+  const merged = clearOutputs(
+    state.setIn(["notebook", "cellMap", first, "source"], source),
+    actionTypes.clearOutputs({ id: first, contentRef: action.payload.contentRef })
+  );
+  return removeCells(merged, List(others)).set("cellFocused", first);
+}
+
+/**
+ * Hides the input or outputs of all the cells, unless they are all hidden
+ * already, in which case they are all shown again.
+ */
+function toggleCellsVisibility(
+  state: NotebookModel,
+  ids: CellId[],
+  key: "source_hidden" | "outputs_hidden"
+): RecordOf<DocumentRecordProps> {
+  const cells = inNotebookOrder(state, ids);
+  const path = (id: CellId) => ["notebook", "cellMap", id, "metadata", "jupyter", key];
+  const allHidden = cells.every((id: CellId) => !!state.getIn(path(id)));
+  return cells.reduce(
+    (nextState: NotebookModel, id: CellId) =>
+      nextState.setIn(path(id), !allHidden),
+    state
+  );
+}
+
+function clearCellsOutputs(
+  state: NotebookModel,
+  action: actionTypes.ClearCellsOutputs
+): RecordOf<DocumentRecordProps> {
+  const { contentRef } = action.payload;
+  return inNotebookOrder(state, action.payload.ids).reduce(
+    (nextState: NotebookModel, id: CellId) =>
+      clearOutputs(nextState, actionTypes.clearOutputs({ id, contentRef })),
+    state
+  );
+}
+
+function injectParameters(
+  state: NotebookModel,
+  action: actionTypes.InjectParameters
+): RecordOf<DocumentRecordProps> {
+  return state.update(
+    "notebook",
+    (nb: ImmutableNotebook) =>
+      injectNotebookParameters(nb, action.payload.parameters).notebook
+  );
+}
+
+// Older versions of the notebook are dropped once there are this many to undo
+const MAX_UNDO_HISTORY = 100;
+
+/**
+ * The group an undoable action belongs to. Edits in the same group undo
+ * together, `null` edits always undo on their own and `undefined` means the
+ * action can't be undone, e.g. because it only touches kernel state.
+ */
+function undoGroupOf(action: DocumentAction): string | null | undefined {
+  switch (action.type) {
+    case actionTypes.CREATE_CELL_BELOW:
+    case actionTypes.CREATE_CELL_ABOVE:
+    case actionTypes.CREATE_CELL_APPEND:
+    case actionTypes.MOVE_CELL:
+    case actionTypes.DELETE_CELL:
+    case actionTypes.CUT_CELL:
+    case actionTypes.PASTE_CELL:
+    case actionTypes.CHANGE_CELL_TYPE:
+    case actionTypes.TOGGLE_TAG_IN_CELL:
+    case actionTypes.TOGGLE_CELL_INPUT_VISIBILITY:
+    case actionTypes.TOGGLE_CELL_OUTPUT_VISIBILITY:
+    case actionTypes.UNHIDE_ALL:
+    case actionTypes.OVERWRITE_METADATA_FIELD:
+    case actionTypes.DELETE_METADATA_FIELD:
+    case actionTypes.DELETE_CELLS:
+    case actionTypes.CUT_CELLS:
+    case actionTypes.MOVE_CELLS:
+    case actionTypes.CHANGE_CELLS_TYPE:
+    case actionTypes.MERGE_CELLS:
+    case actionTypes.TOGGLE_CELLS_INPUT_VISIBILITY:
+    case actionTypes.TOGGLE_CELLS_OUTPUT_VISIBILITY:
+    case actionTypes.CLEAR_OUTPUTS:
+    case actionTypes.CLEAR_ALL_OUTPUTS:
+    case actionTypes.CLEAR_CELLS_OUTPUTS:
+    case actionTypes.INJECT_PARAMETERS:
+      return null;
+    case actionTypes.SET_IN_CELL: {
+      const [field, key] = action.payload.path;
+      if (field === "source") {
+        return `source:${action.payload.id}`;
+      }
+      // Execution timings and nteract's transient state are not user edits
+      if (field === "metadata" && key !== "execution" && key !== "nteract") {
+        return null;
+      }
+      return undefined;
+    }
+    case actionTypes.CODE_INCOMPLETE:
+      return `source:${action.payload.id}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * The code cells whose outputs or execution counts an edit changed.
+ */
+function outputCellsChanged(
+  before: ImmutableNotebook,
+  after: ImmutableNotebook
+): Set<CellId> {
+  const cellMap: Map<CellId, ImmutableCell> = after.get("cellMap");
+  return before
+    .get("cellMap")
+    .filter((cell: ImmutableCell, id: CellId) => {
+      const now = cellMap.get(id);
+      return (
+        cell.cell_type === "code" &&
+        !!now &&
+        now.cell_type === "code" &&
+        (cell.outputs !== now.outputs ||
+          cell.execution_count !== now.execution_count)
+      );
+    })
+    .keySeq()
+    .toSet();
+}
+
+/**
+ * The part of a notebook that undo brings back: its cells in order, with
+ * their sources and metadata. Outputs and execution counts come from the
+ * kernel, so they are left out of the history, except for the cells whose
+ * outputs the edit itself changed, like clearing them.
+ */
+function undoVersion(
+  notebook: ImmutableNotebook,
+  outputCells: Set<CellId> = Set()
+): NotebookVersion {
+  return makeNotebookVersion({
+    notebook: notebook.update(
+      "cellMap",
+      (cellMap: Map<CellId, ImmutableCell>) =>
+        cellMap.map((cell: ImmutableCell, id: CellId) =>
+          cell.cell_type === "code" && !outputCells.has(id)
+            ? (cell as ImmutableCodeCell)
+                .set("outputs", List())
+                .set("execution_count", null)
+            : cell
+        )
+    ),
+    outputCells,
+  });
+}
+
+/**
+ * Remembers the notebook from before an edit so it can be undone. Redoing is
+ * no longer possible once something new was edited.
+ */
+export function recordUndo(
+  before: NotebookModel,
+  after: NotebookModel,
+  group: string | null = null
+): RecordOf<DocumentRecordProps> {
+  if (after.get("notebook") === before.get("notebook")) {
+    return after;
+  }
+  if (group !== null && group === before.get("undoGroup")) {
+    return after.set("redoStack", List());
+  }
+  return after
+    .set(
+      "undoStack",
+      before
+        .get("undoStack", List<NotebookVersion>())
+        .push(
+          undoVersion(
+            before.get("notebook"),
+            outputCellsChanged(before.get("notebook"), after.get("notebook"))
+          )
+        )
+        .takeLast(MAX_UNDO_HISTORY)
+    )
+    .set("redoStack", List())
+    .set("undoGroup", group);
+}
+
+function restoreVersion(
+  state: NotebookModel,
+  version: NotebookVersion
+): RecordOf<DocumentRecordProps> {
+  const current = state.notebook.cellMap;
+  const notebook = version.notebook.update(
+    "cellMap",
+    (cellMap: Map<CellId, ImmutableCell>) =>
+      cellMap.map((cell: ImmutableCell, id: CellId) => {
+        const now = current.get(id);
+        // Keep what the kernel output since, unless the edit was to outputs
+        return cell.cell_type === "code" &&
+          !version.outputCells.has(id) &&
+          now &&
+          now.cell_type === "code"
+          ? (cell as ImmutableCodeCell)
+              .set("outputs", now.outputs)
+              .set("execution_count", now.execution_count)
+          : cell;
+      })
+  );
+  const exists = (id?: CellId | null) => !!id && notebook.cellMap.has(id);
+  return state
+    .set("notebook", notebook)
+    .set(
+      "cellFocused",
+      exists(state.cellFocused)
+        ? state.cellFocused
+        : notebook.cellOrder.first<CellId | null>(null)
+    )
+    .set("editorFocused", exists(state.editorFocused) ? state.editorFocused : null)
+    .set("undoGroup", null);
+}
+
+function undo(state: NotebookModel): RecordOf<DocumentRecordProps> {
+  const previous = state.undoStack.last<NotebookVersion | null>(null);
+  if (!previous) {
+    return state;
+  }
+  return restoreVersion(state, previous)
+    .set("undoStack", state.undoStack.pop())
+    .set(
+      "redoStack",
+      state.redoStack.push(undoVersion(state.notebook, previous.outputCells))
+    );
+}
+
+function redo(state: NotebookModel): RecordOf<DocumentRecordProps> {
+  const next = state.redoStack.last<NotebookVersion | null>(null);
+  if (!next) {
+    return state;
+  }
+  return restoreVersion(state, next)
+    .set(
+      "undoStack",
+      state.undoStack.push(undoVersion(state.notebook, next.outputCells))
+    )
+    .set("redoStack", state.redoStack.pop());
+}
+
 type DocumentAction =
   | actionTypes.ToggleTagInCell
   | actionTypes.FocusPreviousCellEditor
@@ -937,7 +1446,27 @@ type DocumentAction =
   | actionTypes.SetInCell<any>
   | actionTypes.UnhideAll
   | actionTypes.PromptInputRequest
-  | actionTypes.InterruptKernelSuccessful;
+  | actionTypes.InterruptKernelSuccessful
+  | actionTypes.Undo
+  | actionTypes.Redo
+  | actionTypes.DeleteCells
+  | actionTypes.CutCells
+  | actionTypes.CopyCells
+  | actionTypes.MoveCells
+  | actionTypes.ChangeCellsType
+  | actionTypes.MergeCells
+  | actionTypes.ToggleCellsInputVisibility
+  | actionTypes.ToggleCellsOutputVisibility
+  | actionTypes.ClearCellsOutputs
+  | actionTypes.CodeIncomplete
+  | actionTypes.InjectParameters
+  | actionTypes.ExecuteCanceled
+  | actionTypes.DequeueExecution
+  | actionTypes.SetContinueOnError
+  | actionTypes.SetReactiveMode
+  | actionTypes.UpdateCellDependencies
+  | actionTypes.MarkCellsStale
+  | actionTypes.ExecuteSuccessful;
 
 const defaultDocument: NotebookModel = makeDocumentRecord({
   notebook: emptyNotebook,
@@ -946,6 +1475,28 @@ const defaultDocument: NotebookModel = makeDocumentRecord({
 export function notebook(
   state: NotebookModel = defaultDocument,
   action: DocumentAction
+): RecordOf<DocumentRecordProps> {
+  const group = undoGroupOf(action);
+  if (group === undefined) {
+    return reduceDocument(state, action);
+  }
+
+  let before = state;
+  if (action.type === actionTypes.DELETE_CELL) {
+    // Undoing brings the cell back rather than its pending deletion
+    const id = action.payload.id || state.cellFocused;
+    if (id && state.hasIn(["notebook", "cellMap", id])) {
+      before = state.update("notebook", (nb: ImmutableNotebook) =>
+        markCellNotDeleting(nb, id)
+      );
+    }
+  }
+  return recordUndo(before, reduceDocument(state, action), group);
+}
+
+function reduceDocument(
+  state: NotebookModel,
+  action: DocumentAction
 ): RecordOf<DocumentRecordProps> {
   switch (action.type) {
     case actionTypes.TOGGLE_TAG_IN_CELL:
@@ -1023,6 +1574,45 @@ export function notebook(
       return promptInputRequest(state, action);
     case actionTypes.INTERRUPT_KERNEL_SUCCESSFUL:
       return interruptKernelSuccessful(state, action);
+    case actionTypes.UNDO:
+      return undo(state);
+    case actionTypes.REDO:
+      return redo(state);
+    case actionTypes.DELETE_CELLS:
+      return deleteCells(state, action);
+    case actionTypes.CUT_CELLS:
+      return cutCells(state, action);
+    case actionTypes.COPY_CELLS:
+      return copyCells(state, action);
+    case actionTypes.MOVE_CELLS:
+      return moveCells(state, action);
+    case actionTypes.CHANGE_CELLS_TYPE:
+      return changeCellsType(state, action);
+    case actionTypes.MERGE_CELLS:
+      return mergeCells(state, action);
+    case actionTypes.TOGGLE_CELLS_INPUT_VISIBILITY:
+      return toggleCellsVisibility(state, action.payload.ids, "source_hidden");
+    case actionTypes.TOGGLE_CELLS_OUTPUT_VISIBILITY:
+      return toggleCellsVisibility(state, action.payload.ids, "outputs_hidden");
+    case actionTypes.CLEAR_CELLS_OUTPUTS:
+      return clearCellsOutputs(state, action);
+    case actionTypes.CODE_INCOMPLETE:
+      return codeIncomplete(state, action);
+    case actionTypes.INJECT_PARAMETERS:
+      return injectParameters(state, action);
+    case actionTypes.EXECUTE_CANCELED:
+    case actionTypes.DEQUEUE_EXECUTION:
+      return cancelQueuedCells(state, action);
+    case actionTypes.SET_CONTINUE_ON_ERROR:
+      return setContinueOnError(state, action);
+    case actionTypes.SET_REACTIVE_MODE:
+      return setReactiveMode(state, action);
+    case actionTypes.UPDATE_CELL_DEPENDENCIES:
+      return updateCellDependencies(state, action);
+    case actionTypes.MARK_CELLS_STALE:
+      return markCellsStale(state, action);
+    case actionTypes.EXECUTE_SUCCESSFUL:
+      return executeSuccessful(state, action);
     default:
       return state;
   }
@@ -0,0 +1,147 @@
+import * as actions from "@nteract/actions";
+import { CellId } from "@nteract/commutable";
+import {
+  DebugSessionRecord,
+  KernelRef,
+  makeDebuggersRecord,
+  makeDebugSessionRecord
+} from "@nteract/types";
+import { List, Map, Set } from "immutable";
+import { Action, Reducer } from "redux";
+import { combineReducers } from "redux-immutable";
+
+export const breakpoints = (
+  state = Map<CellId, Set<number>>(),
+  action: Action
+): Map<CellId, Set<number>> => {
+  switch (action.type) {
+    case actions.TOGGLE_BREAKPOINT: {
+      const { id, line } = (action as actions.ToggleBreakpoint).payload;
+      const lines = state.get(id, Set<number>());
+      const toggled = lines.has(line) ? lines.delete(line) : lines.add(line);
+      return toggled.isEmpty() ? state.delete(id) : state.set(id, toggled);
+    }
+    default:
+      return state;
+  }
+};
+
+type DebugSessions = Map<KernelRef, DebugSessionRecord>;
+
+/**
+ * Updates a debug session, unless it has ended in the meantime.
+ */
+function updateSession(
+  state: DebugSessions,
+  kernelRef: KernelRef,
+  updater: (session: DebugSessionRecord) => DebugSessionRecord
+): DebugSessions {
+  const session = state.get(kernelRef);
+  return session ? state.set(kernelRef, updater(session)) : state;
+}
+
+/**
+ * Once the kernel moves on, the call stack it was paused on is gone.
+ */
+const resume = (session: DebugSessionRecord) =>
+  session.merge({
+    status: "running",
+    stoppedThreadId: null,
+    stackFrames: List(),
+    frameId: null,
+    scopes: List()
+  });
+
+export const byRef = (
+  state: DebugSessions = Map(),
+  action: Action
+): DebugSessions => {
+  switch (action.type) {
+    case actions.START_DEBUGGING: {
+      const { kernelRef } = (action as actions.StartDebugging).payload;
+      return state.set(kernelRef, makeDebugSessionRecord());
+    }
+    case actions.START_DEBUGGING_FULFILLED: {
+      const {
+        kernelRef,
+        sourcePaths
+      } = (action as actions.StartDebuggingFulfilled).payload;
+      return updateSession(state, kernelRef, session =>
+        session.merge({
+          status: "running",
+          sourcePaths: Map(sourcePaths)
+        })
+      );
+    }
+    case actions.SET_BREAKPOINTS_FULFILLED: {
+      const {
+        kernelRef,
+        id,
+        path
+      } = (action as actions.SetBreakpointsFulfilled).payload;
+      return updateSession(state, kernelRef, session =>
+        session.setIn(["sourcePaths", id], path)
+      );
+    }
+    case actions.DEBUG_PAUSED: {
+      const {
+        kernelRef,
+        threadId,
+        stackFrames,
+        frameId,
+        scopes
+      } = (action as actions.DebugPaused).payload;
+      return updateSession(state, kernelRef, session =>
+        session.merge({
+          status: "paused",
+          stoppedThreadId: threadId,
+          stackFrames: List(stackFrames),
+          frameId,
+          scopes: List(scopes)
+        })
+      );
+    }
+    case actions.DEBUG_STEP:
+    case actions.DEBUG_CONTINUED: {
+      const { kernelRef } = (action as
+        | actions.DebugStep
+        | actions.DebugContinued).payload;
+      return updateSession(state, kernelRef, resume);
+    }
+    case actions.DEBUG_FRAME_FETCHED: {
+      const {
+        kernelRef,
+        frameId,
+        scopes
+      } = (action as actions.DebugFrameFetched).payload;
+      return updateSession(state, kernelRef, session =>
+        session.merge({ frameId, scopes: List(scopes) })
+      );
+    }
+    case actions.START_DEBUGGING_FAILED:
+    case actions.STOP_DEBUGGING_FULFILLED: {
+      const { kernelRef } = (action as
+        | actions.StartDebuggingFailed
+        | actions.StopDebuggingFulfilled).payload;
+      return state.delete(kernelRef);
+    }
+    case actions.KILL_KERNEL_SUCCESSFUL:
+    case actions.RESTART_KERNEL: {
+      // The debugger lives in the kernel process
+      const { kernelRef } = (action as
+        | actions.KillKernelSuccessful
+        | actions.RestartKernel).payload;
+      return kernelRef ? state.delete(kernelRef) : state;
+    }
+    default:
+      return state;
+  }
+};
+
+export const debuggers: Reducer<
+  {
+    breakpoints: Map<CellId, Set<number>>;
+    byRef: DebugSessions;
+  },
+  Action<any>
+> = combineReducers({ breakpoints, byRef }, makeDebuggersRecord as any);
@@ -0,0 +1,182 @@
+import * as actions from "@nteract/actions";
+import {
+  KernelExecutionQueueRecord,
+  KernelRef,
+  makeExecutionQueueRecord,
+  makeKernelExecutionQueueRecord,
+  QueuedExecution
+} from "@nteract/types";
+import { Map } from "immutable";
+import { Action, Reducer } from "redux";
+import { combineReducers } from "redux-immutable";
+
+type QueuesByKernel = Map<KernelRef, KernelExecutionQueueRecord>;
+
+const EXECUTE_CANCEL_ALL = "all";
+
+const isCell = (contentRef: string, id: string) => (
+  execution: QueuedExecution | null
+) =>
+  execution !== null &&
+  execution.contentRef === contentRef &&
+  execution.id === id;
+
+const isContent = (contentRef: string) => (
+  execution: QueuedExecution | null
+) => execution !== null && execution.contentRef === contentRef;
+
+/**
+ * Drops the executions matching the predicate from every kernel's queue,
+ * including the running ones unless `queuedOnly` is set.
+ */
+function dropExecutions(
+  state: QueuesByKernel,
+  predicate: (execution: QueuedExecution | null) => boolean,
+  queuedOnly: boolean = false
+): QueuesByKernel {
+  return state.map(record =>
+    record.merge({
+      queued: record.queued.filterNot(predicate),
+      running:
+        !queuedOnly && predicate(record.running) ? null : record.running
+    })
+  );
+}
+
+export const byKernelRef = (
+  state: QueuesByKernel = Map(),
+  action: Action
+): QueuesByKernel => {
+  switch (action.type) {
+    case actions.ENQUEUE_EXECUTION: {
+      const {
+        kernelRef,
+        contentRef,
+        id
+      } = (action as actions.EnqueueExecution).payload;
+      const sameCell = isCell(contentRef, id);
+      const record = state.get(kernelRef, makeKernelExecutionQueueRecord());
+      return state.set(
+        kernelRef,
+        record.merge({
+          // Running a cell again stops listening to its previous run, which
+          // then never reports going idle
+          running: sameCell(record.running) ? null : record.running,
+          queued: record.queued.some(sameCell)
+            ? record.queued
+            : record.queued.push({ contentRef, id })
+        })
+      );
+    }
+    case actions.EXECUTION_STARTED: {
+      const {
+        kernelRef,
+        contentRef,
+        id
+      } = (action as actions.ExecutionStarted).payload;
+      const record = state.get(kernelRef, makeKernelExecutionQueueRecord());
+      return state.set(
+        kernelRef,
+        record.merge({
+          running: { contentRef, id },
+          queued: record.queued.filterNot(isCell(contentRef, id))
+        })
+      );
+    }
+    case actions.DEQUEUE_EXECUTION: {
+      const {
+        kernelRef,
+        contentRef,
+        id
+      } = (action as actions.DequeueExecution).payload;
+      const record = state.get(kernelRef);
+      return record
+        ? state.set(
+            kernelRef,
+            record.update("queued", queued =>
+              queued.filterNot(isCell(contentRef, id))
+            )
+          )
+        : state;
+    }
+    case actions.MOVE_QUEUED_EXECUTION: {
+      const {
+        kernelRef,
+        contentRef,
+        id,
+        index
+      } = (action as actions.MoveQueuedExecution).payload;
+      const record = state.get(kernelRef);
+      const from = record ? record.queued.findIndex(isCell(contentRef, id)) : -1;
+      if (!record || from === -1) {
+        return state;
+      }
+      const execution = record.queued.get(from) as QueuedExecution;
+      const others = record.queued.delete(from);
+      return state.set(
+        kernelRef,
+        record.set(
+          "queued",
+          others.insert(Math.max(0, Math.min(index, others.size)), execution)
+        )
+      );
+    }
+    case actions.UPDATE_CELL_STATUS: {
+      // The kernel is done with the running cell once it goes idle
+      const {
+        contentRef,
+        id,
+        status
+      } = (action as actions.UpdateCellStatus).payload;
+      if (status !== "idle") {
+        return state;
+      }
+      const finished = isCell(contentRef, id);
+      return state.map(record =>
+        finished(record.running) ? record.set("running", null) : record
+      );
+    }
+    case actions.EXECUTE_CANCELED: {
+      const { contentRef, id } = (action as actions.ExecuteCanceled).payload;
+      // Cancelling all of a notebook's cells leaves the running one running
+      return id === EXECUTE_CANCEL_ALL
+        ? dropExecutions(state, isContent(contentRef), true)
+        : dropExecutions(state, isCell(contentRef, id));
+    }
+    case actions.EXECUTE_FAILED: {
+      const { contentRef, id } = (action as actions.ExecuteFailed).payload;
+      return contentRef && id
+        ? dropExecutions(state, isCell(contentRef, id))
+        : state;
+    }
+    case actions.DELETE_CELL: {
+      const { contentRef, id } = (action as actions.DeleteCell).payload;
+      return id ? dropExecutions(state, isCell(contentRef, id)) : state;
+    }
+    case actions.LAUNCH_KERNEL:
+    case actions.LAUNCH_KERNEL_BY_NAME:
+    case actions.INTERRUPT_KERNEL:
+    case actions.RESTART_KERNEL:
+    case actions.KILL_KERNEL: {
+      // These stop all of the notebook's executions
+      const { contentRef } = (action as
+        | actions.LaunchKernelAction
+        | actions.InterruptKernel
+        | actions.KillKernelAction).payload;
+      return contentRef ? dropExecutions(state, isContent(contentRef)) : state;
+    }
+    case actions.KILL_KERNEL_SUCCESSFUL: {
+      const { kernelRef } = (action as actions.KillKernelSuccessful).payload;
+      return kernelRef ? state.delete(kernelRef) : state;
+    }
+    default:
+      return state;
+  }
+};
+
+export const executionQueue: Reducer<
+  {
+    byKernelRef: QueuesByKernel;
+  },
+  Action<any>
+> = combineReducers({ byKernelRef }, makeExecutionQueueRecord as any);
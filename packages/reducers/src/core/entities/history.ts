@@ -0,0 +1,76 @@
+import * as actions from "@nteract/actions";
+import {
+  KernelHistoryRecord,
+  KernelRef,
+  makeHistoryRecord,
+  makeKernelHistoryRecord
+} from "@nteract/types";
+import { List, Map } from "immutable";
+import { Action, Reducer } from "redux";
+import { combineReducers } from "redux-immutable";
+
+type HistoryByKernel = Map<KernelRef, KernelHistoryRecord>;
+
+export const byKernelRef = (
+  state: HistoryByKernel = Map(),
+  action: Action
+): HistoryByKernel => {
+  switch (action.type) {
+    case actions.FETCH_KERNEL_HISTORY: {
+      // A new query starts over from its first page
+      const { kernelRef, query } = (action as actions.FetchKernelHistory).payload;
+      return state.set(kernelRef, makeKernelHistoryRecord({ query }));
+    }
+    case actions.FETCH_MORE_KERNEL_HISTORY: {
+      const { kernelRef } = (action as actions.FetchMoreKernelHistory).payload;
+      const record = state.get(kernelRef);
+      return record && record.hasMore
+        ? state.set(kernelRef, record.set("status", "fetching"))
+        : state;
+    }
+    case actions.FETCH_KERNEL_HISTORY_FULFILLED: {
+      const {
+        kernelRef,
+        inputs,
+        hasMore
+      } = (action as actions.FetchKernelHistoryFulfilled).payload;
+      const record = state.get(kernelRef, makeKernelHistoryRecord());
+      return state.set(
+        kernelRef,
+        record.merge({
+          status: "fetched",
+          inputs: record.inputs.concat(List(inputs)),
+          hasMore,
+          error: null
+        })
+      );
+    }
+    case actions.FETCH_KERNEL_HISTORY_FAILED: {
+      const {
+        kernelRef,
+        error
+      } = (action as actions.FetchKernelHistoryFailed).payload;
+      return state.set(
+        kernelRef,
+        state.get(kernelRef, makeKernelHistoryRecord()).merge({
+          status: "error",
+          hasMore: false,
+          error: error.message
+        })
+      );
+    }
+    case actions.KILL_KERNEL_SUCCESSFUL: {
+      const { kernelRef } = (action as actions.KillKernelSuccessful).payload;
+      return kernelRef ? state.delete(kernelRef) : state;
+    }
+    default:
+      return state;
+  }
+};
+
+export const history: Reducer<
+  {
+    byKernelRef: HistoryByKernel;
+  },
+  Action<any>
+> = combineReducers({ byKernelRef }, makeHistoryRecord as any);
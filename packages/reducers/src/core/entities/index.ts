@@ -5,27 +5,37 @@ import { combineReducers } from "redux-immutable";
 // Local modules
 import { comms } from "./comms";
 import { contents } from "./contents";
+import { debuggers } from "./debuggers";
+import { executionQueue } from "./execution-queue";
+import { history } from "./history";
 import { hosts } from "./hosts";
 import { kernels } from "./kernels";
 import { kernelspecs } from "./kernelspecs";
 import { messages } from "./messages";
 import { modals } from "./modals";
 import { sidebar } from "./sidebar";
+import { terminals } from "./terminals";
 import { transforms } from "./transforms";
 import { editors } from "./editors";
+import { variables } from "./variables";
 
 export const entities = combineReducers(
   {
     comms,
     contents,
+    debuggers,
+    executionQueue,
+    history,
     hosts,
     kernels,
     kernelspecs,
     messages,
     modals,
     sidebar,
+    terminals,
     transforms,
-    editors
+    editors,
+    variables
   },
   makeEntitiesRecord as any
 );
@@ -0,0 +1,35 @@
+import * as actions from "@nteract/actions";
+import { makeTerminalsRecord, TerminalsRecord } from "@nteract/types";
+import { List } from "immutable";
+import { Action } from "redux";
+
+export const terminals = (
+  state: TerminalsRecord = makeTerminalsRecord(),
+  action: Action
+): TerminalsRecord => {
+  switch (action.type) {
+    case actions.FETCH_TERMINALS:
+      return state.set("status", "fetching");
+    case actions.FETCH_TERMINALS_FULFILLED: {
+      const { names } = (action as actions.FetchTerminalsFulfilled).payload;
+      return state.merge({ names: List(names), status: "fetched", error: null });
+    }
+    case actions.FETCH_TERMINALS_FAILED: {
+      const error = (action as actions.FetchTerminalsFailed).payload;
+      return state.merge({ status: "error", error });
+    }
+    case actions.TERMINAL_CONNECTED: {
+      // Terminals opened here are running without having to list them again
+      const { name } = (action as actions.TerminalConnected).payload;
+      return state.names.includes(name)
+        ? state
+        : state.update("names", names => names.push(name));
+    }
+    case actions.KILL_TERMINAL_FULFILLED: {
+      const { name } = (action as actions.KillTerminalFulfilled).payload;
+      return state.update("names", names => names.filter(n => n !== name));
+    }
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,122 @@
+import * as actions from "@nteract/actions";
+import {
+  KernelRef,
+  KernelVariablesRecord,
+  makeKernelVariablesRecord,
+  makeVariablesRecord
+} from "@nteract/types";
+import { List, Map } from "immutable";
+import { Action, Reducer } from "redux";
+import { combineReducers } from "redux-immutable";
+
+type VariablesByKernel = Map<KernelRef, KernelVariablesRecord>;
+
+export const byKernelRef = (
+  state: VariablesByKernel = Map(),
+  action: Action
+): VariablesByKernel => {
+  switch (action.type) {
+    case actions.FETCH_KERNEL_VARIABLES: {
+      const { kernelRef } = (action as actions.FetchKernelVariables).payload;
+      // Keep showing the previous variables until the new ones arrive
+      return state.set(
+        kernelRef,
+        state
+          .get(kernelRef, makeKernelVariablesRecord())
+          .set("status", "fetching")
+      );
+    }
+    case actions.FETCH_KERNEL_VARIABLES_FULFILLED: {
+      const {
+        kernelRef,
+        variables
+      } = (action as actions.FetchKernelVariablesFulfilled).payload;
+      const record = state.get(kernelRef, makeKernelVariablesRecord());
+      const stillDefined = variables.some(
+        variable => variable.name === record.inspectedName
+      );
+      return state.set(
+        kernelRef,
+        record.merge({
+          status: "fetched",
+          variables: List(variables),
+          error: null,
+          ...(stillDefined ? {} : { inspectedName: null, inspectedOutput: null })
+        })
+      );
+    }
+    case actions.FETCH_KERNEL_VARIABLES_FAILED: {
+      const {
+        kernelRef,
+        error
+      } = (action as actions.FetchKernelVariablesFailed).payload;
+      return state.set(
+        kernelRef,
+        state.get(kernelRef, makeKernelVariablesRecord()).merge({
+          status: "error",
+          error: error.message
+        })
+      );
+    }
+    case actions.INSPECT_KERNEL_VARIABLE: {
+      const { kernelRef, name } = (action as actions.InspectKernelVariable).payload;
+      return state.set(
+        kernelRef,
+        state.get(kernelRef, makeKernelVariablesRecord()).merge({
+          inspectedName: name,
+          inspectedOutput: null
+        })
+      );
+    }
+    case actions.INSPECT_KERNEL_VARIABLE_FULFILLED: {
+      const {
+        kernelRef,
+        name,
+        output
+      } = (action as actions.InspectKernelVariableFulfilled).payload;
+      const record = state.get(kernelRef);
+      if (!record || record.inspectedName !== name) {
+        return state;
+      }
+      return state.set(kernelRef, record.set("inspectedOutput", output));
+    }
+    case actions.INSPECT_KERNEL_VARIABLE_FAILED: {
+      const {
+        kernelRef,
+        name,
+        error
+      } = (action as actions.InspectKernelVariableFailed).payload;
+      const record = state.get(kernelRef);
+      if (!record || record.inspectedName !== name) {
+        return state;
+      }
+      return state.set(
+        kernelRef,
+        record.merge({ inspectedName: null, error: error.message })
+      );
+    }
+    case actions.RESTART_KERNEL: {
+      // A restarted kernel starts out without variables
+      const { kernelRef } = (action as actions.RestartKernel).payload;
+      return kernelRef && state.has(kernelRef)
+        ? state.set(
+            kernelRef,
+            makeKernelVariablesRecord({ status: "fetched" })
+          )
+        : state;
+    }
+    case actions.KILL_KERNEL_SUCCESSFUL: {
+      const { kernelRef } = (action as actions.KillKernelSuccessful).payload;
+      return kernelRef ? state.delete(kernelRef) : state;
+    }
+    default:
+      return state;
+  }
+};
+
+export const variables: Reducer<
+  {
+    byKernelRef: VariablesByKernel;
+  },
+  Action<any>
+> = combineReducers({ byKernelRef }, makeVariablesRecord as any);
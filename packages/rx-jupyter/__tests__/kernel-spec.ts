@@ -119,4 +119,37 @@ describe("kernels", () => {
       );
     });
   });
+
+  describe("serializeMessage", () => {
+    const message: any = {
+      header: { msg_type: "comm_msg" },
+      content: { comm_id: "0123", data: { method: "update" } }
+    };
+
+    test("sends messages without buffers as JSON", () => {
+      expect(kernels.serializeMessage(message)).toBe(JSON.stringify(message));
+      expect(kernels.deserializeMessage(JSON.stringify(message))).toEqual(
+        message
+      );
+    });
+
+    test("sends the buffers of messages in a binary frame", () => {
+      const frame = kernels.serializeMessage({
+        ...message,
+        buffers: [new Uint8Array([1, 2, 3]), new Uint8Array([4]).buffer]
+      }) as ArrayBuffer;
+      // Typed arrays and ArrayBuffer come from different realms under jsdom
+      expect(Object.prototype.toString.call(frame)).toBe(
+        "[object ArrayBuffer]"
+      );
+
+      const { buffers, ...rest } = kernels.deserializeMessage(frame);
+      expect(rest).toEqual(message);
+      expect(
+        (buffers as DataView[]).map(buffer =>
+          Array.from(new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength))
+        )
+      ).toEqual([[1, 2, 3], [4]]);
+    });
+  });
 });
@@ -49,3 +49,12 @@ describe("formWebSocketURL", () => {
     expect(url).toBe("ws://localhost:8888/terminals/websocket/777");
   });
 });
+
+describe("connect", () => {
+  test("connects to the websocket of the terminal with the token", () => {
+    const terminal = terminals.connect(serverConfig, "777") as any;
+    expect(terminal._config.url).toBe(
+      "ws://localhost:8888/terminals/websocket/777?token=secret-token"
+    );
+  });
+});
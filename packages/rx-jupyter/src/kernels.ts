@@ -129,6 +129,82 @@ export const formWebSocketURL = (
   return url.replace(/^http(s)?/, "ws$1");
 };
 
+/**
+ * Serializes a message to send over the websocket of a kernel. Messages with
+ * binary buffers, like those of widgets, are sent as a binary frame: the
+ * number of parts and their offsets as 32 bit integers, then the JSON of the
+ * message and each of its buffers.
+ *
+ * @param message The message to send
+ *
+ * @returns JSON, or an ArrayBuffer when the message has buffers
+ */
+export const serializeMessage = (
+  message: JupyterMessage
+): string | ArrayBuffer => {
+  const { buffers, ...rest } = message;
+  if (!buffers || buffers.length === 0) {
+    return JSON.stringify(message);
+  }
+
+  const parts = [
+    new TextEncoder().encode(JSON.stringify(rest)),
+    ...buffers.map(buffer =>
+      ArrayBuffer.isView(buffer)
+        ? new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+        : new Uint8Array(buffer)
+    )
+  ];
+  const offsets: number[] = [];
+  let offset = 4 * (parts.length + 1);
+  parts.forEach(part => {
+    offsets.push(offset);
+    offset += part.byteLength;
+  });
+
+  const frame = new Uint8Array(offset);
+  const view = new DataView(frame.buffer);
+  view.setUint32(0, parts.length);
+  offsets.forEach((partOffset, index) => {
+    view.setUint32(4 * (index + 1), partOffset);
+    frame.set(parts[index], partOffset);
+  });
+  return frame.buffer;
+};
+
+/**
+ * Deserializes a message received over the websocket of a kernel, see
+ * `serializeMessage` for the layout of binary frames.
+ *
+ * @param data The data of the websocket message
+ *
+ * @returns The message, with its buffers as DataViews
+ */
+export const deserializeMessage = (
+  data: string | ArrayBuffer
+): JupyterMessage => {
+  if (typeof data === "string") {
+    return JSON.parse(data);
+  }
+
+  const view = new DataView(data);
+  const count = view.getUint32(0);
+  const offsets: number[] = [];
+  for (let index = 1; index <= count; index++) {
+    offsets.push(view.getUint32(4 * index));
+  }
+  offsets.push(data.byteLength);
+
+  const json = new Uint8Array(data, offsets[0], offsets[1] - offsets[0]);
+  const message = JSON.parse(new TextDecoder("utf8").decode(json));
+  message.buffers = offsets
+    .slice(1, -1)
+    .map(
+      (start, index) => new DataView(data, start, offsets[index + 2] - start)
+    );
+  return message;
+};
+
 /**
  * Creates a connection to a kernel with the given kernelID scoped under
  * a particular sessionID.
@@ -147,7 +223,10 @@ export const connect = (
   const wsSubject = webSocket<JupyterMessage>({
     url: formWebSocketURL(serverConfig, kernelID, sessionID),
     protocol: serverConfig.wsProtocol,
-    closeObserver: serverConfig.closeObserver
+    closeObserver: serverConfig.closeObserver,
+    binaryType: "arraybuffer",
+    serializer: serializeMessage,
+    deserializer: (event: MessageEvent) => deserializeMessage(event.data)
   });
 
   // Create a subject that does some of the handling inline for the session
@@ -1,5 +1,6 @@
-import { Observable } from "rxjs";
+import { Observable, Subject } from "rxjs";
 import { ajax, AjaxResponse } from "rxjs/ajax";
+import { webSocket } from "rxjs/webSocket";
 import urljoin from "url-join";
 
 import { ServerConfig } from "@nteract/types";
@@ -88,3 +89,32 @@ export const formWebSocketURL = (
   const url = `${baseURL}/terminals/websocket/${id}`;
   return url.replace(/^http(s)?/, "ws$1");
 };
+
+/**
+ * Messages of a terminal websocket are JSON arrays of their type and
+ * arguments, e.g. ["stdin", "ls\r"], ["stdout", "..."] or
+ * ["set_size", rows, cols].
+ */
+export type TerminalMessage = [string, ...any[]];
+
+/**
+ * Creates a connection to a terminal session.
+ *
+ * @param serverConfig The server configuration
+ * @param id ID of the terminal to connect to
+ *
+ * @returns A websocket Subject that can be subscribed to
+ */
+export const connect = (
+  serverConfig: ServerConfig,
+  id: string
+): Subject<TerminalMessage> => {
+  const url = formWebSocketURL(serverConfig, id);
+  return webSocket<TerminalMessage>({
+    url: serverConfig.token
+      ? `${url}?token=${encodeURIComponent(serverConfig.token)}`
+      : url,
+    protocol: serverConfig.wsProtocol,
+    closeObserver: serverConfig.closeObserver
+  });
+};
@@ -1,5 +1,12 @@
 import Immutable from "immutable";
 
+import {
+  appendCellToNotebook,
+  CellNames,
+  emptyCodeCell,
+  emptyNotebook,
+  insertCellAt
+} from "@nteract/commutable";
 import { fixtureCommutable, mockAppState } from "@nteract/fixtures";
 import * as selectors from "../src";
 
@@ -68,3 +75,80 @@ describe("kernelByContentRef", () => {
     ).toBeDefined();
   });
 });
+
+describe("runProfile", () => {
+  const ran = (source: string, started: string, finished?: string) =>
+    emptyCodeCell.set("source", source).setIn(
+      ["metadata", "execution"],
+      Immutable.Map({
+        "iopub.execute_input": `2020-01-01T00:${started}Z`,
+        ...(finished
+          ? { "shell.execute_reply": `2020-01-01T00:${finished}Z` }
+          : {})
+      })
+    );
+
+  test("times the cells that ran, slowest first", () => {
+    const notebook = [
+      ran("import time", "00:00", "00:01"),
+      emptyCodeCell,
+      ran("time.sleep(5)", "00:01", "00:06"),
+      ran("time.sleep(60)", "00:06")
+    ].reduce(appendCellToNotebook, emptyNotebook);
+    const [, second, third] = notebook.cellOrder.toArray();
+
+    const profile = selectors.notebook.runProfile(
+      makeDocumentRecord({ notebook })
+    );
+    expect(profile.map(run => run.duration)).toEqual([5000, 1000, null]);
+    expect(profile[0].id).toBe(third);
+    expect(profile.some(run => run.id === second)).toBe(false);
+  });
+  test("marks the cells whose upstream cells ran again as stale", () => {
+    const notebook = [
+      ran("x = 1", "10:00", "10:01"),
+      ran("y = x", "01:00", "01:01"),
+      ran("z = y", "11:00", "11:01")
+    ].reduce(appendCellToNotebook, emptyNotebook);
+
+    const profile = selectors.notebook.runProfile(
+      makeDocumentRecord({ notebook })
+    );
+    const [first, second, third] = notebook.cellOrder.toArray();
+    const stale = (id: string) => profile.find(run => run.id === id)!.stale;
+    expect([stale(first), stale(second), stale(third)]).toEqual([
+      false,
+      true,
+      false
+    ]);
+  });
+});
+
+describe("downstreamCells", () => {
+  test("follows the names defined by the cell and its dependents", () => {
+    const cells: Array<[string, CellNames]> = [
+      ["load", { defines: ["df"], uses: [] }],
+      ["clean", { defines: ["rows"], uses: ["df"] }],
+      ["unrelated", { defines: ["other"], uses: [] }],
+      ["plot", { defines: [], uses: ["rows"] }],
+      ["reload", { defines: ["df"], uses: [] }],
+      ["summary", { defines: [], uses: ["df"] }]
+    ];
+    const notebook = cells.reduce(
+      (nb, [id]) => insertCellAt(nb, emptyCodeCell, id, nb.cellOrder.size),
+      emptyNotebook
+    );
+    const model = makeDocumentRecord({
+      notebook,
+      dependencies: Immutable.Map(cells)
+    });
+
+    expect(selectors.notebook.downstreamCells(model, { id: "load" })).toEqual([
+      "clean",
+      "plot"
+    ]);
+    expect(selectors.notebook.downstreamCells(model, { id: "plot" })).toEqual(
+      []
+    );
+  });
+});
@@ -0,0 +1,9 @@
+// All these selectors expect a FileModelRecord as the top level state
+import { FileModelRecord } from "@nteract/types";
+
+/**
+ * Returns true if the file differs from the version saved to disk, and
+ * false otherwise.
+ */
+export const isDirty = (model: FileModelRecord) =>
+  model.text !== model.savedText;
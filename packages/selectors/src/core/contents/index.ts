@@ -1,4 +1,5 @@
-import { AppState, ContentRef, KernelRef } from "@nteract/types";
+import { AppState, CheckpointRecord, ContentRef, KernelRef, RecoveryRecord } from "@nteract/types";
+import { List } from "immutable";
 
 /**
  * Returns the contents, such as notebooks and files, that are currently accessible
@@ -59,9 +60,9 @@ export const notebookModel = (
 
 /**
  * Returns a ref to the kernel associated with a particular type of content.
- * Currently, this only support kernels associated with notebook contents.
- * Returns null if there are no contents or if the contents are not
- * a notebook.
+ * Currently, this only support kernels associated with notebook and console
+ * contents. Returns null if there are no contents or if the contents are
+ * neither.
  *
  * @param   state                       The state of the nteract application
  * @param   { contentRef: ContentRef }  A reference to the ContentRecord to retrieve
@@ -73,7 +74,7 @@ export const kernelRefByContentRef = (
   ownProps: { contentRef: ContentRef }
 ): KernelRef | null | undefined => {
   const c = content(state, ownProps);
-  if (c && c.model && c.model.type === "notebook") {
+  if (c && c.model && (c.model.type === "notebook" || c.model.type === "console")) {
     return c.model.kernelRef;
   }
 
@@ -129,3 +130,61 @@ export const contentRefByFilepath = (
   const byRef = contentByRef(state);
   return byRef.findKey(content => content.filepath === ownProps.filepath);
 };
+
+/**
+ * Returns the ContentRef of the console attached to the kernel of a notebook.
+ *
+ * @param   state       The state of the nteract application
+ * @param   ownProps    An object containing the ContentRef of the notebook
+ *
+ * @returns             The ContentRef of the console, if one was opened
+ */
+export const consoleRefByNotebookRef = (
+  state: AppState,
+  ownProps: { contentRef: ContentRef }
+): ContentRef | undefined =>
+  contentByRef(state).findKey(
+    c => c.type === "console" && c.model.notebookRef === ownProps.contentRef
+  );
+
+const NO_CHECKPOINTS = List<CheckpointRecord>();
+
+/**
+ * Returns the known checkpoints of a notebook, newest first. They have to
+ * be fetched first, see `fetchCheckpoints`.
+ *
+ * @param   state     The state of the nteract application
+ * @param   ownProps  An object containing the ContentRef
+ *
+ * @returns           The checkpoints of the notebook
+ */
+export const checkpoints = (
+  state: AppState,
+  ownProps: { contentRef: ContentRef }
+): List<CheckpointRecord> => {
+  const c = content(state, ownProps);
+  if (!c || c.type !== "notebook") {
+    return NO_CHECKPOINTS;
+  }
+  return c.checkpoints;
+};
+
+/**
+ * Returns unsaved edits of a notebook recovered from a previous session,
+ * or null when there are none to offer.
+ *
+ * @param   state     The state of the nteract application
+ * @param   ownProps  An object containing the ContentRef
+ *
+ * @returns           The recovered notebook and when it was journaled
+ */
+export const recovery = (
+  state: AppState,
+  ownProps: { contentRef: ContentRef }
+): RecoveryRecord | null => {
+  const c = content(state, ownProps);
+  if (!c || c.type !== "notebook") {
+    return null;
+  }
+  return c.recovery;
+};
@@ -4,7 +4,7 @@ import * as Immutable from "immutable";
 import { CellId, ImmutableCell } from "@nteract/commutable";
 
 // All these selectors expect a NotebookModel as the top level state
-import { NotebookModel } from "@nteract/types";
+import { NotebookModel, WIDGET_STATE_MIMETYPE } from "@nteract/types";
 import { createSelector } from "reselect";
 
 /**
@@ -167,6 +167,16 @@ export const codeCellIds = (model: NotebookModel) =>
 export const metadata = (model: NotebookModel) =>
   model.notebook.get("metadata", Immutable.Map());
 
+/**
+ * Returns the widget models saved in the metadata of the notebook, keyed by
+ * model id. Returns an empty Immutable.Map if no widget state was saved.
+ */
+export const savedWidgetModels = createSelector(
+  metadata,
+  (metadata): Immutable.Map<string, Immutable.Map<string, any>> =>
+    metadata.getIn(["widgets", WIDGET_STATE_MIMETYPE, "state"], Immutable.Map())
+);
+
 /**
  * Returns the GitHub username the user has authenticated through.
  */
@@ -185,6 +195,174 @@ export const gistId = createSelector(metadata, metadata =>
 export const notebook = (model: NotebookModel) => model.notebook;
 export const savedNotebook = (model: NotebookModel) => model.savedNotebook;
 
+/**
+ * Returns the parameters assigned in the cell tagged `parameters`, or null
+ * if the notebook has no such cell.
+ */
+export const parameters = createSelector(
+  notebook,
+  (notebook): commutable.NotebookParameter[] | null => {
+    const id = commutable.parametersCellId(notebook);
+    return id
+      ? commutable.parseParameters(notebook.cellMap.getIn([id, "source"], ""))
+      : null;
+  }
+);
+
+/**
+ * Returns true if the cells queued to run keep running after one of them
+ * raised an error, instead of being cancelled.
+ */
+export const continueOnError = (model: NotebookModel) => model.continueOnError;
+
+/**
+ * When a code cell last started and finished running.
+ */
+export interface CellExecutionTiming {
+  started: Date;
+  /**
+   * Null while the cell is running, or if it never replied
+   */
+  finished: Date | null;
+  /**
+   * Milliseconds the cell ran for, once it finished
+   */
+  duration: number | null;
+}
+
+/**
+ * The most recent of the times recorded in a cell's `metadata.execution`.
+ */
+const latest = (cell: ImmutableCell, ...names: string[]): Date | null =>
+  names.reduce((latest: Date | null, name) => {
+    const value = cell.getIn(["metadata", "execution", name]);
+    const date = typeof value === "string" ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) && (!latest || date > latest)
+      ? date
+      : latest;
+  }, null);
+
+/**
+ * Returns when a code cell last ran, from the times recorded in its
+ * `metadata.execution`, or null if it never ran.
+ */
+export const executionTiming = (
+  cell: ImmutableCell
+): CellExecutionTiming | null => {
+  const started = latest(cell, "iopub.status.busy", "iopub.execute_input");
+  if (!started) {
+    return null;
+  }
+  const replied = latest(cell, "shell.execute_reply", "iopub.status.idle");
+  // A reply older than the start is from an earlier run
+  const finished = replied && replied >= started ? replied : null;
+  return {
+    started,
+    finished,
+    duration: finished ? finished.getTime() - started.getTime() : null
+  };
+};
+
+/**
+ * How long a code cell took the last time it ran.
+ */
+export interface CellRunProfile {
+  id: CellId;
+  executionCount: number | null;
+  started: Date;
+  duration: number | null;
+  /**
+   * A cell above it ran again since, so its outputs may be out of date
+   */
+  stale: boolean;
+}
+
+/**
+ * Returns the code cells that ran, slowest first, with the ones whose
+ * upstream cells were run again after them marked as stale.
+ */
+export const runProfile = createSelector(
+  notebook,
+  (notebook): CellRunProfile[] => {
+    const profile: CellRunProfile[] = [];
+    let upstreamStarted = 0;
+    notebook.cellOrder.forEach((id: CellId) => {
+      const cell = notebook.cellMap.get(id);
+      const timing =
+        cell && cell.cell_type === "code" ? executionTiming(cell) : null;
+      if (!cell || !timing) {
+        return;
+      }
+      const ranUntil = (timing.finished || timing.started).getTime();
+      profile.push({
+        id,
+        executionCount: cell.get("execution_count", null),
+        started: timing.started,
+        duration: timing.duration,
+        stale: upstreamStarted > ranUntil
+      });
+      upstreamStarted = Math.max(upstreamStarted, timing.started.getTime());
+    });
+    // Cells still running go last
+    const runtime = (run: CellRunProfile) =>
+      run.duration === null ? -1 : run.duration;
+    return profile.sort((a, b) => runtime(b) - runtime(a));
+  }
+);
+
+/**
+ * Returns true if running a cell re-runs the cells that use the names it
+ * defines.
+ */
+export const isReactive = (model: NotebookModel) => model.reactive;
+
+/**
+ * The names a code cell defined and used when it last ran in reactive mode.
+ */
+export const cellDependencies = (
+  model: NotebookModel,
+  { id }: { id: CellId }
+): commutable.CellNames | undefined => model.dependencies.get(id);
+
+/**
+ * The cells whose outputs may be out of date, in notebook order.
+ */
+export const staleCellIds = (model: NotebookModel): Immutable.List<CellId> =>
+  cellOrder(model).filter(id => model.staleCells.has(id));
+
+/**
+ * Returns the code cells below a cell that use the names it defines, in
+ * notebook order, along with the cells using the names those define in
+ * turn. A cell redefining a name without using it hides the name from the
+ * cells below it.
+ */
+export const downstreamCells = (
+  model: NotebookModel,
+  { id }: { id: CellId }
+): CellId[] => {
+  const names = model.dependencies.get(id);
+  const order = cellOrder(model);
+  const index = order.indexOf(id);
+  if (!names || index < 0) {
+    return [];
+  }
+  const live = new Set(names.defines);
+  const downstream: CellId[] = [];
+  order.skip(index + 1).forEach(cellId => {
+    const cell = model.dependencies.get(cellId);
+    if (!cell) {
+      return;
+    }
+    if (cell.uses.some(name => live.has(name))) {
+      downstream.push(cellId);
+      cell.defines.forEach(name => live.add(name));
+    } else {
+      cell.defines.forEach(name => live.delete(name));
+    }
+  });
+  return downstream;
+};
+
 /**
  * Returns true if the notebook differs from the version saved to disk, and
  * false otherwise.
@@ -194,6 +372,16 @@ export const isDirty = createSelector(
   (original, disk) => !Immutable.is(original, disk)
 );
 
+/**
+ * Returns true if there is an earlier version of the notebook to undo to.
+ */
+export const canUndo = (model: NotebookModel) => !model.undoStack.isEmpty();
+
+/**
+ * Returns true if there is an undone version of the notebook to redo.
+ */
+export const canRedo = (model: NotebookModel) => !model.redoStack.isEmpty();
+
 /**
  * Returns the JSON representation of the notebook.
  */
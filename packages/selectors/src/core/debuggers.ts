@@ -0,0 +1,64 @@
+import { CellId } from "@nteract/commutable";
+import { AppState, ContentRef, DebugSessionRecord, KernelRef } from "@nteract/types";
+import { Set } from "immutable";
+
+import { kernelByContentRef, kernelRefByContentRef } from "./contents";
+
+const noBreakpoints = Set<number>();
+
+/**
+ * Returns the (1-based) lines of a cell that have a breakpoint.
+ */
+export const breakpoints = (state: AppState, { id }: { id: CellId }) =>
+  state.core.entities.debuggers.breakpoints.get(id, noBreakpoints);
+
+/**
+ * Returns the debug session of a kernel, or null if it is not being debugged.
+ */
+export const debugSession = (
+  state: AppState,
+  { kernelRef }: { kernelRef?: KernelRef | null }
+): DebugSessionRecord | null =>
+  kernelRef ? state.core.entities.debuggers.byRef.get(kernelRef, null) : null;
+
+/**
+ * Returns the debug session of the kernel a notebook is connected to.
+ */
+export const debugSessionByContentRef = (
+  state: AppState,
+  { contentRef }: { contentRef: ContentRef }
+): DebugSessionRecord | null =>
+  debugSession(state, {
+    kernelRef: kernelRefByContentRef(state, { contentRef })
+  });
+
+/**
+ * Returns whether the kernel of a notebook advertised debugger support in
+ * its kernel_info_reply.
+ */
+export const isDebuggerSupported = (
+  state: AppState,
+  { contentRef }: { contentRef: ContentRef }
+): boolean => !!kernelByContentRef(state, { contentRef })?.info?.debugger;
+
+/**
+ * Returns the line a cell is paused on in the selected stack frame, or null
+ * if the kernel is not paused inside of that cell.
+ */
+export const pausedLine = (
+  state: AppState,
+  { contentRef, id }: { contentRef: ContentRef; id: CellId }
+): number | null => {
+  const session = debugSessionByContentRef(state, { contentRef });
+  if (!session || session.status !== "paused") {
+    return null;
+  }
+
+  const frame =
+    session.stackFrames.find(f => f.id === session.frameId) ||
+    session.stackFrames.first(null);
+  if (!frame || !frame.path || frame.path !== session.sourcePaths.get(id)) {
+    return null;
+  }
+  return frame.line;
+};
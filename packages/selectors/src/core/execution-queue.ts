@@ -0,0 +1,57 @@
+import {
+  AppState,
+  ContentRef,
+  KernelExecutionQueueRecord,
+  KernelRef,
+  QueuedExecution
+} from "@nteract/types";
+import { List } from "immutable";
+
+import { kernelRefByContentRef } from "./contents";
+
+/**
+ * Returns the cells running and waiting to run on a kernel, or null if
+ * nothing ran on it yet.
+ */
+export const executionQueue = (
+  state: AppState,
+  { kernelRef }: { kernelRef?: KernelRef | null }
+): KernelExecutionQueueRecord | null =>
+  kernelRef
+    ? state.core.entities.executionQueue.byKernelRef.get(kernelRef, null)
+    : null;
+
+/**
+ * Returns the cells of a notebook waiting for their turn on its kernel, in
+ * the order they'll run.
+ */
+export const queuedExecutionsByContentRef = (
+  state: AppState,
+  { contentRef }: { contentRef: ContentRef }
+): List<QueuedExecution> => {
+  const queue = executionQueue(state, {
+    kernelRef: kernelRefByContentRef(state, { contentRef })
+  });
+  return queue
+    ? queue.queued.filter(execution => execution.contentRef === contentRef)
+    : List();
+};
+
+/**
+ * Returns how many cells of a notebook were asked to run but haven't
+ * finished yet, counting the one the kernel is running.
+ */
+export const pendingExecutions = (
+  state: AppState,
+  { contentRef }: { contentRef: ContentRef }
+): number => {
+  const queue = executionQueue(state, {
+    kernelRef: kernelRefByContentRef(state, { contentRef })
+  });
+  if (!queue) {
+    return 0;
+  }
+  const running =
+    queue.running && queue.running.contentRef === contentRef ? 1 : 0;
+  return queuedExecutionsByContentRef(state, { contentRef }).size + running;
+};
@@ -0,0 +1,25 @@
+import { AppState, ContentRef, KernelHistoryRecord, KernelRef } from "@nteract/types";
+
+import { kernelRefByContentRef } from "./contents";
+
+/**
+ * Returns the history listed for a kernel, or null if it was never fetched.
+ */
+export const kernelHistory = (
+  state: AppState,
+  { kernelRef }: { kernelRef?: KernelRef | null }
+): KernelHistoryRecord | null =>
+  kernelRef
+    ? state.core.entities.history.byKernelRef.get(kernelRef, null)
+    : null;
+
+/**
+ * Returns the history listed for the kernel a notebook is connected to.
+ */
+export const kernelHistoryByContentRef = (
+  state: AppState,
+  { contentRef }: { contentRef: ContentRef }
+): KernelHistoryRecord | null =>
+  kernelHistory(state, {
+    kernelRef: kernelRefByContentRef(state, { contentRef })
+  });
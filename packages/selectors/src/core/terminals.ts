@@ -0,0 +1,7 @@
+import { AppState, TerminalsRecord } from "@nteract/types";
+
+/**
+ * Returns the terminal sessions listed as running on the server.
+ */
+export const terminals = (state: AppState): TerminalsRecord =>
+  state.core.entities.terminals;
@@ -0,0 +1,25 @@
+import { AppState, ContentRef, KernelRef, KernelVariablesRecord } from "@nteract/types";
+
+import { kernelRefByContentRef } from "./contents";
+
+/**
+ * Returns the variables of a kernel, or null if they were never fetched.
+ */
+export const kernelVariables = (
+  state: AppState,
+  { kernelRef }: { kernelRef?: KernelRef | null }
+): KernelVariablesRecord | null =>
+  kernelRef
+    ? state.core.entities.variables.byKernelRef.get(kernelRef, null)
+    : null;
+
+/**
+ * Returns the variables of the kernel a notebook is connected to.
+ */
+export const kernelVariablesByContentRef = (
+  state: AppState,
+  { contentRef }: { contentRef: ContentRef }
+): KernelVariablesRecord | null =>
+  kernelVariables(state, {
+    kernelRef: kernelRefByContentRef(state, { contentRef })
+  });
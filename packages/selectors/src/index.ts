@@ -1,17 +1,23 @@
 import { AppState } from "@nteract/types";
 
 import * as cell from "./core/contents/cell";
+import * as file from "./core/contents/file";
 import * as notebook from "./core/contents/notebook";
 
 // Export sub-selectors (those that operate on contents models for instance)
-export { cell, notebook };
+export { cell, file, notebook };
 
 // Export all selectors from files for backwards-compatibility with older imports
 export * from "./core/contents";
+export * from "./core/debuggers";
+export * from "./core/execution-queue";
+export * from "./core/history";
 export * from "./core/hosts";
 export * from "./core/kernels";
 export * from "./core/kernelspecs";
+export * from "./core/terminals";
 export * from "./core/transforms";
+export * from "./core/variables";
 export * from "./core/editors";
 export * from "./app";
 export * from "./comms";
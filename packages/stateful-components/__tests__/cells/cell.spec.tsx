@@ -73,6 +73,30 @@ describe("Cell", () => {
     );
     expect(component.children()).toHaveLength(0);
   });
+  it("shows the collaborators focusing the cell", () => {
+    function ChosenOneCell(props) {
+      return <p>ChosenOneCell</p>;
+    }
+    ChosenOneCell.defaultProps = { cell_type: "the_one" };
+    const participants = [
+      { id: "alice", displayName: "Alice", color: "#e6194b" },
+      { id: "bob", displayName: "Bob", color: "#4363d8" }
+    ];
+    const component = mount(
+      <Cell
+        id="cellId"
+        contentRef="contentRef"
+        cell={Immutable.Map({ cell_type: "the_one" })}
+        participants={participants}
+      >
+        <ChosenOneCell />
+      </Cell>
+    );
+    const avatars = component.find(".nteract-cell-participant");
+    expect(avatars).toHaveLength(2);
+    expect(avatars.first().text()).toBe("A");
+    expect(avatars.first().prop("title")).toBe("Alice");
+  });
 });
 
 describe("makeMapStateToProps", () => {
@@ -82,6 +106,7 @@ describe("makeMapStateToProps", () => {
     const result = makeMapStateToProps(state, ownProps)(state);
     expect(result.selected).toBe(false);
     expect(result.cell).toBeUndefined();
+    expect(result.participants).toEqual([]);
   });
   it("returns nothing if there is no cell with an id", () => {
     const state = mockAppState({});
@@ -0,0 +1,93 @@
+import React from "react";
+import { shallow } from "enzyme";
+
+import {
+  ExecutionTiming,
+  formatDuration,
+  timeAgo
+} from "../../src/cells/execution-timing";
+
+describe("formatDuration", () => {
+  it("uses the unit that fits", () => {
+    expect(formatDuration(850)).toBe("850ms");
+    expect(formatDuration(1200)).toBe("1.2s");
+    expect(formatDuration(4000)).toBe("4s");
+    expect(formatDuration(185 * 1000)).toBe("3m 5s");
+    expect(formatDuration(3720 * 1000)).toBe("1h 2m");
+  });
+});
+
+describe("timeAgo", () => {
+  it("says how long ago it was", () => {
+    const now = Date.now();
+    expect(timeAgo(now - 10 * 1000, now)).toBe("just now");
+    expect(timeAgo(now - 60 * 1000, now)).toBe("1 minute ago");
+    expect(timeAgo(now - 3 * 3600 * 1000, now)).toBe("3 hours ago");
+  });
+});
+
+describe("ExecutionTiming", () => {
+  afterEach(() => jest.useRealTimers());
+
+  it("shows how long the cell took and when it ran", () => {
+    const component = shallow(
+      <ExecutionTiming
+        id="cell"
+        contentRef="content"
+        busy={false}
+        started={Date.now() - 5 * 60 * 1000}
+        finished={Date.now() - 3 * 60 * 1000 - 1}
+        duration={2 * 60 * 1000}
+        stale={false}
+      />
+    );
+    expect(component.text()).toBe("Ran in 2m 0s · 3 minutes ago");
+  });
+  it("counts up while the cell runs", () => {
+    jest.useFakeTimers();
+    const component = shallow(
+      <ExecutionTiming
+        id="cell"
+        contentRef="content"
+        busy={true}
+        started={Date.now()}
+        finished={null}
+        duration={null}
+        stale={false}
+      />
+    );
+    expect(component.text()).toMatch(/^Running for \dms$/);
+
+    component.setState({ now: Date.now() + 3000 });
+    expect(component.text()).toMatch(/^Running for 3s$/);
+  });
+  it("shows nothing for cells that never ran", () => {
+    const component = shallow(
+      <ExecutionTiming
+        id="cell"
+        contentRef="content"
+        busy={false}
+        started={null}
+        finished={null}
+        duration={null}
+        stale={false}
+      />
+    );
+    expect(component.isEmptyRender()).toBe(true);
+  });
+  it("marks cells whose outputs may be out of date", () => {
+    const component = shallow(
+      <ExecutionTiming
+        id="cell"
+        contentRef="content"
+        busy={false}
+        started={Date.now() - 5 * 60 * 1000 - 851}
+        finished={Date.now() - 5 * 60 * 1000 - 1}
+        duration={850}
+        stale={true}
+      />
+    );
+    expect(component.text()).toBe("Ran in 850ms · 5 minutes ago · stale");
+    expect(component.find(".nteract-cell-stale")).toHaveLength(1);
+  });
+});
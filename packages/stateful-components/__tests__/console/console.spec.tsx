@@ -0,0 +1,59 @@
+import React from "react";
+import { shallow } from "enzyme";
+
+import { makeConsoleEntryRecord } from "@nteract/types";
+import * as Immutable from "immutable";
+
+import { Console, exportFilepath } from "../../src/console/console";
+
+function renderConsole(props: any) {
+  return shallow(
+    <Console
+      contentRef="console"
+      transcript={Immutable.List([
+        makeConsoleEntryRecord({ id: "a", source: "x = 1", executionCount: 1 })
+      ])}
+      prompt="x"
+      channels={null}
+      kernelStatus="idle"
+      mode="python"
+      exportFilepath="console.ipynb"
+      fetchHistory={jest.fn()}
+      setPrompt={jest.fn()}
+      execute={jest.fn()}
+      previousInput={jest.fn()}
+      nextInput={jest.fn()}
+      clear={jest.fn()}
+      exportToNotebook={jest.fn()}
+      {...props}
+    />
+  );
+}
+
+describe("exportFilepath", () => {
+  it("exports next to the notebook the console is attached to", () => {
+    expect(exportFilepath("/work/analysis.ipynb")).toBe(
+      "/work/analysis-console.ipynb"
+    );
+    expect(exportFilepath(null)).toBe("console.ipynb");
+  });
+});
+
+describe("Console", () => {
+  it("fetches the history of the kernel when mounted", () => {
+    const fetchHistory = jest.fn();
+    renderConsole({ fetchHistory });
+    expect(fetchHistory).toHaveBeenCalled();
+  });
+  it("renders the transcript with its execution counts", () => {
+    const component = renderConsole({});
+    expect(component.find(".nteract-console-entry .nteract-console-prompt").text()).toBe("In [1]:");
+    expect(component.find(".nteract-console-source").text()).toBe("x = 1");
+  });
+  it("navigates the history at the edges of the prompt", () => {
+    const previousInput = jest.fn();
+    const component = renderConsole({ previousInput });
+    component.find("CodeMirrorEditor").prop<() => void>("focusAbove")();
+    expect(previousInput).toHaveBeenCalled();
+  });
+});
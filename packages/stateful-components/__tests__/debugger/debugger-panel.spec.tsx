@@ -0,0 +1,73 @@
+import React from "react";
+import { shallow } from "enzyme";
+
+import { makeDebugSessionRecord } from "@nteract/types";
+import * as Immutable from "immutable";
+
+import { DebuggerPanel, frameLocation } from "../../src/debugger/debugger-panel";
+
+const frame = { id: 1, name: "<module>", line: 2, column: 1, path: "/tmp/1.py" };
+
+const pausedSession = makeDebugSessionRecord({
+  status: "paused",
+  sourcePaths: Immutable.Map({ cell: "/tmp/1.py" }),
+  stoppedThreadId: 7,
+  stackFrames: Immutable.List([frame]),
+  frameId: 1,
+  scopes: Immutable.List([
+    {
+      name: "Locals",
+      variables: [{ name: "x", value: "1", type: "int", variablesReference: 0 }]
+    }
+  ])
+});
+
+function renderPanel(props: any) {
+  return shallow(
+    <DebuggerPanel
+      contentRef="content"
+      kernelRef="kernel"
+      isSupported={true}
+      session={null}
+      cellNumbers={{ cell: 3 }}
+      startDebugging={jest.fn()}
+      stopDebugging={jest.fn()}
+      step={jest.fn()}
+      selectFrame={jest.fn()}
+      {...props}
+    />
+  );
+}
+
+describe("frameLocation", () => {
+  it("points to the cell the frame is in", () => {
+    expect(frameLocation(frame, pausedSession, { cell: 3 })).toBe(
+      "Cell 3, line 2"
+    );
+  });
+  it("falls back to the file of frames outside of the notebook", () => {
+    expect(
+      frameLocation({ ...frame, path: "/lib/os.py" }, pausedSession, { cell: 3 })
+    ).toBe("/lib/os.py:2");
+  });
+});
+
+describe("DebuggerPanel", () => {
+  it("can only start debugging kernels which support it", () => {
+    const component = renderPanel({ isSupported: false });
+    expect(component.find(".nteract-debugger-start").prop("disabled")).toBe(true);
+  });
+  it("starts debugging the kernel", () => {
+    const startDebugging = jest.fn();
+    const component = renderPanel({ startDebugging });
+    component.find(".nteract-debugger-start").simulate("click");
+    expect(startDebugging).toHaveBeenCalledWith("kernel");
+  });
+  it("steps the stopped thread and shows its variables", () => {
+    const step = jest.fn();
+    const component = renderPanel({ session: pausedSession, step });
+    component.find(".nteract-debugger-next").simulate("click");
+    expect(step).toHaveBeenCalledWith("kernel", "next", 7);
+    expect(component.find(".nteract-debugger-variable-value").text()).toBe("1");
+  });
+});
@@ -0,0 +1,72 @@
+import React from "react";
+import { shallow } from "enzyme";
+
+import {
+  appendCellToNotebook,
+  emptyCodeCell,
+  emptyMarkdownCell,
+  emptyNotebook
+} from "@nteract/commutable";
+import { mockAppState } from "@nteract/fixtures";
+
+import { mapStateToProps, NotebookDiff } from "../../src/diff/notebook-diff";
+
+const before = appendCellToNotebook(
+  appendCellToNotebook(
+    appendCellToNotebook(emptyNotebook, emptyCodeCell.set("source", "x = 1")),
+    emptyMarkdownCell.set("source", "# Title")
+  ),
+  emptyCodeCell.set("source", "print(x)")
+);
+
+describe("mapStateToProps", () => {
+  it("uses the given changed notebook", () => {
+    const state = mockAppState({});
+    const result = mapStateToProps(state, {
+      contentRef: "not real",
+      before,
+      after: before
+    });
+    expect(result.after).toBe(before);
+  });
+  it("defaults to the open notebook", () => {
+    const state = mockAppState({ codeCellCount: 2 });
+    const contentRef = state.core.entities.contents.byRef.keySeq().first();
+    const result = mapStateToProps(state, {
+      contentRef: contentRef as string,
+      before
+    });
+    expect(result.after!.cellOrder.size).toBe(2);
+  });
+});
+
+describe("NotebookDiff", () => {
+  it("renders nothing without a notebook to compare", () => {
+    const component = shallow(
+      <NotebookDiff contentRef={"contentRef"} before={before} />
+    );
+    expect(component.isEmptyRender()).toBe(true);
+  });
+  it("only renders the changed cells", () => {
+    const id = before.cellOrder.last();
+    const after = before.setIn(["cellMap", id, "source"], "print(x + 1)");
+    const component = shallow(
+      <NotebookDiff contentRef={"contentRef"} before={before} after={after} />
+    );
+    expect(component.find(".nteract-diff-cell-modified")).toHaveLength(1);
+    expect(component.find(".nteract-diff-unchanged").text()).toBe(
+      "2 unchanged cells"
+    );
+  });
+  it("renders unchanged cells when asked to", () => {
+    const component = shallow(
+      <NotebookDiff
+        contentRef={"contentRef"}
+        before={before}
+        after={before}
+        showUnchanged
+      />
+    );
+    expect(component.find(".nteract-diff-cell-unchanged")).toHaveLength(3);
+  });
+});
@@ -0,0 +1,75 @@
+import React from "react";
+import { shallow, ShallowWrapper } from "enzyme";
+
+import {
+  ExecutionQueuePanel,
+  firstLine
+} from "../../src/execution-queue/execution-queue-panel";
+
+function renderPanel(props: any) {
+  return shallow(
+    <ExecutionQueuePanel
+      contentRef="content"
+      kernelRef="kernel"
+      running={{ id: "a", source: "import time", index: -1 }}
+      queued={[
+        { id: "b", source: "time.sleep(1)", index: 0 },
+        { id: "c", source: "print('done')", index: 2 }
+      ]}
+      continueOnError={false}
+      dequeue={jest.fn()}
+      move={jest.fn()}
+      setContinueOnError={jest.fn()}
+      {...props}
+    />
+  );
+}
+
+describe("firstLine", () => {
+  it("skips blank lines", () => {
+    expect(firstLine("\n  x = 1\ny = 2")).toBe("x = 1");
+    expect(firstLine("")).toBe("");
+  });
+});
+
+describe("ExecutionQueuePanel", () => {
+  it("shows the running cell and the queued ones in order", () => {
+    const component = renderPanel({});
+    expect(
+      component.find(".nteract-execution-queue-running").text()
+    ).toContain("[*]");
+    expect(
+      component
+        .find(".nteract-execution-queue-cell .nteract-execution-queue-source")
+        .map((source: ShallowWrapper) => source.text())
+    ).toEqual(["time.sleep(1)", "print('done')"]);
+  });
+  it("moves a cell past its neighbour in the kernel's queue", () => {
+    const move = jest.fn();
+    const component = renderPanel({ move });
+    component
+      .find(".nteract-execution-queue-cell")
+      .at(1)
+      .find("button[title='Run earlier']")
+      .simulate("click");
+    expect(move).toHaveBeenCalledWith("kernel", "c", 0);
+  });
+  it("removes a cell from the queue", () => {
+    const dequeue = jest.fn();
+    const component = renderPanel({ dequeue });
+    component
+      .find(".nteract-execution-queue-cell")
+      .at(0)
+      .find("button[title='Remove from the queue']")
+      .simulate("click");
+    expect(dequeue).toHaveBeenCalledWith("kernel", "b");
+  });
+  it("toggles continuing on errors", () => {
+    const setContinueOnError = jest.fn();
+    const component = renderPanel({ setContinueOnError });
+    component
+      .find("input[type='checkbox']")
+      .simulate("change", { target: { checked: true } });
+    expect(setContinueOnError).toHaveBeenCalledWith(true);
+  });
+});
@@ -0,0 +1,90 @@
+import React from "react";
+import { shallow } from "enzyme";
+
+import { makeKernelHistoryRecord } from "@nteract/types";
+import * as Immutable from "immutable";
+
+import {
+  historyQuery,
+  HistoryPanel,
+  parseHistoryRange
+} from "../../src/history/history-panel";
+
+function renderPanel(props: any) {
+  return shallow(
+    <HistoryPanel
+      contentRef="content"
+      kernelRef="kernel"
+      cellFocused="cell"
+      history={makeKernelHistoryRecord({
+        status: "fetched",
+        inputs: Immutable.List([{ session: 3, line: 2, source: "x = 1" }]),
+        hasMore: true
+      })}
+      fetchHistory={jest.fn()}
+      fetchMore={jest.fn()}
+      insertInput={jest.fn()}
+      {...props}
+    />
+  );
+}
+
+describe("parseHistoryRange", () => {
+  it("parses ranges of the current and previous sessions", () => {
+    expect(parseHistoryRange("4-7")).toEqual({
+      mode: "range",
+      session: 0,
+      start: 4,
+      stop: 8
+    });
+    expect(parseHistoryRange("~2/1-3")).toEqual({
+      mode: "range",
+      session: -2,
+      start: 1,
+      stop: 4
+    });
+    expect(parseHistoryRange("import")).toBeNull();
+  });
+});
+
+describe("historyQuery", () => {
+  it("searches inputs containing the text, or lists the newest ones", () => {
+    expect(historyQuery(" import ")).toEqual({
+      mode: "search",
+      pattern: "*import*"
+    });
+    expect(historyQuery("")).toEqual({ mode: "tail" });
+  });
+});
+
+describe("HistoryPanel", () => {
+  it("lists the newest inputs of the kernel when mounted", () => {
+    const fetchHistory = jest.fn();
+    renderPanel({ fetchHistory });
+    expect(fetchHistory).toHaveBeenCalledWith("kernel", { mode: "tail" });
+  });
+  it("searches what was typed", () => {
+    const fetchHistory = jest.fn();
+    const component = renderPanel({ fetchHistory });
+    component
+      .find("input")
+      .simulate("change", { target: { value: "plot" } });
+    component.find("form").simulate("submit", { preventDefault: jest.fn() });
+    expect(fetchHistory).toHaveBeenLastCalledWith("kernel", {
+      mode: "search",
+      pattern: "*plot*"
+    });
+  });
+  it("inserts an input below the focused cell", () => {
+    const insertInput = jest.fn();
+    const component = renderPanel({ insertInput });
+    component.find(".nteract-history-input button").simulate("click");
+    expect(insertInput).toHaveBeenCalledWith("x = 1", "cell");
+  });
+  it("loads the next page", () => {
+    const fetchMore = jest.fn();
+    const component = renderPanel({ fetchMore });
+    component.find(".nteract-history-more").simulate("click");
+    expect(fetchMore).toHaveBeenCalledWith("kernel");
+  });
+});
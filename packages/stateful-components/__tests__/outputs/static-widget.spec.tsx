@@ -0,0 +1,71 @@
+import { mount } from "enzyme";
+import Immutable from "immutable";
+import React from "react";
+
+import {
+  SavedWidgetView,
+  savedImageSource
+} from "../../src/outputs/static-widget";
+
+const models = Immutable.fromJS({
+  box: {
+    model_name: "VBoxModel",
+    state: { children: ["IPY_MODEL_slider", "IPY_MODEL_image"] }
+  },
+  slider: {
+    model_name: "IntSliderModel",
+    state: { description: "x", min: 0, max: 10, step: 1, value: 3 }
+  },
+  image: {
+    model_name: "ImageModel",
+    state: { format: "png" },
+    buffers: [{ path: ["value"], encoding: "base64", data: "AQID" }]
+  },
+  layout: {
+    model_name: "LayoutModel",
+    state: {}
+  }
+});
+
+describe("SavedWidgetView", () => {
+  it("renders saved controls disabled", () => {
+    const component = mount(
+      <SavedWidgetView modelId="slider" models={models} />
+    );
+    const slider = component.find("input[type='range']");
+    expect(slider.prop("value")).toBe(3);
+    expect(slider.prop("disabled")).toBe(true);
+    expect(component.find(".nteract-static-widget-description").text()).toBe(
+      "x"
+    );
+  });
+  it("renders the children of containers", () => {
+    const component = mount(<SavedWidgetView modelId="box" models={models} />);
+    expect(component.find("input[type='range']")).toHaveLength(1);
+    expect(component.find("img").prop("src")).toBe(
+      "data:image/png;base64,AQID"
+    );
+  });
+  it("renders nothing for unknown or missing models", () => {
+    expect(
+      mount(
+        <SavedWidgetView modelId="layout" models={models} />
+      ).isEmptyRender()
+    ).toBe(true);
+    expect(
+      mount(
+        <SavedWidgetView modelId="missing" models={models} />
+      ).isEmptyRender()
+    ).toBe(true);
+  });
+});
+
+describe("savedImageSource", () => {
+  it("needs a base64 buffer", () => {
+    expect(
+      savedImageSource(
+        Immutable.fromJS({ model_name: "ImageModel", state: {} })
+      )
+    ).toBeUndefined();
+  });
+});
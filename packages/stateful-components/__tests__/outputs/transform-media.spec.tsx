@@ -2,7 +2,7 @@ import { mount } from "enzyme";
 import Immutable from "immutable";
 import React from "react";
 
-import { makeDisplayData } from "@nteract/commutable";
+import { emptyNotebook, makeDisplayData } from "@nteract/commutable";
 import { state as types } from "@nteract/core";
 import { mockAppState } from "@nteract/fixtures";
 
@@ -11,6 +11,7 @@ import {
   PureTransformMedia,
   richestMediaType
 } from "../../src/outputs/transform-media";
+import StaticWidget from "../../src/outputs/static-widget";
 
 describe("richestMediaType", () => {
   it("returns nothing if media type is not in display order", () => {
@@ -107,3 +108,91 @@ describe("PureTransformMedia", () => {
     expect(component.isEmptyRender()).toBe(true);
   });
 });
+
+describe("widget views without a kernel", () => {
+  const widgetView = "application/vnd.jupyter.widget-view+json";
+  const WidgetDisplay = jest.fn();
+  const Plain = jest.fn();
+  const stateWithWidgets = (kernelRef?: string) => ({
+    config: Immutable.Map({}),
+    core: types.makeStateRecord({
+      entities: types.makeEntitiesRecord({
+        contents: types.makeContentsRecord({
+          byRef: Immutable.Map({
+            content: types.makeNotebookContentRecord({
+              model: types.makeDocumentRecord({
+                kernelRef,
+                notebook: emptyNotebook.setIn(
+                  ["metadata", "widgets", types.WIDGET_STATE_MIMETYPE],
+                  Immutable.fromJS({
+                    version_major: 2,
+                    version_minor: 0,
+                    state: {
+                      saved: {
+                        model_name: "IntSliderModel",
+                        model_module: "@jupyter-widgets/controls",
+                        model_module_version: "1.5.0",
+                        state: { value: 3 }
+                      }
+                    }
+                  })
+                )
+              })
+            })
+          })
+        }),
+        kernels: types.makeKernelsRecord({
+          byRef: Immutable.Map({ kernel: types.makeRemoteKernelRecord() })
+        }),
+        transforms: types.makeTransformsRecord({
+          displayOrder: Immutable.List([widgetView, "text/plain"]),
+          byId: Immutable.Map({
+            [widgetView]: WidgetDisplay,
+            "text/plain": Plain
+          })
+        })
+      })
+    })
+  });
+  const widgetOutput = (modelId: string) =>
+    makeDisplayData({
+      data: {
+        [widgetView]: { model_id: modelId, version_major: 2, version_minor: 0 },
+        "text/plain": "IntSlider(value=3)"
+      }
+    });
+
+  it("renders saved widgets read-only", () => {
+    const ownProps = {
+      output_type: "display_data",
+      output: widgetOutput("saved"),
+      contentRef: "content"
+    };
+    const result = mapStateToProps(stateWithWidgets(), ownProps);
+    expect(result.Media).toBe(StaticWidget);
+    expect(result.data).toEqual({
+      model_id: "saved",
+      version_major: 2,
+      version_minor: 0
+    });
+  });
+  it("falls back to other media types for unsaved widgets", () => {
+    const ownProps = {
+      output_type: "display_data",
+      output: widgetOutput("unsaved"),
+      contentRef: "content"
+    };
+    const result = mapStateToProps(stateWithWidgets(), ownProps);
+    expect(result.Media).toBe(Plain);
+    expect(result.mediaType).toBe("text/plain");
+  });
+  it("renders live widgets when a kernel is connected", () => {
+    const ownProps = {
+      output_type: "display_data",
+      output: widgetOutput("saved"),
+      contentRef: "content"
+    };
+    const result = mapStateToProps(stateWithWidgets("kernel"), ownProps);
+    expect(result.Media).toBe(WidgetDisplay);
+  });
+});
@@ -0,0 +1,90 @@
+import React from "react";
+import { shallow } from "enzyme";
+
+import { parseParameters } from "@nteract/commutable";
+
+import {
+  outputPath,
+  parameterValue,
+  ParametersForm
+} from "../../src/parameters/parameters-form";
+
+const parameters = parseParameters(
+  [
+    'title = "Report"',
+    "alpha = 0.5  # learning rate",
+    "verbose = False"
+  ].join("\n")
+);
+
+function renderForm(props: any) {
+  return shallow(
+    <ParametersForm
+      contentRef="content"
+      parameters={parameters}
+      filepath="/home/ada/report.ipynb"
+      run={jest.fn()}
+      {...props}
+    />
+  );
+}
+
+describe("outputPath", () => {
+  it("saves the executed copy next to the notebook", () => {
+    expect(outputPath("/home/ada/report.ipynb")).toBe(
+      "/home/ada/report-output.ipynb"
+    );
+    expect(outputPath(null)).toBe("Untitled-output.ipynb");
+  });
+});
+
+describe("parameterValue", () => {
+  it("takes strings as typed and other values as Python literals", () => {
+    expect(parameterValue(parameters[0], "It's [1]")).toBe("It's [1]");
+    expect(parameterValue(parameters[1], "1e-3")).toBe(0.001);
+    expect(parameterValue(parameters[1], "fast")).toBeUndefined();
+    expect(parameterValue(parameters[2], true)).toBe(true);
+  });
+});
+
+describe("ParametersForm", () => {
+  it("runs with the parameters that were changed", () => {
+    const run = jest.fn();
+    const component = renderForm({ run });
+    component
+      .find(".nteract-parameter")
+      .at(1)
+      .find("input")
+      .simulate("change", { target: { value: "0.1" } });
+    component
+      .find(".nteract-parameter")
+      .at(2)
+      .find("input")
+      .simulate("change", { target: { checked: true } });
+    component.find("form").simulate("submit", { preventDefault: jest.fn() });
+
+    expect(run).toHaveBeenCalledWith(
+      { alpha: 0.1, verbose: true },
+      "/home/ada/report-output.ipynb"
+    );
+  });
+  it("doesn't run with values that aren't valid", () => {
+    const run = jest.fn();
+    const component = renderForm({ run });
+    component
+      .find(".nteract-parameter")
+      .at(1)
+      .find("input")
+      .simulate("change", { target: { value: "[1," } });
+    component.find("form").simulate("submit", { preventDefault: jest.fn() });
+
+    expect(run).not.toHaveBeenCalled();
+    expect(component.find(".nteract-parameters-error").text()).toMatch(
+      /alpha/
+    );
+  });
+  it("asks for a parameters cell when there isn't one", () => {
+    const component = renderForm({ parameters: null });
+    expect(component.find(".nteract-parameters-empty").exists()).toBe(true);
+  });
+});
@@ -0,0 +1,37 @@
+import React from "react";
+import { shallow, ShallowWrapper } from "enzyme";
+
+import { RunProfile } from "../../src/profile/run-profile";
+
+const cells = [
+  { id: "b", executionCount: 2, source: "train()", duration: 65000, stale: true },
+  { id: "a", executionCount: 1, source: "import os", duration: 40, stale: false }
+];
+
+describe("RunProfile", () => {
+  it("ranks the cells by how long they ran", () => {
+    const component = shallow(
+      <RunProfile contentRef="content" cells={cells} focusCell={jest.fn()} />
+    );
+    expect(
+      component
+        .find(".nteract-run-profile-duration")
+        .map((duration: ShallowWrapper) => duration.text())
+    ).toEqual(["1m 5s", "40ms"]);
+    expect(component.find(".nteract-run-profile-summary").text()).toBe(
+      "2 cells ran for 1m 5s, 1 stale"
+    );
+    expect(component.find(".nteract-run-profile-cell.stale")).toHaveLength(1);
+  });
+  it("goes to a cell when it's clicked", () => {
+    const focusCell = jest.fn();
+    const component = shallow(
+      <RunProfile contentRef="content" cells={cells} focusCell={focusCell} />
+    );
+    component
+      .find(".nteract-run-profile-cell")
+      .at(1)
+      .simulate("click");
+    expect(focusCell).toHaveBeenCalledWith("a");
+  });
+});
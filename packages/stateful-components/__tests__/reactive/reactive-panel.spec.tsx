@@ -0,0 +1,49 @@
+import React from "react";
+import { shallow } from "enzyme";
+
+import { ReactivePanel } from "../../src/reactive/reactive-panel";
+
+function renderPanel(props: any) {
+  return shallow(
+    <ReactivePanel
+      contentRef="content"
+      reactive={true}
+      staleCells={[
+        { id: "b", source: "rows = df.dropna()" },
+        { id: "c", source: "plot(rows)" }
+      ]}
+      setReactiveMode={jest.fn()}
+      executeStaleCells={jest.fn()}
+      focusCell={jest.fn()}
+      {...props}
+    />
+  );
+}
+
+describe("ReactivePanel", () => {
+  it("lists the stale cells and runs them", () => {
+    const executeStaleCells = jest.fn();
+    const component = renderPanel({ executeStaleCells });
+    expect(component.find(".nteract-reactive-cell")).toHaveLength(2);
+
+    const run = component.find(".nteract-reactive-run");
+    expect(run.text()).toBe("Run 2 stale cells");
+    run.simulate("click");
+    expect(executeStaleCells).toHaveBeenCalled();
+  });
+  it("focuses a stale cell", () => {
+    const focusCell = jest.fn();
+    const component = renderPanel({ focusCell });
+    component.find(".nteract-reactive-cell").at(1).simulate("click");
+    expect(focusCell).toHaveBeenCalledWith("c");
+  });
+  it("turns the mode off", () => {
+    const setReactiveMode = jest.fn();
+    const component = renderPanel({ setReactiveMode, staleCells: [] });
+    expect(component.find(".nteract-reactive-empty").exists()).toBe(true);
+    component
+      .find("input[type='checkbox']")
+      .simulate("change", { target: { checked: false } });
+    expect(setReactiveMode).toHaveBeenCalledWith(false);
+  });
+});
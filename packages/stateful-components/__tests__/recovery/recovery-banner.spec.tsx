@@ -0,0 +1,68 @@
+import React from "react";
+import { shallow } from "enzyme";
+
+import {
+  appendCellToNotebook,
+  emptyCodeCell,
+  emptyMarkdownCell,
+  emptyNotebook
+} from "@nteract/commutable";
+import { makeRecoveryRecord } from "@nteract/types";
+
+import { RecoveryBanner, summarizeRecovery } from "../../src/recovery/recovery-banner";
+
+const notebook = appendCellToNotebook(
+  emptyNotebook,
+  emptyCodeCell.set("source", "x = 1")
+);
+
+describe("summarizeRecovery", () => {
+  it("counts the cells restoring would change", () => {
+    const id = notebook.cellOrder.first<string>();
+    const recovered = appendCellToNotebook(
+      notebook.setIn(["cellMap", id, "source"], "x = 2"),
+      emptyMarkdownCell.set("source", "# Title")
+    );
+    expect(summarizeRecovery(notebook, recovered)).toBe(
+      "1 cell added, 1 cell modified"
+    );
+  });
+  it("reports when no cells changed", () => {
+    expect(summarizeRecovery(notebook, notebook)).toBe("No cell changes");
+  });
+});
+
+describe("RecoveryBanner", () => {
+  it("renders nothing without unsaved changes to recover", () => {
+    const component = shallow(
+      <RecoveryBanner
+        contentRef="content"
+        recovery={null}
+        notebook={notebook}
+        restoreRecovery={jest.fn()}
+        discardRecovery={jest.fn()}
+      />
+    );
+    expect(component.isEmptyRender()).toBe(true);
+  });
+  it("offers to restore or discard the unsaved changes", () => {
+    const restoreRecovery = jest.fn();
+    const discardRecovery = jest.fn();
+    const component = shallow(
+      <RecoveryBanner
+        contentRef="content"
+        recovery={makeRecoveryRecord({
+          journaledAt: new Date("2020-01-01T00:00:00Z"),
+          notebook
+        })}
+        notebook={notebook}
+        restoreRecovery={restoreRecovery}
+        discardRecovery={discardRecovery}
+      />
+    );
+    component.find(".nteract-recovery-restore").simulate("click");
+    component.find(".nteract-recovery-discard").simulate("click");
+    expect(restoreRecovery).toHaveBeenCalled();
+    expect(discardRecovery).toHaveBeenCalled();
+  });
+});
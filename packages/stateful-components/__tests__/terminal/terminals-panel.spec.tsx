@@ -0,0 +1,58 @@
+import React from "react";
+import { shallow } from "enzyme";
+
+import { makeTerminalsRecord } from "@nteract/types";
+import * as Immutable from "immutable";
+
+import { TerminalsPanel } from "../../src/terminal/terminals-panel";
+
+function renderPanel(props: any) {
+  return shallow(
+    <TerminalsPanel
+      contentRef="terminal"
+      current="1"
+      terminals={makeTerminalsRecord({
+        status: "fetched",
+        names: Immutable.List(["1", "2"])
+      })}
+      fetchTerminals={jest.fn()}
+      openTerminal={jest.fn()}
+      killTerminal={jest.fn()}
+      {...props}
+    />
+  );
+}
+
+describe("TerminalsPanel", () => {
+  it("lists running terminals when mounted", () => {
+    const fetchTerminals = jest.fn();
+    const component = renderPanel({ fetchTerminals });
+    expect(fetchTerminals).toHaveBeenCalled();
+    expect(component.find(".nteract-terminals-item")).toHaveLength(2);
+    expect(component.find(".nteract-terminals-item.current").key()).toBe("1");
+  });
+  it("opens, creates and kills sessions", () => {
+    const openTerminal = jest.fn();
+    const killTerminal = jest.fn();
+    const component = renderPanel({ openTerminal, killTerminal });
+
+    const second = component.find(".nteract-terminals-item").at(1);
+    second.find("button").at(0).simulate("click");
+    expect(openTerminal).toHaveBeenCalledWith("2");
+    second.find("button").at(1).simulate("click");
+    expect(killTerminal).toHaveBeenCalledWith("2");
+
+    component
+      .find(".nteract-terminals-header button")
+      .at(1)
+      .simulate("click");
+    expect(openTerminal).toHaveBeenCalledWith(null);
+  });
+  it("says when no terminals are running", () => {
+    const component = renderPanel({
+      current: null,
+      terminals: makeTerminalsRecord({ status: "fetched" })
+    });
+    expect(component.find(".nteract-terminals-empty")).toHaveLength(1);
+  });
+});
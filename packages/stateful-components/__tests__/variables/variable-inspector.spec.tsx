@@ -0,0 +1,66 @@
+import React from "react";
+import { shallow } from "enzyme";
+
+import { makeKernelVariablesRecord } from "@nteract/types";
+import * as Immutable from "immutable";
+
+import {
+  variableDetails,
+  VariableInspector
+} from "../../src/variables/variable-inspector";
+
+const x = { name: "x", type: "ndarray", shape: "(2, 3)", repr: "array(...)" };
+
+function renderInspector(props: any) {
+  return shallow(
+    <VariableInspector
+      contentRef="content"
+      kernelRef="kernel"
+      variables={makeKernelVariablesRecord({
+        status: "fetched",
+        variables: Immutable.List([x])
+      })}
+      fetchVariables={jest.fn()}
+      inspectVariable={jest.fn()}
+      {...props}
+    />
+  );
+}
+
+describe("variableDetails", () => {
+  it("only lists the shape of variables which have one", () => {
+    expect(variableDetails(x)).toEqual([
+      { name: "type: ndarray" },
+      { name: "shape: (2, 3)" },
+      { name: "array(...)" }
+    ]);
+    expect(variableDetails({ ...x, shape: null })).toHaveLength(2);
+  });
+});
+
+describe("VariableInspector", () => {
+  it("lists the variables of the kernel when mounted", () => {
+    const fetchVariables = jest.fn();
+    renderInspector({ fetchVariables });
+    expect(fetchVariables).toHaveBeenCalledWith("kernel");
+  });
+  it("inspects the selected variable", () => {
+    const inspectVariable = jest.fn();
+    const component = renderInspector({ inspectVariable });
+    component.find("SidebarItem").prop<() => void>("onSelect")();
+    expect(inspectVariable).toHaveBeenCalledWith("kernel", "x");
+  });
+  it("renders the inspected variable", () => {
+    const component = renderInspector({
+      variables: makeKernelVariablesRecord({
+        status: "fetched",
+        variables: Immutable.List([x]),
+        inspectedName: "x",
+        inspectedOutput: { data: { "text/plain": "array(...)" }, metadata: {} }
+      })
+    });
+    expect(component.find("RichMedia").prop("data")).toEqual({
+      "text/plain": "array(...)"
+    });
+  });
+});
@@ -3,6 +3,8 @@ import { connect } from "react-redux";
 
 import { ImmutableCell } from "@nteract/commutable/src";
 import { AppState, selectors } from "@nteract/core";
+import { selectors as multiselectSelectors } from "@nteract/mythic-multiselect";
+import { IPresence, selectors as collaborationSelectors } from "@nteract/mythic-rtc";
 
 interface ComponentProps {
   id: string;
@@ -13,6 +15,8 @@ interface ComponentProps {
 interface StateProps {
   cell?: ImmutableCell;
   selected: boolean;
+  /** Other collaboration session participants focusing this cell */
+  participants?: IPresence[];
 }
 
 type Props = ComponentProps & StateProps;
@@ -29,6 +33,11 @@ export class Cell extends React.Component<Props> {
 
       return true
     }
+    // Update cell when collaborators move in or out of it
+    if (nextProps.participants !== this.props.participants) {
+
+      return true
+    }
     return false
   }
 
@@ -78,6 +87,8 @@ export class Cell extends React.Component<Props> {
       return null;
     }
 
+    const participants = this.props.participants ?? [];
+
     // Render the output component that handles this output type
     return (
       <div
@@ -85,6 +96,20 @@ export class Cell extends React.Component<Props> {
           this.props.selected ? "selected" : ""
         }`}
       >
+        {participants.length > 0 ? (
+          <div className="nteract-cell-participants">
+            {participants.map(participant => (
+              <span
+                key={participant.id}
+                className="nteract-cell-participant"
+                title={participant.displayName}
+                style={{ backgroundColor: participant.color }}
+              >
+                {participant.displayName.charAt(0)}
+              </span>
+            ))}
+          </div>
+        ) : null}
         {React.cloneElement(chosenOne, {
           cell: this.props.cell,
           id: this.props.id,
@@ -107,10 +132,14 @@ export const makeMapStateToProps = (
 
     if (model && model.type === "notebook") {
       cell = selectors.notebook.cellById(model, { id });
-      selected = selectors.notebook.cellFocused(model) === id;
+      selected =
+        selectors.notebook.cellFocused(model) === id ||
+        multiselectSelectors.isCellSelected(state as any, { id });
     }
 
-    return { cell, selected };
+    const participants = collaborationSelectors.participantsInCell(state as any, { id });
+
+    return { cell, selected, participants };
   };
   return mapStateToProps;
 };
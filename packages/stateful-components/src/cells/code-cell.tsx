@@ -6,6 +6,7 @@ import { KernelOutputError, Media, StreamText } from "@nteract/outputs";
 import { Source } from "@nteract/presentational-components";
 
 import Editor, { EditorSlots } from "../inputs/editor";
+import ExecutionTiming from "./execution-timing";
 
 import Input from "../inputs/input";
 import Prompt, { PassedPromptProps } from "../inputs/prompt";
@@ -19,6 +20,7 @@ interface NamedCodeCellSlots {
   prompt?: (props: { id: string; contentRef: string }) => JSX.Element;
   pagers?: (props: { id: string; contentRef: string }) => JSX.Element;
   inputPrompts?: (props: { id: string; contentRef: string }) => JSX.Element;
+  timing?: (props: { id: string; contentRef: string }) => JSX.Element;
   outputs?: (props: { id: string; contentRef: string }) => JSX.Element;
   toolbar?: () => JSX.Element;
 }
@@ -47,7 +49,7 @@ export default class CodeCell extends React.Component<ComponentProps> {
               return <React.Fragment>{"[*]"}</React.Fragment>;
             }
             if (props.status === "queued") {
-              return <React.Fragment>{"[…]"}</React.Fragment>;
+              return <React.Fragment>{"[-]"}</React.Fragment>;
             }
             if (typeof props.executionCount === "number") {
               return (
@@ -74,6 +76,9 @@ export default class CodeCell extends React.Component<ComponentProps> {
       inputPrompts: (props: any) => (
         <InputPrompts id={props.id} contentRef={props.contentRef} />
       ),
+      timing: (props: any) => (
+        <ExecutionTiming id={props.id} contentRef={props.contentRef} />
+      ),
       outputs: (props: any) => (
         <Outputs id={id} contentRef={contentRef}>
           <TransformMedia
@@ -101,6 +106,7 @@ export default class CodeCell extends React.Component<ComponentProps> {
     const editor = children?.editor;
     const pagers = children?.pagers ?? defaults.pagers;
     const inputPrompts = children?.inputPrompts ?? defaults.inputPrompts;
+    const timing = children?.timing ?? defaults.timing;
     const outputs = children?.outputs ?? defaults.outputs;
     const toolbar = children?.toolbar;
 
@@ -117,6 +123,7 @@ export default class CodeCell extends React.Component<ComponentProps> {
                 </Editor>
               </Source>
             </Input>
+            {timing({ id, contentRef })}
             {pagers({ id, contentRef })}
             {inputPrompts({ id, contentRef })}
             {outputs({ id, contentRef })}
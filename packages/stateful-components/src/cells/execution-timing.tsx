@@ -0,0 +1,171 @@
+import React from "react";
+import { connect } from "react-redux";
+
+import { AppState, ContentRef, selectors } from "@nteract/core";
+
+/**
+ * Formats milliseconds as a short duration, like `850ms`, `1.2s` or `3m 5s`.
+ */
+export function formatDuration(milliseconds: number): string {
+  if (milliseconds < 1000) {
+    return `${Math.max(0, Math.round(milliseconds))}ms`;
+  }
+  if (milliseconds < 60 * 1000) {
+    return `${(milliseconds / 1000).toFixed(1).replace(/\.0$/, "")}s`;
+  }
+  const seconds = Math.floor(milliseconds / 1000);
+  if (seconds < 60 * 60) {
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  }
+  return `${Math.floor(seconds / 3600)}h ${Math.floor(seconds / 60) % 60}m`;
+}
+
+/**
+ * Says how long ago something happened, like `3 minutes ago`.
+ */
+export function timeAgo(time: number, now: number): string {
+  const minutes = Math.floor((now - time) / (60 * 1000));
+  const plural = (count: number, unit: string) =>
+    `${count} ${unit}${count === 1 ? "" : "s"} ago`;
+  if (minutes < 1) {
+    return "just now";
+  }
+  if (minutes < 60) {
+    return plural(minutes, "minute");
+  }
+  if (minutes < 24 * 60) {
+    return plural(Math.floor(minutes / 60), "hour");
+  }
+  return plural(Math.floor(minutes / (24 * 60)), "day");
+}
+
+const STALE_TITLE =
+  "A cell it depends on ran again since, its outputs may be out of date";
+
+interface ComponentProps {
+  id: string;
+  contentRef: ContentRef;
+}
+
+interface StateProps {
+  busy: boolean;
+  // Timestamps rather than dates, so that the cell only renders when they change
+  started: number | null;
+  finished: number | null;
+  duration: number | null;
+  // A cell it depends on ran again since, in reactive mode
+  stale: boolean;
+}
+
+type Props = ComponentProps & StateProps;
+
+interface State {
+  now: number;
+}
+
+/**
+ * Shows how long a code cell took and when it last ran, counting up while it
+ * is running. Stale cells are marked as such.
+ */
+export class ExecutionTiming extends React.PureComponent<Props, State> {
+  state: State = { now: Date.now() };
+  timer: number | null = null;
+
+  componentDidMount() {
+    this.startTimer();
+  }
+
+  componentDidUpdate(prevProps: Props) {
+    if (prevProps.busy !== this.props.busy) {
+      this.startTimer();
+    }
+  }
+
+  componentWillUnmount() {
+    this.stopTimer();
+  }
+
+  startTimer() {
+    this.stopTimer();
+    this.setState({ now: Date.now() });
+    // Running cells count every second, the others only age by the minute
+    this.timer = window.setInterval(
+      () => this.setState({ now: Date.now() }),
+      this.props.busy ? 1000 : 60 * 1000
+    );
+  }
+
+  stopTimer() {
+    if (this.timer !== null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  render() {
+    const { busy, started, finished, duration, stale } = this.props;
+    const { now } = this.state;
+    const staleMarker = (text: string) =>
+      stale ? (
+        <span className="nteract-cell-stale" title={STALE_TITLE}>
+          {text}
+        </span>
+      ) : null;
+
+    if (busy && started !== null) {
+      return (
+        <div className="nteract-cell-timing nteract-cell-timing-running">
+          Running for {formatDuration(now - started)}
+        </div>
+      );
+    }
+    if (finished !== null && duration !== null) {
+      return (
+        <div
+          className="nteract-cell-timing"
+          title={`Finished at ${new Date(finished).toLocaleString()}`}
+        >
+          Ran in {formatDuration(duration)} · {timeAgo(finished, now)}
+          {staleMarker(" · stale")}
+        </div>
+      );
+    }
+    return stale ? (
+      <div className="nteract-cell-timing">{staleMarker("Stale")}</div>
+    ) : null;
+  }
+}
+
+const makeMapStateToProps = (
+  initialState: AppState,
+  ownProps: ComponentProps
+) => {
+  const { contentRef, id } = ownProps;
+  const mapStateToProps = (state: AppState): StateProps => {
+    const model = selectors.model(state, { contentRef });
+    const cell =
+      model && model.type === "notebook"
+        ? selectors.notebook.cellById(model, { id })
+        : null;
+    const timing = cell ? selectors.notebook.executionTiming(cell) : null;
+    return {
+      busy:
+        !!model &&
+        model.type === "notebook" &&
+        model.transient.getIn(["cellMap", id, "status"]) === "busy",
+      started: timing ? timing.started.getTime() : null,
+      finished:
+        timing && timing.finished ? timing.finished.getTime() : null,
+      duration: timing ? timing.duration : null,
+      stale:
+        !!model &&
+        model.type === "notebook" &&
+        model.staleCells.has(id)
+    };
+  };
+  return mapStateToProps;
+};
+
+export default connect<StateProps, void, ComponentProps, AppState>(
+  makeMapStateToProps
+)(ExecutionTiming);
@@ -0,0 +1,134 @@
+import Immutable from "immutable";
+import React from "react";
+import { connect } from "react-redux";
+import { Dispatch } from "redux";
+
+import { actions, AppState, CheckpointRecord, ContentRef, selectors } from "@nteract/core";
+
+interface ComponentProps {
+  contentRef: ContentRef;
+}
+
+interface StateProps {
+  checkpoints: Immutable.List<CheckpointRecord>;
+  /**
+   * Only saved notebooks have checkpoints
+   */
+  isSaved: boolean;
+}
+
+interface DispatchProps {
+  fetchCheckpoints: () => void;
+  createCheckpoint: () => void;
+  restoreCheckpoint: (checkpointId: string) => void;
+  deleteCheckpoint: (checkpointId: string) => void;
+}
+
+type Props = ComponentProps & StateProps & DispatchProps;
+
+const formatTimestamp = (date: Date | null) =>
+  date ? date.toLocaleString() : "Unknown time";
+
+export class Checkpoints extends React.PureComponent<Props> {
+  componentDidMount() {
+    if (this.props.isSaved) {
+      this.props.fetchCheckpoints();
+    }
+  }
+
+  componentDidUpdate(prevProps: Props) {
+    if (this.props.isSaved && !prevProps.isSaved) {
+      this.props.fetchCheckpoints();
+    }
+  }
+
+  render() {
+    const {
+      checkpoints,
+      isSaved,
+      createCheckpoint,
+      restoreCheckpoint,
+      deleteCheckpoint
+    } = this.props;
+
+    return (
+      <div className="nteract-checkpoints">
+        <div className="nteract-checkpoints-header">
+          <span>Checkpoints</span>
+          <button
+            className="nteract-checkpoints-create"
+            onClick={createCheckpoint}
+            disabled={!isSaved}
+            title="Save a checkpoint of the notebook as it is on disk"
+          >
+            Create
+          </button>
+        </div>
+        {checkpoints.isEmpty() ? (
+          <div className="nteract-checkpoints-empty">
+            {isSaved ? "No checkpoints yet" : "Save the notebook first"}
+          </div>
+        ) : (
+          <ul className="nteract-checkpoints-list">
+            {checkpoints.map(checkpoint => (
+              <li className="nteract-checkpoint" key={checkpoint.id}>
+                <time
+                  dateTime={checkpoint.lastModified?.toISOString()}
+                  title={checkpoint.id}
+                >
+                  {formatTimestamp(checkpoint.lastModified)}
+                </time>
+                <button
+                  className="nteract-checkpoint-restore"
+                  onClick={() => restoreCheckpoint(checkpoint.id)}
+                  title="Replace the notebook with this checkpoint, discarding unsaved changes"
+                >
+                  Restore
+                </button>
+                <button
+                  className="nteract-checkpoint-delete"
+                  onClick={() => deleteCheckpoint(checkpoint.id)}
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+}
+
+export const makeMapStateToProps = (
+  initialState: AppState,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapStateToProps = (state: AppState): StateProps => ({
+    checkpoints: selectors.checkpoints(state, { contentRef }),
+    isSaved: !!selectors.filepath(state, { contentRef })
+  });
+  return mapStateToProps;
+};
+
+export const makeMapDispatchToProps = (
+  initialDispatch: Dispatch,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapDispatchToProps = (dispatch: Dispatch): DispatchProps => ({
+    fetchCheckpoints: () => dispatch(actions.fetchCheckpoints({ contentRef })),
+    createCheckpoint: () => dispatch(actions.createCheckpoint({ contentRef })),
+    restoreCheckpoint: (checkpointId: string) =>
+      dispatch(actions.restoreCheckpoint({ contentRef, checkpointId })),
+    deleteCheckpoint: (checkpointId: string) =>
+      dispatch(actions.deleteCheckpoint({ contentRef, checkpointId }))
+  });
+  return mapDispatchToProps;
+};
+
+export default connect<StateProps, DispatchProps, ComponentProps, AppState>(
+  makeMapStateToProps,
+  makeMapDispatchToProps
+)(Checkpoints);
@@ -11,3 +11,15 @@ export const {
   ],
   defaultValue: "light",
 });
+
+export const {
+  selector: checkCodeIsComplete,
+} = defineConfigOption({
+  key: "checkCodeIsComplete",
+  label: "Continue Incomplete Code on Shift+Enter",
+  values: [
+    { value: true, label: "Yes" },
+    { value: false, label: "No" },
+  ],
+  defaultValue: false,
+});
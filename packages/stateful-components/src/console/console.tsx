@@ -0,0 +1,249 @@
+import Immutable from "immutable";
+import React from "react";
+import { connect } from "react-redux";
+import { Dispatch } from "redux";
+
+import {
+  actions,
+  AppState,
+  ConsoleEntryRecord,
+  ContentRef,
+  createContentRef,
+  selectors
+} from "@nteract/core";
+import CodeMirrorEditor from "@nteract/editor";
+import { Channels } from "@nteract/messaging";
+import {
+  DisplayData,
+  ExecuteResult,
+  KernelOutputError,
+  Media,
+  Output,
+  StreamText
+} from "@nteract/outputs";
+
+interface ComponentProps {
+  contentRef: ContentRef;
+}
+
+interface StateProps {
+  transcript: Immutable.List<ConsoleEntryRecord>;
+  prompt: string;
+  channels: Channels | null;
+  kernelStatus: string;
+  mode: any;
+  exportFilepath: string;
+}
+
+interface DispatchProps {
+  fetchHistory: () => void;
+  setPrompt: (value: string) => void;
+  execute: () => void;
+  previousInput: () => void;
+  nextInput: () => void;
+  clear: () => void;
+  exportToNotebook: (filepath: string) => void;
+}
+
+type Props = ComponentProps & StateProps & DispatchProps;
+
+/**
+ * The notebook a console is exported to is saved next to the notebook it is
+ * attached to.
+ */
+export function exportFilepath(notebookFilepath: string | null): string {
+  if (!notebookFilepath) {
+    return "console.ipynb";
+  }
+  return notebookFilepath.replace(/(\.ipynb)?$/, "-console.ipynb");
+}
+
+const media = [
+  <Media.Json key="json" />,
+  <Media.JavaScript key="javascript" />,
+  <Media.HTML key="html" />,
+  <Media.Markdown key="markdown" />,
+  <Media.LaTeX key="latex" />,
+  <Media.SVG key="svg" />,
+  <Media.Image key="image" />,
+  <Media.Plain key="plain" />
+];
+
+export class Console extends React.PureComponent<Props> {
+  private readonly transcriptRef = React.createRef<HTMLDivElement>();
+
+  componentDidMount() {
+    this.props.fetchHistory();
+  }
+
+  componentDidUpdate(prevProps: Props) {
+    if (prevProps.channels !== this.props.channels) {
+      this.props.fetchHistory();
+    }
+
+    // Follow the newest outputs, like a terminal does
+    const element = this.transcriptRef.current;
+    if (element && prevProps.transcript !== this.props.transcript) {
+      element.scrollTop = element.scrollHeight;
+    }
+  }
+
+  renderEntry(entry: ConsoleEntryRecord) {
+    const count = entry.running ? "*" : entry.executionCount ?? " ";
+
+    return (
+      <div className="nteract-console-entry" key={entry.id}>
+        <div className="nteract-console-input">
+          <span className="nteract-console-prompt">{`In [${count}]:`}</span>
+          <pre className="nteract-console-source">{entry.source}</pre>
+        </div>
+        <div className="nteract-console-outputs">
+          {entry.outputs.map((output, index) => (
+            <Output output={output} key={index}>
+              <ExecuteResult>{media}</ExecuteResult>
+              <DisplayData>{media}</DisplayData>
+              <KernelOutputError />
+              <StreamText />
+            </Output>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  render() {
+    const {
+      channels,
+      clear,
+      transcript,
+      execute,
+      exportToNotebook,
+      kernelStatus,
+      mode,
+      nextInput,
+      previousInput,
+      prompt,
+      setPrompt
+    } = this.props;
+
+    return (
+      <div className="nteract-console">
+        <div className="nteract-console-header">
+          <span>Console</span>
+          <span>
+            <button onClick={clear} disabled={transcript.size === 0}>
+              Clear
+            </button>
+            <button
+              onClick={() => exportToNotebook(this.props.exportFilepath)}
+              disabled={transcript.size === 0}
+            >
+              Export to notebook
+            </button>
+          </span>
+        </div>
+        <div className="nteract-console-transcript" ref={this.transcriptRef}>
+          {transcript.map(entry => this.renderEntry(entry))}
+        </div>
+        <div className="nteract-console-input nteract-console-current">
+          <span className="nteract-console-prompt">In [ ]:</span>
+          <div className="nteract-console-editor">
+            {/* Shift+Enter runs complete code, Up and Down at the edges navigate the history */}
+            <CodeMirrorEditor
+              editorType="codemirror"
+              value={prompt}
+              channels={channels}
+              kernelStatus={kernelStatus}
+              completion
+              tip
+              autofocus
+              editorFocused
+              preserveScrollPosition={false}
+              codeMirror={{ ...CodeMirrorEditor.defaultProps.codeMirror, mode }}
+              checkIsComplete
+              onExecute={execute}
+              onChange={setPrompt}
+              focusAbove={previousInput}
+              focusBelow={nextInput}
+            />
+          </div>
+        </div>
+      </div>
+    );
+  }
+}
+
+const NO_TRANSCRIPT = Immutable.List<ConsoleEntryRecord>();
+
+export const makeMapStateToProps = (
+  initialState: AppState,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapStateToProps = (state: AppState): StateProps => {
+    const model = selectors.model(state, { contentRef });
+    const kernel = selectors.kernelByContentRef(state, { contentRef });
+    if (!model || model.type !== "console") {
+      return {
+        transcript: NO_TRANSCRIPT,
+        prompt: "",
+        channels: null,
+        kernelStatus: "not connected",
+        mode: null,
+        exportFilepath: exportFilepath(null)
+      };
+    }
+
+    const mode = kernel?.info?.codemirrorMode;
+    return {
+      transcript: model.transcript,
+      prompt: model.prompt,
+      channels: (kernel?.channels as Channels) || null,
+      kernelStatus: kernel?.status || "not connected",
+      // The mode is an Immutable map when it comes from the kernel info
+      mode: mode && typeof mode === "object" && "toJS" in mode ? (mode as any).toJS() : mode,
+      exportFilepath: exportFilepath(
+        model.notebookRef
+          ? selectors.filepath(state, { contentRef: model.notebookRef })
+          : null
+      )
+    };
+  };
+  return mapStateToProps;
+};
+
+export const makeMapDispatchToProps = (
+  initialDispatch: Dispatch,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapDispatchToProps = (dispatch: Dispatch): DispatchProps => ({
+    fetchHistory: () => dispatch(actions.fetchConsoleHistory({ contentRef })),
+    setPrompt: (value: string) =>
+      dispatch(actions.setConsolePrompt({ contentRef, value })),
+    execute: () => dispatch(actions.executeConsolePrompt({ contentRef })),
+    previousInput: () =>
+      dispatch(
+        actions.navigateConsoleHistory({ contentRef, direction: "previous" })
+      ),
+    nextInput: () =>
+      dispatch(
+        actions.navigateConsoleHistory({ contentRef, direction: "next" })
+      ),
+    clear: () => dispatch(actions.clearConsole({ contentRef })),
+    exportToNotebook: (filepath: string) =>
+      dispatch(
+        actions.exportConsole({
+          contentRef,
+          exportRef: createContentRef(),
+          filepath
+        })
+      )
+  });
+  return mapDispatchToProps;
+};
+
+export default connect<StateProps, DispatchProps, ComponentProps, AppState>(
+  makeMapStateToProps,
+  makeMapDispatchToProps
+)(Console);
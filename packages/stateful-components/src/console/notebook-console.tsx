@@ -0,0 +1,90 @@
+import React from "react";
+import { connect } from "react-redux";
+import { Dispatch } from "redux";
+
+import {
+  actions,
+  AppState,
+  ContentRef,
+  createContentRef,
+  KernelRef,
+  selectors
+} from "@nteract/core";
+
+import Console from "./console";
+
+interface ComponentProps {
+  contentRef: ContentRef;
+}
+
+interface StateProps {
+  kernelRef: KernelRef | null;
+  consoleRef: ContentRef | null;
+}
+
+interface DispatchProps {
+  openConsole: (kernelRef: KernelRef) => void;
+}
+
+type Props = ComponentProps & StateProps & DispatchProps;
+
+/**
+ * A console attached to the kernel of a notebook, to poke at its state
+ * without adding cells.
+ */
+export const NotebookConsole = (props: Props) => {
+  const { consoleRef, kernelRef, openConsole } = props;
+
+  if (consoleRef) {
+    return <Console contentRef={consoleRef} />;
+  }
+
+  return (
+    <div className="nteract-console">
+      <div className="nteract-console-header">
+        <span>Console</span>
+        <button
+          onClick={() => kernelRef && openConsole(kernelRef)}
+          disabled={!kernelRef}
+        >
+          Open
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const makeMapStateToProps = (
+  initialState: AppState,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapStateToProps = (state: AppState): StateProps => ({
+    kernelRef: selectors.kernelRefByContentRef(state, { contentRef }) || null,
+    consoleRef: selectors.consoleRefByNotebookRef(state, { contentRef }) || null
+  });
+  return mapStateToProps;
+};
+
+export const makeMapDispatchToProps = (
+  initialDispatch: Dispatch,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapDispatchToProps = (dispatch: Dispatch): DispatchProps => ({
+    openConsole: (kernelRef: KernelRef) =>
+      dispatch(
+        actions.openConsole({
+          contentRef: createContentRef(),
+          kernelRef,
+          notebookRef: contentRef
+        })
+      )
+  });
+  return mapDispatchToProps;
+};
+
+export default connect<StateProps, DispatchProps, ComponentProps, AppState>(
+  makeMapStateToProps,
+  makeMapDispatchToProps
+)(NotebookConsole);
@@ -0,0 +1,243 @@
+import React from "react";
+import { connect } from "react-redux";
+import { Dispatch } from "redux";
+
+import { CellId } from "@nteract/commutable";
+import {
+  actions,
+  AppState,
+  ContentRef,
+  DebugSessionRecord,
+  DebugStackFrame,
+  KernelRef,
+  selectors
+} from "@nteract/core";
+
+interface ComponentProps {
+  contentRef: ContentRef;
+}
+
+interface StateProps {
+  kernelRef: KernelRef | null;
+  /**
+   * Only kernels which advertise the debugger in their kernel info can be
+   * debugged
+   */
+  isSupported: boolean;
+  session: DebugSessionRecord | null;
+  /**
+   * The number of each code cell, for showing where stack frames are
+   */
+  cellNumbers: { [id: string]: number };
+}
+
+interface DispatchProps {
+  startDebugging: (kernelRef: KernelRef) => void;
+  stopDebugging: (kernelRef: KernelRef) => void;
+  step: (
+    kernelRef: KernelRef,
+    command: actions.DebugStepCommand,
+    threadId: number
+  ) => void;
+  selectFrame: (kernelRef: KernelRef, frameId: number) => void;
+}
+
+type Props = ComponentProps & StateProps & DispatchProps;
+
+const stepButtons: Array<{ command: actions.DebugStepCommand; label: string }> = [
+  { command: "continue", label: "Continue" },
+  { command: "next", label: "Step Over" },
+  { command: "stepIn", label: "Step In" },
+  { command: "stepOut", label: "Step Out" }
+];
+
+/**
+ * Where a stack frame is, in terms of cells where possible. Frames outside of
+ * the notebook show the file they are in.
+ */
+export function frameLocation(
+  frame: DebugStackFrame,
+  session: DebugSessionRecord,
+  cellNumbers: { [id: string]: number }
+): string {
+  const id = session.sourcePaths.findKey(path => path === frame.path);
+  if (id && cellNumbers[id] !== undefined) {
+    return `Cell ${cellNumbers[id]}, line ${frame.line}`;
+  }
+  return `${frame.path || "<unknown>"}:${frame.line}`;
+}
+
+export class DebuggerPanel extends React.PureComponent<Props> {
+  renderSession(kernelRef: KernelRef, session: DebugSessionRecord) {
+    const { cellNumbers, step, selectFrame } = this.props;
+    const threadId = session.stoppedThreadId;
+
+    return (
+      <React.Fragment>
+        <div className="nteract-debugger-controls">
+          {stepButtons.map(({ command, label }) => (
+            <button
+              key={command}
+              className={`nteract-debugger-${command}`}
+              disabled={threadId === null}
+              onClick={() => threadId !== null && step(kernelRef, command, threadId)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {session.status !== "paused" ? (
+          <div className="nteract-debugger-empty">
+            {session.status === "starting"
+              ? "Starting the debugger…"
+              : "Running, the debugger pauses on breakpoints"}
+          </div>
+        ) : (
+          <React.Fragment>
+            <div className="nteract-debugger-section">Call Stack</div>
+            <ul className="nteract-debugger-frames">
+              {session.stackFrames.map(frame => (
+                <li
+                  key={frame.id}
+                  className={
+                    frame.id === session.frameId
+                      ? "nteract-debugger-frame selected"
+                      : "nteract-debugger-frame"
+                  }
+                  onClick={() => selectFrame(kernelRef, frame.id)}
+                >
+                  <span className="nteract-debugger-frame-name">
+                    {frame.name}
+                  </span>
+                  <span className="nteract-debugger-frame-location">
+                    {frameLocation(frame, session, cellNumbers)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {session.scopes.map(scope => (
+              <React.Fragment key={scope.name}>
+                <div className="nteract-debugger-section">{scope.name}</div>
+                <ul className="nteract-debugger-variables">
+                  {scope.variables.map(variable => (
+                    <li className="nteract-debugger-variable" key={variable.name}>
+                      <span className="nteract-debugger-variable-name">
+                        {variable.name}
+                      </span>
+                      <span
+                        className="nteract-debugger-variable-value"
+                        title={variable.type}
+                      >
+                        {variable.value}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </React.Fragment>
+            ))}
+          </React.Fragment>
+        )}
+      </React.Fragment>
+    );
+  }
+
+  render() {
+    const {
+      kernelRef,
+      isSupported,
+      session,
+      startDebugging,
+      stopDebugging
+    } = this.props;
+
+    return (
+      <div className="nteract-debugger">
+        <div className="nteract-debugger-header">
+          <span>Debugger</span>
+          {kernelRef && session ? (
+            <button
+              className="nteract-debugger-stop"
+              onClick={() => stopDebugging(kernelRef)}
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              className="nteract-debugger-start"
+              onClick={() => kernelRef && startDebugging(kernelRef)}
+              disabled={!kernelRef || !isSupported}
+              title="Pause the kernel on the breakpoints set in the gutter of code cells"
+            >
+              Start
+            </button>
+          )}
+        </div>
+        {kernelRef && session ? (
+          this.renderSession(kernelRef, session)
+        ) : (
+          <div className="nteract-debugger-empty">
+            {isSupported
+              ? "Not debugging"
+              : "The kernel does not support debugging"}
+          </div>
+        )}
+      </div>
+    );
+  }
+}
+
+const noCellNumbers = {};
+
+export const makeMapStateToProps = (
+  initialState: AppState,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  let cellOrder: unknown = null;
+  let cellNumbers: { [id: string]: number } = noCellNumbers;
+
+  const mapStateToProps = (state: AppState): StateProps => {
+    const model = selectors.model(state, { contentRef });
+    if (model && model.type === "notebook" && model.notebook.cellOrder !== cellOrder) {
+      cellOrder = model.notebook.cellOrder;
+      cellNumbers = {};
+      selectors.notebook
+        .codeCellIds(model)
+        .forEach((id: CellId, index: number) => (cellNumbers[id] = index + 1));
+    }
+
+    return {
+      kernelRef: selectors.kernelRefByContentRef(state, { contentRef }) || null,
+      isSupported: selectors.isDebuggerSupported(state, { contentRef }),
+      session: selectors.debugSessionByContentRef(state, { contentRef }),
+      cellNumbers
+    };
+  };
+  return mapStateToProps;
+};
+
+export const makeMapDispatchToProps = (
+  initialDispatch: Dispatch,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapDispatchToProps = (dispatch: Dispatch): DispatchProps => ({
+    startDebugging: (kernelRef: KernelRef) =>
+      dispatch(actions.startDebugging({ contentRef, kernelRef })),
+    stopDebugging: (kernelRef: KernelRef) =>
+      dispatch(actions.stopDebugging({ kernelRef })),
+    step: (
+      kernelRef: KernelRef,
+      command: actions.DebugStepCommand,
+      threadId: number
+    ) => dispatch(actions.debugStep({ kernelRef, command, threadId })),
+    selectFrame: (kernelRef: KernelRef, frameId: number) =>
+      dispatch(actions.selectDebugFrame({ kernelRef, frameId }))
+  });
+  return mapDispatchToProps;
+};
+
+export default connect<StateProps, DispatchProps, ComponentProps, AppState>(
+  makeMapStateToProps,
+  makeMapDispatchToProps
+)(DebuggerPanel);
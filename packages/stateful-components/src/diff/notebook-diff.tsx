@@ -0,0 +1,270 @@
+import Immutable from "immutable";
+import React from "react";
+import { connect } from "react-redux";
+
+import {
+  CellDiff,
+  diffNotebooks,
+  ImmutableNotebook,
+  ImmutableOutput,
+  MetadataChange,
+  splitLines
+} from "@nteract/commutable";
+import { AppState, ContentRef, selectors } from "@nteract/core";
+import { KernelOutputError, Output, StreamText } from "@nteract/outputs";
+import {
+  DiffCell,
+  DiffColumns,
+  DiffLine,
+  DiffMode,
+  SourceDiff
+} from "@nteract/presentational-components";
+
+import TransformMedia from "../outputs/transform-media";
+
+interface ComponentProps {
+  contentRef: ContentRef;
+  /**
+   * The version to compare with, e.g. the file on disk or a checkpoint
+   */
+  before: ImmutableNotebook;
+  /**
+   * The changed version, defaults to the notebook open in `contentRef`
+   */
+  after?: ImmutableNotebook;
+  mode?: DiffMode;
+  /**
+   * Show the cells which did not change rather than only counting them
+   */
+  showUnchanged?: boolean;
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+interface StateProps {
+  after?: ImmutableNotebook;
+}
+
+type Props = ComponentProps & StateProps;
+
+const unchangedLines = (source: string): DiffLine[] =>
+  splitLines(source).map(line => ({ type: "unchanged", line }));
+
+const outputsOf = (cell?: CellDiff["before"]): Immutable.List<ImmutableOutput> =>
+  cell && cell.cell_type === "code" ? cell.outputs : Immutable.List();
+
+function sourceLines(cell: CellDiff): DiffLine[] {
+  switch (cell.type) {
+    case "added":
+      return splitLines(cell.after!.source).map(line => ({ type: "added", line }));
+    case "removed":
+      return splitLines(cell.before!.source).map(line => ({ type: "removed", line }));
+    default:
+      return cell.source ?? unchangedLines(cell.after!.source);
+  }
+}
+
+function cellLabel(cell: CellDiff): string {
+  const changes: string[] = cell.type === "unchanged" ? [] : [cell.type];
+  if (cell.moved) {
+    changes.push("moved");
+  }
+  if (cell.cellTypeChanged) {
+    changes.push(`${cell.before!.cell_type} → ${cell.after!.cell_type}`);
+  }
+  if (cell.outputsChanged) {
+    changes.push("outputs changed");
+  }
+  return changes.join(", ");
+}
+
+const stringify = (value: any) =>
+  value === undefined ? "" : JSON.stringify(value, null, 2);
+
+const MetadataChanges = (props: { changes: MetadataChange[]; mode: DiffMode }) => (
+  <div className="nteract-diff-metadata">
+    {props.changes.map(change => (
+      <div className="nteract-diff-metadata-entry" key={change.key}>
+        <div className="nteract-diff-metadata-key">{change.key}</div>
+        <SourceDiff
+          mode={props.mode}
+          lines={[
+            ...splitLines(stringify(change.before)).map(line => ({
+              type: "removed" as const,
+              line
+            })),
+            ...splitLines(stringify(change.after)).map(line => ({
+              type: "added" as const,
+              line
+            }))
+          ]}
+        />
+      </div>
+    ))}
+  </div>
+);
+
+export class NotebookDiff extends React.PureComponent<Props> {
+  static defaultProps = {
+    mode: "inline" as DiffMode,
+    showUnchanged: false,
+    beforeLabel: "Before",
+    afterLabel: "After"
+  };
+
+  renderOutputs(
+    id: string,
+    outputs: Immutable.List<ImmutableOutput>,
+    className: string
+  ) {
+    const { contentRef } = this.props;
+    return (
+      <div className={`nteract-diff-outputs ${className}`}>
+        {outputs.map((output, index) => (
+          <Output output={output} key={index}>
+            <TransformMedia
+              output_type={"display_data"}
+              id={id}
+              contentRef={contentRef}
+              index={index}
+            />
+            <TransformMedia
+              output_type={"execute_result"}
+              id={id}
+              contentRef={contentRef}
+              index={index}
+            />
+            <KernelOutputError />
+            <StreamText />
+          </Output>
+        ))}
+      </div>
+    );
+  }
+
+  renderCellOutputs(cell: CellDiff) {
+    const before = outputsOf(cell.before);
+    const after = outputsOf(cell.after);
+    const id = (cell.afterId ?? cell.beforeId)!;
+
+    if (cell.type === "added" || cell.type === "removed") {
+      const outputs = cell.type === "added" ? after : before;
+      return outputs.isEmpty()
+        ? null
+        : this.renderOutputs(id, outputs, `nteract-diff-outputs-${cell.type}`);
+    }
+    if (!cell.outputsChanged) {
+      return null;
+    }
+
+    const removed = this.renderOutputs(id, before, "nteract-diff-outputs-removed");
+    const added = this.renderOutputs(id, after, "nteract-diff-outputs-added");
+    if (this.props.mode === "side-by-side") {
+      return (
+        <DiffColumns>
+          {removed}
+          {added}
+        </DiffColumns>
+      );
+    }
+    return (
+      <React.Fragment>
+        {removed}
+        {added}
+      </React.Fragment>
+    );
+  }
+
+  renderCell(cell: CellDiff) {
+    const { mode } = this.props;
+    const key = `${cell.beforeId ?? ""}:${cell.afterId ?? ""}`;
+    return (
+      <DiffCell
+        className={`nteract-diff-cell nteract-diff-cell-${cell.type}`}
+        status={cell.type}
+        moved={cell.moved}
+        label={cellLabel(cell)}
+        key={key}
+      >
+        <SourceDiff
+          className="nteract-diff-source"
+          mode={mode}
+          lines={sourceLines(cell)}
+        />
+        {cell.metadata.length > 0 ? (
+          <MetadataChanges changes={cell.metadata} mode={mode!} />
+        ) : null}
+        {this.renderCellOutputs(cell)}
+      </DiffCell>
+    );
+  }
+
+  render() {
+    const { before, after, mode, showUnchanged, beforeLabel, afterLabel } = this.props;
+    if (!after) {
+      return null;
+    }
+
+    const diff = diffNotebooks(before, after);
+    const rendered: React.ReactNode[] = [];
+    let skipped = 0;
+    const flushSkipped = () => {
+      if (skipped > 0) {
+        rendered.push(
+          <div className="nteract-diff-unchanged" key={`unchanged-${rendered.length}`}>
+            {skipped === 1 ? "1 unchanged cell" : `${skipped} unchanged cells`}
+          </div>
+        );
+        skipped = 0;
+      }
+    };
+
+    diff.cells.forEach(cell => {
+      if (cell.type === "unchanged" && !cell.moved && !showUnchanged) {
+        skipped++;
+        return;
+      }
+      flushSkipped();
+      rendered.push(this.renderCell(cell));
+    });
+    flushSkipped();
+
+    return (
+      <div className={`nteract-notebook-diff nteract-notebook-diff-${mode}`}>
+        {mode === "side-by-side" ? (
+          <DiffColumns className="nteract-diff-header">
+            <div>{beforeLabel}</div>
+            <div>{afterLabel}</div>
+          </DiffColumns>
+        ) : (
+          <div className="nteract-diff-header">
+            {beforeLabel} → {afterLabel}
+          </div>
+        )}
+        {diff.metadata.length > 0 ? (
+          <DiffCell status="modified" label="notebook metadata">
+            <MetadataChanges changes={diff.metadata} mode={mode!} />
+          </DiffCell>
+        ) : null}
+        {rendered}
+      </div>
+    );
+  }
+}
+
+export const mapStateToProps = (
+  state: AppState,
+  ownProps: ComponentProps
+): StateProps => {
+  if (ownProps.after) {
+    return { after: ownProps.after };
+  }
+  const model = selectors.model(state, { contentRef: ownProps.contentRef });
+  return {
+    after: model && model.type === "notebook" ? model.notebook : undefined
+  };
+};
+
+export default connect<StateProps, void, ComponentProps, AppState>(
+  mapStateToProps
+)(NotebookDiff);
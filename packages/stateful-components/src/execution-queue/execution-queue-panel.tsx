@@ -0,0 +1,192 @@
+import React from "react";
+import { connect } from "react-redux";
+import { Dispatch } from "redux";
+
+import { CellId } from "@nteract/commutable";
+import {
+  actions,
+  AppState,
+  ContentRef,
+  KernelRef,
+  QueuedExecution,
+  selectors
+} from "@nteract/core";
+
+/**
+ * A cell of the notebook waiting for its turn, with its position in the
+ * kernel's queue.
+ */
+export interface QueuedCell {
+  id: CellId;
+  source: string;
+  index: number;
+}
+
+interface ComponentProps {
+  contentRef: ContentRef;
+}
+
+interface StateProps {
+  kernelRef: KernelRef | null;
+  running: QueuedCell | null;
+  queued: QueuedCell[];
+  continueOnError: boolean;
+}
+
+interface DispatchProps {
+  dequeue: (kernelRef: KernelRef, id: CellId) => void;
+  move: (kernelRef: KernelRef, id: CellId, index: number) => void;
+  setContinueOnError: (continueOnError: boolean) => void;
+}
+
+type Props = ComponentProps & StateProps & DispatchProps;
+
+/**
+ * The first line of a cell, to tell the queued cells apart.
+ */
+export function firstLine(source: string): string {
+  const line = source.split("\n").find(text => text.trim() !== "");
+  return line ? line.trim() : "";
+}
+
+export class ExecutionQueuePanel extends React.PureComponent<Props> {
+  renderQueued(kernelRef: KernelRef, cell: QueuedCell, position: number) {
+    const { queued, dequeue, move } = this.props;
+    const previous = queued[position - 1];
+    const next = queued[position + 1];
+
+    return (
+      <li className="nteract-execution-queue-cell" key={cell.id}>
+        <span className="nteract-execution-queue-prompt">[-]</span>
+        <span className="nteract-execution-queue-source">{cell.source}</span>
+        <button
+          title="Run earlier"
+          disabled={!previous}
+          onClick={() => previous && move(kernelRef, cell.id, previous.index)}
+        >
+          ↑
+        </button>
+        <button
+          title="Run later"
+          disabled={!next}
+          onClick={() => next && move(kernelRef, cell.id, next.index)}
+        >
+          ↓
+        </button>
+        <button
+          title="Remove from the queue"
+          onClick={() => dequeue(kernelRef, cell.id)}
+        >
+          ×
+        </button>
+      </li>
+    );
+  }
+
+  render() {
+    const {
+      kernelRef,
+      running,
+      queued,
+      continueOnError,
+      setContinueOnError
+    } = this.props;
+
+    return (
+      <div className="nteract-execution-queue">
+        <div className="nteract-execution-queue-header">Execution queue</div>
+        <label className="nteract-execution-queue-option">
+          <input
+            type="checkbox"
+            checked={continueOnError}
+            onChange={event => setContinueOnError(event.target.checked)}
+          />
+          Continue on error
+        </label>
+        {running ? (
+          <div className="nteract-execution-queue-running">
+            <span className="nteract-execution-queue-prompt">[*]</span>
+            <span className="nteract-execution-queue-source">
+              {running.source}
+            </span>
+          </div>
+        ) : null}
+        {kernelRef && queued.length > 0 ? (
+          <ol className="nteract-execution-queue-list">
+            {queued.map((cell, position) =>
+              this.renderQueued(kernelRef, cell, position)
+            )}
+          </ol>
+        ) : (
+          <div className="nteract-execution-queue-empty">
+            No cells waiting to run
+          </div>
+        )}
+      </div>
+    );
+  }
+}
+
+export const makeMapStateToProps = (
+  initialState: AppState,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapStateToProps = (state: AppState): StateProps => {
+    const model = selectors.model(state, { contentRef });
+    const kernelRef =
+      selectors.kernelRefByContentRef(state, { contentRef }) || null;
+    const queue = selectors.executionQueue(state, { kernelRef });
+    if (!model || model.type !== "notebook" || !queue) {
+      return { kernelRef, running: null, queued: [], continueOnError: false };
+    }
+
+    const describeExecution = (execution: QueuedExecution, index: number) => {
+      const cell = selectors.notebook.cellById(model, { id: execution.id });
+      return {
+        id: execution.id,
+        source: firstLine(cell ? cell.get("source", "") : ""),
+        index
+      };
+    };
+    const ofThisNotebook = (execution: QueuedExecution | null) =>
+      execution !== null && execution.contentRef === contentRef;
+
+    return {
+      kernelRef,
+      running:
+        queue.running && ofThisNotebook(queue.running)
+          ? describeExecution(queue.running, -1)
+          : null,
+      queued: queue.queued
+        .map(describeExecution)
+        .filter((cell, index) => ofThisNotebook(queue.queued.get(index, null)))
+        .toArray(),
+      continueOnError: selectors.notebook.continueOnError(model)
+    };
+  };
+  return mapStateToProps;
+};
+
+export const makeMapDispatchToProps = (
+  initialDispatch: Dispatch,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapDispatchToProps = (dispatch: Dispatch): DispatchProps => ({
+    dequeue: (kernelRef: KernelRef, id: CellId) =>
+      dispatch(actions.dequeueExecution({ kernelRef, contentRef, id })),
+    move: (kernelRef: KernelRef, id: CellId, index: number) =>
+      dispatch(
+        actions.moveQueuedExecution({ kernelRef, contentRef, id, index })
+      ),
+    setContinueOnError: (continueOnError: boolean) =>
+      dispatch(actions.setContinueOnError({ contentRef, continueOnError }))
+  });
+  return mapDispatchToProps;
+};
+
+export default connect<StateProps, DispatchProps, ComponentProps, AppState>(
+  makeMapStateToProps,
+  makeMapDispatchToProps
+)(ExecutionQueuePanel);
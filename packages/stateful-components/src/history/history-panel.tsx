@@ -0,0 +1,221 @@
+import React from "react";
+import { connect } from "react-redux";
+import { Dispatch } from "redux";
+
+import { CellId, makeCodeCell } from "@nteract/commutable";
+import {
+  actions,
+  AppState,
+  ContentRef,
+  KernelHistoryInput,
+  KernelHistoryQuery,
+  KernelHistoryRecord,
+  KernelRef,
+  selectors
+} from "@nteract/core";
+
+interface ComponentProps {
+  contentRef: ContentRef;
+}
+
+interface StateProps {
+  kernelRef: KernelRef | null;
+  history: KernelHistoryRecord | null;
+  cellFocused: CellId | null;
+}
+
+interface DispatchProps {
+  fetchHistory: (kernelRef: KernelRef, query: KernelHistoryQuery) => void;
+  fetchMore: (kernelRef: KernelRef) => void;
+  insertInput: (source: string, below: CellId | null) => void;
+}
+
+type Props = ComponentProps & StateProps & DispatchProps;
+
+interface State {
+  search: string;
+}
+
+/**
+ * Parses a range of lines the way IPython's `%history` takes them, like
+ * `4-7` for the current session or `~1/4-7` for the one before it.
+ *
+ * @returns The range, or null if the text isn't one
+ */
+export function parseHistoryRange(text: string): KernelHistoryQuery | null {
+  const match = /^\s*(?:~(\d+)\/)?(\d+)-(\d+)\s*$/.exec(text);
+  if (!match) {
+    return null;
+  }
+  const [, sessionsBack, start, stop] = match;
+  return {
+    mode: "range",
+    session: sessionsBack ? -parseInt(sessionsBack, 10) : 0,
+    start: parseInt(start, 10),
+    // Ranges include their last line, the kernel stops right before it
+    stop: parseInt(stop, 10) + 1
+  };
+}
+
+/**
+ * The query for what was typed in the search box: a range of lines, inputs
+ * containing the text, or the most recent ones when it's empty.
+ */
+export function historyQuery(search: string): KernelHistoryQuery {
+  const range = parseHistoryRange(search);
+  if (range) {
+    return range;
+  }
+  return search.trim()
+    ? { mode: "search", pattern: `*${search.trim()}*` }
+    : { mode: "tail" };
+}
+
+export class HistoryPanel extends React.PureComponent<Props, State> {
+  state: State = { search: "" };
+
+  componentDidMount() {
+    this.fetchHistory();
+  }
+
+  componentDidUpdate(prevProps: Props) {
+    if (prevProps.kernelRef !== this.props.kernelRef) {
+      this.fetchHistory();
+    }
+  }
+
+  fetchHistory = () => {
+    const { kernelRef, fetchHistory } = this.props;
+    if (kernelRef) {
+      fetchHistory(kernelRef, historyQuery(this.state.search));
+    }
+  };
+
+  onSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    this.fetchHistory();
+  };
+
+  renderInput(input: KernelHistoryInput) {
+    const { insertInput, cellFocused } = this.props;
+
+    return (
+      <li
+        className="nteract-history-input"
+        key={`${input.session}/${input.line}`}
+      >
+        <span className="nteract-history-line">
+          {input.session}/{input.line}
+        </span>
+        <pre className="nteract-history-source">{input.source}</pre>
+        <button
+          title="Insert as a new cell below the focused one"
+          onClick={() => insertInput(input.source, cellFocused)}
+        >
+          Insert
+        </button>
+      </li>
+    );
+  }
+
+  renderHistory(kernelRef: KernelRef, history: KernelHistoryRecord) {
+    const { fetchMore } = this.props;
+
+    return (
+      <React.Fragment>
+        {history.error ? (
+          <div className="nteract-history-error">{history.error}</div>
+        ) : null}
+        {history.inputs.size === 0 && history.status === "fetched" ? (
+          <div className="nteract-history-empty">No inputs found</div>
+        ) : (
+          <ul className="nteract-history-list">
+            {history.inputs.map(input => this.renderInput(input))}
+          </ul>
+        )}
+        {history.hasMore ? (
+          <button
+            className="nteract-history-more"
+            onClick={() => fetchMore(kernelRef)}
+            disabled={history.status === "fetching"}
+          >
+            Load more
+          </button>
+        ) : null}
+      </React.Fragment>
+    );
+  }
+
+  render() {
+    const { kernelRef, history } = this.props;
+
+    return (
+      <div className="nteract-history">
+        <div className="nteract-history-header">History</div>
+        <form className="nteract-history-search" onSubmit={this.onSubmit}>
+          <input
+            type="search"
+            placeholder="Search, or a range like 1-10"
+            value={this.state.search}
+            onChange={event => this.setState({ search: event.target.value })}
+          />
+          <button type="submit" disabled={!kernelRef}>
+            Search
+          </button>
+        </form>
+        {kernelRef && history ? (
+          this.renderHistory(kernelRef, history)
+        ) : (
+          <div className="nteract-history-empty">No kernel running</div>
+        )}
+      </div>
+    );
+  }
+}
+
+export const makeMapStateToProps = (
+  initialState: AppState,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapStateToProps = (state: AppState): StateProps => {
+    const model = selectors.model(state, { contentRef });
+    return {
+      kernelRef: selectors.kernelRefByContentRef(state, { contentRef }) || null,
+      history: selectors.kernelHistoryByContentRef(state, { contentRef }),
+      cellFocused:
+        model && model.type === "notebook"
+          ? selectors.notebook.cellFocused(model) || null
+          : null
+    };
+  };
+  return mapStateToProps;
+};
+
+export const makeMapDispatchToProps = (
+  initialDispatch: Dispatch,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapDispatchToProps = (dispatch: Dispatch): DispatchProps => ({
+    fetchHistory: (kernelRef: KernelRef, query: KernelHistoryQuery) =>
+      dispatch(actions.fetchKernelHistory({ kernelRef, query })),
+    fetchMore: (kernelRef: KernelRef) =>
+      dispatch(actions.fetchMoreKernelHistory({ kernelRef })),
+    insertInput: (source: string, below: CellId | null) => {
+      const cell = makeCodeCell({ source });
+      // Without a focused cell, the input goes at the end of the notebook
+      dispatch(
+        below
+          ? actions.createCellBelow({ id: below, cellType: "code", cell, contentRef })
+          : actions.createCellAppend({ cellType: "code", cell, contentRef })
+      );
+    }
+  });
+  return mapDispatchToProps;
+};
+
+export default connect<StateProps, DispatchProps, ComponentProps, AppState>(
+  makeMapStateToProps,
+  makeMapDispatchToProps
+)(HistoryPanel);
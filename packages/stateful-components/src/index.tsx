@@ -8,7 +8,21 @@ import CodeCell from "./cells/code-cell";
 import MarkdownCell from "./cells/markdown-cell";
 import RawCell from "./cells/raw-cell";
 import CellToolbar, { CellToolbarContext } from "./cells/toolbar";
+import Checkpoints from "./checkpoints/checkpoints";
+import Console from "./console/console";
+import NotebookConsole from "./console/notebook-console";
+import DebuggerPanel from "./debugger/debugger-panel";
+import NotebookDiff from "./diff/notebook-diff";
+import ExecutionQueuePanel from "./execution-queue/execution-queue-panel";
+import HistoryPanel from "./history/history-panel";
 import StatusBar, { StatusBarContext } from "./notebook/status-bar";
+import ParametersForm from "./parameters/parameters-form";
+import RunProfile from "./profile/run-profile";
+import ReactivePanel from "./reactive/reactive-panel";
+import RecoveryBanner from "./recovery/recovery-banner";
+import Terminal from "./terminal/terminal";
+import TerminalsPanel from "./terminal/terminals-panel";
+import VariableInspector from "./variables/variable-inspector";
 
 import ThemeFromConfig from "./decorators/theme-from-config";
 
@@ -39,6 +53,20 @@ export {
   AppSidebar,
   AppSidebarProps,
   AppSidebarContext,
+  NotebookDiff,
+  Checkpoints,
+  Console,
+  DebuggerPanel,
+  ExecutionQueuePanel,
+  HistoryPanel,
+  NotebookConsole,
+  ParametersForm,
+  ReactivePanel,
+  RecoveryBanner,
+  RunProfile,
+  Terminal,
+  TerminalsPanel,
+  VariableInspector,
 };
 
 export { userTheme } from "./config-options";
@@ -3,6 +3,9 @@ import CodeMirrorEditor from "@nteract/editor";
 import { createConfigCollection, createDeprecatedConfigOption, defineConfigOption, HasPrivateConfigurationState } from "@nteract/mythic-configuration";
 import { connect } from "react-redux";
 import { Dispatch } from "redux";
+import { breakpointLines, pausedLine, toggleBreakpoint } from "./debugging";
+import { checkIsComplete, executeCell } from "./execution";
+import { remoteCursors, reportCursor } from "./presence";
 
 const codeMirrorConfig = createConfigCollection({
   key: "codeMirror",
@@ -99,6 +102,9 @@ interface ComponentProps {
 interface DispatchProps {
   focusAbove: () => void;
   focusBelow: () => void;
+  onCursorChange: (cursor: { anchor: number; head: number }) => void;
+  onToggleBreakpoint: (line: number) => void;
+  onExecute: () => void;
 }
 
 const makeMapStateToProps = (state: AppState & HasPrivateConfigurationState, ownProps: ComponentProps) => {
@@ -148,6 +154,10 @@ const makeMapStateToProps = (state: AppState & HasPrivateConfigurationState, own
       lineWrapping,
       tip: true,
       completion: true,
+      remoteCursors: remoteCursors(state, id),
+      breakpoints: breakpointLines(state, contentRef, id),
+      pausedLine: pausedLine(state, contentRef, id),
+      checkIsComplete: checkIsComplete(state, contentRef, id),
     };
   };
   return mapStateToProps;
@@ -167,7 +177,10 @@ export const makeMapDispatchToProps = (
       focusAbove: () => {
         dispatch(actions.focusPreviousCell({ id, contentRef }));
         dispatch(actions.focusPreviousCellEditor({ id, contentRef }));
-      }
+      },
+      onCursorChange: reportCursor(dispatch, id),
+      onToggleBreakpoint: toggleBreakpoint(dispatch, contentRef, id),
+      onExecute: executeCell(dispatch, contentRef, id),
     }
   };
   return mapDispatchToProps;
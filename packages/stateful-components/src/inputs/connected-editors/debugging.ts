@@ -0,0 +1,33 @@
+import { CellId } from "@nteract/commutable";
+import { actions, AppState, ContentRef, selectors } from "@nteract/core";
+import { Set } from "immutable";
+import { Dispatch } from "redux";
+
+const linesByBreakpoints = new WeakMap<Set<number>, number[]>();
+
+/**
+ * Lines of a code cell with a breakpoint, or undefined when the cell can't be debugged so that
+ * editors hide their breakpoint gutter. Memoized on the breakpoints so that editors are only
+ * updated when they actually changed.
+ */
+export const breakpointLines = (state: AppState, contentRef: ContentRef, id: CellId): number[] | undefined => {
+  const model = selectors.model(state, { contentRef });
+  const cell = model && model.type === "notebook" ? selectors.notebook.cellById(model, { id }) : null;
+  if (!cell || cell.cell_type !== "code" || !selectors.isDebuggerSupported(state, { contentRef })) {
+    return undefined;
+  }
+
+  const breakpoints = selectors.breakpoints(state, { id });
+  let lines = linesByBreakpoints.get(breakpoints);
+  if (!lines) {
+    lines = breakpoints.sort().toArray();
+    linesByBreakpoints.set(breakpoints, lines);
+  }
+  return lines;
+};
+
+export const pausedLine = (state: AppState, contentRef: ContentRef, id: CellId) =>
+  selectors.pausedLine(state, { contentRef, id });
+
+export const toggleBreakpoint = (dispatch: Dispatch, contentRef: ContentRef, id: CellId) => (line: number) =>
+  dispatch(actions.toggleBreakpoint({ contentRef, id, line }));
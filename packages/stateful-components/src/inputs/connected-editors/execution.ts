@@ -0,0 +1,23 @@
+import { CellId } from "@nteract/commutable";
+import { actions, AppState, ContentRef, selectors } from "@nteract/core";
+import { Dispatch } from "redux";
+
+import { checkCodeIsComplete } from "../../config-options";
+
+/**
+ * Whether the editor of a code cell asks the kernel if its code is complete before running it.
+ */
+export const checkIsComplete = (state: AppState, contentRef: ContentRef, id: CellId): boolean => {
+  const model = selectors.model(state, { contentRef });
+  const cell = model && model.type === "notebook" ? selectors.notebook.cellById(model, { id }) : null;
+  return !!cell && cell.cell_type === "code" && !!checkCodeIsComplete(state as any);
+};
+
+/**
+ * Runs the cell and moves on to the next one, like Shift+Enter does when the editor doesn't handle it.
+ */
+export const executeCell = (dispatch: Dispatch, contentRef: ContentRef, id: CellId) => () => {
+  dispatch(actions.executeCell({ id, contentRef }));
+  dispatch(actions.focusNextCell({ id, contentRef, createCellIfUndefined: true }));
+  dispatch(actions.focusNextCellEditor({ id, contentRef }));
+};
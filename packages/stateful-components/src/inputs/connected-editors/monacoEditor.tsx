@@ -1,4 +1,5 @@
 import { connect } from "react-redux";
+import { Dispatch } from "redux";
 
 import { selectors, AppState, ContentRef } from "@nteract/core";
 import * as monaco from "@nteract/monaco-editor";
@@ -6,6 +7,9 @@ import * as monaco from "@nteract/monaco-editor";
 import { userTheme } from "../../config-options";
 import { Channels } from "@nteract/messaging";
 import { createConfigCollection } from "@nteract/mythic-configuration";
+import { breakpointLines, pausedLine, toggleBreakpoint } from "./debugging";
+import { checkIsComplete, executeCell } from "./execution";
+import { remoteCursors, reportCursor } from "./presence";
 
 const monacoConfig = createConfigCollection({
   key: "monaco",
@@ -85,10 +89,24 @@ const makeMapStateToProps = (initialState: AppState, ownProps: ComponentProps) =
       indentSize: 4,
       lineNumbers: false,
       tabSize: 4,
-      options
+      options,
+      remoteCursors: remoteCursors(state, id),
+      breakpoints: breakpointLines(state, contentRef, id),
+      pausedLine: pausedLine(state, contentRef, id),
+      checkIsComplete: checkIsComplete(state, contentRef, id)
     };
   }
   return mapStateToProps;
 };
 
-export default connect(makeMapStateToProps)(monaco.default);
\ No newline at end of file
+const makeMapDispatchToProps = (initialDispatch: Dispatch, ownProps: ComponentProps) => {
+  const { id, contentRef } = ownProps;
+  const mapDispatchToProps = (dispatch: Dispatch) => ({
+    onCursorChange: reportCursor(dispatch, id),
+    onToggleBreakpoint: toggleBreakpoint(dispatch, contentRef, id),
+    onExecute: executeCell(dispatch, contentRef, id)
+  });
+  return mapDispatchToProps;
+};
+
+export default connect(makeMapStateToProps, makeMapDispatchToProps)(monaco.default);
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { CellId } from "@nteract/commutable";
+import { AppState } from "@nteract/core";
+import { IPresence, selectors as collaborationSelectors, updatePresence } from "@nteract/mythic-rtc";
+import { Dispatch } from "redux";
+
+export interface RemoteCursor {
+  id: string;
+  label: string;
+  color: string;
+  anchor: number;
+  head: number;
+}
+
+const cursorsByParticipants = new WeakMap<IPresence[], RemoteCursor[]>();
+
+/**
+ * Cursors of the collaboration session participants editing a cell. Memoized on the participants
+ * so that editors are only updated when the cursors actually changed.
+ */
+export const remoteCursors = (state: AppState, id: CellId): RemoteCursor[] => {
+  const participants = collaborationSelectors.participantsInCell(state as any, { id });
+  let cursors = cursorsByParticipants.get(participants);
+  if (!cursors) {
+    cursors = participants
+      .filter((participant) => participant.cursor)
+      .map((participant) => ({
+        id: participant.id,
+        label: participant.displayName,
+        color: participant.color,
+        ...participant.cursor!
+      }));
+    cursorsByParticipants.set(participants, cursors);
+  }
+  return cursors;
+};
+
+/** Share the cursor of the local user with the collaboration session, if any. */
+export const reportCursor = (dispatch: Dispatch, id: CellId) => (cursor: { anchor: number; head: number }) =>
+  dispatch(updatePresence.create({ id, cursor }));
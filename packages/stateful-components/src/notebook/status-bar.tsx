@@ -18,6 +18,7 @@ interface StateProps {
   kernelRef?: KernelRef | null;
   lastSaved?: Date;
   kernelSpecDisplayName?: string;
+  pendingExecutions: number;
 }
 
 export const StatusBarContext = React.createContext({});
@@ -79,7 +80,8 @@ const makeMapStateToProps = (
       kernelRef,
       kernelStatus,
       lastSaved,
-      kernelSpecDisplayName
+      kernelSpecDisplayName,
+      pendingExecutions: selectors.pendingExecutions(state, { contentRef })
     };
   };
   return mapStateToProps;
@@ -0,0 +1,274 @@
+import Immutable from "immutable";
+import React from "react";
+import { connect } from "react-redux";
+
+import { createImmutableOutput, OnDiskOutput } from "@nteract/commutable";
+import { AppState, ContentRef, selectors } from "@nteract/core";
+import {
+  DisplayData,
+  ExecuteResult,
+  KernelOutputError,
+  Media,
+  Output,
+  StreamText
+} from "@nteract/outputs";
+
+type SavedModels = Immutable.Map<string, Immutable.Map<string, any>>;
+
+interface ComponentProps {
+  contentRef: ContentRef;
+  data: { model_id: string };
+}
+
+interface StateProps {
+  models: SavedModels;
+}
+
+type Props = ComponentProps & StateProps;
+
+interface ViewProps {
+  modelId: string;
+  models: SavedModels;
+}
+
+// Containers reference the models of their children as "IPY_MODEL_<id>"
+const MODEL_REFERENCE = /^IPY_MODEL_/;
+
+const COLUMN_BOXES = ["VBoxModel", "AccordionModel", "TabModel"];
+
+const media = [
+  <Media.HTML key="html" />,
+  <Media.Markdown key="markdown" />,
+  <Media.LaTeX key="latex" />,
+  <Media.SVG key="svg" />,
+  <Media.Image key="image" />,
+  <Media.Plain key="plain" />
+];
+
+/**
+ * The data URI of an image widget, from the buffer its value was saved as.
+ */
+export function savedImageSource(model: Immutable.Map<string, any>) {
+  const buffer = model
+    .get("buffers", Immutable.List())
+    .find((saved: Immutable.Map<string, any>) =>
+      Immutable.is(saved.get("path"), Immutable.List(["value"]))
+    );
+  if (!buffer || buffer.get("encoding") !== "base64") {
+    return undefined;
+  }
+
+  const format = model.getIn(["state", "format"], "png");
+  return `data:image/${format === "svg" ? "svg+xml" : format};base64,${buffer.get(
+    "data"
+  )}`;
+}
+
+/**
+ * Renders a widget from the state it was saved with. There is no kernel to
+ * send changes to, so the controls are disabled.
+ */
+export const SavedWidgetView = ({ modelId, models }: ViewProps) => {
+  const model = models.get(modelId);
+  if (!model) {
+    return null;
+  }
+
+  const state: Immutable.Map<string, any> = model.get("state", Immutable.Map());
+  const value = state.get("value");
+  const description = state.get("description") ? (
+    <span className="nteract-static-widget-description">
+      {state.get("description")}
+    </span>
+  ) : null;
+
+  switch (model.get("model_name")) {
+    case "IntSliderModel":
+    case "FloatSliderModel":
+      return (
+        <div className="nteract-static-widget">
+          {description}
+          <input
+            type="range"
+            min={state.get("min")}
+            max={state.get("max")}
+            step={state.get("step")}
+            value={value}
+            disabled
+            readOnly
+          />
+          <span className="nteract-static-widget-readout">{value}</span>
+        </div>
+      );
+    case "IntRangeSliderModel":
+    case "FloatRangeSliderModel":
+      return (
+        <div className="nteract-static-widget">
+          {description}
+          <span className="nteract-static-widget-readout">
+            {`${value.get(0)} – ${value.get(1)}`}
+          </span>
+        </div>
+      );
+    case "IntProgressModel":
+    case "FloatProgressModel":
+      return (
+        <div className="nteract-static-widget">
+          {description}
+          <progress
+            max={state.get("max") - state.get("min")}
+            value={value - state.get("min")}
+          />
+        </div>
+      );
+    case "CheckboxModel":
+      return (
+        <label className="nteract-static-widget">
+          <input type="checkbox" checked={value} disabled readOnly />
+          {description}
+        </label>
+      );
+    case "ButtonModel":
+    case "ToggleButtonModel":
+      return (
+        <button
+          className="nteract-static-widget"
+          aria-pressed={value}
+          disabled
+        >
+          {state.get("description")}
+        </button>
+      );
+    case "TextModel":
+    case "IntTextModel":
+    case "FloatTextModel":
+    case "BoundedIntTextModel":
+    case "BoundedFloatTextModel":
+      return (
+        <div className="nteract-static-widget">
+          {description}
+          <input type="text" value={value} disabled readOnly />
+        </div>
+      );
+    case "TextareaModel":
+      return (
+        <div className="nteract-static-widget">
+          {description}
+          <textarea value={value} disabled readOnly />
+        </div>
+      );
+    case "DropdownModel":
+    case "SelectModel":
+    case "RadioButtonsModel":
+    case "ToggleButtonsModel":
+      return (
+        <div className="nteract-static-widget">
+          {description}
+          <select value={state.get("index", "")} disabled>
+            {state
+              .get("_options_labels", Immutable.List())
+              .map((label: string, index: number) => (
+                <option key={index} value={index}>
+                  {label}
+                </option>
+              ))}
+          </select>
+        </div>
+      );
+    case "LabelModel":
+      return <span className="nteract-static-widget">{value}</span>;
+    case "HTMLModel":
+    case "HTMLMathModel":
+      return (
+        <div className="nteract-static-widget">
+          {description}
+          <Media.HTML data={value} />
+        </div>
+      );
+    case "ImageModel":
+      return (
+        <img
+          className="nteract-static-widget"
+          src={savedImageSource(model)}
+          alt={state.get("description", "")}
+          width={state.get("width") || undefined}
+          height={state.get("height") || undefined}
+        />
+      );
+    case "OutputModel":
+      return (
+        <div className="nteract-static-widget-outputs">
+          {state
+            .get("outputs", Immutable.List())
+            .map((output: Immutable.Map<string, any>, index: number) => (
+              <Output
+                output={createImmutableOutput(output.toJS() as OnDiskOutput)}
+                key={index}
+              >
+                <ExecuteResult>{media}</ExecuteResult>
+                <DisplayData>{media}</DisplayData>
+                <KernelOutputError />
+                <StreamText />
+              </Output>
+            ))}
+        </div>
+      );
+    case "BoxModel":
+    case "HBoxModel":
+    case "VBoxModel":
+    case "GridBoxModel":
+    case "AccordionModel":
+    case "TabModel":
+      return (
+        <div
+          className="nteract-static-widget-box"
+          style={{
+            display: "flex",
+            flexDirection: COLUMN_BOXES.includes(model.get("model_name"))
+              ? "column"
+              : "row"
+          }}
+        >
+          {state
+            .get("children", Immutable.List())
+            .map((child: string) => (
+              <SavedWidgetView
+                key={child}
+                modelId={child.replace(MODEL_REFERENCE, "")}
+                models={models}
+              />
+            ))}
+        </div>
+      );
+    default:
+      return null;
+  }
+};
+
+export class StaticWidget extends React.PureComponent<Props> {
+  render() {
+    const { data, models } = this.props;
+    return (
+      <div className="nteract-static-widget-view">
+        <SavedWidgetView modelId={data.model_id} models={models} />
+      </div>
+    );
+  }
+}
+
+const mapStateToProps = (
+  state: AppState,
+  ownProps: ComponentProps
+): StateProps => {
+  const model = selectors.model(state, ownProps);
+  return {
+    models:
+      model && model.type === "notebook"
+        ? selectors.notebook.savedWidgetModels(model)
+        : Immutable.Map()
+  };
+};
+
+export default connect<StateProps, {}, ComponentProps, AppState>(
+  mapStateToProps
+)(StaticWidget);
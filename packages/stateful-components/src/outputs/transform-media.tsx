@@ -1,10 +1,17 @@
 import { ImmutableDisplayData, ImmutableExecuteResult, JSONObject } from "@nteract/commutable";
-import { actions, AppState, ContentRef, selectors } from "@nteract/core";
+import {
+  actions,
+  AppState,
+  ContentRef,
+  selectors,
+  WIDGET_VIEW_MIMETYPE
+} from "@nteract/core";
 import Immutable from "immutable";
 import React from "react";
 import { connect } from "react-redux";
 import { Dispatch } from "redux";
 import { userTheme } from "../config-options";
+import StaticWidget from "./static-widget";
 
 interface ComponentProps {
   output_type: string;
@@ -82,7 +89,7 @@ export const mapStateToProps = (
   state: AppState,
   ownProps: ComponentProps
 ): StateProps => {
-  const { output, output_type } = ownProps;
+  const { output, output_type, contentRef } = ownProps;
   // This component should only be used with display data and execute result
   if (
     !output ||
@@ -100,7 +107,36 @@ export const mapStateToProps = (
   const order = selectors.displayOrder(state);
   const theme = userTheme(state);
 
-  const mediaType = richestMediaType(output, order, handlers);
+  let mediaType = richestMediaType(output, order, handlers);
+
+  // Without a kernel there are no live widgets, so widgets are rendered
+  // read-only from the state saved in the notebook
+  if (
+    mediaType === WIDGET_VIEW_MIMETYPE &&
+    !selectors.kernelByContentRef(state, { contentRef })
+  ) {
+    const model = selectors.model(state, { contentRef });
+    const data = output.data[mediaType] as { model_id: string };
+    if (
+      model &&
+      model.type === "notebook" &&
+      selectors.notebook.savedWidgetModels(model).has(data.model_id)
+    ) {
+      return {
+        Media: StaticWidget,
+        mediaType,
+        data,
+        metadata: output.metadata.get(mediaType),
+        theme
+      };
+    }
+
+    mediaType = richestMediaType(
+      output,
+      order.filter(type => type !== WIDGET_VIEW_MIMETYPE),
+      handlers
+    );
+  }
 
   if (mediaType) {
     const metadata = output.metadata.get(mediaType);
@@ -0,0 +1,226 @@
+import React from "react";
+import { connect } from "react-redux";
+import { Dispatch } from "redux";
+
+import {
+  JSONObject,
+  JSONType,
+  NotebookParameter,
+  parsePythonLiteral
+} from "@nteract/commutable";
+import { actions, AppState, ContentRef, selectors } from "@nteract/core";
+
+interface ComponentProps {
+  contentRef: ContentRef;
+  // Set while a run started from the form hasn't finished
+  running?: boolean;
+}
+
+interface StateProps {
+  parameters: NotebookParameter[] | null;
+  filepath: string | null;
+}
+
+interface DispatchProps {
+  run: (parameters: JSONObject, filepath: string) => void;
+}
+
+type Props = ComponentProps & StateProps & DispatchProps;
+
+interface State {
+  // What was typed for each parameter, booleans are checkboxes
+  inputs: { [name: string]: string | boolean };
+  output: string | null;
+}
+
+/**
+ * The path the executed copy of a notebook is saved to by default, next to
+ * the notebook.
+ */
+export function outputPath(filepath: string | null): string {
+  return `${(filepath || "Untitled").replace(/\.ipynb$/, "")}-output.ipynb`;
+}
+
+/**
+ * Reads what was typed for a parameter: strings are taken as they are, other
+ * types as Python literals.
+ *
+ * @returns The value, or `undefined` if it isn't valid
+ */
+export function parameterValue(
+  parameter: NotebookParameter,
+  input: string | boolean
+): JSONType | undefined {
+  if (typeof input === "boolean") {
+    return input;
+  }
+  return parameter.type === "str" ? input : parsePythonLiteral(input);
+}
+
+function initialInput(parameter: NotebookParameter): string | boolean {
+  if (parameter.type === "bool" && typeof parameter.value === "boolean") {
+    return parameter.value;
+  }
+  return parameter.type === "str" && typeof parameter.value === "string"
+    ? parameter.value
+    : parameter.source;
+}
+
+export class ParametersForm extends React.PureComponent<Props, State> {
+  state: State = { inputs: {}, output: null };
+
+  input(parameter: NotebookParameter): string | boolean {
+    const input = this.state.inputs[parameter.name];
+    return input === undefined ? initialInput(parameter) : input;
+  }
+
+  setInput(name: string, input: string | boolean) {
+    this.setState(({ inputs }) => ({ inputs: { ...inputs, [name]: input } }));
+  }
+
+  invalid(): string[] {
+    return (this.props.parameters || [])
+      .filter(parameter => parameter.name in this.state.inputs)
+      .filter(
+        parameter =>
+          parameterValue(parameter, this.input(parameter)) === undefined
+      )
+      .map(parameter => parameter.name);
+  }
+
+  onSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const { parameters, filepath, run } = this.props;
+    if (!parameters || this.invalid().length > 0) {
+      return;
+    }
+
+    // Like papermill, only the parameters that were changed are injected
+    const values: JSONObject = {};
+    parameters
+      .filter(parameter => parameter.name in this.state.inputs)
+      .forEach(parameter => {
+        values[parameter.name] = parameterValue(
+          parameter,
+          this.input(parameter)
+        ) as JSONType;
+      });
+    run(values, this.state.output || outputPath(filepath));
+  };
+
+  renderParameter(parameter: NotebookParameter, invalid: boolean) {
+    const input = this.input(parameter);
+
+    return (
+      <li
+        className={
+          invalid ? "nteract-parameter invalid" : "nteract-parameter"
+        }
+        key={parameter.name}
+      >
+        <label>
+          <span className="nteract-parameter-name">{parameter.name}</span>
+          {typeof input === "boolean" ? (
+            <input
+              type="checkbox"
+              checked={input}
+              onChange={event =>
+                this.setInput(parameter.name, event.target.checked)
+              }
+            />
+          ) : (
+            <input
+              type="text"
+              value={input}
+              onChange={event =>
+                this.setInput(parameter.name, event.target.value)
+              }
+            />
+          )}
+          <span className="nteract-parameter-type">{parameter.type}</span>
+        </label>
+        {parameter.help ? (
+          <div className="nteract-parameter-help">{parameter.help}</div>
+        ) : null}
+      </li>
+    );
+  }
+
+  render() {
+    const { parameters, filepath, running } = this.props;
+    if (!parameters) {
+      return (
+        <div className="nteract-parameters-empty">
+          Tag a cell with &quot;parameters&quot; to run the notebook with
+          parameters
+        </div>
+      );
+    }
+
+    const invalid = this.invalid();
+    return (
+      <form className="nteract-parameters" onSubmit={this.onSubmit}>
+        <ul className="nteract-parameters-list">
+          {parameters.map(parameter =>
+            this.renderParameter(parameter, invalid.includes(parameter.name))
+          )}
+        </ul>
+        {invalid.length > 0 ? (
+          <div className="nteract-parameters-error">
+            Not a valid value: {invalid.join(", ")}
+          </div>
+        ) : null}
+        <label className="nteract-parameters-output">
+          Save the executed notebook as
+          <input
+            type="text"
+            value={
+              this.state.output === null
+                ? outputPath(filepath)
+                : this.state.output
+            }
+            onChange={event => this.setState({ output: event.target.value })}
+          />
+        </label>
+        <button type="submit" disabled={running || invalid.length > 0}>
+          {running ? "Running…" : "Run"}
+        </button>
+      </form>
+    );
+  }
+}
+
+export const makeMapStateToProps = (
+  initialState: AppState,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapStateToProps = (state: AppState): StateProps => {
+    const model = selectors.model(state, { contentRef });
+    return {
+      parameters:
+        model && model.type === "notebook"
+          ? selectors.notebook.parameters(model)
+          : null,
+      filepath: selectors.filepath(state, { contentRef })
+    };
+  };
+  return mapStateToProps;
+};
+
+export const makeMapDispatchToProps = (
+  initialDispatch: Dispatch,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapDispatchToProps = (dispatch: Dispatch): DispatchProps => ({
+    run: (parameters: JSONObject, filepath: string) =>
+      dispatch(actions.runWithParameters({ contentRef, parameters, filepath }))
+  });
+  return mapDispatchToProps;
+};
+
+export default connect<StateProps, DispatchProps, ComponentProps, AppState>(
+  makeMapStateToProps,
+  makeMapDispatchToProps
+)(ParametersForm);
@@ -0,0 +1,129 @@
+import React from "react";
+import { connect } from "react-redux";
+import { Dispatch } from "redux";
+
+import { CellId } from "@nteract/commutable";
+import { actions, AppState, ContentRef, selectors } from "@nteract/core";
+
+import { formatDuration } from "../cells/execution-timing";
+import { firstLine } from "../execution-queue/execution-queue-panel";
+
+/**
+ * A cell that ran, as listed in the profile.
+ */
+export interface ProfiledCell {
+  id: CellId;
+  executionCount: number | null;
+  source: string;
+  duration: number | null;
+  stale: boolean;
+}
+
+interface ComponentProps {
+  contentRef: ContentRef;
+}
+
+interface StateProps {
+  cells: ProfiledCell[];
+}
+
+interface DispatchProps {
+  focusCell: (id: CellId) => void;
+}
+
+type Props = ComponentProps & StateProps & DispatchProps;
+
+export class RunProfile extends React.PureComponent<Props> {
+  renderCell(cell: ProfiledCell) {
+    const { focusCell } = this.props;
+
+    return (
+      <li
+        className={`nteract-run-profile-cell${cell.stale ? " stale" : ""}`}
+        key={cell.id}
+        title={
+          cell.stale
+            ? "A cell above it ran again since, its outputs may be out of date"
+            : undefined
+        }
+        onClick={() => focusCell(cell.id)}
+      >
+        <span className="nteract-run-profile-prompt">
+          [{cell.executionCount === null ? " " : cell.executionCount}]
+        </span>
+        <span className="nteract-run-profile-source">{cell.source}</span>
+        <span className="nteract-run-profile-duration">
+          {cell.duration === null ? "running" : formatDuration(cell.duration)}
+        </span>
+      </li>
+    );
+  }
+
+  render() {
+    const { cells } = this.props;
+    const total = cells.reduce((sum, cell) => sum + (cell.duration || 0), 0);
+    const stale = cells.filter(cell => cell.stale).length;
+
+    return (
+      <div className="nteract-run-profile">
+        <div className="nteract-run-profile-header">Run profile</div>
+        {cells.length === 0 ? (
+          <div className="nteract-run-profile-empty">No cells ran yet</div>
+        ) : (
+          <React.Fragment>
+            <div className="nteract-run-profile-summary">
+              {cells.length} {cells.length === 1 ? "cell" : "cells"} ran for{" "}
+              {formatDuration(total)}
+              {stale > 0 ? `, ${stale} stale` : null}
+            </div>
+            <ol className="nteract-run-profile-list">
+              {cells.map(cell => this.renderCell(cell))}
+            </ol>
+          </React.Fragment>
+        )}
+      </div>
+    );
+  }
+}
+
+export const makeMapStateToProps = (
+  initialState: AppState,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapStateToProps = (state: AppState): StateProps => {
+    const model = selectors.model(state, { contentRef });
+    if (!model || model.type !== "notebook") {
+      return { cells: [] };
+    }
+    return {
+      cells: selectors.notebook.runProfile(model).map(run => {
+        const cell = selectors.notebook.cellById(model, { id: run.id });
+        return {
+          id: run.id,
+          executionCount: run.executionCount,
+          source: firstLine(cell ? cell.get("source", "") : ""),
+          duration: run.duration,
+          stale: run.stale
+        };
+      })
+    };
+  };
+  return mapStateToProps;
+};
+
+export const makeMapDispatchToProps = (
+  initialDispatch: Dispatch,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapDispatchToProps = (dispatch: Dispatch): DispatchProps => ({
+    focusCell: (id: CellId) => dispatch(actions.focusCell({ id, contentRef }))
+  });
+  return mapDispatchToProps;
+};
+
+export default connect<StateProps, DispatchProps, ComponentProps, AppState>(
+  makeMapStateToProps,
+  makeMapDispatchToProps
+)(RunProfile);
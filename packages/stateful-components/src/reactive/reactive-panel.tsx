@@ -0,0 +1,130 @@
+import React from "react";
+import { connect } from "react-redux";
+import { Dispatch } from "redux";
+
+import { CellId } from "@nteract/commutable";
+import { actions, AppState, ContentRef, selectors } from "@nteract/core";
+
+import { firstLine } from "../execution-queue/execution-queue-panel";
+
+/**
+ * A cell whose outputs may be out of date.
+ */
+export interface StaleCell {
+  id: CellId;
+  source: string;
+}
+
+interface ComponentProps {
+  contentRef: ContentRef;
+}
+
+interface StateProps {
+  reactive: boolean;
+  staleCells: StaleCell[];
+}
+
+interface DispatchProps {
+  setReactiveMode: (reactive: boolean) => void;
+  executeStaleCells: () => void;
+  focusCell: (id: CellId) => void;
+}
+
+type Props = ComponentProps & StateProps & DispatchProps;
+
+export class ReactivePanel extends React.PureComponent<Props> {
+  render() {
+    const {
+      reactive,
+      staleCells,
+      setReactiveMode,
+      executeStaleCells,
+      focusCell
+    } = this.props;
+
+    return (
+      <div className="nteract-reactive">
+        <div className="nteract-reactive-header">Reactive mode</div>
+        <label
+          className="nteract-reactive-option"
+          title="Running a cell runs the cells using the names it defines again"
+        >
+          <input
+            type="checkbox"
+            checked={reactive}
+            onChange={event => setReactiveMode(event.target.checked)}
+          />
+          Re-run dependent cells
+        </label>
+        {staleCells.length === 0 ? (
+          <div className="nteract-reactive-empty">No stale cells</div>
+        ) : (
+          <React.Fragment>
+            <ol className="nteract-reactive-list">
+              {staleCells.map(cell => (
+                <li
+                  className="nteract-reactive-cell"
+                  key={cell.id}
+                  onClick={() => focusCell(cell.id)}
+                >
+                  {cell.source}
+                </li>
+              ))}
+            </ol>
+            <button
+              className="nteract-reactive-run"
+              onClick={() => executeStaleCells()}
+            >
+              Run {staleCells.length} stale{" "}
+              {staleCells.length === 1 ? "cell" : "cells"}
+            </button>
+          </React.Fragment>
+        )}
+      </div>
+    );
+  }
+}
+
+export const makeMapStateToProps = (
+  initialState: AppState,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapStateToProps = (state: AppState): StateProps => {
+    const model = selectors.model(state, { contentRef });
+    if (!model || model.type !== "notebook") {
+      return { reactive: false, staleCells: [] };
+    }
+    return {
+      reactive: selectors.notebook.isReactive(model),
+      staleCells: selectors.notebook
+        .staleCellIds(model)
+        .map(id => {
+          const cell = selectors.notebook.cellById(model, { id });
+          return { id, source: firstLine(cell ? cell.get("source", "") : "") };
+        })
+        .toArray()
+    };
+  };
+  return mapStateToProps;
+};
+
+export const makeMapDispatchToProps = (
+  initialDispatch: Dispatch,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapDispatchToProps = (dispatch: Dispatch): DispatchProps => ({
+    setReactiveMode: (reactive: boolean) =>
+      dispatch(actions.setReactiveMode({ contentRef, reactive })),
+    executeStaleCells: () =>
+      dispatch(actions.executeStaleCells({ contentRef })),
+    focusCell: (id: CellId) => dispatch(actions.focusCell({ id, contentRef }))
+  });
+  return mapDispatchToProps;
+};
+
+export default connect<StateProps, DispatchProps, ComponentProps, AppState>(
+  makeMapStateToProps,
+  makeMapDispatchToProps
+)(ReactivePanel);
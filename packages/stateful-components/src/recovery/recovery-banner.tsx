@@ -0,0 +1,115 @@
+import React from "react";
+import { connect } from "react-redux";
+import { Dispatch } from "redux";
+
+import { CellDiff, diffNotebooks, ImmutableNotebook } from "@nteract/commutable";
+import { actions, AppState, ContentRef, RecoveryRecord, selectors } from "@nteract/core";
+
+interface ComponentProps {
+  contentRef: ContentRef;
+}
+
+interface StateProps {
+  recovery: RecoveryRecord | null;
+  /**
+   * The notebook as it was loaded from disk
+   */
+  notebook?: ImmutableNotebook;
+}
+
+interface DispatchProps {
+  restoreRecovery: () => void;
+  discardRecovery: () => void;
+}
+
+type Props = ComponentProps & StateProps & DispatchProps;
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/**
+ * Describes what restoring would change, e.g. "2 cells added, 1 cell modified"
+ */
+export function summarizeRecovery(
+  notebook: ImmutableNotebook,
+  recovered: ImmutableNotebook
+): string {
+  const { cells } = diffNotebooks(notebook, recovered);
+  const count = (type: CellDiff["type"]) =>
+    cells.filter(cell => cell.type === type).length;
+
+  const changes = (["added", "removed", "modified"] as Array<CellDiff["type"]>)
+    .map(type => ({ type, count: count(type) }))
+    .filter(change => change.count > 0)
+    .map(change => `${plural(change.count, "cell")} ${change.type}`);
+
+  return changes.length > 0 ? changes.join(", ") : "No cell changes";
+}
+
+export class RecoveryBanner extends React.PureComponent<Props> {
+  render() {
+    const { recovery, notebook, restoreRecovery, discardRecovery } = this.props;
+    if (!recovery || !notebook) {
+      return null;
+    }
+
+    return (
+      <div className="nteract-recovery-banner" role="alert">
+        <span className="nteract-recovery-message">
+          This notebook has unsaved changes from{" "}
+          <time dateTime={recovery.journaledAt?.toISOString()}>
+            {recovery.journaledAt
+              ? recovery.journaledAt.toLocaleString()
+              : "an earlier session"}
+          </time>
+          .
+        </span>
+        <span className="nteract-recovery-summary">
+          {summarizeRecovery(notebook, recovery.notebook)}
+        </span>
+        <button
+          className="nteract-recovery-restore"
+          onClick={restoreRecovery}
+          title="Replace the notebook with the unsaved changes"
+        >
+          Restore
+        </button>
+        <button className="nteract-recovery-discard" onClick={discardRecovery}>
+          Discard
+        </button>
+      </div>
+    );
+  }
+}
+
+export const makeMapStateToProps = (
+  initialState: AppState,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapStateToProps = (state: AppState): StateProps => {
+    const model = selectors.model(state, { contentRef });
+    return {
+      recovery: selectors.recovery(state, { contentRef }),
+      notebook: model && model.type === "notebook" ? model.notebook : undefined
+    };
+  };
+  return mapStateToProps;
+};
+
+export const makeMapDispatchToProps = (
+  initialDispatch: Dispatch,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapDispatchToProps = (dispatch: Dispatch): DispatchProps => ({
+    restoreRecovery: () => dispatch(actions.restoreRecovery({ contentRef })),
+    discardRecovery: () => dispatch(actions.discardRecovery({ contentRef }))
+  });
+  return mapDispatchToProps;
+};
+
+export default connect<StateProps, DispatchProps, ComponentProps, AppState>(
+  makeMapStateToProps,
+  makeMapDispatchToProps
+)(RecoveryBanner);
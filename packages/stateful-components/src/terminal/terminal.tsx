@@ -0,0 +1,191 @@
+import React from "react";
+import { connect } from "react-redux";
+import { Dispatch } from "redux";
+import { Subscription } from "rxjs";
+import { Terminal as XTerm } from "xterm";
+import { FitAddon } from "xterm-addon-fit";
+
+import {
+  actions,
+  AppState,
+  ContentRef,
+  selectors,
+  TerminalChannel
+} from "@nteract/core";
+
+interface ComponentProps {
+  contentRef: ContentRef;
+}
+
+interface StateProps {
+  name: string | null;
+  channel: TerminalChannel | null;
+  status: "connecting" | "connected" | "disconnected";
+  error: object | null;
+}
+
+interface DispatchProps {
+  reconnect: (name: string | null) => void;
+}
+
+type Props = ComponentProps & StateProps & DispatchProps;
+
+/**
+ * The text a message from the terminal websocket writes to the screen, if any.
+ */
+export function terminalOutput(message: any): string | null {
+  if (Array.isArray(message) && message[0] === "stdout") {
+    return message[1];
+  }
+  return null;
+}
+
+export class Terminal extends React.PureComponent<Props> {
+  private readonly screenRef = React.createRef<HTMLDivElement>();
+  private xterm: XTerm | null = null;
+  private fitAddon: FitAddon | null = null;
+  private subscription: Subscription | null = null;
+
+  componentDidMount() {
+    const screen = this.screenRef.current;
+    if (!screen) {
+      return;
+    }
+
+    this.xterm = new XTerm({ cursorBlink: true });
+    this.fitAddon = new FitAddon();
+    this.xterm.loadAddon(this.fitAddon);
+    this.xterm.open(screen);
+
+    this.xterm.onData((data: string) => this.send(["stdin", data]));
+    // The shell wraps lines at the size the server thinks the screen is
+    this.xterm.onResize(({ rows, cols }: { rows: number; cols: number }) =>
+      this.send(["set_size", rows, cols])
+    );
+
+    window.addEventListener("resize", this.fit);
+    this.connect();
+    this.fit();
+  }
+
+  componentDidUpdate(prevProps: Props) {
+    if (prevProps.channel !== this.props.channel) {
+      this.connect();
+    }
+  }
+
+  componentWillUnmount() {
+    window.removeEventListener("resize", this.fit);
+    this.disconnect();
+    if (this.xterm) {
+      this.xterm.dispose();
+      this.xterm = null;
+    }
+  }
+
+  connect() {
+    const { channel } = this.props;
+    this.disconnect();
+    if (!channel || !this.xterm) {
+      return;
+    }
+
+    const xterm = this.xterm;
+    this.subscription = channel.subscribe(
+      message => {
+        const output = terminalOutput(message);
+        if (output !== null) {
+          xterm.write(output);
+        }
+      },
+      // The epic connected to the same websocket reports it closing
+      () => undefined
+    );
+    // A new session doesn't know the size of the screen yet
+    this.send(["set_size", xterm.rows, xterm.cols]);
+  }
+
+  disconnect() {
+    if (this.subscription) {
+      this.subscription.unsubscribe();
+      this.subscription = null;
+    }
+  }
+
+  send(message: any[]) {
+    const { channel } = this.props;
+    if (channel) {
+      channel.next(message);
+    }
+  }
+
+  fit = () => {
+    if (this.fitAddon) {
+      this.fitAddon.fit();
+    }
+  };
+
+  render() {
+    const { name, status, error, reconnect } = this.props;
+
+    return (
+      <div className="nteract-terminal">
+        <div className="nteract-terminal-header">
+          <span className="nteract-terminal-name">
+            {name ? `Terminal ${name}` : "Terminal"}
+          </span>
+          <span className="nteract-terminal-status">{status}</span>
+          {status === "disconnected" ? (
+            <button onClick={() => reconnect(name)}>Reconnect</button>
+          ) : null}
+        </div>
+        {error ? (
+          <div className="nteract-terminal-error">{error.toString()}</div>
+        ) : null}
+        <div className="nteract-terminal-screen" ref={this.screenRef} />
+      </div>
+    );
+  }
+}
+
+export const makeMapStateToProps = (
+  initialState: AppState,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapStateToProps = (state: AppState): StateProps => {
+    const content = selectors.content(state, { contentRef });
+    if (!content || content.type !== "terminal") {
+      return {
+        name: null,
+        channel: null,
+        status: "disconnected",
+        error: null
+      };
+    }
+    return {
+      name: content.model.name,
+      channel: content.model.channel,
+      status: content.model.status,
+      error: content.error || null
+    };
+  };
+  return mapStateToProps;
+};
+
+export const makeMapDispatchToProps = (
+  initialDispatch: Dispatch,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapDispatchToProps = (dispatch: Dispatch): DispatchProps => ({
+    reconnect: (name: string | null) =>
+      dispatch(actions.openTerminal({ contentRef, name }))
+  });
+  return mapDispatchToProps;
+};
+
+export default connect<StateProps, DispatchProps, ComponentProps, AppState>(
+  makeMapStateToProps,
+  makeMapDispatchToProps
+)(Terminal);
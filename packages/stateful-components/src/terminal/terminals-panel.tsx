@@ -0,0 +1,120 @@
+import React from "react";
+import { connect } from "react-redux";
+import { Dispatch } from "redux";
+
+import {
+  actions,
+  AppState,
+  ContentRef,
+  selectors,
+  TerminalsRecord
+} from "@nteract/core";
+
+interface ComponentProps {
+  // The terminal content that sessions are opened in
+  contentRef: ContentRef;
+}
+
+interface StateProps {
+  terminals: TerminalsRecord;
+  current: string | null;
+}
+
+interface DispatchProps {
+  fetchTerminals: () => void;
+  openTerminal: (name: string | null) => void;
+  killTerminal: (name: string) => void;
+}
+
+type Props = ComponentProps & StateProps & DispatchProps;
+
+export class TerminalsPanel extends React.PureComponent<Props> {
+  componentDidMount() {
+    this.props.fetchTerminals();
+  }
+
+  render() {
+    const {
+      terminals,
+      current,
+      fetchTerminals,
+      openTerminal,
+      killTerminal
+    } = this.props;
+
+    return (
+      <div className="nteract-terminals">
+        <div className="nteract-terminals-header">
+          Terminals
+          <button onClick={fetchTerminals}>Refresh</button>
+          <button onClick={() => openTerminal(null)}>New</button>
+        </div>
+        {terminals.error ? (
+          <div className="nteract-terminals-error">
+            {terminals.error.message}
+          </div>
+        ) : null}
+        {terminals.names.size === 0 && terminals.status === "fetched" ? (
+          <div className="nteract-terminals-empty">No terminals running</div>
+        ) : (
+          <ul className="nteract-terminals-list">
+            {terminals.names.map(name => (
+              <li
+                className={
+                  name === current
+                    ? "nteract-terminals-item current"
+                    : "nteract-terminals-item"
+                }
+                key={name}
+              >
+                <span className="nteract-terminals-name">{name}</span>
+                <button
+                  onClick={() => openTerminal(name)}
+                  disabled={name === current}
+                >
+                  Open
+                </button>
+                <button onClick={() => killTerminal(name)}>Kill</button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+}
+
+export const makeMapStateToProps = (
+  initialState: AppState,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapStateToProps = (state: AppState): StateProps => {
+    const content = selectors.content(state, { contentRef });
+    return {
+      terminals: selectors.terminals(state),
+      current:
+        content && content.type === "terminal" ? content.model.name : null
+    };
+  };
+  return mapStateToProps;
+};
+
+export const makeMapDispatchToProps = (
+  initialDispatch: Dispatch,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapDispatchToProps = (dispatch: Dispatch): DispatchProps => ({
+    fetchTerminals: () => dispatch(actions.fetchTerminals()),
+    openTerminal: (name: string | null) =>
+      dispatch(actions.openTerminal({ contentRef, name })),
+    killTerminal: (name: string) => dispatch(actions.killTerminal({ name }))
+  });
+  return mapDispatchToProps;
+};
+
+export default connect<StateProps, DispatchProps, ComponentProps, AppState>(
+  makeMapStateToProps,
+  makeMapDispatchToProps
+)(TerminalsPanel);
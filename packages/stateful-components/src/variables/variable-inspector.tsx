@@ -0,0 +1,172 @@
+import React from "react";
+import { connect } from "react-redux";
+import { Dispatch } from "redux";
+
+import {
+  actions,
+  AppState,
+  ContentRef,
+  KernelRef,
+  KernelVariable,
+  KernelVariablesRecord,
+  selectors
+} from "@nteract/core";
+import { Media, RichMedia } from "@nteract/outputs";
+import { SidebarItem } from "@nteract/presentational-components";
+
+interface ComponentProps {
+  contentRef: ContentRef;
+}
+
+interface StateProps {
+  kernelRef: KernelRef | null;
+  variables: KernelVariablesRecord | null;
+}
+
+interface DispatchProps {
+  fetchVariables: (kernelRef: KernelRef) => void;
+  inspectVariable: (kernelRef: KernelRef, name: string) => void;
+}
+
+type Props = ComponentProps & StateProps & DispatchProps;
+
+/**
+ * The details shown when expanding a variable.
+ */
+export function variableDetails(variable: KernelVariable) {
+  return [
+    { name: `type: ${variable.type}` },
+    ...(variable.shape !== null ? [{ name: `shape: ${variable.shape}` }] : []),
+    { name: variable.repr }
+  ];
+}
+
+export class VariableInspector extends React.PureComponent<Props> {
+  componentDidMount() {
+    this.fetchVariables();
+  }
+
+  componentDidUpdate(prevProps: Props) {
+    if (prevProps.kernelRef !== this.props.kernelRef) {
+      this.fetchVariables();
+    }
+  }
+
+  fetchVariables = () => {
+    const { kernelRef, fetchVariables } = this.props;
+    if (kernelRef) {
+      fetchVariables(kernelRef);
+    }
+  };
+
+  renderInspected(variables: KernelVariablesRecord) {
+    const { inspectedName, inspectedOutput } = variables;
+    if (!inspectedName) {
+      return null;
+    }
+
+    return (
+      <div className="nteract-variables-inspected">
+        <div className="nteract-variables-section">{inspectedName}</div>
+        {inspectedOutput ? (
+          <RichMedia
+            data={inspectedOutput.data}
+            metadata={inspectedOutput.metadata}
+          >
+            <Media.Json />
+            <Media.HTML />
+            <Media.Markdown />
+            <Media.LaTeX />
+            <Media.SVG />
+            <Media.Image />
+            <Media.Plain />
+          </RichMedia>
+        ) : (
+          <div className="nteract-variables-empty">Loading…</div>
+        )}
+      </div>
+    );
+  }
+
+  renderVariables(kernelRef: KernelRef, variables: KernelVariablesRecord) {
+    const { inspectVariable } = this.props;
+
+    return (
+      <React.Fragment>
+        {variables.error ? (
+          <div className="nteract-variables-error">{variables.error}</div>
+        ) : null}
+        {variables.variables.size === 0 && variables.status === "fetched" ? (
+          <div className="nteract-variables-empty">No variables defined</div>
+        ) : (
+          <ul className="nteract-variables-list">
+            {variables.variables.map(variable => (
+              <SidebarItem
+                key={variable.name}
+                level={0}
+                name={variable.name}
+                subItems={variableDetails(variable)}
+                onSelect={() => inspectVariable(kernelRef, variable.name)}
+              />
+            ))}
+          </ul>
+        )}
+        {this.renderInspected(variables)}
+      </React.Fragment>
+    );
+  }
+
+  render() {
+    const { kernelRef, variables } = this.props;
+
+    return (
+      <div className="nteract-variables">
+        <div className="nteract-variables-header">
+          <span>Variables</span>
+          <button
+            className="nteract-variables-refresh"
+            onClick={this.fetchVariables}
+            disabled={!kernelRef || variables?.status === "fetching"}
+          >
+            Refresh
+          </button>
+        </div>
+        {kernelRef && variables ? (
+          this.renderVariables(kernelRef, variables)
+        ) : (
+          <div className="nteract-variables-empty">No kernel running</div>
+        )}
+      </div>
+    );
+  }
+}
+
+export const makeMapStateToProps = (
+  initialState: AppState,
+  initialProps: ComponentProps
+) => {
+  const { contentRef } = initialProps;
+  const mapStateToProps = (state: AppState): StateProps => ({
+    kernelRef: selectors.kernelRefByContentRef(state, { contentRef }) || null,
+    variables: selectors.kernelVariablesByContentRef(state, { contentRef })
+  });
+  return mapStateToProps;
+};
+
+export const makeMapDispatchToProps = (
+  initialDispatch: Dispatch,
+  initialProps: ComponentProps
+) => {
+  const mapDispatchToProps = (dispatch: Dispatch): DispatchProps => ({
+    fetchVariables: (kernelRef: KernelRef) =>
+      dispatch(actions.fetchKernelVariables({ kernelRef })),
+    inspectVariable: (kernelRef: KernelRef, name: string) =>
+      dispatch(actions.inspectKernelVariable({ kernelRef, name }))
+  });
+  return mapDispatchToProps;
+};
+
+export default connect<StateProps, DispatchProps, ComponentProps, AppState>(
+  makeMapStateToProps,
+  makeMapDispatchToProps
+)(VariableInspector);
@@ -59,6 +59,14 @@ export interface IEmptyContent<FT extends FileType = FileType>
   content: null;
 }
 
+/**
+ * A saved version of a file, as listed by the checkpoints API
+ */
+export interface ICheckpoint {
+  id: string;
+  last_modified: string;
+}
+
 /**
  * Standardized interface to model operations supported by contents API
  */
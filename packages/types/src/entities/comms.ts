@@ -12,4 +12,41 @@ export const makeCommsRecord = Immutable.Record<CommsRecordProps>({
   targets: Immutable.Map(),
   info: Immutable.Map(),
   models: Immutable.Map()
-});
\ No newline at end of file
+});
+/**
+ * The comm target of Jupyter widgets.
+ */
+export const WIDGET_COMM_TARGET = "jupyter.widget";
+
+/**
+ * The key under `metadata.widgets` of a notebook that the state of its
+ * widgets is saved at.
+ */
+export const WIDGET_STATE_MIMETYPE = "application/vnd.jupyter.widget-state+json";
+
+/**
+ * The media type of outputs that display a widget.
+ */
+export const WIDGET_VIEW_MIMETYPE = "application/vnd.jupyter.widget-view+json";
+
+/**
+ * The saved state of a widget model. Binary values are taken out of `state`
+ * and listed in `buffers` with the path they go back to.
+ */
+export interface SavedWidgetModel {
+  model_name: string;
+  model_module: string;
+  model_module_version: string;
+  state: { [key: string]: any };
+  buffers?: Array<{
+    path: Array<string | number>;
+    encoding: "base64" | "hex";
+    data: string;
+  }>;
+}
+
+export interface WidgetStateMetadata {
+  version_major: number;
+  version_minor: number;
+  state: { [modelId: string]: SavedWidgetModel };
+}
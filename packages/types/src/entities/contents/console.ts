@@ -0,0 +1,77 @@
+import { ImmutableOutput } from "@nteract/commutable";
+import * as Immutable from "immutable";
+
+import { ContentRef, KernelRef } from "../../refs";
+
+export interface ConsoleEntryRecordProps {
+  id: string;
+  source: string;
+  executionCount: number | null;
+  outputs: Immutable.List<ImmutableOutput>;
+  // Whether the kernel is still running the input
+  running: boolean;
+}
+
+export const makeConsoleEntryRecord = Immutable.Record<ConsoleEntryRecordProps>({
+  id: "",
+  source: "",
+  executionCount: null,
+  outputs: Immutable.List(),
+  running: false
+});
+
+export type ConsoleEntryRecord = Immutable.RecordOf<ConsoleEntryRecordProps>;
+
+export interface ConsoleModelRecordProps {
+  type: "console";
+  kernelRef: KernelRef | null;
+  // The notebook whose kernel the console is attached to, if any
+  notebookRef: ContentRef | null;
+  // The transcript of executed inputs and their outputs, oldest first
+  transcript: Immutable.List<ConsoleEntryRecord>;
+  // The code at the prompt
+  prompt: string;
+  // Inputs the kernel ran before, oldest first
+  history: Immutable.List<string>;
+  // The input of the history shown at the prompt, or null when not navigating
+  historyIndex: number | null;
+  // What was typed at the prompt before navigating the history
+  draft: string;
+}
+
+export const makeConsoleModelRecord = Immutable.Record<ConsoleModelRecordProps>({
+  type: "console",
+  kernelRef: null,
+  notebookRef: null,
+  transcript: Immutable.List(),
+  prompt: "",
+  history: Immutable.List(),
+  historyIndex: null,
+  draft: ""
+});
+
+export type ConsoleModelRecord = Immutable.RecordOf<ConsoleModelRecordProps>;
+
+export interface ConsoleContentRecordProps {
+  type: "console";
+  mimetype?: string | null;
+  lastSaved: null;
+  filepath: string;
+  model: ConsoleModelRecord;
+  saving: boolean;
+  loading: boolean;
+  error?: object | null;
+}
+
+export const makeConsoleContentRecord = Immutable.Record<ConsoleContentRecordProps>({
+  type: "console",
+  mimetype: null,
+  lastSaved: null,
+  filepath: "",
+  model: makeConsoleModelRecord(),
+  saving: false,
+  loading: false,
+  error: null
+});
+
+export type ConsoleContentRecord = Immutable.RecordOf<ConsoleContentRecordProps>;
@@ -3,10 +3,12 @@ import * as Immutable from "immutable";
 export interface FileModelRecordProps {
   type: "file";
   text: string;
+  savedText: string;
 }
 export const makeFileModelRecord = Immutable.Record<FileModelRecordProps>({
   type: "file",
-  text: ""
+  text: "",
+  savedText: ""
 });
 export type FileModelRecord = Immutable.RecordOf<FileModelRecordProps>;
 
@@ -2,15 +2,19 @@ import * as Immutable from "immutable";
 
 import { ContentRef } from "../../refs";
 
+import { ConsoleContentRecord, ConsoleModelRecord } from "./console";
 import { DirectoryContentRecord, DirectoryModelRecord } from "./directory";
 import { DummyContentRecord, EmptyModelRecord } from "./dummy";
 import { FileContentRecord, FileModelRecord } from "./file";
 import { NotebookContentRecord, NotebookModel } from "./notebook";
+import { TerminalContentRecord, TerminalModelRecord } from "./terminal";
 
 export * from "./notebook";
 export * from "./directory";
 export * from "./dummy";
 export * from "./file";
+export * from "./console";
+export * from "./terminal";
 
 export interface AuthorObject {
   name: string;
@@ -27,12 +31,16 @@ export type ContentModel =
   | NotebookModel
   | DirectoryModelRecord
   | FileModelRecord
+  | ConsoleModelRecord
+  | TerminalModelRecord
   | EmptyModelRecord;
 
 export type ContentRecord =
   | NotebookContentRecord
   | DummyContentRecord
   | FileContentRecord
+  | ConsoleContentRecord
+  | TerminalContentRecord
   | DirectoryContentRecord;
 
 export interface ContentsRecordProps {
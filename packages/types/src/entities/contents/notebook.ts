@@ -1,6 +1,7 @@
 // Vendor modules
 import {
   CellId,
+  CellNames,
   emptyNotebook,
   ImmutableCell,
   ImmutableNotebook
@@ -52,6 +53,20 @@ export interface BookstoreDataModel {
   format: "json";
 }
 
+export interface NotebookVersionProps {
+  notebook: ImmutableNotebook;
+  // Code cells whose outputs and execution counts the edit changed, e.g. by
+  // clearing them, so they're brought back along with the rest of the version
+  outputCells: Immutable.Set<CellId>;
+}
+
+export const makeNotebookVersion = Immutable.Record<NotebookVersionProps>({
+  notebook: emptyNotebook,
+  outputCells: Immutable.Set()
+});
+
+export type NotebookVersion = Immutable.RecordOf<NotebookVersionProps>;
+
 export interface DocumentRecordProps {
   type: "notebook";
   notebook: ImmutableNotebook;
@@ -66,7 +81,23 @@ export interface DocumentRecordProps {
   editorFocused?: CellId | null;
   cellFocused?: CellId | null;
   copied: ImmutableCell | null;
+  // Cells copied together from a multi-cell selection, in notebook order
+  copiedCells: Immutable.List<ImmutableCell>;
   kernelRef?: KernelRef | null;
+  // Earlier versions of the notebook to undo to, most recent last
+  undoStack: Immutable.List<NotebookVersion>;
+  // Undone versions of the notebook to redo, most recent last
+  redoStack: Immutable.List<NotebookVersion>;
+  // Consecutive edits in the same group, like typing in one cell, undo together
+  undoGroup: string | null;
+  // Keep running the queued cells after one raised an error instead of cancelling them
+  continueOnError: boolean;
+  // Re-run the cells using the names a cell defines after it runs
+  reactive: boolean;
+  // The names each code cell defined and used when it last ran, in reactive mode
+  dependencies: Immutable.Map<CellId, CellNames>;
+  // Cells whose outputs may be out of date since a cell they depend on ran
+  staleCells: Immutable.Set<CellId>;
 }
 
 export const makeDocumentRecord = Immutable.Record<DocumentRecordProps>({
@@ -81,11 +112,43 @@ export const makeDocumentRecord = Immutable.Record<DocumentRecordProps>({
   editorFocused: null,
   cellFocused: null,
   copied: null,
-  kernelRef: null
+  copiedCells: Immutable.List(),
+  kernelRef: null,
+  undoStack: Immutable.List(),
+  redoStack: Immutable.List(),
+  undoGroup: null,
+  continueOnError: false,
+  reactive: false,
+  dependencies: Immutable.Map(),
+  staleCells: Immutable.Set()
 });
 
 export type NotebookModel = Immutable.RecordOf<DocumentRecordProps>;
 
+export interface CheckpointRecordProps {
+  id: string;
+  lastModified: Date | null;
+}
+
+export const makeCheckpointRecord = Immutable.Record<CheckpointRecordProps>({
+  id: "",
+  lastModified: null
+});
+
+export type CheckpointRecord = Immutable.RecordOf<CheckpointRecordProps>;
+
+export interface RecoveryRecordProps {
+  journaledAt: Date | null;
+  notebook: ImmutableNotebook;
+}
+
+export const makeRecoveryRecord = Immutable.Record<RecoveryRecordProps>({
+  journaledAt: null,
+  notebook: emptyNotebook
+});
+
+export type RecoveryRecord = Immutable.RecordOf<RecoveryRecordProps>;
+
 export interface NotebookContentRecordProps {
   mimetype?: string | null;
   created?: Date | null;
@@ -99,6 +162,10 @@ export interface NotebookContentRecordProps {
   loading: boolean;
   error?: object | null;
   showHeaderEditor?: boolean;
+  // Saved versions of the notebook, newest first
+  checkpoints: Immutable.List<CheckpointRecord>;
+  // Unsaved edits from a previous session that can be restored
+  recovery: RecoveryRecord | null;
 }
 
 export const makeNotebookContentRecord = Immutable.Record<
@@ -115,7 +182,9 @@ export const makeNotebookContentRecord = Immutable.Record<
   saving: false,
   loading: false,
   error: null,
-  showHeaderEditor: false
+  showHeaderEditor: false,
+  checkpoints: Immutable.List(),
+  recovery: null
 });
 
 export type NotebookContentRecord = Immutable.RecordOf<
@@ -0,0 +1,49 @@
+import * as Immutable from "immutable";
+import { Subject } from "rxjs";
+
+/**
+ * The websocket of a terminal session, its messages are JSON arrays like
+ * ["stdout", "..."] or ["set_size", rows, cols].
+ */
+export type TerminalChannel = Subject<any>;
+
+export interface TerminalModelRecordProps {
+  type: "terminal";
+  // The name the server gave the terminal session, null until it is created
+  name: string | null;
+  channel: TerminalChannel | null;
+  status: "connecting" | "connected" | "disconnected";
+}
+
+export const makeTerminalModelRecord = Immutable.Record<TerminalModelRecordProps>({
+  type: "terminal",
+  name: null,
+  channel: null,
+  status: "connecting"
+});
+
+export type TerminalModelRecord = Immutable.RecordOf<TerminalModelRecordProps>;
+
+export interface TerminalContentRecordProps {
+  type: "terminal";
+  mimetype?: string | null;
+  lastSaved: null;
+  filepath: string;
+  model: TerminalModelRecord;
+  saving: boolean;
+  loading: boolean;
+  error?: object | null;
+}
+
+export const makeTerminalContentRecord = Immutable.Record<TerminalContentRecordProps>({
+  type: "terminal",
+  mimetype: null,
+  lastSaved: null,
+  filepath: "",
+  model: makeTerminalModelRecord(),
+  saving: false,
+  loading: false,
+  error: null
+});
+
+export type TerminalContentRecord = Immutable.RecordOf<TerminalContentRecordProps>;
@@ -0,0 +1,84 @@
+import { CellId } from "@nteract/commutable";
+import * as Immutable from "immutable";
+
+import { KernelRef } from "../refs";
+
+/**
+ * A frame of the call stack of a paused kernel, as reported by the Debug
+ * Adapter Protocol.
+ */
+export interface DebugStackFrame {
+  id: number;
+  name: string;
+  line: number;
+  column: number;
+  /**
+   * The file the frame's code lives in. Cells are dumped to files by the
+   * kernel so that they can be debugged.
+   */
+  path?: string;
+}
+
+export interface DebugVariable {
+  name: string;
+  value: string;
+  type?: string;
+  /**
+   * Non-zero when the variable has children that can be fetched
+   */
+  variablesReference: number;
+}
+
+export interface DebugScope {
+  name: string;
+  variables: DebugVariable[];
+}
+
+export type DebugSessionStatus = "starting" | "running" | "paused";
+
+export interface DebugSessionRecordProps {
+  status: DebugSessionStatus;
+  /**
+   * The file the kernel dumped each cell to
+   */
+  sourcePaths: Immutable.Map<CellId, string>;
+  /**
+   * The thread that hit a breakpoint or finished a step
+   */
+  stoppedThreadId: number | null;
+  stackFrames: Immutable.List<DebugStackFrame>;
+  /**
+   * The frame whose variables are shown
+   */
+  frameId: number | null;
+  scopes: Immutable.List<DebugScope>;
+}
+
+export type DebugSessionRecord = Immutable.RecordOf<DebugSessionRecordProps>;
+
+export const makeDebugSessionRecord = Immutable.Record<DebugSessionRecordProps>({
+  status: "starting",
+  sourcePaths: Immutable.Map(),
+  stoppedThreadId: null,
+  stackFrames: Immutable.List(),
+  frameId: null,
+  scopes: Immutable.List()
+});
+
+export interface DebuggersRecordProps {
+  /**
+   * The (1-based) lines of each cell that have a breakpoint
+   */
+  breakpoints: Immutable.Map<CellId, Immutable.Set<number>>;
+  /**
+   * Debug sessions, by the kernel being debugged
+   */
+  byRef: Immutable.Map<KernelRef, DebugSessionRecord>;
+}
+
+export type DebuggersRecord = Immutable.RecordOf<DebuggersRecordProps>;
+
+export const makeDebuggersRecord = Immutable.Record<DebuggersRecordProps>({
+  breakpoints: Immutable.Map(),
+  byRef: Immutable.Map()
+});
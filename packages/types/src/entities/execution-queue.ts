@@ -0,0 +1,41 @@
+import { CellId } from "@nteract/commutable";
+import * as Immutable from "immutable";
+
+import { ContentRef, KernelRef } from "../refs";
+
+/**
+ * A cell waiting for, or holding, its turn on a kernel.
+ */
+export interface QueuedExecution {
+  contentRef: ContentRef;
+  id: CellId;
+}
+
+export interface KernelExecutionQueueRecordProps {
+  /**
+   * The cell whose execute request the kernel is working on, the next one is
+   * only sent once it went idle
+   */
+  running: QueuedExecution | null;
+  /**
+   * The cells waiting to be sent to the kernel, in the order they'll run
+   */
+  queued: Immutable.List<QueuedExecution>;
+}
+
+export type KernelExecutionQueueRecord = Immutable.RecordOf<KernelExecutionQueueRecordProps>;
+
+export const makeKernelExecutionQueueRecord = Immutable.Record<KernelExecutionQueueRecordProps>({
+  running: null,
+  queued: Immutable.List()
+});
+
+export interface ExecutionQueueRecordProps {
+  byKernelRef: Immutable.Map<KernelRef, KernelExecutionQueueRecord>;
+}
+
+export type ExecutionQueueRecord = Immutable.RecordOf<ExecutionQueueRecordProps>;
+
+export const makeExecutionQueueRecord = Immutable.Record<ExecutionQueueRecordProps>({
+  byKernelRef: Immutable.Map()
+});
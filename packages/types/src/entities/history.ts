@@ -0,0 +1,57 @@
+import * as Immutable from "immutable";
+
+import { KernelRef } from "../refs";
+
+/**
+ * What to list of the history of a kernel:
+ *
+ * - `tail`, the most recent inputs
+ * - `search`, the most recent inputs matching a glob pattern, like `*import*`
+ * - `range`, the inputs from line `start` up to `stop` of a session, where
+ *   session 0 is the current one and negative ones count back from it
+ */
+export type KernelHistoryQuery =
+  | { mode: "tail" }
+  | { mode: "search"; pattern: string }
+  | { mode: "range"; session: number; start: number; stop: number };
+
+/**
+ * An input the kernel ran, as listed by its history.
+ */
+export interface KernelHistoryInput {
+  session: number;
+  line: number;
+  source: string;
+}
+
+export interface KernelHistoryRecordProps {
+  status: "fetching" | "fetched" | "error";
+  query: KernelHistoryQuery;
+  /**
+   * The pages fetched so far, newest inputs first except for ranges which are
+   * listed in order
+   */
+  inputs: Immutable.List<KernelHistoryInput>;
+  hasMore: boolean;
+  error: string | null;
+}
+
+export type KernelHistoryRecord = Immutable.RecordOf<KernelHistoryRecordProps>;
+
+export const makeKernelHistoryRecord = Immutable.Record<KernelHistoryRecordProps>({
+  status: "fetching",
+  query: { mode: "tail" },
+  inputs: Immutable.List(),
+  hasMore: false,
+  error: null
+});
+
+export interface HistoryRecordProps {
+  byKernelRef: Immutable.Map<KernelRef, KernelHistoryRecord>;
+}
+
+export type HistoryRecord = Immutable.RecordOf<HistoryRecordProps>;
+
+export const makeHistoryRecord = Immutable.Record<HistoryRecordProps>({
+  byKernelRef: Immutable.Map()
+});
@@ -1,18 +1,26 @@
 import * as Immutable from "immutable";
 
 import { ContentsRecordProps, makeContentsRecord } from "./contents";
+import { DebuggersRecordProps, makeDebuggersRecord } from "./debuggers";
+import { ExecutionQueueRecordProps, makeExecutionQueueRecord } from "./execution-queue";
+import { HistoryRecordProps, makeHistoryRecord } from "./history";
 import { HostsRecordProps, makeHostsRecord } from "./hosts";
 import { KernelsRecordProps, makeKernelsRecord } from "./kernels";
 import { KernelspecsRecordProps, makeKernelspecsRecord } from "./kernelspecs";
 import { makeMessagesRecord, MessagesRecordProps } from "./messages";
 import { makeModalsRecord, ModalsRecordProps } from "./modals";
 import { makeSidebarRecord, SidebarRecordProps } from "./sidebar";
+import { makeTerminalsRecord, TerminalsRecordProps } from "./terminals";
 import { makeTransformsRecord, TransformsRecordProps } from "./transforms";
+import { makeVariablesRecord, VariablesRecordProps } from "./variables";
 import { makeCommsRecord, CommsRecordProps } from "./comms";
 import { makeEditorsRecord, EditorComponentProps} from "./editors"
 
 export * from "./comms";
 export * from "./contents";
+export * from "./debuggers";
+export * from "./execution-queue";
+export * from "./history";
 export * from "./hosts";
 export * from "./kernels";
 export * from "./kernel-info";
@@ -21,11 +29,16 @@ export * from "./messages";
 export * from "./modals";
 export * from "./transforms";
 export * from "./sidebar";
+export * from "./terminals";
 export * from "./editors";
+export * from "./variables";
 
 export interface EntitiesRecordProps {
   comms: Immutable.RecordOf<CommsRecordProps>;
   contents: Immutable.RecordOf<ContentsRecordProps>;
+  debuggers: Immutable.RecordOf<DebuggersRecordProps>;
+  executionQueue: Immutable.RecordOf<ExecutionQueueRecordProps>;
+  history: Immutable.RecordOf<HistoryRecordProps>;
   hosts: Immutable.RecordOf<HostsRecordProps>;
   kernels: Immutable.RecordOf<KernelsRecordProps>;
   kernelspecs: Immutable.RecordOf<KernelspecsRecordProps>;
@@ -33,7 +46,9 @@ export interface EntitiesRecordProps {
   transforms: Immutable.RecordOf<TransformsRecordProps>;
   messages: Immutable.RecordOf<MessagesRecordProps>;
   sidebar: Immutable.RecordOf<SidebarRecordProps>;
+  terminals: Immutable.RecordOf<TerminalsRecordProps>;
   editors: Immutable.RecordOf<EditorComponentProps>;
+  variables: Immutable.RecordOf<VariablesRecordProps>;
 }
 
 export type EntitiesRecord = Immutable.RecordOf<EntitiesRecordProps>;
@@ -41,6 +56,9 @@ export type EntitiesRecord = Immutable.RecordOf<EntitiesRecordProps>;
 export const makeEntitiesRecord = Immutable.Record<EntitiesRecordProps>({
   comms: makeCommsRecord(),
   contents: makeContentsRecord(),
+  debuggers: makeDebuggersRecord(),
+  executionQueue: makeExecutionQueueRecord(),
+  history: makeHistoryRecord(),
   hosts: makeHostsRecord(),
   kernels: makeKernelsRecord(),
   kernelspecs: makeKernelspecsRecord(),
@@ -48,5 +66,7 @@ export const makeEntitiesRecord = Immutable.Record<EntitiesRecordProps>({
   transforms: makeTransformsRecord(),
   messages: makeMessagesRecord(),
   sidebar: makeSidebarRecord(),
+  terminals: makeTerminalsRecord(),
   editors: makeEditorsRecord(),
+  variables: makeVariablesRecord(),
 });
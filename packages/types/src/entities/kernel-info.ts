@@ -87,6 +87,10 @@ export interface KernelInfo {
   // exporter.
   // SPEC: language_info.nbconvert_exporter
   nbconvertExporter: string;
+
+  // Whether the kernel supports debugging through debug_request messages
+  // SPEC: debugger
+  debugger?: boolean;
 }
 
 export type KernelInfoRecord = Immutable.RecordOf<KernelInfo>;
@@ -107,7 +111,8 @@ const kernelInfoRecordMaker = Immutable.Record<KernelInfo>({
   fileExtension: "",
   pygmentsLexer: "",
   codemirrorMode: "text/plain",
-  nbconvertExporter: ""
+  nbconvertExporter: "",
+  debugger: false
 });
 
 export function makeKernelInfoRecord(kernelInfo: KernelInfo): KernelInfoRecord {
@@ -0,0 +1,16 @@
+import * as Immutable from "immutable";
+
+export interface TerminalsRecordProps {
+  // The names of the terminal sessions running on the server
+  names: Immutable.List<string>;
+  status: "fetching" | "fetched" | "error";
+  error: Error | null;
+}
+
+export const makeTerminalsRecord = Immutable.Record<TerminalsRecordProps>({
+  names: Immutable.List(),
+  status: "fetched",
+  error: null
+});
+
+export type TerminalsRecord = Immutable.RecordOf<TerminalsRecordProps>;
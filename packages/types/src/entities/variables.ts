@@ -0,0 +1,61 @@
+import { JSONObject, MediaBundle } from "@nteract/commutable";
+import * as Immutable from "immutable";
+
+import { KernelRef } from "../refs";
+
+/**
+ * A variable in the namespace of a kernel, as listed by the variable
+ * inspector.
+ */
+export interface KernelVariable {
+  name: string;
+  type: string;
+  /**
+   * Dimensions of arrays and data frames, or the length of collections
+   */
+  shape: string | null;
+  /**
+   * Short, possibly truncated, representation of the value
+   */
+  repr: string;
+}
+
+/**
+ * The rich representation of a variable, rendered like an output.
+ */
+export interface KernelVariableOutput {
+  data: MediaBundle;
+  metadata: JSONObject;
+}
+
+export interface KernelVariablesRecordProps {
+  status: "fetching" | "fetched" | "error";
+  variables: Immutable.List<KernelVariable>;
+  error: string | null;
+  inspectedName: string | null;
+  inspectedOutput: KernelVariableOutput | null;
+}
+
+export type KernelVariablesRecord = Immutable.RecordOf<KernelVariablesRecordProps>;
+
+export const makeKernelVariablesRecord = Immutable.Record<KernelVariablesRecordProps>({
+  status: "fetching",
+  variables: Immutable.List(),
+  error: null,
+  inspectedName: null,
+  inspectedOutput: null
+});
+
+export interface VariablesRecordProps {
+  /**
+   * Only kernels whose variables were asked for at least once are listed,
+   * the others aren't queried after each execution
+   */
+  byKernelRef: Immutable.Map<KernelRef, KernelVariablesRecord>;
+}
+
+export type VariablesRecord = Immutable.RecordOf<VariablesRecordProps>;
+
+export const makeVariablesRecord = Immutable.Record<VariablesRecordProps>({
+  byKernelRef: Immutable.Map()
+});
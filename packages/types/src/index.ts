@@ -11,6 +11,7 @@ import { KernelRef, KernelspecsRef } from "./refs";
 export * from "./content-provider";
 export * from "./entities";
 export * from "./ids";
+export * from "./recovery-journal";
 export * from "./refs";
 
 import * as errors from "./errors";
@@ -0,0 +1,23 @@
+import { Notebook } from "@nteract/commutable";
+import { Observable } from "rxjs";
+
+/**
+ * A snapshot of unsaved edits to a notebook, kept around so they can be
+ * recovered when the app goes away before they are saved.
+ */
+export interface IJournalEntry {
+  filepath: string;
+  // ISO 8601 timestamp of when the snapshot was taken
+  journaledAt: string;
+  notebook: Notebook;
+}
+
+/**
+ * Storage for crash recovery snapshots, at most one per filepath
+ */
+export interface IRecoveryJournal {
+  write(entry: IJournalEntry): Observable<void>;
+  // Emits null when there is no snapshot for the filepath
+  read(filepath: string): Observable<IJournalEntry | null>;
+  discard(filepath: string): Observable<void>;
+}
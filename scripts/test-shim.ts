@@ -17,6 +17,13 @@ global.Blob = function(content: any[], options: object): any {
   return { content, options };
 };
 
+/**
+ * JSDOM doesn't implement the Encoding API, use the one of Node.
+ */
+import { TextDecoder, TextEncoder } from "util";
+global.TextEncoder = TextEncoder;
+global.TextDecoder = TextDecoder;
+
 /**
  * Mock jQuery to allow jupyter-widgets tests to run.
  */